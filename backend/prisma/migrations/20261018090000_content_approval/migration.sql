@@ -0,0 +1,165 @@
+-- CreateEnum
+CREATE TYPE "public"."ApprovalRequestStatus" AS ENUM ('PENDING', 'IN_REVIEW', 'APPROVED', 'REJECTED', 'NEEDS_CHANGES', 'WITHDRAWN');
+
+-- CreateEnum
+CREATE TYPE "public"."ApprovalPriority" AS ENUM ('LOW', 'NORMAL', 'HIGH', 'URGENT');
+
+-- CreateEnum
+CREATE TYPE "public"."ApprovalAction" AS ENUM ('APPROVE', 'REJECT', 'REQUEST_CHANGES', 'COMMENT');
+
+-- CreateEnum
+CREATE TYPE "public"."ApprovalDecision" AS ENUM ('APPROVED', 'REJECTED', 'NEEDS_CHANGES');
+
+-- CreateEnum
+CREATE TYPE "public"."ApprovalCommentType" AS ENUM ('GENERAL', 'SUGGESTION', 'QUESTION', 'CONCERN', 'PRAISE');
+
+-- CreateTable
+CREATE TABLE "public"."approval_workflows" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "steps" JSONB NOT NULL,
+    "rules" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "approval_workflows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."content_approval_requests" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "contentPieceId" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "submitterId" TEXT NOT NULL,
+    "currentStep" INTEGER NOT NULL DEFAULT 0,
+    "status" "public"."ApprovalRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "priority" "public"."ApprovalPriority" NOT NULL DEFAULT 'NORMAL',
+    "deadline" TIMESTAMP(3),
+    "metadata" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "content_approval_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."content_revisions" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT,
+    "body" TEXT NOT NULL,
+    "hashtags" TEXT[],
+    "mentions" TEXT[],
+    "mediaRefs" JSONB,
+    "changes" JSONB NOT NULL,
+    "submitterId" TEXT NOT NULL,
+    "submitterName" TEXT NOT NULL,
+    "submissionNotes" TEXT,
+    "autoChecks" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "content_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."content_approval_decisions" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "stepId" TEXT NOT NULL,
+    "stepName" TEXT NOT NULL,
+    "reviewerId" TEXT NOT NULL,
+    "reviewerName" TEXT NOT NULL,
+    "action" "public"."ApprovalAction" NOT NULL,
+    "decision" "public"."ApprovalDecision" NOT NULL,
+    "comments" TEXT,
+    "criteria" JSONB,
+    "suggestedChanges" JSONB,
+    "timeSpent" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "content_approval_decisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."approval_comments" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "authorName" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "type" "public"."ApprovalCommentType" NOT NULL DEFAULT 'GENERAL',
+    "isResolved" BOOLEAN NOT NULL DEFAULT false,
+    "resolvedBy" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "mentions" TEXT[],
+    "attachments" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "approval_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "approval_workflows_organizationId_idx" ON "public"."approval_workflows"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "approval_workflows_isActive_idx" ON "public"."approval_workflows"("isActive");
+
+-- CreateIndex
+CREATE INDEX "content_approval_requests_organizationId_idx" ON "public"."content_approval_requests"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "content_approval_requests_contentPieceId_idx" ON "public"."content_approval_requests"("contentPieceId");
+
+-- CreateIndex
+CREATE INDEX "content_approval_requests_workflowId_idx" ON "public"."content_approval_requests"("workflowId");
+
+-- CreateIndex
+CREATE INDEX "content_approval_requests_status_idx" ON "public"."content_approval_requests"("status");
+
+-- CreateIndex
+CREATE INDEX "content_approval_requests_priority_idx" ON "public"."content_approval_requests"("priority");
+
+-- CreateIndex
+CREATE INDEX "content_revisions_requestId_idx" ON "public"."content_revisions"("requestId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "content_revisions_requestId_version_key" ON "public"."content_revisions"("requestId", "version");
+
+-- CreateIndex
+CREATE INDEX "content_approval_decisions_requestId_idx" ON "public"."content_approval_decisions"("requestId");
+
+-- CreateIndex
+CREATE INDEX "content_approval_decisions_reviewerId_idx" ON "public"."content_approval_decisions"("reviewerId");
+
+-- CreateIndex
+CREATE INDEX "approval_comments_requestId_idx" ON "public"."approval_comments"("requestId");
+
+-- CreateIndex
+CREATE INDEX "approval_comments_authorId_idx" ON "public"."approval_comments"("authorId");
+
+-- AddForeignKey
+ALTER TABLE "public"."approval_workflows" ADD CONSTRAINT "approval_workflows_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."content_approval_requests" ADD CONSTRAINT "content_approval_requests_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."content_approval_requests" ADD CONSTRAINT "content_approval_requests_contentPieceId_fkey" FOREIGN KEY ("contentPieceId") REFERENCES "public"."content_pieces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."content_approval_requests" ADD CONSTRAINT "content_approval_requests_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "public"."approval_workflows"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."content_revisions" ADD CONSTRAINT "content_revisions_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "public"."content_approval_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."content_approval_decisions" ADD CONSTRAINT "content_approval_decisions_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "public"."content_approval_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."approval_comments" ADD CONSTRAINT "approval_comments_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "public"."content_approval_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
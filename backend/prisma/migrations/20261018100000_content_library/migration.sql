@@ -0,0 +1,138 @@
+-- CreateEnum
+CREATE TYPE "public"."LibraryItemType" AS ENUM ('CONTENT_PIECE', 'TEMPLATE', 'ASSET', 'CAMPAIGN', 'SERIES', 'IDEA');
+
+-- CreateEnum
+CREATE TYPE "public"."LibraryItemStatus" AS ENUM ('DRAFT', 'APPROVED', 'PUBLISHED', 'ARCHIVED', 'TEMPLATE');
+
+-- CreateTable
+CREATE TABLE "public"."content_library_items" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "type" "public"."LibraryItemType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "status" "public"."LibraryItemStatus" NOT NULL DEFAULT 'DRAFT',
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "body" TEXT,
+    "platform" TEXT,
+    "contentType" TEXT,
+    "hashtags" TEXT[],
+    "mentions" TEXT[],
+    "mediaRefs" JSONB,
+    "authorId" TEXT NOT NULL,
+    "authorName" TEXT NOT NULL,
+    "pillarId" TEXT,
+    "seriesId" TEXT,
+    "campaignId" TEXT,
+    "tags" TEXT[],
+    "categories" TEXT[],
+    "impressions" INTEGER,
+    "engagement" DOUBLE PRECISION,
+    "clicks" INTEGER,
+    "conversions" INTEGER,
+    "performanceScore" DOUBLE PRECISION,
+    "timesUsed" INTEGER NOT NULL DEFAULT 0,
+    "copiedCount" INTEGER NOT NULL DEFAULT 0,
+    "sharedCount" INTEGER NOT NULL DEFAULT 0,
+    "lastUsedAt" TIMESTAMP(3),
+    "aiGenerated" BOOLEAN NOT NULL DEFAULT false,
+    "generatedBy" TEXT,
+    "aiConfidence" DOUBLE PRECISION,
+    "aiVariations" INTEGER,
+    "isPublic" BOOLEAN NOT NULL DEFAULT false,
+    "sharedWith" TEXT[],
+    "canEdit" TEXT[],
+    "canView" TEXT[],
+    "searchVector" tsvector,
+    "publishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "content_library_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."content_collections" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "color" TEXT,
+    "icon" TEXT,
+    "ownerId" TEXT NOT NULL,
+    "tags" TEXT[],
+    "isPublic" BOOLEAN NOT NULL DEFAULT false,
+    "sharedWith" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "content_collections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."content_collection_items" (
+    "collectionId" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "addedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "content_collection_items_pkey" PRIMARY KEY ("collectionId","itemId")
+);
+
+-- CreateIndex
+CREATE INDEX "content_library_items_organizationId_idx" ON "public"."content_library_items"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "content_library_items_organizationId_type_idx" ON "public"."content_library_items"("organizationId", "type");
+
+-- CreateIndex
+CREATE INDEX "content_library_items_organizationId_status_idx" ON "public"."content_library_items"("organizationId", "status");
+
+-- CreateIndex
+CREATE INDEX "content_library_items_authorId_idx" ON "public"."content_library_items"("authorId");
+
+-- CreateIndex
+CREATE INDEX "content_library_items_searchVector_idx" ON "public"."content_library_items" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "content_library_items_tags_idx" ON "public"."content_library_items" USING GIN ("tags");
+
+-- CreateIndex
+CREATE INDEX "content_collections_organizationId_idx" ON "public"."content_collections"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "content_collections_ownerId_idx" ON "public"."content_collections"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "content_collection_items_itemId_idx" ON "public"."content_collection_items"("itemId");
+
+-- AddForeignKey
+ALTER TABLE "public"."content_library_items" ADD CONSTRAINT "content_library_items_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."content_collections" ADD CONSTRAINT "content_collections_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."content_collection_items" ADD CONSTRAINT "content_collection_items_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "public"."content_collections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."content_collection_items" ADD CONSTRAINT "content_collection_items_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "public"."content_library_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CreateFunction
+-- array_to_string is only STABLE, so the vector cannot be a generated column; keep it current with a trigger instead.
+CREATE FUNCTION "public"."content_library_items_search_vector_update"() RETURNS trigger AS $$
+BEGIN
+    NEW."searchVector" :=
+        setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+        setweight(to_tsvector('english', array_to_string(coalesce(NEW."tags", '{}'), ' ')), 'B') ||
+        setweight(to_tsvector('english', array_to_string(coalesce(NEW."hashtags", '{}'), ' ')), 'B') ||
+        setweight(to_tsvector('english', coalesce(NEW."description", '')), 'C') ||
+        setweight(to_tsvector('english', coalesce(NEW."body", '')), 'C');
+    RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+-- CreateTrigger
+CREATE TRIGGER "content_library_items_search_vector_trigger"
+    BEFORE INSERT OR UPDATE OF "title", "description", "body", "tags", "hashtags"
+    ON "public"."content_library_items"
+    FOR EACH ROW EXECUTE FUNCTION "public"."content_library_items_search_vector_update"();
@@ -0,0 +1,101 @@
+-- CreateEnum
+CREATE TYPE "public"."ABTestStatus" AS ENUM ('DRAFT', 'RUNNING', 'PAUSED', 'COMPLETED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "public"."ABTestType" AS ENUM ('CONTENT', 'HASHTAGS', 'MEDIA', 'POSTING_TIME', 'CALL_TO_ACTION', 'FORMAT');
+
+-- CreateEnum
+CREATE TYPE "public"."ABTestMetric" AS ENUM ('ENGAGEMENT_RATE', 'CLICK_THROUGH_RATE', 'REACH', 'IMPRESSIONS', 'CONVERSIONS');
+
+-- AlterTable
+ALTER TABLE "public"."scheduled_posts" ADD COLUMN "abTestVariantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."ab_tests" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "testType" "public"."ABTestType" NOT NULL,
+    "status" "public"."ABTestStatus" NOT NULL DEFAULT 'DRAFT',
+    "platforms" "public"."Platform"[],
+    "successMetric" "public"."ABTestMetric" NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "actualStartDate" TIMESTAMP(3),
+    "actualEndDate" TIMESTAMP(3),
+    "stopReason" TEXT,
+    "trafficSplit" DOUBLE PRECISION[],
+    "minimumSampleSize" INTEGER NOT NULL DEFAULT 100,
+    "confidenceLevel" DOUBLE PRECISION NOT NULL DEFAULT 95,
+    "sequentialTesting" BOOLEAN NOT NULL DEFAULT false,
+    "winner" TEXT,
+    "confidence" DOUBLE PRECISION,
+    "statisticalSignificance" BOOLEAN NOT NULL DEFAULT false,
+    "results" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ab_tests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ab_test_variants" (
+    "id" TEXT NOT NULL,
+    "abTestId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "content" TEXT,
+    "hashtags" TEXT[],
+    "mediaUrls" TEXT[],
+    "postingTime" TIMESTAMP(3),
+    "metadata" JSONB,
+    "trafficPercentage" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ab_test_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ab_test_recommendations" (
+    "id" TEXT NOT NULL,
+    "abTestId" TEXT NOT NULL,
+    "winningVariant" TEXT NOT NULL,
+    "recommendations" TEXT[],
+    "insights" TEXT[],
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ab_test_recommendations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scheduled_posts_abTestVariantId_idx" ON "public"."scheduled_posts"("abTestVariantId");
+
+-- CreateIndex
+CREATE INDEX "ab_tests_organizationId_idx" ON "public"."ab_tests"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "ab_tests_status_idx" ON "public"."ab_tests"("status");
+
+-- CreateIndex
+CREATE INDEX "ab_test_variants_abTestId_idx" ON "public"."ab_test_variants"("abTestId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ab_test_variants_abTestId_name_key" ON "public"."ab_test_variants"("abTestId", "name");
+
+-- CreateIndex
+CREATE INDEX "ab_test_recommendations_abTestId_idx" ON "public"."ab_test_recommendations"("abTestId");
+
+-- AddForeignKey
+ALTER TABLE "public"."scheduled_posts" ADD CONSTRAINT "scheduled_posts_abTestVariantId_fkey" FOREIGN KEY ("abTestVariantId") REFERENCES "public"."ab_test_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ab_tests" ADD CONSTRAINT "ab_tests_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ab_test_variants" ADD CONSTRAINT "ab_test_variants_abTestId_fkey" FOREIGN KEY ("abTestId") REFERENCES "public"."ab_tests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ab_test_recommendations" ADD CONSTRAINT "ab_test_recommendations_abTestId_fkey" FOREIGN KEY ("abTestId") REFERENCES "public"."ab_tests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."content_pieces" ADD COLUMN     "platformOptions" JSONB;
@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "public"."AssetVariantType" AS ENUM ('THUMBNAIL', 'COMPRESSED', 'RESIZED', 'PLATFORM_OPTIMIZED', 'WATERMARKED');
+
+-- CreateEnum
+CREATE TYPE "public"."MediaProcessingStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."assets" ADD COLUMN     "altText" TEXT,
+ADD COLUMN     "aspectRatio" DOUBLE PRECISION,
+ADD COLUMN     "compatiblePlatforms" "public"."Platform"[],
+ADD COLUMN     "duration" DOUBLE PRECISION,
+ADD COLUMN     "hasRights" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "height" INTEGER,
+ADD COLUMN     "license" TEXT,
+ADD COLUMN     "mediaMetadata" JSONB,
+ADD COLUMN     "processingError" TEXT,
+ADD COLUMN     "processingStatus" "public"."MediaProcessingStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "source" TEXT,
+ADD COLUMN     "width" INTEGER;
+
+-- Existing assets were never queued for processing
+UPDATE "public"."assets" SET "processingStatus" = 'COMPLETED';
+
+-- CreateTable
+CREATE TABLE "public"."asset_variants" (
+    "id" TEXT NOT NULL,
+    "assetId" TEXT NOT NULL,
+    "type" "public"."AssetVariantType" NOT NULL,
+    "platform" "public"."Platform",
+    "width" INTEGER,
+    "height" INTEGER,
+    "quality" INTEGER,
+    "format" TEXT,
+    "size" INTEGER,
+    "s3Key" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "asset_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "asset_variants_s3Key_key" ON "public"."asset_variants"("s3Key");
+
+-- CreateIndex
+CREATE INDEX "asset_variants_assetId_idx" ON "public"."asset_variants"("assetId");
+
+-- CreateIndex
+CREATE INDEX "asset_variants_platform_idx" ON "public"."asset_variants"("platform");
+
+-- CreateIndex
+CREATE INDEX "assets_organizationId_createdAt_idx" ON "public"."assets"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "assets_organizationId_lastUsedAt_idx" ON "public"."assets"("organizationId", "lastUsedAt");
+
+-- CreateIndex
+CREATE INDEX "assets_organizationId_downloadCount_idx" ON "public"."assets"("organizationId", "downloadCount");
+
+-- AddForeignKey
+ALTER TABLE "public"."asset_variants" ADD CONSTRAINT "asset_variants_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "public"."assets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "public"."WebhookEventStatus" AS ENUM ('RECEIVED', 'PROCESSED', 'IGNORED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."webhook_events" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "status" "public"."WebhookEventStatus" NOT NULL DEFAULT 'RECEIVED',
+    "errorMessage" TEXT,
+    "organizationId" TEXT,
+    "scheduledPostId" TEXT,
+    "socialAccountId" TEXT,
+    "payload" JSONB NOT NULL,
+    "occurredAt" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "webhook_events_organizationId_idx" ON "public"."webhook_events"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "webhook_events_scheduledPostId_idx" ON "public"."webhook_events"("scheduledPostId");
+
+-- CreateIndex
+CREATE INDEX "webhook_events_status_idx" ON "public"."webhook_events"("status");
+
+-- CreateIndex
+CREATE INDEX "webhook_events_receivedAt_idx" ON "public"."webhook_events"("receivedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_events_provider_eventId_key" ON "public"."webhook_events"("provider", "eventId");
+
+-- CreateIndex
+CREATE INDEX "scheduled_posts_platformPostId_idx" ON "public"."scheduled_posts"("platformPostId");
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."ExportFormat" ADD VALUE 'XLSX';
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "public"."calendar_exports" ADD COLUMN     "storageKey" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."analytics_reports" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "reportType" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "status" "public"."ExportStatus" NOT NULL DEFAULT 'PENDING',
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "platforms" TEXT[],
+    "fileName" TEXT,
+    "fileSize" INTEGER,
+    "mimeType" TEXT,
+    "storageKey" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "analytics_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "analytics_reports_organizationId_idx" ON "public"."analytics_reports"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "analytics_reports_status_idx" ON "public"."analytics_reports"("status");
+
+-- CreateIndex
+CREATE INDEX "analytics_reports_expiresAt_idx" ON "public"."analytics_reports"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."analytics_reports" ADD CONSTRAINT "analytics_reports_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
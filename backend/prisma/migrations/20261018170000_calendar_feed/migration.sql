@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "public"."scheduled_posts" ADD COLUMN     "sequence" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."calendar_events" ADD COLUMN     "sequence" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."calendar_feeds" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "lastAccessedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendar_feeds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feeds_organizationId_key" ON "public"."calendar_feeds"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feeds_tokenHash_key" ON "public"."calendar_feeds"("tokenHash");
+
+-- AddForeignKey
+ALTER TABLE "public"."calendar_feeds" ADD CONSTRAINT "calendar_feeds_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."schedule_templates" ADD COLUMN     "rrule" TEXT,
+ADD COLUMN     "exdates" TEXT[] DEFAULT ARRAY[]::TEXT[];
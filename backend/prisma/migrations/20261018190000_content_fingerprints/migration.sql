@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "public"."content_fingerprints" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "contentPieceId" TEXT NOT NULL,
+    "textHash" TEXT NOT NULL,
+    "minhash" INTEGER[],
+    "embedding" DOUBLE PRECISION[] DEFAULT ARRAY[]::DOUBLE PRECISION[],
+    "embeddingModel" TEXT,
+    "nearestContentPieceId" TEXT,
+    "nearestSimilarity" DOUBLE PRECISION,
+    "scoredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "content_fingerprints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "content_fingerprints_contentPieceId_key" ON "public"."content_fingerprints"("contentPieceId");
+
+-- CreateIndex
+CREATE INDEX "content_fingerprints_organizationId_idx" ON "public"."content_fingerprints"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "public"."content_fingerprints" ADD CONSTRAINT "content_fingerprints_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."content_fingerprints" ADD CONSTRAINT "content_fingerprints_contentPieceId_fkey" FOREIGN KEY ("contentPieceId") REFERENCES "public"."content_pieces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."social_accounts" ADD COLUMN     "audienceTimeZones" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."optimal_posting_times" ADD COLUMN     "credibleHigh" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "credibleLow" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "expectedEngagement" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "priorEngagement" DOUBLE PRECISION NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."PostStatus" ADD VALUE 'PAUSED';
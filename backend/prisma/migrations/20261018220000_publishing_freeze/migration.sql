@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."scheduled_posts" ADD COLUMN     "heldByFreeze" TEXT;
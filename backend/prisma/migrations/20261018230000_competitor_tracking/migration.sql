@@ -0,0 +1,80 @@
+-- CreateTable
+CREATE TABLE "public"."competitors" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "platform" "public"."Platform" NOT NULL,
+    "handle" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'api',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastCollectedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "competitors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."competitor_snapshots" (
+    "id" TEXT NOT NULL,
+    "competitorId" TEXT NOT NULL,
+    "collectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "source" TEXT NOT NULL,
+    "followersCount" INTEGER NOT NULL,
+    "followingCount" INTEGER,
+    "postsCount" INTEGER,
+    "sampledPosts" INTEGER NOT NULL DEFAULT 0,
+    "postsPerWeek" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "avgLikes" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "avgComments" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "avgShares" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "engagementRate" DOUBLE PRECISION,
+    "topHashtags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "competitor_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."competitor_alerts" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "competitorId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "baselineValue" DOUBLE PRECISION NOT NULL,
+    "currentValue" DOUBLE PRECISION NOT NULL,
+    "changePercent" DOUBLE PRECISION NOT NULL,
+    "message" TEXT NOT NULL,
+    "acknowledgedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "competitor_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "competitors_organizationId_platform_handle_key" ON "public"."competitors"("organizationId", "platform", "handle");
+
+-- CreateIndex
+CREATE INDEX "competitors_organizationId_idx" ON "public"."competitors"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "competitor_snapshots_competitorId_collectedAt_idx" ON "public"."competitor_snapshots"("competitorId", "collectedAt");
+
+-- CreateIndex
+CREATE INDEX "competitor_alerts_organizationId_createdAt_idx" ON "public"."competitor_alerts"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "competitor_alerts_competitorId_kind_idx" ON "public"."competitor_alerts"("competitorId", "kind");
+
+-- AddForeignKey
+ALTER TABLE "public"."competitors" ADD CONSTRAINT "competitors_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."competitor_snapshots" ADD CONSTRAINT "competitor_snapshots_competitorId_fkey" FOREIGN KEY ("competitorId") REFERENCES "public"."competitors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."competitor_alerts" ADD CONSTRAINT "competitor_alerts_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."competitor_alerts" ADD CONSTRAINT "competitor_alerts_competitorId_fkey" FOREIGN KEY ("competitorId") REFERENCES "public"."competitors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."weekly_summaries" ADD COLUMN     "emailedAt" TIMESTAMP(3),
+ADD COLUMN     "generatedBy" TEXT,
+ADD COLUMN     "strategyId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "weekly_summaries_organizationId_weekStart_key" ON "public"."weekly_summaries"("organizationId", "weekStart");
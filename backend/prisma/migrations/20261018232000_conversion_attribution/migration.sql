@@ -0,0 +1,106 @@
+-- CreateEnum
+CREATE TYPE "public"."ConversionType" AS ENUM ('SIGNUP', 'DEMO');
+
+-- CreateTable
+CREATE TABLE "public"."tracked_links" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "scheduledPostId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "originalUrl" TEXT NOT NULL,
+    "destinationUrl" TEXT NOT NULL,
+    "clickCount" INTEGER NOT NULL DEFAULT 0,
+    "lastClickedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tracked_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."link_clicks" (
+    "id" TEXT NOT NULL,
+    "linkId" TEXT NOT NULL,
+    "scheduledPostId" TEXT NOT NULL,
+    "clickedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "referrer" TEXT,
+    "userAgent" TEXT,
+
+    CONSTRAINT "link_clicks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."conversions" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "type" "public"."ConversionType" NOT NULL,
+    "externalId" TEXT,
+    "value" DOUBLE PRECISION,
+    "source" TEXT NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "conversions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."conversion_touches" (
+    "id" TEXT NOT NULL,
+    "conversionId" TEXT NOT NULL,
+    "scheduledPostId" TEXT NOT NULL,
+    "linkClickId" TEXT,
+    "touchedAt" TIMESTAMP(3) NOT NULL,
+    "isLast" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "conversion_touches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tracked_links_code_key" ON "public"."tracked_links"("code");
+
+-- CreateIndex
+CREATE INDEX "tracked_links_organizationId_idx" ON "public"."tracked_links"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tracked_links_scheduledPostId_originalUrl_key" ON "public"."tracked_links"("scheduledPostId", "originalUrl");
+
+-- CreateIndex
+CREATE INDEX "link_clicks_linkId_idx" ON "public"."link_clicks"("linkId");
+
+-- CreateIndex
+CREATE INDEX "link_clicks_scheduledPostId_clickedAt_idx" ON "public"."link_clicks"("scheduledPostId", "clickedAt");
+
+-- CreateIndex
+CREATE INDEX "conversions_organizationId_occurredAt_idx" ON "public"."conversions"("organizationId", "occurredAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "conversions_organizationId_type_externalId_key" ON "public"."conversions"("organizationId", "type", "externalId");
+
+-- CreateIndex
+CREATE INDEX "conversion_touches_conversionId_idx" ON "public"."conversion_touches"("conversionId");
+
+-- CreateIndex
+CREATE INDEX "conversion_touches_scheduledPostId_idx" ON "public"."conversion_touches"("scheduledPostId");
+
+-- AddForeignKey
+ALTER TABLE "public"."tracked_links" ADD CONSTRAINT "tracked_links_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."tracked_links" ADD CONSTRAINT "tracked_links_scheduledPostId_fkey" FOREIGN KEY ("scheduledPostId") REFERENCES "public"."scheduled_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."link_clicks" ADD CONSTRAINT "link_clicks_linkId_fkey" FOREIGN KEY ("linkId") REFERENCES "public"."tracked_links"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."link_clicks" ADD CONSTRAINT "link_clicks_scheduledPostId_fkey" FOREIGN KEY ("scheduledPostId") REFERENCES "public"."scheduled_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."conversions" ADD CONSTRAINT "conversions_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."conversion_touches" ADD CONSTRAINT "conversion_touches_conversionId_fkey" FOREIGN KEY ("conversionId") REFERENCES "public"."conversions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."conversion_touches" ADD CONSTRAINT "conversion_touches_scheduledPostId_fkey" FOREIGN KEY ("scheduledPostId") REFERENCES "public"."scheduled_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."conversion_touches" ADD CONSTRAINT "conversion_touches_linkClickId_fkey" FOREIGN KEY ("linkClickId") REFERENCES "public"."link_clicks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
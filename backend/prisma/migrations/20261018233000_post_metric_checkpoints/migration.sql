@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "public"."post_metric_checkpoints" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "scheduledPostId" TEXT NOT NULL,
+    "platform" "public"."Platform" NOT NULL,
+    "contentType" "public"."ContentType" NOT NULL,
+    "checkpoint" TEXT NOT NULL,
+    "hoursAfterPublish" INTEGER NOT NULL,
+    "collectedAt" TIMESTAMP(3) NOT NULL,
+    "impressions" INTEGER NOT NULL DEFAULT 0,
+    "likes" INTEGER NOT NULL DEFAULT 0,
+    "comments" INTEGER NOT NULL DEFAULT 0,
+    "shares" INTEGER NOT NULL DEFAULT 0,
+    "clicks" INTEGER NOT NULL DEFAULT 0,
+    "baselineEngagements" DOUBLE PRECISION,
+    "isBreakout" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_metric_checkpoints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "post_metric_checkpoints_scheduledPostId_checkpoint_key" ON "public"."post_metric_checkpoints"("scheduledPostId", "checkpoint");
+
+-- CreateIndex
+CREATE INDEX "post_metric_checkpoints_baseline_idx" ON "public"."post_metric_checkpoints"("organizationId", "platform", "contentType", "hoursAfterPublish");
+
+-- CreateIndex
+CREATE INDEX "post_metric_checkpoints_breakouts_idx" ON "public"."post_metric_checkpoints"("organizationId", "isBreakout", "collectedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."post_metric_checkpoints" ADD CONSTRAINT "post_metric_checkpoints_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."post_metric_checkpoints" ADD CONSTRAINT "post_metric_checkpoints_scheduledPostId_fkey" FOREIGN KEY ("scheduledPostId") REFERENCES "public"."scheduled_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."scheduled_posts" ADD COLUMN     "externalPostId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "scheduled_posts_externalPostId_idx" ON "public"."scheduled_posts"("externalPostId");
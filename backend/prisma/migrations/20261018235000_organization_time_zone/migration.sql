@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."organizations" ADD COLUMN     "timeZone" TEXT NOT NULL DEFAULT 'UTC';
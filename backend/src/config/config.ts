@@ -6,6 +6,7 @@ interface Config {
   nodeEnv: string;
   port: number;
   host: string;
+  baseUrl: string;
   logLevel: string;
   corsOrigins: string[];
   database: {
@@ -23,11 +24,21 @@ interface Config {
     openai: {
       apiKey: string;
       model: string;
+      embeddingModel: string;
     };
     anthropic: {
       apiKey: string;
       model: string;
     };
+    llm: {
+      preferredProvider: 'openai' | 'anthropic' | 'local';
+      fallbackProviders: Array<'openai' | 'anthropic' | 'local'>;
+      timeoutMs: number;
+      maxRetries: number;
+    };
+    local: {
+      fixturesDir?: string;
+    };
   };
   social: {
     twitter: {
@@ -53,6 +64,23 @@ interface Config {
       clientId: string;
       clientSecret: string;
     };
+    tiktok: {
+      clientKey: string;
+      clientSecret: string;
+    };
+    reddit: {
+      clientId: string;
+      clientSecret: string;
+      userAgent: string;
+    };
+    threads: {
+      appId: string;
+      appSecret: string;
+    };
+    youtube: {
+      clientId: string;
+      clientSecret: string;
+    };
   };
   encryption: {
     key: string;
@@ -60,6 +88,26 @@ interface Config {
   };
   webhooks: {
     secret: string;
+    metaVerifyToken: string;
+    bufferSecret: string;
+    hootsuiteSecret: string;
+    toleranceSeconds: number;
+  };
+  storage: {
+    driver: 'local' | 's3';
+    localDir: string;
+    s3Bucket: string;
+    s3Region: string;
+    signingSecret: string;
+    downloadUrlTtlSeconds: number;
+    retentionDays: number;
+  };
+  similarity: {
+    lookbackMonths: number;
+    minhashThreshold: number;
+    embeddingThreshold: number;
+    useEmbeddings: boolean;
+    embeddingProvider?: 'openai' | 'local';
   };
   stripe: {
     secretKey: string;
@@ -71,6 +119,19 @@ interface Config {
       scale: string;
     };
   };
+  email: {
+    smtpHost: string;
+    smtpPort: number;
+    smtpUser: string;
+    smtpPass: string;
+    from: string;
+    appUrl: string; // Frontend base URL for links in emails
+  };
+  tracking: {
+    linkBaseUrl: string; // Short links are <linkBaseUrl>/<code>
+    conversionSecret: string;
+    attributionWindowDays: number;
+  };
   billing: {
     trialPeriodDays: number;
     portalReturnUrl: string;
@@ -83,6 +144,7 @@ const config: Config = {
   nodeEnv: process.env.NODE_ENV || 'development',
   port: parseInt(process.env.PORT || '3001', 10),
   host: process.env.HOST || '0.0.0.0',
+  baseUrl: process.env.BASE_URL || 'http://localhost:3001',
   logLevel: process.env.LOG_LEVEL || 'info',
   corsOrigins: process.env.CORS_ORIGINS 
     ? process.env.CORS_ORIGINS.split(',')
@@ -105,11 +167,28 @@ const config: Config = {
   ai: {
     openai: {
       apiKey: process.env.OPENAI_API_KEY || '',
-      model: process.env.OPENAI_MODEL || 'gpt-4-turbo-preview'
+      model: process.env.OPENAI_MODEL || 'gpt-4-turbo-preview',
+      embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small'
     },
     anthropic: {
       apiKey: process.env.ANTHROPIC_API_KEY || '',
       model: process.env.ANTHROPIC_MODEL || 'claude-3-sonnet-20240229'
+    },
+    llm: {
+      preferredProvider: process.env.MOCK_AI_PROVIDERS === 'true'
+        ? 'local'
+        : (process.env.PREFERRED_AI_PROVIDER as 'openai' | 'anthropic' | 'local') || 'openai',
+      fallbackProviders: (process.env.FALLBACK_AI_PROVIDER || '')
+        .split(',')
+        .map(provider => provider.trim())
+        .filter((provider): provider is 'openai' | 'anthropic' | 'local' =>
+          ['openai', 'anthropic', 'local'].includes(provider)
+        ),
+      timeoutMs: parseInt(process.env.AI_PROVIDER_TIMEOUT || '30000', 10),
+      maxRetries: parseInt(process.env.AI_PROVIDER_MAX_RETRIES || '2', 10)
+    },
+    local: {
+      fixturesDir: process.env.LOCAL_AI_FIXTURES_DIR || undefined
     }
   },
   
@@ -136,6 +215,23 @@ const config: Config = {
     hootsuite: {
       clientId: process.env.HOOTSUITE_CLIENT_ID || '',
       clientSecret: process.env.HOOTSUITE_CLIENT_SECRET || ''
+    },
+    tiktok: {
+      clientKey: process.env.TIKTOK_CLIENT_KEY || '',
+      clientSecret: process.env.TIKTOK_CLIENT_SECRET || ''
+    },
+    reddit: {
+      clientId: process.env.REDDIT_CLIENT_ID || '',
+      clientSecret: process.env.REDDIT_CLIENT_SECRET || '',
+      userAgent: process.env.REDDIT_USER_AGENT || 'AIPromote/1.0'
+    },
+    threads: {
+      appId: process.env.THREADS_APP_ID || '',
+      appSecret: process.env.THREADS_APP_SECRET || ''
+    },
+    youtube: {
+      clientId: process.env.YOUTUBE_CLIENT_ID || '',
+      clientSecret: process.env.YOUTUBE_CLIENT_SECRET || ''
     }
   },
   
@@ -145,7 +241,29 @@ const config: Config = {
   },
   
   webhooks: {
-    secret: process.env.WEBHOOK_SECRET || 'your-webhook-secret-key'
+    secret: process.env.WEBHOOK_SECRET || 'your-webhook-secret-key',
+    metaVerifyToken: process.env.META_WEBHOOK_VERIFY_TOKEN || '',
+    bufferSecret: process.env.BUFFER_WEBHOOK_SECRET || '',
+    hootsuiteSecret: process.env.HOOTSUITE_WEBHOOK_SECRET || '',
+    toleranceSeconds: parseInt(process.env.WEBHOOK_TOLERANCE_SECONDS || '300', 10)
+  },
+  
+  storage: {
+    driver: process.env.STORAGE_DRIVER === 's3' ? 's3' : 'local',
+    localDir: process.env.STORAGE_LOCAL_DIR || './storage',
+    s3Bucket: process.env.AWS_S3_BUCKET || process.env.S3_BUCKET || '',
+    s3Region: process.env.AWS_REGION || 'us-east-1',
+    signingSecret: process.env.DOWNLOAD_SIGNING_SECRET || process.env.JWT_SECRET || 'your-download-signing-secret',
+    downloadUrlTtlSeconds: parseInt(process.env.DOWNLOAD_URL_TTL_SECONDS || '900', 10),
+    retentionDays: parseInt(process.env.EXPORT_RETENTION_DAYS || '7', 10)
+  },
+
+  similarity: {
+    lookbackMonths: parseInt(process.env.SIMILARITY_LOOKBACK_MONTHS || '6', 10),
+    minhashThreshold: parseFloat(process.env.SIMILARITY_MINHASH_THRESHOLD || '0.5'),
+    embeddingThreshold: parseFloat(process.env.SIMILARITY_EMBEDDING_THRESHOLD || '0.85'),
+    useEmbeddings: process.env.SIMILARITY_USE_EMBEDDINGS === 'true',
+    embeddingProvider: (process.env.SIMILARITY_EMBEDDING_PROVIDER as 'openai' | 'local') || undefined
   },
   
   stripe: {
@@ -159,6 +277,21 @@ const config: Config = {
     }
   },
   
+  email: {
+    smtpHost: process.env.SMTP_HOST || 'smtp.gmail.com',
+    smtpPort: parseInt(process.env.SMTP_PORT || '587', 10),
+    smtpUser: process.env.SMTP_USER || '',
+    smtpPass: process.env.SMTP_PASS || '',
+    from: process.env.EMAIL_FROM_ADDRESS || process.env.SMTP_USER || '',
+    appUrl: process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  },
+
+  tracking: {
+    linkBaseUrl: process.env.SHORT_LINK_BASE_URL || `${process.env.BASE_URL || 'http://localhost:3001'}/l`,
+    conversionSecret: process.env.CONVERSION_SIGNING_SECRET || process.env.JWT_SECRET || 'your-conversion-signing-secret',
+    attributionWindowDays: parseInt(process.env.ATTRIBUTION_WINDOW_DAYS || '30', 10)
+  },
+  
   billing: {
     trialPeriodDays: parseInt(process.env.TRIAL_PERIOD_DAYS || '14', 10),
     portalReturnUrl: process.env.BILLING_PORTAL_RETURN_URL || 'http://localhost:3000/billing',
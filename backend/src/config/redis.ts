@@ -1,6 +1,7 @@
 import Redis from 'ioredis';
 import { Queue, Worker, Job, QueueOptions, WorkerOptions } from 'bullmq';
 import { config } from './config';
+import type { MediaAttachment, MediaUploadRequest } from '../services/media-attachment';
 
 // Redis connection instance
 export const redis = new Redis(config.redis.url, {
@@ -89,6 +90,16 @@ export const emailQueue = new Queue('email', {
   },
 });
 
+// Media Processing Queue
+export const mediaProcessingQueue = new Queue('media-processing', {
+  ...defaultQueueOptions,
+  defaultJobOptions: {
+    ...defaultQueueOptions.defaultJobOptions,
+    priority: 3,
+    attempts: 2, // Image/video decoding failures rarely fix themselves
+  },
+});
+
 // ============================================
 // JOB TYPE INTERFACES
 // ============================================
@@ -96,11 +107,30 @@ export const emailQueue = new Queue('email', {
 export interface ContentGenerationJob {
   organizationId: string;
   pillarId?: string;
+  seriesId?: string;
   platform: string;
   contentType: string;
   count?: number;
-  scheduledFor?: Date;
-  userId: string;
+  scheduledFor?: Date | string; // First slot; serialized to an ISO string in Redis
+  intervalHours?: number;       // Spacing between pieces when count > 1
+  prompt?: string;
+  context?: {
+    targetAudience?: string;
+    tone?: string;
+    objective?: string;
+    keywords?: string[];
+    contentIdeas?: string[];
+    referencePosts?: string[];
+  };
+  diversityLevel?: 'low' | 'medium' | 'high';
+  optimization?: {
+    seo: boolean;
+    engagement: boolean;
+    conversion: boolean;
+    brandSafety: boolean;
+  };
+  provider?: 'openai' | 'anthropic' | 'local';
+  userId?: string;
 }
 
 export interface PublishingJob {
@@ -109,6 +139,7 @@ export interface PublishingJob {
   contentPieceId: string;
   socialAccountId: string;
   retryCount?: number;
+  scheduledAt?: string; // ISO time the job was queued for; stale jobs are skipped
 }
 
 export interface AnalyticsCollectionJob {
@@ -120,13 +151,21 @@ export interface AnalyticsCollectionJob {
     start: Date;
     end: Date;
   };
+  checkpoint?: string; // Post curve checkpoint such as "24h"; set on per-post lifetime collections
 }
 
 export interface StrategyGenerationJob {
   organizationId: string;
-  userId: string;
+  userId?: string;
   previousStrategyId?: string;
   regenerate?: boolean;
+  preferences?: {
+    tone?: string;
+    platforms?: string[];
+    focusAreas?: string[];
+    brandSafety?: boolean;
+  };
+  provider?: 'openai' | 'anthropic' | 'local';
 }
 
 export interface EmailJob {
@@ -137,12 +176,18 @@ export interface EmailJob {
   priority?: 'high' | 'normal' | 'low';
 }
 
+export interface MediaProcessingJob {
+  // Snapshot of the attachment as uploaded; the original is read back from storage
+  media: MediaAttachment;
+  options: NonNullable<MediaUploadRequest['processing']>;
+}
+
 // ============================================
 // WORKER CREATION HELPERS
 // ============================================
 
 export function createContentGenerationWorker(
-  processor: (job: Job<ContentGenerationJob>) => Promise<void>
+  processor: (job: Job<ContentGenerationJob>) => Promise<unknown>
 ) {
   return new Worker('content-generation', processor, {
     ...defaultWorkerOptions,
@@ -169,7 +214,7 @@ export function createAnalyticsWorker(
 }
 
 export function createStrategyGenerationWorker(
-  processor: (job: Job<StrategyGenerationJob>) => Promise<void>
+  processor: (job: Job<StrategyGenerationJob>) => Promise<unknown>
 ) {
   return new Worker('strategy-generation', processor, {
     ...defaultWorkerOptions,
@@ -186,6 +231,15 @@ export function createEmailWorker(
   });
 }
 
+export function createMediaProcessingWorker(
+  processor: (job: Job<MediaProcessingJob>) => Promise<unknown>
+) {
+  return new Worker('media-processing', processor, {
+    ...defaultWorkerOptions,
+    concurrency: 2, // Decoding large images and videos is CPU and memory heavy
+  });
+}
+
 // ============================================
 // UTILITY FUNCTIONS
 // ============================================
@@ -225,11 +279,13 @@ export async function addAnalyticsJob(
   options?: {
     delay?: number;
     repeat?: { pattern: string };
+    jobId?: string;
   }
 ) {
   return analyticsQueue.add('collect-analytics', data, {
     delay: options?.delay,
     repeat: options?.repeat,
+    jobId: options?.jobId,
   });
 }
 
@@ -238,11 +294,13 @@ export async function addStrategyGenerationJob(
   options?: {
     delay?: number;
     priority?: number;
+    jobId?: string;
   }
 ) {
   return strategyGenerationQueue.add('generate-strategy', data, {
     delay: options?.delay,
     priority: options?.priority || 1,
+    jobId: options?.jobId,
   });
 }
 
@@ -261,6 +319,21 @@ export async function addEmailJob(
   });
 }
 
+export async function addMediaProcessingJob(
+  data: MediaProcessingJob,
+  options?: {
+    delay?: number;
+    priority?: number;
+  }
+) {
+  // One processing run per upload; re-adding the same media is a no-op while the job is kept
+  return mediaProcessingQueue.add('process-media', data, {
+    delay: options?.delay,
+    priority: options?.priority || 3,
+    jobId: `media-${data.media.id}`,
+  });
+}
+
 // ============================================
 // HEALTH CHECK & MONITORING
 // ============================================
@@ -272,6 +345,7 @@ export async function getQueueHealth() {
     { name: 'analytics', queue: analyticsQueue },
     { name: 'strategy-generation', queue: strategyGenerationQueue },
     { name: 'email', queue: emailQueue },
+    { name: 'media-processing', queue: mediaProcessingQueue },
   ];
 
   const health = await Promise.all(
@@ -305,6 +379,7 @@ export async function cleanUpQueues() {
     analyticsQueue,
     strategyGenerationQueue,
     emailQueue,
+    mediaProcessingQueue,
   ];
 
   await Promise.all(
@@ -323,6 +398,7 @@ export async function closeRedis() {
     analyticsQueue.close(),
     strategyGenerationQueue.close(),
     emailQueue.close(),
+    mediaProcessingQueue.close(),
     redis.disconnect(),
   ]);
 }
@@ -348,11 +424,13 @@ export default {
   analyticsQueue,
   strategyGenerationQueue,
   emailQueue,
+  mediaProcessingQueue,
   addContentGenerationJob,
   addPublishingJob,
   addAnalyticsJob,
   addStrategyGenerationJob,
   addEmailJob,
+  addMediaProcessingJob,
   getQueueHealth,
   cleanUpQueues,
   closeRedis,
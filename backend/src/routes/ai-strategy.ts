@@ -5,6 +5,7 @@ import { toneAnalysisService } from '../services/tone-analysis';
 import { contentPillarService } from '../services/content-pillars';
 import { audienceAnalysisService } from '../services/audience-analysis';
 import { brandSafetyService } from '../services/brand-safety';
+import { GenerationJobService } from '../services/generation-jobs';
 import { AIProviderError, StrategyGenerationError, ValidationError } from '../utils/errors';
 
 // Request schemas
@@ -16,13 +17,13 @@ const GenerateStrategySchema = z.object({
     focusAreas: z.array(z.string()).optional(),
     brandSafety: z.boolean().optional(),
   }).optional(),
-  provider: z.enum(['openai', 'anthropic']).default('openai'),
+  provider: z.enum(['openai', 'anthropic', 'local']).optional(),
 });
 
 const CompareStrategiesSchema = z.object({
   strategy1Id: z.string(),
   strategy2Id: z.string(),
-  provider: z.enum(['openai', 'anthropic']).default('openai'),
+  provider: z.enum(['openai', 'anthropic', 'local']).optional(),
 });
 
 const ToneAnalysisSchema = z.object({
@@ -32,7 +33,7 @@ const ToneAnalysisSchema = z.object({
     contentType: z.string().optional(),
     targetAudience: z.string().optional(),
   }).optional(),
-  provider: z.enum(['openai', 'anthropic']).default('openai'),
+  provider: z.enum(['openai', 'anthropic', 'local']).optional(),
 });
 
 const BrandVoiceGenerationSchema = z.object({
@@ -40,7 +41,7 @@ const BrandVoiceGenerationSchema = z.object({
   existingContent: z.array(z.string()).optional(),
   desiredTone: z.string().optional(),
   brandPersonality: z.array(z.string()).optional(),
-  provider: z.enum(['openai', 'anthropic']).default('openai'),
+  provider: z.enum(['openai', 'anthropic', 'local']).optional(),
 });
 
 const ContentPillarAnalysisSchema = z.object({
@@ -60,7 +61,7 @@ const ContentPillarAnalysisSchema = z.object({
     focusAreas: z.array(z.string()).optional(),
     avoidTopics: z.array(z.string()).optional(),
   }).optional(),
-  provider: z.enum(['openai', 'anthropic']).default('openai'),
+  provider: z.enum(['openai', 'anthropic', 'local']).optional(),
 });
 
 const AudienceAnalysisSchema = z.object({
@@ -89,7 +90,7 @@ const AudienceAnalysisSchema = z.object({
     painPoints: z.array(z.string()).optional(),
     preferences: z.array(z.string()).optional(),
   }).optional(),
-  provider: z.enum(['openai', 'anthropic']).default('openai'),
+  provider: z.enum(['openai', 'anthropic', 'local']).optional(),
 });
 
 const ContentSafetyCheckSchema = z.object({
@@ -109,83 +110,19 @@ const ContentSafetyCheckSchema = z.object({
 async function aiStrategyRoutes(fastify: FastifyInstance) {
   const { prisma } = fastify;
 
-  // Helper function to get organization data
-  async function getOrganizationData(organizationId: string) {
-    const organization = await prisma.organization.findUnique({
-      where: { id: organizationId },
-      include: {
-        founders: true,
-      }
-    });
-
-    if (!organization) {
-      throw new ValidationError('Organization not found', 'organizationId', organizationId);
-    }
-
-    return {
-      id: organization.id,
-      name: organization.name,
-      url: organization.url,
-      stage: organization.stage,
-      pricing: organization.pricing,
-      description: organization.description,
-      tagline: organization.tagline,
-      category: organization.category,
-      markets: organization.markets,
-      languages: organization.languages,
-      founders: organization.founders.map(f => ({
-        id: f.id,
-        name: f.name,
-        role: f.role,
-        bio: f.bio,
-        linkedinUrl: f.linkedinUrl,
-        twitterHandle: f.twitterHandle,
-      }))
-    };
-  }
+  const generationJobs = new GenerationJobService(prisma);
 
   // Generate AI Strategy
   fastify.post('/generate', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const body = GenerateStrategySchema.parse(request.body);
       
-      const organizationData = await getOrganizationData(body.organizationId);
-      
-      // Get previous strategies for context
-      const previousStrategies = await prisma.aIStrategy.findMany({
-        where: { organizationId: body.organizationId },
-        orderBy: { createdAt: 'desc' },
-        take: 3,
-        select: {
-          positioning: true,
-          audienceSegments: true,
-          contentPillars: true,
-          channelPlan: true,
-        }
-      });
+      const strategyRequest = await generationJobs.buildStrategyRequest(body.organizationId, body.preferences);
 
-      const strategy = await aiStrategyService.generateStrategy({
-        organization: organizationData,
-        preferences: body.preferences,
-        previousStrategies: previousStrategies.length > 0 ? previousStrategies : undefined,
-      }, body.provider);
+      const strategy = await aiStrategyService.generateStrategy(strategyRequest, body.provider);
 
       // Save to database
-      const savedStrategy = await prisma.aIStrategy.create({
-        data: {
-          organizationId: body.organizationId,
-          version: previousStrategies.length + 1,
-          status: 'PROPOSED',
-          positioning: strategy.positioning,
-          audienceSegments: strategy.audienceSegments,
-          contentPillars: strategy.contentPillars,
-          channelPlan: strategy.channelPlan,
-          cadence: strategy.cadence,
-          calendarSkeleton: strategy.calendarSkeleton,
-          generatedBy: strategy.generatedBy,
-          confidence: strategy.confidence,
-        }
-      });
+      const savedStrategy = await generationJobs.saveStrategy(body.organizationId, strategy);
 
       reply.status(201).send({
         success: true,
@@ -223,6 +160,112 @@ async function aiStrategyRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Queue strategy generation in the background
+  fastify.post('/jobs', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = GenerateStrategySchema.parse(request.body);
+
+      const status = await generationJobs.enqueueStrategyGeneration({
+        ...body,
+        userId: (request.user as any)?.id,
+      });
+
+      reply.status(202).send({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else if (error instanceof ValidationError) {
+        reply.status(400).send({
+          success: false,
+          error: error.message
+        });
+      } else {
+        console.error('Queue strategy generation error:', error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to queue strategy generation'
+        });
+      }
+    }
+  });
+
+  // Get strategy generation job status
+  fastify.get('/jobs/:jobId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const params = z.object({ jobId: z.string() }).parse(request.params);
+      const query = z.object({ organizationId: z.string() }).parse(request.query);
+
+      const status = await generationJobs.getJobStatus('strategy', params.jobId, query.organizationId);
+      if (!status) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Job not found'
+        });
+      }
+
+      reply.send({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else {
+        console.error('Get strategy generation job error:', error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to get job status'
+        });
+      }
+    }
+  });
+
+  // Cancel a strategy generation job
+  fastify.post('/jobs/:jobId/cancel', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const params = z.object({ jobId: z.string() }).parse(request.params);
+      const body = z.object({ organizationId: z.string() }).parse(request.body);
+
+      const status = await generationJobs.cancelJob('strategy', params.jobId, body.organizationId);
+      if (!status) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Job not found'
+        });
+      }
+
+      reply.send({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else {
+        console.error('Cancel strategy generation job error:', error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to cancel job'
+        });
+      }
+    }
+  });
+
   // Compare strategies
   fastify.post('/compare', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
@@ -297,7 +340,7 @@ async function aiStrategyRoutes(fastify: FastifyInstance) {
     try {
       const body = BrandVoiceGenerationSchema.parse(request.body);
       
-      const organizationData = await getOrganizationData(body.organizationId);
+      const organizationData = await generationJobs.loadOrganizationData(body.organizationId);
 
       const brandVoice = await toneAnalysisService.generateBrandVoice({
         organizationData: {
@@ -334,7 +377,7 @@ async function aiStrategyRoutes(fastify: FastifyInstance) {
     try {
       const body = ContentPillarAnalysisSchema.parse(request.body);
       
-      const organizationData = await getOrganizationData(body.organizationId);
+      const organizationData = await generationJobs.loadOrganizationData(body.organizationId);
 
       const pillarAnalysis = await contentPillarService.identifyPillars({
         organization: organizationData,
@@ -361,7 +404,7 @@ async function aiStrategyRoutes(fastify: FastifyInstance) {
     try {
       const body = AudienceAnalysisSchema.parse(request.body);
       
-      const organizationData = await getOrganizationData(body.organizationId);
+      const organizationData = await generationJobs.loadOrganizationData(body.organizationId);
 
       const audienceAnalysis = await audienceAnalysisService.analyzeAudience({
         organization: organizationData,
@@ -2,6 +2,14 @@ import { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { AnalyticsService } from '../services/analytics-service';
 import { AnalyticsCollector } from '../services/analytics-collector';
+import { CompetitorTrackingService } from '../services/competitor-tracking';
+import { WeeklyCoachService } from '../services/weekly-coach';
+import { ConversionAttributionService } from '../services/conversion-attribution';
+import { PostCurveService } from '../services/post-curves';
+import { PublishingFreezeService } from '../services/publishing-freeze';
+import { ReportGenerator } from '../services/report-generator';
+import { verifyDownloadSignature } from '../services/file-storage';
+import { ValidationError } from '../utils/errors';
 
 // Request schemas
 const dashboardQuerySchema = z.object({
@@ -11,6 +19,7 @@ const dashboardQuerySchema = z.object({
   endDate: z.string().datetime().optional(),
   groupBy: z.enum(['day', 'week', 'month']).default('day'),
   timeZone: z.string().default('UTC'),
+  attributionModel: z.enum(['last_touch', 'linear']).default('last_touch'),
 });
 
 const engagementTrackingSchema = z.object({
@@ -37,6 +46,16 @@ const performanceComparisonSchema = z.object({
   metrics: z.array(z.enum(['likes', 'comments', 'shares', 'impressions', 'reach', 'engagement_rate', 'ctr'])).default(['engagement_rate']),
 });
 
+const customRangeSchema = z.object({
+  organizationId: z.string().cuid(),
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
+  platforms: z.array(z.enum(['TWITTER', 'LINKEDIN', 'INSTAGRAM', 'TIKTOK', 'YOUTUBE_SHORTS', 'REDDIT', 'FACEBOOK', 'THREADS'])).optional(),
+  metrics: z.array(z.string()).optional(),
+  groupBy: z.enum(['hour', 'day', 'week', 'month']).default('day'),
+  timeZone: z.string().default('UTC'),
+});
+
 const reportGenerationSchema = z.object({
   organizationId: z.string().cuid(),
   reportType: z.enum(['summary', 'detailed', 'performance', 'growth', 'competitor']),
@@ -60,9 +79,71 @@ const competitorAnalysisSchema = z.object({
   metrics: z.array(z.enum(['engagement_rate', 'posting_frequency', 'content_type', 'hashtag_usage'])).default(['engagement_rate']),
 });
 
+const trackCompetitorSchema = z.object({
+  organizationId: z.string().cuid(),
+  name: z.string().min(1).max(100),
+  platform: z.enum(['TWITTER', 'LINKEDIN', 'INSTAGRAM', 'TIKTOK', 'YOUTUBE_SHORTS', 'REDDIT', 'FACEBOOK', 'THREADS']),
+  handle: z.string().min(1).max(100),
+  source: z.enum(['api', 'manual']).optional(), // "manual" accounts are only updated by uploads
+});
+
+const competitorSnapshotUploadSchema = z.object({
+  organizationId: z.string().cuid(),
+  format: z.enum(['CSV', 'JSON']),
+  content: z.string().min(1).max(1024 * 1024),
+});
+
+const competitorTrendsSchema = z.object({
+  organizationId: z.string().cuid(),
+  days: z.coerce.number().int().min(1).max(365).default(90),
+  platform: z.enum(['TWITTER', 'LINKEDIN', 'INSTAGRAM', 'TIKTOK', 'YOUTUBE_SHORTS', 'REDDIT', 'FACEBOOK', 'THREADS']).optional(),
+});
+
+const competitorAlertsSchema = z.object({
+  organizationId: z.string().cuid(),
+  includeAcknowledged: z.enum(['true', 'false']).default('false'),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const weeklySummariesSchema = z.object({
+  organizationId: z.string().cuid(),
+  limit: z.coerce.number().int().min(1).max(52).default(12),
+});
+
+const generateWeeklySummarySchema = z.object({
+  organizationId: z.string().cuid(),
+  weekStart: z.string().datetime().optional(), // Monday 00:00 in the organization's time zone; defaults to last week
+  regenerate: z.boolean().default(false),
+  sendEmail: z.boolean().default(false),
+});
+
+const acceptRecommendationsSchema = z.object({
+  organizationId: z.string().cuid(),
+  strategyChanges: z.array(z.number().int().min(0)).optional(), // Indexes; all when omitted
+  contentPivots: z.array(z.number().int().min(0)).optional(),
+});
+
+const attributionQuerySchema = z.object({
+  organizationId: z.string().cuid(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  model: z.enum(['last_touch', 'linear']).default('last_touch'),
+  platform: z.enum(['TWITTER', 'LINKEDIN', 'INSTAGRAM', 'TIKTOK', 'YOUTUBE_SHORTS', 'REDDIT', 'FACEBOOK', 'THREADS']).optional(),
+});
+
+const breakoutsQuerySchema = z.object({
+  organizationId: z.string().cuid(),
+  hours: z.coerce.number().int().min(1).max(720).default(72), // Published within this many hours
+});
+
 export const analyticsRoutes: FastifyPluginAsync = async (fastify) => {
   const analyticsService = new AnalyticsService(fastify.prisma);
   const analyticsCollector = new AnalyticsCollector(fastify.prisma);
+  const publishingFreeze = new PublishingFreezeService(fastify.prisma);
+  const competitorTracking = new CompetitorTrackingService(fastify.prisma);
+  const weeklyCoach = new WeeklyCoachService(fastify.prisma);
+  const attribution = new ConversionAttributionService(fastify.prisma);
+  const postCurves = new PostCurveService(fastify.prisma, analyticsCollector);
 
   // Real-time dashboard endpoint
   fastify.get('/dashboard', {
@@ -71,20 +152,26 @@ export const analyticsRoutes: FastifyPluginAsync = async (fastify) => {
     },
   }, async (request: FastifyRequest<{ Querystring: z.infer<typeof dashboardQuerySchema> }>, reply: FastifyReply) => {
     try {
-      const { organizationId, platform, startDate, endDate, groupBy, timeZone } = request.query;
-
-      const dashboardData = await analyticsService.getDashboardData({
-        organizationId,
-        platform,
-        startDate: startDate ? new Date(startDate) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // Default to 30 days ago
-        endDate: endDate ? new Date(endDate) : new Date(),
-        groupBy,
-        timeZone,
-      });
+      const { organizationId, platform, startDate, endDate, groupBy, timeZone, attributionModel } = request.query;
+      const start = startDate ? new Date(startDate) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // Default to 30 days ago
+      const end = endDate ? new Date(endDate) : new Date();
+
+      const [dashboardData, publishingFreezes, conversions] = await Promise.all([
+        analyticsService.getDashboardData({
+          organizationId,
+          platform,
+          startDate: start,
+          endDate: end,
+          groupBy,
+          timeZone,
+        }),
+        publishingFreeze.listFreezes(organizationId),
+        attribution.report(organizationId, { startDate: start, endDate: end, model: attributionModel, platform }),
+      ]);
 
       return {
         success: true,
-        data: dashboardData,
+        data: { ...dashboardData, publishingFreezes, conversions },
       };
     } catch (error: any) {
       fastify.log.error('Error fetching dashboard data:', error);
@@ -217,7 +304,7 @@ export const analyticsRoutes: FastifyPluginAsync = async (fastify) => {
       };
     } catch (error: any) {
       fastify.log.error('Error fetching comparison data:', error);
-      return reply.status(500).send({
+      return reply.status(error instanceof ValidationError ? 400 : 500).send({
         success: false,
         error: 'Failed to fetch comparison data',
         details: error.message,
@@ -228,27 +315,11 @@ export const analyticsRoutes: FastifyPluginAsync = async (fastify) => {
   // Custom date range filtering
   fastify.get('/custom-range', {
     schema: {
-      querystring: z.object({
-        organizationId: z.string().cuid(),
-        startDate: z.string().datetime(),
-        endDate: z.string().datetime(),
-        platforms: z.array(z.enum(['TWITTER', 'LINKEDIN', 'INSTAGRAM', 'TIKTOK', 'YOUTUBE_SHORTS', 'REDDIT', 'FACEBOOK', 'THREADS'])).optional(),
-        metrics: z.array(z.string()).optional(),
-        groupBy: z.enum(['day', 'week', 'month']).default('day'),
-      }),
+      querystring: customRangeSchema,
     },
-  }, async (request: FastifyRequest<{ 
-    Querystring: { 
-      organizationId: string; 
-      startDate: string; 
-      endDate: string; 
-      platforms?: string[]; 
-      metrics?: string[];
-      groupBy?: string;
-    }
-  }>, reply: FastifyReply) => {
+  }, async (request: FastifyRequest<{ Querystring: z.infer<typeof customRangeSchema> }>, reply: FastifyReply) => {
     try {
-      const { organizationId, startDate, endDate, platforms, metrics, groupBy = 'day' } = request.query;
+      const { organizationId, startDate, endDate, platforms, metrics, groupBy, timeZone } = request.query;
 
       const customRangeData = await analyticsService.getCustomRangeAnalytics({
         organizationId,
@@ -257,6 +328,7 @@ export const analyticsRoutes: FastifyPluginAsync = async (fastify) => {
         platforms,
         metrics,
         groupBy,
+        timeZone,
       });
 
       return {
@@ -269,7 +341,7 @@ export const analyticsRoutes: FastifyPluginAsync = async (fastify) => {
       };
     } catch (error: any) {
       fastify.log.error('Error fetching custom range data:', error);
-      return reply.status(500).send({
+      return reply.status(error instanceof ValidationError ? 400 : 500).send({
         success: false,
         error: 'Failed to fetch custom range data',
         details: error.message,
@@ -331,19 +403,34 @@ export const analyticsRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
-  // Download report
+  // Download report (signed link from the report status)
   fastify.get('/reports/:reportId/download', async (request: FastifyRequest<{ 
-    Params: { reportId: string }
+    Params: { reportId: string };
+    Querystring: { expires?: string; signature?: string };
   }>, reply: FastifyReply) => {
     try {
       const { reportId } = request.params;
+      const { expires, signature } = request.query;
+
+      if (!verifyDownloadSignature(ReportGenerator.downloadPath(reportId), expires, signature)) {
+        return reply.status(403).send({
+          success: false,
+          error: 'Download link is invalid or has expired',
+        });
+      }
 
       const reportFile = await analyticsService.downloadReport(reportId);
+      if (!reportFile) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Report file not found',
+        });
+      }
 
       reply.type(reportFile.mimeType);
-      reply.header('Content-Disposition', `attachment; filename="${reportFile.filename}"`);
+      reply.header('Content-Disposition', `attachment; filename="${reportFile.fileName}"`);
       
-      return reportFile.data;
+      return reply.send(reportFile.stream);
     } catch (error: any) {
       fastify.log.error('Error downloading report:', error);
       return reply.status(500).send({
@@ -375,7 +462,7 @@ export const analyticsRoutes: FastifyPluginAsync = async (fastify) => {
       };
     } catch (error: any) {
       fastify.log.error('Error performing competitor analysis:', error);
-      return reply.status(500).send({
+      return reply.status(error instanceof ValidationError ? 400 : 500).send({
         success: false,
         error: 'Failed to perform competitor analysis',
         details: error.message,
@@ -383,6 +470,440 @@ export const analyticsRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Tracked competitor accounts
+  fastify.get('/competitors', {
+    schema: {
+      querystring: z.object({
+        organizationId: z.string().cuid(),
+      }),
+    },
+  }, async (request: FastifyRequest<{ Querystring: { organizationId: string } }>, reply: FastifyReply) => {
+    try {
+      const competitors = await competitorTracking.list(request.query.organizationId);
+
+      return {
+        success: true,
+        data: competitors,
+      };
+    } catch (error: any) {
+      fastify.log.error('Error listing competitors:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to list competitors',
+        details: error.message,
+      });
+    }
+  });
+
+  fastify.post('/competitors', {
+    schema: {
+      body: trackCompetitorSchema,
+    },
+  }, async (request: FastifyRequest<{ Body: z.infer<typeof trackCompetitorSchema> }>, reply: FastifyReply) => {
+    try {
+      const competitor = await competitorTracking.track(request.body);
+
+      return reply.status(201).send({
+        success: true,
+        data: competitor,
+      });
+    } catch (error: any) {
+      fastify.log.error('Error tracking competitor:', error);
+      return reply.status(error instanceof ValidationError ? 400 : 500).send({
+        success: false,
+        error: 'Failed to track competitor',
+        details: error.message,
+      });
+    }
+  });
+
+  fastify.delete('/competitors/:competitorId', {
+    schema: {
+      querystring: z.object({
+        organizationId: z.string().cuid(),
+      }),
+    },
+  }, async (request: FastifyRequest<{
+    Params: { competitorId: string };
+    Querystring: { organizationId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const untracked = await competitorTracking.untrack(request.query.organizationId, request.params.competitorId);
+      if (!untracked) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Competitor not found',
+        });
+      }
+
+      return {
+        success: true,
+        message: 'Competitor is no longer tracked',
+      };
+    } catch (error: any) {
+      fastify.log.error('Error untracking competitor:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to untrack competitor',
+        details: error.message,
+      });
+    }
+  });
+
+  // Manual tracking: upload snapshots as CSV or JSON
+  fastify.post('/competitors/:competitorId/snapshots', {
+    schema: {
+      body: competitorSnapshotUploadSchema,
+    },
+  }, async (request: FastifyRequest<{
+    Params: { competitorId: string };
+    Body: z.infer<typeof competitorSnapshotUploadSchema>;
+  }>, reply: FastifyReply) => {
+    try {
+      const { organizationId, format, content } = request.body;
+
+      const result = await competitorTracking.importSnapshots(organizationId, request.params.competitorId, { format, content });
+      if (!result) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Competitor not found',
+        });
+      }
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error: any) {
+      fastify.log.error('Error importing competitor snapshots:', error);
+      return reply.status(error instanceof ValidationError ? 400 : 500).send({
+        success: false,
+        error: 'Failed to import competitor snapshots',
+        details: error.message,
+      });
+    }
+  });
+
+  // Competitor metrics over time, next to the organization's own
+  fastify.get('/competitors/trends', {
+    schema: {
+      querystring: competitorTrendsSchema,
+    },
+  }, async (request: FastifyRequest<{ Querystring: z.infer<typeof competitorTrendsSchema> }>, reply: FastifyReply) => {
+    try {
+      const { organizationId, days, platform } = request.query;
+
+      const trends = await competitorTracking.trends(organizationId, { days, platform });
+
+      return {
+        success: true,
+        data: trends,
+      };
+    } catch (error: any) {
+      fastify.log.error('Error fetching competitor trends:', error);
+      return reply.status(error instanceof ValidationError ? 400 : 500).send({
+        success: false,
+        error: 'Failed to fetch competitor trends',
+        details: error.message,
+      });
+    }
+  });
+
+  // Sharp changes in competitors' posting cadence or engagement
+  fastify.get('/competitors/alerts', {
+    schema: {
+      querystring: competitorAlertsSchema,
+    },
+  }, async (request: FastifyRequest<{ Querystring: z.infer<typeof competitorAlertsSchema> }>, reply: FastifyReply) => {
+    try {
+      const { organizationId, includeAcknowledged, limit } = request.query;
+
+      const alerts = await competitorTracking.listAlerts(organizationId, {
+        includeAcknowledged: includeAcknowledged === 'true',
+        limit,
+      });
+
+      return {
+        success: true,
+        data: alerts,
+      };
+    } catch (error: any) {
+      fastify.log.error('Error fetching competitor alerts:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to fetch competitor alerts',
+        details: error.message,
+      });
+    }
+  });
+
+  fastify.post('/competitors/alerts/:alertId/acknowledge', {
+    schema: {
+      body: z.object({
+        organizationId: z.string().cuid(),
+      }),
+    },
+  }, async (request: FastifyRequest<{
+    Params: { alertId: string };
+    Body: { organizationId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const alert = await competitorTracking.acknowledgeAlert(request.body.organizationId, request.params.alertId);
+      if (!alert) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Alert not found',
+        });
+      }
+
+      return {
+        success: true,
+        data: alert,
+      };
+    } catch (error: any) {
+      fastify.log.error('Error acknowledging competitor alert:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to acknowledge competitor alert',
+        details: error.message,
+      });
+    }
+  });
+
+  // Signups and demos credited to posts under the chosen attribution model
+  fastify.get('/attribution', {
+    schema: {
+      querystring: attributionQuerySchema,
+    },
+  }, async (request: FastifyRequest<{ Querystring: z.infer<typeof attributionQuerySchema> }>, reply: FastifyReply) => {
+    try {
+      const { organizationId, startDate, endDate, model, platform } = request.query;
+
+      const report = await attribution.report(organizationId, {
+        startDate: startDate ? new Date(startDate) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+        endDate: endDate ? new Date(endDate) : new Date(),
+        model,
+        platform,
+      });
+
+      return {
+        success: true,
+        data: report,
+      };
+    } catch (error: any) {
+      fastify.log.error('Error fetching conversion attribution:', error);
+      return reply.status(error instanceof ValidationError ? 400 : 500).send({
+        success: false,
+        error: 'Failed to fetch conversion attribution',
+        details: error.message,
+      });
+    }
+  });
+
+  // Key for sending conversions server to server
+  fastify.get('/attribution/key', {
+    schema: {
+      querystring: z.object({
+        organizationId: z.string().cuid(),
+      }),
+    },
+  }, async (request: FastifyRequest<{ Querystring: { organizationId: string } }>) => {
+    return {
+      success: true,
+      data: {
+        organizationId: request.query.organizationId,
+        conversionKey: attribution.conversionKey(request.query.organizationId),
+      },
+    };
+  });
+
+  // Recent posts running well ahead of the median curve, worth boosting or resharing
+  fastify.get('/posts/breakouts', {
+    schema: {
+      querystring: breakoutsQuerySchema,
+    },
+  }, async (request: FastifyRequest<{ Querystring: z.infer<typeof breakoutsQuerySchema> }>, reply: FastifyReply) => {
+    try {
+      const breakouts = await postCurves.breakouts(request.query.organizationId, { hours: request.query.hours });
+
+      return {
+        success: true,
+        data: breakouts,
+      };
+    } catch (error: any) {
+      fastify.log.error('Error fetching breakout posts:', error);
+      return reply.status(error instanceof ValidationError ? 400 : 500).send({
+        success: false,
+        error: 'Failed to fetch breakout posts',
+        details: error.message,
+      });
+    }
+  });
+
+  // A post's engagement curve against the median for its platform and content type
+  fastify.get('/posts/:scheduledPostId/curve', {
+    schema: {
+      querystring: z.object({
+        organizationId: z.string().cuid(),
+      }),
+    },
+  }, async (request: FastifyRequest<{
+    Params: { scheduledPostId: string };
+    Querystring: { organizationId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const curve = await postCurves.curve(request.query.organizationId, request.params.scheduledPostId);
+      if (!curve) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Published post not found',
+        });
+      }
+
+      return {
+        success: true,
+        data: curve,
+      };
+    } catch (error: any) {
+      fastify.log.error('Error fetching post curve:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to fetch post curve',
+        details: error.message,
+      });
+    }
+  });
+
+  // Weekly coach reports, newest first
+  fastify.get('/weekly-summaries', {
+    schema: {
+      querystring: weeklySummariesSchema,
+    },
+  }, async (request: FastifyRequest<{ Querystring: z.infer<typeof weeklySummariesSchema> }>, reply: FastifyReply) => {
+    try {
+      const summaries = await weeklyCoach.list(request.query.organizationId, request.query.limit);
+
+      return {
+        success: true,
+        data: summaries,
+      };
+    } catch (error: any) {
+      fastify.log.error('Error listing weekly summaries:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to list weekly summaries',
+        details: error.message,
+      });
+    }
+  });
+
+  fastify.get('/weekly-summaries/:summaryId', {
+    schema: {
+      querystring: z.object({
+        organizationId: z.string().cuid(),
+      }),
+    },
+  }, async (request: FastifyRequest<{
+    Params: { summaryId: string };
+    Querystring: { organizationId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const summary = await weeklyCoach.get(request.query.organizationId, request.params.summaryId);
+      if (!summary) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Weekly summary not found',
+        });
+      }
+
+      return {
+        success: true,
+        data: summary,
+      };
+    } catch (error: any) {
+      fastify.log.error('Error fetching weekly summary:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to fetch weekly summary',
+        details: error.message,
+      });
+    }
+  });
+
+  // Generate a week's report on demand; the worker does this every Monday
+  fastify.post('/weekly-summaries/generate', {
+    schema: {
+      body: generateWeeklySummarySchema,
+    },
+  }, async (request: FastifyRequest<{ Body: z.infer<typeof generateWeeklySummarySchema> }>, reply: FastifyReply) => {
+    try {
+      const { organizationId, weekStart, regenerate, sendEmail } = request.body;
+
+      const summary = await weeklyCoach.generate(organizationId, {
+        weekStart: weekStart ? new Date(weekStart) : undefined,
+        regenerate,
+        sendEmail,
+      });
+      if (!summary) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Organization not found',
+        });
+      }
+
+      return {
+        success: true,
+        data: summary,
+      };
+    } catch (error: any) {
+      fastify.log.error('Error generating weekly summary:', error);
+      return reply.status(error instanceof ValidationError ? 400 : 500).send({
+        success: false,
+        error: 'Failed to generate weekly summary',
+        details: error.message,
+      });
+    }
+  });
+
+  // Apply recommendations to a new version of the active strategy
+  fastify.post('/weekly-summaries/:summaryId/accept', {
+    schema: {
+      body: acceptRecommendationsSchema,
+    },
+  }, async (request: FastifyRequest<{
+    Params: { summaryId: string };
+    Body: z.infer<typeof acceptRecommendationsSchema>;
+  }>, reply: FastifyReply) => {
+    try {
+      const { organizationId, strategyChanges, contentPivots } = request.body;
+
+      const result = await weeklyCoach.accept({
+        organizationId,
+        summaryId: request.params.summaryId,
+        strategyChanges,
+        contentPivots,
+      });
+      if (!result) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Weekly summary not found',
+        });
+      }
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error: any) {
+      fastify.log.error('Error accepting weekly recommendations:', error);
+      return reply.status(error instanceof ValidationError ? 400 : 500).send({
+        success: false,
+        error: 'Failed to accept recommendations',
+        details: error.message,
+      });
+    }
+  });
+
   // Top performing content
   fastify.get('/top-content', {
     schema: {
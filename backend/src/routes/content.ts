@@ -6,6 +6,8 @@ import { contentApprovalService } from '../services/content-approval';
 import { contentLibraryService } from '../services/content-library';
 import { hashtagResearchService } from '../services/hashtag-research';
 import { mediaAttachmentService } from '../services/media-attachment';
+import { GenerationJobService } from '../services/generation-jobs';
+import { ContentSimilarityService } from '../services/content-similarity';
 import { ValidationError } from '../utils/errors';
 
 // Request schemas
@@ -34,7 +36,113 @@ const GenerateContentSchema = z.object({
     conversion: z.boolean().default(false),
     brandSafety: z.boolean().default(true),
   }),
-  provider: z.enum(['openai', 'anthropic']).default('openai'),
+  provider: z.enum(['openai', 'anthropic', 'local']).optional(),
+});
+
+const GenerateContentJobSchema = z.object({
+  organizationId: z.string(),
+  platform: z.enum(['TWITTER', 'LINKEDIN', 'INSTAGRAM', 'TIKTOK', 'YOUTUBE_SHORTS', 'REDDIT', 'FACEBOOK', 'THREADS']),
+  contentType: z.enum(['POST', 'THREAD', 'STORY', 'REEL', 'SHORT', 'CAROUSEL', 'POLL']),
+  pillarId: z.string().optional(),
+  seriesId: z.string().optional(),
+  prompt: z.string().optional(),
+  context: GenerateContentSchema.shape.context,
+  count: z.number().int().min(1).max(200).default(1),
+  scheduledFor: z.string().datetime().optional(),
+  intervalHours: z.number().positive().max(24 * 30).optional(),
+  diversityLevel: z.enum(['low', 'medium', 'high']).default('medium'),
+  optimization: GenerateContentSchema.shape.optimization.optional(),
+  provider: z.enum(['openai', 'anthropic', 'local']).optional(),
+});
+
+const GenerationJobParamsSchema = z.object({
+  jobId: z.string(),
+});
+
+const GenerationJobScopeSchema = z.object({
+  organizationId: z.string(),
+});
+
+// Query strings carry lists either as repeated keys or comma-separated values
+const QueryListSchema = z.union([z.string(), z.array(z.string())])
+  .transform((value) => (Array.isArray(value) ? value : value.split(',')).map(entry => entry.trim()).filter(Boolean))
+  .optional();
+
+const QueryBooleanSchema = z.enum(['true', 'false']).transform(value => value === 'true').optional();
+
+const LibrarySearchQuerySchema = z.object({
+  organizationId: z.string(),
+  q: z.string().optional(),
+  type: QueryListSchema,
+  status: QueryListSchema,
+  platform: QueryListSchema,
+  contentType: QueryListSchema,
+  tags: QueryListSchema,
+  categories: QueryListSchema,
+  collections: QueryListSchema,
+  author: QueryListSchema,
+  pillar: QueryListSchema,
+  series: QueryListSchema,
+  campaign: QueryListSchema,
+  start: z.coerce.date().optional(),
+  end: z.coerce.date().optional(),
+  dateField: z.enum(['created', 'updated', 'published']).default('created'),
+  minEngagement: z.coerce.number().optional(),
+  minImpressions: z.coerce.number().optional(),
+  minScore: z.coerce.number().optional(),
+  aiGenerated: QueryBooleanSchema,
+  hasMedia: QueryBooleanSchema,
+  sortBy: z.enum(['created', 'updated', 'title', 'performance', 'usage', 'relevance']).optional(),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const LibrarySimilarSchema = z.object({
+  organizationId: z.string(),
+  text: z.string().min(1).optional(),
+  contentPieceId: z.string().optional(),
+  libraryItemId: z.string().optional(),
+  limit: z.number().int().min(1).max(50).default(10),
+  months: z.number().int().min(1).max(36).optional(),
+}).refine(
+  value => [value.text, value.contentPieceId, value.libraryItemId].filter(Boolean).length === 1,
+  'Provide exactly one of text, contentPieceId or libraryItemId'
+);
+
+const MediaLibraryQuerySchema = z.object({
+  organizationId: z.string(),
+  q: z.string().optional(),
+  type: QueryListSchema,
+  mimeType: QueryListSchema,
+  tags: QueryListSchema,
+  platforms: QueryListSchema,
+  aspectRatio: QueryListSchema,
+  start: z.coerce.date().optional(),
+  end: z.coerce.date().optional(),
+  dateField: z.enum(['created', 'updated', 'lastUsed']).default('created'),
+  minWidth: z.coerce.number().optional(),
+  maxWidth: z.coerce.number().optional(),
+  minHeight: z.coerce.number().optional(),
+  maxHeight: z.coerce.number().optional(),
+  minSize: z.coerce.number().optional(),
+  maxSize: z.coerce.number().optional(),
+  hasAltText: QueryBooleanSchema,
+  hasRights: QueryBooleanSchema,
+  status: QueryListSchema,
+  minUsage: z.coerce.number().optional(),
+  maxUsage: z.coerce.number().optional(),
+  unused: QueryBooleanSchema,
+  sortBy: z.enum(['created', 'updated', 'name', 'size', 'usage', 'lastUsed']).default('created'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+const CollectionItemSchema = z.object({
+  organizationId: z.string(),
+  itemId: z.string(),
 });
 
 const ApplyTemplateSchema = z.object({
@@ -68,6 +176,43 @@ const CreateApprovalRequestSchema = z.object({
   }),
 });
 
+const SubmitRevisionSchema = z.object({
+  content: z.object({
+    title: z.string().optional(),
+    body: z.string(),
+    hashtags: z.array(z.string()).default([]),
+    mentions: z.array(z.string()).default([]),
+    mediaRefs: z.any().optional(),
+  }),
+  submissionNotes: z.string().optional(),
+  submitterId: z.string(),
+});
+
+const ProcessApprovalSchema = z.object({
+  reviewerId: z.string(),
+  action: z.enum(['approve', 'reject', 'request_changes', 'comment']),
+  comments: z.string().optional(),
+  suggestedChanges: z.array(z.object({
+    field: z.enum(['title', 'body', 'hashtags', 'mentions']),
+    suggestion: z.string(),
+    reason: z.string(),
+    priority: z.enum(['low', 'medium', 'high']),
+  })).optional(),
+  criteria: z.record(z.any()).optional(),
+});
+
+const AddApprovalCommentSchema = z.object({
+  authorId: z.string(),
+  content: z.string().min(1),
+  type: z.enum(['general', 'suggestion', 'question', 'concern', 'praise']).default('general'),
+  mentions: z.array(z.string()).default([]),
+  attachments: z.array(z.object({
+    type: z.enum(['image', 'document', 'link']),
+    url: z.string().url(),
+    name: z.string(),
+  })).optional(),
+});
+
 const HashtagResearchSchema = z.object({
   organizationId: z.string(),
   platform: z.enum(['TWITTER', 'LINKEDIN', 'INSTAGRAM', 'TIKTOK', 'YOUTUBE_SHORTS', 'REDDIT', 'FACEBOOK', 'THREADS']),
@@ -89,10 +234,13 @@ const HashtagResearchSchema = z.object({
     minHashtagLength: z.number().optional(),
     excludeOverused: z.boolean().default(true),
   }).optional(),
-  provider: z.enum(['openai', 'anthropic']).default('openai'),
+  provider: z.enum(['openai', 'anthropic', 'local']).optional(),
 });
 
 export async function contentRoutes(fastify: FastifyInstance) {
+  const generationJobs = new GenerationJobService(fastify.prisma);
+  const contentSimilarity = new ContentSimilarityService(fastify.prisma);
+
   // Content Generation Routes
   
   // Generate content using AI
@@ -101,10 +249,12 @@ export async function contentRoutes(fastify: FastifyInstance) {
       const body = GenerateContentSchema.parse(request.body);
       
       const generatedContent = await contentGenerationService.generateContent(body, body.provider);
+      // Flag drafts that repeat what the organization already published
+      const similarContent = await contentSimilarity.findSimilar(body.organizationId, generatedContent.content.body, { limit: 3 });
       
       reply.status(201).send({
         success: true,
-        data: generatedContent
+        data: { ...generatedContent, similarContent }
       });
     } catch (error) {
       console.error('Content generation error:', error);
@@ -128,6 +278,112 @@ export async function contentRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Queue a background generation job (bulk calendars, long-running runs)
+  fastify.post('/jobs', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = GenerateContentJobSchema.parse(request.body);
+
+      const status = await generationJobs.enqueueContentGeneration({
+        ...body,
+        userId: (request.user as any)?.id,
+      });
+
+      reply.status(202).send({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else if (error instanceof ValidationError) {
+        reply.status(400).send({
+          success: false,
+          error: error.message
+        });
+      } else {
+        console.error('Queue content generation error:', error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to queue content generation'
+        });
+      }
+    }
+  });
+
+  // Get generation job status
+  fastify.get('/jobs/:jobId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const params = GenerationJobParamsSchema.parse(request.params);
+      const query = GenerationJobScopeSchema.parse(request.query);
+
+      const status = await generationJobs.getJobStatus('content', params.jobId, query.organizationId);
+      if (!status) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Job not found'
+        });
+      }
+
+      reply.send({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else {
+        console.error('Get content generation job error:', error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to get job status'
+        });
+      }
+    }
+  });
+
+  // Cancel a generation job; pieces already saved are kept
+  fastify.post('/jobs/:jobId/cancel', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const params = GenerationJobParamsSchema.parse(request.params);
+      const body = GenerationJobScopeSchema.parse(request.body);
+
+      const status = await generationJobs.cancelJob('content', params.jobId, body.organizationId);
+      if (!status) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Job not found'
+        });
+      }
+
+      reply.send({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else {
+        console.error('Cancel content generation job error:', error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to cancel job'
+        });
+      }
+    }
+  });
+
   // Generate content variations
   fastify.post('/variations', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
@@ -136,7 +392,7 @@ export async function contentRoutes(fastify: FastifyInstance) {
         platform: z.string(),
         variationTypes: z.array(z.string()),
         count: z.number().min(1).max(10).default(3),
-        provider: z.enum(['openai', 'anthropic']).default('openai'),
+        provider: z.enum(['openai', 'anthropic', 'local']).optional(),
       }).parse(request.body);
 
       const variations = await contentGenerationService.generateVariations(
@@ -340,8 +596,8 @@ export async function contentRoutes(fastify: FastifyInstance) {
         status: z.string().optional(),
         assignedTo: z.string().optional(),
         priority: z.string().optional(),
-        page: z.number().default(1),
-        limit: z.number().default(10),
+        page: z.coerce.number().default(1),
+        limit: z.coerce.number().default(10),
       }).parse(request.query);
 
       const results = await contentApprovalService.getApprovalRequests({
@@ -366,33 +622,215 @@ export async function contentRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Get a single approval request with its revisions, decisions and comments
+  fastify.get('/approval/requests/:id', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const params = z.object({ id: z.string() }).parse(request.params);
+
+      const approvalRequest = await contentApprovalService.getApprovalRequestById(params.id);
+      if (!approvalRequest) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Approval request not found'
+        });
+      }
+
+      reply.send({
+        success: true,
+        data: approvalRequest
+      });
+    } catch (error) {
+      console.error('Get approval request error:', error);
+      reply.status(500).send({
+        success: false,
+        error: 'Failed to get approval request'
+      });
+    }
+  });
+
+  // Submit a revision for an approval request
+  fastify.post('/approval/requests/:id/revisions', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const params = z.object({ id: z.string() }).parse(request.params);
+      const body = SubmitRevisionSchema.parse(request.body);
+
+      const result = await contentApprovalService.submitRevision({
+        ...body,
+        requestId: params.id,
+      });
+
+      reply.status(201).send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      console.error('Submit revision error:', error);
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else if (error instanceof ValidationError) {
+        reply.status(400).send({
+          success: false,
+          error: error.message
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to submit revision'
+        });
+      }
+    }
+  });
+
+  // Record a reviewer decision (approve, reject, request changes)
+  fastify.post('/approval/requests/:id/decisions', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const params = z.object({ id: z.string() }).parse(request.params);
+      const body = ProcessApprovalSchema.parse(request.body);
+
+      const result = await contentApprovalService.processApproval({
+        ...body,
+        requestId: params.id,
+      });
+
+      reply.status(201).send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      console.error('Process approval error:', error);
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else if (error instanceof ValidationError) {
+        reply.status(400).send({
+          success: false,
+          error: error.message
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to process approval'
+        });
+      }
+    }
+  });
+
+  // Comment on an approval request
+  fastify.post('/approval/requests/:id/comments', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const params = z.object({ id: z.string() }).parse(request.params);
+      const body = AddApprovalCommentSchema.parse(request.body);
+
+      const comment = await contentApprovalService.addComment(params.id, body.authorId, body);
+
+      reply.status(201).send({
+        success: true,
+        data: comment
+      });
+    } catch (error) {
+      console.error('Add approval comment error:', error);
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else if (error instanceof ValidationError) {
+        reply.status(400).send({
+          success: false,
+          error: error.message
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to add comment'
+        });
+      }
+    }
+  });
+
+  // List an organization's approval workflows
+  fastify.get('/approval/workflows', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const query = z.object({ organizationId: z.string() }).parse(request.query);
+
+      const workflows = await contentApprovalService.getWorkflows(query.organizationId);
+
+      reply.send({
+        success: true,
+        data: workflows
+      });
+    } catch (error) {
+      console.error('Get approval workflows error:', error);
+      reply.status(500).send({
+        success: false,
+        error: 'Failed to get approval workflows'
+      });
+    }
+  });
+
+  // Create a custom approval workflow
+  fastify.post('/approval/workflows', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const workflow = await contentApprovalService.createWorkflow(request.body as any);
+
+      reply.status(201).send({
+        success: true,
+        data: workflow
+      });
+    } catch (error) {
+      console.error('Create approval workflow error:', error);
+      if (error instanceof ValidationError) {
+        reply.status(400).send({
+          success: false,
+          error: error.message
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to create approval workflow'
+        });
+      }
+    }
+  });
+
   // Content Library Routes
 
   // Search content library
   fastify.get('/library/search', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const query = z.object({
-        organizationId: z.string(),
-        q: z.string().optional(),
-        type: z.array(z.string()).optional(),
-        status: z.array(z.string()).optional(),
-        platform: z.array(z.string()).optional(),
-        tags: z.array(z.string()).optional(),
-        author: z.array(z.string()).optional(),
-        sortBy: z.enum(['created', 'updated', 'title', 'performance', 'usage', 'relevance']).default('created'),
-        sortOrder: z.enum(['asc', 'desc']).default('desc'),
-        page: z.number().min(1).default(1),
-        limit: z.number().min(1).max(100).default(20),
-      }).parse(request.query);
+      const query = LibrarySearchQuerySchema.parse(request.query);
 
       const results = await contentLibraryService.searchItems({
+        organizationId: query.organizationId,
         query: query.q,
         type: query.type,
         status: query.status,
         platform: query.platform,
+        contentType: query.contentType,
         tags: query.tags,
+        categories: query.categories,
+        collections: query.collections,
         author: query.author,
-        sortBy: query.sortBy,
+        pillar: query.pillar,
+        series: query.series,
+        campaign: query.campaign,
+        dateRange: query.start || query.end
+          ? { start: query.start, end: query.end, field: query.dateField }
+          : undefined,
+        performance: query.minEngagement !== undefined || query.minImpressions !== undefined || query.minScore !== undefined
+          ? { minEngagement: query.minEngagement, minImpressions: query.minImpressions, minScore: query.minScore }
+          : undefined,
+        aiGenerated: query.aiGenerated,
+        hasMedia: query.hasMedia,
+        sortBy: query.sortBy ?? (query.q ? 'relevance' : 'created'),
         sortOrder: query.sortOrder,
         page: query.page,
         limit: query.limit,
@@ -404,10 +842,267 @@ export async function contentRoutes(fastify: FastifyInstance) {
       });
     } catch (error) {
       console.error('Search library error:', error);
-      reply.status(500).send({
-        success: false,
-        error: 'Failed to search library'
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else if (error instanceof ValidationError) {
+        reply.status(400).send({
+          success: false,
+          error: error.message
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to search library'
+        });
+      }
+    }
+  });
+
+  // Find published content similar to a draft, a content piece or a library item
+  fastify.post('/library/similar', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = LibrarySimilarSchema.parse(request.body);
+      const options = { limit: body.limit, months: body.months };
+
+      let matches;
+      if (body.contentPieceId) {
+        const piece = await fastify.prisma.contentPiece.findFirst({
+          where: { id: body.contentPieceId, organizationId: body.organizationId },
+          select: { id: true },
+        });
+        matches = piece ? await contentSimilarity.findSimilarToContent(piece.id, options) : null;
+      } else if (body.libraryItemId) {
+        const item = await contentLibraryService.getItemById(body.libraryItemId);
+        if (item && item.organizationId === body.organizationId && !item.content?.body) {
+          throw new ValidationError('Library item has no text to compare', 'libraryItemId', body.libraryItemId);
+        }
+        matches = item && item.organizationId === body.organizationId
+          ? await contentSimilarity.findSimilar(body.organizationId, item.content!.body!, options)
+          : null;
+      } else {
+        matches = await contentSimilarity.findSimilar(body.organizationId, body.text!, options);
+      }
+
+      if (!matches) {
+        return reply.status(404).send({
+          success: false,
+          error: body.contentPieceId ? 'Content piece not found' : 'Library item not found'
+        });
+      }
+
+      reply.send({
+        success: true,
+        data: matches
+      });
+    } catch (error) {
+      console.error('Find similar content error:', error);
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else if (error instanceof ValidationError) {
+        reply.status(400).send({
+          success: false,
+          error: error.message
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to find similar content'
+        });
+      }
+    }
+  });
+
+  // Add an item to the content library
+  fastify.post('/library/items', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const item = await contentLibraryService.createItem(request.body as any);
+
+      reply.status(201).send({
+        success: true,
+        data: item
+      });
+    } catch (error) {
+      console.error('Create library item error:', error);
+      if (error instanceof ValidationError) {
+        reply.status(400).send({
+          success: false,
+          error: error.message,
+          details: error.value
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to create library item'
+        });
+      }
+    }
+  });
+
+  // Get a library item
+  fastify.get('/library/items/:id', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const params = z.object({ id: z.string() }).parse(request.params);
+      const query = z.object({ organizationId: z.string() }).parse(request.query);
+
+      const item = await contentLibraryService.getItemById(params.id);
+      if (!item || item.organizationId !== query.organizationId) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Library item not found'
+        });
+      }
+
+      reply.send({
+        success: true,
+        data: item
+      });
+    } catch (error) {
+      console.error('Get library item error:', error);
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to get library item'
+        });
+      }
+    }
+  });
+
+  // List collections
+  fastify.get('/library/collections', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const query = z.object({
+        organizationId: z.string(),
+        ownerId: z.string().optional(),
+      }).parse(request.query);
+
+      const collections = await contentLibraryService.getCollections(query.organizationId, query.ownerId);
+
+      reply.send({
+        success: true,
+        data: collections
+      });
+    } catch (error) {
+      console.error('Get collections error:', error);
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to get collections'
+        });
+      }
+    }
+  });
+
+  // Create a collection
+  fastify.post('/library/collections', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const collection = await contentLibraryService.createCollection(request.body as any);
+
+      reply.status(201).send({
+        success: true,
+        data: collection
       });
+    } catch (error) {
+      console.error('Create collection error:', error);
+      if (error instanceof ValidationError) {
+        reply.status(400).send({
+          success: false,
+          error: error.message,
+          details: error.value
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to create collection'
+        });
+      }
+    }
+  });
+
+  // Add an item to a collection
+  fastify.post('/library/collections/:collectionId/items', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const params = z.object({ collectionId: z.string() }).parse(request.params);
+      const body = CollectionItemSchema.parse(request.body);
+
+      await contentLibraryService.addItemToCollection(body.itemId, params.collectionId, body.organizationId);
+
+      reply.send({
+        success: true,
+        data: { collectionId: params.collectionId, itemId: body.itemId }
+      });
+    } catch (error) {
+      console.error('Add collection item error:', error);
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else if (error instanceof ValidationError) {
+        reply.status(400).send({
+          success: false,
+          error: error.message
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to add item to collection'
+        });
+      }
+    }
+  });
+
+  // Remove an item from a collection
+  fastify.delete('/library/collections/:collectionId/items/:itemId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const params = z.object({ collectionId: z.string(), itemId: z.string() }).parse(request.params);
+      const query = z.object({ organizationId: z.string() }).parse(request.query);
+
+      await contentLibraryService.removeItemFromCollection(params.itemId, params.collectionId, query.organizationId);
+
+      reply.send({
+        success: true,
+        data: { collectionId: params.collectionId, itemId: params.itemId }
+      });
+    } catch (error) {
+      console.error('Remove collection item error:', error);
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else if (error instanceof ValidationError) {
+        reply.status(400).send({
+          success: false,
+          error: error.message
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to remove item from collection'
+        });
+      }
     }
   });
 
@@ -589,6 +1284,105 @@ export async function contentRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Browse the media library
+  fastify.get('/media/library', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const query = MediaLibraryQuerySchema.parse(request.query);
+
+      const library = await mediaAttachmentService.getMediaLibrary(query.organizationId, {
+        search: query.q,
+        type: query.type,
+        mimeType: query.mimeType,
+        tags: query.tags,
+        platforms: query.platforms,
+        aspectRatios: query.aspectRatio,
+        dateRange: query.start || query.end
+          ? { start: query.start ?? new Date(0), end: query.end ?? new Date(), field: query.dateField }
+          : undefined,
+        sizeRange: query.minSize !== undefined || query.maxSize !== undefined
+          ? { min: query.minSize ?? 0, max: query.maxSize ?? Number.MAX_SAFE_INTEGER }
+          : undefined,
+        dimensions: {
+          minWidth: query.minWidth,
+          maxWidth: query.maxWidth,
+          minHeight: query.minHeight,
+          maxHeight: query.maxHeight,
+        },
+        hasAltText: query.hasAltText,
+        hasRights: query.hasRights,
+        processingStatus: query.status,
+        usage: query.minUsage !== undefined || query.maxUsage !== undefined || query.unused !== undefined
+          ? { minUsage: query.minUsage, maxUsage: query.maxUsage, unused: query.unused }
+          : undefined,
+        sortBy: query.sortBy,
+        sortOrder: query.sortOrder,
+        page: query.page,
+        limit: query.limit,
+        cursor: query.cursor,
+      });
+
+      reply.send({
+        success: true,
+        data: library
+      });
+    } catch (error) {
+      console.error('Media library error:', error);
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else if (error instanceof ValidationError) {
+        reply.status(400).send({
+          success: false,
+          error: error.message,
+          details: error.value
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to load media library'
+        });
+      }
+    }
+  });
+
+  // Get a media item with its variants and processing status
+  fastify.get('/media/:mediaId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const params = z.object({ mediaId: z.string() }).parse(request.params);
+      const query = z.object({ organizationId: z.string() }).parse(request.query);
+
+      const media = await mediaAttachmentService.getMediaById(params.mediaId);
+      if (!media || media.organizationId !== query.organizationId) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Media not found'
+        });
+      }
+
+      reply.send({
+        success: true,
+        data: media
+      });
+    } catch (error) {
+      console.error('Get media error:', error);
+      if (error instanceof z.ZodError) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        });
+      } else {
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to get media'
+        });
+      }
+    }
+  });
+
   // Validate media for platform
   fastify.post('/media/:mediaId/validate/:platform/:contentType', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
@@ -2,6 +2,7 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { PrismaClient } from '@prisma/client';
 import { redis } from '../config/redis';
 import { config } from '../config/config';
+import { llmClient } from '../services/llm';
 
 interface HealthCheckResult {
   status: 'healthy' | 'degraded' | 'unhealthy';
@@ -272,6 +273,21 @@ export default async function healthRoutes(fastify: FastifyInstance) {
     prometheusMetrics += `# TYPE app_rate_limit_violations_total counter\n`;
     prometheusMetrics += `app_rate_limit_violations_total ${metrics.security.rateLimitViolations}\n`;
 
+    // LLM usage accounting
+    const llmUsage = llmClient.getUsageSummary();
+    prometheusMetrics += `# HELP app_llm_requests_total LLM requests by provider, task and outcome.\n`;
+    prometheusMetrics += `# TYPE app_llm_requests_total counter\n`;
+    llmUsage.forEach(entry => {
+      prometheusMetrics += `app_llm_requests_total{provider="${entry.provider}",task="${entry.task}",outcome="success"} ${entry.requests}\n`;
+      prometheusMetrics += `app_llm_requests_total{provider="${entry.provider}",task="${entry.task}",outcome="failure"} ${entry.failures}\n`;
+    });
+    prometheusMetrics += `# HELP app_llm_tokens_total LLM tokens consumed by provider, task and direction.\n`;
+    prometheusMetrics += `# TYPE app_llm_tokens_total counter\n`;
+    llmUsage.forEach(entry => {
+      prometheusMetrics += `app_llm_tokens_total{provider="${entry.provider}",task="${entry.task}",direction="prompt"} ${entry.promptTokens}\n`;
+      prometheusMetrics += `app_llm_tokens_total{provider="${entry.provider}",task="${entry.task}",direction="completion"} ${entry.completionTokens}\n`;
+    });
+
     reply.type('text/plain').send(prometheusMetrics);
   });
 }
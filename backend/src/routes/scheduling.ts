@@ -3,6 +3,11 @@ import { z } from 'zod';
 import { PrismaClient, Platform, EventType, ExportType, ExportFormat, ConflictType } from '@prisma/client';
 import { SchedulingService } from '../services/scheduling-service';
 import { CalendarExportService } from '../services/calendar-export-service';
+import { CalendarFeedService } from '../services/calendar-feed-service';
+import { CalendarImportService } from '../services/calendar-import-service';
+import { ConflictResolver } from '../services/conflict-resolver';
+import { verifyDownloadSignature } from '../services/file-storage';
+import { ValidationError } from '../utils/errors';
 import { parseISO } from 'date-fns';
 
 // Validation schemas
@@ -35,22 +40,35 @@ const BulkScheduleSchema = z.object({
   timeZone: z.string(),
 });
 
-const RecurringScheduleSchema = z.object({
-  organizationId: z.string(),
-  templateName: z.string().optional(),
-  contentPieceIds: z.array(z.string()),
-  frequency: z.enum(['daily', 'weekly', 'monthly']),
+// Start and end dates without an offset are read in timeZone
+const RecurrencePatternSchema = z.object({
+  rrule: z.string().optional(),
+  exdates: z.array(z.string()).optional(),
+  frequency: z.enum(['daily', 'weekly', 'monthly']).optional(),
   interval: z.number().min(1).max(12).default(1),
   daysOfWeek: z.array(z.number().min(0).max(6)).optional(),
   timeslots: z.array(z.object({
     hour: z.number().min(0).max(23),
     minute: z.number().min(0).max(59),
-  })),
-  startDate: z.string().transform(val => parseISO(val)),
-  endDate: z.string().transform(val => parseISO(val)).optional(),
+  })).min(1),
+  startDate: z.string(),
+  endDate: z.string().optional(),
   timeZone: z.string(),
+}).refine(data => data.rrule || data.frequency, {
+  message: 'Either rrule or frequency is required',
+  path: ['rrule'],
 });
 
+const RecurringScheduleSchema = RecurrencePatternSchema.and(z.object({
+  organizationId: z.string(),
+  templateName: z.string().optional(),
+  contentPieceIds: z.array(z.string()),
+}));
+
+const RecurringSchedulePreviewSchema = RecurrencePatternSchema.and(z.object({
+  count: z.number().min(1).max(100).default(10),
+}));
+
 const CreateCalendarEventSchema = z.object({
   organizationId: z.string(),
   title: z.string(),
@@ -80,6 +98,22 @@ const GetCalendarEventsSchema = z.object({
   eventTypes: z.array(z.nativeEnum(EventType)).optional(),
 });
 
+const CreateCalendarFeedSchema = z.object({
+  organizationId: z.string(),
+  platforms: z.array(z.nativeEnum(Platform)).default([]),
+  eventTypes: z.array(z.nativeEnum(EventType)).default([]),
+});
+
+// Feed filters are comma-separated so subscription URLs stay readable
+const CalendarFeedQuerySchema = z.object({
+  platforms: z.string().optional()
+    .transform(val => (val ? val.split(',') : []))
+    .pipe(z.array(z.nativeEnum(Platform))),
+  eventTypes: z.string().optional()
+    .transform(val => (val ? val.split(',') : []))
+    .pipe(z.array(z.nativeEnum(EventType))),
+});
+
 const DetectConflictsSchema = z.object({
   organizationId: z.string(),
   startDate: z.string().transform(val => parseISO(val)),
@@ -89,9 +123,17 @@ const DetectConflictsSchema = z.object({
     ConflictType.TIME_OVERLAP,
     ConflictType.PLATFORM_LIMIT,
     ConflictType.CONTENT_SIMILAR,
+    ConflictType.AUDIENCE_FATIGUE,
+    ConflictType.RATE_LIMIT,
+    ConflictType.RESOURCE_CONFLICT,
   ]),
 });
 
+const ApplyConflictResolutionSchema = z.object({
+  strategy: z.enum(['shift_to_optimal_slot', 'spread_posts', 'swap_content', 'reassign_account', 'cancel_duplicates']),
+  resolvedBy: z.string().optional(),
+});
+
 const CreateExportSchema = z.object({
   organizationId: z.string(),
   exportType: z.nativeEnum(ExportType),
@@ -104,10 +146,22 @@ const CreateExportSchema = z.object({
   fileName: z.string().optional(),
 });
 
+const ImportCalendarSchema = z.object({
+  organizationId: z.string(),
+  format: z.enum(['ICAL', 'CSV']),
+  content: z.string().min(1),
+  timeZone: z.string().default('UTC'),
+  dryRun: z.boolean().default(true),
+  allowConflicts: z.boolean().default(false),
+});
+
 export async function schedulingRoutes(fastify: FastifyInstance) {
   const prisma: PrismaClient = fastify.prisma;
   const schedulingService = new SchedulingService(prisma);
   const calendarExportService = new CalendarExportService(prisma);
+  const calendarFeedService = new CalendarFeedService(prisma);
+  const calendarImportService = new CalendarImportService(prisma);
+  const conflictResolver = new ConflictResolver(prisma);
 
   // ============================================
   // OPTIMAL POSTING TIMES
@@ -128,7 +182,7 @@ export async function schedulingRoutes(fastify: FastifyInstance) {
       });
     } catch (error: any) {
       console.error('Analyze optimal times error:', error);
-      reply.status(500).send({
+      reply.status(error instanceof ValidationError ? 400 : 500).send({
         success: false,
         error: error.message || 'Failed to analyze optimal posting times',
       });
@@ -203,6 +257,31 @@ export async function schedulingRoutes(fastify: FastifyInstance) {
   // RECURRING SCHEDULING
   // ============================================
 
+  /**
+   * Preview the next occurrences of a recurring schedule
+   */
+  fastify.post('/recurring-schedule/preview', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { count, ...pattern } = RecurringSchedulePreviewSchema.parse(request.body);
+      
+      const preview = schedulingService.previewRecurringSchedule(pattern, count);
+      
+      reply.send({
+        success: true,
+        data: {
+          ...preview,
+          count: preview.occurrences.length,
+        },
+      });
+    } catch (error: any) {
+      console.error('Recurring schedule preview error:', error);
+      reply.status(error instanceof ValidationError ? 400 : 500).send({
+        success: false,
+        error: error.message || 'Failed to preview recurring schedule',
+      });
+    }
+  });
+
   /**
    * Create recurring schedule
    */
@@ -224,7 +303,7 @@ export async function schedulingRoutes(fastify: FastifyInstance) {
       });
     } catch (error: any) {
       console.error('Recurring schedule error:', error);
-      reply.status(500).send({
+      reply.status(error instanceof ValidationError ? 400 : 500).send({
         success: false,
         error: error.message || 'Failed to create recurring schedule',
       });
@@ -300,7 +379,7 @@ export async function schedulingRoutes(fastify: FastifyInstance) {
       });
     } catch (error: any) {
       console.error('Drag drop update error:', error);
-      reply.status(500).send({
+      reply.status(error instanceof ValidationError ? 400 : 500).send({
         success: false,
         error: error.message || 'Failed to update event',
       });
@@ -316,7 +395,7 @@ export async function schedulingRoutes(fastify: FastifyInstance) {
       
       await prisma.calendarEvent.update({
         where: { id: eventId },
-        data: { status: 'CANCELLED' },
+        data: { status: 'CANCELLED', sequence: { increment: 1 } },
       });
       
       reply.send({
@@ -332,6 +411,82 @@ export async function schedulingRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // ============================================
+  // CALENDAR SUBSCRIPTION FEED
+  // ============================================
+
+  /**
+   * Create or rotate the organization's iCalendar feed
+   */
+  fastify.post('/calendar/feed', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { organizationId, platforms, eventTypes } = CreateCalendarFeedSchema.parse(request.body);
+      
+      const feed = await calendarFeedService.createFeed(organizationId, { platforms, eventTypes });
+      
+      reply.status(201).send({
+        success: true,
+        data: feed,
+      });
+    } catch (error: any) {
+      console.error('Create calendar feed error:', error);
+      reply.status(500).send({
+        success: false,
+        error: error.message || 'Failed to create calendar feed',
+      });
+    }
+  });
+
+  /**
+   * Revoke the organization's iCalendar feed
+   */
+  fastify.delete('/calendar/feed/:organizationId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { organizationId } = request.params as { organizationId: string };
+      
+      await calendarFeedService.revokeFeed(organizationId);
+      
+      reply.send({
+        success: true,
+        message: 'Calendar feed revoked successfully',
+      });
+    } catch (error: any) {
+      console.error('Revoke calendar feed error:', error);
+      reply.status(500).send({
+        success: false,
+        error: error.message || 'Failed to revoke calendar feed',
+      });
+    }
+  });
+
+  /**
+   * Serve the iCalendar feed polled by calendar clients
+   */
+  fastify.get('/calendar/feed/:token', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { token } = request.params as { token: string };
+      const filters = CalendarFeedQuerySchema.parse(request.query);
+      
+      const feed = await calendarFeedService.renderFeed(token, filters);
+      if (!feed) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Calendar feed not found',
+        });
+      }
+      
+      reply.type('text/calendar; charset=utf-8');
+      reply.header('Cache-Control', 'private, max-age=300');
+      return reply.send(feed);
+    } catch (error: any) {
+      console.error('Calendar feed error:', error);
+      reply.status(500).send({
+        success: false,
+        error: error.message || 'Failed to render calendar feed',
+      });
+    }
+  });
+
   // ============================================
   // CONFLICT DETECTION
   // ============================================
@@ -343,7 +498,7 @@ export async function schedulingRoutes(fastify: FastifyInstance) {
     try {
       const data = DetectConflictsSchema.parse(request.body);
       
-      await schedulingService.detectSchedulingConflicts({
+      const conflicts = await schedulingService.detectSchedulingConflicts({
         organizationId: data.organizationId,
         timeRange: { start: data.startDate, end: data.endDate },
         platforms: data.platforms,
@@ -353,6 +508,7 @@ export async function schedulingRoutes(fastify: FastifyInstance) {
       reply.send({
         success: true,
         message: 'Conflict detection completed',
+        data: conflicts,
       });
     } catch (error: any) {
       console.error('Conflict detection error:', error);
@@ -434,6 +590,65 @@ export async function schedulingRoutes(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * Get proposed fixes for a scheduling conflict
+   */
+  fastify.get('/conflicts/:conflictId/resolutions', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { conflictId } = request.params as { conflictId: string };
+      
+      const proposals = await conflictResolver.proposeResolutions(conflictId);
+      
+      if (!proposals) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Conflict not found',
+        });
+      }
+      
+      reply.send({
+        success: true,
+        data: proposals,
+      });
+    } catch (error: any) {
+      console.error('Get conflict resolutions error:', error);
+      reply.status(500).send({
+        success: false,
+        error: error.message || 'Failed to get conflict resolutions',
+      });
+    }
+  });
+
+  /**
+   * Apply a proposed fix and resolve the conflict
+   */
+  fastify.post('/conflicts/:conflictId/apply', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { conflictId } = request.params as { conflictId: string };
+      const { strategy, resolvedBy } = ApplyConflictResolutionSchema.parse(request.body);
+      
+      const applied = await conflictResolver.applyResolution(conflictId, strategy, resolvedBy);
+      
+      if (!applied) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Conflict not found',
+        });
+      }
+      
+      reply.send({
+        success: true,
+        data: applied,
+      });
+    } catch (error: any) {
+      console.error('Apply conflict resolution error:', error);
+      reply.status(error instanceof ValidationError ? 400 : 500).send({
+        success: false,
+        error: error.message || 'Failed to apply conflict resolution',
+      });
+    }
+  });
+
   // ============================================
   // SCHEDULE TEMPLATES
   // ============================================
@@ -546,11 +761,33 @@ export async function schedulingRoutes(fastify: FastifyInstance) {
   });
 
   /**
-   * Get export status
+   * Get export status, or stream the file when called with a signed download link
    */
   fastify.get('/export/:exportId', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const { exportId } = request.params as { exportId: string };
+      const { expires, signature } = request.query as { expires?: string; signature?: string };
+
+      if (signature) {
+        if (!verifyDownloadSignature(CalendarExportService.downloadPath(exportId), expires, signature)) {
+          return reply.status(403).send({
+            success: false,
+            error: 'Download link is invalid or has expired',
+          });
+        }
+
+        const file = await calendarExportService.openExportFile(exportId);
+        if (!file) {
+          return reply.status(404).send({
+            success: false,
+            error: 'Export file not found',
+          });
+        }
+
+        reply.type(file.mimeType);
+        reply.header('Content-Disposition', `attachment; filename="${file.fileName}"`);
+        return reply.send(file.stream);
+      }
       
       const exportData = await calendarExportService.getExport(exportId);
       
@@ -615,6 +852,33 @@ export async function schedulingRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // ============================================
+  // CALENDAR IMPORT
+  // ============================================
+
+  /**
+   * Import an ICS or CSV calendar. Dry runs (the default) return the per-row
+   * preview and detected conflicts without saving anything.
+   */
+  fastify.post('/import', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const data = ImportCalendarSchema.parse(request.body);
+      
+      const result = await calendarImportService.importCalendar(data);
+      
+      reply.status(result.committed ? 201 : 200).send({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Import calendar error:', error);
+      reply.status(error instanceof ValidationError ? 400 : 500).send({
+        success: false,
+        error: error.message || 'Failed to import calendar',
+      });
+    }
+  });
+
   // ============================================
   // ANALYTICS AND INSIGHTS
   // ============================================
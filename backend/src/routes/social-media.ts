@@ -4,21 +4,71 @@ import { TwitterService } from '../services/twitter-api';
 import { LinkedInService } from '../services/linkedin-api';
 import { SocialMediaPublisher } from '../services/social-media-publisher';
 import { AnalyticsCollector } from '../services/analytics-collector';
-import { encrypt, generateToken, verifyWebhookSignature } from '../utils/encryption';
+import { PlatformWebhookService } from '../services/platform-webhooks';
+import { PublishingQueueService } from '../services/publishing-queue';
+import { PublishingFreezeService } from '../services/publishing-freeze';
+import { encrypt, generateToken } from '../utils/encryption';
+import { WebhookVerificationError, ValidationError } from '../utils/errors';
 import { z } from 'zod';
 
+declare module 'fastify' {
+  interface FastifyRequest {
+    rawBody?: string; // Set on webhook deliveries, whose signatures cover the exact bytes sent
+  }
+}
+
 // Request schemas
 const connectAccountSchema = z.object({
   platform: z.enum(['TWITTER', 'LINKEDIN', 'FACEBOOK', 'INSTAGRAM', 'TIKTOK', 'YOUTUBE_SHORTS', 'REDDIT', 'THREADS']),
   organizationId: z.string(),
 });
 
+const audienceTimeZonesSchema = z.object({
+  organizationId: z.string(),
+  // Share of followers per IANA time zone; shares are normalized when used
+  timeZones: z.record(z.string(), z.number().min(0)).refine(
+    (zones) => Object.keys(zones).every((zone) => {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: zone });
+        return true;
+      } catch {
+        return false;
+      }
+    }),
+    'Unknown time zone'
+  ),
+});
+
 const schedulePostSchema = z.object({
   contentPieceId: z.string(),
   socialAccountId: z.string(),
   scheduledAt: z.string().transform((val) => new Date(val)),
 });
 
+const reschedulePostSchema = z.object({
+  scheduledAt: z.string().datetime({ offset: true }).transform((val) => new Date(val)),
+  organizationId: z.string().optional(),
+});
+
+const organizationPublishingSchema = z.object({
+  organizationId: z.string(),
+});
+
+const freezeSchema = z.object({
+  organizationId: z.string(),
+  socialAccountId: z.string().optional(),
+  reason: z.string().trim().min(1).max(500),
+  frozenBy: z.string().optional(), // Defaults to the authenticated user
+});
+
+const liftFreezeSchema = z.object({
+  organizationId: z.string(),
+  socialAccountId: z.string().optional(),
+  policy: z.enum(['stagger', 'shift', 'cancel', 'hold']).default('stagger'),
+  spacingMinutes: z.number().int().min(1).max(24 * 60).optional(),
+  liftedBy: z.string().optional(),
+});
+
 const crossPostSchema = z.object({
   contentPieceId: z.string(),
   platformSchedules: z.array(z.object({
@@ -28,16 +78,13 @@ const crossPostSchema = z.object({
   })),
 });
 
-const webhookSchema = z.object({
-  platform: z.enum(['TWITTER', 'LINKEDIN']),
-  event: z.string(),
-  data: z.any(),
-});
-
 export async function socialMediaRoutes(fastify: FastifyInstance) {
   const prisma: PrismaClient = fastify.prisma;
   const publisher = new SocialMediaPublisher(prisma);
   const analyticsCollector = new AnalyticsCollector(prisma);
+  const webhookService = new PlatformWebhookService(prisma, analyticsCollector);
+  const publishingQueue = new PublishingQueueService(prisma);
+  const publishingFreeze = new PublishingFreezeService(prisma, publishingQueue);
 
   // Store OAuth states temporarily (in production, use Redis)
   const oauthStates = new Map<string, { 
@@ -730,6 +777,46 @@ export async function socialMediaRoutes(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * Record where an account's followers are, by time zone. Used by the
+   * optimal posting time analysis.
+   */
+  fastify.put('/accounts/:accountId/audience-time-zones', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { accountId } = request.params as { accountId: string };
+      const { organizationId, timeZones } = audienceTimeZonesSchema.parse(request.body);
+
+      const { count } = await prisma.socialAccount.updateMany({
+        where: { id: accountId, organizationId },
+        data: { audienceTimeZones: timeZones },
+      });
+
+      if (count === 0) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Social account not found',
+        });
+      }
+
+      reply.send({
+        success: true,
+        data: { accountId, audienceTimeZones: timeZones },
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+      reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  });
+
   /**
    * Schedule a post for publishing
    */
@@ -841,18 +928,246 @@ export async function socialMediaRoutes(fastify: FastifyInstance) {
   });
 
   /**
-   * Cancel a scheduled post
+   * Cancel a scheduled post and remove its publishing job
    */
   fastify.delete('/scheduled/:postId', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const { postId } = request.params as { postId: string };
+      const { organizationId } = request.query as { organizationId?: string };
+
+      const cancelled = await publisher.cancelScheduledPost(postId, organizationId);
 
-      await publisher.cancelScheduledPost(postId);
+      if (!cancelled) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Scheduled post not found',
+        });
+      }
 
       reply.send({
         success: true,
         message: 'Scheduled post cancelled successfully',
       });
+    } catch (error: any) {
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  });
+
+  /**
+   * Move a scheduled post, and its publishing job, to a new time
+   */
+  fastify.patch('/scheduled/:postId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { postId } = request.params as { postId: string };
+      const { scheduledAt, organizationId } = reschedulePostSchema.parse(request.body);
+
+      const scheduledPost = await publisher.rescheduleScheduledPost(postId, scheduledAt, organizationId);
+
+      if (!scheduledPost) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Scheduled post not found',
+        });
+      }
+
+      reply.send({
+        success: true,
+        data: scheduledPost,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  });
+
+  /**
+   * Pause publishing for an organization. Posts waiting to publish move to
+   * PAUSED and their jobs leave the queue until publishing is resumed.
+   */
+  fastify.post('/scheduled/pause', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { organizationId } = organizationPublishingSchema.parse(request.body);
+
+      const result = await publishingQueue.pauseOrganization(organizationId);
+
+      reply.send({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+      reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  });
+
+  /**
+   * Resume publishing for an organization and requeue its paused posts
+   */
+  fastify.post('/scheduled/resume', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { organizationId } = organizationPublishingSchema.parse(request.body);
+
+      const resumed = await publishingQueue.resumeOrganization(organizationId);
+
+      reply.send({
+        success: true,
+        data: { resumed },
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+      reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  });
+
+  /**
+   * Freeze publishing for an organization or one of its accounts. Posts that
+   * come due while frozen are held back until the freeze is lifted.
+   */
+  fastify.post('/freeze', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = freezeSchema.parse(request.body);
+      const frozenBy = (request.user as any)?.id || body.frozenBy;
+
+      if (!frozenBy) {
+        return reply.status(400).send({
+          success: false,
+          error: 'frozenBy is required when not signed in',
+        });
+      }
+
+      const freeze = await publishingFreeze.freeze({ ...body, frozenBy });
+
+      if (!freeze) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Social account not found',
+        });
+      }
+
+      reply.send({
+        success: true,
+        data: freeze,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  });
+
+  /**
+   * Lift a publishing freeze and release the posts it held back
+   */
+  fastify.post('/freeze/lift', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = liftFreezeSchema.parse(request.body);
+
+      const result = await publishingFreeze.lift({
+        ...body,
+        liftedBy: (request.user as any)?.id || body.liftedBy,
+      });
+
+      if (!result) {
+        return reply.status(404).send({
+          success: false,
+          error: 'No active publishing freeze',
+        });
+      }
+
+      reply.send({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  });
+
+  /**
+   * Active publishing freezes for an organization and its accounts
+   */
+  fastify.get('/freeze/:organizationId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { organizationId } = request.params as { organizationId: string };
+
+      const freezes = await publishingFreeze.listFreezes(organizationId);
+
+      reply.send({
+        success: true,
+        data: freezes,
+      });
     } catch (error: any) {
       reply.status(500).send({
         success: false,
@@ -957,59 +1272,89 @@ export async function socialMediaRoutes(fastify: FastifyInstance) {
   });
 
   /**
-   * Webhook endpoint for social media platforms
+   * Subscription handshake for platform webhooks (Meta hub.challenge, LinkedIn challengeCode)
    */
-  fastify.post('/webhooks/:platform', async (request: FastifyRequest, reply: FastifyReply) => {
+  fastify.get('/webhooks/:platform', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { platform } = request.params as { platform: string };
+
+    if (!PlatformWebhookService.isSupported(platform)) {
+      return reply.status(404).send({
+        success: false,
+        error: `Unsupported webhook provider: ${platform}`,
+      });
+    }
+
     try {
+      const challenge = webhookService.handshake(platform, request.query as Record<string, string | undefined>);
+      reply.send(challenge);
+    } catch (error: any) {
+      reply.status(error instanceof WebhookVerificationError ? 403 : 500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  });
+
+  /**
+   * Webhook endpoint for social media platforms and Buffer/Hootsuite callbacks
+   */
+  fastify.register(async (webhooks) => {
+    // Keep the body as received; re-serialized JSON would not match the provider's HMAC
+    webhooks.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+      request.rawBody = body as string;
+      try {
+        done(null, body ? JSON.parse(body as string) : {});
+      } catch (error: any) {
+        error.statusCode = 400;
+        done(error, undefined);
+      }
+    });
+
+    webhooks.post('/webhooks/:platform', async (request: FastifyRequest, reply: FastifyReply) => {
       const { platform } = request.params as { platform: string };
-      const signature = request.headers['x-hub-signature-256'] as string;
-      const payload = JSON.stringify(request.body);
 
-      // Verify webhook signature
-      if (!verifyWebhookSignature(payload, signature, process.env.WEBHOOK_SECRET!)) {
-        return reply.status(401).send({
+      if (!PlatformWebhookService.isSupported(platform)) {
+        return reply.status(404).send({
           success: false,
-          error: 'Invalid webhook signature',
+          error: `Unsupported webhook provider: ${platform}`,
         });
       }
 
-      const { event, data } = webhookSchema.parse(request.body);
-
-      console.log(`Received ${platform} webhook:`, { event, data });
-
-      // Handle different webhook events
-      switch (event) {
-        case 'post_published':
-          // Handle successful post publication
-          break;
-        case 'post_failed':
-          // Handle failed post publication
-          break;
-        case 'account_deauthorized':
-          // Handle account deauthorization
-          await prisma.socialAccount.updateMany({
-            where: {
-              platform: platform.toUpperCase() as Platform,
-              accountId: data.accountId,
-            },
-            data: {
-              isActive: false,
-              errorMessage: 'Account deauthorized',
-            },
+      try {
+        const result = await webhookService.handleDelivery(platform, {
+          headers: request.headers,
+          rawBody: request.rawBody || '',
+          body: request.body,
+        });
+
+        // A 5xx makes the platform redeliver; failed events are applied again then
+        if (result.failed > 0) {
+          return reply.status(500).send({
+            success: false,
+            error: `${result.failed} webhook event(s) could not be applied`,
+            data: result,
           });
-          break;
-        default:
-          console.log(`Unhandled webhook event: ${event}`);
-      }
+        }
 
-      reply.send({ success: true });
-    } catch (error: any) {
-      console.error('Webhook error:', error);
-      reply.status(500).send({
-        success: false,
-        error: error.message,
-      });
-    }
+        reply.send({
+          success: true,
+          data: result,
+        });
+      } catch (error: any) {
+        if (error instanceof WebhookVerificationError) {
+          return reply.status(401).send({
+            success: false,
+            error: error.message,
+          });
+        }
+
+        console.error('Webhook error:', error);
+        reply.status(500).send({
+          success: false,
+          error: error.message,
+        });
+      }
+    });
   });
 
   /**
@@ -0,0 +1,133 @@
+import { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { LinkTrackingService } from '../services/link-tracking';
+import { ConversionAttributionService } from '../services/conversion-attribution';
+import { ValidationError } from '../utils/errors';
+
+// Request schemas
+const serverConversionSchema = z.object({
+  organizationId: z.string().cuid(),
+  type: z.enum(['SIGNUP', 'DEMO']),
+  clickIds: z.array(z.string().min(1).max(64)).max(20).optional(),
+  utmContent: z.string().max(64).optional(),
+  externalId: z.string().min(1).max(200).optional(),
+  value: z.number().nonnegative().optional(),
+  occurredAt: z.string().datetime().optional(),
+});
+
+const pixelQuerySchema = z.object({
+  org: z.string().cuid(),
+  type: z.string().transform(value => value.toUpperCase()).pipe(z.enum(['SIGNUP', 'DEMO'])),
+  click: z.string().max(2000).optional(), // Comma-separated click ids
+  utm_content: z.string().max(64).optional(),
+  id: z.string().min(1).max(200).optional(),
+  value: z.coerce.number().nonnegative().optional(),
+});
+
+// 1x1 transparent GIF
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+/**
+ * Short link redirects, registered at the root of the link domain
+ */
+export const shortLinkRoutes: FastifyPluginAsync = async (fastify) => {
+  const linkTracking = new LinkTrackingService(fastify.prisma);
+
+  fastify.get('/:code', async (request: FastifyRequest<{ Params: { code: string } }>, reply: FastifyReply) => {
+    try {
+      const destination = await linkTracking.resolveClick(request.params.code, {
+        referrer: request.headers.referer,
+        userAgent: request.headers['user-agent'],
+      });
+      if (!destination) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Link not found',
+        });
+      }
+
+      return reply.header('Cache-Control', 'no-store').redirect(destination, 302);
+    } catch (error: any) {
+      fastify.log.error('Error resolving short link:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to resolve link',
+      });
+    }
+  });
+};
+
+/**
+ * Conversion ingest. The pixel is public and only records conversions it
+ * can attribute; server-to-server calls authenticate with the
+ * organization's conversion key.
+ */
+export const trackingRoutes: FastifyPluginAsync = async (fastify) => {
+  const attribution = new ConversionAttributionService(fastify.prisma);
+
+  fastify.post('/conversions', {
+    schema: {
+      body: serverConversionSchema,
+    },
+  }, async (request: FastifyRequest<{ Body: z.infer<typeof serverConversionSchema> }>, reply: FastifyReply) => {
+    const { organizationId, occurredAt, ...conversion } = request.body;
+    const key = (request.headers.authorization || '').replace(/^Bearer\s+/i, '');
+
+    if (!key || !attribution.verifyConversionKey(organizationId, key)) {
+      return reply.status(401).send({
+        success: false,
+        error: 'Invalid conversion key',
+      });
+    }
+
+    try {
+      const result = await attribution.record({
+        organizationId,
+        ...conversion,
+        occurredAt: occurredAt ? new Date(occurredAt) : undefined,
+      }, { source: 'server' });
+      if (!result) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Organization not found',
+        });
+      }
+
+      return reply.status(result.duplicate ? 200 : 201).send({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      fastify.log.error('Error recording conversion:', error);
+      return reply.status(error instanceof ValidationError ? 400 : 500).send({
+        success: false,
+        error: 'Failed to record conversion',
+        details: error.message,
+      });
+    }
+  });
+
+  // Always answers with the pixel so a bad request never shows as a broken image
+  fastify.get('/pixel.gif', async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = pixelQuerySchema.safeParse(request.query);
+
+    if (query.success) {
+      const { org, type, click, utm_content, id, value } = query.data;
+      await attribution.record({
+        organizationId: org,
+        type,
+        clickIds: click ? click.split(',').map(clickId => clickId.trim()).filter(Boolean).slice(0, 20) : undefined,
+        utmContent: utm_content,
+        externalId: id,
+        value,
+      }, { source: 'pixel', requireTouch: true }).catch((error: Error) => {
+        fastify.log.warn({ err: error }, 'Conversion pixel was not recorded');
+      });
+    }
+
+    return reply
+      .header('Content-Type', 'image/gif')
+      .header('Cache-Control', 'no-store, no-cache, must-revalidate')
+      .send(PIXEL);
+  });
+};
@@ -15,9 +15,11 @@ import { analyticsRoutes } from './routes/analytics';
 import { billingRoutes } from './routes/billing';
 import { adminRoutes } from './routes/admin';
 import { uploadRoutes } from './routes/upload';
+import { shortLinkRoutes, trackingRoutes } from './routes/tracking';
 import { testRoutes } from './routes/test';
 import prismaPlugin from './plugins/prisma';
 import { redis } from './config/redis';
+import { PublishingFreezeService } from './services/publishing-freeze';
 import { rateLimitConfigs, dynamicRateLimiter } from './middleware/rate-limiting';
 import { 
   securityHeadersMiddleware, 
@@ -189,9 +191,15 @@ async function buildServer() {
   // HEALTH & STATUS ENDPOINTS
   // ===========================================
   
+  const publishingFreeze = new PublishingFreezeService(server.prisma);
+
   // Health check endpoint
   server.get('/health', async (request, reply) => {
     const redisHealth = await checkRedisHealth();
+    const freezes = await publishingFreeze.summary().catch((error) => {
+      console.error('Publishing freeze check failed:', error);
+      return null;
+    });
     
     return reply.send({
       status: 'healthy',
@@ -202,6 +210,11 @@ async function buildServer() {
         database: 'connected',
         redis: redisHealth ? 'connected' : 'disconnected',
       },
+      publishing: freezes && {
+        status: freezes.organizations + freezes.accounts > 0 ? 'frozen' : 'active',
+        frozenOrganizations: freezes.organizations,
+        frozenAccounts: freezes.accounts,
+      },
     });
   });
   
@@ -221,6 +234,7 @@ async function buildServer() {
         billing: '/api/v1/billing',
         admin: '/api/v1/admin',
         upload: '/api/v1/upload',
+        tracking: '/api/v1/tracking',
       }
     });
   });
@@ -313,6 +327,19 @@ async function buildServer() {
     prefix: '/api/v1'
   });
   
+  // Conversion tracking routes (public; server-to-server calls carry a conversion key)
+  await server.register(async (fastify) => {
+    fastify.addHook('preHandler', rateLimitConfigs.general.createMiddleware());
+    await fastify.register(trackingRoutes);
+  }, {
+    prefix: '/api/v1/tracking'
+  });
+
+  // Short link redirects (public)
+  await server.register(shortLinkRoutes, {
+    prefix: '/l'
+  });
+  
   // Test routes (development only)
   if (config.nodeEnv === 'development') {
     await server.register(testRoutes, { 
@@ -1,5 +1,27 @@
-import { PrismaClient, Platform, ABTestStatus, ABTestType } from '@prisma/client';
-import { AnalyticsCollector } from './analytics-collector';
+import {
+  Prisma,
+  PrismaClient,
+  Platform,
+  ABTestStatus,
+  ABTestType,
+  ABTestMetric,
+  ContentStatus,
+  ContentType,
+  MetricType,
+  PostStatus,
+  Analytics,
+} from '@prisma/client';
+import {
+  betaProbabilityToBeBest,
+  normalProbabilityToBeBest,
+  obrienFlemingBoundary,
+  summarize,
+  twoProportionZTest,
+  welchTTest,
+  ContinuousSample,
+  HypothesisTestResult,
+  ProportionSample,
+} from '../utils/statistics';
 
 export interface ABTestConfig {
   organizationId: string;
@@ -13,8 +35,9 @@ export interface ABTestConfig {
   startDate?: Date;
   endDate?: Date;
   successMetric: 'ENGAGEMENT_RATE' | 'CLICK_THROUGH_RATE' | 'REACH' | 'IMPRESSIONS' | 'CONVERSIONS';
-  minimumSampleSize?: number;
+  minimumSampleSize?: number; // Planned sample per variant: impressions for rate metrics, posts for REACH / IMPRESSIONS
   confidenceLevel?: number; // Default 95%
+  sequentialTesting?: boolean; // Allow stopping early on an O'Brien-Fleming boundary
 }
 
 export interface ABTestVariant {
@@ -46,11 +69,64 @@ export interface ABTestResult {
     sampleSize: number;
     conversionRate: number;
     performanceScore: number;
+    probabilityToBeBest: number;
   }>;
+  analysis: ABTestAnalysis;
   insights: string[];
   recommendations: string[];
 }
 
+export interface ABTestComparison {
+  variant: string; // the observed leader
+  against: string;
+  statistic: number; // z for rate metrics, t for continuous metrics
+  pValue: number;
+  lift: number; // relative % lift of the leader over `against`
+  significant: boolean;
+}
+
+export interface ABTestAnalysis {
+  method: 'two_proportion_z_test' | 'welch_t_test';
+  confidenceLevel: number;
+  alpha: number; // per comparison, Bonferroni-corrected across the leader's comparisons
+  sampleSizeReached: boolean;
+  comparisons: ABTestComparison[];
+  sequential?: {
+    informationFraction: number;
+    boundary: number; // |statistic| needed to stop at this look
+    boundaryCrossed: boolean;
+  };
+}
+
+interface VariantObservations {
+  name: string;
+  metrics: ABTestResult['variants'][number]['metrics'];
+  engagements: number;
+  clicks: number;
+  posts: Array<{ reach: number; impressions: number }>;
+}
+
+const RATE_METRICS: ABTestMetric[] = [
+  ABTestMetric.ENGAGEMENT_RATE,
+  ABTestMetric.CLICK_THROUGH_RATE,
+  ABTestMetric.CONVERSIONS,
+];
+
+const RESULTS_INCLUDE = {
+  variants: {
+    orderBy: { createdAt: 'asc' },
+    include: {
+      scheduledPosts: {
+        include: { analytics: { orderBy: { periodEnd: 'desc' } } },
+      },
+    },
+  },
+} satisfies Prisma.ABTestInclude;
+
+type ABTestWithResults = Prisma.ABTestGetPayload<{ include: typeof RESULTS_INCLUDE }>;
+type VariantWithPosts = ABTestWithResults['variants'][number];
+
+
 export class ABTestingService {
   constructor(private prisma: PrismaClient) {}
 
@@ -85,6 +161,7 @@ export class ABTestingService {
           trafficSplit,
           minimumSampleSize: config.minimumSampleSize || 100,
           confidenceLevel: config.confidenceLevel || 95,
+          sequentialTesting: config.sequentialTesting ?? false,
           variants: {
             create: config.variants.map((variant, index) => ({
               name: variant.name,
@@ -93,7 +170,7 @@ export class ABTestingService {
               hashtags: variant.hashtags || [],
               mediaUrls: variant.mediaUrls || [],
               postingTime: variant.postingTime,
-              metadata: variant.metadata || {},
+              metadata: variant.metadata ?? undefined,
               trafficPercentage: trafficSplit[index],
             })),
           },
@@ -120,7 +197,6 @@ export class ABTestingService {
         where: { id: testId },
         include: {
           variants: true,
-          organization: true,
         },
       });
 
@@ -185,60 +261,58 @@ export class ABTestingService {
     try {
       const abTest = await this.prisma.aBTest.findUnique({
         where: { id: testId },
-        include: {
-          variants: {
-            include: {
-              scheduledPosts: {
-                include: {
-                  analytics: true,
-                },
-              },
-            },
-          },
-        },
+        include: RESULTS_INCLUDE,
       });
 
       if (!abTest) {
         throw new Error('A/B test not found');
       }
 
-      // Calculate metrics for each variant
-      const variantResults = await Promise.all(
-        abTest.variants.map(async (variant) => {
-          const metrics = await this.calculateVariantMetrics(variant);
-          return {
-            name: variant.name,
-            metrics,
-            sampleSize: variant.scheduledPosts.length,
-            conversionRate: this.calculateConversionRate(metrics),
-            performanceScore: this.calculatePerformanceScore(metrics, abTest.successMetric),
-          };
-        })
-      );
-
-      // Determine statistical significance and winner
-      const statisticalAnalysis = this.performStatisticalAnalysis(variantResults, abTest.confidenceLevel);
-
-      // Generate insights and recommendations
-      const insights = this.generateInsights(variantResults, abTest);
-      const recommendations = this.generateRecommendations(variantResults, abTest);
-
-      return {
-        testId: abTest.id,
-        status: abTest.status,
-        winner: statisticalAnalysis.winner,
-        confidence: statisticalAnalysis.confidence,
-        statisticalSignificance: statisticalAnalysis.significant,
-        variants: variantResults,
-        insights,
-        recommendations,
-      };
+      return this.buildResults(abTest);
     } catch (error: any) {
       console.error('Error getting A/B test results:', error);
       throw new Error(`Failed to get A/B test results: ${error.message}`);
     }
   }
 
+  /**
+   * Re-analyze running tests: stop sequential tests whose boundary has been
+   * crossed and complete tests that have passed their end date. Called after
+   * analytics collection so completion survives process restarts.
+   */
+  async evaluateRunningTests(organizationId?: string): Promise<{ evaluated: number; stopped: string[] }> {
+    const tests = await this.prisma.aBTest.findMany({
+      where: { status: ABTestStatus.RUNNING, ...(organizationId && { organizationId }) },
+      include: RESULTS_INCLUDE,
+    });
+
+    const stopped: string[] = [];
+    for (const test of tests) {
+      try {
+        if (test.endDate.getTime() <= Date.now()) {
+          await this.stopABTest(test.id, 'Automatic completion - test duration reached');
+          stopped.push(test.id);
+          continue;
+        }
+
+        if (!test.sequentialTesting) {
+          continue;
+        }
+
+        const results = this.buildResults(test);
+        if (results.analysis.sequential?.boundaryCrossed && results.winner) {
+          const fraction = Math.round(results.analysis.sequential.informationFraction * 100);
+          await this.stopABTest(test.id, `Stopped early - ${results.winner} crossed the sequential boundary at ${fraction}% of the planned sample`);
+          stopped.push(test.id);
+        }
+      } catch (error) {
+        console.error(`Error evaluating A/B test ${test.id}:`, error);
+      }
+    }
+
+    return { evaluated: tests.length, stopped };
+  }
+
   /**
    * Get all A/B tests for an organization
    */
@@ -300,7 +374,7 @@ export class ABTestingService {
           winner: results.winner,
           confidence: results.confidence,
           statisticalSignificance: results.statisticalSignificance,
-          results: results as any,
+          results: results as unknown as Prisma.InputJsonValue,
         },
       });
 
@@ -316,108 +390,148 @@ export class ABTestingService {
   /**
    * Create scheduled posts for A/B test variants
    */
-  private async createVariantPosts(abTest: any): Promise<void> {
-    const analyticsCollector = new AnalyticsCollector(this.prisma);
+  private async createVariantPosts(
+    abTest: Prisma.ABTestGetPayload<{ include: { variants: true } }>
+  ): Promise<void> {
+    // Get active social accounts for the platforms
+    const socialAccounts = await this.prisma.socialAccount.findMany({
+      where: {
+        organizationId: abTest.organizationId,
+        platform: { in: abTest.platforms },
+        isActive: true,
+      },
+    });
 
     for (const variant of abTest.variants) {
-      // Get active social accounts for the platforms
-      const socialAccounts = await this.prisma.socialAccount.findMany({
-        where: {
-          organizationId: abTest.organizationId,
-          platform: { in: abTest.platforms },
-          isActive: true,
-        },
-      });
-
-      // Create content piece for variant
-      const contentPiece = await this.prisma.contentPiece.create({
-        data: {
-          organizationId: abTest.organizationId,
-          title: `A/B Test: ${abTest.name} - ${variant.name}`,
-          body: variant.content || '',
-          platform: abTest.platforms[0], // Use first platform as primary
-          type: 'SOCIAL_POST',
-          status: 'APPROVED',
-          hashtags: variant.hashtags,
-          mediaUrls: variant.mediaUrls,
-          metadata: {
-            abTestId: abTest.id,
-            variantId: variant.id,
-            ...variant.metadata,
-          },
-        },
-      });
+      for (const platform of abTest.platforms) {
+        const platformAccounts = socialAccounts.filter(account => account.platform === platform);
+        if (platformAccounts.length === 0) {
+          continue;
+        }
 
-      // Create scheduled posts for each social account
-      for (const socialAccount of socialAccounts) {
-        const scheduledPost = await this.prisma.scheduledPost.create({
+        // Create content piece for variant
+        const contentPiece = await this.prisma.contentPiece.create({
           data: {
             organizationId: abTest.organizationId,
-            contentPieceId: contentPiece.id,
-            socialAccountId: socialAccount.id,
-            scheduledAt: variant.postingTime || abTest.startDate,
-            status: 'SCHEDULED',
-            idempotencyKey: `ab-test-${abTest.id}-${variant.id}-${socialAccount.id}`,
-            metadata: {
-              abTestId: abTest.id,
-              variantId: variant.id,
-            },
+            title: `A/B Test: ${abTest.name} - ${variant.name}`,
+            body: variant.content || '',
+            platform,
+            type: ContentType.POST,
+            status: ContentStatus.APPROVED,
+            hashtags: variant.hashtags,
+            mediaRefs: variant.mediaUrls.length > 0
+              ? { urls: variant.mediaUrls, abTestId: abTest.id, variantId: variant.id }
+              : undefined,
           },
         });
 
-        // Link scheduled post to variant
-        await this.prisma.aBTestVariant.update({
-          where: { id: variant.id },
-          data: {
-            scheduledPosts: {
-              connect: { id: scheduledPost.id },
+        // Create scheduled posts for each social account, linked to the variant
+        for (const socialAccount of platformAccounts) {
+          await this.prisma.scheduledPost.create({
+            data: {
+              organizationId: abTest.organizationId,
+              contentPieceId: contentPiece.id,
+              socialAccountId: socialAccount.id,
+              abTestVariantId: variant.id,
+              scheduledAt: variant.postingTime || abTest.startDate,
+              status: PostStatus.SCHEDULED,
+              idempotencyKey: `ab-test-${abTest.id}-${variant.id}-${socialAccount.id}`,
             },
-          },
-        });
+          });
+        }
       }
     }
   }
 
   /**
-   * Calculate metrics for a variant
+   * Build the full result set for a test from its variants' latest analytics
    */
-  private async calculateVariantMetrics(variant: any): Promise<any> {
-    const analytics = variant.scheduledPosts.flatMap((post: any) => post.analytics || []);
-
-    if (analytics.length === 0) {
-      return {
-        impressions: 0,
-        engagementRate: 0,
-        clickThroughRate: 0,
-        reach: 0,
-        conversions: 0,
-      };
-    }
+  private buildResults(abTest: ABTestWithResults): ABTestResult {
+    const observations = abTest.variants.map(variant => this.calculateVariantMetrics(variant));
+    const statisticalAnalysis = this.performStatisticalAnalysis(observations, abTest);
+
+    const variantResults = observations.map((observation, index) => ({
+      name: observation.name,
+      metrics: observation.metrics,
+      sampleSize: this.sampleSize(observation, abTest.successMetric),
+      conversionRate: this.calculateConversionRate(observation.metrics),
+      performanceScore: this.calculatePerformanceScore(observation.metrics, abTest.successMetric),
+      probabilityToBeBest: statisticalAnalysis.probabilityToBeBest[index],
+    }));
+
+    // Generate insights and recommendations
+    const insights = this.generateInsights(variantResults, statisticalAnalysis.analysis);
+    const recommendations = this.generateRecommendations(variantResults, statisticalAnalysis);
+
+    return {
+      testId: abTest.id,
+      status: abTest.status,
+      winner: statisticalAnalysis.winner,
+      confidence: statisticalAnalysis.confidence,
+      statisticalSignificance: statisticalAnalysis.significant,
+      variants: variantResults,
+      analysis: statisticalAnalysis.analysis,
+      insights,
+      recommendations,
+    };
+  }
 
-    const totalImpressions = analytics.reduce((sum: number, a: any) => sum + (a.impressions || 0), 0);
-    const totalLikes = analytics.reduce((sum: number, a: any) => sum + (a.likes || 0), 0);
-    const totalComments = analytics.reduce((sum: number, a: any) => sum + (a.comments || 0), 0);
-    const totalShares = analytics.reduce((sum: number, a: any) => sum + (a.shares || 0), 0);
-    const totalClicks = analytics.reduce((sum: number, a: any) => sum + (a.clicks || 0), 0);
-    const totalReach = analytics.reduce((sum: number, a: any) => sum + (a.reach || 0), 0);
+  /**
+   * Calculate metrics for a variant. Analytics rows are cumulative snapshots,
+   * so only the latest snapshot of each post counts.
+   */
+  private calculateVariantMetrics(variant: VariantWithPosts): VariantObservations {
+    let impressions = 0;
+    let engagements = 0;
+    let clicks = 0;
+    let reach = 0;
+    let conversions = 0;
+    const posts: VariantObservations['posts'] = [];
+
+    for (const post of variant.scheduledPosts) {
+      const engagement = this.latestSnapshot(post.analytics, MetricType.ENGAGEMENT);
+      if (!engagement) {
+        continue;
+      }
 
-    const totalEngagements = totalLikes + totalComments + totalShares;
-    const engagementRate = totalImpressions > 0 ? (totalEngagements / totalImpressions) * 100 : 0;
-    const clickThroughRate = totalImpressions > 0 ? (totalClicks / totalImpressions) * 100 : 0;
+      const conversion = this.latestSnapshot(post.analytics, MetricType.CONVERSION);
+      const postEngagements = engagement.likes + engagement.comments + engagement.shares;
+      const postConversions = conversion
+        ? (conversion.signups + conversion.demos) || conversion.websiteClicks
+        : 0;
+
+      impressions += engagement.impressions;
+      engagements += Math.min(postEngagements, engagement.impressions);
+      clicks += Math.min(engagement.clicks, engagement.impressions);
+      reach += engagement.reach;
+      conversions += Math.min(postConversions, engagement.impressions);
+      posts.push({ reach: engagement.reach, impressions: engagement.impressions });
+    }
 
     return {
-      impressions: totalImpressions,
-      engagementRate,
-      clickThroughRate,
-      reach: totalReach,
-      conversions: totalClicks, // Simplified - in reality, would track actual conversions
+      name: variant.name,
+      metrics: {
+        impressions,
+        engagementRate: impressions > 0 ? (engagements / impressions) * 100 : 0,
+        clickThroughRate: impressions > 0 ? (clicks / impressions) * 100 : 0,
+        reach,
+        conversions,
+      },
+      engagements,
+      clicks,
+      posts,
     };
   }
 
+  private latestSnapshot(analytics: Analytics[], metricType: MetricType): Analytics | undefined {
+    // Rows arrive ordered by periodEnd desc
+    return analytics.find(row => row.metricType === metricType);
+  }
+
   /**
    * Calculate conversion rate
    */
-  private calculateConversionRate(metrics: any): number {
+  private calculateConversionRate(metrics: ABTestResult['variants'][number]['metrics']): number {
     if (metrics.impressions === 0) return 0;
     return (metrics.conversions / metrics.impressions) * 100;
   }
@@ -425,7 +539,7 @@ export class ABTestingService {
   /**
    * Calculate performance score based on success metric
    */
-  private calculatePerformanceScore(metrics: any, successMetric: string): number {
+  private calculatePerformanceScore(metrics: ABTestResult['variants'][number]['metrics'], successMetric: ABTestMetric): number {
     switch (successMetric) {
       case 'ENGAGEMENT_RATE':
         return metrics.engagementRate;
@@ -436,49 +550,138 @@ export class ABTestingService {
       case 'IMPRESSIONS':
         return metrics.impressions;
       case 'CONVERSIONS':
-        return metrics.conversions;
+        return this.calculateConversionRate(metrics);
       default:
         return metrics.engagementRate;
     }
   }
 
   /**
-   * Perform statistical analysis to determine significance
+   * Sample size that the success metric's test is based on
    */
-  private performStatisticalAnalysis(variants: any[], confidenceLevel: number): {
+  private sampleSize(observation: VariantObservations, successMetric: ABTestMetric): number {
+    return RATE_METRICS.includes(successMetric) ? observation.metrics.impressions : observation.posts.length;
+  }
+
+  private proportionSample(observation: VariantObservations, successMetric: ABTestMetric): ProportionSample {
+    const successes = successMetric === ABTestMetric.ENGAGEMENT_RATE
+      ? observation.engagements
+      : successMetric === ABTestMetric.CLICK_THROUGH_RATE
+        ? observation.clicks
+        : observation.metrics.conversions;
+
+    return { successes, trials: observation.metrics.impressions };
+  }
+
+  private continuousSample(observation: VariantObservations, successMetric: ABTestMetric): ContinuousSample {
+    return summarize(observation.posts.map(post => (
+      successMetric === ABTestMetric.REACH ? post.reach : post.impressions
+    )));
+  }
+
+  /**
+   * Compare the observed leader against every other variant.
+   *
+   * Rate metrics use a two-proportion z-test; REACH and IMPRESSIONS use Welch's
+   * t-test over per-post values. The configured confidence level is split across
+   * the leader's comparisons (Bonferroni). Fixed-horizon tests only declare a
+   * winner once every variant reaches `minimumSampleSize`; sequential tests may
+   * stop earlier when every comparison crosses the O'Brien-Fleming boundary for
+   * the current information fraction.
+   */
+  private performStatisticalAnalysis(
+    variants: VariantObservations[],
+    test: Pick<ABTestWithResults, 'successMetric' | 'confidenceLevel' | 'minimumSampleSize' | 'sequentialTesting'>
+  ): {
     winner?: string;
     confidence?: number;
     significant: boolean;
+    analysis: ABTestAnalysis;
+    probabilityToBeBest: number[];
   } {
+    const isRateMetric = RATE_METRICS.includes(test.successMetric);
+    const method: ABTestAnalysis['method'] = isRateMetric ? 'two_proportion_z_test' : 'welch_t_test';
+    const confidenceLevel = test.confidenceLevel;
+    const comparisonCount = Math.max(1, variants.length - 1);
+    const alpha = (1 - confidenceLevel / 100) / comparisonCount;
+
+    const probabilityToBeBest = isRateMetric
+      ? betaProbabilityToBeBest(variants.map(variant => this.proportionSample(variant, test.successMetric)))
+      : normalProbabilityToBeBest(variants.map(variant => this.continuousSample(variant, test.successMetric)));
+
+    const minimumObserved = variants.length > 0
+      ? Math.min(...variants.map(variant => this.sampleSize(variant, test.successMetric)))
+      : 0;
+    const sampleSizeReached = minimumObserved >= test.minimumSampleSize;
+    const informationFraction = test.minimumSampleSize > 0 ? Math.min(1, minimumObserved / test.minimumSampleSize) : 1;
+    const boundary = obrienFlemingBoundary(alpha, informationFraction);
+
+    const baseAnalysis: ABTestAnalysis = {
+      method,
+      confidenceLevel,
+      alpha,
+      sampleSizeReached,
+      comparisons: [],
+      ...(test.sequentialTesting && {
+        sequential: { informationFraction, boundary, boundaryCrossed: false },
+      }),
+    };
+
     if (variants.length < 2) {
-      return { significant: false };
+      return { significant: false, analysis: baseAnalysis, probabilityToBeBest };
     }
 
-    // Sort variants by performance score
-    const sortedVariants = [...variants].sort((a, b) => b.performanceScore - a.performanceScore);
-    const winner = sortedVariants[0];
-    const runner = sortedVariants[1];
+    const scores = variants.map(variant => this.calculatePerformanceScore(variant.metrics, test.successMetric));
+    const leaderIndex = scores.indexOf(Math.max(...scores));
+    const leader = variants[leaderIndex];
+
+    const comparisons: ABTestComparison[] = variants
+      .filter((_, index) => index !== leaderIndex)
+      .map((other) => {
+        const result: HypothesisTestResult = isRateMetric
+          ? twoProportionZTest(this.proportionSample(leader, test.successMetric), this.proportionSample(other, test.successMetric))
+          : welchTTest(this.continuousSample(leader, test.successMetric), this.continuousSample(other, test.successMetric));
+        const otherScore = this.calculatePerformanceScore(other.metrics, test.successMetric);
+        const lift = otherScore > 0 ? ((scores[leaderIndex] - otherScore) / otherScore) * 100 : 0;
+
+        const significant = test.sequentialTesting
+          ? result.statistic >= boundary
+          : sampleSizeReached && result.statistic > 0 && result.pValue < alpha;
+
+        return {
+          variant: leader.name,
+          against: other.name,
+          statistic: result.statistic,
+          pValue: result.pValue,
+          lift,
+          significant,
+        };
+      });
 
-    // Simple statistical significance test (in practice, would use proper statistical tests)
-    const improvement = ((winner.performanceScore - runner.performanceScore) / runner.performanceScore) * 100;
-    const minSampleSize = 100;
-    const hasMinimumSample = winner.sampleSize >= minSampleSize && runner.sampleSize >= minSampleSize;
+    const significant = comparisons.every(comparison => comparison.significant);
+    const worstPValue = Math.max(...comparisons.map(comparison => comparison.pValue));
 
-    // Simplified significance check - in production, use proper statistical tests like t-test or chi-square
-    const significant = hasMinimumSample && improvement > 20; // 20% improvement threshold
-    const confidence = Math.min(95, 70 + improvement); // Simplified confidence calculation
+    const analysis: ABTestAnalysis = {
+      ...baseAnalysis,
+      comparisons,
+      ...(baseAnalysis.sequential && {
+        sequential: { ...baseAnalysis.sequential, boundaryCrossed: significant },
+      }),
+    };
 
     return {
-      winner: significant ? winner.name : undefined,
-      confidence: significant ? confidence : undefined,
+      winner: significant ? leader.name : undefined,
+      confidence: significant ? Math.round((1 - worstPValue) * 10000) / 100 : undefined,
       significant,
+      analysis,
+      probabilityToBeBest,
     };
   }
 
   /**
    * Generate insights from A/B test results
    */
-  private generateInsights(variants: any[], abTest: any): string[] {
+  private generateInsights(variants: ABTestResult['variants'], analysis: ABTestAnalysis): string[] {
     const insights: string[] = [];
 
     // Performance comparison
@@ -486,11 +689,24 @@ export class ABTestingService {
     const best = sortedVariants[0];
     const worst = sortedVariants[sortedVariants.length - 1];
 
-    if (best.performanceScore > worst.performanceScore) {
+    if (best && worst && best.performanceScore > worst.performanceScore && worst.performanceScore > 0) {
       const improvement = ((best.performanceScore - worst.performanceScore) / worst.performanceScore) * 100;
       insights.push(`${best.name} performed ${improvement.toFixed(1)}% better than ${worst.name}`);
     }
 
+    // Bayesian view - useful even before significance is reached
+    if (best) {
+      insights.push(`${best.name} has a ${(best.probabilityToBeBest * 100).toFixed(1)}% probability of being the best variant`);
+    }
+
+    // Significance of each comparison
+    analysis.comparisons.forEach((comparison) => {
+      insights.push(
+        `${comparison.variant} vs ${comparison.against}: ${comparison.lift.toFixed(1)}% lift, p = ${comparison.pValue.toFixed(4)}` +
+        (comparison.significant ? ' (significant)' : ' (not significant)')
+      );
+    });
+
     // Engagement patterns
     const avgEngagement = variants.reduce((sum, v) => sum + v.metrics.engagementRate, 0) / variants.length;
     const highEngagementVariants = variants.filter(v => v.metrics.engagementRate > avgEngagement);
@@ -513,19 +729,29 @@ export class ABTestingService {
   /**
    * Generate recommendations based on test results
    */
-  private generateRecommendations(variants: any[], abTest: any): string[] {
+  private generateRecommendations(
+    variants: ABTestResult['variants'],
+    statisticalAnalysis: { winner?: string; significant: boolean; analysis: ABTestAnalysis }
+  ): string[] {
     const recommendations: string[] = [];
+    const { analysis } = statisticalAnalysis;
 
     const sortedVariants = [...variants].sort((a, b) => b.performanceScore - a.performanceScore);
     const winner = sortedVariants[0];
+    if (!winner) {
+      return recommendations;
+    }
 
-    // Winner recommendation
-    if (sortedVariants.length > 1) {
-      const improvement = ((winner.performanceScore - sortedVariants[1].performanceScore) / sortedVariants[1].performanceScore) * 100;
-      
-      if (improvement > 10) {
-        recommendations.push(`Use ${winner.name} approach for future campaigns - it shows ${improvement.toFixed(1)}% better performance`);
-      }
+    // Winner recommendation - only once the difference is statistically significant
+    if (statisticalAnalysis.significant && statisticalAnalysis.winner) {
+      const smallestLift = Math.min(...analysis.comparisons.map(comparison => comparison.lift));
+      recommendations.push(
+        `Use ${statisticalAnalysis.winner} approach for future campaigns - it beat every other variant by at least ${smallestLift.toFixed(1)}% at ${analysis.confidenceLevel}% confidence`
+      );
+    } else if (analysis.sampleSizeReached && !analysis.sequential) {
+      recommendations.push('No variant is significantly better at the planned sample size - treat the variants as equivalent');
+    } else {
+      recommendations.push('Keep the test running - the difference between variants is not yet statistically significant');
     }
 
     // Engagement recommendations
@@ -539,8 +765,7 @@ export class ABTestingService {
     }
 
     // Sample size recommendations
-    const lowSampleVariants = variants.filter(v => v.sampleSize < 100);
-    if (lowSampleVariants.length > 0) {
+    if (!analysis.sampleSizeReached) {
       recommendations.push('Increase sample size in future tests for more reliable statistical significance');
     }
 
@@ -555,12 +780,11 @@ export class ABTestingService {
       // Store recommendations in database for future reference
       await this.prisma.aBTestRecommendation.create({
         data: {
-          aBTestId: testId,
+          abTestId: testId,
           winningVariant: winner,
           recommendations: results.recommendations,
           insights: results.insights,
           confidence: results.confidence || 0,
-          createdAt: new Date(),
         },
       });
     } catch (error: any) {
@@ -1,8 +1,6 @@
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-import { config } from '../config/config';
 import { z } from 'zod';
-import { StrategyGenerationError, AIProviderError } from '../utils/errors';
+import { StrategyGenerationError } from '../utils/errors';
+import { LLMClient, LLMProviderName, llmClient } from './llm';
 
 // Types for strategy generation
 export interface FounderData {
@@ -70,21 +68,42 @@ const StrategyGenerationRequestSchema = z.object({
   previousStrategies: z.array(z.any()).optional(),
 });
 
-export class AIStrategyService {
-  private openai: OpenAI;
-  private anthropic: Anthropic;
+const JsonObjectSchema = z.record(z.unknown());
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: config.ai.openai.apiKey,
-    });
+const StrategyResponseSchema = z.object({
+  positioning: JsonObjectSchema,
+  audienceSegments: z.array(JsonObjectSchema),
+  contentPillars: z.array(JsonObjectSchema).min(1),
+  channelPlan: JsonObjectSchema,
+  cadence: JsonObjectSchema,
+  calendarSkeleton: JsonObjectSchema,
+  confidence: z.number().min(0).max(1).default(0.8),
+});
 
-    this.anthropic = new Anthropic({
-      apiKey: config.ai.anthropic.apiKey,
-    });
+const StrategyComparisonResponseSchema = z.object({
+  comparison: z.record(z.unknown()),
+  recommendation: z.string(),
+  confidence: z.number().min(0).max(1).default(0.7),
+});
+
+const STRATEGY_RESPONSE_FORMAT = `{
+  "positioning": { "brief": "...", "messagingHierarchy": {...}, "uniqueValueProposition": "...", "keyDifferentiators": [...] },
+  "audienceSegments": [{ "name": "...", "description": "...", "painPoints": [...], "keyMessages": [...], "platforms": [...] }],
+  "contentPillars": [{ "name": "...", "description": "...", "percentage": 0, "examples": [...] }],
+  "channelPlan": { "primary": [...], "secondary": [...], "experimental": [...] },
+  "cadence": { "daily": {...}, "weekly": {...}, "monthly": {...} },
+  "calendarSkeleton": { "week1": {...}, "week2": {...}, "week3": {...}, "week4": {...} },
+  "confidence": 0.85
+}`;
+
+export class AIStrategyService {
+  private llm: LLMClient;
+
+  constructor(llm: LLMClient = llmClient) {
+    this.llm = llm;
   }
 
-  async generateStrategy(request: StrategyGenerationRequest, provider: 'openai' | 'anthropic' = 'openai'): Promise<{
+  async generateStrategy(request: StrategyGenerationRequest, provider?: LLMProviderName): Promise<{
     positioning: any;
     audienceSegments: any;
     contentPillars: any;
@@ -97,104 +116,30 @@ export class AIStrategyService {
     try {
       // Validate input
       const validatedRequest = StrategyGenerationRequestSchema.parse(request);
+      const prompt = this.buildStrategyPrompt(validatedRequest);
 
-      // Generate strategy based on provider
-      if (provider === 'openai') {
-        return await this.generateWithOpenAI(validatedRequest);
-      } else {
-        return await this.generateWithAnthropic(validatedRequest);
-      }
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        throw new StrategyGenerationError('Invalid request data', error.errors);
-      }
-      throw error;
-    }
-  }
-
-  private async generateWithOpenAI(request: StrategyGenerationRequest): Promise<any> {
-    try {
-      const prompt = this.buildStrategyPrompt(request);
-      
-      const completion = await this.openai.chat.completions.create({
-        model: config.ai.openai.model,
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert marketing strategist specializing in startup growth and content marketing. You create comprehensive, data-driven marketing strategies that are tailored to each startup's unique position, target audience, and business goals. Your strategies are actionable, measurable, and designed to drive sustainable growth.
+      const { data, generatedBy } = await this.llm.generateStructured({
+        task: 'strategy.generate',
+        system: `You are an expert marketing strategist specializing in startup growth and content marketing. You create comprehensive, data-driven marketing strategies that are tailored to each startup's unique position, target audience, and business goals. Your strategies are actionable, measurable, and designed to drive sustainable growth.
 
 Return your response as a valid JSON object with the following structure:
-{
-  "positioning": { "brief": "...", "messagingHierarchy": {...}, "uniqueValueProposition": "...", "keyDifferentiators": [...] },
-  "audienceSegments": [{ "name": "...", "description": "...", "painPoints": [...], "keyMessages": [...], "platforms": [...] }],
-  "contentPillars": [{ "name": "...", "description": "...", "percentage": 0, "examples": [...] }],
-  "channelPlan": { "primary": [...], "secondary": [...], "experimental": [...] },
-  "cadence": { "daily": {...}, "weekly": {...}, "monthly": {...} },
-  "calendarSkeleton": { "week1": {...}, "week2": {...}, "week3": {...}, "week4": {...} },
-  "confidence": 0.85
-}`
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
+${STRATEGY_RESPONSE_FORMAT}`,
+        prompt,
+        schema: StrategyResponseSchema,
+        provider,
         temperature: 0.7,
-        max_tokens: 4000,
-        response_format: { type: "json_object" }
+        maxTokens: 4000,
       });
 
-      const result = JSON.parse(completion.choices[0].message.content || '{}');
-      
       return {
-        ...result,
-        generatedBy: `openai-${config.ai.openai.model}`,
-        confidence: result.confidence || 0.8
+        ...data,
+        generatedBy,
       };
-
-    } catch (error: any) {
-      throw new AIProviderError('OpenAI', error.message);
-    }
-  }
-
-  private async generateWithAnthropic(request: StrategyGenerationRequest): Promise<any> {
-    try {
-      const prompt = this.buildStrategyPrompt(request);
-
-      const message = await this.anthropic.messages.create({
-        model: config.ai.anthropic.model,
-        max_tokens: 4000,
-        messages: [
-          {
-            role: 'user',
-            content: `You are an expert marketing strategist specializing in startup growth and content marketing. You create comprehensive, data-driven marketing strategies that are tailored to each startup's unique position, target audience, and business goals.
-
-${prompt}
-
-Please provide a comprehensive marketing strategy as a JSON object with the following structure:
-{
-  "positioning": { "brief": "...", "messagingHierarchy": {...}, "uniqueValueProposition": "...", "keyDifferentiators": [...] },
-  "audienceSegments": [{ "name": "...", "description": "...", "painPoints": [...], "keyMessages": [...], "platforms": [...] }],
-  "contentPillars": [{ "name": "...", "description": "...", "percentage": 0, "examples": [...] }],
-  "channelPlan": { "primary": [...], "secondary": [...], "experimental": [...] },
-  "cadence": { "daily": {...}, "weekly": {...}, "monthly": {...} },
-  "calendarSkeleton": { "week1": {...}, "week2": {...}, "week3": {...}, "week4": {...} },
-  "confidence": 0.85
-}`
-          }
-        ]
-      });
-
-      const result = JSON.parse(message.content[0].type === 'text' ? message.content[0].text : '{}');
-      
-      return {
-        ...result,
-        generatedBy: `anthropic-${config.ai.anthropic.model}`,
-        confidence: result.confidence || 0.8
-      };
-
-    } catch (error: any) {
-      throw new AIProviderError('Anthropic', error.message);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new StrategyGenerationError('Invalid request data', error.errors);
+      }
+      throw error;
     }
   }
 
@@ -261,13 +206,12 @@ Please create a marketing strategy that includes:
   }
 
   // Method to compare strategies
-  async compareStrategies(strategy1: any, strategy2: any, provider: 'openai' | 'anthropic' = 'openai'): Promise<{
+  async compareStrategies(strategy1: any, strategy2: any, provider?: LLMProviderName): Promise<{
     comparison: any;
     recommendation: string;
     confidence: number;
   }> {
-    try {
-      const prompt = `Compare these two marketing strategies and provide insights:
+    const prompt = `Compare these two marketing strategies and provide insights:
 
 STRATEGY 1:
 ${JSON.stringify(strategy1, null, 2)}
@@ -295,28 +239,16 @@ Return as JSON with structure:
   "confidence": 0.85
 }`;
 
-      if (provider === 'openai') {
-        const completion = await this.openai.chat.completions.create({
-          model: config.ai.openai.model,
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0.3,
-          max_tokens: 2000,
-          response_format: { type: "json_object" }
-        });
-
-        return JSON.parse(completion.choices[0].message.content || '{}');
-      } else {
-        const message = await this.anthropic.messages.create({
-          model: config.ai.anthropic.model,
-          max_tokens: 2000,
-          messages: [{ role: 'user', content: prompt }]
-        });
-
-        return JSON.parse(message.content[0].type === 'text' ? message.content[0].text : '{}');
-      }
-    } catch (error: any) {
-      throw new AIProviderError(provider, error.message);
-    }
+    const { data } = await this.llm.generateStructured({
+      task: 'strategy.compare',
+      prompt,
+      schema: StrategyComparisonResponseSchema,
+      provider,
+      temperature: 0.3,
+      maxTokens: 2000,
+    });
+
+    return data;
   }
 }
 
@@ -4,10 +4,15 @@ import { LinkedInService } from './linkedin-api';
 import { FacebookService } from './facebook-api';
 import { BufferService } from './buffer-api';
 import { HootsuiteService } from './hootsuite-api';
+import { TikTokService } from './tiktok-api';
+import { RedditService } from './reddit-api';
+import { ThreadsService } from './threads-api';
+import { YouTubeService } from './youtube-api';
 import { addAnalyticsJob } from '../config/redis';
 import { AnalyticsService } from './analytics-service';
 import { CompetitorAnalysisService } from './competitor-analysis';
 import { ReportGenerator } from './report-generator';
+import { LinkTrackingService } from './link-tracking';
 
 export interface PlatformAnalytics {
   impressions: number;
@@ -31,9 +36,11 @@ export interface AnalyticsCollectionOptions {
 
 export class AnalyticsCollector {
   private prisma: PrismaClient;
+  private linkTracking: LinkTrackingService;
 
-  constructor(prisma: PrismaClient) {
+  constructor(prisma: PrismaClient, linkTracking: LinkTrackingService = new LinkTrackingService(prisma)) {
     this.prisma = prisma;
+    this.linkTracking = linkTracking;
   }
 
   /**
@@ -98,6 +105,12 @@ export class AnalyticsCollector {
         },
       });
 
+      // TikTok posts still processing when published only have a publish ID
+      if (scheduledPost && !scheduledPost.platformPostId && scheduledPost.externalPostId
+        && scheduledPost.socialAccount.platform === Platform.TIKTOK) {
+        scheduledPost.platformPostId = await this.resolveTikTokPostId(scheduledPost);
+      }
+
       if (!scheduledPost || !scheduledPost.platformPostId) {
         console.warn(`Scheduled post ${scheduledPostId} not found or not published`);
         return;
@@ -148,6 +161,30 @@ export class AnalyticsCollector {
             scheduledPost.platformPostId
           );
           break;
+        case Platform.TIKTOK:
+          platformAnalytics = await this.collectTikTokAnalytics(
+            scheduledPost.socialAccount,
+            scheduledPost.platformPostId
+          );
+          break;
+        case Platform.REDDIT:
+          platformAnalytics = await this.collectRedditAnalytics(
+            scheduledPost.socialAccount,
+            scheduledPost.platformPostId
+          );
+          break;
+        case Platform.THREADS:
+          platformAnalytics = await this.collectThreadsAnalytics(
+            scheduledPost.socialAccount,
+            scheduledPost.platformPostId
+          );
+          break;
+        case Platform.YOUTUBE_SHORTS:
+          platformAnalytics = await this.collectYouTubeAnalytics(
+            scheduledPost.socialAccount,
+            scheduledPost.platformPostId
+          );
+          break;
         default:
           // Try third-party services
           platformAnalytics = await this.collectThirdPartyAnalytics(
@@ -246,6 +283,188 @@ export class AnalyticsCollector {
     }
   }
 
+  /**
+   * Look up the post ID of a TikTok publish and store it on the scheduled post.
+   * Returns null while TikTok is still processing or cannot be reached, so the
+   * next checkpoint tries again; a publish TikTok rejected marks the post failed.
+   */
+  private async resolveTikTokPostId(scheduledPost: any): Promise<string | null> {
+    const tiktokService = await TikTokService.createWithEncryptedCredentials(
+      scheduledPost.socialAccount.accessTokenEncrypted,
+      scheduledPost.socialAccount.refreshTokenEncrypted,
+      scheduledPost.socialAccount.expiresAt
+    );
+
+    const status = await tiktokService.getPublishStatus(scheduledPost.externalPostId).catch((error: any) => {
+      console.warn(`Could not check TikTok publish ${scheduledPost.externalPostId}:`, error.message);
+      return null;
+    });
+    if (!status) {
+      return null;
+    }
+    if (status.status === 'FAILED') {
+      await this.prisma.scheduledPost.update({
+        where: { id: scheduledPost.id },
+        data: {
+          status: 'FAILED',
+          errorMessage: `TikTok rejected the post: ${status.failReason || 'unknown reason'}`,
+        },
+      });
+      return null;
+    }
+
+    const postId = status.postIds[0];
+    if (!postId) {
+      return null;
+    }
+
+    await this.prisma.scheduledPost.update({
+      where: { id: scheduledPost.id },
+      data: {
+        platformPostId: postId,
+        platformUrl: `https://www.tiktok.com/@${scheduledPost.socialAccount.handle}/video/${postId}`,
+      },
+    });
+    return postId;
+  }
+
+  /**
+   * Collect TikTok analytics
+   */
+  private async collectTikTokAnalytics(
+    socialAccount: any,
+    videoId: string
+  ): Promise<PlatformAnalytics> {
+    try {
+      const tiktokService = await TikTokService.createWithEncryptedCredentials(
+        socialAccount.accessTokenEncrypted,
+        socialAccount.refreshTokenEncrypted,
+        socialAccount.expiresAt
+      );
+
+      const analytics = await tiktokService.getPostAnalytics(videoId);
+
+      return {
+        impressions: analytics.views,
+        likes: analytics.likes,
+        comments: analytics.comments,
+        shares: analytics.shares,
+        reach: analytics.views,
+        engagementRate: this.calculateEngagementRate(
+          analytics.likes + analytics.comments + analytics.shares,
+          analytics.views
+        ),
+      };
+    } catch (error: any) {
+      console.error('Error collecting TikTok analytics:', error);
+      // Return zero analytics if collection fails
+      return this.getZeroAnalytics();
+    }
+  }
+
+  /**
+   * Collect Reddit analytics
+   */
+  private async collectRedditAnalytics(
+    socialAccount: any,
+    postId: string
+  ): Promise<PlatformAnalytics> {
+    try {
+      const redditService = await RedditService.createWithEncryptedCredentials(
+        socialAccount.accessTokenEncrypted,
+        socialAccount.refreshTokenEncrypted,
+        socialAccount.expiresAt
+      );
+
+      const analytics = await redditService.getPostAnalytics(postId);
+
+      return {
+        impressions: analytics.views,
+        likes: analytics.upvotes,
+        comments: analytics.comments,
+        shares: analytics.crossposts,
+        engagementRate: this.calculateEngagementRate(
+          analytics.upvotes + analytics.comments + analytics.crossposts,
+          analytics.views
+        ),
+      };
+    } catch (error: any) {
+      console.error('Error collecting Reddit analytics:', error);
+      // Return zero analytics if collection fails
+      return this.getZeroAnalytics();
+    }
+  }
+
+  /**
+   * Collect Threads analytics
+   */
+  private async collectThreadsAnalytics(
+    socialAccount: any,
+    mediaId: string
+  ): Promise<PlatformAnalytics> {
+    try {
+      const threadsService = await ThreadsService.createWithEncryptedCredentials(
+        socialAccount.accessTokenEncrypted,
+        socialAccount.accountId,
+        socialAccount.expiresAt
+      );
+
+      const analytics = await threadsService.getPostAnalytics(mediaId);
+      const shares = analytics.reposts + analytics.quotes + analytics.shares;
+
+      return {
+        impressions: analytics.views,
+        likes: analytics.likes,
+        comments: analytics.replies,
+        shares,
+        reach: analytics.views,
+        engagementRate: this.calculateEngagementRate(
+          analytics.likes + analytics.replies + shares,
+          analytics.views
+        ),
+      };
+    } catch (error: any) {
+      console.error('Error collecting Threads analytics:', error);
+      // Return zero analytics if collection fails
+      return this.getZeroAnalytics();
+    }
+  }
+
+  /**
+   * Collect YouTube Shorts analytics
+   */
+  private async collectYouTubeAnalytics(
+    socialAccount: any,
+    videoId: string
+  ): Promise<PlatformAnalytics> {
+    try {
+      const youtubeService = await YouTubeService.createWithEncryptedCredentials(
+        socialAccount.accessTokenEncrypted,
+        socialAccount.refreshTokenEncrypted,
+        socialAccount.expiresAt
+      );
+
+      const analytics = await youtubeService.getVideoAnalytics(videoId);
+
+      return {
+        impressions: analytics.views,
+        likes: analytics.likes,
+        comments: analytics.comments,
+        shares: 0,
+        saves: analytics.favorites,
+        reach: analytics.views,
+        engagementRate: this.calculateEngagementRate(
+          analytics.likes + analytics.comments,
+          analytics.views
+        ),
+      };
+    } catch (error: any) {
+      console.error('Error collecting YouTube analytics:', error);
+      // Return zero analytics if collection fails
+      return this.getZeroAnalytics();
+    }
+  }
+
   /**
    * Store analytics in database
    */
@@ -299,8 +518,10 @@ export class AnalyticsCollector {
         });
       }
 
-      // Store conversion metrics if clicks are available
-      if (platformAnalytics.clicks && platformAnalytics.clicks > 0) {
+      // Store conversion metrics if there are clicks or tracked conversions. Each
+      // row repeats the tracked totals so the latest row keeps them.
+      const tracked = await this.linkTracking.conversionTotals(scheduledPost.id);
+      if ((platformAnalytics.clicks && platformAnalytics.clicks > 0) || tracked.trackedLinks > 0 || tracked.signups + tracked.demos > 0) {
         await this.prisma.analytics.create({
           data: {
             organizationId: scheduledPost.organizationId,
@@ -310,8 +531,11 @@ export class AnalyticsCollector {
             platform: scheduledPost.socialAccount.platform,
             metricType: MetricType.CONVERSION,
             impressions: platformAnalytics.impressions,
-            clicks: platformAnalytics.clicks,
-            websiteClicks: platformAnalytics.clicks,
+            clicks: platformAnalytics.clicks || 0,
+            // First-party short link clicks when the post has tracked links
+            websiteClicks: tracked.trackedLinks > 0 ? tracked.websiteClicks : platformAnalytics.clicks || 0,
+            signups: tracked.signups,
+            demos: tracked.demos,
             periodStart: scheduledPost.publishedAt,
             periodEnd: now,
             collectedAt: now,
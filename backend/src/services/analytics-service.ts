@@ -1,5 +1,10 @@
-import { PrismaClient, Platform, MetricType } from '@prisma/client';
-import { addDays, subDays, startOfDay, endOfDay, format, startOfWeek, startOfMonth, endOfWeek, endOfMonth } from 'date-fns';
+import { PrismaClient, Platform, MetricType, Prisma } from '@prisma/client';
+import { addDays, subDays, startOfDay, endOfDay, format, startOfWeek, startOfMonth, endOfWeek, endOfMonth, differenceInDays } from 'date-fns';
+import { ReportConfig, ReportGenerator } from './report-generator';
+import { PLATFORM_ENGAGEMENT_PRIORS } from './posting-time-model';
+import { assertTimeZone } from './recurrence-rules';
+import { CompetitorTrackingService, OrganizationPlatformMetrics } from './competitor-tracking';
+import { ValidationError } from '../utils/errors';
 
 export interface DashboardData {
   summary: {
@@ -107,6 +112,7 @@ export interface GrowthMetrics {
     value: number;
     label: string;
     achieved: boolean;
+    achievedOn?: string; // Chart date the milestone was crossed
     estimatedDate?: Date;
   }[];
 }
@@ -122,6 +128,7 @@ export interface CompetitorAnalysis {
     metrics: any;
     comparison: {
       metric: string;
+      platform: string;
       ourValue: number;
       theirValue: number;
       difference: number;
@@ -131,11 +138,143 @@ export interface CompetitorAnalysis {
   insights: InsightData[];
 }
 
+export type TimeBucket = 'hour' | 'day' | 'week' | 'month';
+
+export interface RangeMetrics {
+  posts: number;
+  impressions: number;
+  reach: number;
+  engagements: number;
+  engagementRate: number;
+  clicks: number;
+  ctr: number;
+  followers: number; // Followers gained
+}
+
+export interface CustomRangePoint extends RangeMetrics {
+  date: string; // Bucket start in the requested time zone
+  startsAt: Date;
+  platforms: Record<string, RangeMetrics>;
+}
+
+export interface PerformanceSnapshot {
+  period: { start: Date; end: Date };
+  posts: number;
+  metrics: Record<string, number>;
+}
+
+export interface MetricDelta {
+  current: number;
+  comparison: number;
+  change: number;
+  changePercent: number | null; // null when the comparison value is zero
+}
+
+export interface PostingConsistency {
+  score: number; // 0-1, 1 when posts are evenly spaced across the period
+  posts: number;
+  postsPerWeek: number;
+  longestGapHours: number | null;
+}
+
+// Summed increments for a period, straight from SQL
+interface MetricTotals {
+  organizations: number;
+  posts: number;
+  impressions: number;
+  reach: number;
+  likes: number;
+  comments: number;
+  shares: number;
+  saves: number;
+  clicks: number;
+  followers: number;
+}
+
+interface MetricBucket extends MetricTotals {
+  bucket: Date;
+  label: string;
+  platform: string | null;
+}
+
+// Counters the collector stores as lifetime totals on ENGAGEMENT rows
+const SNAPSHOT_COLUMNS = ['impressions', 'reach', 'likes', 'comments', 'shares', 'saves', 'clicks'];
+
+const METRIC_AGGREGATES = Prisma.raw([
+  'COUNT(DISTINCT c."organizationId")::int AS "organizations"',
+  'COUNT(DISTINCT c."postId")::int AS "posts"',
+  ...[...SNAPSHOT_COLUMNS, 'followers'].map(column => `COALESCE(SUM(c."${column}"), 0)::float8 AS "${column}"`),
+].join(',\n'));
+
+const BUCKET_LABEL_FORMATS: Record<TimeBucket, string> = {
+  hour: 'YYYY-MM-DD"T"HH24:00',
+  day: 'YYYY-MM-DD',
+  week: 'YYYY-MM-DD',
+  month: 'YYYY-MM',
+};
+const APPROXIMATE_BUCKET_MS: Record<TimeBucket, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 28 * 24 * 60 * 60 * 1000,
+};
+const MAX_CHART_BUCKETS = 1000;
+
+const RATE_METRICS = ['engagement_rate', 'ctr'];
+const DETAILED_METRICS = [
+  'posts', 'impressions', 'reach', 'likes', 'comments', 'shares', 'saves', 'clicks',
+  'engagements', 'engagement_rate', 'ctr', 'followers',
+];
+const METRIC_LABELS: Record<string, string> = {
+  likes: 'Likes',
+  comments: 'Comments',
+  shares: 'Shares',
+  impressions: 'Impressions',
+  reach: 'Reach',
+  engagement_rate: 'Engagement rate',
+  ctr: 'Click-through rate',
+  posting_frequency: 'Posting frequency',
+};
+const COMPARISON_LABELS: Record<string, string> = {
+  previous_period: 'the previous period',
+  competitors: 'competitors',
+  industry_average: 'the industry average',
+};
+// Performance metrics that competitor snapshots have per-post averages for
+const COMPETITOR_SNAPSHOT_METRICS: Record<string, 'avgLikes' | 'avgComments' | 'avgShares'> = {
+  likes: 'avgLikes',
+  comments: 'avgComments',
+  shares: 'avgShares',
+};
+const COMPETITOR_COMPARISON_FIELDS: Record<string, 'engagementRate' | 'postsPerWeek'> = {
+  engagement_rate: 'engagementRate',
+  posting_frequency: 'postsPerWeek',
+};
+// Changes smaller than this are not worth an insight
+const INSIGHT_THRESHOLD_PERCENT = 10;
+const HIGH_IMPACT_PERCENT = 25;
+// Fewer peers than this and one organization could dominate the average
+const MIN_PEER_ORGANIZATIONS = 5;
+
+const MILESTONE_STEPS = [1, 2.5, 5];
+const MILESTONE_UNITS: Record<string, string> = {
+  followers: 'followers',
+  engagement: 'engagements',
+  reach: 'reach',
+  impressions: 'impressions',
+};
+const ACHIEVED_MILESTONES = 3;
+const UPCOMING_MILESTONES = 2;
+
 export class AnalyticsService {
   private prisma: PrismaClient;
+  private reportGenerator: ReportGenerator;
+  private competitorTracking: CompetitorTrackingService;
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
+    this.reportGenerator = new ReportGenerator(prisma);
+    this.competitorTracking = new CompetitorTrackingService(prisma);
   }
 
   /**
@@ -370,31 +509,33 @@ export class AnalyticsService {
     platform?: string;
     metric: 'followers' | 'engagement' | 'reach' | 'impressions';
     period: '7d' | '30d' | '90d' | '1y';
+    now?: Date;
   }): Promise<GrowthMetrics> {
     try {
       const { organizationId, platform, metric, period } = options;
-      
-      const endDate = new Date();
+
+      const endDate = options.now || new Date();
       const startDate = this.getPeriodStartDate(period, endDate);
       const previousEndDate = new Date(startDate.getTime() - 1);
       const previousStartDate = this.getPeriodStartDate(period, previousEndDate);
 
-      // Get current period data
-      const currentData = await this.getMetricData(organizationId, platform, metric, startDate, endDate);
-      
-      // Get previous period data for comparison
-      const previousData = await this.getMetricData(organizationId, platform, metric, previousStartDate, previousEndDate);
-
-      // Calculate growth
-      const currentValue = this.aggregateMetricData(currentData, metric);
-      const previousValue = this.aggregateMetricData(previousData, metric);
+      // Followers compare the audience at the end of each period, other
+      // metrics compare the totals for each period
+      const currentValue = await this.getMetricData(organizationId, platform, metric, startDate, endDate);
+      const previousValue = await this.getMetricData(organizationId, platform, metric, previousStartDate, previousEndDate);
       const changePercent = previousValue > 0 ? ((currentValue - previousValue) / previousValue) * 100 : 0;
 
       // Generate chart data
-      const chartData = await this.generateGrowthChartData(organizationId, platform, metric, startDate, endDate);
+      const chartData = await this.generateGrowthChartData(organizationId, platform, metric, startDate, endDate, currentValue);
 
       // Calculate milestones
-      const milestones = this.calculateGrowthMilestones(currentValue, metric);
+      const milestones = this.calculateGrowthMilestones(
+        chartData,
+        metric === 'followers' ? previousValue : 0,
+        metric,
+        startDate,
+        endDate
+      );
 
       return {
         currentValue,
@@ -421,9 +562,10 @@ export class AnalyticsService {
     endDate: Date;
     metrics: string[];
   }) {
-    try {
-      const { organizationId, compareWith, platforms, startDate, endDate, metrics } = options;
+    const { organizationId, compareWith, platforms, startDate, endDate, metrics } = options;
+    this.assertDateRange(startDate, endDate);
 
+    try {
       // Get current period data
       const currentData = await this.getPerformanceData(organizationId, platforms, startDate, endDate, metrics);
 
@@ -431,13 +573,13 @@ export class AnalyticsService {
 
       switch (compareWith) {
         case 'previous_period':
-          comparisonData = await this.getPreviousPeriodComparison(organizationId, platforms, startDate, endDate, metrics);
+          comparisonData = await this.getPreviousPeriodComparison(organizationId, platforms, startDate, endDate, metrics, currentData);
           break;
         case 'competitors':
-          comparisonData = await this.getCompetitorComparison(organizationId, platforms, startDate, endDate, metrics);
+          comparisonData = await this.getCompetitorComparison(organizationId, platforms, endDate, metrics, currentData);
           break;
         case 'industry_average':
-          comparisonData = await this.getIndustryAverageComparison(organizationId, platforms, startDate, endDate, metrics);
+          comparisonData = await this.getIndustryAverageComparison(organizationId, platforms, startDate, endDate, metrics, currentData);
           break;
       }
 
@@ -453,7 +595,8 @@ export class AnalyticsService {
   }
 
   /**
-   * Get custom date range analytics
+   * Get custom date range analytics, bucketed by wall-clock hour, day, week
+   * (starting Monday) or month in the requested time zone
    */
   async getCustomRangeAnalytics(options: {
     organizationId: string;
@@ -461,59 +604,44 @@ export class AnalyticsService {
     endDate: Date;
     platforms?: string[];
     metrics?: string[];
-    groupBy: 'day' | 'week' | 'month';
+    groupBy: TimeBucket;
+    timeZone?: string;
   }) {
-    try {
-      const { organizationId, startDate, endDate, platforms, metrics, groupBy } = options;
-
-      const filter: any = {
-        organizationId,
-        collectedAt: {
-          gte: startDate,
-          lte: endDate,
-        },
-      };
+    const { organizationId, startDate, endDate, platforms, metrics, groupBy, timeZone = 'UTC' } = options;
+    assertTimeZone(timeZone);
+    this.assertDateRange(startDate, endDate);
+    if ((endDate.getTime() - startDate.getTime()) / APPROXIMATE_BUCKET_MS[groupBy] > MAX_CHART_BUCKETS) {
+      throw new ValidationError(`Date range is too long to group by ${groupBy}`, 'groupBy', groupBy);
+    }
+    const unknownMetric = metrics?.find(metric => !DETAILED_METRICS.includes(metric));
+    if (unknownMetric) {
+      throw new ValidationError(`Unknown metric: ${unknownMetric}`, 'metrics', unknownMetric);
+    }
 
-      if (platforms && platforms.length > 0) {
-        filter.platform = { in: platforms };
-      }
+    try {
+      const scope = this.analyticsScope(organizationId, platforms);
 
-      // Get aggregated data
-      const aggregatedData = await this.prisma.analytics.groupBy({
-        by: ['platform', this.getDateGroupField(groupBy)],
-        where: filter,
-        _sum: {
-          impressions: true,
-          likes: true,
-          comments: true,
-          shares: true,
-          saves: true,
-          clicks: true,
-          reach: true,
-        },
-        _avg: {
-          engagementRate: true,
-          ctr: true,
-        },
-        _count: {
-          id: true,
-        },
-      });
+      const [totals, buckets] = await Promise.all([
+        this.aggregateMetrics(scope, startDate, endDate),
+        this.bucketedMetrics(scope, startDate, endDate, groupBy, timeZone, true),
+      ]);
 
       // Get detailed metrics if specific metrics requested
-      const detailedMetrics = metrics ? await this.getDetailedMetrics(filter, metrics) : null;
+      const detailedMetrics = metrics ? await this.getDetailedMetrics(scope, startDate, endDate, metrics) : null;
 
       // Format data for charts
-      const chartData = this.formatCustomRangeChartData(aggregatedData, groupBy);
+      const chartData = this.formatCustomRangeChartData(buckets);
 
       return {
-        summary: this.calculateCustomRangeSummary(aggregatedData),
+        summary: this.calculateCustomRangeSummary(totals, chartData),
         chartData,
         detailedMetrics,
         dateRange: {
           start: startDate,
           end: endDate,
           days: Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)),
+          groupBy,
+          timeZone,
         },
       };
     } catch (error: any) {
@@ -525,60 +653,9 @@ export class AnalyticsService {
   /**
    * Generate analytics report
    */
-  async generateReport(config: {
-    organizationId: string;
-    reportType: 'summary' | 'detailed' | 'performance' | 'growth' | 'competitor';
-    format: 'json' | 'pdf' | 'csv' | 'excel';
-    platforms?: string[];
-    startDate: Date;
-    endDate: Date;
-    includeCharts: boolean;
-    includeComparisons: boolean;
-  }): Promise<string> {
+  async generateReport(config: ReportConfig): Promise<string> {
     try {
-      // Create report record
-      const report = await this.prisma.analytics.create({
-        data: {
-          // This would be stored in a reports table - for now using analytics table as example
-          organizationId: config.organizationId,
-          platform: 'TWITTER', // placeholder
-          metricType: 'ENGAGEMENT',
-          impressions: 0,
-          likes: 0,
-          comments: 0,
-          shares: 0,
-          periodStart: config.startDate,
-          periodEnd: config.endDate,
-        },
-      });
-
-      // Generate report data based on type
-      let reportData: any = {};
-
-      switch (config.reportType) {
-        case 'summary':
-          reportData = await this.generateSummaryReport(config);
-          break;
-        case 'detailed':
-          reportData = await this.generateDetailedReport(config);
-          break;
-        case 'performance':
-          reportData = await this.generatePerformanceReport(config);
-          break;
-        case 'growth':
-          reportData = await this.generateGrowthReport(config);
-          break;
-        case 'competitor':
-          reportData = await this.generateCompetitorReport(config);
-          break;
-      }
-
-      // Format report based on requested format
-      const formattedReport = await this.formatReport(reportData, config.format, config.includeCharts);
-
-      // Store report file (would typically save to S3 or similar)
-      // For now, return the report ID
-      return report.id;
+      return await this.reportGenerator.queueReport(config);
     } catch (error: any) {
       console.error('Error generating report:', error);
       throw new Error(`Failed to generate report: ${error.message}`);
@@ -589,42 +666,19 @@ export class AnalyticsService {
    * Get report status
    */
   async getReportStatus(reportId: string) {
-    try {
-      // This would check actual report status from reports table
-      return {
-        id: reportId,
-        status: 'completed', // 'pending' | 'processing' | 'completed' | 'failed'
-        progress: 100,
-        createdAt: new Date(),
-        completedAt: new Date(),
-        downloadUrl: `/api/v1/analytics/reports/${reportId}/download`,
-        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
-      };
-    } catch (error: any) {
-      console.error('Error getting report status:', error);
-      throw new Error(`Failed to get report status: ${error.message}`);
-    }
+    return this.reportGenerator.getReport(reportId);
   }
 
   /**
-   * Download report
+   * Open a completed report's file for download
    */
   async downloadReport(reportId: string) {
-    try {
-      // This would retrieve the actual report file
-      return {
-        filename: `analytics-report-${reportId}.json`,
-        mimeType: 'application/json',
-        data: JSON.stringify({ reportId, data: 'sample report data' }),
-      };
-    } catch (error: any) {
-      console.error('Error downloading report:', error);
-      throw new Error(`Failed to download report: ${error.message}`);
-    }
+    return this.reportGenerator.openReportFile(reportId);
   }
 
   /**
-   * Analyze competitors
+   * Compare the organization with competitor accounts, using their latest
+   * tracked snapshots. Accounts that are not tracked yet start being tracked.
    */
   async analyzeCompetitors(config: {
     organizationId: string;
@@ -637,15 +691,22 @@ export class AnalyticsService {
     endDate: Date;
     metrics: string[];
   }): Promise<CompetitorAnalysis> {
+    this.assertDateRange(config.startDate, config.endDate);
+
     try {
+      const organization = await this.prisma.organization.findUnique({
+        where: { id: config.organizationId },
+        select: { name: true },
+      });
+
       // Get organization's data
-      const orgData = await this.getOrganizationMetrics(config.organizationId, config.platforms, config.startDate, config.endDate, config.metrics);
+      const orgData = await this.getOrganizationMetrics(config.organizationId, config.platforms, config.startDate, config.endDate);
 
-      // Get competitor data (this would typically involve external API calls)
+      // Collects fresh snapshots through the providers where they are stale
       const competitorData = await Promise.all(
         config.competitors.map(async (competitor) => {
-          const metrics = await this.getCompetitorMetrics(competitor, config.platforms, config.startDate, config.endDate, config.metrics);
-          
+          const metrics = await this.getCompetitorMetrics(config.organizationId, competitor, config.platforms);
+
           return {
             name: competitor.name,
             handles: competitor.handles,
@@ -660,7 +721,7 @@ export class AnalyticsService {
 
       return {
         organization: {
-          name: 'Your Organization', // Would get from database
+          name: organization?.name || 'Your Organization',
           metrics: orgData,
         },
         competitors: competitorData,
@@ -779,14 +840,15 @@ export class AnalyticsService {
       }
 
       // Analyze posting consistency
-      const postingConsistency = this.analyzePostingConsistency(dashboardData.chartData.timeSeriesData);
-      if (postingConsistency.score < 0.5) {
+      const postingConsistency = await this.analyzePostingConsistency(options.organizationId, options.platform, startDate, endDate);
+      if (postingConsistency.posts >= 2 && postingConsistency.score < 0.5) {
         insights.push({
           type: 'action',
           title: 'Inconsistent Posting Schedule',
-          description: 'Your posting schedule varies significantly. Consistent posting can improve audience engagement.',
+          description: `Your posting schedule varies significantly, with gaps of up to ${Math.round(postingConsistency.longestGapHours! / 24)} days. Consistent posting can improve audience engagement.`,
           impact: 'medium',
           actionRequired: true,
+          metadata: postingConsistency,
         });
       }
 
@@ -1124,11 +1186,6 @@ export class AnalyticsService {
     }
   }
 
-  private getDateGroupField(groupBy: string): any {
-    // This would return the appropriate Prisma groupBy field
-    return 'collectedAt';
-  }
-
   private calculateAverageEngagementRate(data: any[]): number {
     if (data.length === 0) return 0;
     const total = data.reduce((sum, item) => sum + (item.engagementRate || 0), 0);
@@ -1140,118 +1197,697 @@ export class AnalyticsService {
     return {};
   }
 
-  private async getMetricData(organizationId: string, platform: string | undefined, metric: string, startDate: Date, endDate: Date): Promise<any> {
-    // Implementation for getting specific metric data
-    return {};
+  /**
+   * The value of a growth metric for a period: the audience at the end of the
+   * period for followers, the period's total for everything else
+   */
+  private async getMetricData(organizationId: string, platform: string | undefined, metric: string, startDate: Date, endDate: Date): Promise<number> {
+    if (metric === 'followers') {
+      return this.audienceAt(organizationId, platform, endDate);
+    }
+
+    const totals = await this.aggregateMetrics(this.analyticsScope(organizationId, platform ? [platform] : undefined), startDate, endDate);
+    return this.metricValue(totals, metric);
   }
 
-  private aggregateMetricData(data: any, metric: string): number {
-    // Implementation for aggregating metric data
-    return 0;
+  /**
+   * Followers at a point in time: today's follower counts less the
+   * followers gained since
+   */
+  private async audienceAt(organizationId: string, platform: string | undefined, at: Date): Promise<number> {
+    const [accounts, gainedSince] = await Promise.all([
+      this.prisma.socialAccount.aggregate({
+        where: { organizationId, isActive: true, ...(platform && { platform: platform as Platform }) },
+        _sum: { followersCount: true },
+      }),
+      this.prisma.analytics.aggregate({
+        where: { organizationId, collectedAt: { gt: at }, ...(platform && { platform: platform as Platform }) },
+        _sum: { followersDelta: true },
+      }),
+    ]);
+
+    return Math.max(0, (accounts._sum.followersCount || 0) - (gainedSince._sum.followersDelta || 0));
   }
 
-  private async generateGrowthChartData(organizationId: string, platform: string | undefined, metric: string, startDate: Date, endDate: Date): Promise<any[]> {
-    // Implementation for generating growth chart data
-    return [];
+  /**
+   * Daily (weekly over a year) growth curve: the audience for followers, the
+   * running total for everything else. Each point is benchmarked against the
+   * same point in the previous period.
+   */
+  private async generateGrowthChartData(
+    organizationId: string,
+    platform: string | undefined,
+    metric: string,
+    startDate: Date,
+    endDate: Date,
+    endValue: number
+  ): Promise<GrowthMetrics['chartData']> {
+    const unit: TimeBucket = differenceInDays(endDate, startDate) > 120 ? 'week' : 'day';
+    const scope = this.analyticsScope(organizationId, platform ? [platform] : undefined);
+    const previousStartDate = new Date(2 * startDate.getTime() - endDate.getTime());
+    const previousEndDate = new Date(startDate.getTime() - 1);
+
+    const [current, previous] = await Promise.all([
+      this.bucketedMetrics(scope, startDate, endDate, unit, 'UTC'),
+      this.bucketedMetrics(scope, previousStartDate, previousEndDate, unit, 'UTC'),
+    ]);
+
+    const gained = current.reduce((sum, bucket) => sum + bucket.followers, 0);
+    const currentCurve = this.growthCurve(current, metric, endValue);
+    const previousCurve = this.growthCurve(previous, metric, endValue - gained);
+
+    return current.map((bucket, index) => ({
+      date: bucket.label,
+      value: currentCurve[index],
+      ...(index < previousCurve.length && { benchmark: previousCurve[index] }),
+    }));
   }
 
-  private calculateGrowthMilestones(currentValue: number, metric: string): any[] {
-    // Implementation for calculating growth milestones
-    return [];
+  private growthCurve(buckets: MetricBucket[], metric: string, endValue: number): number[] {
+    const increments = buckets.map(bucket => this.metricValue(bucket, metric));
+
+    if (metric === 'followers') {
+      // Walk back from the audience at the end of the period
+      const curve = new Array<number>(increments.length);
+      let audience = endValue;
+      for (let index = increments.length - 1; index >= 0; index--) {
+        curve[index] = audience;
+        audience -= increments[index];
+      }
+      return curve;
+    }
+
+    let total = 0;
+    return increments.map(increment => (total += increment));
   }
 
-  private async getPerformanceData(organizationId: string, platforms: string[] | undefined, startDate: Date, endDate: Date, metrics: string[]): Promise<any> {
-    // Implementation for getting performance data
-    return {};
+  /**
+   * Round-number milestones (10, 25, 50, 100, ...) crossed during the period,
+   * and the next ones ahead with a date projected from the period's pace
+   */
+  private calculateGrowthMilestones(
+    chartData: GrowthMetrics['chartData'],
+    startValue: number,
+    metric: string,
+    startDate: Date,
+    endDate: Date
+  ): GrowthMetrics['milestones'] {
+    if (chartData.length === 0) {
+      return [];
+    }
+
+    const endValue = chartData[chartData.length - 1].value;
+    const thresholds = this.milestoneThresholds(endValue);
+    const perDay = (endValue - startValue) / Math.max(differenceInDays(endDate, startDate), 1);
+
+    const achieved = thresholds
+      .filter(value => value > startValue && value <= endValue)
+      .slice(-ACHIEVED_MILESTONES)
+      .map(value => ({
+        value,
+        label: this.milestoneLabel(value, metric),
+        achieved: true,
+        achievedOn: chartData.find(point => point.value >= value)?.date,
+      }));
+
+    const upcoming = thresholds
+      .filter(value => value > endValue)
+      .map(value => ({
+        value,
+        label: this.milestoneLabel(value, metric),
+        achieved: false,
+        ...(perDay > 0 && { estimatedDate: addDays(endDate, Math.ceil((value - endValue) / perDay)) }),
+      }));
+
+    return [...achieved, ...upcoming];
   }
 
-  private async getPreviousPeriodComparison(organizationId: string, platforms: string[] | undefined, startDate: Date, endDate: Date, metrics: string[]): Promise<any> {
-    // Implementation for getting previous period comparison
-    return {};
+  private milestoneThresholds(reached: number): number[] {
+    const thresholds: number[] = [];
+    let ahead = 0;
+    for (let magnitude = 10; ahead < UPCOMING_MILESTONES; magnitude *= 10) {
+      for (const step of MILESTONE_STEPS) {
+        thresholds.push(step * magnitude);
+        if (step * magnitude > reached && ++ahead === UPCOMING_MILESTONES) {
+          break;
+        }
+      }
+    }
+    return thresholds;
   }
 
-  private async getCompetitorComparison(organizationId: string, platforms: string[] | undefined, startDate: Date, endDate: Date, metrics: string[]): Promise<any> {
-    // Implementation for getting competitor comparison
-    return {};
+  private milestoneLabel(value: number, metric: string): string {
+    const compact = value >= 1000000 ? `${value / 1000000}M` : value >= 1000 ? `${value / 1000}K` : `${value}`;
+    return `${compact} ${MILESTONE_UNITS[metric] || metric}`;
   }
 
-  private async getIndustryAverageComparison(organizationId: string, platforms: string[] | undefined, startDate: Date, endDate: Date, metrics: string[]): Promise<any> {
-    // Implementation for getting industry average comparison
-    return {};
+  private async getPerformanceData(organizationId: string, platforms: string[] | undefined, startDate: Date, endDate: Date, metrics: string[]): Promise<PerformanceSnapshot> {
+    const totals = await this.aggregateMetrics(this.analyticsScope(organizationId, platforms), startDate, endDate);
+    return this.toSnapshot(totals, startDate, endDate, metrics);
   }
 
-  private generateComparisonInsights(currentData: any, comparisonData: any, compareWith: string): InsightData[] {
-    // Implementation for generating comparison insights
-    return [];
+  /**
+   * The same metrics over the equal-length window just before the period
+   */
+  private async getPreviousPeriodComparison(
+    organizationId: string,
+    platforms: string[] | undefined,
+    startDate: Date,
+    endDate: Date,
+    metrics: string[],
+    currentData: PerformanceSnapshot
+  ) {
+    const previousStartDate = new Date(2 * startDate.getTime() - endDate.getTime());
+    const previousEndDate = new Date(startDate.getTime() - 1);
+    const previous = await this.getPerformanceData(organizationId, platforms, previousStartDate, previousEndDate, metrics);
+
+    return {
+      ...previous,
+      deltas: this.metricDeltas(currentData.metrics, previous.metrics),
+    };
   }
 
-  private async getDetailedMetrics(filter: any, metrics: string[]): Promise<any> {
-    // Implementation for getting detailed metrics
-    return {};
+  /**
+   * Per-post likes, comments and shares against the average of the tracked
+   * competitors' latest snapshots. Competitor snapshots have no impressions,
+   * so impression-based rates are not compared.
+   */
+  private async getCompetitorComparison(
+    organizationId: string,
+    platforms: string[] | undefined,
+    endDate: Date,
+    metrics: string[],
+    currentData: PerformanceSnapshot
+  ) {
+    const tracked = await this.competitorTracking.snapshotsAt(organizationId, endDate, platforms as Platform[] | undefined);
+    const compared = metrics.filter(metric => COMPETITOR_SNAPSHOT_METRICS[metric]);
+    const current = this.perPost(currentData, compared);
+
+    const benchmark = tracked.length > 0
+      ? Object.fromEntries(compared.map(metric => [
+        metric,
+        this.round(tracked.reduce((sum, { snapshot }) => sum + snapshot[COMPETITOR_SNAPSHOT_METRICS[metric]], 0) / tracked.length),
+      ]))
+      : {};
+
+    return {
+      source: 'tracked_competitors',
+      competitors: tracked.map(({ competitor, snapshot }) => ({
+        name: competitor.name,
+        platform: competitor.platform,
+        handle: competitor.handle,
+        collectedAt: snapshot.collectedAt,
+      })),
+      current,
+      benchmark,
+      deltas: this.metricDeltas(current, benchmark),
+    };
   }
 
-  private formatCustomRangeChartData(aggregatedData: any[], groupBy: string): any {
-    // Implementation for formatting custom range chart data
-    return {};
+  /**
+   * Benchmarks from other organizations in the same category, per post so
+   * audience size does not dominate. With too few peers the engagement rate
+   * is compared with the platform baselines instead.
+   */
+  private async getIndustryAverageComparison(
+    organizationId: string,
+    platforms: string[] | undefined,
+    startDate: Date,
+    endDate: Date,
+    metrics: string[],
+    currentData: PerformanceSnapshot
+  ) {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { category: true },
+    });
+    const category = organization?.category?.trim() || null;
+    const current = this.perPost(currentData, metrics);
+
+    let peerOrganizations = 0;
+    if (category) {
+      const peers = await this.aggregateMetrics(this.peerScope(organizationId, category, platforms), startDate, endDate);
+      peerOrganizations = peers.organizations;
+
+      if (peerOrganizations >= MIN_PEER_ORGANIZATIONS) {
+        const benchmark = this.perPost(this.toSnapshot(peers, startDate, endDate, metrics), metrics);
+        return { source: 'peers', category, peerOrganizations, current, benchmark, deltas: this.metricDeltas(current, benchmark) };
+      }
+    }
+
+    const benchmark = await this.platformBenchmarks(organizationId, platforms, metrics);
+    return { source: 'platform_baseline', category, peerOrganizations, current, benchmark, deltas: this.metricDeltas(current, benchmark) };
   }
 
-  private calculateCustomRangeSummary(aggregatedData: any[]): any {
-    // Implementation for calculating custom range summary
-    return {};
+  private async platformBenchmarks(organizationId: string, platforms: string[] | undefined, metrics: string[]): Promise<Record<string, number>> {
+    if (!metrics.includes('engagement_rate')) {
+      return {};
+    }
+
+    const benchmarkPlatforms = platforms && platforms.length > 0
+      ? platforms
+      : (await this.prisma.socialAccount.findMany({
+        where: { organizationId, isActive: true },
+        select: { platform: true },
+        distinct: ['platform'],
+      })).map(account => account.platform);
+    const baselines = benchmarkPlatforms
+      .map(platform => PLATFORM_ENGAGEMENT_PRIORS[platform as Platform]?.baselineEngagement)
+      .filter((baseline): baseline is number => baseline !== undefined);
+
+    return baselines.length > 0
+      ? { engagement_rate: this.round(baselines.reduce((sum, baseline) => sum + baseline, 0) / baselines.length) }
+      : {};
   }
 
-  private async generateSummaryReport(config: any): Promise<any> {
-    // Implementation for generating summary report
-    return {};
+  /**
+   * One insight per metric that moved by at least 10%, largest first
+   */
+  private generateComparisonInsights(currentData: PerformanceSnapshot, comparisonData: any, compareWith: string): InsightData[] {
+    if (currentData.posts === 0) {
+      return [{
+        type: 'neutral',
+        title: 'No Posts to Compare',
+        description: 'No post analytics were collected in this period.',
+        impact: 'low',
+      }];
+    }
+
+    const deltas: Record<string, MetricDelta> = comparisonData?.deltas || {};
+    const against = COMPARISON_LABELS[compareWith] || compareWith;
+
+    return Object.entries(deltas)
+      .filter(([, delta]) => delta.changePercent !== null && Math.abs(delta.changePercent) >= INSIGHT_THRESHOLD_PERCENT)
+      .sort(([, a], [, b]) => Math.abs(b.changePercent!) - Math.abs(a.changePercent!))
+      .map(([metric, delta]) => {
+        const label = METRIC_LABELS[metric] || metric;
+        const percent = Math.abs(delta.changePercent!);
+        const higher = delta.change > 0;
+        const unit = RATE_METRICS.includes(metric) ? '%' : '';
+
+        return {
+          type: higher ? 'positive' : 'negative',
+          title: `${label} ${higher ? 'Up' : 'Down'} ${percent}%`,
+          description: `${label} was ${delta.current}${unit} against ${delta.comparison}${unit} for ${against}.`,
+          impact: percent >= HIGH_IMPACT_PERCENT ? 'high' : 'medium',
+          actionRequired: !higher && percent >= HIGH_IMPACT_PERCENT,
+          metadata: { metric, ...delta },
+        } as InsightData;
+      });
   }
 
-  private async generateDetailedReport(config: any): Promise<any> {
-    // Implementation for generating detailed report
-    return {};
+  /**
+   * Requested metrics per platform
+   */
+  private async getDetailedMetrics(scope: Prisma.Sql, startDate: Date, endDate: Date, metrics: string[]): Promise<Array<{ platform: string; metrics: Record<string, number> }>> {
+    const platforms = await this.platformMetrics(scope, startDate, endDate);
+
+    return platforms.map(totals => ({
+      platform: totals.platform,
+      metrics: Object.fromEntries(metrics.map(metric => [metric, this.metricValue(totals, metric)])),
+    }));
   }
 
-  private async generatePerformanceReport(config: any): Promise<any> {
-    // Implementation for generating performance report
-    return {};
+  /**
+   * One point per bucket, with a per-platform breakdown. Buckets with no data
+   * come back from SQL as a single row without a platform.
+   */
+  private formatCustomRangeChartData(buckets: MetricBucket[]): CustomRangePoint[] {
+    const points = new Map<number, { bucket: MetricBucket; totals: MetricTotals; platforms: Record<string, RangeMetrics> }>();
+
+    for (const bucket of buckets) {
+      const key = bucket.bucket.getTime();
+      const point = points.get(key) || { bucket, totals: this.emptyTotals(), platforms: {} };
+      points.set(key, point);
+
+      if (bucket.platform) {
+        point.platforms[bucket.platform] = this.toRangeMetrics(bucket);
+        for (const column of [...SNAPSHOT_COLUMNS, 'posts', 'followers'] as Array<keyof MetricTotals>) {
+          point.totals[column] += bucket[column];
+        }
+      }
+    }
+
+    return Array.from(points.values()).map(point => ({
+      date: point.bucket.label,
+      startsAt: point.bucket.bucket,
+      ...this.toRangeMetrics(point.totals),
+      platforms: point.platforms,
+    }));
   }
 
-  private async generateGrowthReport(config: any): Promise<any> {
-    // Implementation for generating growth report
-    return {};
+  private calculateCustomRangeSummary(totals: MetricTotals, chartData: CustomRangePoint[]) {
+    const peak = chartData.reduce<CustomRangePoint | null>(
+      (best, point) => (point.engagements > (best?.engagements || 0) ? point : best),
+      null
+    );
+
+    return {
+      ...this.toRangeMetrics(totals),
+      activeBuckets: chartData.filter(point => point.posts > 0).length,
+      peak: peak ? { date: peak.date, engagements: peak.engagements } : null,
+    };
   }
 
-  private async generateCompetitorReport(config: any): Promise<any> {
-    // Implementation for generating competitor report
-    return {};
+  private async getOrganizationMetrics(organizationId: string, platforms: string[], startDate: Date, endDate: Date): Promise<OrganizationPlatformMetrics[]> {
+    return this.competitorTracking.organizationMetrics(organizationId, platforms as Platform[], startDate, endDate);
   }
 
-  private async formatReport(reportData: any, format: string, includeCharts: boolean): Promise<any> {
-    // Implementation for formatting report
-    return {};
+  private async getCompetitorMetrics(
+    organizationId: string,
+    competitor: { name: string; handles: Record<string, string> },
+    platforms: string[]
+  ) {
+    const metrics = [];
+
+    for (const platform of platforms as Platform[]) {
+      const handle = competitor.handles[platform] ?? competitor.handles[platform.toLowerCase()];
+      if (!handle) continue;
+
+      const snapshot = await this.competitorTracking.currentSnapshot(organizationId, { name: competitor.name, platform, handle });
+      if (snapshot) {
+        metrics.push({
+          platform,
+          handle: handle.replace(/^@/, ''),
+          collectedAt: snapshot.collectedAt,
+          followersCount: snapshot.followersCount,
+          postsPerWeek: snapshot.postsPerWeek,
+          avgLikes: snapshot.avgLikes,
+          avgComments: snapshot.avgComments,
+          avgShares: snapshot.avgShares,
+          engagementRate: snapshot.engagementRate,
+          topHashtags: snapshot.topHashtags,
+        });
+      }
+    }
+
+    return metrics;
   }
 
-  private async getOrganizationMetrics(organizationId: string, platforms: string[], startDate: Date, endDate: Date, metrics: string[]): Promise<any> {
-    // Implementation for getting organization metrics
-    return {};
+  /**
+   * One row per requested metric and platform both sides have numbers for.
+   * Content types and hashtag usage are not collected for the organization,
+   * so those metrics are skipped.
+   */
+  private generateCompetitorComparison(
+    orgData: OrganizationPlatformMetrics[],
+    competitorData: Array<{ platform: Platform; postsPerWeek: number; engagementRate: number | null }>,
+    metrics: string[]
+  ): CompetitorAnalysis['competitors'][number]['comparison'] {
+    const comparison: CompetitorAnalysis['competitors'][number]['comparison'] = [];
+
+    for (const theirs of competitorData) {
+      const ours = orgData.find(entry => entry.platform === theirs.platform);
+      if (!ours) continue;
+
+      for (const metric of metrics) {
+        const field = COMPETITOR_COMPARISON_FIELDS[metric];
+        const ourValue = field && ours[field];
+        const theirValue = field && theirs[field];
+        if (typeof ourValue !== 'number' || typeof theirValue !== 'number') continue;
+
+        const difference = this.round(ourValue - theirValue);
+        comparison.push({
+          metric,
+          platform: theirs.platform,
+          ourValue,
+          theirValue,
+          difference,
+          percentDifference: theirValue !== 0 ? this.round((difference / theirValue) * 100, 1) : 0,
+        });
+      }
+    }
+
+    return comparison;
   }
 
-  private async getCompetitorMetrics(competitor: any, platforms: string[], startDate: Date, endDate: Date, metrics: string[]): Promise<any> {
-    // Implementation for getting competitor metrics (would involve external APIs)
-    return {};
+  /**
+   * One insight per comparison that differs by at least 10%, largest first
+   */
+  private generateCompetitorInsights(
+    orgData: OrganizationPlatformMetrics[],
+    competitorData: Array<{ name: string; comparison: CompetitorAnalysis['competitors'][number]['comparison'] }>
+  ): InsightData[] {
+    if (orgData.length === 0) {
+      return [{
+        type: 'action',
+        title: 'Connect Accounts to Compare',
+        description: 'None of your active social accounts are on the platforms being compared.',
+        impact: 'medium',
+        actionRequired: true,
+      }];
+    }
+
+    return competitorData
+      .flatMap(competitor => competitor.comparison.map(row => ({ competitor: competitor.name, ...row })))
+      .filter(row => Math.abs(row.percentDifference) >= INSIGHT_THRESHOLD_PERCENT)
+      .sort((a, b) => Math.abs(b.percentDifference) - Math.abs(a.percentDifference))
+      .map(row => {
+        const label = METRIC_LABELS[row.metric] || row.metric;
+        const ahead = row.difference > 0;
+        const percent = Math.abs(row.percentDifference);
+        const unit = row.metric === 'engagement_rate' ? '%' : ' posts a week';
+
+        return {
+          type: ahead ? 'positive' : 'negative',
+          title: `${label} ${percent}% ${ahead ? 'Ahead of' : 'Behind'} ${row.competitor}`,
+          description: `Your ${label.toLowerCase()} on ${row.platform} is ${row.ourValue}${unit} against ${row.theirValue}${unit} for ${row.competitor}.`,
+          impact: percent >= HIGH_IMPACT_PERCENT ? 'high' : 'medium',
+          actionRequired: !ahead && percent >= HIGH_IMPACT_PERCENT,
+          metadata: row,
+        } as InsightData;
+      });
   }
 
-  private generateCompetitorComparison(orgData: any, competitorData: any, metrics: string[]): any[] {
-    // Implementation for generating competitor comparison
-    return [];
+  /**
+   * How evenly published posts are spread over the period: one minus the
+   * coefficient of variation of the gaps between them. The gaps before the
+   * first post and after the last count when they are longer than usual, so
+   * a burst of posts followed by silence scores low.
+   */
+  private async analyzePostingConsistency(organizationId: string, platform: string | undefined, startDate: Date, endDate: Date): Promise<PostingConsistency> {
+    const posts = await this.prisma.scheduledPost.findMany({
+      where: {
+        organizationId,
+        status: 'PUBLISHED',
+        publishedAt: { gte: startDate, lte: endDate },
+        ...(platform && { socialAccount: { platform: platform as Platform } }),
+      },
+      select: { publishedAt: true },
+      orderBy: { publishedAt: 'asc' },
+    });
+
+    const times = posts.map(post => post.publishedAt!.getTime());
+    const weeks = Math.max((endDate.getTime() - startDate.getTime()) / APPROXIMATE_BUCKET_MS.week, 1 / 7);
+    const postsPerWeek = this.round(times.length / weeks, 1);
+    if (times.length < 2) {
+      return { score: 0, posts: times.length, postsPerWeek, longestGapHours: null };
+    }
+
+    const gaps = times.slice(1).map((time, index) => time - times[index]);
+    const median = [...gaps].sort((a, b) => a - b)[Math.floor(gaps.length / 2)];
+    for (const edge of [times[0] - startDate.getTime(), endDate.getTime() - times[times.length - 1]]) {
+      if (edge > median) {
+        gaps.push(edge);
+      }
+    }
+
+    const mean = gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length;
+    const deviation = Math.sqrt(gaps.reduce((sum, gap) => sum + (gap - mean) ** 2, 0) / gaps.length);
+    const variation = mean > 0 ? deviation / mean : 1;
+
+    return {
+      score: this.round(1 - Math.min(variation, 1)),
+      posts: times.length,
+      postsPerWeek,
+      longestGapHours: this.round(Math.max(...gaps) / APPROXIMATE_BUCKET_MS.hour, 1),
+    };
   }
 
-  private generateCompetitorInsights(orgData: any, competitorData: any[]): InsightData[] {
-    // Implementation for generating competitor insights
-    return [];
+  // SQL-backed metric aggregation
+
+  private analyticsScope(organizationId: string, platforms?: string[]): Prisma.Sql {
+    const conditions = [Prisma.sql`a."organizationId" = ${organizationId}`];
+    if (platforms && platforms.length > 0) {
+      conditions.push(Prisma.sql`a."platform"::text = ANY(${platforms}::text[])`);
+    }
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  /**
+   * Every other organization in the same category
+   */
+  private peerScope(organizationId: string, category: string, platforms?: string[]): Prisma.Sql {
+    const conditions = [Prisma.sql`
+      a."organizationId" IN (
+        SELECT o."id" FROM "public"."organizations" o
+        WHERE lower(o."category") = lower(${category}) AND o."id" <> ${organizationId}
+      )`];
+    if (platforms && platforms.length > 0) {
+      conditions.push(Prisma.sql`a."platform"::text = ANY(${platforms}::text[])`);
+    }
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  /**
+   * Per-row increments. The collector stores each post's lifetime totals on
+   * every ENGAGEMENT row, so a row's increment is its value less the post's
+   * previous snapshot; snapshots before the window are read for that reason.
+   * REACH and CONVERSION rows repeat those counters and only contribute
+   * follower changes.
+   */
+  private metricChanges(scope: Prisma.Sql, endDate: Date): Prisma.Sql {
+    const increments = SNAPSHOT_COLUMNS.map(column => Prisma.raw(
+      `CASE WHEN a."metricType" = 'ENGAGEMENT' THEN a."${column}" - COALESCE(LAG(a."${column}") OVER w, 0) ELSE 0 END AS "${column}"`
+    ));
+
+    return Prisma.sql`
+      SELECT
+        a."organizationId",
+        a."platform"::text AS "platform",
+        a."collectedAt",
+        CASE WHEN a."metricType" = 'ENGAGEMENT' THEN a."scheduledPostId" END AS "postId",
+        a."followersDelta" AS "followers",
+        ${Prisma.join(increments, ',\n')}
+      FROM "public"."analytics" a
+      WHERE ${scope} AND a."collectedAt" <= ${endDate}
+      WINDOW w AS (PARTITION BY a."metricType", COALESCE(a."scheduledPostId", a."id") ORDER BY a."collectedAt")`;
+  }
+
+  private async aggregateMetrics(scope: Prisma.Sql, startDate: Date, endDate: Date): Promise<MetricTotals> {
+    const [totals] = await this.prisma.$queryRaw<MetricTotals[]>`
+      WITH changes AS (${this.metricChanges(scope, endDate)})
+      SELECT ${METRIC_AGGREGATES}
+      FROM changes c
+      WHERE c."collectedAt" >= ${startDate}`;
+    return totals || this.emptyTotals();
   }
 
-  private analyzePostingConsistency(timeSeriesData: TimeSeriesData[]): { score: number } {
-    // Implementation for analyzing posting consistency
-    return { score: 0.8 };
+  private async platformMetrics(scope: Prisma.Sql, startDate: Date, endDate: Date): Promise<Array<MetricTotals & { platform: string }>> {
+    return this.prisma.$queryRaw<Array<MetricTotals & { platform: string }>>`
+      WITH changes AS (${this.metricChanges(scope, endDate)})
+      SELECT c."platform", ${METRIC_AGGREGATES}
+      FROM changes c
+      WHERE c."collectedAt" >= ${startDate}
+      GROUP BY c."platform"
+      ORDER BY c."platform"`;
+  }
+
+  /**
+   * Totals per wall-clock bucket in `timeZone`, with empty buckets filled in.
+   * `bucket` is the instant the bucket starts.
+   */
+  private async bucketedMetrics(
+    scope: Prisma.Sql,
+    startDate: Date,
+    endDate: Date,
+    unit: TimeBucket,
+    timeZone: string,
+    byPlatform = false
+  ): Promise<MetricBucket[]> {
+    return this.prisma.$queryRaw<MetricBucket[]>`
+      WITH changes AS (${this.metricChanges(scope, endDate)}),
+      buckets AS (
+        SELECT generate_series(
+          date_trunc(${unit}::text, ${startDate.toISOString()}::timestamptz AT TIME ZONE ${timeZone}::text),
+          date_trunc(${unit}::text, ${endDate.toISOString()}::timestamptz AT TIME ZONE ${timeZone}::text),
+          ${`1 ${unit}`}::interval
+        ) AS "local"
+      )
+      SELECT
+        b."local" AT TIME ZONE ${timeZone}::text AS "bucket",
+        to_char(b."local", ${BUCKET_LABEL_FORMATS[unit]}::text) AS "label",
+        ${byPlatform ? Prisma.sql`c."platform"` : Prisma.sql`NULL::text`} AS "platform",
+        ${METRIC_AGGREGATES}
+      FROM buckets b
+      LEFT JOIN changes c
+        ON c."collectedAt" >= ${startDate}
+        AND date_trunc(${unit}::text, c."collectedAt" AT TIME ZONE 'UTC' AT TIME ZONE ${timeZone}::text) = b."local"
+      GROUP BY b."local"${byPlatform ? Prisma.sql`, c."platform"` : Prisma.empty}
+      ORDER BY b."local"`;
+  }
+
+  private metricValue(totals: MetricTotals, metric: string): number {
+    const engagements = totals.likes + totals.comments + totals.shares;
+    switch (metric) {
+      case 'engagement':
+      case 'engagements':
+        return engagements;
+      case 'engagement_rate':
+        return this.percentage(engagements, totals.impressions);
+      case 'ctr':
+        return this.percentage(totals.clicks, totals.impressions);
+      default:
+        return totals[metric as keyof MetricTotals] ?? 0;
+    }
+  }
+
+  private toRangeMetrics(totals: MetricTotals): RangeMetrics {
+    return {
+      posts: totals.posts,
+      impressions: totals.impressions,
+      reach: totals.reach,
+      engagements: this.metricValue(totals, 'engagements'),
+      engagementRate: this.metricValue(totals, 'engagement_rate'),
+      clicks: totals.clicks,
+      ctr: this.metricValue(totals, 'ctr'),
+      followers: totals.followers,
+    };
+  }
+
+  private toSnapshot(totals: MetricTotals, startDate: Date, endDate: Date, metrics: string[]): PerformanceSnapshot {
+    return {
+      period: { start: startDate, end: endDate },
+      posts: totals.posts,
+      metrics: Object.fromEntries(metrics.map(metric => [metric, this.metricValue(totals, metric)])),
+    };
+  }
+
+  /**
+   * Counts as averages per post; rates are already comparable
+   */
+  private perPost(snapshot: PerformanceSnapshot, metrics: string[]): Record<string, number> {
+    return Object.fromEntries(metrics.map(metric => [
+      metric,
+      RATE_METRICS.includes(metric) || snapshot.posts === 0
+        ? snapshot.metrics[metric]
+        : this.round(snapshot.metrics[metric] / snapshot.posts),
+    ]));
+  }
+
+  /**
+   * Deltas for the metrics that have a comparison value
+   */
+  private metricDeltas(current: Record<string, number>, comparison: Record<string, number>): Record<string, MetricDelta> {
+    return Object.fromEntries(Object.entries(comparison)
+      .filter(([metric]) => current[metric] !== undefined)
+      .map(([metric, value]) => {
+        const change = this.round(current[metric] - value);
+        return [metric, {
+          current: current[metric],
+          comparison: value,
+          change,
+          changePercent: value !== 0 ? this.round((change / Math.abs(value)) * 100, 1) : null,
+        }];
+      }));
+  }
+
+  private emptyTotals(): MetricTotals {
+    return { organizations: 0, posts: 0, impressions: 0, reach: 0, likes: 0, comments: 0, shares: 0, saves: 0, clicks: 0, followers: 0 };
+  }
+
+  private percentage(part: number, whole: number): number {
+    return whole > 0 ? this.round((part / whole) * 100) : 0;
+  }
+
+  private round(value: number, decimals = 2): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+  }
+
+  private assertDateRange(startDate: Date, endDate: Date): void {
+    if (endDate.getTime() <= startDate.getTime()) {
+      throw new ValidationError('endDate must be after startDate', 'endDate', endDate);
+    }
   }
 }
@@ -1,8 +1,6 @@
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-import { config } from '../config/config';
 import { z } from 'zod';
 import { OrganizationData } from './ai-strategy';
+import { LLMClient, LLMProviderName, llmClient } from './llm';
 
 export interface AudienceAnalysisRequest {
   organization: OrganizationData;
@@ -180,84 +178,98 @@ const AudienceAnalysisRequestSchema = z.object({
   }).optional(),
 });
 
-export class AudienceAnalysisService {
-  private openai: OpenAI;
-  private anthropic: Anthropic;
+const GoalSchema = z.array(z.object({
+  segment: z.string(),
+  metric: z.string(),
+  target: z.number(),
+}));
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: config.ai.openai.apiKey,
-    });
+const AudienceAnalysisResponseSchema = z.object({
+  segments: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    size: z.enum(['small', 'medium', 'large']),
+    priority: z.enum(['high', 'medium', 'low']),
+  }).passthrough()).min(1),
+  totalMarketSize: z.object({
+    estimated: z.number(),
+    confidence: z.number().min(0).max(1),
+    methodology: z.string(),
+  }),
+  segmentPriority: z.object({
+    ranking: z.array(z.object({
+      segmentId: z.string(),
+      score: z.number(),
+      rationale: z.string(),
+    })).default([]),
+    recommended: z.array(z.string()).default([]),
+  }),
+  crossSegmentInsights: z.object({
+    commonPainPoints: z.array(z.string()).default([]),
+    sharedChannels: z.array(z.string()).default([]),
+    messagingOverlap: z.array(z.string()).default([]),
+    differentiators: z.array(z.string()).default([]),
+  }).default({}),
+  contentStrategy: z.object({
+    contentTypes: z.array(z.object({
+      type: z.string(),
+      segments: z.array(z.string()),
+      platforms: z.array(z.string()),
+      examples: z.array(z.string()),
+    })).default([]),
+    calendar: z.object({
+      daily: z.record(z.array(z.string())).default({}),
+      weekly: z.record(z.array(z.string())).default({}),
+      monthly: z.record(z.array(z.string())).default({}),
+    }).default({}),
+  }).default({}),
+  measurableGoals: z.object({
+    awareness: GoalSchema.default([]),
+    engagement: GoalSchema.default([]),
+    conversion: GoalSchema.default([]),
+  }).default({}),
+  confidence: z.number().min(0).max(1).default(0.7),
+});
 
-    this.anthropic = new Anthropic({
-      apiKey: config.ai.anthropic.apiKey,
-    });
-  }
+const SegmentContentResponseSchema = z.object({
+  content: z.array(z.object({
+    title: z.string(),
+    hook: z.string(),
+    body: z.string(),
+    cta: z.string(),
+    expectedEngagement: z.number(),
+  })),
+});
 
-  async analyzeAudience(request: AudienceAnalysisRequest, provider: 'openai' | 'anthropic' = 'openai'): Promise<AudienceAnalysisResult> {
-    const validatedRequest = AudienceAnalysisRequestSchema.parse(request);
+export class AudienceAnalysisService {
+  private llm: LLMClient;
 
-    if (provider === 'openai') {
-      return await this.analyzeWithOpenAI(validatedRequest);
-    } else {
-      return await this.analyzeWithAnthropic(validatedRequest);
-    }
+  constructor(llm: LLMClient = llmClient) {
+    this.llm = llm;
   }
 
-  private async analyzeWithOpenAI(request: AudienceAnalysisRequest): Promise<AudienceAnalysisResult> {
-    const prompt = this.buildAudienceAnalysisPrompt(request);
+  async analyzeAudience(request: AudienceAnalysisRequest, provider?: LLMProviderName): Promise<AudienceAnalysisResult> {
+    const validatedRequest = AudienceAnalysisRequestSchema.parse(request) as AudienceAnalysisRequest;
 
-    const completion = await this.openai.chat.completions.create({
-      model: config.ai.openai.model,
-      messages: [
-        {
-          role: 'system',
-          content: `You are an expert market researcher and customer insights analyst. You specialize in creating detailed, actionable audience segments based on comprehensive data analysis. Your segments are psychographically rich, behaviorally specific, and strategically valuable for marketing and product development.`
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
+    const { data, generatedBy } = await this.llm.generateStructured({
+      task: 'audience.analyze',
+      system: 'You are an expert market researcher and customer insights analyst. You specialize in creating detailed, actionable audience segments based on comprehensive data analysis. Your segments are psychographically rich, behaviorally specific, and strategically valuable for marketing and product development.',
+      prompt: this.buildAudienceAnalysisPrompt(validatedRequest),
+      schema: AudienceAnalysisResponseSchema,
+      provider,
       temperature: 0.5,
-      max_tokens: 4000,
-      response_format: { type: "json_object" }
+      maxTokens: 4000,
     });
 
-    const result = JSON.parse(completion.choices[0].message.content || '{}');
-    
+    // Segment internals are validated loosely (passthrough) since their depth varies by model
     return {
-      ...result,
-      generatedBy: `openai-${config.ai.openai.model}`
+      ...data,
+      segments: data.segments as unknown as AudienceSegment[],
+      generatedBy,
     };
   }
 
-  private async analyzeWithAnthropic(request: AudienceAnalysisRequest): Promise<AudienceAnalysisResult> {
-    const prompt = this.buildAudienceAnalysisPrompt(request);
-
-    const message = await this.anthropic.messages.create({
-      model: config.ai.anthropic.model,
-      max_tokens: 4000,
-      messages: [{
-        role: 'user',
-        content: `You are an expert market researcher and customer insights analyst. ${prompt}`
-      }]
-    });
-
-    const content = message.content[0].type === 'text' ? message.content[0].text : '{}';
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    
-    if (jsonMatch) {
-      const result = JSON.parse(jsonMatch[0]);
-      return {
-        ...result,
-        generatedBy: `anthropic-${config.ai.anthropic.model}`
-      };
-    }
-    
-    throw new Error('Failed to analyze audience');
-  }
-
   private buildAudienceAnalysisPrompt(request: AudienceAnalysisRequest): string {
     const { organization, existingCustomerData, competitorAudience, marketResearch } = request;
 
@@ -485,7 +497,7 @@ Guidelines:
     contentType: string,
     platform: string,
     count: number = 5,
-    provider: 'openai' | 'anthropic' = 'openai'
+    provider?: LLMProviderName
   ): Promise<{
     content: Array<{
       title: string;
@@ -524,32 +536,16 @@ Guidelines:
 5. Make content actionable and valuable
 6. Avoid topics/language they dislike`;
 
-    if (provider === 'openai') {
-      const completion = await this.openai.chat.completions.create({
-        model: config.ai.openai.model,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.7,
-        max_tokens: 2500,
-        response_format: { type: "json_object" }
-      });
-
-      return JSON.parse(completion.choices[0].message.content || '{}');
-    } else {
-      const message = await this.anthropic.messages.create({
-        model: config.ai.anthropic.model,
-        max_tokens: 2500,
-        messages: [{ role: 'user', content: prompt }]
-      });
+    const { data } = await this.llm.generateStructured({
+      task: 'audience.segmentContent',
+      prompt,
+      schema: SegmentContentResponseSchema,
+      provider,
+      temperature: 0.7,
+      maxTokens: 2500,
+    });
 
-      const content = message.content[0].type === 'text' ? message.content[0].text : '{}';
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      
-      throw new Error('Failed to generate segment content');
-    }
+    return data;
   }
 
   // Method to validate audience segments against actual data
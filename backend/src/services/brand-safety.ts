@@ -1,7 +1,5 @@
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-import { config } from '../config/config';
 import { z } from 'zod';
+import { LLMClient, LLMProviderName, llmClient } from './llm';
 
 export interface BrandSafetyRules {
   id: string;
@@ -182,9 +180,64 @@ const ContentSafetyCheckSchema = z.object({
   }).optional(),
 });
 
+const SafetyCheckResponseSchema = z.object({
+  issues: z.array(z.object({
+    type: z.enum(['content', 'tone', 'legal', 'social', 'quality']),
+    severity: z.enum(['error', 'warning', 'info']),
+    message: z.string(),
+    suggestion: z.string().default(''),
+    location: z.object({
+      start: z.number(),
+      end: z.number(),
+      text: z.string(),
+    }).optional(),
+    ruleId: z.string().default('ai_review'),
+  })).default([]),
+  suggestions: z.array(z.object({
+    type: z.enum(['improvement', 'alternative', 'addition']),
+    message: z.string(),
+    example: z.string().optional(),
+  })).default([]),
+  confidence: z.number().min(0).max(1).default(0.8),
+});
+
+const ContentGuidelinesResponseSchema = z.object({
+  general: z.object({
+    purpose: z.string(),
+    mission: z.string(),
+    values: z.array(z.string()).default([]),
+    keyMessages: z.array(z.string()).default([]),
+  }),
+  contentTypes: z.record(z.object({
+    purpose: z.string(),
+    structure: z.array(z.string()).default([]),
+    length: z.object({ min: z.number(), max: z.number() }),
+    tone: z.string(),
+    examples: z.array(z.string()).default([]),
+    bestPractices: z.array(z.string()).default([]),
+  })).default({}),
+  platforms: z.record(z.object({
+    voice: z.string(),
+    style: z.string(),
+    formatting: z.array(z.string()).default([]),
+    hashtagStrategy: z.array(z.string()).default([]),
+    postingTimes: z.array(z.string()).default([]),
+    engagement: z.array(z.string()).default([]),
+  })).default({}),
+  messaging: z.object({
+    valueProposition: z.string(),
+    keyDifferentiators: z.array(z.string()).default([]),
+    competitiveAdvantages: z.array(z.string()).default([]),
+    targetAudienceLanguage: z.record(z.object({
+      tone: z.string(),
+      vocabulary: z.array(z.string()).default([]),
+      avoid: z.array(z.string()).default([]),
+    })).default({}),
+  }).optional(),
+});
+
 export class BrandSafetyService {
-  private openai: OpenAI;
-  private anthropic: Anthropic;
+  private llm: LLMClient;
 
   // Predefined risk keywords by category
   private riskKeywords = {
@@ -210,20 +263,14 @@ export class BrandSafetyService {
     ]
   };
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: config.ai.openai.apiKey,
-    });
-
-    this.anthropic = new Anthropic({
-      apiKey: config.ai.anthropic.apiKey,
-    });
+  constructor(llm: LLMClient = llmClient) {
+    this.llm = llm;
   }
 
   async checkContentSafety(
     request: ContentSafetyCheck, 
     brandRules: BrandSafetyRules,
-    provider: 'openai' | 'anthropic' = 'openai'
+    provider?: LLMProviderName
   ): Promise<SafetyCheckResult> {
     const startTime = Date.now();
     const validatedRequest = ContentSafetyCheckSchema.parse(request);
@@ -232,9 +279,7 @@ export class BrandSafetyService {
     const basicChecks = await this.performBasicChecks(validatedRequest, brandRules);
     
     // AI-powered analysis
-    const aiAnalysis = provider === 'openai' 
-      ? await this.checkWithOpenAI(validatedRequest, brandRules)
-      : await this.checkWithAnthropic(validatedRequest, brandRules);
+    const aiAnalysis = await this.checkWithProvider(validatedRequest, brandRules, provider);
 
     // Combine results
     const allIssues = [...basicChecks.issues, ...aiAnalysis.issues];
@@ -362,74 +407,26 @@ export class BrandSafetyService {
     return { issues, suggestions };
   }
 
-  private async checkWithOpenAI(
+  private async checkWithProvider(
     request: ContentSafetyCheck,
-    brandRules: BrandSafetyRules
+    brandRules: BrandSafetyRules,
+    provider?: LLMProviderName
   ): Promise<{
     issues: SafetyCheckResult['issues'];
     suggestions: SafetyCheckResult['suggestions'];
     confidence: number;
   }> {
-    const prompt = this.buildSafetyCheckPrompt(request, brandRules);
-
-    const completion = await this.openai.chat.completions.create({
-      model: config.ai.openai.model,
-      messages: [
-        {
-          role: 'system',
-          content: `You are a brand safety expert and content compliance analyzer. You review content for brand safety, legal compliance, and adherence to guidelines. You identify potential risks and provide specific, actionable suggestions for improvement.`
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
+    const { data } = await this.llm.generateStructured({
+      task: 'brandSafety.check',
+      system: 'You are a brand safety expert and content compliance analyzer. You review content for brand safety, legal compliance, and adherence to guidelines. You identify potential risks and provide specific, actionable suggestions for improvement.',
+      prompt: this.buildSafetyCheckPrompt(request, brandRules),
+      schema: SafetyCheckResponseSchema,
+      provider,
       temperature: 0.2,
-      max_tokens: 2000,
-      response_format: { type: "json_object" }
+      maxTokens: 2000,
     });
 
-    const result = JSON.parse(completion.choices[0].message.content || '{}');
-    
-    return {
-      issues: result.issues || [],
-      suggestions: result.suggestions || [],
-      confidence: result.confidence || 0.8
-    };
-  }
-
-  private async checkWithAnthropic(
-    request: ContentSafetyCheck,
-    brandRules: BrandSafetyRules
-  ): Promise<{
-    issues: SafetyCheckResult['issues'];
-    suggestions: SafetyCheckResult['suggestions'];
-    confidence: number;
-  }> {
-    const prompt = this.buildSafetyCheckPrompt(request, brandRules);
-
-    const message = await this.anthropic.messages.create({
-      model: config.ai.anthropic.model,
-      max_tokens: 2000,
-      messages: [{
-        role: 'user',
-        content: `You are a brand safety expert and content compliance analyzer. ${prompt}`
-      }]
-    });
-
-    const content = message.content[0].type === 'text' ? message.content[0].text : '{}';
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    
-    if (jsonMatch) {
-      const result = JSON.parse(jsonMatch[0]);
-      return {
-        issues: result.issues || [],
-        suggestions: result.suggestions || [],
-        confidence: result.confidence || 0.8
-      };
-    }
-    
-    return { issues: [], suggestions: [], confidence: 0.5 };
+    return data;
   }
 
   private buildSafetyCheckPrompt(request: ContentSafetyCheck, brandRules: BrandSafetyRules): string {
@@ -526,7 +523,7 @@ Return analysis as JSON:
       targetAudiences?: string[];
       platforms?: string[];
     },
-    provider: 'openai' | 'anthropic' = 'openai'
+    provider?: LLMProviderName
   ): Promise<Partial<ContentGuidelines['guidelines']>> {
     const prompt = `Create comprehensive content guidelines for the following organization:
 
@@ -573,39 +570,23 @@ Please provide comprehensive guidelines in JSON format:
   }
 }`;
 
-    if (provider === 'openai') {
-      const completion = await this.openai.chat.completions.create({
-        model: config.ai.openai.model,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.4,
-        max_tokens: 3000,
-        response_format: { type: "json_object" }
-      });
-
-      return JSON.parse(completion.choices[0].message.content || '{}');
-    } else {
-      const message = await this.anthropic.messages.create({
-        model: config.ai.anthropic.model,
-        max_tokens: 3000,
-        messages: [{ role: 'user', content: prompt }]
-      });
+    const { data } = await this.llm.generateStructured({
+      task: 'brandSafety.guidelines',
+      prompt,
+      schema: ContentGuidelinesResponseSchema,
+      provider,
+      temperature: 0.4,
+      maxTokens: 3000,
+    });
 
-      const content = message.content[0].type === 'text' ? message.content[0].text : '{}';
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      
-      throw new Error('Failed to generate content guidelines');
-    }
+    return data;
   }
 
   // Method to batch check multiple pieces of content
   async batchSafetyCheck(
     requests: ContentSafetyCheck[],
     brandRules: BrandSafetyRules,
-    provider: 'openai' | 'anthropic' = 'openai'
+    provider?: LLMProviderName
   ): Promise<SafetyCheckResult[]> {
     // Process in parallel with concurrency limit
     const concurrencyLimit = 5;
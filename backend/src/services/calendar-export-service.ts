@@ -1,10 +1,27 @@
 import { PrismaClient, ExportType, ExportFormat, ExportStatus, EventType, Platform } from '@prisma/client';
-import { format, formatISO } from 'date-fns';
+import { addDays, eachMonthOfInterval, format, formatISO } from 'date-fns';
+import { Readable } from 'stream';
 // @ts-ignore - date-fns-tz may not have full type definitions
 import { utcToZonedTime } from 'date-fns-tz';
 // @ts-ignore - ical-generator may not have full type definitions
 import * as ical from 'ical-generator';
-import { v4 as uuidv4 } from 'uuid';
+import {
+  PLATFORM_COLORS,
+  PdfReportBuilder,
+  XLSX_MIME_TYPE,
+  addTableSheet,
+  createWorkbook,
+} from './report-rendering';
+import { FileStorage, getFileStorage, signDownloadUrl } from './file-storage';
+import { config } from '../config/config';
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  ICAL: 'text/calendar',
+  CSV: 'text/csv',
+  JSON: 'application/json',
+  PDF: 'application/pdf',
+  XLSX: XLSX_MIME_TYPE,
+};
 
 interface ExportRequest {
   organizationId: string;
@@ -44,7 +61,14 @@ interface CalendarExportData {
 }
 
 export class CalendarExportService {
-  constructor(private prisma: PrismaClient) {}
+  constructor(private prisma: PrismaClient, private storage: FileStorage = getFileStorage()) {}
+
+  /**
+   * API path that serves an export's file
+   */
+  static downloadPath(exportId: string): string {
+    return `/api/v1/scheduling/export/${exportId}`;
+  }
 
   /**
    * Create calendar export
@@ -53,7 +77,7 @@ export class CalendarExportService {
     const {
       organizationId,
       exportType,
-      format,
+      format: exportFormat,
       startDate,
       endDate,
       timeZone,
@@ -67,14 +91,14 @@ export class CalendarExportService {
       data: {
         organizationId,
         exportType,
-        format,
+        format: exportFormat,
         status: ExportStatus.PENDING,
         startDate,
         endDate,
         timeZone,
         includeEvents,
         platforms,
-        fileName: fileName || this.generateFileName(exportType, format, organizationId),
+        fileName: fileName || this.generateFileName(exportType, exportFormat, organizationId),
       },
     });
 
@@ -101,13 +125,38 @@ export class CalendarExportService {
       status: exportRecord.status,
       fileName: exportRecord.fileName,
       fileSize: exportRecord.fileSize,
-      downloadUrl: exportRecord.downloadUrl,
+      downloadUrl: this.signedDownloadUrl(exportRecord),
       expiresAt: exportRecord.expiresAt,
       errorMessage: exportRecord.errorMessage,
       createdAt: exportRecord.createdAt,
     };
   }
 
+  /**
+   * Open a completed export's file for streaming. Resolves to null when the
+   * export has not finished, has expired or its file is gone from storage.
+   */
+  async openExportFile(exportId: string): Promise<{ fileName: string; mimeType: string; stream: Readable } | null> {
+    const exportRecord = await this.prisma.calendarExport.findUnique({
+      where: { id: exportId },
+    });
+
+    if (!exportRecord || exportRecord.status !== ExportStatus.COMPLETED || !exportRecord.storageKey) {
+      return null;
+    }
+
+    const stream = await this.storage.getStream(exportRecord.storageKey);
+    if (!stream) {
+      return null;
+    }
+
+    return {
+      fileName: exportRecord.fileName || `${exportRecord.id}.${exportRecord.format.toLowerCase()}`,
+      mimeType: EXPORT_MIME_TYPES[exportRecord.format],
+      stream,
+    };
+  }
+
   /**
    * Process export asynchronously
    */
@@ -131,40 +180,29 @@ export class CalendarExportService {
 
       // Generate export content
       let exportContent: string | Buffer;
-      let mimeType: string;
 
       switch (exportRecord.format) {
         case ExportFormat.ICAL:
           exportContent = this.generateICalExport(calendarData);
-          mimeType = 'text/calendar';
           break;
         case ExportFormat.CSV:
           exportContent = this.generateCSVExport(calendarData);
-          mimeType = 'text/csv';
           break;
         case ExportFormat.JSON:
           exportContent = this.generateJSONExport(calendarData);
-          mimeType = 'application/json';
           break;
         case ExportFormat.PDF:
           exportContent = await this.generatePDFExport(calendarData);
-          mimeType = 'application/pdf';
+          break;
+        case ExportFormat.XLSX:
+          exportContent = await this.generateXLSXExport(calendarData);
           break;
         default:
           throw new Error('Unsupported export format');
       }
 
-      // In a real implementation, you would upload to S3 or similar storage
-      // For now, we'll simulate the file storage
-      const downloadUrl = await this.uploadExportFile(
-        exportRecord.fileName!,
-        exportContent,
-        mimeType
-      );
-
-      // Calculate expiration (7 days from now)
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7);
+      const storageKey = `exports/${exportRecord.organizationId}/${exportRecord.id}/${exportRecord.fileName}`;
+      await this.storage.put(storageKey, exportContent, EXPORT_MIME_TYPES[exportRecord.format]);
 
       // Update export record
       await this.prisma.calendarExport.update({
@@ -172,8 +210,8 @@ export class CalendarExportService {
         data: {
           status: ExportStatus.COMPLETED,
           fileSize: Buffer.isBuffer(exportContent) ? exportContent.length : Buffer.byteLength(exportContent),
-          downloadUrl,
-          expiresAt,
+          storageKey,
+          expiresAt: addDays(new Date(), config.storage.retentionDays),
         },
       });
     } catch (error: any) {
@@ -400,80 +438,142 @@ export class CalendarExportService {
   }
 
   /**
-   * Generate PDF export (simplified implementation)
+   * Generate PDF export: cover, per-platform summary, a month grid per month
+   * in the range and a full agenda
    */
   private async generatePDFExport(data: CalendarExportData): Promise<Buffer> {
-    // In a real implementation, you would use a PDF library like puppeteer, pdfkit, or jsPDF
-    // For now, we'll create a simple text-based PDF placeholder
-    
-    const pdfContent = this.generatePDFContent(data);
-    
-    // This is a placeholder - in reality you'd use a proper PDF library
-    return Buffer.from(pdfContent, 'utf8');
+    const { metadata, events } = data;
+    const range = `${format(metadata.dateRange.start, 'MMM d, yyyy')} – ${format(metadata.dateRange.end, 'MMM d, yyyy')}`;
+    const pdf = new PdfReportBuilder({ name: metadata.organizationName }, `Content Calendar – ${metadata.organizationName}`);
+
+    pdf.cover('Content Calendar', range, [
+      ['Organization', metadata.organizationName],
+      ['Time zone', metadata.timeZone],
+      ['Events', metadata.totalEvents.toLocaleString()],
+      ['Exported', format(metadata.exportDate, 'MMM d, yyyy HH:mm')],
+    ]);
+
+    const byPlatform = this.countBy(events, event => event.platform || 'Unassigned');
+    const byType = this.countBy(events, event => event.eventType);
+
+    pdf.heading('Overview').metricCards([
+      { label: 'Events', value: metadata.totalEvents.toLocaleString() },
+      { label: 'Scheduled posts', value: (byType.get('POST_SCHEDULED') || 0).toLocaleString() },
+      { label: 'Platforms', value: Array.from(byPlatform.keys()).filter(key => key !== 'Unassigned').length.toString() },
+    ]);
+    pdf.barChart('Events by platform', {
+      labels: Array.from(byPlatform.keys()),
+      values: Array.from(byPlatform.values()),
+    });
+    pdf.table(
+      [
+        { header: 'Event type', width: 0.7 },
+        { header: 'Events', width: 0.3, align: 'right' },
+      ],
+      Array.from(byType.entries()).map(([type, count]) => [type, count.toLocaleString()])
+    );
+
+    const months = eachMonthOfInterval({ start: metadata.dateRange.start, end: metadata.dateRange.end });
+    const entries = events.map(event => ({
+      date: event.startTime,
+      label: `${format(event.startTime, 'HH:mm')} ${event.title}`,
+      color: event.platform ? PLATFORM_COLORS[event.platform] : undefined,
+    }));
+    for (const month of months) {
+      pdf.monthGrid(month, entries);
+    }
+
+    pdf.heading('Agenda').table(
+      [
+        { header: 'Date', width: 0.16 },
+        { header: 'Time', width: 0.1 },
+        { header: 'Title', width: 0.4 },
+        { header: 'Type', width: 0.18 },
+        { header: 'Platform', width: 0.16 },
+      ],
+      events.map(event => [
+        format(event.startTime, 'EEE, MMM d'),
+        format(event.startTime, 'HH:mm'),
+        event.title,
+        event.eventType,
+        event.platform || '',
+      ])
+    );
+
+    return pdf.toBuffer();
   }
 
   /**
-   * Generate PDF content (text representation)
+   * Generate XLSX export with events, per-platform and per-month sheets
    */
-  private generatePDFContent(data: CalendarExportData): string {
-    let content = `Content Calendar Report\n`;
-    content += `Organization: ${data.metadata.organizationName}\n`;
-    content += `Date Range: ${format(data.metadata.dateRange.start, 'yyyy-MM-dd')} to ${format(data.metadata.dateRange.end, 'yyyy-MM-dd')}\n`;
-    content += `Timezone: ${data.metadata.timeZone}\n`;
-    content += `Total Events: ${data.metadata.totalEvents}\n`;
-    content += `Export Date: ${format(data.metadata.exportDate, 'yyyy-MM-dd HH:mm:ss')}\n\n`;
+  private async generateXLSXExport(data: CalendarExportData): Promise<Buffer> {
+    const { metadata, events } = data;
+    const workbook = createWorkbook(metadata.organizationName);
+
+    addTableSheet(workbook, 'Events', [
+      { header: 'ID', key: 'id', width: 28 },
+      { header: 'Title', key: 'title', width: 40 },
+      { header: 'Description', key: 'description', width: 60 },
+      { header: 'Start Time', key: 'startTime', width: 20, numFmt: 'yyyy-mm-dd hh:mm' },
+      { header: 'End Time', key: 'endTime', width: 20, numFmt: 'yyyy-mm-dd hh:mm' },
+      { header: 'Event Type', key: 'eventType', width: 18 },
+      { header: 'Platform', key: 'platform', width: 16 },
+      { header: 'Tags', key: 'tags', width: 24 },
+      { header: 'URL', key: 'url', width: 40 },
+      { header: 'Location', key: 'location', width: 30 },
+    ], events.map(event => ({ ...event, tags: event.tags.join(', ') })));
+
+    addTableSheet(workbook, 'By Platform', [
+      { header: 'Platform', key: 'platform', width: 18 },
+      { header: 'Events', key: 'count', numFmt: '#,##0' },
+    ], Array.from(this.countBy(events, event => event.platform || 'Unassigned'))
+      .map(([platform, count]) => ({ platform, count })));
+
+    addTableSheet(workbook, 'By Month', [
+      { header: 'Month', key: 'month', width: 18 },
+      { header: 'Events', key: 'count', numFmt: '#,##0' },
+    ], Array.from(this.countBy(events, event => format(event.startTime, 'yyyy-MM')))
+      .map(([month, count]) => ({ month, count })));
+
+    addTableSheet(workbook, 'Export Info', [
+      { header: 'Field', key: 'field', width: 20 },
+      { header: 'Value', key: 'value', width: 40 },
+    ], [
+      { field: 'Organization', value: metadata.organizationName },
+      { field: 'Range start', value: metadata.dateRange.start },
+      { field: 'Range end', value: metadata.dateRange.end },
+      { field: 'Time zone', value: metadata.timeZone },
+      { field: 'Total events', value: metadata.totalEvents },
+      { field: 'Exported', value: metadata.exportDate },
+    ]);
 
-    content += `Events:\n`;
-    content += `========\n\n`;
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
 
-    for (const event of data.events) {
-      content += `Title: ${event.title}\n`;
-      content += `Date: ${format(event.startTime, 'yyyy-MM-dd HH:mm')}\n`;
-      if (event.endTime) {
-        content += `End: ${format(event.endTime, 'yyyy-MM-dd HH:mm')}\n`;
-      }
-      content += `Type: ${event.eventType}\n`;
-      if (event.platform) {
-        content += `Platform: ${event.platform}\n`;
-      }
-      if (event.description) {
-        content += `Description: ${event.description}\n`;
-      }
-      if (event.tags.length > 0) {
-        content += `Tags: ${event.tags.join(', ')}\n`;
-      }
-      if (event.location) {
-        content += `Location: ${event.location}\n`;
-      }
-      if (event.url) {
-        content += `URL: ${event.url}\n`;
-      }
-      content += `\n`;
+  private countBy<T>(items: T[], key: (item: T) => string): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const item of items) {
+      counts.set(key(item), (counts.get(key(item)) || 0) + 1);
     }
-
-    return content;
+    return counts;
   }
 
   /**
-   * Upload export file (simulated)
+   * Short-lived download link for a completed export
    */
-  private async uploadExportFile(
-    fileName: string,
-    content: string | Buffer,
-    mimeType: string
-  ): Promise<string> {
-    // In a real implementation, this would upload to S3, Google Cloud Storage, etc.
-    // For now, we'll return a simulated URL
-    const fileId = uuidv4();
-    return `https://storage.example.com/exports/${fileId}/${fileName}`;
+  private signedDownloadUrl(exportRecord: { id: string; status: ExportStatus; storageKey: string | null }): string | null {
+    if (exportRecord.status !== ExportStatus.COMPLETED || !exportRecord.storageKey) {
+      return null;
+    }
+    return signDownloadUrl(CalendarExportService.downloadPath(exportRecord.id)).url;
   }
 
   /**
    * Generate filename for export
    */
-  private generateFileName(exportType: ExportType, format: ExportFormat, organizationId: string): string {
+  private generateFileName(exportType: ExportType, exportFormat: ExportFormat, organizationId: string): string {
     const timestamp = format(new Date(), 'yyyy-MM-dd_HHmmss');
-    const extension = format.toLowerCase();
+    const extension = exportFormat.toLowerCase();
     const typePrefix = exportType.toLowerCase().replace('_', '-');
     
     return `${typePrefix}-${organizationId}-${timestamp}.${extension}`;
@@ -497,14 +597,16 @@ export class CalendarExportService {
 
     for (const exportRecord of expiredExports) {
       try {
-        // In a real implementation, delete the file from storage
-        // await deleteFileFromStorage(exportRecord.downloadUrl);
-        
+        if (exportRecord.storageKey) {
+          await this.storage.delete(exportRecord.storageKey);
+        }
+
         // Update status to expired
         await this.prisma.calendarExport.update({
           where: { id: exportRecord.id },
           data: {
             status: ExportStatus.EXPIRED,
+            storageKey: null,
             downloadUrl: null,
           },
         });
@@ -518,7 +620,7 @@ export class CalendarExportService {
    * Get export history for organization
    */
   async getExportHistory(organizationId: string, limit: number = 50) {
-    return this.prisma.calendarExport.findMany({
+    const exports = await this.prisma.calendarExport.findMany({
       where: { organizationId },
       orderBy: { createdAt: 'desc' },
       take: limit,
@@ -529,7 +631,7 @@ export class CalendarExportService {
         status: true,
         fileName: true,
         fileSize: true,
-        downloadUrl: true,
+        storageKey: true,
         expiresAt: true,
         errorMessage: true,
         createdAt: true,
@@ -538,6 +640,11 @@ export class CalendarExportService {
         endDate: true,
       },
     });
+
+    return exports.map(({ storageKey, ...exportRecord }) => ({
+      ...exportRecord,
+      downloadUrl: this.signedDownloadUrl({ ...exportRecord, storageKey }),
+    }));
   }
 
   /**
@@ -552,10 +659,9 @@ export class CalendarExportService {
       throw new Error('Export not found');
     }
 
-    // In a real implementation, delete the file from storage
-    // if (exportRecord.downloadUrl) {
-    //   await deleteFileFromStorage(exportRecord.downloadUrl);
-    // }
+    if (exportRecord.storageKey) {
+      await this.storage.delete(exportRecord.storageKey);
+    }
 
     // Delete from database
     await this.prisma.calendarExport.delete({
@@ -0,0 +1,192 @@
+import { PrismaClient, EventStatus, EventType, Platform, PostStatus } from '@prisma/client';
+import ical, { ICalEventStatus } from 'ical-generator';
+import { addDays, subDays } from 'date-fns';
+import { config } from '../config/config';
+import { generateToken, hash } from '../utils/encryption';
+
+export interface CalendarFeedFilters {
+  platforms?: Platform[];
+  eventTypes?: EventType[];
+}
+
+export interface CalendarFeedUrls {
+  token: string;
+  feedUrl: string;
+  webcalUrl: string;
+}
+
+// Calendar clients poll the whole feed, so keep it to a rolling window
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 180;
+const DEFAULT_EVENT_MINUTES = 30;
+const REFRESH_INTERVAL_SECONDS = 15 * 60;
+
+export class CalendarFeedService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Subscription URLs for a feed token, with optional filters in the query string
+   */
+  static feedUrls(token: string, filters: CalendarFeedFilters = {}): CalendarFeedUrls {
+    const query = new URLSearchParams();
+    if (filters.platforms?.length) {
+      query.set('platforms', filters.platforms.join(','));
+    }
+    if (filters.eventTypes?.length) {
+      query.set('eventTypes', filters.eventTypes.join(','));
+    }
+
+    const queryString = query.toString();
+    const feedUrl = `${config.baseUrl.replace(/\/$/, '')}/api/v1/scheduling/calendar/feed/${token}.ics${queryString ? `?${queryString}` : ''}`;
+
+    return {
+      token,
+      feedUrl,
+      webcalUrl: feedUrl.replace(/^https?:\/\//, 'webcal://'),
+    };
+  }
+
+  /**
+   * Create the organization's feed, or rotate its token. Only the hash of the
+   * token is stored, so previously shared URLs stop working.
+   */
+  async createFeed(organizationId: string, filters: CalendarFeedFilters = {}): Promise<CalendarFeedUrls> {
+    const token = generateToken(24);
+    const tokenHash = hash(token);
+
+    await this.prisma.calendarFeed.upsert({
+      where: { organizationId },
+      create: { organizationId, tokenHash },
+      update: { tokenHash, lastAccessedAt: null },
+    });
+
+    return CalendarFeedService.feedUrls(token, filters);
+  }
+
+  /**
+   * Revoke the organization's feed
+   */
+  async revokeFeed(organizationId: string): Promise<void> {
+    await this.prisma.calendarFeed.deleteMany({
+      where: { organizationId },
+    });
+  }
+
+  /**
+   * Render the iCalendar feed for a token. Resolves to null for unknown tokens.
+   */
+  async renderFeed(token: string, filters: CalendarFeedFilters = {}, now: Date = new Date()): Promise<string | null> {
+    const feed = await this.prisma.calendarFeed.findUnique({
+      where: { tokenHash: hash(token.replace(/\.ics$/, '')) },
+      include: { organization: true },
+    });
+
+    if (!feed) {
+      return null;
+    }
+
+    await this.prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastAccessedAt: now },
+    });
+
+    const { organizationId } = feed;
+    const windowStart = subDays(now, FEED_PAST_DAYS);
+    const windowEnd = addDays(now, FEED_FUTURE_DAYS);
+    const platforms = filters.platforms?.length ? filters.platforms : undefined;
+    const eventTypes = filters.eventTypes?.length ? filters.eventTypes : undefined;
+
+    // Cancelled rows are kept so subscribers remove them from their calendars
+    const calendarEvents = await this.prisma.calendarEvent.findMany({
+      where: {
+        organizationId,
+        startTime: { gte: windowStart, lte: windowEnd },
+        eventType: eventTypes ? { in: eventTypes } : undefined,
+      },
+      include: {
+        scheduledPost: {
+          include: { socialAccount: true },
+        },
+      },
+      orderBy: { startTime: 'asc' },
+    });
+
+    const includePosts = !eventTypes || eventTypes.includes(EventType.POST_SCHEDULED);
+    const scheduledPosts = includePosts
+      ? await this.prisma.scheduledPost.findMany({
+          where: {
+            organizationId,
+            scheduledAt: { gte: windowStart, lte: windowEnd },
+            socialAccount: platforms ? { platform: { in: platforms } } : undefined,
+            // Posts with a calendar event are already in the feed through it
+            calendarEvent: null,
+          },
+          include: {
+            socialAccount: true,
+            contentPiece: true,
+          },
+          orderBy: { scheduledAt: 'asc' },
+        })
+      : [];
+
+    const calendar = ical({
+      name: `${feed.organization.name} Content Calendar`,
+      description: `Publishing schedule for ${feed.organization.name}`,
+      prodId: '//AI Promote//Content Calendar//EN',
+      ttl: REFRESH_INTERVAL_SECONDS,
+    });
+    const uidDomain = new URL(config.baseUrl).hostname;
+
+    for (const event of calendarEvents) {
+      const post = event.scheduledPost;
+      if (platforms && post && !platforms.includes(post.socialAccount.platform)) {
+        continue;
+      }
+
+      const cancelled = event.status === EventStatus.CANCELLED || post?.status === PostStatus.CANCELLED;
+      calendar.createEvent({
+        id: `calendar-event-${event.id}@${uidDomain}`,
+        sequence: Math.max(event.sequence, post?.sequence ?? 0),
+        stamp: event.updatedAt,
+        lastModified: event.updatedAt,
+        start: event.startTime,
+        end: event.endTime || new Date(event.startTime.getTime() + DEFAULT_EVENT_MINUTES * 60 * 1000),
+        allDay: event.isAllDay,
+        summary: event.title,
+        description: event.description,
+        location: post ? `${post.socialAccount.platform} - @${post.socialAccount.handle}` : null,
+        url: post?.platformUrl || null,
+        categories: event.tags.map(tag => ({ name: tag })),
+        status: cancelled ? ICalEventStatus.CANCELLED : ICalEventStatus.CONFIRMED,
+        x: {
+          'X-AIPROMOTE-EVENT-TYPE': event.eventType,
+          ...(post ? { 'X-AIPROMOTE-PLATFORM': post.socialAccount.platform } : {}),
+        },
+      });
+    }
+
+    for (const post of scheduledPosts) {
+      const body = post.contentPiece.body || '';
+      calendar.createEvent({
+        id: `scheduled-post-${post.id}@${uidDomain}`,
+        sequence: post.sequence,
+        stamp: post.updatedAt,
+        lastModified: post.updatedAt,
+        start: post.scheduledAt,
+        end: new Date(post.scheduledAt.getTime() + DEFAULT_EVENT_MINUTES * 60 * 1000),
+        summary: `Post: ${post.contentPiece.title || 'Untitled'}`,
+        description: body.length > 200 ? `${body.substring(0, 200)}...` : body,
+        location: `${post.socialAccount.platform} - @${post.socialAccount.handle}`,
+        url: post.platformUrl || null,
+        categories: [{ name: post.socialAccount.platform.toLowerCase() }],
+        status: post.status === PostStatus.CANCELLED ? ICalEventStatus.CANCELLED : ICalEventStatus.CONFIRMED,
+        x: {
+          'X-AIPROMOTE-EVENT-TYPE': EventType.POST_SCHEDULED,
+          'X-AIPROMOTE-PLATFORM': post.socialAccount.platform,
+        },
+      });
+    }
+
+    return calendar.toString();
+  }
+}
@@ -0,0 +1,539 @@
+import { PrismaClient, ConflictSeverity, ConflictType, ContentStatus, EventStatus, EventType, Platform, PostStatus, ScheduledPost } from '@prisma/client';
+import { endOfDay, isValid, parseISO, startOfDay } from 'date-fns';
+// @ts-ignore - date-fns-tz may not have full type definitions
+import { zonedTimeToUtc } from 'date-fns-tz';
+import { parse as parseCSV } from 'csv-parse/sync';
+import * as ical from 'node-ical';
+import { DetectedConflict, SchedulingService } from './scheduling-service';
+import { PublishingQueueService } from './publishing-queue';
+import { hash } from '../utils/encryption';
+import { ValidationError } from '../utils/errors';
+
+export interface ImportRequest {
+  organizationId: string;
+  format: 'ICAL' | 'CSV';
+  content: string;
+  timeZone: string; // Used for CSV times without a UTC offset
+  dryRun: boolean;
+  allowConflicts?: boolean; // Commit even when the import causes critical conflicts
+}
+
+export interface ImportRowResult {
+  row: number; // 1-based; the CSV header and other VCALENDAR components are not counted
+  sourceId?: string;
+  title: string;
+  startTime?: Date;
+  eventType?: EventType;
+  platform?: Platform;
+  socialAccountId?: string;
+  action: 'create_post' | 'create_event' | 'skip';
+  skipReason?: string; // Why a skipped row is left out
+  errors: string[];
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  committed: boolean;
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    skipped: number;
+    posts: number;
+    events: number;
+  };
+  rows: ImportRowResult[];
+  conflicts: DetectedConflict[];
+}
+
+interface ParsedRow {
+  row: number;
+  sourceId?: string;
+  title: string;
+  description?: string;
+  startTime?: Date;
+  endTime?: Date;
+  isAllDay: boolean;
+  eventType?: string;
+  platform?: string;
+  handle?: string;
+  tags: string[];
+  cancelled: boolean;
+  errors: string[];
+}
+
+interface PlannedRow extends ImportRowResult {
+  source: ParsedRow;
+  importKey: string;
+}
+
+// Columns emitted by CalendarExportService.generateCSVExport
+const CSV_REQUIRED_COLUMNS = ['Title', 'Start Time'];
+const LOCATION_PATTERN = /^([A-Z_]+)\s*-\s*@(\S+)$/;
+const IMPORT_TRANSACTION_TIMEOUT_MS = 60_000;
+
+/**
+ * Thrown inside the import transaction to roll it back after conflicts have
+ * been detected against the imported rows
+ */
+class ImportRollback extends Error {
+  constructor(public readonly conflicts: DetectedConflict[]) {
+    super('Import rolled back');
+  }
+}
+
+export class CalendarImportService {
+  constructor(
+    private prisma: PrismaClient,
+    private publishingQueue: PublishingQueueService = new PublishingQueueService(prisma)
+  ) {}
+
+  /**
+   * Validate an ICS or CSV calendar and, unless this is a dry run, create the
+   * content pieces, scheduled posts and calendar events it describes. Both
+   * modes run conflict detection over the imported range; dry runs and
+   * imports with critical conflicts are rolled back. Rows already in the
+   * calendar are skipped so overlapping files can be imported again, but any
+   * invalid row keeps the whole import from committing.
+   */
+  async importCalendar(request: ImportRequest): Promise<ImportResult> {
+    const parsedRows = request.format === 'ICAL'
+      ? this.parseICal(request.content)
+      : this.parseCSV(request.content, request.timeZone);
+
+    const rows = await this.planRows(request.organizationId, parsedRows);
+    const validRows = rows.filter(row => row.action !== 'skip' && row.errors.length === 0);
+    const invalidCount = rows.filter(row => row.errors.length > 0).length;
+
+    const result: ImportResult = {
+      dryRun: request.dryRun,
+      committed: false,
+      summary: {
+        total: rows.length,
+        valid: validRows.length,
+        invalid: invalidCount,
+        skipped: rows.filter(row => row.action === 'skip').length,
+        posts: validRows.filter(row => row.action === 'create_post').length,
+        events: validRows.filter(row => row.action === 'create_event').length,
+      },
+      rows: rows.map(({ source, importKey, ...row }) => row),
+      conflicts: [],
+    };
+
+    if (validRows.length === 0) {
+      return result;
+    }
+
+    const commit = !request.dryRun && invalidCount === 0;
+
+    let posts: ScheduledPost[];
+    try {
+      ({ posts, conflicts: result.conflicts } = await this.prisma.$transaction(async (tx) => {
+        const created = await this.createRows(tx as PrismaClient, request, validRows);
+        const conflicts = await this.detectImportConflicts(
+          tx as PrismaClient,
+          request.organizationId,
+          validRows,
+          created.map(post => post.id)
+        );
+
+        const blocked = !request.allowConflicts && conflicts.some(conflict => conflict.severity === ConflictSeverity.CRITICAL);
+        if (!commit || blocked) {
+          throw new ImportRollback(conflicts);
+        }
+        return { posts: created, conflicts };
+      }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS }));
+      result.committed = true;
+    } catch (error) {
+      if (!(error instanceof ImportRollback)) {
+        throw error;
+      }
+      result.conflicts = error.conflicts;
+      return result;
+    }
+
+    // Queued after the commit so rolled back imports leave no jobs behind. The
+    // reconcile sweep queues any post whose job could not be added here.
+    for (const post of posts) {
+      await this.publishingQueue.syncJob(post).catch((error: Error) => {
+        console.error(`Failed to queue imported post ${post.id}:`, error);
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse CSV rows in the layout produced by the CSV export
+   */
+  private parseCSV(content: string, timeZone: string): ParsedRow[] {
+    let records: Record<string, string>[];
+    try {
+      records = parseCSV(content, {
+        columns: true,
+        skip_empty_lines: true,
+        trim: true,
+        bom: true,
+        relax_column_count: true,
+      });
+    } catch (error: any) {
+      throw new ValidationError(`Invalid CSV: ${error.message}`, 'content');
+    }
+
+    const columns = records.length > 0 ? Object.keys(records[0]) : [];
+    const missing = CSV_REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+    if (records.length > 0 && missing.length > 0) {
+      throw new ValidationError(`CSV is missing required columns: ${missing.join(', ')}`, 'content', missing);
+    }
+
+    return records.map((record, index) => {
+      const errors: string[] = [];
+      const startTime = this.parseCSVTime(record['Start Time'], timeZone);
+      const endTime = record['End Time'] ? this.parseCSVTime(record['End Time'], timeZone) : undefined;
+      const location = this.parseLocation(record['Location']);
+
+      if (!startTime) {
+        errors.push(`Invalid start time "${record['Start Time'] || ''}"`);
+      }
+      if (record['End Time'] && !endTime) {
+        errors.push(`Invalid end time "${record['End Time']}"`);
+      }
+
+      return {
+        row: index + 1,
+        sourceId: record['ID'] || undefined,
+        title: record['Title'] || '',
+        description: record['Description'] || undefined,
+        startTime,
+        endTime,
+        isAllDay: false,
+        eventType: record['Event Type'] || undefined,
+        platform: record['Platform'] || location?.platform,
+        handle: location?.handle,
+        tags: (record['Tags'] || '').split(',').map(tag => tag.trim()).filter(Boolean),
+        cancelled: false,
+        errors,
+      };
+    });
+  }
+
+  /**
+   * Parse VEVENTs from an ICS file, including the X-AIPROMOTE-* properties
+   * written by the subscription feed
+   */
+  private parseICal(content: string): ParsedRow[] {
+    let components: ical.CalendarResponse;
+    try {
+      components = ical.sync.parseICS(content);
+    } catch (error: any) {
+      throw new ValidationError(`Invalid iCalendar file: ${error.message}`, 'content');
+    }
+
+    const events = Object.values(components).filter((component): component is ical.VEvent => component.type === 'VEVENT');
+
+    return events.map((event, index) => {
+      const extra = event as unknown as Record<string, unknown>;
+      const tags = this.categories(extra.categories);
+      const location = this.parseLocation(this.text(event.location));
+      const startTime = event.start && isValid(event.start) ? new Date(event.start) : undefined;
+      const endTime = event.end && isValid(event.end) && event.end > event.start ? new Date(event.end) : undefined;
+      const platform = this.text(extra['AIPROMOTE-PLATFORM'])
+        || location?.platform
+        || tags.map(tag => tag.toUpperCase()).find(tag => tag in Platform);
+
+      return {
+        row: index + 1,
+        sourceId: event.uid || undefined,
+        title: this.text(event.summary) || '',
+        description: this.text(event.description) || undefined,
+        startTime,
+        endTime,
+        isAllDay: event.datetype === 'date',
+        eventType: this.text(extra['AIPROMOTE-EVENT-TYPE']) || undefined,
+        platform,
+        handle: location?.handle,
+        tags,
+        cancelled: event.status === 'CANCELLED',
+        errors: startTime ? [] : ['Missing or invalid DTSTART'],
+      };
+    });
+  }
+
+  /**
+   * Validate rows against the organization's accounts and existing calendar
+   */
+  private async planRows(organizationId: string, parsedRows: ParsedRow[]): Promise<PlannedRow[]> {
+    const [socialAccounts, duplicates] = await Promise.all([
+      this.prisma.socialAccount.findMany({
+        where: { organizationId, isActive: true },
+      }),
+      this.findExisting(organizationId, parsedRows),
+    ]);
+
+    const now = new Date();
+    const seenKeys = new Set<string>();
+
+    return parsedRows.map(source => {
+      const errors = [...source.errors];
+      const title = source.title.trim();
+      const platform = source.platform?.toUpperCase() as Platform | undefined;
+      let eventType = source.eventType?.toUpperCase() as EventType | undefined;
+
+      if (!title) {
+        errors.push('Title is required');
+      }
+      if (platform && !(platform in Platform)) {
+        errors.push(`Unknown platform "${source.platform}"`);
+      }
+      if (eventType && !(eventType in EventType)) {
+        errors.push(`Unknown event type "${source.eventType}"`);
+        eventType = undefined;
+      }
+      eventType = eventType || (platform ? EventType.POST_SCHEDULED : EventType.CUSTOM);
+
+      const importKey = `import:${organizationId}:${hash(
+        source.sourceId || `${title}|${source.startTime?.toISOString()}|${platform || ''}`
+      )}`;
+
+      const planned: PlannedRow = {
+        row: source.row,
+        sourceId: source.sourceId,
+        title,
+        startTime: source.startTime,
+        eventType,
+        platform,
+        action: eventType === EventType.POST_SCHEDULED ? 'create_post' : 'create_event',
+        errors,
+        source,
+        importKey,
+      };
+
+      // Cancelled events and rows that were already imported are left out rather than reported as errors
+      if (source.cancelled) {
+        return { ...planned, action: 'skip', skipReason: 'Cancelled', errors: [] };
+      }
+
+      if (seenKeys.has(importKey)) {
+        return { ...planned, action: 'skip', skipReason: 'Duplicate of an earlier row in this file', errors: [] };
+      }
+      seenKeys.add(importKey);
+
+      if (duplicates.has(importKey) || (source.sourceId && duplicates.has(source.sourceId))) {
+        return { ...planned, action: 'skip', skipReason: 'Already in the calendar', errors: [] };
+      }
+
+      if (planned.action === 'create_post') {
+        if (!platform) {
+          errors.push('Platform is required for scheduled posts');
+        } else if (platform in Platform) {
+          const account = socialAccounts.find(candidate =>
+            candidate.platform === platform && (!source.handle || candidate.handle.replace(/^@/, '') === source.handle)
+          );
+          if (account) {
+            planned.socialAccountId = account.id;
+          } else {
+            errors.push(source.handle
+              ? `No active ${platform} account @${source.handle}`
+              : `No active ${platform} account`);
+          }
+        }
+        if (source.startTime && source.startTime <= now) {
+          errors.push('Scheduled posts must start in the future');
+        }
+      }
+
+      return planned;
+    });
+  }
+
+  /**
+   * Import keys and source IDs that are already in the organization's calendar
+   */
+  private async findExisting(organizationId: string, rows: ParsedRow[]): Promise<Set<string>> {
+    const sourceIds = rows.map(row => row.sourceId).filter((id): id is string => Boolean(id));
+    const startTimes = rows.map(row => row.startTime).filter((time): time is Date => Boolean(time));
+    if (startTimes.length === 0) {
+      return new Set();
+    }
+
+    const rangeStart = new Date(Math.min(...startTimes.map(time => time.getTime())));
+    const rangeEnd = new Date(Math.max(...startTimes.map(time => time.getTime())));
+
+    const [events, posts] = await Promise.all([
+      this.prisma.calendarEvent.findMany({
+        where: {
+          organizationId,
+          OR: [
+            { id: { in: sourceIds } },
+            { startTime: { gte: rangeStart, lte: rangeEnd } },
+          ],
+        },
+        select: { id: true, metadata: true },
+      }),
+      this.prisma.scheduledPost.findMany({
+        where: {
+          organizationId,
+          OR: [
+            { id: { in: sourceIds } },
+            { idempotencyKey: { startsWith: `import:${organizationId}:` }, scheduledAt: { gte: rangeStart, lte: rangeEnd } },
+          ],
+        },
+        select: { id: true, idempotencyKey: true },
+      }),
+    ]);
+
+    const existing = new Set<string>();
+    for (const event of events) {
+      existing.add(event.id);
+      const importKey = (event.metadata as Record<string, unknown> | null)?.importKey;
+      if (typeof importKey === 'string') {
+        existing.add(importKey);
+      }
+    }
+    for (const post of posts) {
+      existing.add(post.id);
+      existing.add(post.idempotencyKey);
+    }
+    return existing;
+  }
+
+  private async createRows(db: PrismaClient, request: ImportRequest, rows: PlannedRow[]): Promise<ScheduledPost[]> {
+    const { organizationId, timeZone, format } = request;
+    const posts: ScheduledPost[] = [];
+
+    for (const row of rows) {
+      const { source } = row;
+      const metadata = { importKey: row.importKey, importedFrom: format, sourceId: source.sourceId };
+
+      if (row.action === 'create_post') {
+        const contentTitle = row.title.replace(/^Post:\s*/, '');
+        const contentPiece = await db.contentPiece.create({
+          data: {
+            organizationId,
+            platform: row.platform!,
+            status: ContentStatus.SCHEDULED,
+            title: contentTitle,
+            body: source.description || contentTitle,
+            hashtags: [],
+            mentions: [],
+            scheduledAt: source.startTime,
+          },
+        });
+
+        const scheduledPost = await db.scheduledPost.create({
+          data: {
+            organizationId,
+            contentPieceId: contentPiece.id,
+            socialAccountId: row.socialAccountId!,
+            scheduledAt: source.startTime!,
+            status: PostStatus.SCHEDULED,
+            idempotencyKey: row.importKey,
+          },
+        });
+        posts.push(scheduledPost);
+
+        await db.calendarEvent.create({
+          data: {
+            organizationId,
+            title: `Post: ${contentTitle}`,
+            description: source.description,
+            eventType: EventType.POST_SCHEDULED,
+            status: EventStatus.ACTIVE,
+            startTime: source.startTime!,
+            endTime: source.endTime,
+            timeZone,
+            tags: source.tags.length > 0 ? source.tags : [row.platform!.toLowerCase()],
+            metadata: { ...metadata, scheduledPostId: scheduledPost.id, platform: row.platform },
+            scheduledPostId: scheduledPost.id,
+            contentPieceId: contentPiece.id,
+          },
+        });
+      } else {
+        await db.calendarEvent.create({
+          data: {
+            organizationId,
+            title: row.title,
+            description: source.description,
+            eventType: row.eventType!,
+            status: EventStatus.ACTIVE,
+            startTime: source.startTime!,
+            endTime: source.endTime,
+            timeZone,
+            isAllDay: source.isAllDay,
+            tags: source.tags,
+            metadata,
+          },
+        });
+      }
+    }
+
+    return posts;
+  }
+
+  /**
+   * Run conflict detection over the days touched by imported posts and keep
+   * the conflicts that involve them
+   */
+  private async detectImportConflicts(
+    db: PrismaClient,
+    organizationId: string,
+    rows: PlannedRow[],
+    postIds: string[]
+  ): Promise<DetectedConflict[]> {
+    if (postIds.length === 0) {
+      return [];
+    }
+
+    const times = rows
+      .filter(row => row.action === 'create_post')
+      .map(row => row.source.startTime!.getTime());
+
+    const conflicts = await new SchedulingService(db).detectSchedulingConflicts({
+      organizationId,
+      timeRange: {
+        start: startOfDay(new Date(Math.min(...times))),
+        end: endOfDay(new Date(Math.max(...times))),
+      },
+      checkTypes: [ConflictType.TIME_OVERLAP, ConflictType.PLATFORM_LIMIT, ConflictType.CONTENT_SIMILAR],
+    });
+
+    const imported = new Set(postIds);
+    return conflicts.filter(conflict => conflict.relatedPosts.some(id => imported.has(id)));
+  }
+
+  private parseCSVTime(value: string | undefined, timeZone: string): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(value);
+    const time = hasOffset ? parseISO(value) : zonedTimeToUtc(value, timeZone);
+    return isValid(time) ? time : undefined;
+  }
+
+  /**
+   * Split export locations such as "TWITTER - @aipromote"
+   */
+  private parseLocation(location: string | undefined): { platform: string; handle: string } | undefined {
+    const match = location?.trim().match(LOCATION_PATTERN);
+    return match ? { platform: match[1], handle: match[2] } : undefined;
+  }
+
+  /**
+   * node-ical returns `{ params, val }` for text properties with parameters
+   */
+  private text(value: unknown): string | undefined {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (value && typeof value === 'object' && 'val' in value) {
+      return String((value as { val: unknown }).val);
+    }
+    return undefined;
+  }
+
+  private categories(value: unknown): string[] {
+    const values = Array.isArray(value) ? value : value ? [value] : [];
+    return values.map(category => this.text(category)).filter((category): category is string => Boolean(category));
+  }
+}
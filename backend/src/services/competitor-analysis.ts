@@ -1,6 +1,5 @@
-import { PrismaClient, Platform } from '@prisma/client';
-import { TwitterService } from './twitter-api';
-import { LinkedInService } from './linkedin-api';
+import { PrismaClient, Platform, CompetitorSnapshot } from '@prisma/client';
+import { CompetitorTrackingService } from './competitor-tracking';
 
 export interface CompetitorData {
   name: string;
@@ -106,9 +105,11 @@ export interface MarketPosition {
 
 export class CompetitorAnalysisService {
   private prisma: PrismaClient;
+  private competitorTracking: CompetitorTrackingService;
 
-  constructor(prisma: PrismaClient) {
+  constructor(prisma: PrismaClient, competitorTracking = new CompetitorTrackingService(prisma)) {
     this.prisma = prisma;
+    this.competitorTracking = competitorTracking;
   }
 
   /**
@@ -123,7 +124,7 @@ export class CompetitorAnalysisService {
     includeContentAnalysis: boolean;
   }): Promise<CompetitorAnalysisResult> {
     try {
-      const { organizationId, competitors, platforms, startDate, endDate, includeContentAnalysis } = options;
+      const { organizationId, competitors, platforms, startDate, endDate } = options;
 
       // Get organization's metrics
       const organizationMetrics = await this.getOrganizationMetrics(organizationId, platforms, startDate, endDate);
@@ -137,13 +138,7 @@ export class CompetitorAnalysisService {
       // Analyze each competitor
       const competitorAnalyses = await Promise.all(
         competitors.map(async (competitor) => {
-          const competitorMetrics = await this.getCompetitorMetrics(
-            competitor, 
-            platforms, 
-            startDate, 
-            endDate, 
-            includeContentAnalysis
-          );
+          const competitorMetrics = await this.getCompetitorMetrics(organizationId, competitor, platforms);
 
           const comparison = this.generateComparison(organizationMetrics, competitorMetrics);
 
@@ -177,39 +172,26 @@ export class CompetitorAnalysisService {
   }
 
   /**
-   * Get competitor metrics from external APIs
+   * Get competitor metrics from tracked snapshots, collecting fresh ones
+   * where a provider covers the platform. Individual posts are not stored,
+   * so `recent_posts` and `content_themes` are empty.
    */
   private async getCompetitorMetrics(
+    organizationId: string,
     competitor: CompetitorData,
-    platforms: Platform[],
-    startDate: Date,
-    endDate: Date,
-    includeContentAnalysis: boolean
+    platforms: Platform[]
   ): Promise<CompetitorMetrics[]> {
     const metrics: CompetitorMetrics[] = [];
 
     for (const platform of platforms) {
-      const handle = competitor.handles[platform.toLowerCase()];
+      const handle = competitor.handles[platform] ?? competitor.handles[platform.toLowerCase()];
       if (!handle) continue;
 
       try {
-        let platformMetrics: CompetitorMetrics;
-
-        switch (platform) {
-          case Platform.TWITTER:
-            platformMetrics = await this.getTwitterCompetitorMetrics(handle, startDate, endDate, includeContentAnalysis);
-            break;
-          case Platform.LINKEDIN:
-            platformMetrics = await this.getLinkedInCompetitorMetrics(handle, startDate, endDate, includeContentAnalysis);
-            break;
-          case Platform.INSTAGRAM:
-            platformMetrics = await this.getInstagramCompetitorMetrics(handle, startDate, endDate, includeContentAnalysis);
-            break;
-          default:
-            continue;
+        const snapshot = await this.competitorTracking.currentSnapshot(organizationId, { name: competitor.name, platform, handle });
+        if (snapshot) {
+          metrics.push(this.snapshotMetrics(platform, handle, snapshot));
         }
-
-        metrics.push(platformMetrics);
       } catch (error) {
         console.error(`Failed to get metrics for ${competitor.name} on ${platform}:`, error);
         // Continue with other platforms
@@ -279,118 +261,23 @@ export class CompetitorAnalysisService {
     return metrics;
   }
 
-  /**
-   * Get Twitter competitor metrics
-   */
-  private async getTwitterCompetitorMetrics(
-    handle: string,
-    startDate: Date,
-    endDate: Date,
-    includeContent: boolean
-  ): Promise<CompetitorMetrics> {
-    // This would use Twitter API v2 to get public metrics
-    // For now, returning mock data
+  private snapshotMetrics(platform: Platform, handle: string, snapshot: CompetitorSnapshot): CompetitorMetrics {
     return {
-      platform: Platform.TWITTER,
-      handle: handle,
+      platform,
+      handle: handle.replace(/^@/, ''),
       metrics: {
-        followers_count: 12500,
-        following_count: 850,
-        posts_count: 1200,
-        avg_engagement_rate: 2.8,
-        avg_likes: 45,
-        avg_comments: 8,
-        avg_shares: 12,
-        posting_frequency: 3.2,
-        top_hashtags: ['#startups', '#tech', '#ai', '#growth', '#marketing'],
-        content_themes: ['Product Updates', 'Industry News', 'Thought Leadership'],
+        followers_count: snapshot.followersCount,
+        following_count: snapshot.followingCount || 0,
+        posts_count: snapshot.postsCount || 0,
+        avg_engagement_rate: snapshot.engagementRate || 0,
+        avg_likes: snapshot.avgLikes,
+        avg_comments: snapshot.avgComments,
+        avg_shares: snapshot.avgShares,
+        posting_frequency: snapshot.postsPerWeek / 7,
+        top_hashtags: snapshot.topHashtags,
+        content_themes: [],
       },
-      recent_posts: includeContent ? [
-        {
-          id: 'tweet-123',
-          content: 'Excited to announce our latest feature...',
-          engagement: { likes: 67, comments: 12, shares: 23 },
-          published_at: new Date(),
-          hashtags: ['#product', '#announcement'],
-          content_type: 'text',
-        },
-      ] : [],
-    };
-  }
-
-  /**
-   * Get LinkedIn competitor metrics
-   */
-  private async getLinkedInCompetitorMetrics(
-    handle: string,
-    startDate: Date,
-    endDate: Date,
-    includeContent: boolean
-  ): Promise<CompetitorMetrics> {
-    // This would use LinkedIn API to get public company/profile metrics
-    return {
-      platform: Platform.LINKEDIN,
-      handle: handle,
-      metrics: {
-        followers_count: 8900,
-        following_count: 1200,
-        posts_count: 890,
-        avg_engagement_rate: 4.2,
-        avg_likes: 78,
-        avg_comments: 15,
-        avg_shares: 22,
-        posting_frequency: 2.1,
-        top_hashtags: ['#leadership', '#business', '#innovation', '#networking'],
-        content_themes: ['Leadership Insights', 'Company Culture', 'Industry Trends'],
-      },
-      recent_posts: includeContent ? [
-        {
-          id: 'post-456',
-          content: 'Leadership lessons from our recent quarter...',
-          engagement: { likes: 89, comments: 18, shares: 31 },
-          published_at: new Date(),
-          hashtags: ['#leadership', '#growth'],
-          content_type: 'article',
-        },
-      ] : [],
-    };
-  }
-
-  /**
-   * Get Instagram competitor metrics
-   */
-  private async getInstagramCompetitorMetrics(
-    handle: string,
-    startDate: Date,
-    endDate: Date,
-    includeContent: boolean
-  ): Promise<CompetitorMetrics> {
-    // This would use Instagram Basic Display API or Instagram Graph API
-    return {
-      platform: Platform.INSTAGRAM,
-      handle: handle,
-      metrics: {
-        followers_count: 25600,
-        following_count: 450,
-        posts_count: 2100,
-        avg_engagement_rate: 3.5,
-        avg_likes: 120,
-        avg_comments: 18,
-        avg_shares: 5,
-        posting_frequency: 1.8,
-        top_hashtags: ['#design', '#creative', '#brand', '#visual', '#inspiration'],
-        content_themes: ['Visual Content', 'Behind the Scenes', 'Product Showcases'],
-      },
-      recent_posts: includeContent ? [
-        {
-          id: 'post-789',
-          content: 'New design inspiration from our team...',
-          engagement: { likes: 156, comments: 24, shares: 8 },
-          published_at: new Date(),
-          hashtags: ['#design', '#creative'],
-          content_type: 'image',
-        },
-      ] : [],
+      recent_posts: [],
     };
   }
 
@@ -404,8 +291,9 @@ export class CompetitorAnalysisService {
     const totalEngagements = analytics.reduce((sum, item) => 
       sum + item.likes + item.comments + item.shares, 0
     );
-    const totalImpressions = analytics.reduce((sum, item) => sum + item.impressions, 0);
-    const avgEngagementRate = totalImpressions > 0 ? (totalEngagements / totalImpressions) * 100 : 0;
+    // Per post as a percentage of followers, as in competitor snapshots
+    const followers = socialAccount.followersCount || 0;
+    const avgEngagementRate = analytics.length > 0 && followers > 0 ? (totalEngagements / analytics.length / followers) * 100 : 0;
 
     // Extract hashtags from content
     const allHashtags = analytics
@@ -0,0 +1,86 @@
+import { Platform } from '@prisma/client';
+import { TweetV2 } from 'twitter-api-v2';
+import { config } from '../config/config';
+import { TwitterService } from './twitter-api';
+
+export interface CompetitorPost {
+  publishedAt: Date;
+  likes: number;
+  comments: number;
+  shares: number;
+  hashtags: string[];
+}
+
+/**
+ * Public metrics for an account, with its recent posts
+ */
+export interface CompetitorProfile {
+  followersCount: number;
+  followingCount?: number;
+  postsCount?: number; // Lifetime posts on the account
+  posts: CompetitorPost[];
+}
+
+/**
+ * Source of public metrics for competitor accounts. Providers only fetch;
+ * summarizing posts into snapshots and scheduling live in
+ * CompetitorTrackingService. Platforms without a provider are tracked by
+ * uploading snapshots.
+ */
+export interface CompetitorMetricsProvider {
+  readonly name: string;
+  supports(platform: Platform): boolean;
+  isConfigured(): boolean;
+  fetchProfile(handle: string, since: Date): Promise<CompetitorProfile>;
+}
+
+// The most the user timeline endpoint returns in one page
+const TWITTER_MAX_RESULTS = 100;
+
+/**
+ * Public Twitter metrics through the app-only API
+ */
+export class TwitterCompetitorProvider implements CompetitorMetricsProvider {
+  readonly name = 'twitter';
+
+  constructor(private createClient: () => TwitterService = () => new TwitterService()) {}
+
+  supports(platform: Platform): boolean {
+    return platform === Platform.TWITTER;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(config.social.twitter.bearerToken);
+  }
+
+  async fetchProfile(handle: string, since: Date): Promise<CompetitorProfile> {
+    const client = this.createClient();
+    const user = await client.getUserByUsername(handle);
+    const tweets = await client.getUserTweets(user.id, { maxResults: TWITTER_MAX_RESULTS, startTime: since });
+
+    return {
+      followersCount: user.public_metrics?.followers_count ?? 0,
+      followingCount: user.public_metrics?.following_count,
+      postsCount: user.public_metrics?.tweet_count,
+      // Retweets carry the original tweet's metrics, so only the account's own posts count
+      posts: tweets
+        .filter(tweet => !tweet.referenced_tweets?.some(reference => reference.type === 'retweeted'))
+        .map(tweet => this.toPost(tweet)),
+    };
+  }
+
+  private toPost(tweet: TweetV2): CompetitorPost {
+    const metrics = tweet.public_metrics;
+    return {
+      publishedAt: new Date(tweet.created_at!),
+      likes: metrics?.like_count ?? 0,
+      comments: metrics?.reply_count ?? 0,
+      shares: (metrics?.retweet_count ?? 0) + (metrics?.quote_count ?? 0),
+      hashtags: (tweet.entities?.hashtags || []).map(hashtag => hashtag.tag.toLowerCase()),
+    };
+  }
+}
+
+export function defaultCompetitorProviders(): CompetitorMetricsProvider[] {
+  return [new TwitterCompetitorProvider()];
+}
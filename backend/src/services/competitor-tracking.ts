@@ -0,0 +1,759 @@
+import { PrismaClient, Platform, Competitor, CompetitorSnapshot, CompetitorAlert } from '@prisma/client';
+import { differenceInDays, isValid, parseISO, subDays, subHours } from 'date-fns';
+import { parse as parseCSV } from 'csv-parse/sync';
+import { CompetitorMetricsProvider, CompetitorProfile, defaultCompetitorProviders } from './competitor-providers';
+import { ValidationError } from '../utils/errors';
+
+export type CompetitorSource = 'api' | 'manual';
+export type CompetitorAlertKind = 'cadence' | 'engagement';
+
+export interface TrackCompetitorRequest {
+  organizationId: string;
+  name: string;
+  platform: Platform;
+  handle: string;
+  source?: CompetitorSource;
+}
+
+export interface SnapshotUpload {
+  format: 'CSV' | 'JSON';
+  content: string;
+}
+
+export interface SnapshotImportResult {
+  imported: number;
+  alerts: CompetitorAlert[];
+}
+
+export interface CollectionSummary {
+  collected: number;
+  failed: number;
+  alerts: number;
+}
+
+/**
+ * The organization's own numbers, defined the same way as a competitor
+ * snapshot so the two can be compared
+ */
+export interface OrganizationPlatformMetrics {
+  platform: Platform;
+  handles: string[];
+  followersCount: number;
+  posts: number;
+  postsPerWeek: number;
+  avgLikes: number;
+  avgComments: number;
+  avgShares: number;
+  engagementRate: number | null;
+}
+
+export interface TrendChange {
+  first: number;
+  last: number;
+  change: number;
+  changePercent: number | null; // null when the first value is zero
+}
+
+export interface CompetitorTrend {
+  competitor: Competitor;
+  latest: CompetitorSnapshot | null;
+  series: Array<{
+    date: Date;
+    followersCount: number;
+    postsPerWeek: number;
+    engagementRate: number | null;
+  }>;
+  changes: {
+    followers: TrendChange | null;
+    postsPerWeek: TrendChange | null;
+    engagementRate: TrendChange | null;
+  };
+}
+
+export interface CompetitorTrends {
+  period: { start: Date; end: Date };
+  competitors: CompetitorTrend[];
+  organization: OrganizationPlatformMetrics[];
+}
+
+// A CompetitorSnapshot before it is stored
+interface SnapshotValues {
+  collectedAt: Date;
+  source: string;
+  followersCount: number;
+  followingCount: number | null;
+  postsCount: number | null;
+  sampledPosts: number;
+  postsPerWeek: number;
+  avgLikes: number;
+  avgComments: number;
+  avgShares: number;
+  engagementRate: number | null;
+  topHashtags: string[];
+}
+
+interface PlatformPostEngagement {
+  platform: Platform;
+  posts: number;
+  avgLikes: number;
+  avgComments: number;
+  avgShares: number;
+}
+
+// Posts in this trailing window make up a snapshot's cadence and engagement
+const SAMPLE_WINDOW_DAYS = 28;
+// Newer posts are still collecting engagement, so they only count towards cadence
+const ENGAGEMENT_SETTLE_HOURS = 24;
+const TOP_HASHTAGS = 10;
+// The worker runs daily; a little slack keeps a slow run from skipping a day
+const COLLECTION_INTERVAL_HOURS = 20;
+// Snapshots older than this are refreshed before an on-demand analysis
+const STALE_SNAPSHOT_HOURS = 24;
+
+// Alerts compare a snapshot with the median of the previous four weeks
+const BASELINE_DAYS = 28;
+const MIN_BASELINE_SNAPSHOTS = 2;
+const ALERT_CHANGE_PERCENT = 50;
+// Below these, a 50% swing is noise: one extra post, or a rate near zero
+const MIN_ALERT_CHANGE: Record<CompetitorAlertKind, number> = {
+  cadence: 1, // Posts per week
+  engagement: 0.2, // Percentage points
+};
+const ALERT_COOLDOWN_DAYS = 7;
+
+const MAX_TREND_DAYS = 365;
+const MAX_UPLOAD_ROWS = 1000;
+
+const PLATFORM_NAMES: Record<Platform, string> = {
+  TWITTER: 'Twitter',
+  LINKEDIN: 'LinkedIn',
+  INSTAGRAM: 'Instagram',
+  TIKTOK: 'TikTok',
+  YOUTUBE_SHORTS: 'YouTube Shorts',
+  REDDIT: 'Reddit',
+  FACEBOOK: 'Facebook',
+  THREADS: 'Threads',
+};
+
+/**
+ * Competitor accounts tracked over time.
+ *
+ * Each collection stores a CompetitorSnapshot of public metrics, either
+ * fetched through a CompetitorMetricsProvider or uploaded by hand for
+ * platforms without one. Cadence and engagement in a snapshot cover the
+ * posts from the trailing four weeks. New snapshots are compared with the
+ * previous four weeks and raise a CompetitorAlert when either moves sharply.
+ */
+export class CompetitorTrackingService {
+  constructor(
+    private prisma: PrismaClient,
+    private providers: CompetitorMetricsProvider[] = defaultCompetitorProviders()
+  ) {}
+
+  /**
+   * Start tracking an account, or pick it up again after it was untracked
+   */
+  async track(request: TrackCompetitorRequest): Promise<Competitor> {
+    const name = request.name.trim();
+    const handle = this.normalizeHandle(request.handle);
+    if (!name) {
+      throw new ValidationError('A competitor name is required', 'name', request.name);
+    }
+    if (!handle) {
+      throw new ValidationError('A handle is required', 'handle', request.handle);
+    }
+
+    return this.prisma.competitor.upsert({
+      where: {
+        organizationId_platform_handle: { organizationId: request.organizationId, platform: request.platform, handle },
+      },
+      create: {
+        organizationId: request.organizationId,
+        name,
+        platform: request.platform,
+        handle,
+        source: request.source || 'api',
+      },
+      update: {
+        name,
+        isActive: true,
+        ...(request.source && { source: request.source }),
+      },
+    });
+  }
+
+  /**
+   * Tracked accounts with their latest snapshot
+   */
+  async list(organizationId: string): Promise<Array<Competitor & { latest: CompetitorSnapshot | null }>> {
+    const competitors = await this.prisma.competitor.findMany({
+      where: { organizationId, isActive: true },
+      include: { snapshots: { orderBy: { collectedAt: 'desc' }, take: 1 } },
+      orderBy: [{ name: 'asc' }, { platform: 'asc' }],
+    });
+
+    return competitors.map(({ snapshots, ...competitor }) => ({ ...competitor, latest: snapshots[0] || null }));
+  }
+
+  /**
+   * Stop collecting for an account. Its history is kept. Resolves to false
+   * when the competitor does not exist in the organization.
+   */
+  async untrack(organizationId: string, competitorId: string): Promise<boolean> {
+    const { count } = await this.prisma.competitor.updateMany({
+      where: { id: competitorId, organizationId },
+      data: { isActive: false },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Fetch and store a snapshot through the platform's provider. Resolves to
+   * null when no configured provider covers the platform. Failures are
+   * recorded on the competitor before being rethrown.
+   */
+  async collect(competitor: Competitor, now: Date = new Date()): Promise<CompetitorSnapshot | null> {
+    const collected = await this.collectWithAlerts(competitor, now);
+    return collected?.snapshot || null;
+  }
+
+  /**
+   * Collect every account that a provider covers and that has not been
+   * collected in the last day
+   */
+  async collectDue(now: Date = new Date()): Promise<CollectionSummary> {
+    const platforms = Object.values(Platform).filter(platform => this.providerFor(platform));
+    const due = await this.prisma.competitor.findMany({
+      where: {
+        isActive: true,
+        source: 'api',
+        platform: { in: platforms },
+        OR: [{ lastCollectedAt: null }, { lastCollectedAt: { lt: subHours(now, COLLECTION_INTERVAL_HOURS) } }],
+      },
+      orderBy: { lastCollectedAt: { sort: 'asc', nulls: 'first' } },
+    });
+
+    const summary: CollectionSummary = { collected: 0, failed: 0, alerts: 0 };
+    // One at a time to stay inside the platforms' rate limits
+    for (const competitor of due) {
+      try {
+        const collected = await this.collectWithAlerts(competitor, now);
+        if (collected) {
+          summary.collected++;
+          summary.alerts += collected.alerts.length;
+        }
+      } catch (error) {
+        console.error(`Competitor collection failed for ${competitor.id}:`, error);
+        summary.failed++;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Store snapshots from a CSV or JSON upload. Columns (or keys) are `date`
+   * and `followers`, plus optional `following`, `posts`, `posts_per_week`,
+   * `avg_likes`, `avg_comments`, `avg_shares` and `hashtags`. Only the newest
+   * row can raise alerts; older rows fill in history. Resolves to null when
+   * the competitor does not exist in the organization.
+   */
+  async importSnapshots(
+    organizationId: string,
+    competitorId: string,
+    upload: SnapshotUpload,
+    now: Date = new Date()
+  ): Promise<SnapshotImportResult | null> {
+    const rows = this.parseUpload(upload, now);
+
+    const competitor = await this.prisma.competitor.findFirst({ where: { id: competitorId, organizationId } });
+    if (!competitor) {
+      return null;
+    }
+
+    await this.prisma.competitorSnapshot.createMany({
+      data: rows.map(row => ({ competitorId, ...row })),
+    });
+
+    const newest = rows[rows.length - 1];
+    if (competitor.lastCollectedAt && competitor.lastCollectedAt >= newest.collectedAt) {
+      return { imported: rows.length, alerts: [] };
+    }
+
+    await this.prisma.competitor.update({
+      where: { id: competitorId },
+      data: { lastCollectedAt: newest.collectedAt, lastError: null },
+    });
+    const alerts = await this.detectAlerts(competitor, newest, now);
+
+    return { imported: rows.length, alerts };
+  }
+
+  /**
+   * Snapshot series for every tracked account over the last `days`, with the
+   * change from the first snapshot to the last and the organization's own
+   * current numbers on the same platforms
+   */
+  async trends(
+    organizationId: string,
+    options: { days?: number; platform?: Platform; now?: Date } = {}
+  ): Promise<CompetitorTrends> {
+    const days = options.days ?? 90;
+    const now = options.now || new Date();
+    if (!Number.isInteger(days) || days < 1 || days > MAX_TREND_DAYS) {
+      throw new ValidationError(`days must be between 1 and ${MAX_TREND_DAYS}`, 'days', days);
+    }
+    const start = subDays(now, days);
+
+    const competitors = await this.prisma.competitor.findMany({
+      where: { organizationId, isActive: true, ...(options.platform && { platform: options.platform }) },
+      include: { snapshots: { where: { collectedAt: { gte: start, lte: now } }, orderBy: { collectedAt: 'asc' } } },
+      orderBy: [{ name: 'asc' }, { platform: 'asc' }],
+    });
+
+    const platforms = [...new Set(competitors.map(competitor => competitor.platform))];
+    const organization = platforms.length > 0
+      ? await this.organizationMetrics(organizationId, platforms, subDays(now, SAMPLE_WINDOW_DAYS), now)
+      : [];
+
+    return {
+      period: { start, end: now },
+      competitors: competitors.map(({ snapshots, ...competitor }) => {
+        const first = snapshots[0];
+        const last = snapshots[snapshots.length - 1];
+
+        return {
+          competitor,
+          latest: last || null,
+          series: snapshots.map(snapshot => ({
+            date: snapshot.collectedAt,
+            followersCount: snapshot.followersCount,
+            postsPerWeek: snapshot.postsPerWeek,
+            engagementRate: snapshot.engagementRate,
+          })),
+          changes: {
+            followers: first ? this.trendChange(first.followersCount, last.followersCount) : null,
+            postsPerWeek: first ? this.trendChange(first.postsPerWeek, last.postsPerWeek) : null,
+            engagementRate: first?.engagementRate != null && last.engagementRate != null
+              ? this.trendChange(first.engagementRate, last.engagementRate)
+              : null,
+          },
+        };
+      }),
+      organization,
+    };
+  }
+
+  /**
+   * The latest snapshot, collecting a new one first when it is more than a
+   * day old and a provider covers the platform. Starts tracking the account
+   * when it is not tracked yet. Collection failures fall back to the stored
+   * snapshot.
+   */
+  async currentSnapshot(
+    organizationId: string,
+    account: { name: string; platform: Platform; handle: string },
+    now: Date = new Date()
+  ): Promise<CompetitorSnapshot | null> {
+    const competitor = await this.track({ organizationId, ...account });
+    const latest = await this.prisma.competitorSnapshot.findFirst({
+      where: { competitorId: competitor.id },
+      orderBy: { collectedAt: 'desc' },
+    });
+
+    if (competitor.source === 'api' && (!latest || latest.collectedAt < subHours(now, STALE_SNAPSHOT_HOURS))) {
+      try {
+        return (await this.collect(competitor, now)) || latest;
+      } catch (error) {
+        console.error(`Using stored snapshot for @${competitor.handle}:`, error);
+      }
+    }
+
+    return latest;
+  }
+
+  /**
+   * Each tracked account with its latest snapshot taken at or before `at`
+   */
+  async snapshotsAt(
+    organizationId: string,
+    at: Date,
+    platforms?: Platform[]
+  ): Promise<Array<{ competitor: Competitor; snapshot: CompetitorSnapshot }>> {
+    const competitors = await this.prisma.competitor.findMany({
+      where: {
+        organizationId,
+        isActive: true,
+        ...(platforms && platforms.length > 0 && { platform: { in: platforms } }),
+      },
+      include: { snapshots: { where: { collectedAt: { lte: at } }, orderBy: { collectedAt: 'desc' }, take: 1 } },
+    });
+
+    return competitors
+      .filter(competitor => competitor.snapshots.length > 0)
+      .map(({ snapshots, ...competitor }) => ({ competitor, snapshot: snapshots[0] }));
+  }
+
+  /**
+   * Cadence and per-post engagement of the organization's posts published in
+   * the window, using each post's latest engagement totals. The engagement
+   * rate is average engagements per post as a percentage of followers, as
+   * for competitors.
+   */
+  async organizationMetrics(
+    organizationId: string,
+    platforms: Platform[],
+    startDate: Date,
+    endDate: Date
+  ): Promise<OrganizationPlatformMetrics[]> {
+    const [accounts, rows] = await Promise.all([
+      this.prisma.socialAccount.findMany({
+        where: { organizationId, isActive: true, platform: { in: platforms } },
+        select: { platform: true, handle: true, followersCount: true },
+      }),
+      this.prisma.$queryRaw<PlatformPostEngagement[]>`
+        WITH posts AS (
+          SELECT sp."id", sa."platform"::text AS "platform"
+          FROM "public"."scheduled_posts" sp
+          JOIN "public"."social_accounts" sa ON sa."id" = sp."socialAccountId"
+          WHERE sp."organizationId" = ${organizationId}
+            AND sp."status" = 'PUBLISHED'
+            AND sp."publishedAt" BETWEEN ${startDate} AND ${endDate}
+            AND sa."platform"::text = ANY(${platforms}::text[])
+        ),
+        latest AS (
+          SELECT DISTINCT ON (a."scheduledPostId") a."scheduledPostId", a."likes", a."comments", a."shares"
+          FROM "public"."analytics" a
+          JOIN posts p ON p."id" = a."scheduledPostId"
+          WHERE a."metricType" = 'ENGAGEMENT' AND a."collectedAt" <= ${endDate}
+          ORDER BY a."scheduledPostId", a."collectedAt" DESC
+        )
+        SELECT
+          p."platform",
+          COUNT(*)::int AS "posts",
+          COALESCE(AVG(l."likes"), 0)::float8 AS "avgLikes",
+          COALESCE(AVG(l."comments"), 0)::float8 AS "avgComments",
+          COALESCE(AVG(l."shares"), 0)::float8 AS "avgShares"
+        FROM posts p
+        LEFT JOIN latest l ON l."scheduledPostId" = p."id"
+        GROUP BY p."platform"`,
+    ]);
+
+    const weeks = Math.max(differenceInDays(endDate, startDate), 1) / 7;
+    const rowsByPlatform = new Map<Platform, PlatformPostEngagement>(rows.map(row => [row.platform, row]));
+
+    return platforms
+      .filter(platform => accounts.some(account => account.platform === platform))
+      .map(platform => {
+        const platformAccounts = accounts.filter(account => account.platform === platform);
+        const followersCount = platformAccounts.reduce((sum, account) => sum + (account.followersCount || 0), 0);
+        const row = rowsByPlatform.get(platform);
+        const posts = row?.posts || 0;
+        const avgLikes = this.round(row?.avgLikes || 0);
+        const avgComments = this.round(row?.avgComments || 0);
+        const avgShares = this.round(row?.avgShares || 0);
+
+        return {
+          platform,
+          handles: platformAccounts.map(account => account.handle),
+          followersCount,
+          posts,
+          postsPerWeek: this.round(posts / weeks),
+          avgLikes,
+          avgComments,
+          avgShares,
+          engagementRate: this.engagementRate(avgLikes + avgComments + avgShares, followersCount, posts),
+        };
+      });
+  }
+
+  async listAlerts(
+    organizationId: string,
+    options: { includeAcknowledged?: boolean; limit?: number } = {}
+  ): Promise<Array<CompetitorAlert & { competitor: Pick<Competitor, 'name' | 'platform' | 'handle'> }>> {
+    return this.prisma.competitorAlert.findMany({
+      where: { organizationId, ...(!options.includeAcknowledged && { acknowledgedAt: null }) },
+      include: { competitor: { select: { name: true, platform: true, handle: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? 50,
+    });
+  }
+
+  /**
+   * Resolves to null when the alert does not exist in the organization
+   */
+  async acknowledgeAlert(organizationId: string, alertId: string, now: Date = new Date()): Promise<CompetitorAlert | null> {
+    const alert = await this.prisma.competitorAlert.findFirst({ where: { id: alertId, organizationId } });
+    if (!alert || alert.acknowledgedAt) {
+      return alert;
+    }
+
+    return this.prisma.competitorAlert.update({
+      where: { id: alertId },
+      data: { acknowledgedAt: now },
+    });
+  }
+
+  private async collectWithAlerts(
+    competitor: Competitor,
+    now: Date
+  ): Promise<{ snapshot: CompetitorSnapshot; alerts: CompetitorAlert[] } | null> {
+    const provider = this.providerFor(competitor.platform);
+    if (!provider) {
+      return null;
+    }
+
+    let profile: CompetitorProfile;
+    try {
+      profile = await provider.fetchProfile(competitor.handle, subDays(now, SAMPLE_WINDOW_DAYS));
+    } catch (error: any) {
+      await this.prisma.competitor.update({
+        where: { id: competitor.id },
+        data: { lastError: error.message },
+      });
+      throw new Error(`Failed to collect metrics for @${competitor.handle}: ${error.message}`);
+    }
+
+    const snapshot = await this.prisma.competitorSnapshot.create({
+      data: { competitorId: competitor.id, ...this.summarize(profile, provider.name, now) },
+    });
+    await this.prisma.competitor.update({
+      where: { id: competitor.id },
+      data: { lastCollectedAt: now, lastError: null },
+    });
+    const alerts = await this.detectAlerts(competitor, snapshot, now);
+
+    return { snapshot, alerts };
+  }
+
+  /**
+   * Compare a new snapshot's cadence and engagement with the median of the
+   * previous four weeks. An alert of each kind is raised at most once a week
+   * per competitor.
+   */
+  private async detectAlerts(
+    competitor: Competitor,
+    snapshot: { collectedAt: Date; postsPerWeek: number; engagementRate: number | null },
+    now: Date
+  ): Promise<CompetitorAlert[]> {
+    const history = await this.prisma.competitorSnapshot.findMany({
+      where: {
+        competitorId: competitor.id,
+        collectedAt: { gte: subDays(snapshot.collectedAt, BASELINE_DAYS), lt: snapshot.collectedAt },
+      },
+      select: { postsPerWeek: true, engagementRate: true },
+    });
+    if (history.length < MIN_BASELINE_SNAPSHOTS) {
+      return [];
+    }
+
+    const candidates: Array<{ kind: CompetitorAlertKind; baseline: number | null; current: number | null }> = [
+      {
+        kind: 'cadence',
+        baseline: this.median(history.map(entry => entry.postsPerWeek)),
+        current: snapshot.postsPerWeek,
+      },
+      {
+        kind: 'engagement',
+        baseline: this.median(history.map(entry => entry.engagementRate).filter((rate): rate is number => rate !== null)),
+        current: snapshot.engagementRate,
+      },
+    ];
+
+    const alerts: CompetitorAlert[] = [];
+    for (const { kind, baseline, current } of candidates) {
+      if (baseline === null || baseline <= 0 || current === null) {
+        continue;
+      }
+
+      const change = current - baseline;
+      const changePercent = this.round((change / baseline) * 100, 1);
+      if (Math.abs(changePercent) < ALERT_CHANGE_PERCENT || Math.abs(change) < MIN_ALERT_CHANGE[kind]) {
+        continue;
+      }
+
+      const recent = await this.prisma.competitorAlert.findFirst({
+        where: { competitorId: competitor.id, kind, createdAt: { gte: subDays(now, ALERT_COOLDOWN_DAYS) } },
+        select: { id: true },
+      });
+      if (recent) {
+        continue;
+      }
+
+      alerts.push(await this.prisma.competitorAlert.create({
+        data: {
+          organizationId: competitor.organizationId,
+          competitorId: competitor.id,
+          kind,
+          baselineValue: this.round(baseline),
+          currentValue: this.round(current),
+          changePercent,
+          message: this.alertMessage(competitor, kind, baseline, current),
+        },
+      }));
+    }
+
+    return alerts;
+  }
+
+  private alertMessage(competitor: Competitor, kind: CompetitorAlertKind, baseline: number, current: number): string {
+    const account = `${competitor.name} (@${competitor.handle} on ${PLATFORM_NAMES[competitor.platform]})`;
+    const direction = current > baseline ? 'up' : 'down';
+
+    return kind === 'cadence'
+      ? `${account} is posting ${this.round(current, 1)} times a week, ${direction} from ${this.round(baseline, 1)}`
+      : `${account} engagement rate is ${this.round(current)}%, ${direction} from ${this.round(baseline)}%`;
+  }
+
+  /**
+   * Snapshot values from a provider's profile. Posts outside the sample
+   * window are ignored.
+   */
+  private summarize(profile: CompetitorProfile, source: string, now: Date): SnapshotValues {
+    const since = subDays(now, SAMPLE_WINDOW_DAYS);
+    const settledBefore = subHours(now, ENGAGEMENT_SETTLE_HOURS);
+    const posts = profile.posts.filter(post => post.publishedAt >= since && post.publishedAt <= now);
+    const settled = posts.filter(post => post.publishedAt <= settledBefore);
+
+    const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+    const avgLikes = this.round(average(settled.map(post => post.likes)));
+    const avgComments = this.round(average(settled.map(post => post.comments)));
+    const avgShares = this.round(average(settled.map(post => post.shares)));
+
+    const hashtagCounts = new Map<string, number>();
+    for (const hashtag of posts.flatMap(post => post.hashtags)) {
+      hashtagCounts.set(hashtag, (hashtagCounts.get(hashtag) || 0) + 1);
+    }
+
+    return {
+      collectedAt: now,
+      source,
+      followersCount: profile.followersCount,
+      followingCount: profile.followingCount ?? null,
+      postsCount: profile.postsCount ?? null,
+      sampledPosts: posts.length,
+      postsPerWeek: this.round(posts.length / (SAMPLE_WINDOW_DAYS / 7)),
+      avgLikes,
+      avgComments,
+      avgShares,
+      engagementRate: this.engagementRate(avgLikes + avgComments + avgShares, profile.followersCount, settled.length),
+      topHashtags: [...hashtagCounts.entries()]
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, TOP_HASHTAGS)
+        .map(([hashtag]) => hashtag),
+    };
+  }
+
+  /**
+   * Uploaded rows as snapshot values, oldest first
+   */
+  private parseUpload(upload: SnapshotUpload, now: Date): SnapshotValues[] {
+    let records: Array<Record<string, unknown>>;
+    try {
+      records = upload.format === 'CSV'
+        ? parseCSV(upload.content, { columns: true, skip_empty_lines: true, trim: true, bom: true })
+        : JSON.parse(upload.content);
+    } catch (error: any) {
+      throw new ValidationError(`Invalid ${upload.format}: ${error.message}`, 'content');
+    }
+    if (!Array.isArray(records) || records.length === 0) {
+      throw new ValidationError('The upload has no snapshots', 'content');
+    }
+    if (records.length > MAX_UPLOAD_ROWS) {
+      throw new ValidationError(`Uploads are limited to ${MAX_UPLOAD_ROWS} snapshots`, 'content', records.length);
+    }
+
+    const rows = records.map((record, index) => {
+      const row = index + 1;
+      const fields = Object.fromEntries(Object.entries(record || {}).map(([key, value]) => [key.trim().toLowerCase(), value]));
+
+      const collectedAt = typeof fields.date === 'string' ? parseISO(fields.date) : new Date(NaN);
+      if (!isValid(collectedAt) || collectedAt > now) {
+        throw new ValidationError(`Row ${row}: invalid date "${fields.date ?? ''}"`, 'content', fields.date);
+      }
+
+      const followersCount = this.uploadNumber(fields.followers, row, 'followers');
+      if (followersCount === null) {
+        throw new ValidationError(`Row ${row}: followers is required`, 'content');
+      }
+
+      const avgLikes = this.uploadNumber(fields.avg_likes, row, 'avg_likes');
+      const avgComments = this.uploadNumber(fields.avg_comments, row, 'avg_comments');
+      const avgShares = this.uploadNumber(fields.avg_shares, row, 'avg_shares');
+      const hasEngagement = avgLikes !== null || avgComments !== null || avgShares !== null;
+      const engagements = (avgLikes || 0) + (avgComments || 0) + (avgShares || 0);
+      const following = this.uploadNumber(fields.following, row, 'following');
+      const postsCount = this.uploadNumber(fields.posts, row, 'posts');
+
+      return {
+        collectedAt,
+        source: 'upload',
+        followersCount: Math.round(followersCount),
+        followingCount: following === null ? null : Math.round(following),
+        postsCount: postsCount === null ? null : Math.round(postsCount),
+        sampledPosts: 0,
+        postsPerWeek: this.uploadNumber(fields.posts_per_week, row, 'posts_per_week') || 0,
+        avgLikes: avgLikes || 0,
+        avgComments: avgComments || 0,
+        avgShares: avgShares || 0,
+        engagementRate: hasEngagement && followersCount > 0 ? this.round((engagements / followersCount) * 100, 3) : null,
+        topHashtags: this.uploadHashtags(fields.hashtags),
+      };
+    });
+
+    return rows.sort((a, b) => a.collectedAt.getTime() - b.collectedAt.getTime());
+  }
+
+  private uploadNumber(value: unknown, row: number, column: string): number | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+
+    const number = typeof value === 'number' ? value : Number(String(value).replace(/,/g, ''));
+    if (!Number.isFinite(number) || number < 0) {
+      throw new ValidationError(`Row ${row}: ${column} must be a non-negative number`, 'content', value);
+    }
+    return number;
+  }
+
+  private uploadHashtags(value: unknown): string[] {
+    const tags = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(/[\s,;]+/) : [];
+    return [...new Set(tags.map(tag => tag.replace(/^#/, '').trim().toLowerCase()).filter(Boolean))].slice(0, TOP_HASHTAGS);
+  }
+
+  private providerFor(platform: Platform): CompetitorMetricsProvider | undefined {
+    return this.providers.find(provider => provider.supports(platform) && provider.isConfigured());
+  }
+
+  private normalizeHandle(handle: string): string {
+    return handle.trim().replace(/^@/, '');
+  }
+
+  private engagementRate(engagementsPerPost: number, followers: number, posts: number): number | null {
+    return followers > 0 && posts > 0 ? this.round((engagementsPerPost / followers) * 100, 3) : null;
+  }
+
+  private trendChange(first: number, last: number): TrendChange {
+    const change = this.round(last - first);
+    return {
+      first,
+      last,
+      change,
+      changePercent: first !== 0 ? this.round((change / Math.abs(first)) * 100, 1) : null,
+    };
+  }
+
+  private median(values: number[]): number | null {
+    if (values.length === 0) {
+      return null;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  private round(value: number, decimals = 2): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+  }
+}
@@ -0,0 +1,528 @@
+import { PrismaClient, ConflictStatus, ConflictType, EventStatus, Platform, PostStatus, ScheduledPost, SchedulingConflict } from '@prisma/client';
+import { addDays, addHours, addMinutes, format, subDays } from 'date-fns';
+// @ts-ignore - date-fns-tz may not have full type definitions
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  MAX_POSTS_PER_HOUR,
+  PLATFORM_API_QUOTAS,
+  PLATFORM_DAILY_LIMITS,
+  PLATFORM_FATIGUE_THRESHOLDS,
+  findBursts,
+} from './scheduling-service';
+import { PublishingQueueService } from './publishing-queue';
+import { ValidationError } from '../utils/errors';
+
+export type ResolutionStrategy =
+  | 'shift_to_optimal_slot'
+  | 'spread_posts'
+  | 'swap_content'
+  | 'reassign_account'
+  | 'cancel_duplicates';
+
+export type ResolutionChange =
+  | { action: 'reschedule'; scheduledPostId: string; from: Date; to: Date }
+  | { action: 'swap_content'; scheduledPostId: string; from: string; to: string }
+  | { action: 'reassign_account'; scheduledPostId: string; from: string; to: string }
+  | { action: 'cancel'; scheduledPostId: string };
+
+export interface ResolutionProposal {
+  strategy: ResolutionStrategy;
+  description: string;
+  changes: ResolutionChange[];
+}
+
+export interface AppliedResolution extends ResolutionProposal {
+  conflictId: string;
+}
+
+// Which fixes make sense for each kind of conflict, in order of preference
+const STRATEGIES: Record<ConflictType, ResolutionStrategy[]> = {
+  TIME_OVERLAP: ['spread_posts', 'shift_to_optimal_slot'],
+  PLATFORM_LIMIT: ['shift_to_optimal_slot'],
+  CONTENT_SIMILAR: ['swap_content', 'shift_to_optimal_slot'],
+  AUDIENCE_FATIGUE: ['shift_to_optimal_slot'],
+  RATE_LIMIT: ['spread_posts', 'shift_to_optimal_slot'],
+  RESOURCE_CONFLICT: ['reassign_account', 'cancel_duplicates', 'swap_content'],
+};
+
+const PENDING_STATUSES: PostStatus[] = [PostStatus.SCHEDULED, PostStatus.RETRYING];
+const SLOT_SEARCH_DAYS = 14;
+const TOP_OPTIMAL_SLOTS = 10;
+const SIMILAR_CONTENT_GAP_HOURS = 24;
+const MAX_SPREAD_STEPS = 500;
+
+interface PlannedPost {
+  id: string;
+  socialAccountId: string;
+  platform: Platform;
+  scheduledAt: Date;
+}
+
+type ConflictPost = PlannedPost & {
+  status: PostStatus;
+  contentPieceId: string;
+  pillarId: string | null;
+};
+
+/**
+ * Proposes concrete fixes for detected scheduling conflicts and applies them
+ */
+export class ConflictResolver {
+  constructor(
+    private prisma: PrismaClient,
+    private publishingQueue: PublishingQueueService = new PublishingQueueService(prisma)
+  ) {}
+
+  /**
+   * Fixes that would clear the conflict without creating new ones. Resolves
+   * to null when the conflict does not exist.
+   */
+  async proposeResolutions(conflictId: string, now: Date = new Date()): Promise<ResolutionProposal[] | null> {
+    const conflict = await this.prisma.schedulingConflict.findUnique({ where: { id: conflictId } });
+    if (!conflict) {
+      return null;
+    }
+    return this.propose(this.prisma, conflict, now);
+  }
+
+  /**
+   * Apply one proposed fix and mark the conflict resolved. The proposal is
+   * worked out again inside the transaction so it reflects the current
+   * schedule. Resolves to null when the conflict does not exist.
+   */
+  async applyResolution(
+    conflictId: string,
+    strategy: ResolutionStrategy,
+    resolvedBy?: string,
+    now: Date = new Date()
+  ): Promise<AppliedResolution | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const db = tx as PrismaClient;
+      const conflict = await db.schedulingConflict.findUnique({ where: { id: conflictId } });
+      if (!conflict) {
+        return null;
+      }
+      if (conflict.status !== ConflictStatus.ACTIVE) {
+        throw new ValidationError(`Conflict is already ${conflict.status.toLowerCase()}`, 'conflictId', conflictId);
+      }
+
+      const proposal = (await this.propose(db, conflict, now)).find(candidate => candidate.strategy === strategy);
+      if (!proposal) {
+        throw new ValidationError(`No ${strategy} fix is available for this conflict`, 'strategy', strategy);
+      }
+
+      for (const change of proposal.changes) {
+        await this.applyChange(db, change);
+      }
+
+      await db.schedulingConflict.update({
+        where: { id: conflict.id },
+        data: {
+          status: ConflictStatus.RESOLVED,
+          resolution: proposal.description,
+          resolvedBy,
+          resolvedAt: now,
+          metadata: {
+            ...((conflict.metadata as Record<string, any> | null) || {}),
+            appliedStrategy: proposal.strategy,
+            changes: proposal.changes,
+          },
+        },
+      });
+
+      return { conflictId: conflict.id, ...proposal };
+    }, { timeout: 30000 });
+  }
+
+  private async propose(db: PrismaClient, conflict: SchedulingConflict, now: Date): Promise<ResolutionProposal[]> {
+    const posts = await this.loadConflictPosts(db, conflict);
+    if (posts.length === 0) {
+      return [];
+    }
+
+    const metadata = (conflict.metadata as Record<string, any> | null) || {};
+    const proposals: ResolutionProposal[] = [];
+
+    for (const strategy of STRATEGIES[conflict.conflictType]) {
+      const planner = await SlotPlanner.load(db, conflict, posts, now);
+      let proposal: ResolutionProposal | null = null;
+
+      if (strategy === 'shift_to_optimal_slot') {
+        proposal = await this.shiftToOptimalSlots(db, conflict, this.excessPosts(conflict, posts), posts, planner);
+      } else if (strategy === 'spread_posts') {
+        proposal = this.spreadPosts(conflict, posts, planner);
+      } else if (strategy === 'swap_content') {
+        proposal = await this.swapContent(db, conflict, this.excessPosts(conflict, posts), posts);
+      } else if (strategy === 'reassign_account' && metadata.reason === 'account_unavailable') {
+        proposal = await this.reassignAccount(db, conflict, posts);
+      } else if (strategy === 'cancel_duplicates' && metadata.reason === 'duplicate_content') {
+        proposal = this.cancelDuplicates(posts);
+      }
+
+      if (proposal && proposal.changes.length > 0) {
+        proposals.push(proposal);
+      }
+    }
+
+    return proposals;
+  }
+
+  private async loadConflictPosts(db: PrismaClient, conflict: SchedulingConflict): Promise<ConflictPost[]> {
+    const posts = await db.scheduledPost.findMany({
+      where: { id: { in: conflict.relatedPosts }, organizationId: conflict.organizationId },
+      include: { socialAccount: true, contentPiece: true },
+      orderBy: { scheduledAt: 'asc' },
+    });
+
+    return posts.map(post => ({
+      id: post.id,
+      socialAccountId: post.socialAccountId,
+      platform: post.socialAccount.platform,
+      scheduledAt: post.scheduledAt,
+      status: post.status,
+      contentPieceId: post.contentPieceId,
+      pillarId: post.contentPiece.pillarId,
+    }));
+  }
+
+  /**
+   * The latest pending posts, as many as the detector said have to go
+   */
+  private excessPosts(conflict: SchedulingConflict, posts: ConflictPost[]): ConflictPost[] {
+    const metadata = (conflict.metadata as Record<string, any> | null) || {};
+    let excess: number = typeof metadata.excess === 'number' ? metadata.excess : posts.length - 1;
+    if (typeof metadata.excess !== 'number' && conflict.conflictType === ConflictType.TIME_OVERLAP) {
+      excess = posts.length - MAX_POSTS_PER_HOUR;
+    } else if (typeof metadata.excess !== 'number' && conflict.conflictType === ConflictType.PLATFORM_LIMIT) {
+      excess = posts.length - PLATFORM_DAILY_LIMITS[posts[0].platform];
+    }
+
+    const pending = posts.filter(post => PENDING_STATUSES.includes(post.status));
+    return excess > 0 ? pending.slice(-excess) : [];
+  }
+
+  /**
+   * Move each excess post to the next top-scoring OptimalPostingTime hour for
+   * its platform that has room
+   */
+  private async shiftToOptimalSlots(
+    db: PrismaClient,
+    conflict: SchedulingConflict,
+    movable: ConflictPost[],
+    posts: ConflictPost[],
+    planner: SlotPlanner
+  ): Promise<ResolutionProposal | null> {
+    const changes: ResolutionChange[] = [];
+    const slotsByPlatform = new Map<Platform, Array<{ dayOfWeek: number; hour: number; timeZone: string }>>();
+    const kept = posts.filter(post => !movable.includes(post));
+
+    for (const post of movable) {
+      if (!slotsByPlatform.has(post.platform)) {
+        slotsByPlatform.set(post.platform, await db.optimalPostingTime.findMany({
+          where: { organizationId: conflict.organizationId, platform: post.platform, score: { gt: 0 } },
+          orderBy: { score: 'desc' },
+          take: TOP_OPTIMAL_SLOTS,
+        }));
+      }
+      const slots = slotsByPlatform.get(post.platform)!;
+      if (slots.length === 0) {
+        return null;
+      }
+
+      let target: Date | undefined;
+      for (let hours = 1; hours <= SLOT_SEARCH_DAYS * 24 && !target; hours++) {
+        const candidate = addHours(post.scheduledAt, hours);
+        const isOptimal = slots.some(slot =>
+          Number(formatInTimeZone(candidate, slot.timeZone, 'i')) % 7 === slot.dayOfWeek &&
+          Number(formatInTimeZone(candidate, slot.timeZone, 'H')) === slot.hour
+        );
+        // Moving a near-duplicate only helps once it is a day apart from the original
+        const farEnough = conflict.conflictType !== ConflictType.CONTENT_SIMILAR ||
+          kept.every(other => Math.abs(other.scheduledAt.getTime() - candidate.getTime()) >= SIMILAR_CONTENT_GAP_HOURS * 60 * 60 * 1000);
+
+        if (isOptimal && farEnough && planner.fits(post, candidate)) {
+          target = candidate;
+        }
+      }
+
+      if (!target) {
+        return null;
+      }
+
+      planner.move(post, target);
+      changes.push({ action: 'reschedule', scheduledPostId: post.id, from: post.scheduledAt, to: target });
+    }
+
+    return {
+      strategy: 'shift_to_optimal_slot',
+      description: `Move ${changes.length} post${changes.length === 1 ? '' : 's'} to the next open optimal posting time`,
+      changes,
+    };
+  }
+
+  /**
+   * Space the conflicting posts out from the first one, just far enough apart
+   * to stay under the hourly cap or the platform's API quota
+   */
+  private spreadPosts(conflict: SchedulingConflict, posts: ConflictPost[], planner: SlotPlanner): ResolutionProposal | null {
+    const metadata = (conflict.metadata as Record<string, any> | null) || {};
+    let spacingMinutes: number;
+    if (conflict.conflictType === ConflictType.RATE_LIMIT) {
+      const quota = PLATFORM_API_QUOTAS[posts[0].platform];
+      spacingMinutes = Math.ceil((metadata.windowMinutes || quota.windowMinutes) / (metadata.maxPosts || quota.maxPosts));
+    } else {
+      spacingMinutes = 60 / MAX_POSTS_PER_HOUR;
+    }
+
+    const movable = posts.filter(post => PENDING_STATUSES.includes(post.status));
+    movable.forEach(post => planner.detach(post));
+
+    const changes: ResolutionChange[] = [];
+    let previous: Date | undefined;
+
+    for (const post of posts) {
+      if (!movable.includes(post)) {
+        previous = post.scheduledAt;
+        continue;
+      }
+
+      let candidate = previous && addMinutes(previous, spacingMinutes) > post.scheduledAt
+        ? addMinutes(previous, spacingMinutes)
+        : post.scheduledAt;
+      let steps = 0;
+      while (!planner.fits(post, candidate)) {
+        if (++steps > MAX_SPREAD_STEPS) {
+          return null;
+        }
+        candidate = addMinutes(candidate, spacingMinutes);
+      }
+
+      planner.move(post, candidate);
+      previous = candidate;
+      if (candidate.getTime() !== post.scheduledAt.getTime()) {
+        changes.push({ action: 'reschedule', scheduledPostId: post.id, from: post.scheduledAt, to: candidate });
+      }
+    }
+
+    return {
+      strategy: 'spread_posts',
+      description: `Spread ${posts.length} posts at least ${spacingMinutes} minutes apart`,
+      changes,
+    };
+  }
+
+  /**
+   * Replace near-duplicates with approved, unscheduled content from a pillar
+   * none of the conflicting posts use
+   */
+  private async swapContent(
+    db: PrismaClient,
+    conflict: SchedulingConflict,
+    movable: ConflictPost[],
+    posts: ConflictPost[]
+  ): Promise<ResolutionProposal | null> {
+    const usedPillars = new Set(posts.map(post => post.pillarId).filter(Boolean));
+    const usedContent = new Set(posts.map(post => post.contentPieceId));
+    const changes: ResolutionChange[] = [];
+
+    for (const post of movable) {
+      const replacement = await db.contentPiece.findFirst({
+        where: {
+          organizationId: conflict.organizationId,
+          platform: post.platform,
+          status: 'APPROVED',
+          id: { notIn: [...usedContent] },
+          pillarId: { not: null, notIn: [...usedPillars] as string[] },
+          scheduledPosts: { none: { status: { not: PostStatus.CANCELLED } } },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      if (!replacement) {
+        return null;
+      }
+
+      usedContent.add(replacement.id);
+      usedPillars.add(replacement.pillarId);
+      changes.push({ action: 'swap_content', scheduledPostId: post.id, from: post.contentPieceId, to: replacement.id });
+    }
+
+    return {
+      strategy: 'swap_content',
+      description: `Swap ${changes.length} post${changes.length === 1 ? '' : 's'} for approved content from another pillar`,
+      changes,
+    };
+  }
+
+  /**
+   * Publish from another connected account on the same platform
+   */
+  private async reassignAccount(db: PrismaClient, conflict: SchedulingConflict, posts: ConflictPost[]): Promise<ResolutionProposal | null> {
+    const pending = posts.filter(post => PENDING_STATUSES.includes(post.status));
+    if (pending.length === 0) {
+      return null;
+    }
+
+    const lastPostAt = pending[pending.length - 1].scheduledAt;
+    const accounts = await db.socialAccount.findMany({
+      where: {
+        organizationId: conflict.organizationId,
+        platform: pending[0].platform,
+        isActive: true,
+        id: { not: pending[0].socialAccountId },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+    const account = accounts.find(candidate =>
+      !candidate.expiresAt || candidate.refreshTokenEncrypted || candidate.expiresAt > lastPostAt
+    );
+
+    if (!account) {
+      return null;
+    }
+
+    return {
+      strategy: 'reassign_account',
+      description: `Publish ${pending.length} post${pending.length === 1 ? '' : 's'} from ${account.platform} @${account.handle} instead`,
+      changes: pending.map(post => ({
+        action: 'reassign_account' as const,
+        scheduledPostId: post.id,
+        from: post.socialAccountId,
+        to: account.id,
+      })),
+    };
+  }
+
+  /**
+   * Keep the first copy of duplicated content and cancel the rest
+   */
+  private cancelDuplicates(posts: ConflictPost[]): ResolutionProposal {
+    const duplicates = posts.slice(1).filter(post => PENDING_STATUSES.includes(post.status));
+
+    return {
+      strategy: 'cancel_duplicates',
+      description: `Cancel ${duplicates.length} duplicate post${duplicates.length === 1 ? '' : 's'}`,
+      changes: duplicates.map(post => ({ action: 'cancel' as const, scheduledPostId: post.id })),
+    };
+  }
+
+  private async applyChange(db: PrismaClient, change: ResolutionChange): Promise<void> {
+    let post: ScheduledPost;
+    if (change.action === 'reschedule') {
+      post = await db.scheduledPost.update({
+        where: { id: change.scheduledPostId },
+        data: { scheduledAt: change.to, sequence: { increment: 1 } },
+      });
+      await db.calendarEvent.updateMany({
+        where: { scheduledPostId: change.scheduledPostId },
+        data: { startTime: change.to, sequence: { increment: 1 } },
+      });
+    } else if (change.action === 'swap_content') {
+      post = await db.scheduledPost.update({
+        where: { id: change.scheduledPostId },
+        data: { contentPieceId: change.to, sequence: { increment: 1 } },
+      });
+      await db.calendarEvent.updateMany({
+        where: { scheduledPostId: change.scheduledPostId },
+        data: { contentPieceId: change.to, sequence: { increment: 1 } },
+      });
+    } else if (change.action === 'reassign_account') {
+      post = await db.scheduledPost.update({
+        where: { id: change.scheduledPostId },
+        data: { socialAccountId: change.to, sequence: { increment: 1 } },
+      });
+    } else {
+      post = await db.scheduledPost.update({
+        where: { id: change.scheduledPostId },
+        data: { status: PostStatus.CANCELLED, sequence: { increment: 1 } },
+      });
+      await db.calendarEvent.updateMany({
+        where: { scheduledPostId: change.scheduledPostId },
+        data: { status: EventStatus.CANCELLED, sequence: { increment: 1 } },
+      });
+    }
+
+    // Keep the queued job in step so the change rolls back if the queue refuses it
+    await this.publishingQueue.syncJob(post);
+  }
+}
+
+/**
+ * The organization's schedule around a conflict, used to check that a move
+ * does not trip any of the detectors
+ */
+class SlotPlanner {
+  private constructor(private posts: PlannedPost[], private now: Date) {}
+
+  static async load(db: PrismaClient, conflict: SchedulingConflict, related: ConflictPost[], now: Date): Promise<SlotPlanner> {
+    const earliest = related[0].scheduledAt;
+    const latest = related[related.length - 1].scheduledAt;
+
+    const posts = await db.scheduledPost.findMany({
+      where: {
+        organizationId: conflict.organizationId,
+        scheduledAt: { gte: subDays(earliest, 1), lte: addDays(latest, SLOT_SEARCH_DAYS + 1) },
+        status: { notIn: [PostStatus.CANCELLED, PostStatus.FAILED] },
+      },
+      include: { socialAccount: true },
+    });
+
+    const planned = posts.map(post => ({
+      id: post.id,
+      socialAccountId: post.socialAccountId,
+      platform: post.socialAccount.platform,
+      scheduledAt: post.scheduledAt,
+    }));
+    for (const post of related) {
+      if (!planned.some(existing => existing.id === post.id) && PENDING_STATUSES.includes(post.status)) {
+        planned.push({ ...post });
+      }
+    }
+
+    return new SlotPlanner(planned, now);
+  }
+
+  fits(post: PlannedPost, time: Date): boolean {
+    if (time <= this.now) {
+      return false;
+    }
+
+    const others = this.posts.filter(other => other.id !== post.id);
+    const hourKey = format(time, 'yyyy-MM-dd HH');
+    const dayKey = format(time, 'yyyy-MM-dd');
+
+    if (others.filter(other => format(other.scheduledAt, 'yyyy-MM-dd HH') === hourKey).length >= MAX_POSTS_PER_HOUR) {
+      return false;
+    }
+    if (others.filter(other => other.platform === post.platform && format(other.scheduledAt, 'yyyy-MM-dd') === dayKey).length >= PLATFORM_DAILY_LIMITS[post.platform]) {
+      return false;
+    }
+
+    const quota = PLATFORM_API_QUOTAS[post.platform];
+    return this.fitsWindow(others, post, time, quota.windowMinutes, quota.maxPosts) &&
+      this.fitsWindow(others, post, time, 24 * 60, PLATFORM_FATIGUE_THRESHOLDS[post.platform]);
+  }
+
+  move(post: PlannedPost, time: Date): void {
+    this.detach(post);
+    this.posts.push({ ...post, scheduledAt: time });
+  }
+
+  detach(post: PlannedPost): void {
+    this.posts = this.posts.filter(other => other.id !== post.id);
+  }
+
+  /**
+   * Whether adding a post at `time` keeps every rolling window on the account
+   * that contains it at or under `maxPosts`
+   */
+  private fitsWindow(others: PlannedPost[], post: PlannedPost, time: Date, windowMinutes: number, maxPosts: number): boolean {
+    const windowMs = windowMinutes * 60 * 1000;
+    const nearby = others
+      .filter(other => other.socialAccountId === post.socialAccountId && Math.abs(other.scheduledAt.getTime() - time.getTime()) < windowMs)
+      .concat({ ...post, scheduledAt: time })
+      .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+
+    return findBursts(nearby, windowMinutes, maxPosts).every(burst => !burst.some(entry => entry.id === post.id));
+  }
+}
@@ -1,4 +1,18 @@
 import { z } from 'zod';
+import {
+  Prisma,
+  PrismaClient,
+  ApprovalAction,
+  ApprovalCommentType,
+  ApprovalDecision,
+  ApprovalPriority,
+  ApprovalRequestStatus,
+  ContentStatus,
+  ApprovalWorkflow as ApprovalWorkflowRecord,
+  ApprovalComment as ApprovalCommentRecord,
+  ContentApprovalDecision as ContentApprovalDecisionRecord,
+  ContentRevision as ContentRevisionRecord,
+} from '@prisma/client';
 import { prisma } from './database';
 import { ValidationError } from '../utils/errors';
 
@@ -257,56 +271,175 @@ const ProcessApprovalSchema = z.object({
   }).optional(),
 });
 
+const CreateWorkflowSchema = z.object({
+  organizationId: z.string(),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  steps: z.array(z.any()).min(1),
+  rules: z.any(),
+  isActive: z.boolean().default(true),
+});
+
+export const DEFAULT_WORKFLOW_ID = 'wf_default';
+
+// Built-in standard workflow. Requests that reference `wf_default` get an
+// organization-owned copy of this materialized on first use.
+const DEFAULT_WORKFLOW_TEMPLATE: Pick<ApprovalWorkflow, 'name' | 'description' | 'steps' | 'rules'> = {
+  name: 'Standard Content Review',
+  description: 'Standard review process for all content',
+  steps: [
+    {
+      id: 'step_auto_check',
+      name: 'Automated Checks',
+      type: 'automated_check',
+      order: 1,
+      assignees: [],
+      criteria: {
+        brandSafety: { required: true, threshold: 0.8, autoReject: true },
+        contentQuality: { required: true, checkSpelling: true, checkGrammar: true, checkReadability: true },
+        compliance: { required: true, checkLegal: true, checkIndustryRules: true, requiredApprovals: [] },
+        platformOptimization: { required: true, checkCharacterLimits: true, checkHashtags: true, checkFormatting: true },
+        customCriteria: [],
+      },
+      autoAdvance: true,
+      parallel: false,
+    },
+    {
+      id: 'step_content_review',
+      name: 'Content Review',
+      type: 'review',
+      order: 2,
+      assignees: [
+        {
+          type: 'role',
+          id: 'content_manager',
+          name: 'Content Manager',
+          canApprove: true,
+          canReject: true,
+          canRequestChanges: true,
+          canComment: true,
+        },
+      ],
+      criteria: {
+        brandSafety: { required: false, threshold: 0.8, autoReject: false },
+        contentQuality: { required: true, checkSpelling: true, checkGrammar: true, checkReadability: true },
+        compliance: { required: true, checkLegal: false, checkIndustryRules: false, requiredApprovals: [] },
+        platformOptimization: { required: true, checkCharacterLimits: true, checkHashtags: true, checkFormatting: true },
+        customCriteria: [],
+      },
+      autoAdvance: false,
+      timeout: { hours: 24, action: 'notify' },
+      parallel: false,
+    },
+    {
+      id: 'step_final_approval',
+      name: 'Final Approval',
+      type: 'final_approval',
+      order: 3,
+      assignees: [
+        {
+          type: 'role',
+          id: 'marketing_director',
+          name: 'Marketing Director',
+          canApprove: true,
+          canReject: true,
+          canRequestChanges: true,
+          canComment: true,
+        },
+      ],
+      criteria: {
+        brandSafety: { required: false, threshold: 0.8, autoReject: false },
+        contentQuality: { required: false, checkSpelling: false, checkGrammar: false, checkReadability: false },
+        compliance: { required: false, checkLegal: false, checkIndustryRules: false, requiredApprovals: [] },
+        platformOptimization: { required: false, checkCharacterLimits: false, checkHashtags: false, checkFormatting: false },
+        customCriteria: [],
+      },
+      autoAdvance: false,
+      parallel: false,
+    },
+  ],
+  rules: {
+    autoApprovalConditions: {
+      enabled: true,
+      conditions: [
+        { type: 'brand_safety_score', operator: 'gte', value: 0.9 },
+        { type: 'content_template', operator: 'eq', value: 'approved_template' },
+      ],
+      requiresAll: true,
+    },
+    escalationRules: [],
+    notificationSettings: {
+      notifyOnSubmission: true,
+      notifyOnApproval: true,
+      notifyOnRejection: true,
+      notifyOnTimeout: true,
+      channels: ['email'],
+    },
+  },
+};
+
+const OPEN_REQUEST_STATUSES: ApprovalRequestStatus[] = ['PENDING', 'IN_REVIEW', 'NEEDS_CHANGES'];
+
+const REQUEST_INCLUDE = {
+  revisions: { orderBy: { version: 'asc' } },
+  decisions: { orderBy: { createdAt: 'asc' } },
+  comments: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.ContentApprovalRequestInclude;
+
+type ApprovalRequestRecord = Prisma.ContentApprovalRequestGetPayload<{ include: typeof REQUEST_INCLUDE }>;
+
 export class ContentApprovalService {
-  constructor() {}
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
+  }
 
   async createApprovalRequest(requestData: z.infer<typeof CreateApprovalRequestSchema>): Promise<ContentApprovalRequest> {
     try {
       const validatedData = CreateApprovalRequestSchema.parse(requestData);
 
+      const contentPiece = await this.db.contentPiece.findUnique({
+        where: { id: validatedData.contentPieceId },
+      });
+      if (!contentPiece || contentPiece.organizationId !== validatedData.organizationId) {
+        throw new ValidationError('Content piece not found', 'contentPieceId', validatedData.contentPieceId);
+      }
+
+      const openRequest = await this.db.contentApprovalRequest.findFirst({
+        where: {
+          contentPieceId: contentPiece.id,
+          status: { in: OPEN_REQUEST_STATUSES },
+        },
+        select: { id: true },
+      });
+      if (openRequest) {
+        throw new ValidationError('Content piece already has an open approval request', 'contentPieceId', openRequest.id);
+      }
+
       // Get the workflow to validate it exists
-      const workflow = await this.getWorkflowById(validatedData.workflowId);
+      const workflow = await this.resolveWorkflow(validatedData.workflowId, validatedData.organizationId);
       if (!workflow) {
         throw new ValidationError('Workflow not found', 'workflowId', validatedData.workflowId);
       }
 
-      // Get the original content
-      // In real implementation: const contentPiece = await prisma.contentPiece.findUnique({...});
-      const originalContent = "Sample content for approval"; // Mock data
-
-      const approvalRequest: ContentApprovalRequest = {
-        id: `apr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        ...validatedData,
-        currentStep: 0,
-        status: 'pending',
-        metadata: {
-          ...validatedData.metadata,
-          originalContent,
-        },
-        revisions: [],
-        approvals: [],
-        comments: [],
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      // Create initial revision from original content
-      const initialRevision: ContentRevision = {
-        id: `rev_${Date.now()}_0`,
+      const initialRevision: Omit<ContentRevision, 'id' | 'createdAt'> = {
         version: 1,
         content: {
-          body: originalContent,
-          hashtags: [],
-          mentions: [],
+          title: contentPiece.title ?? undefined,
+          body: contentPiece.body,
+          hashtags: contentPiece.hashtags,
+          mentions: contentPiece.mentions,
+          mediaRefs: contentPiece.mediaRefs ?? undefined,
         },
         changes: [],
         submitterId: validatedData.submitterId,
-        submitterName: 'Content Creator', // In real implementation, fetch from user
+        submitterName: await this.getUserName(validatedData.submitterId, 'Content Creator'),
         submissionNotes: 'Initial submission',
-        createdAt: new Date(),
       };
 
-      approvalRequest.revisions.push(initialRevision);
+      let currentStep = 0;
+      let status: ContentApprovalRequest['status'] = 'pending';
 
       // Run automated checks if enabled
       if (workflow.steps[0]?.type === 'automated_check') {
@@ -315,20 +448,44 @@ export class ContentApprovalService {
 
         // Auto-advance if all checks pass and configured to do so
         if (workflow.steps[0].autoAdvance && this.allChecksPass(autoChecks)) {
-          approvalRequest.currentStep = 1;
+          currentStep = 1;
         }
       }
 
       // Check for auto-approval conditions
-      if (await this.shouldAutoApprove(approvalRequest, workflow)) {
-        approvalRequest.status = 'approved';
-        approvalRequest.currentStep = workflow.steps.length; // Mark as completed
+      if (await this.shouldAutoApprove(validatedData, initialRevision, workflow)) {
+        status = 'approved';
+        currentStep = workflow.steps.length; // Mark as completed
       }
 
-      // In real implementation: save to database
-      // await prisma.contentApprovalRequest.create({ data: approvalRequest });
-
-      return approvalRequest;
+      const [created] = await this.db.$transaction([
+        this.db.contentApprovalRequest.create({
+          data: {
+            organizationId: validatedData.organizationId,
+            contentPieceId: contentPiece.id,
+            workflowId: workflow.id,
+            submitterId: validatedData.submitterId,
+            currentStep,
+            status: this.toDbStatus(status),
+            priority: validatedData.priority.toUpperCase() as ApprovalPriority,
+            deadline: validatedData.deadline,
+            metadata: {
+              ...validatedData.metadata,
+              originalContent: contentPiece.body,
+            },
+            revisions: {
+              create: this.toRevisionData(initialRevision),
+            },
+          },
+          include: REQUEST_INCLUDE,
+        }),
+        this.db.contentPiece.update({
+          where: { id: contentPiece.id },
+          data: { status: status === 'approved' ? 'APPROVED' : 'PENDING_REVIEW' },
+        }),
+      ]);
+
+      return this.toApprovalRequest(created);
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw new ValidationError('Invalid approval request data', 'requestData', error.errors);
@@ -350,6 +507,7 @@ export class ContentApprovalService {
       if (!approvalRequest) {
         throw new ValidationError('Approval request not found', 'requestId', validatedData.requestId);
       }
+      this.assertOpen(approvalRequest);
 
       const workflow = await this.getWorkflowById(approvalRequest.workflowId);
       if (!workflow) {
@@ -358,18 +516,15 @@ export class ContentApprovalService {
 
       // Get the current revision to compare changes
       const currentRevision = approvalRequest.revisions[approvalRequest.revisions.length - 1];
-      const changes = this.calculateContentChanges(currentRevision.content, validatedData.content);
+      const changes = currentRevision ? this.calculateContentChanges(currentRevision.content, validatedData.content) : [];
 
-      // Create new revision
-      const newRevision: ContentRevision = {
-        id: `rev_${Date.now()}_${approvalRequest.revisions.length}`,
-        version: approvalRequest.revisions.length + 1,
+      const newRevision: Omit<ContentRevision, 'id' | 'createdAt'> = {
+        version: (currentRevision?.version ?? 0) + 1,
         content: validatedData.content,
         changes,
         submitterId: validatedData.submitterId,
-        submitterName: 'Content Creator', // In real implementation, fetch from user
+        submitterName: await this.getUserName(validatedData.submitterId, 'Content Creator'),
         submissionNotes: validatedData.submissionNotes,
-        createdAt: new Date(),
       };
 
       // Run automated checks for the new revision
@@ -379,30 +534,53 @@ export class ContentApprovalService {
         newRevision.autoChecks = autoChecks;
       }
 
-      // Add revision to the request
-      approvalRequest.revisions.push(newRevision);
-      approvalRequest.status = 'in_review';
-      approvalRequest.updatedAt = new Date();
-
       // Determine next step
+      let stepIndex = approvalRequest.currentStep;
       let nextStep: string | undefined;
       if (currentStep) {
         nextStep = currentStep.name;
         if (currentStep.autoAdvance && newRevision.autoChecks && this.allChecksPass(newRevision.autoChecks)) {
           // Auto-advance to next step
-          approvalRequest.currentStep += 1;
-          if (approvalRequest.currentStep < workflow.steps.length) {
-            nextStep = workflow.steps[approvalRequest.currentStep].name;
+          stepIndex += 1;
+          if (stepIndex < workflow.steps.length) {
+            nextStep = workflow.steps[stepIndex].name;
           }
         }
       }
 
-      // In real implementation: update database
-      // await prisma.contentApprovalRequest.update({ where: { id: validatedData.requestId }, data: approvalRequest });
+      // The revision becomes the content under review, so the piece goes back into review with it
+      const [revision] = await this.db.$transaction([
+        this.db.contentRevision.create({
+          data: {
+            requestId: approvalRequest.id,
+            ...this.toRevisionData(newRevision),
+          },
+        }),
+        this.db.contentApprovalRequest.update({
+          where: { id: approvalRequest.id },
+          data: {
+            status: 'IN_REVIEW',
+            currentStep: stepIndex,
+          },
+        }),
+        this.db.contentPiece.update({
+          where: { id: approvalRequest.contentPieceId },
+          data: {
+            title: validatedData.content.title,
+            body: validatedData.content.body,
+            hashtags: validatedData.content.hashtags,
+            mentions: validatedData.content.mentions,
+            ...(validatedData.content.mediaRefs !== undefined ? { mediaRefs: validatedData.content.mediaRefs } : {}),
+            status: 'PENDING_REVIEW',
+          },
+        }),
+      ]);
+
+      const saved = this.toRevision(revision);
 
       return {
-        revision: newRevision,
-        autoChecks: newRevision.autoChecks,
+        revision: saved,
+        autoChecks: saved.autoChecks,
         nextStep,
       };
     } catch (error) {
@@ -426,6 +604,7 @@ export class ContentApprovalService {
       if (!approvalRequest) {
         throw new ValidationError('Approval request not found', 'requestId', validatedData.requestId);
       }
+      this.assertOpen(approvalRequest);
 
       const workflow = await this.getWorkflowById(approvalRequest.workflowId);
       if (!workflow) {
@@ -437,64 +616,83 @@ export class ContentApprovalService {
         throw new ValidationError('Invalid workflow step', 'currentStep', approvalRequest.currentStep);
       }
 
-      // Create approval record
-      const approval: ContentApproval = {
-        id: `app_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      const approval: Omit<ContentApproval, 'id' | 'createdAt'> = {
         stepId: currentStep.id,
         stepName: currentStep.name,
         reviewerId: validatedData.reviewerId,
-        reviewerName: 'Reviewer Name', // In real implementation, fetch from user
+        reviewerName: await this.getUserName(validatedData.reviewerId, 'Reviewer'),
         action: validatedData.action,
         decision: this.mapActionToDecision(validatedData.action),
         comments: validatedData.comments,
         criteria: validatedData.criteria,
         suggestedChanges: validatedData.suggestedChanges,
-        createdAt: new Date(),
       };
 
-      // Add approval to the request
-      approvalRequest.approvals.push(approval);
-
       // Update request status and determine next steps
+      let stepIndex = approvalRequest.currentStep;
+      let status = approvalRequest.status;
       let nextStep: string | undefined;
       let isComplete = false;
 
       switch (approval.decision) {
         case 'approved':
           // Check if all required approvals for this step are complete
-          if (this.isStepComplete(currentStep, approvalRequest.approvals)) {
-            approvalRequest.currentStep += 1;
-            
-            if (approvalRequest.currentStep >= workflow.steps.length) {
+          if (this.isStepComplete(currentStep, [...approvalRequest.approvals, approval])) {
+            stepIndex += 1;
+
+            if (stepIndex >= workflow.steps.length) {
               // Workflow complete
-              approvalRequest.status = 'approved';
+              status = 'approved';
               isComplete = true;
             } else {
               // Move to next step
-              nextStep = workflow.steps[approvalRequest.currentStep].name;
-              approvalRequest.status = 'in_review';
+              nextStep = workflow.steps[stepIndex].name;
+              status = 'in_review';
             }
           }
           break;
 
         case 'rejected':
-          approvalRequest.status = 'rejected';
+          status = 'rejected';
           isComplete = true;
           break;
 
         case 'needs_changes':
-          approvalRequest.status = 'needs_changes';
+          status = 'needs_changes';
           // Stay on current step, waiting for revision
           break;
       }
 
-      approvalRequest.updatedAt = new Date();
-
-      // In real implementation: update database
-      // await prisma.contentApprovalRequest.update({ where: { id: validatedData.requestId }, data: approvalRequest });
+      const [decision] = await this.db.$transaction([
+        this.db.contentApprovalDecision.create({
+          data: {
+            requestId: approvalRequest.id,
+            stepId: approval.stepId,
+            stepName: approval.stepName,
+            reviewerId: approval.reviewerId,
+            reviewerName: approval.reviewerName,
+            action: approval.action.toUpperCase() as ApprovalAction,
+            decision: approval.decision.toUpperCase() as ApprovalDecision,
+            comments: approval.comments,
+            criteria: this.toJson(approval.criteria),
+            suggestedChanges: this.toJson(approval.suggestedChanges),
+          },
+        }),
+        this.db.contentApprovalRequest.update({
+          where: { id: approvalRequest.id },
+          data: {
+            status: this.toDbStatus(status),
+            currentStep: stepIndex,
+          },
+        }),
+        this.db.contentPiece.update({
+          where: { id: approvalRequest.contentPieceId },
+          data: { status: this.contentStatusFor(status) },
+        }),
+      ]);
 
       return {
-        approval,
+        approval: this.toDecision(decision),
         nextStep,
         isComplete,
       };
@@ -507,35 +705,42 @@ export class ContentApprovalService {
   }
 
   async addComment(requestId: string, authorId: string, comment: Partial<ApprovalComment>): Promise<ApprovalComment> {
-    const approvalRequest = await this.getApprovalRequestById(requestId);
+    const approvalRequest = await this.db.contentApprovalRequest.findUnique({
+      where: { id: requestId },
+      select: { id: true },
+    });
     if (!approvalRequest) {
       throw new ValidationError('Approval request not found', 'requestId', requestId);
     }
 
-    const newComment: ApprovalComment = {
-      id: `cmt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      authorId,
-      authorName: 'Comment Author', // In real implementation, fetch from user
-      content: comment.content || '',
-      type: comment.type || 'general',
-      isResolved: false,
-      mentions: comment.mentions || [],
-      attachments: comment.attachments || [],
-      createdAt: new Date(),
-    };
-
-    approvalRequest.comments.push(newComment);
-    approvalRequest.updatedAt = new Date();
+    const created = await this.db.approvalComment.create({
+      data: {
+        requestId,
+        authorId,
+        authorName: await this.getUserName(authorId, 'Comment Author'),
+        content: comment.content || '',
+        type: (comment.type || 'general').toUpperCase() as ApprovalCommentType,
+        mentions: comment.mentions || [],
+        attachments: this.toJson(comment.attachments || []),
+      },
+    });
 
-    // In real implementation: update database
+    // Touch the request so "recently active" listings pick up the discussion
+    await this.db.contentApprovalRequest.update({
+      where: { id: requestId },
+      data: { updatedAt: new Date() },
+    });
 
-    return newComment;
+    return this.toComment(created);
   }
 
   async getApprovalRequestById(id: string): Promise<ContentApprovalRequest | null> {
-    // In real implementation: fetch from database
-    // return await prisma.contentApprovalRequest.findUnique({ where: { id } });
-    return null; // Mock implementation
+    const record = await this.db.contentApprovalRequest.findUnique({
+      where: { id },
+      include: REQUEST_INCLUDE,
+    });
+
+    return record ? this.toApprovalRequest(record) : null;
   }
 
   async getApprovalRequests(filters: {
@@ -554,120 +759,144 @@ export class ContentApprovalService {
       totalPages: number;
     };
   }> {
-    // In real implementation: fetch from database with filters
+    const page = filters.page || 1;
+    const limit = filters.limit || 10;
+
+    const where: Prisma.ContentApprovalRequestWhereInput = {
+      organizationId: filters.organizationId,
+      ...(filters.status ? { status: this.toDbStatus(filters.status) } : {}),
+      ...(filters.priority ? { priority: filters.priority.toUpperCase() as ApprovalPriority } : {}),
+    };
+
+    let requests: ContentApprovalRequest[];
+    let total: number;
+
+    if (filters.assignedTo) {
+      // Assignment lives in the workflow step JSON, so filter open requests in memory
+      const records = await this.db.contentApprovalRequest.findMany({
+        where: { ...where, status: where.status ?? { in: OPEN_REQUEST_STATUSES } },
+        include: { ...REQUEST_INCLUDE, workflow: true },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      const assigned = records.filter(record => {
+        const steps = record.workflow.steps as unknown as ApprovalStep[];
+        return steps[record.currentStep]?.assignees.some(assignee => assignee.id === filters.assignedTo);
+      });
+
+      total = assigned.length;
+      requests = assigned
+        .slice((page - 1) * limit, page * limit)
+        .map(record => this.toApprovalRequest(record));
+    } else {
+      const [records, count] = await Promise.all([
+        this.db.contentApprovalRequest.findMany({
+          where,
+          include: REQUEST_INCLUDE,
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        this.db.contentApprovalRequest.count({ where }),
+      ]);
+
+      total = count;
+      requests = records.map(record => this.toApprovalRequest(record));
+    }
+
     return {
-      requests: [],
+      requests,
       pagination: {
-        page: filters.page || 1,
-        limit: filters.limit || 10,
-        total: 0,
-        totalPages: 0,
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
       },
     };
   }
 
-  async getWorkflowById(id: string): Promise<ApprovalWorkflow | null> {
-    // Return a default workflow for now
-    const defaultWorkflow: ApprovalWorkflow = {
-      id: 'wf_default',
-      organizationId: 'org_123',
-      name: 'Standard Content Review',
-      description: 'Standard review process for all content',
-      steps: [
-        {
-          id: 'step_auto_check',
-          name: 'Automated Checks',
-          type: 'automated_check',
-          order: 1,
-          assignees: [],
-          criteria: {
-            brandSafety: { required: true, threshold: 0.8, autoReject: true },
-            contentQuality: { required: true, checkSpelling: true, checkGrammar: true, checkReadability: true },
-            compliance: { required: true, checkLegal: true, checkIndustryRules: true, requiredApprovals: [] },
-            platformOptimization: { required: true, checkCharacterLimits: true, checkHashtags: true, checkFormatting: true },
-            customCriteria: [],
-          },
-          autoAdvance: true,
-          parallel: false,
-        },
-        {
-          id: 'step_content_review',
-          name: 'Content Review',
-          type: 'review',
-          order: 2,
-          assignees: [
-            {
-              type: 'role',
-              id: 'content_manager',
-              name: 'Content Manager',
-              canApprove: true,
-              canReject: true,
-              canRequestChanges: true,
-              canComment: true,
-            },
-          ],
-          criteria: {
-            brandSafety: { required: false, threshold: 0.8, autoReject: false },
-            contentQuality: { required: true, checkSpelling: true, checkGrammar: true, checkReadability: true },
-            compliance: { required: true, checkLegal: false, checkIndustryRules: false, requiredApprovals: [] },
-            platformOptimization: { required: true, checkCharacterLimits: true, checkHashtags: true, checkFormatting: true },
-            customCriteria: [],
-          },
-          autoAdvance: false,
-          timeout: { hours: 24, action: 'notify' },
-          parallel: false,
-        },
-        {
-          id: 'step_final_approval',
-          name: 'Final Approval',
-          type: 'final_approval',
-          order: 3,
-          assignees: [
-            {
-              type: 'role',
-              id: 'marketing_director',
-              name: 'Marketing Director',
-              canApprove: true,
-              canReject: true,
-              canRequestChanges: true,
-              canComment: true,
-            },
-          ],
-          criteria: {
-            brandSafety: { required: false, threshold: 0.8, autoReject: false },
-            contentQuality: { required: false, checkSpelling: false, checkGrammar: false, checkReadability: false },
-            compliance: { required: false, checkLegal: false, checkIndustryRules: false, requiredApprovals: [] },
-            platformOptimization: { required: false, checkCharacterLimits: false, checkHashtags: false, checkFormatting: false },
-            customCriteria: [],
-          },
-          autoAdvance: false,
-          parallel: false,
-        },
-      ],
-      rules: {
-        autoApprovalConditions: {
-          enabled: true,
-          conditions: [
-            { type: 'brand_safety_score', operator: 'gte', value: 0.9 },
-            { type: 'content_template', operator: 'eq', value: 'approved_template' },
-          ],
-          requiresAll: true,
+  async createWorkflow(workflowData: z.infer<typeof CreateWorkflowSchema>): Promise<ApprovalWorkflow> {
+    try {
+      const validatedData = CreateWorkflowSchema.parse(workflowData);
+
+      const created = await this.db.approvalWorkflow.create({
+        data: {
+          organizationId: validatedData.organizationId,
+          name: validatedData.name,
+          description: validatedData.description,
+          steps: validatedData.steps as unknown as Prisma.InputJsonValue,
+          rules: (validatedData.rules ?? DEFAULT_WORKFLOW_TEMPLATE.rules) as unknown as Prisma.InputJsonValue,
+          isActive: validatedData.isActive,
         },
-        escalationRules: [],
-        notificationSettings: {
-          notifyOnSubmission: true,
-          notifyOnApproval: true,
-          notifyOnRejection: true,
-          notifyOnTimeout: true,
-          channels: ['email'],
+      });
+
+      return this.toWorkflow(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid workflow data', 'workflowData', error.errors);
+      }
+      throw error;
+    }
+  }
+
+  async getWorkflows(organizationId: string): Promise<ApprovalWorkflow[]> {
+    const records = await this.db.approvalWorkflow.findMany({
+      where: { organizationId, isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return records.map(record => this.toWorkflow(record));
+  }
+
+  async getWorkflowById(id: string): Promise<ApprovalWorkflow | null> {
+    const record = await this.db.approvalWorkflow.findUnique({ where: { id } });
+    if (record) {
+      return this.toWorkflow(record);
+    }
+
+    return id === DEFAULT_WORKFLOW_ID
+      ? {
+          id: DEFAULT_WORKFLOW_ID,
+          organizationId: '',
+          ...DEFAULT_WORKFLOW_TEMPLATE,
+          isActive: true,
+          createdAt: new Date('2024-01-01'),
+          updatedAt: new Date('2024-01-01'),
+        }
+      : null;
+  }
+
+  /**
+   * Resolve the workflow a new request should run through, materializing the
+   * organization's copy of the standard workflow the first time it is used.
+   */
+  private async resolveWorkflow(workflowId: string, organizationId: string): Promise<ApprovalWorkflow | null> {
+    if (workflowId === DEFAULT_WORKFLOW_ID) {
+      const existing = await this.db.approvalWorkflow.findFirst({
+        where: { organizationId, isDefault: true },
+      });
+      if (existing) {
+        return this.toWorkflow(existing);
+      }
+
+      const created = await this.db.approvalWorkflow.create({
+        data: {
+          organizationId,
+          name: DEFAULT_WORKFLOW_TEMPLATE.name,
+          description: DEFAULT_WORKFLOW_TEMPLATE.description,
+          steps: DEFAULT_WORKFLOW_TEMPLATE.steps as unknown as Prisma.InputJsonValue,
+          rules: DEFAULT_WORKFLOW_TEMPLATE.rules as unknown as Prisma.InputJsonValue,
+          isDefault: true,
         },
-      },
-      isActive: true,
-      createdAt: new Date('2024-01-01'),
-      updatedAt: new Date('2024-01-01'),
-    };
+      });
+      return this.toWorkflow(created);
+    }
 
-    return id === 'wf_default' ? defaultWorkflow : null;
+    const workflow = await this.db.approvalWorkflow.findUnique({ where: { id: workflowId } });
+    if (!workflow || workflow.organizationId !== organizationId || !workflow.isActive) {
+      return null;
+    }
+    return this.toWorkflow(workflow);
   }
 
   private async runAutomatedChecks(content: any, step: ApprovalStep): Promise<ContentRevision['autoChecks']> {
@@ -716,20 +945,40 @@ export class ContentApprovalService {
            autoChecks.compliance.passed;
   }
 
-  private async shouldAutoApprove(request: ContentApprovalRequest, workflow: ApprovalWorkflow): Promise<boolean> {
+  private async shouldAutoApprove(
+    request: z.infer<typeof CreateApprovalRequestSchema>,
+    revision: Omit<ContentRevision, 'id' | 'createdAt'>,
+    workflow: ApprovalWorkflow
+  ): Promise<boolean> {
     const conditions = workflow.rules.autoApprovalConditions;
-    if (!conditions.enabled) return false;
+    if (!conditions.enabled || conditions.conditions.length === 0) return false;
 
     const results = await Promise.all(
       conditions.conditions.map(async (condition) => {
-        // Implement condition checking logic here
         switch (condition.type) {
           case 'brand_safety_score':
-            // Check if brand safety score meets threshold
-            return true; // Mock implementation
+            // Only a score produced by the automated checks counts
+            return revision.autoChecks
+              ? this.compare(revision.autoChecks.brandSafety.score, condition.operator, condition.value)
+              : false;
+          case 'content_type':
+            return this.compare(request.metadata.contentType, condition.operator, condition.value);
+          case 'platform':
+            return this.compare(request.metadata.platform, condition.operator, condition.value);
+          case 'user_history': {
+            // Number of previously approved requests from the same submitter
+            const approvedCount = await this.db.contentApprovalRequest.count({
+              where: {
+                organizationId: request.organizationId,
+                submitterId: request.submitterId,
+                status: 'APPROVED',
+              },
+            });
+            return this.compare(approvedCount, condition.operator, condition.value);
+          }
           case 'content_template':
-            // Check if content uses approved template
-            return true; // Mock implementation
+            // Content pieces don't record their source template yet
+            return false;
           default:
             return false;
         }
@@ -739,10 +988,40 @@ export class ContentApprovalService {
     return conditions.requiresAll ? results.every(Boolean) : results.some(Boolean);
   }
 
+  private compare(actual: any, operator: string, expected: any): boolean {
+    switch (operator) {
+      case 'gt':
+        return actual > expected;
+      case 'gte':
+        return actual >= expected;
+      case 'lt':
+        return actual < expected;
+      case 'lte':
+        return actual <= expected;
+      case 'eq':
+        return actual === expected;
+      case 'in':
+        return Array.isArray(expected) && expected.includes(actual);
+      case 'contains':
+        return typeof actual === 'string' && actual.includes(String(expected));
+      default:
+        return false;
+    }
+  }
+
   private calculateContentChanges(oldContent: any, newContent: any): RevisionChange[] {
     const changes: RevisionChange[] = [];
 
     // Simple change detection - in real implementation, use a proper diff algorithm
+    if ((oldContent.title || '') !== (newContent.title || '')) {
+      changes.push({
+        type: !oldContent.title ? 'addition' : !newContent.title ? 'deletion' : 'modification',
+        field: 'title',
+        oldValue: oldContent.title,
+        newValue: newContent.title,
+      });
+    }
+
     if (oldContent.body !== newContent.body) {
       changes.push({
         type: 'modification',
@@ -761,6 +1040,15 @@ export class ContentApprovalService {
       });
     }
 
+    if (JSON.stringify(oldContent.mentions) !== JSON.stringify(newContent.mentions)) {
+      changes.push({
+        type: 'modification',
+        field: 'mentions',
+        oldValue: JSON.stringify(oldContent.mentions),
+        newValue: JSON.stringify(newContent.mentions),
+      });
+    }
+
     return changes;
   }
 
@@ -777,7 +1065,7 @@ export class ContentApprovalService {
     }
   }
 
-  private isStepComplete(step: ApprovalStep, approvals: ContentApproval[]): boolean {
+  private isStepComplete(step: ApprovalStep, approvals: Array<Pick<ContentApproval, 'stepId' | 'reviewerId' | 'decision'>>): boolean {
     const stepApprovals = approvals.filter(a => a.stepId === step.id);
     
     if (step.parallel) {
@@ -792,6 +1080,148 @@ export class ContentApprovalService {
       return stepApprovals.some(approval => approval.decision === 'approved');
     }
   }
+
+  private assertOpen(request: ContentApprovalRequest): void {
+    if (request.status === 'approved' || request.status === 'rejected' || request.status === 'withdrawn') {
+      throw new ValidationError(`Approval request is already ${request.status}`, 'status', request.status);
+    }
+  }
+
+  /**
+   * The linked content piece only returns to DRAFT when a reviewer sends it back;
+   * while a request is open it stays in review.
+   */
+  private contentStatusFor(status: ContentApprovalRequest['status']): ContentStatus {
+    switch (status) {
+      case 'approved':
+        return 'APPROVED';
+      case 'rejected':
+      case 'needs_changes':
+      case 'withdrawn':
+        return 'DRAFT';
+      default:
+        return 'PENDING_REVIEW';
+    }
+  }
+
+  private async getUserName(userId: string, fallback: string): Promise<string> {
+    const user = await this.db.user.findUnique({
+      where: { id: userId },
+      select: { name: true, email: true },
+    });
+    return user?.name || user?.email || fallback;
+  }
+
+  private toDbStatus(status: ContentApprovalRequest['status']): ApprovalRequestStatus {
+    return status.toUpperCase() as ApprovalRequestStatus;
+  }
+
+  private toJson(value: unknown): Prisma.InputJsonValue | undefined {
+    return value === undefined ? undefined : (value as Prisma.InputJsonValue);
+  }
+
+  private toRevisionData(revision: Omit<ContentRevision, 'id' | 'createdAt'>) {
+    return {
+      version: revision.version,
+      title: revision.content.title,
+      body: revision.content.body,
+      hashtags: revision.content.hashtags,
+      mentions: revision.content.mentions,
+      mediaRefs: this.toJson(revision.content.mediaRefs),
+      changes: this.toJson(revision.changes) ?? [],
+      submitterId: revision.submitterId,
+      submitterName: revision.submitterName,
+      submissionNotes: revision.submissionNotes,
+      autoChecks: this.toJson(revision.autoChecks),
+    };
+  }
+
+  private toApprovalRequest(record: ApprovalRequestRecord): ContentApprovalRequest {
+    return {
+      id: record.id,
+      contentPieceId: record.contentPieceId,
+      workflowId: record.workflowId,
+      organizationId: record.organizationId,
+      submitterId: record.submitterId,
+      currentStep: record.currentStep,
+      status: record.status.toLowerCase() as ContentApprovalRequest['status'],
+      priority: record.priority.toLowerCase() as ContentApprovalRequest['priority'],
+      deadline: record.deadline ?? undefined,
+      metadata: record.metadata as unknown as ContentApprovalRequest['metadata'],
+      revisions: record.revisions.map(revision => this.toRevision(revision)),
+      approvals: record.decisions.map(decision => this.toDecision(decision)),
+      comments: record.comments.map(comment => this.toComment(comment)),
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  private toRevision(record: ContentRevisionRecord): ContentRevision {
+    return {
+      id: record.id,
+      version: record.version,
+      content: {
+        title: record.title ?? undefined,
+        body: record.body,
+        hashtags: record.hashtags,
+        mentions: record.mentions,
+        mediaRefs: record.mediaRefs ?? undefined,
+      },
+      changes: record.changes as unknown as RevisionChange[],
+      submitterId: record.submitterId,
+      submitterName: record.submitterName,
+      submissionNotes: record.submissionNotes ?? undefined,
+      autoChecks: (record.autoChecks ?? undefined) as unknown as ContentRevision['autoChecks'],
+      createdAt: record.createdAt,
+    };
+  }
+
+  private toDecision(record: ContentApprovalDecisionRecord): ContentApproval {
+    return {
+      id: record.id,
+      stepId: record.stepId,
+      stepName: record.stepName,
+      reviewerId: record.reviewerId,
+      reviewerName: record.reviewerName,
+      action: record.action.toLowerCase() as ContentApproval['action'],
+      decision: record.decision.toLowerCase() as ContentApproval['decision'],
+      comments: record.comments ?? undefined,
+      criteria: (record.criteria ?? undefined) as unknown as ContentApproval['criteria'],
+      suggestedChanges: (record.suggestedChanges ?? undefined) as unknown as ContentApproval['suggestedChanges'],
+      timeSpent: record.timeSpent ?? undefined,
+      createdAt: record.createdAt,
+    };
+  }
+
+  private toComment(record: ApprovalCommentRecord): ApprovalComment {
+    return {
+      id: record.id,
+      authorId: record.authorId,
+      authorName: record.authorName,
+      content: record.content,
+      type: record.type.toLowerCase() as ApprovalComment['type'],
+      isResolved: record.isResolved,
+      resolvedBy: record.resolvedBy ?? undefined,
+      resolvedAt: record.resolvedAt ?? undefined,
+      mentions: record.mentions,
+      attachments: (record.attachments ?? undefined) as unknown as ApprovalComment['attachments'],
+      createdAt: record.createdAt,
+    };
+  }
+
+  private toWorkflow(record: ApprovalWorkflowRecord): ApprovalWorkflow {
+    return {
+      id: record.id,
+      organizationId: record.organizationId,
+      name: record.name,
+      description: record.description ?? undefined,
+      steps: record.steps as unknown as ApprovalStep[],
+      rules: record.rules as unknown as ApprovalRules,
+      isActive: record.isActive,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
 }
 
 export const contentApprovalService = new ContentApprovalService();
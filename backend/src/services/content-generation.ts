@@ -1,8 +1,6 @@
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-import { config } from '../config/config';
 import { z } from 'zod';
 import { AIProviderError, ValidationError } from '../utils/errors';
+import { LLMClient, LLMProviderName, llmClient } from './llm';
 
 /**
  * Platform-specific optimization rules for content generation.
@@ -104,6 +102,7 @@ export interface GeneratedContent {
     conversionPotential: number;
     readabilityScore: number;
   };
+  generatedBy?: string; // provider-model that produced the content
 }
 
 const ContentGenerationRequestSchema = z.object({
@@ -133,10 +132,83 @@ const ContentGenerationRequestSchema = z.object({
   }),
 });
 
+const GeneratedContentBodySchema = z.object({
+  title: z.string().optional(),
+  body: z.string().min(1),
+  hook: z.string().optional(),
+  cta: z.string().optional(),
+  hashtags: z.array(z.string()).default([]),
+  mentions: z.array(z.string()).default([]),
+});
+
+const GeneratedContentResponseSchema = z.object({
+  content: GeneratedContentBodySchema,
+  metadata: z.object({
+    rationale: z.string().default(''),
+    confidence: z.number().min(0).max(1).default(0.7),
+    keywordsUsed: z.array(z.string()).default([]),
+    targetAudience: z.string().default(''),
+    estimatedEngagement: z.number().default(0),
+    brandSafetyScore: z.number().default(1),
+  }),
+  variations: z.array(z.object({
+    content: GeneratedContentBodySchema,
+    differentiator: z.string().default(''),
+    confidence: z.number().min(0).max(1).default(0.7),
+  })).default([]),
+  optimization: z.object({
+    seoScore: z.number().default(0),
+    engagementPotential: z.number().default(0),
+    conversionPotential: z.number().default(0),
+    readabilityScore: z.number().default(0),
+  }).default({}),
+});
+
+const VariationsResponseSchema = z.object({
+  variations: z.array(z.object({
+    content: z.string().min(1),
+    variationType: z.string(),
+    confidence: z.number().min(0).max(1).default(0.7),
+    differentiator: z.string().default(''),
+  })),
+});
+
+const CONTENT_RESPONSE_FORMAT = `{
+  "content": {
+    "title": "...",
+    "body": "...",
+    "hook": "...",
+    "cta": "...",
+    "hashtags": ["...", "..."],
+    "mentions": ["...", "..."]
+  },
+  "metadata": {
+    "rationale": "...",
+    "confidence": 0.85,
+    "keywordsUsed": ["...", "..."],
+    "targetAudience": "...",
+    "estimatedEngagement": 0.75,
+    "brandSafetyScore": 0.95
+  },
+  "variations": [
+    {
+      "content": { "title": "...", "body": "...", "hook": "...", "cta": "...", "hashtags": [...], "mentions": [...] },
+      "differentiator": "More casual tone",
+      "confidence": 0.8
+    }
+  ],
+  "optimization": {
+    "seoScore": 0.8,
+    "engagementPotential": 0.85,
+    "conversionPotential": 0.7,
+    "readabilityScore": 0.9
+  }
+}`;
+
 /**
  * Service for generating AI-powered social media content optimized for different platforms.
  * 
- * This service provides intelligent content generation using OpenAI and Anthropic models,
+ * This service provides intelligent content generation through the shared LLM provider layer,
  * with platform-specific optimization rules and content validation capabilities.
  * 
  * @example
@@ -153,22 +225,14 @@ const ContentGenerationRequestSchema = z.object({
  * ```
  */
 export class ContentGenerationService {
-  private openai: OpenAI;
-  private anthropic: Anthropic;
+  private llm: LLMClient;
   private platformRules: Map<string, PlatformOptimizationRules>;
 
   /**
-   * Initialize the content generation service with AI providers and platform rules.
+   * Initialize the content generation service with the shared LLM client and platform rules.
    */
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: config.ai.openai.apiKey,
-    });
-
-    this.anthropic = new Anthropic({
-      apiKey: config.ai.anthropic.apiKey,
-    });
-
+  constructor(llm: LLMClient = llmClient) {
+    this.llm = llm;
     this.platformRules = this.initializePlatformRules();
   }
 
@@ -325,7 +389,7 @@ export class ContentGenerationService {
    * with multiple variations, metadata, and optimization scores.
    * 
    * @param request - Content generation request with platform, context, and optimization settings
-   * @param provider - AI provider to use ('openai' or 'anthropic')
+   * @param provider - AI provider to use ('openai', 'anthropic' or 'local'); defaults to the configured provider
    * @returns Promise resolving to generated content with variations and metadata
    * 
    * @throws {ValidationError} When request validation fails or platform is unsupported
@@ -350,7 +414,7 @@ export class ContentGenerationService {
    */
   async generateContent(
     request: ContentGenerationRequest, 
-    provider: 'openai' | 'anthropic' = 'openai'
+    provider?: LLMProviderName
   ): Promise<GeneratedContent> {
     try {
       // Validate input
@@ -362,12 +426,7 @@ export class ContentGenerationService {
         throw new ValidationError('Unsupported platform', 'platform', validatedRequest.platform);
       }
 
-      // Generate content based on provider
-      if (provider === 'openai') {
-        return await this.generateWithOpenAI(validatedRequest, platformRules);
-      } else {
-        return await this.generateWithAnthropic(validatedRequest, platformRules);
-      }
+      return await this.generateWithProvider(validatedRequest, platformRules, provider);
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw new ValidationError('Invalid request data', 'request', error.errors);
@@ -376,142 +435,37 @@ export class ContentGenerationService {
     }
   }
 
-  private async generateWithOpenAI(
+  private async generateWithProvider(
     request: ContentGenerationRequest, 
-    platformRules: PlatformOptimizationRules
+    platformRules: PlatformOptimizationRules,
+    provider?: LLMProviderName
   ): Promise<GeneratedContent> {
-    try {
-      const prompt = this.buildContentPrompt(request, platformRules);
-      
-      const completion = await this.openai.chat.completions.create({
-        model: config.ai.openai.model,
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert content creator and social media strategist. You create engaging, platform-optimized content that drives results while maintaining brand consistency and safety.
+    const prompt = this.buildContentPrompt(request, platformRules);
 
-Return your response as a valid JSON object with the following structure:
-{
-  "content": {
-    "title": "...",
-    "body": "...",
-    "hook": "...",
-    "cta": "...",
-    "hashtags": ["...", "..."],
-    "mentions": ["...", "..."]
-  },
-  "metadata": {
-    "rationale": "...",
-    "confidence": 0.85,
-    "keywordsUsed": ["...", "..."],
-    "targetAudience": "...",
-    "estimatedEngagement": 0.75,
-    "brandSafetyScore": 0.95
-  },
-  "variations": [
-    {
-      "content": { "title": "...", "body": "...", "hook": "...", "cta": "...", "hashtags": [...], "mentions": [...] },
-      "differentiator": "More casual tone",
-      "confidence": 0.8
-    }
-  ],
-  "optimization": {
-    "seoScore": 0.8,
-    "engagementPotential": 0.85,
-    "conversionPotential": 0.7,
-    "readabilityScore": 0.9
-  }
-}`
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.8,
-        max_tokens: 4000,
-        response_format: { type: "json_object" }
-      });
-
-      const result = JSON.parse(completion.choices[0].message.content || '{}');
-      
-      return {
-        id: `gen_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        platform: request.platform,
-        contentType: request.contentType,
-        ...result,
-      };
-
-    } catch (error: any) {
-      throw new AIProviderError('OpenAI', error.message);
-    }
-  }
-
-  private async generateWithAnthropic(
-    request: ContentGenerationRequest, 
-    platformRules: PlatformOptimizationRules
-  ): Promise<GeneratedContent> {
-    try {
-      const prompt = this.buildContentPrompt(request, platformRules);
-
-      const message = await this.anthropic.messages.create({
-        model: config.ai.anthropic.model,
-        max_tokens: 4000,
-        messages: [
-          {
-            role: 'user',
-            content: `You are an expert content creator and social media strategist. You create engaging, platform-optimized content that drives results while maintaining brand consistency and safety.
-
-${prompt}
-
-Please provide the content as a JSON object with the following structure:
-{
-  "content": {
-    "title": "...",
-    "body": "...",
-    "hook": "...",
-    "cta": "...",
-    "hashtags": ["...", "..."],
-    "mentions": ["...", "..."]
-  },
-  "metadata": {
-    "rationale": "...",
-    "confidence": 0.85,
-    "keywordsUsed": ["...", "..."],
-    "targetAudience": "...",
-    "estimatedEngagement": 0.75,
-    "brandSafetyScore": 0.95
-  },
-  "variations": [
-    {
-      "content": { "title": "...", "body": "...", "hook": "...", "cta": "...", "hashtags": [...], "mentions": [...] },
-      "differentiator": "More casual tone",
-      "confidence": 0.8
-    }
-  ],
-  "optimization": {
-    "seoScore": 0.8,
-    "engagementPotential": 0.85,
-    "conversionPotential": 0.7,
-    "readabilityScore": 0.9
-  }
-}`
-          }
-        ]
-      });
+    const { data, generatedBy } = await this.llm.generateStructured({
+      task: 'content.generate',
+      system: `You are an expert content creator and social media strategist. You create engaging, platform-optimized content that drives results while maintaining brand consistency and safety.
 
-      const result = JSON.parse(message.content[0].type === 'text' ? message.content[0].text : '{}');
-      
-      return {
-        id: `gen_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        platform: request.platform,
-        contentType: request.contentType,
-        ...result,
-      };
+Return your response as a valid JSON object with the following structure:
+${CONTENT_RESPONSE_FORMAT}`,
+      prompt,
+      schema: GeneratedContentResponseSchema,
+      provider,
+      temperature: 0.8,
+      maxTokens: 4000,
+    });
 
-    } catch (error: any) {
-      throw new AIProviderError('Anthropic', error.message);
-    }
+    return {
+      id: `gen_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      platform: request.platform,
+      contentType: request.contentType,
+      ...data,
+      variations: data.variations.map((variation, index) => ({
+        id: `var_${Date.now()}_${index}`,
+        ...variation,
+      })),
+      generatedBy,
+    };
   }
 
   private buildContentPrompt(
@@ -583,7 +537,7 @@ Provide rationale for content choices, confidence scores, and optimization metri
     platform: string,
     variationTypes: string[],
     count: number,
-    provider: 'openai' | 'anthropic' = 'openai'
+    provider?: LLMProviderName
   ): Promise<Array<{
     id: string;
     content: string;
@@ -615,45 +569,36 @@ Create variations that:
 3. Use different hooks, angles, or formats
 4. Stay within platform constraints
 
-Return as JSON array:
-[
-  {
-    "content": "...",
-    "variationType": "casual_tone",
-    "confidence": 0.85,
-    "differentiator": "More conversational and approachable"
-  }
-]`;
-
-      if (provider === 'openai') {
-        const completion = await this.openai.chat.completions.create({
-          model: config.ai.openai.model,
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0.9,
-          max_tokens: 2000,
-          response_format: { type: "json_object" }
-        });
-
-        const variations = JSON.parse(completion.choices[0].message.content || '[]');
-        return variations.map((variation: any, index: number) => ({
-          id: `var_${Date.now()}_${index}`,
-          ...variation
-        }));
-      } else {
-        const message = await this.anthropic.messages.create({
-          model: config.ai.anthropic.model,
-          max_tokens: 2000,
-          messages: [{ role: 'user', content: prompt }]
-        });
-
-        const variations = JSON.parse(message.content[0].type === 'text' ? message.content[0].text : '[]');
-        return variations.map((variation: any, index: number) => ({
-          id: `var_${Date.now()}_${index}`,
-          ...variation
-        }));
-      }
+Return as JSON:
+{
+  "variations": [
+    {
+      "content": "...",
+      "variationType": "casual_tone",
+      "confidence": 0.85,
+      "differentiator": "More conversational and approachable"
+    }
+  ]
+}`;
+
+      const { data } = await this.llm.generateStructured({
+        task: 'content.variations',
+        prompt,
+        schema: VariationsResponseSchema,
+        provider,
+        temperature: 0.9,
+        maxTokens: 2000,
+      });
+
+      return data.variations.map((variation, index) => ({
+        id: `var_${Date.now()}_${index}`,
+        ...variation
+      }));
     } catch (error: any) {
-      throw new AIProviderError(provider, error.message);
+      if (error instanceof ValidationError || error instanceof AIProviderError) {
+        throw error;
+      }
+      throw new AIProviderError(provider || 'llm', error.message);
     }
   }
 
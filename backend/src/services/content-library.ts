@@ -1,4 +1,11 @@
 import { z } from 'zod';
+import {
+  Prisma,
+  PrismaClient,
+  LibraryItemStatus,
+  LibraryItemType,
+  ContentCollection as ContentCollectionRecord,
+} from '@prisma/client';
 import { prisma } from './database';
 import { ValidationError } from '../utils/errors';
 
@@ -77,6 +84,7 @@ export interface ContentCollection {
 }
 
 export interface ContentSearchFilters {
+  organizationId: string;
   query?: string;
   type?: string[];
   status?: string[];
@@ -227,7 +235,8 @@ const CreateCollectionSchema = z.object({
 });
 
 const SearchFiltersSchema = z.object({
-  query: z.string().optional(),
+  organizationId: z.string(),
+  query: z.string().trim().optional(),
   type: z.array(z.string()).optional(),
   status: z.array(z.string()).optional(),
   platform: z.array(z.string()).optional(),
@@ -240,8 +249,8 @@ const SearchFiltersSchema = z.object({
   series: z.array(z.string()).optional(),
   campaign: z.array(z.string()).optional(),
   dateRange: z.object({
-    start: z.date().optional(),
-    end: z.date().optional(),
+    start: z.coerce.date().optional(),
+    end: z.coerce.date().optional(),
     field: z.enum(['created', 'updated', 'published']).default('created'),
   }).optional(),
   performance: z.object({
@@ -257,34 +266,78 @@ const SearchFiltersSchema = z.object({
   limit: z.number().min(1).max(100).default(20),
 });
 
+const ITEM_INCLUDE = {
+  collections: { select: { collectionId: true } },
+} satisfies Prisma.ContentLibraryItemInclude;
+
+const COLLECTION_INCLUDE = {
+  items: { select: { itemId: true }, orderBy: { addedAt: 'asc' } },
+} satisfies Prisma.ContentCollectionInclude;
+
+type LibraryItemRecord = Prisma.ContentLibraryItemGetPayload<{ include: typeof ITEM_INCLUDE }>;
+type CollectionRecord = ContentCollectionRecord & { items: Array<{ itemId: string }> };
+
+type SortableField = Exclude<NonNullable<ContentSearchFilters['sortBy']>, 'relevance'>;
+
+const SORT_COLUMNS: Record<SortableField, Prisma.Sql> = {
+  created: Prisma.sql`i."createdAt"`,
+  updated: Prisma.sql`i."updatedAt"`,
+  title: Prisma.sql`lower(i."title")`,
+  performance: Prisma.sql`i."performanceScore"`,
+  usage: Prisma.sql`i."timesUsed"`,
+};
+
+const DATE_COLUMNS: Record<'created' | 'updated' | 'published', Prisma.Sql> = {
+  created: Prisma.sql`i."createdAt"`,
+  updated: Prisma.sql`i."updatedAt"`,
+  published: Prisma.sql`i."publishedAt"`,
+};
+
 export class ContentLibraryService {
-  constructor() {}
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
+  }
 
   async createItem(itemData: z.infer<typeof CreateLibraryItemSchema>): Promise<ContentLibraryItem> {
     try {
       const validatedData = CreateLibraryItemSchema.parse(itemData);
-
-      const item: ContentLibraryItem = {
-        id: `lib_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        ...validatedData,
-        metadata: {
-          ...validatedData.metadata,
-          version: 1,
-          usage: {
-            timesUsed: 0,
-            copiedCount: 0,
-            sharedCount: 0,
-          },
+      const collectionIds = Array.from(new Set(validatedData.collections));
+      await this.assertCollectionsInOrganization(collectionIds, validatedData.organizationId);
+
+      const { content, metadata, permissions } = validatedData;
+      const record = await this.db.contentLibraryItem.create({
+        data: {
+          organizationId: validatedData.organizationId,
+          type: this.toDbType(validatedData.type),
+          title: validatedData.title,
+          description: validatedData.description,
+          status: this.toDbStatus(metadata.status),
+          body: content?.body,
+          platform: metadata.platform ?? content?.platform,
+          contentType: metadata.contentType ?? content?.contentType,
+          hashtags: content?.hashtags ?? [],
+          mentions: content?.mentions ?? [],
+          mediaRefs: this.toJson(content?.mediaRefs),
+          authorId: metadata.authorId,
+          authorName: metadata.author,
+          pillarId: metadata.pillarId,
+          seriesId: metadata.seriesId,
+          campaignId: metadata.campaignId,
+          tags: validatedData.tags,
+          categories: validatedData.categories,
+          isPublic: permissions.isPublic,
+          sharedWith: permissions.sharedWith,
+          canEdit: permissions.canEdit,
+          canView: permissions.canView,
+          publishedAt: metadata.status === 'published' ? new Date() : undefined,
+          collections: { create: collectionIds.map(collectionId => ({ collectionId })) },
         },
-        searchableContent: this.buildSearchableContent(validatedData),
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      // In real implementation: save to database
-      // await prisma.contentLibraryItem.create({ data: item });
+        include: ITEM_INCLUDE,
+      });
 
-      return item;
+      return this.toLibraryItem(record);
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw new ValidationError('Invalid library item data', 'itemData', error.errors);
@@ -297,32 +350,51 @@ export class ContentLibraryService {
     try {
       const validatedData = UpdateLibraryItemSchema.parse(updateData);
 
-      // Get existing item
-      const existingItem = await this.getItemById(validatedData.id);
-      if (!existingItem) {
+      const existing = await this.db.contentLibraryItem.findUnique({ where: { id: validatedData.id } });
+      if (!existing) {
         throw new ValidationError('Library item not found', 'id', validatedData.id);
       }
 
-      // Update item
-      const updatedItem: ContentLibraryItem = {
-        ...existingItem,
-        ...validatedData,
-        metadata: {
-          ...existingItem.metadata,
-          ...validatedData.metadata,
-          version: existingItem.metadata.version + 1,
-        },
-        searchableContent: this.buildSearchableContent({
-          ...existingItem,
-          ...validatedData,
-        }),
-        updatedAt: new Date(),
-      };
+      const collectionIds = validatedData.collections && Array.from(new Set(validatedData.collections));
+      if (collectionIds) {
+        await this.assertCollectionsInOrganization(collectionIds, existing.organizationId);
+      }
 
-      // In real implementation: update database
-      // await prisma.contentLibraryItem.update({ where: { id: validatedData.id }, data: updatedItem });
+      const { content, metadata, permissions } = validatedData;
+      const becamePublished = metadata?.status === 'published' && existing.status !== LibraryItemStatus.PUBLISHED;
+
+      const record = await this.db.contentLibraryItem.update({
+        where: { id: validatedData.id },
+        data: {
+          title: validatedData.title,
+          description: validatedData.description,
+          status: metadata?.status && this.toDbStatus(metadata.status),
+          version: { increment: 1 },
+          body: content?.body,
+          platform: metadata?.platform ?? content?.platform,
+          contentType: metadata?.contentType ?? content?.contentType,
+          hashtags: content?.hashtags,
+          mentions: content?.mentions,
+          mediaRefs: this.toJson(content?.mediaRefs),
+          pillarId: metadata?.pillarId,
+          seriesId: metadata?.seriesId,
+          campaignId: metadata?.campaignId,
+          tags: validatedData.tags,
+          categories: validatedData.categories,
+          isPublic: permissions?.isPublic,
+          sharedWith: permissions?.sharedWith,
+          canEdit: permissions?.canEdit,
+          canView: permissions?.canView,
+          publishedAt: becamePublished ? new Date() : undefined,
+          collections: collectionIds && {
+            deleteMany: {},
+            create: collectionIds.map(collectionId => ({ collectionId })),
+          },
+        },
+        include: ITEM_INCLUDE,
+      });
 
-      return updatedItem;
+      return this.toLibraryItem(record);
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw new ValidationError('Invalid update data', 'updateData', error.errors);
@@ -331,31 +403,47 @@ export class ContentLibraryService {
     }
   }
 
+  /**
+   * Full-text search over the library. Matching, filtering, ranking, sorting and
+   * pagination all run in Postgres against the trigger-maintained search vector.
+   */
   async searchItems(filters: ContentSearchFilters): Promise<ContentSearchResult> {
     try {
       const validatedFilters = SearchFiltersSchema.parse(filters);
-
-      // Mock implementation - in real implementation, use database with full-text search
-      const allItems = await this.getAllItems(validatedFilters.organizationId || '');
-      
-      let filteredItems = this.applyFilters(allItems, validatedFilters);
-      
-      // Apply sorting
-      filteredItems = this.sortItems(filteredItems, validatedFilters.sortBy, validatedFilters.sortOrder);
-
-      // Apply pagination
-      const total = filteredItems.length;
-      const startIndex = (validatedFilters.page - 1) * validatedFilters.limit;
-      const paginatedItems = filteredItems.slice(startIndex, startIndex + validatedFilters.limit);
-
-      // Generate facets
-      const facets = this.generateFacets(allItems);
-
-      // Generate search suggestions
-      const suggestions = validatedFilters.query ? this.generateSearchSuggestions(validatedFilters.query, allItems) : undefined;
+      const where = this.buildSearchWhere(validatedFilters);
+      const offset = (validatedFilters.page - 1) * validatedFilters.limit;
+
+      const [rows, countRows, facets, suggestions] = await Promise.all([
+        this.db.$queryRaw<Array<{ id: string }>>`
+          SELECT i."id"
+          FROM "public"."content_library_items" i
+          WHERE ${where}
+          ORDER BY ${this.buildSearchOrder(validatedFilters)}
+          LIMIT ${validatedFilters.limit} OFFSET ${offset}`,
+        this.db.$queryRaw<Array<{ count: number }>>`
+          SELECT COUNT(*)::int AS count
+          FROM "public"."content_library_items" i
+          WHERE ${where}`,
+        this.searchFacets(where),
+        validatedFilters.query
+          ? this.searchSuggestions(validatedFilters.organizationId, validatedFilters.query)
+          : Promise.resolve(undefined),
+      ]);
+
+      const ids = rows.map(row => row.id);
+      const records = ids.length > 0
+        ? await this.db.contentLibraryItem.findMany({ where: { id: { in: ids } }, include: ITEM_INCLUDE })
+        : [];
+      const recordsById = new Map(records.map(record => [record.id, record]));
+      const items = ids
+        .map(id => recordsById.get(id))
+        .filter((record): record is LibraryItemRecord => record !== undefined)
+        .map(record => this.toLibraryItem(record));
+
+      const total = countRows[0]?.count ?? 0;
 
       return {
-        items: paginatedItems,
+        items,
         pagination: {
           page: validatedFilters.page,
           limit: validatedFilters.limit,
@@ -374,13 +462,19 @@ export class ContentLibraryService {
   }
 
   async getItemById(id: string): Promise<ContentLibraryItem | null> {
-    // In real implementation: fetch from database
-    // return await prisma.contentLibraryItem.findUnique({ where: { id } });
-    return null; // Mock implementation
+    const record = await this.db.contentLibraryItem.findUnique({
+      where: { id },
+      include: ITEM_INCLUDE,
+    });
+
+    return record ? this.toLibraryItem(record) : null;
   }
 
   async deleteItem(id: string, organizationId: string): Promise<boolean> {
-    const item = await this.getItemById(id);
+    const item = await this.db.contentLibraryItem.findUnique({
+      where: { id },
+      select: { organizationId: true },
+    });
     if (!item) {
       throw new ValidationError('Library item not found', 'id', id);
     }
@@ -389,9 +483,8 @@ export class ContentLibraryService {
       throw new ValidationError('Access denied', 'organizationId', 'Item belongs to different organization');
     }
 
-    // In real implementation: delete from database
-    // await prisma.contentLibraryItem.delete({ where: { id } });
-    
+    await this.db.contentLibraryItem.delete({ where: { id } });
+
     return true;
   }
 
@@ -400,54 +493,72 @@ export class ContentLibraryService {
     description?: string;
     collections?: string[];
   }): Promise<ContentLibraryItem> {
-    const originalItem = await this.getItemById(id);
-    if (!originalItem) {
+    const original = await this.db.contentLibraryItem.findUnique({ where: { id } });
+    if (!original || original.organizationId !== organizationId) {
       throw new ValidationError('Library item not found', 'id', id);
     }
 
-    const duplicatedItem: ContentLibraryItem = {
-      ...originalItem,
-      id: `lib_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      title: customizations?.title || `${originalItem.title} (Copy)`,
-      description: customizations?.description || originalItem.description,
-      collections: customizations?.collections || [],
-      metadata: {
-        ...originalItem.metadata,
-        version: 1,
-        usage: {
-          timesUsed: 0,
-          copiedCount: 0,
-          sharedCount: 0,
+    const collectionIds = Array.from(new Set(customizations?.collections ?? []));
+    await this.assertCollectionsInOrganization(collectionIds, organizationId);
+
+    const [record] = await this.db.$transaction([
+      this.db.contentLibraryItem.create({
+        data: {
+          organizationId: original.organizationId,
+          type: original.type,
+          title: customizations?.title || `${original.title} (Copy)`,
+          description: customizations?.description || original.description,
+          status: original.status,
+          body: original.body,
+          platform: original.platform,
+          contentType: original.contentType,
+          hashtags: original.hashtags,
+          mentions: original.mentions,
+          mediaRefs: this.toJson(original.mediaRefs ?? undefined),
+          authorId: original.authorId,
+          authorName: original.authorName,
+          pillarId: original.pillarId,
+          seriesId: original.seriesId,
+          campaignId: original.campaignId,
+          tags: original.tags,
+          categories: original.categories,
+          impressions: original.impressions,
+          engagement: original.engagement,
+          clicks: original.clicks,
+          conversions: original.conversions,
+          performanceScore: original.performanceScore,
+          aiGenerated: original.aiGenerated,
+          generatedBy: original.generatedBy,
+          aiConfidence: original.aiConfidence,
+          aiVariations: original.aiVariations,
+          isPublic: original.isPublic,
+          sharedWith: original.sharedWith,
+          canEdit: original.canEdit,
+          canView: original.canView,
+          publishedAt: original.publishedAt,
+          collections: { create: collectionIds.map(collectionId => ({ collectionId })) },
         },
-      },
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-
-    duplicatedItem.searchableContent = this.buildSearchableContent(duplicatedItem);
-
-    // In real implementation: save to database
-    // await prisma.contentLibraryItem.create({ data: duplicatedItem });
-
-    return duplicatedItem;
+        include: ITEM_INCLUDE,
+      }),
+      this.db.contentLibraryItem.update({
+        where: { id },
+        data: { copiedCount: { increment: 1 } },
+      }),
+    ]);
+
+    return this.toLibraryItem(record);
   }
 
   async createCollection(collectionData: z.infer<typeof CreateCollectionSchema>): Promise<ContentCollection> {
     try {
       const validatedData = CreateCollectionSchema.parse(collectionData);
 
-      const collection: ContentCollection = {
-        id: `col_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        ...validatedData,
-        itemIds: [],
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      // In real implementation: save to database
-      // await prisma.contentCollection.create({ data: collection });
+      const record = await this.db.contentCollection.create({
+        data: validatedData,
+        include: COLLECTION_INCLUDE,
+      });
 
-      return collection;
+      return this.toCollection(record);
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw new ValidationError('Invalid collection data', 'collectionData', error.errors);
@@ -457,429 +568,481 @@ export class ContentLibraryService {
   }
 
   async addItemToCollection(itemId: string, collectionId: string, organizationId: string): Promise<boolean> {
-    // Validate item and collection exist and belong to organization
-    const item = await this.getItemById(itemId);
-    const collection = await this.getCollectionById(collectionId);
-
-    if (!item || item.organizationId !== organizationId) {
-      throw new ValidationError('Item not found or access denied', 'itemId', itemId);
-    }
+    await this.assertMembershipAccess(itemId, collectionId, organizationId);
 
-    if (!collection || collection.organizationId !== organizationId) {
-      throw new ValidationError('Collection not found or access denied', 'collectionId', collectionId);
-    }
-
-    // Add item to collection
-    if (!collection.itemIds.includes(itemId)) {
-      collection.itemIds.push(itemId);
-      collection.updatedAt = new Date();
-
-      // Also add collection to item
-      if (!item.collections.includes(collectionId)) {
-        item.collections.push(collectionId);
-        item.updatedAt = new Date();
-      }
-
-      // In real implementation: update database
-      // await prisma.contentCollection.update({ where: { id: collectionId }, data: collection });
-      // await prisma.contentLibraryItem.update({ where: { id: itemId }, data: item });
-    }
+    await this.db.contentCollectionItem.upsert({
+      where: { collectionId_itemId: { collectionId, itemId } },
+      create: { collectionId, itemId },
+      update: {},
+    });
 
     return true;
   }
 
   async removeItemFromCollection(itemId: string, collectionId: string, organizationId: string): Promise<boolean> {
-    const item = await this.getItemById(itemId);
-    const collection = await this.getCollectionById(collectionId);
-
-    if (!item || item.organizationId !== organizationId) {
-      throw new ValidationError('Item not found or access denied', 'itemId', itemId);
-    }
-
-    if (!collection || collection.organizationId !== organizationId) {
-      throw new ValidationError('Collection not found or access denied', 'collectionId', collectionId);
-    }
-
-    // Remove item from collection
-    collection.itemIds = collection.itemIds.filter(id => id !== itemId);
-    collection.updatedAt = new Date();
+    await this.assertMembershipAccess(itemId, collectionId, organizationId);
 
-    // Remove collection from item
-    item.collections = item.collections.filter(id => id !== collectionId);
-    item.updatedAt = new Date();
-
-    // In real implementation: update database
+    await this.db.contentCollectionItem.deleteMany({
+      where: { collectionId, itemId },
+    });
 
     return true;
   }
 
   async getCollectionById(id: string): Promise<ContentCollection | null> {
-    // In real implementation: fetch from database
-    return null;
+    const record = await this.db.contentCollection.findUnique({
+      where: { id },
+      include: COLLECTION_INCLUDE,
+    });
+
+    return record ? this.toCollection(record) : null;
   }
 
   async getCollections(organizationId: string, ownerId?: string): Promise<ContentCollection[]> {
-    // In real implementation: fetch from database with filters
-    return [];
+    const records = await this.db.contentCollection.findMany({
+      where: { organizationId, ...(ownerId && { ownerId }) },
+      include: COLLECTION_INCLUDE,
+      orderBy: { name: 'asc' },
+    });
+
+    return records.map(record => this.toCollection(record));
   }
 
   async getAnalytics(organizationId: string, dateRange?: { start: Date; end: Date }): Promise<ContentAnalytics> {
-    const items = await this.getAllItems(organizationId);
-    
-    // Filter by date range if provided
-    const filteredItems = dateRange 
-      ? items.filter(item => 
-          item.createdAt >= dateRange.start && item.createdAt <= dateRange.end
-        )
-      : items;
-
-    const analytics: ContentAnalytics = {
-      totalItems: filteredItems.length,
-      itemsByType: this.groupBy(filteredItems, 'type'),
-      itemsByStatus: this.groupBy(filteredItems, item => item.metadata.status),
-      itemsByPlatform: this.groupBy(
-        filteredItems.filter(item => item.metadata.platform),
-        item => item.metadata.platform!
-      ),
-      topTags: this.getTopTags(filteredItems, 10),
-      topAuthors: this.getTopAuthors(filteredItems, 10),
+    const where: Prisma.ContentLibraryItemWhereInput = {
+      organizationId,
+      ...(dateRange && { createdAt: { gte: dateRange.start, lte: dateRange.end } }),
+    };
+    const tagWhere = dateRange
+      ? Prisma.sql`i."organizationId" = ${organizationId} AND i."createdAt" BETWEEN ${dateRange.start} AND ${dateRange.end}`
+      : Prisma.sql`i."organizationId" = ${organizationId}`;
+    const staleThreshold = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+
+    const [
+      totalItems,
+      byType,
+      byStatus,
+      byPlatform,
+      topTags,
+      topAuthors,
+      engagement,
+      topPerforming,
+      underperforming,
+      mostUsed,
+      recentlyUpdated,
+      stale,
+      growth,
+    ] = await Promise.all([
+      this.db.contentLibraryItem.count({ where }),
+      this.db.contentLibraryItem.groupBy({ by: ['type'], where, _count: { _all: true } }),
+      this.db.contentLibraryItem.groupBy({ by: ['status'], where, _count: { _all: true } }),
+      this.db.contentLibraryItem.groupBy({
+        by: ['platform'],
+        where: { ...where, platform: { not: null } },
+        _count: { _all: true },
+      }),
+      this.tagCounts(tagWhere, 10),
+      this.db.contentLibraryItem.groupBy({
+        by: ['authorName'],
+        where,
+        _count: { authorName: true },
+        orderBy: { _count: { authorName: 'desc' } },
+        take: 10,
+      }),
+      this.db.contentLibraryItem.aggregate({
+        where: { ...where, engagement: { not: null } },
+        _avg: { engagement: true },
+      }),
+      this.db.contentLibraryItem.findMany({
+        where: { ...where, performanceScore: { not: null } },
+        include: ITEM_INCLUDE,
+        orderBy: { performanceScore: 'desc' },
+        take: 5,
+      }),
+      this.db.contentLibraryItem.findMany({
+        where: { ...where, performanceScore: { not: null } },
+        include: ITEM_INCLUDE,
+        orderBy: { performanceScore: 'asc' },
+        take: 5,
+      }),
+      this.db.contentLibraryItem.findMany({
+        where: { ...where, timesUsed: { gt: 0 } },
+        include: ITEM_INCLUDE,
+        orderBy: { timesUsed: 'desc' },
+        take: 5,
+      }),
+      this.db.contentLibraryItem.findMany({
+        where,
+        include: ITEM_INCLUDE,
+        orderBy: { updatedAt: 'desc' },
+        take: 5,
+      }),
+      this.db.contentLibraryItem.findMany({
+        where: {
+          ...where,
+          status: LibraryItemStatus.PUBLISHED,
+          updatedAt: { lt: staleThreshold },
+        },
+        include: ITEM_INCLUDE,
+        orderBy: { updatedAt: 'asc' },
+        take: 20,
+      }),
+      this.calculateGrowthMetrics(organizationId),
+    ]);
+
+    return {
+      totalItems,
+      itemsByType: Object.fromEntries(byType.map(group => [group.type.toLowerCase(), group._count._all])),
+      itemsByStatus: Object.fromEntries(byStatus.map(group => [group.status.toLowerCase(), group._count._all])),
+      itemsByPlatform: Object.fromEntries(byPlatform.map(group => [group.platform ?? 'unknown', group._count._all])),
+      topTags: topTags.map(tag => ({ tag: tag.value, count: tag.count })),
+      topAuthors: topAuthors.map(group => ({ author: group.authorName, count: group._count?.authorName ?? 0 })),
       performanceMetrics: {
-        averageEngagement: this.calculateAverageEngagement(filteredItems),
-        topPerformingItems: this.getTopPerformingItems(filteredItems, 5),
-        underperformingItems: this.getUnderperformingItems(filteredItems, 5),
+        averageEngagement: engagement._avg.engagement ?? 0,
+        topPerformingItems: topPerforming.map(record => this.toLibraryItem(record)),
+        underperformingItems: underperforming.map(record => this.toLibraryItem(record)),
       },
       usageMetrics: {
-        mostUsedItems: this.getMostUsedItems(filteredItems, 5),
-        recentlyUpdated: this.getRecentlyUpdatedItems(filteredItems, 5),
-        staleContent: this.getStaleContent(filteredItems, 30), // 30 days
+        mostUsedItems: mostUsed.map(record => this.toLibraryItem(record)),
+        recentlyUpdated: recentlyUpdated.map(record => this.toLibraryItem(record)),
+        staleContent: stale.map(record => this.toLibraryItem(record)),
       },
-      growth: this.calculateGrowthMetrics(items),
+      growth,
     };
-
-    return analytics;
   }
 
   async updateUsageMetrics(itemId: string, action: 'used' | 'copied' | 'shared'): Promise<boolean> {
-    const item = await this.getItemById(itemId);
+    const item = await this.db.contentLibraryItem.findUnique({
+      where: { id: itemId },
+      select: { id: true },
+    });
     if (!item) {
       throw new ValidationError('Library item not found', 'itemId', itemId);
     }
 
-    if (!item.metadata.usage) {
-      item.metadata.usage = { timesUsed: 0, copiedCount: 0, sharedCount: 0 };
+    const data: Prisma.ContentLibraryItemUpdateInput = action === 'used'
+      ? { timesUsed: { increment: 1 }, lastUsedAt: new Date() }
+      : action === 'copied'
+        ? { copiedCount: { increment: 1 } }
+        : { sharedCount: { increment: 1 } };
+
+    await this.db.contentLibraryItem.update({ where: { id: itemId }, data });
+
+    return true;
+  }
+
+  private buildSearchWhere(filters: z.infer<typeof SearchFiltersSchema>): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [Prisma.sql`i."organizationId" = ${filters.organizationId}`];
+
+    if (filters.query) {
+      conditions.push(Prisma.sql`i."searchVector" @@ websearch_to_tsquery('english', ${filters.query})`);
     }
 
-    switch (action) {
-      case 'used':
-        item.metadata.usage.timesUsed++;
-        item.metadata.usage.lastUsed = new Date();
-        break;
-      case 'copied':
-        item.metadata.usage.copiedCount++;
-        break;
-      case 'shared':
-        item.metadata.usage.sharedCount++;
-        break;
+    if (filters.type?.length) {
+      conditions.push(Prisma.sql`i."type"::text = ANY(${filters.type.map(type => type.toUpperCase())}::text[])`);
     }
 
-    item.updatedAt = new Date();
+    if (filters.status?.length) {
+      conditions.push(Prisma.sql`i."status"::text = ANY(${filters.status.map(status => status.toUpperCase())}::text[])`);
+    }
 
-    // In real implementation: update database
-    // await prisma.contentLibraryItem.update({ where: { id: itemId }, data: item });
+    if (filters.platform?.length) {
+      conditions.push(Prisma.sql`i."platform" = ANY(${filters.platform}::text[])`);
+    }
 
-    return true;
-  }
+    if (filters.contentType?.length) {
+      conditions.push(Prisma.sql`i."contentType" = ANY(${filters.contentType}::text[])`);
+    }
 
-  private async getAllItems(organizationId: string): Promise<ContentLibraryItem[]> {
-    // Mock implementation - in real implementation, fetch from database
-    return [];
-  }
+    if (filters.tags?.length) {
+      conditions.push(Prisma.sql`i."tags" && ${filters.tags}::text[]`);
+    }
 
-  private buildSearchableContent(item: any): string {
-    const parts = [
-      item.title,
-      item.description,
-      item.content?.body,
-      ...(item.tags || []),
-      ...(item.categories || []),
-      ...(item.content?.hashtags || []),
-      item.metadata?.author,
-    ];
+    if (filters.categories?.length) {
+      conditions.push(Prisma.sql`i."categories" && ${filters.categories}::text[]`);
+    }
 
-    return parts
-      .filter(Boolean)
-      .join(' ')
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim();
-  }
+    if (filters.collections?.length) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "public"."content_collection_items" ci
+        WHERE ci."itemId" = i."id" AND ci."collectionId" = ANY(${filters.collections}::text[])
+      )`);
+    }
 
-  private applyFilters(items: ContentLibraryItem[], filters: ContentSearchFilters): ContentLibraryItem[] {
-    return items.filter(item => {
-      // Query filter (full-text search)
-      if (filters.query) {
-        const query = filters.query.toLowerCase();
-        if (!item.searchableContent.includes(query) && 
-            !item.title.toLowerCase().includes(query)) {
-          return false;
-        }
-      }
+    if (filters.author?.length) {
+      conditions.push(Prisma.sql`i."authorId" = ANY(${filters.author}::text[])`);
+    }
 
-      // Type filter
-      if (filters.type && filters.type.length > 0) {
-        if (!filters.type.includes(item.type)) return false;
-      }
+    if (filters.pillar?.length) {
+      conditions.push(Prisma.sql`i."pillarId" = ANY(${filters.pillar}::text[])`);
+    }
 
-      // Status filter
-      if (filters.status && filters.status.length > 0) {
-        if (!filters.status.includes(item.metadata.status)) return false;
-      }
+    if (filters.series?.length) {
+      conditions.push(Prisma.sql`i."seriesId" = ANY(${filters.series}::text[])`);
+    }
 
-      // Platform filter
-      if (filters.platform && filters.platform.length > 0) {
-        if (!item.metadata.platform || !filters.platform.includes(item.metadata.platform)) return false;
-      }
+    if (filters.campaign?.length) {
+      conditions.push(Prisma.sql`i."campaignId" = ANY(${filters.campaign}::text[])`);
+    }
 
-      // Tags filter
-      if (filters.tags && filters.tags.length > 0) {
-        if (!filters.tags.some(tag => item.tags.includes(tag))) return false;
+    if (filters.dateRange) {
+      const column = DATE_COLUMNS[filters.dateRange.field];
+      if (filters.dateRange.start) {
+        conditions.push(Prisma.sql`${column} >= ${filters.dateRange.start}`);
       }
-
-      // Author filter
-      if (filters.author && filters.author.length > 0) {
-        if (!filters.author.includes(item.metadata.authorId)) return false;
+      if (filters.dateRange.end) {
+        conditions.push(Prisma.sql`${column} <= ${filters.dateRange.end}`);
       }
+    }
 
-      // Date range filter
-      if (filters.dateRange) {
-        const dateField = filters.dateRange.field === 'updated' ? item.updatedAt : item.createdAt;
-        if (filters.dateRange.start && dateField < filters.dateRange.start) return false;
-        if (filters.dateRange.end && dateField > filters.dateRange.end) return false;
+    if (filters.performance) {
+      const { minEngagement, minImpressions, minScore } = filters.performance;
+      if (minEngagement !== undefined) {
+        conditions.push(Prisma.sql`i."engagement" >= ${minEngagement}`);
       }
-
-      // Performance filter
-      if (filters.performance) {
-        const performance = item.metadata.performance;
-        if (!performance) return false;
-        
-        if (filters.performance.minEngagement && 
-            (!performance.engagement || performance.engagement < filters.performance.minEngagement)) {
-          return false;
-        }
-        
-        if (filters.performance.minImpressions && 
-            (!performance.impressions || performance.impressions < filters.performance.minImpressions)) {
-          return false;
-        }
+      if (minImpressions !== undefined) {
+        conditions.push(Prisma.sql`i."impressions" >= ${minImpressions}`);
       }
-
-      // AI generated filter
-      if (filters.aiGenerated !== undefined) {
-        const isAiGenerated = item.metadata.ai?.generated || false;
-        if (filters.aiGenerated !== isAiGenerated) return false;
+      if (minScore !== undefined) {
+        conditions.push(Prisma.sql`i."performanceScore" >= ${minScore}`);
       }
+    }
 
-      // Has media filter
-      if (filters.hasMedia !== undefined) {
-        const hasMedia = !!(item.content?.mediaRefs);
-        if (filters.hasMedia !== hasMedia) return false;
-      }
+    if (filters.aiGenerated !== undefined) {
+      conditions.push(Prisma.sql`i."aiGenerated" = ${filters.aiGenerated}`);
+    }
 
-      return true;
-    });
+    if (filters.hasMedia !== undefined) {
+      conditions.push(filters.hasMedia
+        ? Prisma.sql`(i."mediaRefs" IS NOT NULL AND i."mediaRefs" <> 'null'::jsonb)`
+        : Prisma.sql`(i."mediaRefs" IS NULL OR i."mediaRefs" = 'null'::jsonb)`);
+    }
+
+    return Prisma.join(conditions, ' AND ');
   }
 
-  private sortItems(items: ContentLibraryItem[], sortBy: string, sortOrder: 'asc' | 'desc'): ContentLibraryItem[] {
-    const multiplier = sortOrder === 'asc' ? 1 : -1;
-
-    return items.sort((a, b) => {
-      let comparison = 0;
-
-      switch (sortBy) {
-        case 'title':
-          comparison = a.title.localeCompare(b.title);
-          break;
-        case 'created':
-          comparison = a.createdAt.getTime() - b.createdAt.getTime();
-          break;
-        case 'updated':
-          comparison = a.updatedAt.getTime() - b.updatedAt.getTime();
-          break;
-        case 'performance':
-          const aScore = a.metadata.performance?.score || 0;
-          const bScore = b.metadata.performance?.score || 0;
-          comparison = aScore - bScore;
-          break;
-        case 'usage':
-          const aUsage = a.metadata.usage?.timesUsed || 0;
-          const bUsage = b.metadata.usage?.timesUsed || 0;
-          comparison = aUsage - bUsage;
-          break;
-        default:
-          comparison = a.createdAt.getTime() - b.createdAt.getTime();
-      }
+  private buildSearchOrder(filters: z.infer<typeof SearchFiltersSchema>): Prisma.Sql {
+    const direction = Prisma.raw(filters.sortOrder === 'asc' ? 'ASC' : 'DESC');
 
-      return comparison * multiplier;
-    });
-  }
+    if (filters.sortBy === 'relevance' && filters.query) {
+      return Prisma.sql`ts_rank_cd(i."searchVector", websearch_to_tsquery('english', ${filters.query})) ${direction}, i."createdAt" DESC, i."id" ASC`;
+    }
 
-  private generateFacets(items: ContentLibraryItem[]): ContentSearchResult['facets'] {
-    return {
-      types: this.generateFacetCounts(items, 'type'),
-      platforms: this.generateFacetCounts(items, item => item.metadata.platform).filter(f => f.value),
-      tags: this.getTopTags(items, 20).map(t => ({ value: t.tag, count: t.count })),
-      authors: this.getTopAuthors(items, 10).map(a => ({ value: a.author, count: a.count })),
-      statuses: this.generateFacetCounts(items, item => item.metadata.status),
-    };
+    // Relevance without a query has nothing to rank on; fall back to recency
+    const column = SORT_COLUMNS[filters.sortBy === 'relevance' ? 'created' : filters.sortBy];
+    return Prisma.sql`${column} ${direction} NULLS LAST, i."id" ASC`;
   }
 
-  private generateFacetCounts<T>(items: ContentLibraryItem[], accessor: string | ((item: ContentLibraryItem) => T)): Array<{ value: string; count: number }> {
-    const counts: Record<string, number> = {};
-    
-    items.forEach(item => {
-      const value = typeof accessor === 'string' ? item[accessor as keyof ContentLibraryItem] : accessor(item);
-      const stringValue = String(value);
-      if (stringValue && stringValue !== 'undefined') {
-        counts[stringValue] = (counts[stringValue] || 0) + 1;
-      }
-    });
+  private async searchFacets(where: Prisma.Sql): Promise<ContentSearchResult['facets']> {
+    const [types, platforms, tags, authors, statuses] = await Promise.all([
+      this.facetCounts(Prisma.sql`lower(i."type"::text)`, where),
+      this.facetCounts(Prisma.sql`i."platform"`, where),
+      this.tagCounts(where, 20),
+      this.facetCounts(Prisma.sql`i."authorName"`, where, 10),
+      this.facetCounts(Prisma.sql`lower(i."status"::text)`, where),
+    ]);
 
-    return Object.entries(counts)
-      .map(([value, count]) => ({ value, count }))
-      .sort((a, b) => b.count - a.count);
+    return { types, platforms, tags, authors, statuses };
   }
 
-  private generateSearchSuggestions(query: string, items: ContentLibraryItem[]): string[] {
-    // Simple implementation - in practice, would use more sophisticated matching
-    const suggestions = new Set<string>();
-    const queryLower = query.toLowerCase();
-
-    items.forEach(item => {
-      // Add title suggestions
-      if (item.title.toLowerCase().includes(queryLower)) {
-        suggestions.add(item.title);
-      }
+  private facetCounts(value: Prisma.Sql, where: Prisma.Sql, limit = 20): Promise<Array<{ value: string; count: number }>> {
+    return this.db.$queryRaw<Array<{ value: string; count: number }>>`
+      SELECT ${value} AS value, COUNT(*)::int AS count
+      FROM "public"."content_library_items" i
+      WHERE ${where} AND ${value} IS NOT NULL
+      GROUP BY 1
+      ORDER BY count DESC, value ASC
+      LIMIT ${limit}`;
+  }
 
-      // Add tag suggestions
-      item.tags.forEach(tag => {
-        if (tag.toLowerCase().includes(queryLower)) {
-          suggestions.add(tag);
-        }
-      });
-    });
+  private tagCounts(where: Prisma.Sql, limit: number): Promise<Array<{ value: string; count: number }>> {
+    return this.db.$queryRaw<Array<{ value: string; count: number }>>`
+      SELECT t.tag AS value, COUNT(*)::int AS count
+      FROM "public"."content_library_items" i
+      CROSS JOIN LATERAL unnest(i."tags") AS t(tag)
+      WHERE ${where}
+      GROUP BY t.tag
+      ORDER BY count DESC, value ASC
+      LIMIT ${limit}`;
+  }
 
-    return Array.from(suggestions).slice(0, 5);
+  private async searchSuggestions(organizationId: string, query: string): Promise<string[]> {
+    const pattern = `%${query.replace(/[\\%_]/g, '\\$&')}%`;
+    const rows = await this.db.$queryRaw<Array<{ value: string }>>`
+      SELECT i."title" AS value
+      FROM "public"."content_library_items" i
+      WHERE i."organizationId" = ${organizationId} AND i."title" ILIKE ${pattern}
+      UNION
+      SELECT t.tag AS value
+      FROM "public"."content_library_items" i
+      CROSS JOIN LATERAL unnest(i."tags") AS t(tag)
+      WHERE i."organizationId" = ${organizationId} AND t.tag ILIKE ${pattern}
+      LIMIT 5`;
+
+    return rows.map(row => row.value);
   }
 
-  private groupBy<T>(items: T[], accessor: string | ((item: T) => string)): Record<string, number> {
-    const groups: Record<string, number> = {};
-    
-    items.forEach(item => {
-      const key = typeof accessor === 'string' ? String(item[accessor as keyof T]) : accessor(item);
-      groups[key] = (groups[key] || 0) + 1;
-    });
+  private async calculateGrowthMetrics(organizationId: string): Promise<ContentAnalytics['growth']> {
+    const now = Date.now();
+    const oneWeekAgo = new Date(now - 7 * 24 * 60 * 60 * 1000);
+    const oneMonthAgo = new Date(now - 30 * 24 * 60 * 60 * 1000);
+    const twoMonthsAgo = new Date(now - 60 * 24 * 60 * 60 * 1000);
 
-    return groups;
-  }
+    const [itemsLastWeek, itemsLastMonth, itemsSecondMonth] = await Promise.all([
+      this.db.contentLibraryItem.count({ where: { organizationId, createdAt: { gte: oneWeekAgo } } }),
+      this.db.contentLibraryItem.count({ where: { organizationId, createdAt: { gte: oneMonthAgo } } }),
+      this.db.contentLibraryItem.count({ where: { organizationId, createdAt: { gte: twoMonthsAgo, lt: oneMonthAgo } } }),
+    ]);
 
-  private getTopTags(items: ContentLibraryItem[], limit: number): Array<{ tag: string; count: number }> {
-    const tagCounts: Record<string, number> = {};
-    
-    items.forEach(item => {
-      item.tags.forEach(tag => {
-        tagCounts[tag] = (tagCounts[tag] || 0) + 1;
-      });
-    });
+    const growthRate = itemsSecondMonth > 0
+      ? ((itemsLastMonth - itemsSecondMonth) / itemsSecondMonth) * 100
+      : itemsLastMonth > 0 ? 100 : 0;
 
-    return Object.entries(tagCounts)
-      .map(([tag, count]) => ({ tag, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, limit);
+    return {
+      itemsCreatedLastWeek: itemsLastWeek,
+      itemsCreatedLastMonth: itemsLastMonth,
+      growthRate,
+    };
   }
 
-  private getTopAuthors(items: ContentLibraryItem[], limit: number): Array<{ author: string; count: number }> {
-    const authorCounts: Record<string, number> = {};
-    
-    items.forEach(item => {
-      const author = item.metadata.author;
-      authorCounts[author] = (authorCounts[author] || 0) + 1;
-    });
+  private async assertCollectionsInOrganization(collectionIds: string[], organizationId: string): Promise<void> {
+    if (collectionIds.length === 0) {
+      return;
+    }
 
-    return Object.entries(authorCounts)
-      .map(([author, count]) => ({ author, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, limit);
+    const found = await this.db.contentCollection.count({
+      where: { id: { in: collectionIds }, organizationId },
+    });
+    if (found !== collectionIds.length) {
+      throw new ValidationError('Collection not found or access denied', 'collections', collectionIds);
+    }
   }
 
-  private calculateAverageEngagement(items: ContentLibraryItem[]): number {
-    const itemsWithEngagement = items.filter(item => item.metadata.performance?.engagement);
-    if (itemsWithEngagement.length === 0) return 0;
+  private async assertMembershipAccess(itemId: string, collectionId: string, organizationId: string): Promise<void> {
+    const [item, collection] = await Promise.all([
+      this.db.contentLibraryItem.findUnique({ where: { id: itemId }, select: { organizationId: true } }),
+      this.db.contentCollection.findUnique({ where: { id: collectionId }, select: { organizationId: true } }),
+    ]);
 
-    const total = itemsWithEngagement.reduce((sum, item) => 
-      sum + (item.metadata.performance?.engagement || 0), 0
-    );
-    
-    return total / itemsWithEngagement.length;
-  }
+    if (!item || item.organizationId !== organizationId) {
+      throw new ValidationError('Item not found or access denied', 'itemId', itemId);
+    }
 
-  private getTopPerformingItems(items: ContentLibraryItem[], limit: number): ContentLibraryItem[] {
-    return items
-      .filter(item => item.metadata.performance?.score)
-      .sort((a, b) => (b.metadata.performance?.score || 0) - (a.metadata.performance?.score || 0))
-      .slice(0, limit);
+    if (!collection || collection.organizationId !== organizationId) {
+      throw new ValidationError('Collection not found or access denied', 'collectionId', collectionId);
+    }
   }
 
-  private getUnderperformingItems(items: ContentLibraryItem[], limit: number): ContentLibraryItem[] {
-    return items
-      .filter(item => item.metadata.performance?.score)
-      .sort((a, b) => (a.metadata.performance?.score || 0) - (b.metadata.performance?.score || 0))
-      .slice(0, limit);
-  }
+  private buildSearchableContent(item: any): string {
+    const parts = [
+      item.title,
+      item.description,
+      item.content?.body,
+      ...(item.tags || []),
+      ...(item.categories || []),
+      ...(item.content?.hashtags || []),
+      item.metadata?.author,
+    ];
 
-  private getMostUsedItems(items: ContentLibraryItem[], limit: number): ContentLibraryItem[] {
-    return items
-      .filter(item => item.metadata.usage?.timesUsed)
-      .sort((a, b) => (b.metadata.usage?.timesUsed || 0) - (a.metadata.usage?.timesUsed || 0))
-      .slice(0, limit);
+    return parts
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase()
+      .replace(/[^\w\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
   }
 
-  private getRecentlyUpdatedItems(items: ContentLibraryItem[], limit: number): ContentLibraryItem[] {
-    return items
-      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
-      .slice(0, limit);
+  private toDbType(type: ContentLibraryItem['type']): LibraryItemType {
+    return type.toUpperCase() as LibraryItemType;
   }
 
-  private getStaleContent(items: ContentLibraryItem[], daysThreshold: number): ContentLibraryItem[] {
-    const thresholdDate = new Date();
-    thresholdDate.setDate(thresholdDate.getDate() - daysThreshold);
-
-    return items.filter(item => 
-      item.updatedAt < thresholdDate && 
-      item.metadata.status === 'published'
-    );
+  private toDbStatus(status: ContentLibraryItem['metadata']['status']): LibraryItemStatus {
+    return status.toUpperCase() as LibraryItemStatus;
   }
 
-  private calculateGrowthMetrics(items: ContentLibraryItem[]): ContentAnalytics['growth'] {
-    const now = new Date();
-    const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-    const oneMonthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-    const twoMonthsAgo = new Date(now.getTime() - 60 * 24 * 60 * 60 * 1000);
+  private toJson(value: unknown): Prisma.InputJsonValue | undefined {
+    return value === undefined || value === null ? undefined : (value as Prisma.InputJsonValue);
+  }
 
-    const itemsLastWeek = items.filter(item => item.createdAt >= oneWeekAgo).length;
-    const itemsLastMonth = items.filter(item => item.createdAt >= oneMonthAgo).length;
-    const itemsSecondMonth = items.filter(item => 
-      item.createdAt >= twoMonthsAgo && item.createdAt < oneMonthAgo
-    ).length;
+  private toLibraryItem(record: LibraryItemRecord): ContentLibraryItem {
+    const item: ContentLibraryItem = {
+      id: record.id,
+      organizationId: record.organizationId,
+      type: record.type.toLowerCase() as ContentLibraryItem['type'],
+      title: record.title,
+      description: record.description ?? undefined,
+      content: {
+        body: record.body ?? undefined,
+        platform: record.platform ?? undefined,
+        contentType: record.contentType ?? undefined,
+        hashtags: record.hashtags,
+        mentions: record.mentions,
+        mediaRefs: record.mediaRefs ?? undefined,
+      },
+      metadata: {
+        author: record.authorName,
+        authorId: record.authorId,
+        version: record.version,
+        status: record.status.toLowerCase() as ContentLibraryItem['metadata']['status'],
+        platform: record.platform ?? undefined,
+        contentType: record.contentType ?? undefined,
+        pillarId: record.pillarId ?? undefined,
+        seriesId: record.seriesId ?? undefined,
+        campaignId: record.campaignId ?? undefined,
+        performance: {
+          impressions: record.impressions ?? undefined,
+          engagement: record.engagement ?? undefined,
+          clicks: record.clicks ?? undefined,
+          conversions: record.conversions ?? undefined,
+          score: record.performanceScore ?? undefined,
+        },
+        usage: {
+          timesUsed: record.timesUsed,
+          lastUsed: record.lastUsedAt ?? undefined,
+          copiedCount: record.copiedCount,
+          sharedCount: record.sharedCount,
+        },
+        ai: {
+          generated: record.aiGenerated,
+          generatedBy: record.generatedBy ?? undefined,
+          confidence: record.aiConfidence ?? undefined,
+          variations: record.aiVariations ?? undefined,
+        },
+      },
+      tags: record.tags,
+      categories: record.categories,
+      collections: record.collections.map(membership => membership.collectionId),
+      permissions: {
+        isPublic: record.isPublic,
+        sharedWith: record.sharedWith,
+        canEdit: record.canEdit,
+        canView: record.canView,
+      },
+      searchableContent: '',
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
 
-    const growthRate = itemsSecondMonth > 0 
-      ? ((itemsLastMonth - itemsSecondMonth) / itemsSecondMonth) * 100 
-      : itemsLastMonth > 0 ? 100 : 0;
+    item.searchableContent = this.buildSearchableContent(item);
+    return item;
+  }
 
+  private toCollection(record: CollectionRecord): ContentCollection {
     return {
-      itemsCreatedLastWeek: itemsLastWeek,
-      itemsCreatedLastMonth: itemsLastMonth,
-      growthRate,
+      id: record.id,
+      organizationId: record.organizationId,
+      name: record.name,
+      description: record.description ?? undefined,
+      color: record.color ?? undefined,
+      icon: record.icon ?? undefined,
+      ownerId: record.ownerId,
+      itemIds: record.items.map(membership => membership.itemId),
+      tags: record.tags,
+      isPublic: record.isPublic,
+      sharedWith: record.sharedWith,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
     };
   }
 }
@@ -1,8 +1,6 @@
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-import { config } from '../config/config';
 import { z } from 'zod';
 import { OrganizationData } from './ai-strategy';
+import { LLMClient, LLMProviderName, llmClient } from './llm';
 
 export interface ContentPillarRequest {
   organization: OrganizationData;
@@ -100,84 +98,98 @@ const ContentPillarRequestSchema = z.object({
   }).optional(),
 });
 
-export class ContentPillarService {
-  private openai: OpenAI;
-  private anthropic: Anthropic;
+const ContentPillarSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  emoji: z.string().default(''),
+  color: z.string().default('#6B7280'),
+  percentage: z.number().min(0).max(100),
+  keywords: z.array(z.string()).default([]),
+  contentTypes: z.array(z.string()).default([]),
+  platforms: z.array(z.string()).default([]),
+  examples: z.object({
+    headlines: z.array(z.string()).default([]),
+    hooks: z.array(z.string()).default([]),
+    topics: z.array(z.string()).default([]),
+  }).default({}),
+  metrics: z.object({
+    expectedEngagement: z.number().default(0),
+    difficulty: z.enum(['low', 'medium', 'high']).default('medium'),
+    frequency: z.enum(['daily', 'weekly', 'bi-weekly', 'monthly']).default('weekly'),
+  }).default({}),
+  audience: z.object({
+    segments: z.array(z.string()).default([]),
+    painPoints: z.array(z.string()).default([]),
+    interests: z.array(z.string()).default([]),
+  }).default({}),
+});
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: config.ai.openai.apiKey,
-    });
+const PillarAnalysisResponseSchema = z.object({
+  pillars: z.array(ContentPillarSchema).min(1),
+  distribution: z.object({
+    recommended: z.record(z.number()),
+    rationale: z.string().default(''),
+  }),
+  contentGaps: z.object({
+    identified: z.array(z.string()).default([]),
+    opportunities: z.array(z.string()).default([]),
+  }).default({}),
+  competitiveAnalysis: z.object({
+    commonPillars: z.array(z.string()).default([]),
+    uniqueOpportunities: z.array(z.string()).default([]),
+    differentiationStrategy: z.string().default(''),
+  }).default({}),
+  confidence: z.number().min(0).max(1).default(0.7),
+});
 
-    this.anthropic = new Anthropic({
-      apiKey: config.ai.anthropic.apiKey,
-    });
-  }
+const PillarOptimizationResponseSchema = z.object({
+  optimizedPillars: z.array(ContentPillarSchema).default([]),
+  recommendations: z.object({
+    redistribute: z.array(z.object({ from: z.string(), to: z.string(), percentage: z.number() })).default([]),
+    improve: z.array(z.object({ pillarId: z.string(), suggestions: z.array(z.string()) })).default([]),
+    retire: z.array(z.object({ pillarId: z.string(), reason: z.string() })).default([]),
+    new: z.array(ContentPillarSchema).default([]),
+  }),
+});
 
-  async identifyPillars(request: ContentPillarRequest, provider: 'openai' | 'anthropic' = 'openai'): Promise<PillarAnalysisResult> {
-    const validatedRequest = ContentPillarRequestSchema.parse(request);
+const PillarContentResponseSchema = z.object({
+  ideas: z.array(z.object({
+    title: z.string(),
+    hook: z.string(),
+    platform: z.string(),
+    contentType: z.string(),
+    expectedEngagement: z.number(),
+    difficulty: z.enum(['low', 'medium', 'high']),
+  })),
+});
 
-    if (provider === 'openai') {
-      return await this.identifyWithOpenAI(validatedRequest);
-    } else {
-      return await this.identifyWithAnthropic(validatedRequest);
-    }
+export class ContentPillarService {
+  private llm: LLMClient;
+
+  constructor(llm: LLMClient = llmClient) {
+    this.llm = llm;
   }
 
-  private async identifyWithOpenAI(request: ContentPillarRequest): Promise<PillarAnalysisResult> {
-    const prompt = this.buildPillarIdentificationPrompt(request);
-
-    const completion = await this.openai.chat.completions.create({
-      model: config.ai.openai.model,
-      messages: [
-        {
-          role: 'system',
-          content: `You are a content strategist specializing in pillar-based content marketing. You analyze companies and create strategic content pillars that drive engagement, build authority, and support business goals. Each pillar should be distinct, valuable to the target audience, and aligned with the company's expertise and objectives.`
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
+  async identifyPillars(request: ContentPillarRequest, provider?: LLMProviderName): Promise<PillarAnalysisResult> {
+    const validatedRequest = ContentPillarRequestSchema.parse(request) as ContentPillarRequest;
+
+    const { data, generatedBy } = await this.llm.generateStructured({
+      task: 'pillars.identify',
+      system: "You are a content strategist specializing in pillar-based content marketing. You analyze companies and create strategic content pillars that drive engagement, build authority, and support business goals. Each pillar should be distinct, valuable to the target audience, and aligned with the company's expertise and objectives.",
+      prompt: this.buildPillarIdentificationPrompt(validatedRequest),
+      schema: PillarAnalysisResponseSchema,
+      provider,
       temperature: 0.6,
-      max_tokens: 4000,
-      response_format: { type: "json_object" }
+      maxTokens: 4000,
     });
 
-    const result = JSON.parse(completion.choices[0].message.content || '{}');
-    
     return {
-      ...result,
-      generatedBy: `openai-${config.ai.openai.model}`
+      ...data,
+      generatedBy,
     };
   }
 
-  private async identifyWithAnthropic(request: ContentPillarRequest): Promise<PillarAnalysisResult> {
-    const prompt = this.buildPillarIdentificationPrompt(request);
-
-    const message = await this.anthropic.messages.create({
-      model: config.ai.anthropic.model,
-      max_tokens: 4000,
-      messages: [{
-        role: 'user',
-        content: `You are a content strategist specializing in pillar-based content marketing. ${prompt}`
-      }]
-    });
-
-    const content = message.content[0].type === 'text' ? message.content[0].text : '{}';
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    
-    if (jsonMatch) {
-      const result = JSON.parse(jsonMatch[0]);
-      return {
-        ...result,
-        generatedBy: `anthropic-${config.ai.anthropic.model}`
-      };
-    }
-    
-    throw new Error('Failed to identify content pillars');
-  }
-
   private buildPillarIdentificationPrompt(request: ContentPillarRequest): string {
     const { organization, existingContent, competitors, preferences } = request;
 
@@ -302,7 +314,7 @@ Guidelines:
         contentVolume: number;
       };
     }>,
-    provider: 'openai' | 'anthropic' = 'openai'
+    provider?: LLMProviderName
   ): Promise<{
     optimizedPillars: ContentPillar[];
     recommendations: {
@@ -347,32 +359,16 @@ Please provide optimization recommendations in JSON format:
   }
 }`;
 
-    if (provider === 'openai') {
-      const completion = await this.openai.chat.completions.create({
-        model: config.ai.openai.model,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.4,
-        max_tokens: 3000,
-        response_format: { type: "json_object" }
-      });
-
-      return JSON.parse(completion.choices[0].message.content || '{}');
-    } else {
-      const message = await this.anthropic.messages.create({
-        model: config.ai.anthropic.model,
-        max_tokens: 3000,
-        messages: [{ role: 'user', content: prompt }]
-      });
+    const { data } = await this.llm.generateStructured({
+      task: 'pillars.optimize',
+      prompt,
+      schema: PillarOptimizationResponseSchema,
+      provider,
+      temperature: 0.4,
+      maxTokens: 3000,
+    });
 
-      const content = message.content[0].type === 'text' ? message.content[0].text : '{}';
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      
-      throw new Error('Failed to optimize content pillars');
-    }
+    return data;
   }
 
   // Method to generate content ideas for a specific pillar
@@ -380,7 +376,7 @@ Please provide optimization recommendations in JSON format:
     pillar: ContentPillar,
     count: number = 10,
     platforms: string[] = ['twitter', 'linkedin'],
-    provider: 'openai' | 'anthropic' = 'openai'
+    provider?: LLMProviderName
   ): Promise<{
     ideas: Array<{
       title: string;
@@ -419,32 +415,16 @@ Guidelines:
 4. Focus on value-driven content that serves the target audience
 5. Balance educational, entertaining, and promotional content`;
 
-    if (provider === 'openai') {
-      const completion = await this.openai.chat.completions.create({
-        model: config.ai.openai.model,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.7,
-        max_tokens: 2000,
-        response_format: { type: "json_object" }
-      });
-
-      return JSON.parse(completion.choices[0].message.content || '{}');
-    } else {
-      const message = await this.anthropic.messages.create({
-        model: config.ai.anthropic.model,
-        max_tokens: 2000,
-        messages: [{ role: 'user', content: prompt }]
-      });
+    const { data } = await this.llm.generateStructured({
+      task: 'pillars.content',
+      prompt,
+      schema: PillarContentResponseSchema,
+      provider,
+      temperature: 0.7,
+      maxTokens: 2000,
+    });
 
-      const content = message.content[0].type === 'text' ? message.content[0].text : '{}';
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      
-      throw new Error('Failed to generate pillar content');
-    }
+    return data;
   }
 
   // Method to analyze content distribution across pillars
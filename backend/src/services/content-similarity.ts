@@ -0,0 +1,369 @@
+import crypto from 'crypto';
+import { PrismaClient, Platform } from '@prisma/client';
+import { format, subMonths } from 'date-fns';
+import { config } from '../config/config';
+import { LLMClient, llmClient } from './llm';
+
+export type SimilarityMethod = 'minhash' | 'embedding';
+
+export interface SimilarContentMatch {
+  contentPieceId: string;
+  title: string | null;
+  platform: Platform;
+  publishedAt: Date | null;
+  similarity: number; // 0-1
+  method: SimilarityMethod;
+  summary: string; // e.g. `87% similar to "Launch recap" from March 2026`
+}
+
+export interface SimilarPair {
+  contentPieceIds: [string, string];
+  similarity: number;
+  method: SimilarityMethod;
+}
+
+export interface FindSimilarOptions {
+  limit?: number;
+  months?: number; // How far back to look through published content
+  excludeContentPieceIds?: string[];
+  now?: Date;
+}
+
+interface FingerprintSource {
+  id: string;
+  organizationId: string;
+  body: string;
+}
+
+interface Fingerprint {
+  minhash: number[];
+  embedding: number[];
+  embeddingModel: string | null;
+}
+
+const SHINGLE_SIZE = 5;
+const MINHASH_PERMUTATIONS = 128;
+const EMBEDDING_BATCH_SIZE = 100;
+const DEFAULT_MATCH_LIMIT = 10;
+
+// Fixed seeds keep signatures comparable across processes and deploys
+const MINHASH_SEEDS = (() => {
+  let state = 0x9e3779b9;
+  return Array.from({ length: MINHASH_PERMUTATIONS }, () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), state | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return (value ^ (value >>> 14)) >>> 0;
+  });
+})();
+
+/**
+ * Lowercase, strip accents, links and punctuation, and collapse whitespace so
+ * formatting changes do not count as differences
+ */
+export function normalizeForSimilarity(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * MinHash signature over character shingles of the normalized text. Values
+ * are signed 32-bit integers so they fit a Postgres INTEGER[] column.
+ */
+export function minhashSignature(text: string): number[] {
+  const normalized = normalizeForSimilarity(text);
+  const shingles = new Set<number>();
+  if (normalized.length <= SHINGLE_SIZE) {
+    shingles.add(fnv1a(normalized));
+  } else {
+    for (let i = 0; i <= normalized.length - SHINGLE_SIZE; i++) {
+      shingles.add(fnv1a(normalized.substring(i, i + SHINGLE_SIZE)));
+    }
+  }
+
+  return MINHASH_SEEDS.map(seed => {
+    let min = 0xffffffff;
+    for (const shingle of shingles) {
+      const hashed = fmix32(shingle ^ seed);
+      if (hashed < min) {
+        min = hashed;
+      }
+    }
+    return min | 0;
+  });
+}
+
+/**
+ * Estimated Jaccard similarity of the shingle sets behind two signatures
+ */
+export function estimateJaccard(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) {
+      equal++;
+    }
+  }
+  return equal / a.length;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Near-duplicate detection for content pieces. Every piece gets a stored
+ * MinHash fingerprint, plus an embedding from the provider layer when
+ * SIMILARITY_USE_EMBEDDINGS is on. Two pieces match when either measure
+ * clears its threshold; MinHash catches copy-edits, embeddings catch
+ * paraphrases.
+ */
+export class ContentSimilarityService {
+  constructor(
+    private prisma: PrismaClient,
+    private llm: LLMClient = llmClient,
+    private settings: typeof config.similarity = config.similarity
+  ) {}
+
+  /**
+   * Published content from the last few months that is similar to `text`
+   */
+  async findSimilar(organizationId: string, text: string, options: FindSimilarOptions = {}): Promise<SimilarContentMatch[]> {
+    const [embedded] = this.settings.useEmbeddings ? await this.embed([text]) : [undefined];
+    return this.matchAgainstPublished(organizationId, {
+      minhash: minhashSignature(text),
+      embedding: embedded?.vector || [],
+      embeddingModel: embedded?.model || null,
+    }, options);
+  }
+
+  /**
+   * Published content similar to an existing piece. Resolves to null when the
+   * piece does not exist.
+   */
+  async findSimilarToContent(contentPieceId: string, options: FindSimilarOptions = {}): Promise<SimilarContentMatch[] | null> {
+    const piece = await this.prisma.contentPiece.findUnique({ where: { id: contentPieceId } });
+    if (!piece) {
+      return null;
+    }
+
+    const fingerprints = await this.ensureFingerprints([piece]);
+    return this.matchAgainstPublished(piece.organizationId, fingerprints.get(piece.id)!, {
+      ...options,
+      excludeContentPieceIds: [...(options.excludeContentPieceIds || []), piece.id],
+    });
+  }
+
+  /**
+   * Score a piece against the organization's recent published content and
+   * store its closest match on the fingerprint
+   */
+  async scoreContentPiece(contentPieceId: string, now: Date = new Date()): Promise<SimilarContentMatch | null> {
+    const matches = await this.findSimilarToContent(contentPieceId, { limit: 1, now });
+    if (!matches) {
+      return null;
+    }
+
+    const [nearest] = matches;
+    await this.prisma.contentFingerprint.update({
+      where: { contentPieceId },
+      data: {
+        nearestContentPieceId: nearest?.contentPieceId ?? null,
+        nearestSimilarity: nearest?.similarity ?? null,
+        scoredAt: now,
+      },
+    });
+
+    return nearest ?? null;
+  }
+
+  /**
+   * Every pair of the given pieces that counts as a near-duplicate
+   */
+  async similarPairs(pieces: FingerprintSource[]): Promise<SimilarPair[]> {
+    const unique = [...new Map(pieces.map(piece => [piece.id, piece])).values()];
+    const fingerprints = await this.ensureFingerprints(unique);
+    const pairs: SimilarPair[] = [];
+
+    for (let i = 0; i < unique.length; i++) {
+      for (let j = i + 1; j < unique.length; j++) {
+        const score = this.compare(fingerprints.get(unique[i].id)!, fingerprints.get(unique[j].id)!);
+        if (score) {
+          pairs.push({ contentPieceIds: [unique[i].id, unique[j].id], ...score });
+        }
+      }
+    }
+
+    return pairs;
+  }
+
+  private async matchAgainstPublished(
+    organizationId: string,
+    probe: Fingerprint,
+    options: FindSimilarOptions
+  ): Promise<SimilarContentMatch[]> {
+    const now = options.now || new Date();
+    const published = await this.prisma.contentPiece.findMany({
+      where: {
+        organizationId,
+        status: 'PUBLISHED',
+        publishedAt: { gte: subMonths(now, options.months ?? this.settings.lookbackMonths) },
+        id: options.excludeContentPieceIds?.length ? { notIn: options.excludeContentPieceIds } : undefined,
+      },
+      orderBy: { publishedAt: 'desc' },
+    });
+
+    const fingerprints = await this.ensureFingerprints(published);
+    const matches: SimilarContentMatch[] = [];
+
+    for (const piece of published) {
+      const score = this.compare(probe, fingerprints.get(piece.id)!);
+      if (score) {
+        matches.push({
+          contentPieceId: piece.id,
+          title: piece.title,
+          platform: piece.platform,
+          publishedAt: piece.publishedAt,
+          ...score,
+          summary: this.describe(score.similarity, piece.title, piece.body, piece.publishedAt),
+        });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, options.limit ?? DEFAULT_MATCH_LIMIT);
+  }
+
+  private compare(a: Fingerprint, b: Fingerprint): { similarity: number; method: SimilarityMethod } | null {
+    const jaccard = estimateJaccard(a.minhash, b.minhash);
+    // Vectors from different models are not comparable
+    const cosine = a.embedding.length && a.embeddingModel === b.embeddingModel && a.embedding.length === b.embedding.length
+      ? cosineSimilarity(a.embedding, b.embedding)
+      : undefined;
+
+    if (cosine !== undefined && cosine >= this.settings.embeddingThreshold && cosine > jaccard) {
+      return { similarity: round(cosine), method: 'embedding' };
+    }
+    if (jaccard >= this.settings.minhashThreshold) {
+      return { similarity: round(jaccard), method: 'minhash' };
+    }
+    return null;
+  }
+
+  /**
+   * Load stored fingerprints, rebuilding the ones whose text changed (or that
+   * lack an embedding while embeddings are on)
+   */
+  private async ensureFingerprints(pieces: FingerprintSource[]): Promise<Map<string, Fingerprint>> {
+    const result = new Map<string, Fingerprint>();
+    if (pieces.length === 0) {
+      return result;
+    }
+
+    const stored = await this.prisma.contentFingerprint.findMany({
+      where: { contentPieceId: { in: pieces.map(piece => piece.id) } },
+    });
+    const storedById = new Map(stored.map(fingerprint => [fingerprint.contentPieceId, fingerprint]));
+    const stale: Array<FingerprintSource & { textHash: string }> = [];
+
+    for (const piece of pieces) {
+      const textHash = crypto.createHash('sha256').update(normalizeForSimilarity(piece.body)).digest('hex');
+      const existing = storedById.get(piece.id);
+      if (existing && existing.textHash === textHash && (!this.settings.useEmbeddings || existing.embedding.length > 0)) {
+        result.set(piece.id, existing);
+      } else {
+        stale.push({ ...piece, textHash });
+      }
+    }
+
+    const embeddings = this.settings.useEmbeddings ? await this.embed(stale.map(piece => piece.body)) : [];
+
+    for (const [index, piece] of stale.entries()) {
+      const fingerprint: Fingerprint = {
+        minhash: minhashSignature(piece.body),
+        embedding: embeddings[index]?.vector || [],
+        embeddingModel: embeddings[index]?.model || null,
+      };
+
+      await this.prisma.contentFingerprint.upsert({
+        where: { contentPieceId: piece.id },
+        create: { organizationId: piece.organizationId, contentPieceId: piece.id, textHash: piece.textHash, ...fingerprint },
+        update: { textHash: piece.textHash, ...fingerprint },
+      });
+      result.set(piece.id, fingerprint);
+    }
+
+    return result;
+  }
+
+  /**
+   * Embed texts in batches. Provider failures fall back to MinHash only
+   * rather than failing the caller.
+   */
+  private async embed(texts: string[]): Promise<Array<{ vector: number[]; model: string } | undefined>> {
+    const vectors: Array<{ vector: number[]; model: string } | undefined> = [];
+
+    for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+      try {
+        const result = await this.llm.embed({
+          task: 'content.similarity',
+          input: batch,
+          provider: this.settings.embeddingProvider,
+        });
+        vectors.push(...result.vectors.map(vector => ({ vector, model: result.generatedBy })));
+      } catch (error: any) {
+        console.warn(`Content embeddings unavailable, using MinHash only: ${error.message}`);
+        vectors.push(...batch.map(() => undefined));
+      }
+    }
+
+    return vectors;
+  }
+
+  private describe(similarity: number, title: string | null, body: string, publishedAt: Date | null): string {
+    const label = title || (body.length > 40 ? `${body.substring(0, 40)}...` : body);
+    const when = publishedAt ? ` from ${format(publishedAt, 'MMMM yyyy')}` : '';
+    return `${Math.round(similarity * 100)}% similar to "${label}"${when}`;
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 finalizer
+function fmix32(value: number): number {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
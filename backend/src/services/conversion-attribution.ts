@@ -0,0 +1,348 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma, Conversion, ConversionType } from '@prisma/client';
+import { subDays } from 'date-fns';
+import { config } from '../config/config';
+import { ValidationError } from '../utils/errors';
+import { LinkTrackingService } from './link-tracking';
+
+export type AttributionModel = 'last_touch' | 'linear';
+
+export interface ConversionInput {
+  organizationId: string;
+  type: ConversionType | 'SIGNUP' | 'DEMO';
+  clickIds?: string[]; // Click ids the visitor arrived with, in any order
+  utmContent?: string; // utm_content from the landing URL, used when there are no click ids
+  externalId?: string;
+  value?: number;
+  occurredAt?: Date;
+}
+
+export interface ConversionResult {
+  conversion: Conversion | null; // Null when an unattributed pixel conversion was dropped
+  attributedPosts: string[];
+  duplicate: boolean;
+}
+
+export interface AttributedCounts {
+  clicks: number;
+  signups: number;
+  demos: number;
+  conversionRate: number; // Conversions per tracked click, as a percentage
+}
+
+export interface PostAttribution extends AttributedCounts {
+  scheduledPostId: string;
+  platform: string;
+  publishedAt: Date | null;
+  title: string | null;
+}
+
+export interface AttributionReport {
+  model: AttributionModel;
+  startDate: Date;
+  endDate: Date;
+  totals: AttributedCounts;
+  unattributed: { signups: number; demos: number };
+  platforms: Array<AttributedCounts & { platform: string }>;
+  posts: PostAttribution[];
+}
+
+interface CreditRow {
+  scheduledPostId: string;
+  signups: number;
+  demos: number;
+}
+
+interface ClickRow {
+  scheduledPostId: string;
+  clicks: number;
+}
+
+// Clock skew allowed on a conversion's occurredAt
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+const MAX_CLICK_IDS = 20;
+
+/**
+ * Conversion ingest and attribution. Signups and demos arrive from the
+ * tracking pixel or server to server, carrying the click ids from the short
+ * links the visitor came through. Each click becomes a touch on its post;
+ * the last-touch model credits the latest touch, the linear model splits
+ * the credit evenly across touches.
+ */
+export class ConversionAttributionService {
+  constructor(
+    private prisma: PrismaClient,
+    private linkTracking: LinkTrackingService = new LinkTrackingService(prisma)
+  ) {}
+
+  /**
+   * Key an organization's servers send conversions with. It is derived from
+   * the signing secret, so rotating the secret rotates every key.
+   */
+  conversionKey(organizationId: string): string {
+    return crypto
+      .createHmac('sha256', config.tracking.conversionSecret)
+      .update(`conversions:${organizationId}`)
+      .digest('hex');
+  }
+
+  verifyConversionKey(organizationId: string, key: string): boolean {
+    const expected = Buffer.from(this.conversionKey(organizationId));
+    const actual = Buffer.from(key);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Store a conversion with its touches. A repeated externalId returns the
+   * stored conversion. With `requireTouch` (the pixel, which anyone can
+   * load), conversions that match no post are dropped. Resolves to null when
+   * the organization does not exist.
+   */
+  async record(
+    input: ConversionInput,
+    options: { source: 'pixel' | 'server'; requireTouch?: boolean; now?: Date }
+  ): Promise<ConversionResult | null> {
+    const now = options.now || new Date();
+    const occurredAt = input.occurredAt || now;
+    if (!['SIGNUP', 'DEMO'].includes(input.type)) {
+      throw new ValidationError('type must be SIGNUP or DEMO', 'type', input.type);
+    }
+    if (occurredAt.getTime() > now.getTime() + FUTURE_TOLERANCE_MS) {
+      throw new ValidationError('occurredAt cannot be in the future', 'occurredAt', occurredAt);
+    }
+    if ((input.clickIds?.length || 0) > MAX_CLICK_IDS) {
+      throw new ValidationError(`At most ${MAX_CLICK_IDS} click ids are accepted`, 'clickIds', input.clickIds?.length);
+    }
+
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: input.organizationId },
+      select: { id: true },
+    });
+    if (!organization) {
+      return null;
+    }
+
+    const type = input.type as ConversionType;
+    if (input.externalId) {
+      const existing = await this.findExisting(input.organizationId, type, input.externalId);
+      if (existing) {
+        return existing;
+      }
+    }
+
+    const touches = await this.touchesFor(input, occurredAt);
+    if (touches.length === 0 && options.requireTouch) {
+      return { conversion: null, attributedPosts: [], duplicate: false };
+    }
+
+    let conversion: Conversion;
+    try {
+      conversion = await this.prisma.conversion.create({
+        data: {
+          organizationId: input.organizationId,
+          type,
+          externalId: input.externalId || null,
+          value: input.value ?? null,
+          source: options.source,
+          occurredAt,
+          touches: {
+            create: touches.map((touch, index) => ({ ...touch, isLast: index === touches.length - 1 })),
+          },
+        },
+      });
+    } catch (error: any) {
+      // Two deliveries of the same conversion raced past the lookup
+      if (error.code === 'P2002' && input.externalId) {
+        const existing = await this.findExisting(input.organizationId, type, input.externalId);
+        if (existing) {
+          return existing;
+        }
+      }
+      throw error;
+    }
+
+    const lastTouch = touches[touches.length - 1];
+    if (lastTouch) {
+      await this.linkTracking.refreshConversionSnapshot(lastTouch.scheduledPostId, now).catch((error: Error) => {
+        console.error(`Failed to update conversion analytics for ${lastTouch.scheduledPostId}:`, error);
+      });
+    }
+
+    return {
+      conversion,
+      attributedPosts: [...new Set(touches.map(touch => touch.scheduledPostId))],
+      duplicate: false,
+    };
+  }
+
+  /**
+   * Tracked clicks and credited conversions per post and platform for
+   * conversions and clicks in [startDate, endDate)
+   */
+  async report(
+    organizationId: string,
+    options: { startDate: Date; endDate: Date; model?: AttributionModel; platform?: string }
+  ): Promise<AttributionReport> {
+    const { startDate, endDate, platform } = options;
+    const model = options.model || 'last_touch';
+    if (startDate >= endDate) {
+      throw new ValidationError('startDate must be before endDate', 'startDate', startDate);
+    }
+
+    // Linear credit splits each conversion across all of its touches
+    const credit = model === 'linear'
+      ? Prisma.sql`1.0 / COUNT(*) OVER (PARTITION BY t."conversionId")`
+      : Prisma.sql`CASE WHEN t."isLast" THEN 1.0 ELSE 0 END`;
+
+    const [credits, clicks, unattributed] = await Promise.all([
+      this.prisma.$queryRaw<CreditRow[]>`
+        SELECT
+          x."scheduledPostId",
+          SUM(CASE WHEN x."type" = 'SIGNUP' THEN x."credit" ELSE 0 END)::float AS "signups",
+          SUM(CASE WHEN x."type" = 'DEMO' THEN x."credit" ELSE 0 END)::float AS "demos"
+        FROM (
+          SELECT t."scheduledPostId", c."type"::text AS "type", ${credit} AS "credit"
+          FROM "public"."conversion_touches" t
+          JOIN "public"."conversions" c ON c."id" = t."conversionId"
+          WHERE c."organizationId" = ${organizationId}
+            AND c."occurredAt" >= ${startDate}
+            AND c."occurredAt" < ${endDate}
+        ) x
+        GROUP BY x."scheduledPostId"`,
+      this.prisma.$queryRaw<ClickRow[]>`
+        SELECT lc."scheduledPostId", COUNT(*)::int AS "clicks"
+        FROM "public"."link_clicks" lc
+        JOIN "public"."tracked_links" tl ON tl."id" = lc."linkId"
+        WHERE tl."organizationId" = ${organizationId}
+          AND lc."clickedAt" >= ${startDate}
+          AND lc."clickedAt" < ${endDate}
+        GROUP BY lc."scheduledPostId"`,
+      this.prisma.conversion.groupBy({
+        by: ['type'],
+        where: { organizationId, occurredAt: { gte: startDate, lt: endDate }, touches: { none: {} } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const creditsByPost = new Map<string, CreditRow>(credits.map(row => [row.scheduledPostId, row]));
+    const clicksByPost = new Map<string, number>(clicks.map(row => [row.scheduledPostId, row.clicks]));
+    const postIds = [...new Set([...creditsByPost.keys(), ...clicksByPost.keys()])];
+    const posts = postIds.length > 0
+      ? await this.prisma.scheduledPost.findMany({
+        where: { id: { in: postIds }, organizationId },
+        select: {
+          id: true,
+          publishedAt: true,
+          socialAccount: { select: { platform: true } },
+          contentPiece: { select: { title: true, body: true } },
+        },
+      })
+      : [];
+
+    const rows: PostAttribution[] = posts
+      .filter(post => !platform || post.socialAccount.platform === platform)
+      .map(post => ({
+        scheduledPostId: post.id,
+        platform: post.socialAccount.platform,
+        publishedAt: post.publishedAt,
+        title: post.contentPiece.title || post.contentPiece.body.slice(0, 80),
+        ...this.counts(
+          clicksByPost.get(post.id) || 0,
+          creditsByPost.get(post.id)?.signups || 0,
+          creditsByPost.get(post.id)?.demos || 0
+        ),
+      }))
+      .sort((a, b) => (b.signups + b.demos) - (a.signups + a.demos) || b.clicks - a.clicks);
+
+    const platforms = [...new Set(rows.map(row => row.platform))].sort().map(name => ({
+      platform: name,
+      ...this.sum(rows.filter(row => row.platform === name)),
+    }));
+    const unattributedCount = (type: string) =>
+      unattributed.find((group: { type: string }) => group.type === type)?._count._all || 0;
+
+    return {
+      model,
+      startDate,
+      endDate,
+      totals: this.sum(rows),
+      unattributed: { signups: unattributedCount('SIGNUP'), demos: unattributedCount('DEMO') },
+      platforms,
+      posts: rows,
+    };
+  }
+
+  /**
+   * Touches oldest first: the given clicks within the attribution window, or
+   * the post named by utm_content when none match
+   */
+  private async touchesFor(
+    input: ConversionInput,
+    occurredAt: Date
+  ): Promise<Array<{ scheduledPostId: string; linkClickId: string | null; touchedAt: Date }>> {
+    const clickIds = [...new Set(input.clickIds || [])];
+    if (clickIds.length > 0) {
+      const clicks = await this.prisma.linkClick.findMany({
+        where: {
+          id: { in: clickIds },
+          link: { organizationId: input.organizationId },
+          clickedAt: { gte: subDays(occurredAt, config.tracking.attributionWindowDays), lte: occurredAt },
+        },
+        orderBy: { clickedAt: 'asc' },
+      });
+      if (clicks.length > 0) {
+        return clicks.map(click => ({ scheduledPostId: click.scheduledPostId, linkClickId: click.id, touchedAt: click.clickedAt }));
+      }
+    }
+
+    if (input.utmContent) {
+      const post = await this.prisma.scheduledPost.findFirst({
+        where: { id: input.utmContent, organizationId: input.organizationId, status: 'PUBLISHED' },
+        select: { id: true },
+      });
+      if (post) {
+        return [{ scheduledPostId: post.id, linkClickId: null, touchedAt: occurredAt }];
+      }
+    }
+
+    return [];
+  }
+
+  private async findExisting(organizationId: string, type: ConversionType, externalId: string): Promise<ConversionResult | null> {
+    const existing = await this.prisma.conversion.findUnique({
+      where: { organizationId_type_externalId: { organizationId, type, externalId } },
+      include: { touches: { select: { scheduledPostId: true } } },
+    });
+    if (!existing) {
+      return null;
+    }
+
+    const { touches, ...conversion } = existing;
+    return {
+      conversion,
+      attributedPosts: [...new Set<string>(touches.map((touch: { scheduledPostId: string }) => touch.scheduledPostId))],
+      duplicate: true,
+    };
+  }
+
+  private sum(rows: AttributedCounts[]): AttributedCounts {
+    return this.counts(
+      rows.reduce((total, row) => total + row.clicks, 0),
+      rows.reduce((total, row) => total + row.signups, 0),
+      rows.reduce((total, row) => total + row.demos, 0)
+    );
+  }
+
+  private counts(clicks: number, signups: number, demos: number): AttributedCounts {
+    return {
+      clicks,
+      signups: this.round(signups),
+      demos: this.round(demos),
+      conversionRate: clicks > 0 ? this.round(((signups + demos) / clicks) * 100) : 0,
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
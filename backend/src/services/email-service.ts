@@ -0,0 +1,44 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../config/config';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Outgoing mail over SMTP. Sending is skipped (and `send` resolves to false)
+ * when no SMTP credentials are configured, as in local development.
+ */
+export class EmailService {
+  private transporter?: Transporter;
+
+  constructor(transporter?: Transporter) {
+    this.transporter = transporter;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.transporter || (config.email.smtpUser && config.email.smtpPass));
+  }
+
+  async send(message: EmailMessage): Promise<boolean> {
+    if (!this.isConfigured()) {
+      return false;
+    }
+
+    this.transporter ??= nodemailer.createTransport({
+      host: config.email.smtpHost,
+      port: config.email.smtpPort,
+      secure: config.email.smtpPort === 465,
+      auth: {
+        user: config.email.smtpUser,
+        pass: config.email.smtpPass,
+      },
+    });
+
+    await this.transporter.sendMail({ from: config.email.from, ...message });
+    return true;
+  }
+}
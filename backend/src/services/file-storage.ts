@@ -0,0 +1,153 @@
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { config } from '../config/config';
+
+/**
+ * Where generated files (calendar exports, analytics reports) live between
+ * being rendered and being downloaded. Keys are `/`-separated relative paths.
+ */
+export interface FileStorage {
+  put(key: string, body: Buffer | string, contentType: string): Promise<void>;
+  /** Resolves to null when no file is stored under the key */
+  getStream(key: string): Promise<Readable | null>;
+  /** Deleting a key that does not exist is not an error */
+  delete(key: string): Promise<void>;
+}
+
+export class LocalFileStorage implements FileStorage {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, body: Buffer | string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, body);
+  }
+
+  async getStream(key: string): Promise<Readable | null> {
+    const filePath = this.resolve(key);
+    try {
+      await fs.promises.access(filePath, fs.constants.R_OK);
+    } catch {
+      return null;
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+export class S3FileStorage implements FileStorage {
+  private s3: S3Client;
+  private bucket: string;
+
+  constructor(bucket: string, region: string) {
+    if (!bucket) {
+      throw new Error('AWS_S3_BUCKET must be set when STORAGE_DRIVER is "s3"');
+    }
+    this.s3 = new S3Client({ region });
+    this.bucket = bucket;
+  }
+
+  async put(key: string, body: Buffer | string, contentType: string): Promise<void> {
+    await this.s3.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    }));
+  }
+
+  async getStream(key: string): Promise<Readable | null> {
+    try {
+      const result = await this.s3.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return result.Body as Readable;
+    } catch (error: any) {
+      if (error?.name === 'NoSuchKey' || error?.$metadata?.httpStatusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.s3.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+let defaultStorage: FileStorage | undefined;
+
+/**
+ * The storage backend selected by STORAGE_DRIVER, created on first use
+ */
+export function getFileStorage(): FileStorage {
+  if (!defaultStorage) {
+    defaultStorage = config.storage.driver === 's3'
+      ? new S3FileStorage(config.storage.s3Bucket, config.storage.s3Region)
+      : new LocalFileStorage(config.storage.localDir);
+  }
+  return defaultStorage;
+}
+
+export interface SignedDownload {
+  url: string;
+  expiresAt: Date;
+}
+
+function downloadSignature(routePath: string, expires: number): string {
+  return crypto
+    .createHmac('sha256', config.storage.signingSecret)
+    .update(`${routePath}:${expires}`)
+    .digest('hex');
+}
+
+/**
+ * Build a short-lived download link for an API path such as
+ * `/api/v1/scheduling/export/<id>`. The route serving the path must call
+ * `verifyDownloadSignature` before streaming the file.
+ */
+export function signDownloadUrl(
+  routePath: string,
+  ttlSeconds: number = config.storage.downloadUrlTtlSeconds,
+  now: Date = new Date()
+): SignedDownload {
+  const expires = Math.floor(now.getTime() / 1000) + ttlSeconds;
+  const query = new URLSearchParams({ expires: String(expires), signature: downloadSignature(routePath, expires) });
+
+  return {
+    url: `${config.baseUrl.replace(/\/$/, '')}${routePath}?${query}`,
+    expiresAt: new Date(expires * 1000),
+  };
+}
+
+export function verifyDownloadSignature(
+  routePath: string,
+  expires: string | undefined,
+  signature: string | undefined,
+  now: Date = new Date()
+): boolean {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 < now.getTime()) {
+    return false;
+  }
+
+  const expected = Buffer.from(downloadSignature(routePath, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,428 @@
+import { Job, Queue } from 'bullmq';
+import { PrismaClient } from '@prisma/client';
+import {
+  redis,
+  contentGenerationQueue,
+  strategyGenerationQueue,
+  addContentGenerationJob,
+  addStrategyGenerationJob,
+  ContentGenerationJob,
+  StrategyGenerationJob,
+} from '../config/redis';
+import { contentGenerationService, ContentGenerationService, ContentGenerationRequest, GeneratedContent } from './content-generation';
+import { aiStrategyService, AIStrategyService, OrganizationData, StrategyGenerationRequest } from './ai-strategy';
+import { ContentSimilarityService, SimilarContentMatch } from './content-similarity';
+import { ValidationError } from '../utils/errors';
+
+export type GenerationJobKind = 'content' | 'strategy';
+
+export type GenerationJobState =
+  | 'waiting'
+  | 'delayed'
+  | 'active'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'unknown';
+
+export interface GenerationProgress {
+  percent: number;
+  completed: number;
+  total: number;
+  contentPieceIds?: string[];
+  similarContent?: Record<string, SimilarContentMatch>;
+}
+
+export interface ContentGenerationJobResult {
+  contentPieceIds: string[];
+  // Closest published piece for each generated piece that repeats earlier content
+  similarContent: Record<string, SimilarContentMatch>;
+  cancelled: boolean;
+}
+
+export interface StrategyGenerationJobResult {
+  strategyId?: string;
+  version?: number;
+  cancelled: boolean;
+}
+
+export interface GenerationJobStatus {
+  jobId: string;
+  kind: GenerationJobKind;
+  organizationId: string;
+  state: GenerationJobState;
+  progress: GenerationProgress;
+  result?: ContentGenerationJobResult | StrategyGenerationJobResult;
+  error?: string;
+  attemptsMade: number;
+  createdAt?: Date;
+  finishedAt?: Date;
+}
+
+export type StrategyPreferences = StrategyGenerationRequest['preferences'];
+
+type GeneratedStrategy = Awaited<ReturnType<AIStrategyService['generateStrategy']>>;
+
+const MAX_PIECES_PER_JOB = 200;
+const CANCEL_FLAG_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Runs content and strategy generation off the request path.
+ *
+ * Routes enqueue work and hand back a job id; the generation worker calls the
+ * `process*` methods, which persist results as `ContentPiece` / `AIStrategy`
+ * rows and report progress on the BullMQ job. Cancellation removes jobs that
+ * have not started yet and raises a Redis flag for running ones, which the
+ * processor checks between pieces so bulk runs stop at the next boundary.
+ */
+export class GenerationJobService {
+  private prisma: PrismaClient;
+  private contentService: ContentGenerationService;
+  private strategyService: AIStrategyService;
+  private similarity: ContentSimilarityService;
+
+  constructor(
+    prisma: PrismaClient,
+    contentService: ContentGenerationService = contentGenerationService,
+    strategyService: AIStrategyService = aiStrategyService,
+    similarity: ContentSimilarityService = new ContentSimilarityService(prisma)
+  ) {
+    this.prisma = prisma;
+    this.contentService = contentService;
+    this.strategyService = strategyService;
+    this.similarity = similarity;
+  }
+
+  // ============================================
+  // ENQUEUEING
+  // ============================================
+
+  async enqueueContentGeneration(data: ContentGenerationJob): Promise<GenerationJobStatus> {
+    const count = data.count ?? 1;
+    if (count < 1 || count > MAX_PIECES_PER_JOB) {
+      throw new ValidationError(`count must be between 1 and ${MAX_PIECES_PER_JOB}`, 'count', count);
+    }
+
+    const job = await addContentGenerationJob({ ...data, count });
+    return this.toStatus('content', job);
+  }
+
+  async enqueueStrategyGeneration(data: StrategyGenerationJob): Promise<GenerationJobStatus> {
+    // Fail fast on unknown organizations instead of burning a worker slot
+    await this.loadOrganizationData(data.organizationId);
+
+    const job = await addStrategyGenerationJob(data);
+    return this.toStatus('strategy', job);
+  }
+
+  // ============================================
+  // STATUS & CANCELLATION
+  // ============================================
+
+  /**
+   * Look up a job, scoped to the organization that created it. Returns null when
+   * the job does not exist (or has been cleaned up) or belongs to someone else.
+   */
+  async getJobStatus(kind: GenerationJobKind, jobId: string, organizationId: string): Promise<GenerationJobStatus | null> {
+    const job = await this.findJob(kind, jobId, organizationId);
+    return job ? this.toStatus(kind, job) : null;
+  }
+
+  async cancelJob(kind: GenerationJobKind, jobId: string, organizationId: string): Promise<GenerationJobStatus | null> {
+    const job = await this.findJob(kind, jobId, organizationId);
+    if (!job) {
+      return null;
+    }
+
+    const state = await job.getState();
+    if (state === 'completed' || state === 'failed') {
+      return this.toStatus(kind, job);
+    }
+
+    await redis.set(this.cancelKey(kind, jobId), '1', 'EX', CANCEL_FLAG_TTL_SECONDS);
+
+    if (state !== 'active') {
+      // Not picked up yet, so nothing has been persisted; drop it from the queue
+      const status = await this.toStatus(kind, job);
+      await job.remove();
+      return { ...status, state: 'cancelled' };
+    }
+
+    return this.toStatus(kind, job);
+  }
+
+  // ============================================
+  // PROCESSORS (called by the generation worker)
+  // ============================================
+
+  async processContentGenerationJob(job: Job<ContentGenerationJob>): Promise<ContentGenerationJobResult> {
+    const data = job.data;
+    const total = data.count ?? 1;
+    const scheduledFor = data.scheduledFor ? new Date(data.scheduledFor) : undefined;
+
+    // Pieces saved by a previous attempt are kept, so a retry resumes where it stopped
+    const previous = this.readProgress(job.progress, total);
+    const contentPieceIds = [...(previous.contentPieceIds || [])];
+    const similarContent = { ...previous.similarContent };
+
+    for (let index = contentPieceIds.length; index < total; index++) {
+      if (await this.isCancelled('content', job.id)) {
+        return { contentPieceIds, similarContent, cancelled: true };
+      }
+
+      const request = this.buildContentRequest(data, index);
+      const generated = await this.contentService.generateContent(request, data.provider);
+
+      const scheduledAt = scheduledFor
+        ? new Date(scheduledFor.getTime() + index * (data.intervalHours ?? 24) * 60 * 60 * 1000)
+        : undefined;
+      const piece = await this.saveGeneratedContent(request, generated, scheduledAt);
+      contentPieceIds.push(piece.id);
+      const progress = () => job.updateProgress({
+        percent: Math.round((contentPieceIds.length / total) * 100),
+        completed: contentPieceIds.length,
+        total,
+        contentPieceIds,
+        similarContent,
+      });
+
+      // Record the piece before scoring it, so a retry never generates it twice
+      await progress();
+
+      // Similarity is advisory; a scoring failure must not fail the generation
+      const nearest = await this.similarity.scoreContentPiece(piece.id).catch(error => {
+        console.error(`Similarity scoring failed for content piece ${piece.id}:`, error);
+        return null;
+      });
+      if (nearest) {
+        similarContent[piece.id] = nearest;
+        await progress();
+      }
+    }
+
+    return { contentPieceIds, similarContent, cancelled: false };
+  }
+
+  async processStrategyGenerationJob(job: Job<StrategyGenerationJob>): Promise<StrategyGenerationJobResult> {
+    const { organizationId, preferences, provider } = job.data;
+
+    if (await this.isCancelled('strategy', job.id)) {
+      return { cancelled: true };
+    }
+
+    const request = await this.buildStrategyRequest(organizationId, preferences);
+    await job.updateProgress({ percent: 10, completed: 0, total: 1 });
+
+    const strategy = await this.strategyService.generateStrategy(request, provider);
+    await job.updateProgress({ percent: 80, completed: 0, total: 1 });
+
+    // A cancellation that arrives mid-generation still wins; the result is discarded
+    if (await this.isCancelled('strategy', job.id)) {
+      return { cancelled: true };
+    }
+
+    const saved = await this.saveStrategy(organizationId, strategy);
+    await job.updateProgress({ percent: 100, completed: 1, total: 1 });
+
+    return { strategyId: saved.id, version: saved.version, cancelled: false };
+  }
+
+  // ============================================
+  // PERSISTENCE HELPERS (shared with the synchronous routes)
+  // ============================================
+
+  async loadOrganizationData(organizationId: string): Promise<OrganizationData> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      include: {
+        founders: true,
+      }
+    });
+
+    if (!organization) {
+      throw new ValidationError('Organization not found', 'organizationId', organizationId);
+    }
+
+    return {
+      id: organization.id,
+      name: organization.name,
+      url: organization.url ?? undefined,
+      stage: organization.stage ?? undefined,
+      pricing: organization.pricing ?? undefined,
+      description: organization.description ?? undefined,
+      tagline: organization.tagline ?? undefined,
+      category: organization.category ?? undefined,
+      markets: organization.markets,
+      languages: organization.languages,
+      founders: organization.founders.map(f => ({
+        id: f.id,
+        name: f.name,
+        role: f.role ?? '',
+        bio: f.bio ?? undefined,
+        linkedinUrl: f.linkedinUrl ?? undefined,
+        twitterHandle: f.twitterHandle ?? undefined,
+      }))
+    };
+  }
+
+  async buildStrategyRequest(organizationId: string, preferences?: StrategyPreferences): Promise<StrategyGenerationRequest> {
+    const organization = await this.loadOrganizationData(organizationId);
+
+    // Get previous strategies for context
+    const previousStrategies = await this.prisma.aIStrategy.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: 'desc' },
+      take: 3,
+      select: {
+        positioning: true,
+        audienceSegments: true,
+        contentPillars: true,
+        channelPlan: true,
+      }
+    });
+
+    return {
+      organization,
+      preferences,
+      previousStrategies: previousStrategies.length > 0 ? previousStrategies : undefined,
+    };
+  }
+
+  async saveStrategy(organizationId: string, strategy: GeneratedStrategy) {
+    const existing = await this.prisma.aIStrategy.count({ where: { organizationId } });
+
+    return this.prisma.aIStrategy.create({
+      data: {
+        organizationId,
+        version: existing + 1,
+        status: 'PROPOSED',
+        positioning: strategy.positioning,
+        audienceSegments: strategy.audienceSegments,
+        contentPillars: strategy.contentPillars,
+        channelPlan: strategy.channelPlan,
+        cadence: strategy.cadence,
+        calendarSkeleton: strategy.calendarSkeleton,
+        generatedBy: strategy.generatedBy,
+        confidence: strategy.confidence,
+      }
+    });
+  }
+
+  async saveGeneratedContent(request: ContentGenerationRequest, generated: GeneratedContent, scheduledAt?: Date) {
+    return this.prisma.contentPiece.create({
+      data: {
+        organizationId: request.organizationId,
+        pillarId: request.pillarId,
+        seriesId: request.seriesId,
+        platform: request.platform as any,
+        type: request.contentType as any,
+        status: 'DRAFT',
+        title: generated.content.title,
+        body: generated.content.body,
+        hook: generated.content.hook,
+        cta: generated.content.cta,
+        hashtags: generated.content.hashtags,
+        mentions: generated.content.mentions,
+        scheduledAt,
+        rationale: generated.metadata.rationale,
+        confidence: generated.metadata.confidence,
+        generatedBy: generated.generatedBy,
+      }
+    });
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private buildContentRequest(data: ContentGenerationJob, index: number): ContentGenerationRequest {
+    const ideas = data.context?.contentIdeas || [];
+
+    return {
+      organizationId: data.organizationId,
+      platform: data.platform,
+      contentType: data.contentType as ContentGenerationRequest['contentType'],
+      pillarId: data.pillarId,
+      seriesId: data.seriesId,
+      // Rotate through the supplied ideas so a bulk run doesn't produce N copies of one post
+      prompt: data.prompt || (ideas.length ? ideas[index % ideas.length] : undefined),
+      context: data.context,
+      variations: {
+        count: 1,
+        diversityLevel: data.diversityLevel || 'medium',
+      },
+      optimization: data.optimization || {
+        seo: true,
+        engagement: true,
+        conversion: false,
+        brandSafety: true,
+      },
+    };
+  }
+
+  private async findJob(kind: GenerationJobKind, jobId: string, organizationId: string): Promise<Job | null> {
+    const job = await this.queueFor(kind).getJob(jobId);
+    if (!job || job.data?.organizationId !== organizationId) {
+      return null;
+    }
+    return job;
+  }
+
+  private async toStatus(kind: GenerationJobKind, job: Job): Promise<GenerationJobStatus> {
+    const jobId = String(job.id);
+    const [rawState, cancelled] = await Promise.all([
+      job.getState(),
+      this.isCancelled(kind, jobId),
+    ]);
+    const result = job.returnvalue as GenerationJobStatus['result'] | undefined;
+    const total = kind === 'content' ? (job.data?.count ?? 1) : 1;
+
+    let state: GenerationJobState;
+    if (result?.cancelled || (cancelled && rawState !== 'completed' && rawState !== 'failed' && rawState !== 'active')) {
+      state = 'cancelled';
+    } else if (rawState === 'waiting-children' || rawState === 'prioritized' || rawState === 'waiting') {
+      state = 'waiting';
+    } else if (rawState === 'delayed' || rawState === 'active' || rawState === 'completed' || rawState === 'failed') {
+      state = rawState;
+    } else {
+      state = 'unknown';
+    }
+
+    return {
+      jobId,
+      kind,
+      organizationId: job.data?.organizationId,
+      state,
+      progress: this.readProgress(job.progress, total),
+      result: result ?? undefined,
+      error: job.failedReason || undefined,
+      attemptsMade: job.attemptsMade || 0,
+      createdAt: job.timestamp ? new Date(job.timestamp) : undefined,
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : undefined,
+    };
+  }
+
+  private readProgress(progress: unknown, total: number): GenerationProgress {
+    if (progress && typeof progress === 'object') {
+      return { percent: 0, completed: 0, total, ...(progress as Partial<GenerationProgress>) };
+    }
+    return {
+      percent: typeof progress === 'number' ? progress : 0,
+      completed: 0,
+      total,
+    };
+  }
+
+  private async isCancelled(kind: GenerationJobKind, jobId: string | undefined): Promise<boolean> {
+    if (!jobId) return false;
+    return (await redis.exists(this.cancelKey(kind, jobId))) > 0;
+  }
+
+  private cancelKey(kind: GenerationJobKind, jobId: string): string {
+    return `generation:cancel:${kind}:${jobId}`;
+  }
+
+  private queueFor(kind: GenerationJobKind): Queue {
+    return kind === 'content' ? contentGenerationQueue : strategyGenerationQueue;
+  }
+}
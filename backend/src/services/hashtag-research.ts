@@ -1,8 +1,6 @@
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-import { config } from '../config/config';
 import { z } from 'zod';
-import { AIProviderError, ValidationError } from '../utils/errors';
+import { ValidationError } from '../utils/errors';
+import { LLMClient, LLMProviderName, llmClient } from './llm';
 
 export interface HashtagResearchRequest {
   organizationId: string;
@@ -199,50 +197,95 @@ const HashtagResearchRequestSchema = z.object({
   }).optional(),
 });
 
-export class HashtagResearchService {
-  private openai: OpenAI;
-  private anthropic: Anthropic;
+const HashtagSuggestionSchema = z.object({
+  hashtag: z.string().transform(tag => tag.replace(/^#/, '')),
+  category: z.enum(['trending', 'niche', 'branded', 'location', 'industry', 'general', 'campaign']),
+  popularity: z.object({
+    volume: z.number(),
+    trend: z.enum(['rising', 'stable', 'declining']),
+    competitiveness: z.enum(['low', 'medium', 'high']),
+    trendScore: z.number(),
+  }),
+  performance: z.object({
+    engagementRate: z.number(),
+    reachPotential: z.number(),
+    conversionPotential: z.number(),
+    saturationLevel: z.number(),
+  }),
+  relevance: z.object({
+    contentScore: z.number(),
+    audienceScore: z.number(),
+    industryScore: z.number(),
+    overallScore: z.number(),
+  }),
+  usage: z.object({
+    recommendedFrequency: z.enum(['daily', 'weekly', 'monthly', 'occasional']),
+    bestTimes: z.array(z.string()).default([]),
+    seasonality: z.string().optional(),
+  }),
+  related: z.array(z.string()).default([]),
+  demographics: z.object({
+    primaryAge: z.string(),
+    primaryGender: z.string().optional(),
+    primaryLocation: z.string().optional(),
+    interests: z.array(z.string()).default([]),
+  }),
+  platforms: z.record(z.object({
+    supported: z.boolean(),
+    performance: z.number(),
+    restrictions: z.array(z.string()).optional(),
+  })).default({}),
+});
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: config.ai.openai.apiKey,
-    });
+const HashtagResearchResponseSchema = z.object({
+  suggestions: z.array(HashtagSuggestionSchema),
+  recommendations: z.object({
+    optimal: z.array(z.string()).default([]),
+    trending: z.array(z.string()).default([]),
+    niche: z.array(z.string()).default([]),
+    avoid: z.array(z.string()).default([]),
+  }),
+  strategy: z.object({
+    mix: z.object({
+      trending: z.number(),
+      niche: z.number(),
+      branded: z.number(),
+      general: z.number(),
+    }),
+    totalRecommended: z.number(),
+    reasoning: z.string().default(''),
+  }),
+  insights: z.object({
+    trendingTopics: z.array(z.string()).default([]),
+    competitorHashtags: z.array(z.string()).default([]),
+    seasonalOpportunities: z.array(z.string()).default([]),
+    platformSpecificTips: z.record(z.array(z.string())).default({}),
+  }).default({}),
+  analytics: z.object({
+    estimatedReach: z.number(),
+    estimatedEngagement: z.number(),
+    competitivenessLevel: z.enum(['low', 'medium', 'high']),
+    difficultyScore: z.number(),
+  }),
+});
+
+export class HashtagResearchService {
+  private llm: LLMClient;
 
-    this.anthropic = new Anthropic({
-      apiKey: config.ai.anthropic.apiKey,
-    });
+  constructor(llm: LLMClient = llmClient) {
+    this.llm = llm;
   }
 
   async researchHashtags(
     request: HashtagResearchRequest,
-    provider: 'openai' | 'anthropic' = 'openai'
+    provider?: LLMProviderName
   ): Promise<HashtagResearchResult> {
     try {
       const validatedRequest = HashtagResearchRequestSchema.parse(request);
 
-      if (provider === 'openai') {
-        return await this.researchWithOpenAI(validatedRequest);
-      } else {
-        return await this.researchWithAnthropic(validatedRequest);
-      }
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        throw new ValidationError('Invalid hashtag research request', 'request', error.errors);
-      }
-      throw error;
-    }
-  }
-
-  private async researchWithOpenAI(request: HashtagResearchRequest): Promise<HashtagResearchResult> {
-    try {
-      const prompt = this.buildHashtagResearchPrompt(request);
-
-      const completion = await this.openai.chat.completions.create({
-        model: config.ai.openai.model,
-        messages: [
-          {
-            role: 'system',
-            content: `You are a social media hashtag research expert with deep knowledge of platform algorithms, trending topics, and audience behavior. You provide data-driven hashtag recommendations that maximize reach, engagement, and conversions while maintaining authenticity.
+      const { data } = await this.llm.generateStructured({
+        task: 'hashtags.research',
+        system: `You are a social media hashtag research expert with deep knowledge of platform algorithms, trending topics, and audience behavior. You provide data-driven hashtag recommendations that maximize reach, engagement, and conversions while maintaining authenticity.
 
 Return your response as a valid JSON object with the following structure:
 {
@@ -319,50 +362,20 @@ Return your response as a valid JSON object with the following structure:
     "competitivenessLevel": "medium",
     "difficultyScore": 65
   }
-}`
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
+}`,
+        prompt: this.buildHashtagResearchPrompt(validatedRequest),
+        schema: HashtagResearchResponseSchema,
+        provider,
         temperature: 0.7,
-        max_tokens: 4000,
-        response_format: { type: "json_object" }
+        maxTokens: 4000,
       });
 
-      const result = JSON.parse(completion.choices[0].message.content || '{}');
-      return result;
-
-    } catch (error: any) {
-      throw new AIProviderError('OpenAI', error.message);
-    }
-  }
-
-  private async researchWithAnthropic(request: HashtagResearchRequest): Promise<HashtagResearchResult> {
-    try {
-      const prompt = this.buildHashtagResearchPrompt(request);
-
-      const message = await this.anthropic.messages.create({
-        model: config.ai.anthropic.model,
-        max_tokens: 4000,
-        messages: [
-          {
-            role: 'user',
-            content: `You are a social media hashtag research expert with deep knowledge of platform algorithms, trending topics, and audience behavior. You provide data-driven hashtag recommendations that maximize reach, engagement, and conversions while maintaining authenticity.
-
-${prompt}
-
-Please provide comprehensive hashtag research as a JSON object with suggestions, recommendations, strategy, insights, and analytics.`
-          }
-        ]
-      });
-
-      const result = JSON.parse(message.content[0].type === 'text' ? message.content[0].text : '{}');
-      return result;
-
-    } catch (error: any) {
-      throw new AIProviderError('Anthropic', error.message);
+      return data;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid hashtag research request', 'request', error.errors);
+      }
+      throw error;
     }
   }
 
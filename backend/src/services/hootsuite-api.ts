@@ -144,18 +144,18 @@ export class HootsuiteService {
    */
   async uploadMedia(mediaUrl: string, mediaType: 'photo' | 'video' | 'gif'): Promise<HootsuiteMedia> {
     try {
-      // Step 1: Create media upload session
+      // Step 1: Download media from URL so the upload session knows its size
+      const mediaResponse = await axios.get(mediaUrl, { responseType: 'arraybuffer' });
+
+      // Step 2: Create media upload session and upload to Hootsuite
       const uploadResponse = await this.client.post('/media', {
-        sizeBytes: 0, // Will be filled by Hootsuite
+        sizeBytes: mediaResponse.data.byteLength,
         mimeType: this.getMimeType(mediaType),
       });
 
       const mediaId = uploadResponse.data.data.id;
       const uploadUrl = uploadResponse.data.data.uploadUrl;
 
-      // Step 2: Download media from URL and upload to Hootsuite
-      const mediaResponse = await axios.get(mediaUrl, { responseType: 'arraybuffer' });
-      
       await axios.put(uploadUrl, mediaResponse.data, {
         headers: {
           'Content-Type': this.getMimeType(mediaType),
@@ -0,0 +1,274 @@
+import crypto from 'crypto';
+import { PrismaClient, MetricType, Platform } from '@prisma/client';
+import { config } from '../config/config';
+
+/**
+ * Link tracking settings stored on ContentPiece.platformOptions.tracking
+ */
+export interface LinkTrackingOptions {
+  enabled?: boolean; // Links are tagged unless this is false
+  campaign?: string; // utm_campaign; defaults to the series, then the pillar
+}
+
+/**
+ * The parts of a scheduled post that tagging reads
+ */
+export interface TaggablePost {
+  id: string;
+  organizationId: string;
+  socialAccount: { platform: Platform | string };
+  contentPiece: {
+    id: string;
+    body: string;
+    cta?: string | null;
+    platformOptions?: unknown;
+  };
+}
+
+export interface TaggedContent {
+  body: string;
+  cta: string | null;
+  links: number;
+}
+
+export interface ConversionTotals {
+  trackedLinks: number;
+  websiteClicks: number;
+  signups: number; // Credited to the post as the last touch
+  demos: number;
+}
+
+// Query parameter carrying the click id to the destination page
+export const CLICK_ID_PARAM = 'ap_click';
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'`]+/g;
+const TRAILING_PUNCTUATION = /[.,!?;:)\]}]+$/;
+
+// Link preview crawlers fetch every link in a new post; their requests are not clicks
+const PREVIEW_CRAWLERS = /twitterbot|facebookexternalhit|facebookcatalog|linkedinbot|slackbot|discordbot|telegrambot|whatsapp|redditbot|embedly|skypeuripreview|googlebot|bingbot/i;
+
+const UTM_SOURCES: Record<string, string> = {
+  TWITTER: 'twitter',
+  LINKEDIN: 'linkedin',
+  INSTAGRAM: 'instagram',
+  TIKTOK: 'tiktok',
+  YOUTUBE_SHORTS: 'youtube',
+  REDDIT: 'reddit',
+  FACEBOOK: 'facebook',
+  THREADS: 'threads',
+};
+
+/**
+ * First-party link tracking. At publish time every link in a post's body and
+ * call to action is tagged with UTM parameters and replaced by a short link
+ * per post and URL. The short link redirect counts the click and hands the
+ * destination a click id that conversions are attributed with.
+ */
+export class LinkTrackingService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Body and call to action with their links swapped for short links.
+   * Publishing a post again reuses the links created the first time.
+   */
+  async tagContent(post: TaggablePost): Promise<TaggedContent> {
+    const { body, cta = null, platformOptions } = post.contentPiece;
+    const options = (platformOptions as { tracking?: LinkTrackingOptions } | null)?.tracking;
+    const urls = [...new Set([...this.extractUrls(body), ...this.extractUrls(cta || '')])]
+      .filter(url => !url.startsWith(config.tracking.linkBaseUrl));
+
+    if (options?.enabled === false || urls.length === 0) {
+      return { body, cta, links: 0 };
+    }
+
+    const campaign = options?.campaign || await this.defaultCampaign(post.contentPiece.id);
+    const shortUrls = new Map<string, string>();
+    for (const url of urls) {
+      const destinationUrl = this.withUtm(url, {
+        utm_source: UTM_SOURCES[post.socialAccount.platform] || String(post.socialAccount.platform).toLowerCase(),
+        utm_medium: 'social',
+        utm_campaign: campaign,
+        utm_content: post.id,
+      });
+      if (!destinationUrl) {
+        continue;
+      }
+
+      const link = await this.prisma.trackedLink.upsert({
+        where: { scheduledPostId_originalUrl: { scheduledPostId: post.id, originalUrl: url } },
+        create: {
+          organizationId: post.organizationId,
+          scheduledPostId: post.id,
+          code: this.newCode(),
+          originalUrl: url,
+          destinationUrl,
+        },
+        update: {},
+      });
+      shortUrls.set(url, `${config.tracking.linkBaseUrl}/${link.code}`);
+    }
+
+    return {
+      body: this.replaceUrls(body, shortUrls),
+      cta: cta === null ? null : this.replaceUrls(cta, shortUrls),
+      links: shortUrls.size,
+    };
+  }
+
+  /**
+   * Destination for a short link, with the click id appended. Clicks from link
+   * preview crawlers are not recorded and get no click id. Resolves to null
+   * for unknown codes.
+   */
+  async resolveClick(
+    code: string,
+    visit: { referrer?: string; userAgent?: string; now?: Date } = {}
+  ): Promise<string | null> {
+    const link = await this.prisma.trackedLink.findUnique({ where: { code } });
+    if (!link) {
+      return null;
+    }
+    if (visit.userAgent && PREVIEW_CRAWLERS.test(visit.userAgent)) {
+      return link.destinationUrl;
+    }
+
+    const now = visit.now || new Date();
+    const click = await this.prisma.linkClick.create({
+      data: {
+        linkId: link.id,
+        scheduledPostId: link.scheduledPostId,
+        clickedAt: now,
+        referrer: visit.referrer?.slice(0, 500) || null,
+        userAgent: visit.userAgent?.slice(0, 500) || null,
+      },
+    });
+    await this.prisma.trackedLink.update({
+      where: { id: link.id },
+      data: { clickCount: { increment: 1 }, lastClickedAt: now },
+    });
+
+    // The click is recorded either way; the analytics row catches up on the next one
+    await this.refreshConversionSnapshot(link.scheduledPostId, now).catch((error: Error) => {
+      console.error(`Failed to update conversion analytics for ${link.scheduledPostId}:`, error);
+    });
+
+    const destination = new URL(link.destinationUrl);
+    destination.searchParams.set(CLICK_ID_PARAM, click.id);
+    return destination.toString();
+  }
+
+  /**
+   * Lifetime tracked clicks and last-touch conversions for a post
+   */
+  async conversionTotals(scheduledPostId: string): Promise<ConversionTotals> {
+    const [trackedLinks, websiteClicks, signups, demos] = await Promise.all([
+      this.prisma.trackedLink.count({ where: { scheduledPostId } }),
+      this.prisma.linkClick.count({ where: { scheduledPostId } }),
+      this.prisma.conversionTouch.count({ where: { scheduledPostId, isLast: true, conversion: { type: 'SIGNUP' } } }),
+      this.prisma.conversionTouch.count({ where: { scheduledPostId, isLast: true, conversion: { type: 'DEMO' } } }),
+    ]);
+
+    return { trackedLinks, websiteClicks, signups, demos };
+  }
+
+  /**
+   * Write the post's conversion totals to its CONVERSION analytics row for
+   * the day (UTC), creating the row if the collector has not. Like the
+   * collector's rows, each holds lifetime totals.
+   */
+  async refreshConversionSnapshot(scheduledPostId: string, now: Date = new Date()): Promise<void> {
+    const post = await this.prisma.scheduledPost.findUnique({
+      where: { id: scheduledPostId },
+      select: {
+        organizationId: true,
+        contentPieceId: true,
+        socialAccountId: true,
+        publishedAt: true,
+        socialAccount: { select: { platform: true } },
+      },
+    });
+    if (!post) {
+      return;
+    }
+
+    const totals = await this.conversionTotals(scheduledPostId);
+    const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const existing = await this.prisma.analytics.findFirst({
+      where: { scheduledPostId, metricType: MetricType.CONVERSION, collectedAt: { gte: dayStart } },
+      orderBy: { collectedAt: 'desc' },
+    });
+    const counters = {
+      // Posts without tracked links keep the platform's click count
+      websiteClicks: totals.trackedLinks > 0 ? totals.websiteClicks : existing?.websiteClicks ?? 0,
+      signups: totals.signups,
+      demos: totals.demos,
+      periodEnd: now,
+      collectedAt: now,
+    };
+
+    if (existing) {
+      await this.prisma.analytics.update({ where: { id: existing.id }, data: counters });
+      return;
+    }
+
+    await this.prisma.analytics.create({
+      data: {
+        organizationId: post.organizationId,
+        contentPieceId: post.contentPieceId,
+        scheduledPostId,
+        socialAccountId: post.socialAccountId,
+        platform: post.socialAccount.platform,
+        metricType: MetricType.CONVERSION,
+        periodStart: post.publishedAt || now,
+        ...counters,
+      },
+    });
+  }
+
+  private async defaultCampaign(contentPieceId: string): Promise<string> {
+    const piece = await this.prisma.contentPiece.findUnique({
+      where: { id: contentPieceId },
+      select: { series: { select: { name: true } }, pillar: { select: { name: true } } },
+    });
+
+    return this.slug(piece?.series?.name || piece?.pillar?.name || '') || 'social';
+  }
+
+  /**
+   * The URL with the given parameters added; parameters already on the URL
+   * win. Null for text that does not parse as a URL.
+   */
+  private withUtm(url: string, params: Record<string, string>): string | null {
+    try {
+      const parsed = new URL(url);
+      for (const [key, value] of Object.entries(params)) {
+        if (!parsed.searchParams.has(key)) {
+          parsed.searchParams.set(key, value);
+        }
+      }
+      return parsed.toString();
+    } catch {
+      return null;
+    }
+  }
+
+  private extractUrls(text: string): string[] {
+    return (text.match(URL_PATTERN) || []).map(match => match.replace(TRAILING_PUNCTUATION, ''));
+  }
+
+  private replaceUrls(text: string, shortUrls: Map<string, string>): string {
+    return text.replace(URL_PATTERN, match => {
+      const url = match.replace(TRAILING_PUNCTUATION, '');
+      const shortUrl = shortUrls.get(url);
+      return shortUrl ? shortUrl + match.slice(url.length) : match;
+    });
+  }
+
+  private newCode(): string {
+    return crypto.randomBytes(6).toString('base64url');
+  }
+
+  private slug(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  }
+}
@@ -11,6 +11,7 @@ export interface LinkedInCredentials {
 export interface LinkedInPostData {
   text: string;
   mediaUrns?: string[];
+  mediaCategory?: 'IMAGE' | 'VIDEO';
   articleUrl?: string;
   visibility: 'PUBLIC' | 'CONNECTIONS' | 'LOGGED_IN_USERS';
 }
@@ -43,6 +44,9 @@ export interface LinkedInPostResponse {
   };
 }
 
+// LinkedIn requires multipart uploads for videos above 200MB
+const LINKEDIN_SINGLE_UPLOAD_LIMIT = 200 * 1024 * 1024;
+
 export class LinkedInService {
   private client: AxiosInstance;
   private accessToken: string;
@@ -130,7 +134,7 @@ export class LinkedInService {
             shareCommentary: {
               text: postData.text,
             },
-            shareMediaCategory: postData.mediaUrns ? 'IMAGE' : (postData.articleUrl ? 'ARTICLE' : 'NONE'),
+            shareMediaCategory: postData.mediaUrns ? (postData.mediaCategory || 'IMAGE') : (postData.articleUrl ? 'ARTICLE' : 'NONE'),
             ...(postData.mediaUrns && {
               media: postData.mediaUrns.map(urn => ({
                 status: 'READY',
@@ -262,6 +266,75 @@ export class LinkedInService {
     }
   }
 
+  /**
+   * Upload a video to LinkedIn. Files over the single-upload limit are sent in
+   * the byte ranges LinkedIn assigns for a multipart upload.
+   */
+  async uploadVideo(videoBuffer: Buffer): Promise<string> {
+    try {
+      const profile = await this.getProfile();
+      const authorUrn = `urn:li:person:${profile.id}`;
+      const multipart = videoBuffer.length > LINKEDIN_SINGLE_UPLOAD_LIMIT;
+
+      const registerResponse = await this.client.post('/assets?action=registerUpload', {
+        registerUploadRequest: {
+          recipes: ['urn:li:digitalmediaRecipe:feedshare-video'],
+          owner: authorUrn,
+          fileSize: videoBuffer.length,
+          supportedUploadMechanism: [multipart ? 'MULTIPART_UPLOAD' : 'SYNCHRONOUS_UPLOAD'],
+          serviceRelationships: [{
+            relationshipType: 'OWNER',
+            identifier: 'urn:li:userGeneratedContent',
+          }],
+        },
+      });
+
+      const { asset, mediaArtifact, uploadMechanism } = registerResponse.data.value;
+      const multipartRequest = uploadMechanism['com.linkedin.digitalmedia.uploading.MultiPartUploadRequest'];
+
+      if (!multipartRequest) {
+        const uploadUrl = uploadMechanism['com.linkedin.digitalmedia.uploading.MediaUploadHttpRequest'].uploadUrl;
+        await axios.put(uploadUrl, videoBuffer, {
+          headers: {
+            'Content-Type': 'application/octet-stream',
+          },
+          maxBodyLength: Infinity,
+        });
+        return asset;
+      }
+
+      const partUploadResponses = [];
+      for (const part of multipartRequest.partUploadRequests) {
+        const chunk = videoBuffer.subarray(part.byteRange.firstByte, part.byteRange.lastByte + 1);
+        const response = await axios.put(part.url, chunk, {
+          headers: {
+            ...part.headers,
+            'Content-Type': 'application/octet-stream',
+          },
+          maxBodyLength: Infinity,
+        });
+
+        partUploadResponses.push({
+          headers: { ETag: response.headers['etag'] },
+          httpStatusCode: response.status,
+        });
+      }
+
+      await this.client.post('/assets?action=completeMultiPartUpload', {
+        completeMultipartUploadRequest: {
+          mediaArtifact,
+          metadata: multipartRequest.metadata,
+          partUploadResponses,
+        },
+      });
+
+      return asset;
+    } catch (error: any) {
+      console.error('Error uploading video to LinkedIn:', error);
+      throw new Error(`Failed to upload video: ${error.message}`);
+    }
+  }
+
   /**
    * Get user's posts
    */
@@ -0,0 +1,64 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { config } from '../../config/config';
+import { AIProviderError } from '../../utils/errors';
+import { LLMCompletionRequest, LLMCompletionResult, LLMProvider } from './types';
+import { isRetryableProviderError } from './errors';
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  private client: Anthropic;
+
+  constructor() {
+    this.client = new Anthropic({
+      apiKey: config.ai.anthropic.apiKey,
+    });
+  }
+
+  get model(): string {
+    return config.ai.anthropic.model;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(config.ai.anthropic.apiKey);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    // Anthropic has no JSON response mode, so the instruction is appended to the prompt
+    // and LLMClient extracts the object from the reply.
+    const prompt = request.json
+      ? `${request.prompt}\n\nRespond with a single valid JSON object and no surrounding prose.`
+      : request.prompt;
+
+    try {
+      const message = await this.client.messages.create(
+        {
+          model: this.model,
+          max_tokens: request.maxTokens || 4000,
+          temperature: request.temperature,
+          ...(request.system ? { system: request.system } : {}),
+          messages: [{ role: 'user', content: prompt }],
+        },
+        { signal: request.signal }
+      );
+
+      const text = message.content
+        .map((block: any) => (typeof block.text === 'string' ? block.text : ''))
+        .join('');
+
+      const inputTokens = message.usage?.input_tokens || 0;
+      const outputTokens = message.usage?.output_tokens || 0;
+
+      return {
+        text,
+        model: message.model || this.model,
+        usage: {
+          promptTokens: inputTokens,
+          completionTokens: outputTokens,
+          totalTokens: inputTokens + outputTokens,
+        },
+      };
+    } catch (error: any) {
+      throw new AIProviderError(this.name, error.message, error, isRetryableProviderError(error));
+    }
+  }
+}
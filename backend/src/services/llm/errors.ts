@@ -0,0 +1,21 @@
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE']);
+
+/**
+ * Decide whether a raw SDK error is worth retrying. Rate limits, overloads,
+ * timeouts and connection drops are; auth and bad-request errors are not.
+ */
+export function isRetryableProviderError(error: any): boolean {
+  if (!error) return false;
+
+  const status = error.status ?? error.statusCode ?? error.response?.status;
+  if (typeof status === 'number') {
+    return RETRYABLE_STATUS_CODES.has(status);
+  }
+
+  if (error.code && RETRYABLE_NETWORK_CODES.has(error.code)) {
+    return true;
+  }
+
+  return error.name === 'APIConnectionError' || error.name === 'APIConnectionTimeoutError';
+}
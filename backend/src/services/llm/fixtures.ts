@@ -0,0 +1,488 @@
+/**
+ * Built-in responses for the local provider, keyed by task name. Each entry is
+ * a list of variants that satisfy the corresponding service's response schema.
+ * Recorded fixtures in LOCAL_AI_FIXTURES_DIR take precedence over these.
+ */
+export const defaultFixtures: Record<string, unknown[]> = {
+  'content.generate': [
+    {
+      content: {
+        title: 'Ship smaller, learn faster',
+        body: 'We cut our release cycle from 3 weeks to 3 days. The trick was not more engineers, it was smaller bets.\n\nHere is what changed:\n1. Every feature starts behind a flag\n2. We measure one metric per release\n3. We kill anything that does not move it\n\nWhat is slowing your team down?',
+        hook: 'We cut our release cycle from 3 weeks to 3 days.',
+        cta: 'What is slowing your team down?',
+        hashtags: ['#startups', '#productivity'],
+        mentions: [],
+      },
+      metadata: {
+        rationale: 'A concrete before/after number makes the hook credible, and the closing question invites replies.',
+        confidence: 0.82,
+        keywordsUsed: ['release cycle', 'feature flags'],
+        targetAudience: 'Early-stage founders and engineering leads',
+        estimatedEngagement: 0.71,
+        brandSafetyScore: 0.97,
+      },
+      variations: [
+        {
+          content: {
+            body: 'Three weeks to three days. That is how much faster we ship since we stopped bundling features. Small bets, one metric each, kill what does not move it.',
+            hook: 'Three weeks to three days.',
+            cta: 'Save this for your next planning meeting.',
+            hashtags: ['#buildinpublic'],
+            mentions: [],
+          },
+          differentiator: 'Punchier, numbers-first opening',
+          confidence: 0.76,
+        },
+      ],
+      optimization: {
+        seoScore: 0.68,
+        engagementPotential: 0.78,
+        conversionPotential: 0.52,
+        readabilityScore: 0.88,
+      },
+    },
+    {
+      content: {
+        title: 'The onboarding email nobody reads',
+        body: 'We rewrote our onboarding email 11 times. Open rates barely moved.\n\nThen we deleted it and put the same three tips inside the product, right where people get stuck. Activation went up 18%.\n\nMeet users where the problem is, not in their inbox.',
+        hook: 'We rewrote our onboarding email 11 times.',
+        cta: 'Where do your users get stuck first?',
+        hashtags: ['#saas', '#onboarding'],
+        mentions: [],
+      },
+      metadata: {
+        rationale: 'Story format with a surprising result and a transferable lesson.',
+        confidence: 0.79,
+        keywordsUsed: ['onboarding', 'activation'],
+        targetAudience: 'SaaS founders and growth marketers',
+        estimatedEngagement: 0.69,
+        brandSafetyScore: 0.98,
+      },
+      variations: [],
+      optimization: {
+        seoScore: 0.61,
+        engagementPotential: 0.74,
+        conversionPotential: 0.58,
+        readabilityScore: 0.91,
+      },
+    },
+  ],
+
+  'content.variations': [
+    {
+      variations: [
+        {
+          content: 'Small bets beat big launches. Ship one thing, measure one number, repeat.',
+          variationType: 'concise',
+          confidence: 0.8,
+          differentiator: 'Shorter and more direct',
+        },
+        {
+          content: 'Honest question: how many of last quarter\'s features actually moved a metric? For us it was 2 out of 9. So we changed how we ship.',
+          variationType: 'question_hook',
+          confidence: 0.77,
+          differentiator: 'Opens with a question to drive replies',
+        },
+      ],
+    },
+  ],
+
+  'strategy.generate': [
+    {
+      positioning: {
+        brief: 'The fastest way for small teams to turn product updates into consistent, on-brand social content.',
+        messagingHierarchy: {
+          primary: 'Consistent marketing without a marketing team',
+          secondary: ['AI drafts in your voice', 'One calendar for every channel'],
+        },
+        uniqueValueProposition: 'Founder-led marketing on autopilot, with approval control.',
+        keyDifferentiators: ['Brand-safe generation', 'Strategy-to-calendar in minutes'],
+      },
+      audienceSegments: [
+        {
+          name: 'Technical founders',
+          description: 'Pre-seed to seed founders who ship product but neglect distribution.',
+          painPoints: ['No time to write', 'Inconsistent posting'],
+          keyMessages: ['Ship your story as fast as your code'],
+          platforms: ['TWITTER', 'LINKEDIN'],
+        },
+      ],
+      contentPillars: [
+        { name: 'Build in public', description: 'Progress, metrics and lessons', percentage: 40, examples: ['Weekly changelog recap'] },
+        { name: 'Education', description: 'Practical how-tos for the audience', percentage: 35, examples: ['Five onboarding mistakes'] },
+        { name: 'Customer stories', description: 'Outcomes customers achieved', percentage: 25, examples: ['How Acme saved 10 hours a week'] },
+      ],
+      channelPlan: {
+        primary: ['TWITTER', 'LINKEDIN'],
+        secondary: ['REDDIT'],
+        experimental: ['TIKTOK'],
+      },
+      cadence: {
+        daily: { TWITTER: 1 },
+        weekly: { LINKEDIN: 3, REDDIT: 1 },
+        monthly: { TIKTOK: 4 },
+      },
+      calendarSkeleton: {
+        week1: { theme: 'Launch story', posts: 6 },
+        week2: { theme: 'Education series', posts: 6 },
+        week3: { theme: 'Customer proof', posts: 5 },
+        week4: { theme: 'Retrospective', posts: 5 },
+      },
+      confidence: 0.78,
+    },
+  ],
+
+  'strategy.compare': [
+    {
+      comparison: {
+        positioning: 'Strategy 1 leads with speed, strategy 2 with brand safety.',
+        audience: 'Both target founders; strategy 2 adds marketing leads at seed-stage companies.',
+        content: 'Strategy 1 is heavier on build-in-public content.',
+        channels: 'Strategy 2 adds Reddit as a secondary channel.',
+      },
+      recommendation: 'Adopt strategy 1 positioning with strategy 2 channel mix.',
+      confidence: 0.72,
+    },
+  ],
+
+  'tone.analyze': [
+    {
+      overallTone: 'confident and conversational',
+      emotions: {
+        joy: 0.42,
+        anger: 0.02,
+        fear: 0.05,
+        sadness: 0.03,
+        surprise: 0.18,
+        trust: 0.56,
+        anticipation: 0.47,
+        disgust: 0.01,
+      },
+      formality: { level: 'informal', score: 0.35 },
+      brandAlignment: {
+        score: 0.81,
+        suggestions: ['Lead with the customer outcome before the feature name'],
+      },
+      confidence: 0.8,
+    },
+  ],
+
+  'tone.brandVoice': [
+    {
+      primaryTone: 'pragmatic',
+      secondaryTones: ['warm', 'candid'],
+      voiceCharacteristics: {
+        personality: ['helpful', 'direct', 'curious'],
+        language: { vocabulary: 'moderate', sentenceStructure: 'short', punctuation: 'standard' },
+        emotionalRange: ['enthusiasm', 'empathy'],
+      },
+      guidelines: {
+        dos: ['Use concrete numbers', 'Write like you talk to a peer'],
+        donts: ['Overpromise results', 'Use jargon without explaining it'],
+        examples: {
+          good: ['We shipped X. Here is what we learned.'],
+          avoid: ['Revolutionary synergy-driven paradigm shift!'],
+        },
+      },
+      platformAdaptations: {
+        TWITTER: { tone: 'punchy', approach: 'One idea per post', examples: ['Small bets beat big launches.'] },
+        LINKEDIN: { tone: 'reflective', approach: 'Story with a lesson', examples: ['Last quarter we killed 7 features...'] },
+      },
+      confidence: 0.77,
+    },
+  ],
+
+  'tone.brandAlignment': [
+    {
+      score: 0.84,
+      issues: ['Closing line is more formal than the brand voice'],
+      suggestions: ['End with a direct question to the reader'],
+    },
+  ],
+
+  'audience.analyze': [
+    {
+      segments: [
+        {
+          id: 'seg_founders',
+          name: 'Technical founders',
+          description: 'Engineers turned founders who need distribution without hiring marketers.',
+          size: 'medium',
+          priority: 'high',
+          demographics: {
+            ageRange: '25-40',
+            location: ['US', 'EU'],
+            jobTitles: ['Founder', 'CTO'],
+            industries: ['SaaS', 'Developer tools'],
+            companySize: ['1-10'],
+            income: 'varies',
+            education: 'Bachelor or higher',
+          },
+          psychographics: {
+            values: ['efficiency', 'transparency'],
+            interests: ['product building', 'growth'],
+            lifestyle: ['time-constrained'],
+            personality: ['analytical'],
+            motivations: ['product-market fit'],
+          },
+          painPoints: {
+            primary: ['No time for marketing'],
+            secondary: ['Unsure what to post'],
+            emotional: ['Shipping into silence'],
+            functional: ['No content calendar'],
+          },
+          goals: {
+            personal: ['Build an audience'],
+            professional: ['Grow signups'],
+            shortTerm: ['Post consistently'],
+            longTerm: ['Own a category'],
+          },
+          behaviors: {
+            platforms: [{ platform: 'TWITTER', usage: 'heavy', contentTypes: ['threads'], bestTimes: ['9-10 AM'] }],
+            contentConsumption: { formats: ['threads', 'short posts'], frequency: 'daily', duration: 'under 2 minutes' },
+            decisionMaking: { process: 'self-serve trial', influences: ['peers'], timeline: 'days' },
+          },
+          messaging: {
+            keyMessages: ['Marketing that keeps up with your shipping speed'],
+            tone: 'candid',
+            language: ['ship', 'iterate'],
+            avoid: ['growth hacking'],
+          },
+          channels: { primary: ['TWITTER'], secondary: ['LINKEDIN'], touchpoints: ['Product Hunt'] },
+        },
+      ],
+      totalMarketSize: { estimated: 250000, confidence: 0.5, methodology: 'Top-down estimate from founder communities' },
+      segmentPriority: {
+        ranking: [{ segmentId: 'seg_founders', score: 0.86, rationale: 'Largest overlap with current users' }],
+        recommended: ['seg_founders'],
+      },
+      crossSegmentInsights: {
+        commonPainPoints: ['Inconsistent posting'],
+        sharedChannels: ['TWITTER'],
+        messagingOverlap: ['Save time'],
+        differentiators: ['Technical depth'],
+      },
+      contentStrategy: {
+        contentTypes: [{ type: 'thread', segments: ['seg_founders'], platforms: ['TWITTER'], examples: ['How we got our first 100 users'] }],
+        calendar: { daily: {}, weekly: {}, monthly: {} },
+      },
+      measurableGoals: {
+        awareness: [{ segment: 'seg_founders', metric: 'impressions', target: 50000 }],
+        engagement: [{ segment: 'seg_founders', metric: 'engagement_rate', target: 0.04 }],
+        conversion: [{ segment: 'seg_founders', metric: 'signups', target: 100 }],
+      },
+      confidence: 0.7,
+    },
+  ],
+
+  'audience.segmentContent': [
+    {
+      content: [
+        {
+          title: 'Your changelog is your best marketing',
+          hook: 'You already write the best content you will ever publish. You just call it a changelog.',
+          body: 'Every release note is a story about a problem you solved. Turn the top one into a post each week.',
+          cta: 'Try it with your last release.',
+          expectedEngagement: 72,
+        },
+      ],
+    },
+  ],
+
+  'pillars.identify': [
+    {
+      pillars: [
+        {
+          id: 'pillar_build',
+          name: 'Build in public',
+          description: 'Transparent progress updates and lessons',
+          emoji: '🛠️',
+          color: '#2563EB',
+          percentage: 40,
+          keywords: ['launch', 'metrics', 'lessons'],
+          contentTypes: ['thread', 'post'],
+          platforms: ['TWITTER', 'LINKEDIN'],
+          examples: { headlines: ['Month 3 metrics'], hooks: ['We almost shut down in March.'], topics: ['pricing changes'] },
+          metrics: { expectedEngagement: 0.05, difficulty: 'low', frequency: 'weekly' },
+          audience: { segments: ['founders'], painPoints: ['isolation'], interests: ['startups'] },
+        },
+        {
+          id: 'pillar_education',
+          name: 'Education',
+          description: 'Practical guides for the audience',
+          emoji: '📚',
+          color: '#16A34A',
+          percentage: 60,
+          keywords: ['how to', 'guide'],
+          contentTypes: ['carousel', 'post'],
+          platforms: ['LINKEDIN'],
+          examples: { headlines: ['5 onboarding mistakes'], hooks: ['Most onboarding flows lose half their users.'], topics: ['activation'] },
+          metrics: { expectedEngagement: 0.04, difficulty: 'medium', frequency: 'weekly' },
+          audience: { segments: ['founders'], painPoints: ['low activation'], interests: ['growth'] },
+        },
+      ],
+      distribution: {
+        recommended: { pillar_build: 40, pillar_education: 60 },
+        rationale: 'Education drives reach while build-in-public builds trust.',
+      },
+      contentGaps: { identified: ['Customer stories'], opportunities: ['Case studies with metrics'] },
+      competitiveAnalysis: {
+        commonPillars: ['Education'],
+        uniqueOpportunities: ['Founder transparency'],
+        differentiationStrategy: 'Share real numbers competitors keep private.',
+      },
+      confidence: 0.74,
+    },
+  ],
+
+  'pillars.optimize': [
+    {
+      optimizedPillars: [],
+      recommendations: {
+        redistribute: [{ from: 'pillar_education', to: 'pillar_build', percentage: 10 }],
+        improve: [{ pillarId: 'pillar_education', suggestions: ['Use carousels instead of text-only posts'] }],
+        retire: [],
+        new: [],
+      },
+    },
+  ],
+
+  'pillars.content': [
+    {
+      ideas: [
+        {
+          title: 'What 100 customer calls taught us',
+          hook: 'We did 100 customer calls in 30 days. Three patterns stood out.',
+          platform: 'linkedin',
+          contentType: 'post',
+          expectedEngagement: 74,
+          difficulty: 'medium',
+        },
+        {
+          title: 'Our pricing page, before and after',
+          hook: 'We changed one line on our pricing page and conversions doubled.',
+          platform: 'twitter',
+          contentType: 'thread',
+          expectedEngagement: 81,
+          difficulty: 'low',
+        },
+      ],
+    },
+  ],
+
+  'hashtags.research': [
+    {
+      suggestions: [
+        {
+          hashtag: 'buildinpublic',
+          category: 'niche',
+          popularity: { volume: 42000, trend: 'stable', competitiveness: 'medium', trendScore: 64 },
+          performance: { engagementRate: 0.048, reachPotential: 0.12, conversionPotential: 0.02, saturationLevel: 55 },
+          relevance: { contentScore: 88, audienceScore: 91, industryScore: 80, overallScore: 86 },
+          usage: { recommendedFrequency: 'weekly', bestTimes: ['9-10 AM'], seasonality: 'year-round' },
+          related: ['indiehackers', 'startups'],
+          demographics: { primaryAge: '25-34', primaryGender: 'mixed', primaryLocation: 'global', interests: ['startups'] },
+          platforms: { TWITTER: { supported: true, performance: 82, restrictions: [] } },
+        },
+      ],
+      recommendations: {
+        optimal: ['buildinpublic', 'startups'],
+        trending: ['ai'],
+        niche: ['indiehackers'],
+        avoid: ['followforfollow'],
+      },
+      strategy: {
+        mix: { trending: 20, niche: 50, branded: 20, general: 10 },
+        totalRecommended: 3,
+        reasoning: 'Niche tags reach founders without competing with high-volume spam.',
+      },
+      insights: {
+        trendingTopics: ['AI agents'],
+        competitorHashtags: ['saas'],
+        seasonalOpportunities: [],
+        platformSpecificTips: { TWITTER: ['Use at most two hashtags'] },
+      },
+      analytics: {
+        estimatedReach: 18000,
+        estimatedEngagement: 850,
+        competitivenessLevel: 'medium',
+        difficultyScore: 48,
+      },
+    },
+  ],
+
+  'brandSafety.check': [
+    {
+      issues: [],
+      suggestions: [
+        {
+          type: 'improvement',
+          message: 'Add a concrete outcome to strengthen the claim.',
+          example: 'Saved our team 6 hours a week.',
+        },
+      ],
+      confidence: 0.86,
+    },
+  ],
+
+  'brandSafety.guidelines': [
+    {
+      general: {
+        purpose: 'Educate founders and build trust through transparency',
+        mission: 'Make consistent marketing achievable for small teams',
+        values: ['honesty', 'usefulness'],
+        keyMessages: ['Marketing that keeps pace with product'],
+      },
+      contentTypes: {
+        'social-post': {
+          purpose: 'Drive awareness and conversation',
+          structure: ['hook', 'insight', 'question'],
+          length: { min: 80, max: 600 },
+          tone: 'candid and practical',
+          examples: ['We shipped X. Here is what we learned.'],
+          bestPractices: ['One idea per post'],
+        },
+      },
+      platforms: {
+        linkedin: {
+          voice: 'professional but personal',
+          style: 'short paragraphs',
+          formatting: ['line breaks', 'numbered lists'],
+          hashtagStrategy: ['3-5 industry tags'],
+          postingTimes: ['8-10 AM'],
+          engagement: ['Reply to every comment within a day'],
+        },
+      },
+      messaging: {
+        valueProposition: 'Consistent, on-brand content without a marketing hire',
+        keyDifferentiators: ['Approval workflows', 'Brand safety checks'],
+        competitiveAdvantages: ['Strategy-first generation'],
+      },
+    },
+  ],
+
+  'coach.weekly': [
+    {
+      summary: 'Engagement held steady while reach grew. How-to posts outperformed announcements again.',
+      keyInsights: [
+        { title: 'How-to posts lead', detail: 'The top three posts were all practical walkthroughs.' },
+      ],
+      strategyChanges: [
+        {
+          area: 'cadence',
+          title: 'Shift a weekday slot to how-to content',
+          change: 'Replace the Friday announcement with a short walkthrough',
+          rationale: 'Walkthroughs earned roughly twice the engagement rate of announcements',
+        },
+      ],
+      contentPivots: [
+        {
+          title: 'Turn announcements into tutorials',
+          rationale: 'Feature news performs better when shown in use',
+          examples: ['Three ways to use the new scheduler'],
+        },
+      ],
+    },
+  ],
+};
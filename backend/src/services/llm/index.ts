@@ -0,0 +1,10 @@
+import { LLMClient } from './llm-client';
+
+export * from './types';
+export { LLMClient, extractJson } from './llm-client';
+export type { LLMClientSettings } from './llm-client';
+export { OpenAIProvider } from './openai-provider';
+export { AnthropicProvider } from './anthropic-provider';
+export { LocalFixtureProvider } from './local-provider';
+
+export const llmClient = new LLMClient();
@@ -0,0 +1,296 @@
+import { z } from 'zod';
+import { config } from '../../config/config';
+import { AIProviderError } from '../../utils/errors';
+import {
+  EmbeddingGenerationResult,
+  EmbeddingOptions,
+  LLMProvider,
+  LLMProviderName,
+  StructuredGenerationOptions,
+  StructuredGenerationResult,
+  TokenUsage,
+  UsageSummaryEntry,
+} from './types';
+import { OpenAIProvider } from './openai-provider';
+import { AnthropicProvider } from './anthropic-provider';
+import { LocalFixtureProvider } from './local-provider';
+
+export interface LLMClientSettings {
+  preferredProvider: LLMProviderName;
+  fallbackProviders: LLMProviderName[];
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+}
+
+const DEFAULT_SETTINGS: LLMClientSettings = {
+  preferredProvider: 'openai',
+  fallbackProviders: [],
+  timeoutMs: 30000,
+  maxRetries: 2,
+  retryBaseDelayMs: 500,
+};
+
+/**
+ * Single entry point for every AI service. Given a prompt and the zod schema the
+ * caller expects back, it picks a provider, enforces a timeout, retries transient
+ * failures with exponential backoff, extracts and validates the JSON payload, and
+ * falls back to the next configured provider when one is exhausted.
+ *
+ * @example
+ * ```typescript
+ * const { data, generatedBy } = await llmClient.generateStructured({
+ *   task: 'tone.analyze',
+ *   system: 'You are an expert in linguistic analysis.',
+ *   prompt,
+ *   schema: ToneAnalysisResponseSchema,
+ * });
+ * ```
+ */
+export class LLMClient {
+  private providers = new Map<LLMProviderName, LLMProvider>();
+  private usage = new Map<string, UsageSummaryEntry>();
+  private settings: LLMClientSettings;
+
+  constructor(providers?: LLMProvider[], settings: Partial<LLMClientSettings> = {}) {
+    this.settings = {
+      ...DEFAULT_SETTINGS,
+      ...config.ai.llm,
+      ...settings,
+    };
+
+    const initial = providers || [new OpenAIProvider(), new AnthropicProvider(), new LocalFixtureProvider()];
+    initial.forEach(provider => this.registerProvider(provider));
+  }
+
+  registerProvider(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  getProvider(name: LLMProviderName): LLMProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  async generateStructured<T>(options: StructuredGenerationOptions<T>): Promise<StructuredGenerationResult<T>> {
+    const chain = this.resolveProviderChain(options.provider);
+    let lastError: AIProviderError | undefined;
+    let attempts = 0;
+
+    for (const provider of chain) {
+      for (let attempt = 0; attempt <= this.settings.maxRetries; attempt++) {
+        attempts++;
+
+        try {
+          const completion = await this.withTimeout(provider, signal =>
+            provider.complete({
+              task: options.task,
+              system: options.system,
+              prompt: options.prompt,
+              temperature: options.temperature,
+              maxTokens: options.maxTokens,
+              json: true,
+              signal,
+            })
+          );
+
+          this.recordUsage(provider.name, options.task, completion.usage, false);
+
+          const data = this.parseStructured(provider.name, completion.text, options.schema);
+
+          return {
+            data,
+            provider: provider.name,
+            model: completion.model,
+            generatedBy: `${provider.name}-${completion.model}`,
+            usage: completion.usage,
+            attempts,
+          };
+        } catch (error: any) {
+          lastError = error instanceof AIProviderError
+            ? error
+            : new AIProviderError(provider.name, error?.message || 'Unknown error', error, false);
+
+          this.recordUsage(provider.name, options.task, undefined, true);
+
+          if (!lastError.retryable || attempt === this.settings.maxRetries) {
+            break;
+          }
+
+          await this.delay(this.settings.retryBaseDelayMs * Math.pow(2, attempt));
+        }
+      }
+    }
+
+    throw lastError || new AIProviderError('none', `No AI provider available for task "${options.task}"`, undefined, false);
+  }
+
+  /**
+   * Embed a batch of texts. Only providers that implement `embed` are tried,
+   * with the same timeout, retry and fallback rules as `generateStructured`.
+   */
+  async embed(options: EmbeddingOptions): Promise<EmbeddingGenerationResult> {
+    const chain = this.resolveProviderChain(options.provider).filter(provider => provider.embed);
+    let lastError: AIProviderError | undefined;
+
+    for (const provider of chain) {
+      for (let attempt = 0; attempt <= this.settings.maxRetries; attempt++) {
+        try {
+          const result = await this.withTimeout(provider, signal =>
+            provider.embed!({ task: options.task, input: options.input, signal })
+          );
+
+          if (result.vectors.length !== options.input.length) {
+            throw new AIProviderError(provider.name, `Expected ${options.input.length} embeddings, got ${result.vectors.length}`);
+          }
+
+          this.recordUsage(provider.name, options.task, result.usage, false);
+
+          return {
+            vectors: result.vectors,
+            provider: provider.name,
+            model: result.model,
+            generatedBy: `${provider.name}-${result.model}`,
+            usage: result.usage,
+          };
+        } catch (error: any) {
+          lastError = error instanceof AIProviderError
+            ? error
+            : new AIProviderError(provider.name, error?.message || 'Unknown error', error, false);
+
+          this.recordUsage(provider.name, options.task, undefined, true);
+
+          if (!lastError.retryable || attempt === this.settings.maxRetries) {
+            break;
+          }
+
+          await this.delay(this.settings.retryBaseDelayMs * Math.pow(2, attempt));
+        }
+      }
+    }
+
+    throw lastError || new AIProviderError('none', `No embedding provider available for task "${options.task}"`, undefined, false);
+  }
+
+  /**
+   * Per provider/task token totals accumulated since start-up (or the last reset).
+   */
+  getUsageSummary(): UsageSummaryEntry[] {
+    return Array.from(this.usage.values()).map(entry => ({ ...entry }));
+  }
+
+  resetUsage(): void {
+    this.usage.clear();
+  }
+
+  private resolveProviderChain(requested?: LLMProviderName): LLMProvider[] {
+    const primaryName = requested || this.settings.preferredProvider;
+    const names = [primaryName, ...this.settings.fallbackProviders.filter(name => name !== primaryName)];
+
+    const chain: LLMProvider[] = [];
+    names.forEach((name, index) => {
+      const provider = this.providers.get(name);
+      // The primary provider is always attempted so misconfiguration surfaces as a provider
+      // error; fallbacks without credentials are skipped silently.
+      if (provider && (index === 0 || provider.isConfigured())) {
+        chain.push(provider);
+      }
+    });
+
+    return chain;
+  }
+
+  private async withTimeout<R>(provider: LLMProvider, run: (signal: AbortSignal) => Promise<R>): Promise<R> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new AIProviderError(provider.name, `Request timed out after ${this.settings.timeoutMs}ms`));
+      }, this.settings.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([run(controller.signal), timeout]);
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+
+  private parseStructured<T>(
+    providerName: LLMProviderName,
+    text: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  ): T {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(extractJson(text));
+    } catch (error) {
+      throw new AIProviderError(providerName, 'Response did not contain valid JSON', error);
+    }
+
+    const result = schema.safeParse(payload);
+    if (!result.success) {
+      // Models occasionally drop or mistype a field; another attempt usually fixes it
+      throw new AIProviderError(providerName, 'Response failed schema validation', result.error.errors);
+    }
+
+    return result.data;
+  }
+
+  private recordUsage(provider: LLMProviderName, task: string, usage: TokenUsage | undefined, failed: boolean): void {
+    const key = `${provider}:${task}`;
+    const entry = this.usage.get(key) || {
+      provider,
+      task,
+      requests: 0,
+      failures: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+    };
+
+    if (failed) {
+      entry.failures++;
+    } else {
+      entry.requests++;
+    }
+
+    if (usage) {
+      entry.promptTokens += usage.promptTokens;
+      entry.completionTokens += usage.completionTokens;
+      entry.totalTokens += usage.totalTokens;
+    }
+
+    this.usage.set(key, entry);
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Pull the JSON document out of a model reply, tolerating markdown code fences
+ * and leading/trailing prose.
+ */
+export function extractJson(text: string): string {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1].trim() : trimmed;
+
+  if (candidate.startsWith('{') || candidate.startsWith('[')) {
+    return candidate;
+  }
+
+  const objectStart = candidate.indexOf('{');
+  const arrayStart = candidate.indexOf('[');
+  const starts = [objectStart, arrayStart].filter(index => index >= 0);
+  if (!starts.length) {
+    return candidate;
+  }
+
+  const start = Math.min(...starts);
+  const end = candidate.lastIndexOf(candidate[start] === '{' ? '}' : ']');
+  return end > start ? candidate.slice(start, end + 1) : candidate;
+}
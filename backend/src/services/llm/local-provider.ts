@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../../config/config';
+import { AIProviderError } from '../../utils/errors';
+import { LLMCompletionRequest, LLMCompletionResult, LLMEmbeddingRequest, LLMEmbeddingResult, LLMProvider } from './types';
+import { defaultFixtures } from './fixtures';
+
+const LOCAL_EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Deterministic, network-free provider backed by recorded responses.
+ *
+ * Fixtures are looked up by task name, first as `<task>.json` in
+ * `config.ai.local.fixturesDir` (when set) and then in the built-in set.
+ * A fixture file may hold a single response or an array of responses; with an
+ * array the variant is picked from a hash of the prompt, so the same request
+ * always yields the same answer.
+ *
+ * Embeddings are feature-hashed bags of words: crude, but stable and good
+ * enough to exercise similarity code paths without a network.
+ */
+export class LocalFixtureProvider implements LLMProvider {
+  readonly name = 'local' as const;
+  readonly model = 'local-fixtures';
+  private cache = new Map<string, unknown[]>();
+
+  constructor(private fixturesDir: string | undefined = config.ai.local?.fixturesDir) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const variants = this.loadFixtures(request.task);
+    if (!variants.length) {
+      throw new AIProviderError('local', `No fixture recorded for task "${request.task}"`, undefined, false);
+    }
+
+    const digest = crypto.createHash('sha256').update(request.prompt).digest();
+    const variant = variants[digest.readUInt32BE(0) % variants.length];
+    const text = typeof variant === 'string' ? variant : JSON.stringify(variant);
+
+    const promptTokens = this.estimateTokens(`${request.system || ''}${request.prompt}`);
+    const completionTokens = this.estimateTokens(text);
+
+    return {
+      text,
+      model: this.model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  async embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult> {
+    const vectors = request.input.map(text => {
+      const vector = new Array<number>(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+        const digest = crypto.createHash('sha256').update(word).digest();
+        vector[digest.readUInt32BE(0) % LOCAL_EMBEDDING_DIMENSIONS] += digest[4] & 1 ? 1 : -1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map(value => value / norm);
+    });
+    const promptTokens = request.input.reduce((sum, text) => sum + this.estimateTokens(text), 0);
+
+    return {
+      vectors,
+      model: this.model,
+      usage: { promptTokens, completionTokens: 0, totalTokens: promptTokens },
+    };
+  }
+
+  private loadFixtures(task: string): unknown[] {
+    const cached = this.cache.get(task);
+    if (cached) return cached;
+
+    let variants: unknown[] = [];
+
+    if (this.fixturesDir) {
+      const file = path.resolve(this.fixturesDir, `${task}.json`);
+      if (fs.existsSync(file)) {
+        try {
+          const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+          variants = Array.isArray(parsed) ? parsed : [parsed];
+        } catch (error: any) {
+          throw new AIProviderError('local', `Fixture ${file} is not valid JSON: ${error.message}`, error, false);
+        }
+      }
+    }
+
+    if (!variants.length && defaultFixtures[task]) {
+      variants = defaultFixtures[task];
+    }
+
+    this.cache.set(task, variants);
+    return variants;
+  }
+
+  // Rough 4-characters-per-token estimate, good enough for usage accounting in dev/CI
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+}
@@ -0,0 +1,83 @@
+import OpenAI from 'openai';
+import { config } from '../../config/config';
+import { AIProviderError } from '../../utils/errors';
+import { LLMCompletionRequest, LLMCompletionResult, LLMEmbeddingRequest, LLMEmbeddingResult, LLMProvider } from './types';
+import { isRetryableProviderError } from './errors';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI;
+
+  constructor() {
+    this.client = new OpenAI({
+      apiKey: config.ai.openai.apiKey,
+    });
+  }
+
+  get model(): string {
+    return config.ai.openai.model;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(config.ai.openai.apiKey);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const messages: Array<{ role: 'system' | 'user'; content: string }> = [];
+    if (request.system) {
+      messages.push({ role: 'system', content: request.system });
+    }
+    messages.push({ role: 'user', content: request.prompt });
+
+    try {
+      const completion = await this.client.chat.completions.create(
+        {
+          model: this.model,
+          messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+        },
+        { signal: request.signal }
+      );
+
+      const usage = completion.usage;
+
+      return {
+        text: completion.choices[0]?.message?.content || '',
+        model: completion.model || this.model,
+        usage: {
+          promptTokens: usage?.prompt_tokens || 0,
+          completionTokens: usage?.completion_tokens || 0,
+          totalTokens: usage?.total_tokens || 0,
+        },
+      };
+    } catch (error: any) {
+      throw new AIProviderError(this.name, error.message, error, isRetryableProviderError(error));
+    }
+  }
+
+  async embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult> {
+    try {
+      const response = await this.client.embeddings.create(
+        {
+          model: config.ai.openai.embeddingModel,
+          input: request.input,
+        },
+        { signal: request.signal }
+      );
+
+      return {
+        vectors: [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding),
+        model: response.model || config.ai.openai.embeddingModel,
+        usage: {
+          promptTokens: response.usage?.prompt_tokens || 0,
+          completionTokens: 0,
+          totalTokens: response.usage?.total_tokens || 0,
+        },
+      };
+    } catch (error: any) {
+      throw new AIProviderError(this.name, error.message, error, isRetryableProviderError(error));
+    }
+  }
+}
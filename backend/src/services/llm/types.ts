@@ -0,0 +1,98 @@
+import { z } from 'zod';
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'local';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * A single prompt sent to a provider. `task` identifies the calling operation
+ * (e.g. `content.generate`) and is used for usage accounting and for fixture
+ * lookup by the local provider.
+ */
+export interface LLMCompletionRequest {
+  task: string;
+  system?: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletionResult {
+  text: string;
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface LLMEmbeddingRequest {
+  task: string;
+  input: string[];
+  signal?: AbortSignal;
+}
+
+export interface LLMEmbeddingResult {
+  vectors: number[][]; // One vector per input, in input order
+  model: string;
+  usage: TokenUsage;
+}
+
+/**
+ * Contract every LLM backend implements. Providers only move text in and out;
+ * retries, timeouts, JSON extraction and schema validation live in LLMClient.
+ * `embed` is optional because not every vendor offers an embeddings API.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  isConfigured(): boolean;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult>;
+  embed?(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult>;
+}
+
+export interface StructuredGenerationOptions<T> {
+  task: string;
+  system?: string;
+  prompt: string;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  provider?: LLMProviderName;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface StructuredGenerationResult<T> {
+  data: T;
+  provider: LLMProviderName;
+  model: string;
+  generatedBy: string;
+  usage: TokenUsage;
+  attempts: number;
+}
+
+export interface EmbeddingOptions {
+  task: string;
+  input: string[];
+  provider?: LLMProviderName;
+}
+
+export interface EmbeddingGenerationResult {
+  vectors: number[][];
+  provider: LLMProviderName;
+  model: string;
+  generatedBy: string;
+  usage: TokenUsage;
+}
+
+export interface UsageSummaryEntry {
+  provider: LLMProviderName;
+  task: string;
+  requests: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
@@ -1,6 +1,12 @@
 import { z } from 'zod';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AssetType, AssetVariantType, MediaProcessingStatus, Platform, Prisma, PrismaClient } from '@prisma/client';
 import { config } from '../config/config';
+import { addMediaProcessingJob } from '../config/redis';
 import { ValidationError } from '../utils/errors';
+import { prisma } from './database';
 import * as AWS from 'aws-sdk';
 import sharp from 'sharp';
 import ffmpeg from 'fluent-ffmpeg';
@@ -12,6 +18,7 @@ export interface MediaAttachment {
   originalName: string;
   filename: string;
   type: 'image' | 'video' | 'audio' | 'document' | 'gif';
+  assetType?: AssetType; // Library category, e.g. LOGO or SCREENSHOT
   mimeType: string;
   size: number; // bytes
   dimensions?: {
@@ -28,6 +35,8 @@ export interface MediaAttachment {
   };
   processing: {
     status: 'pending' | 'processing' | 'completed' | 'failed';
+    jobId?: string;
+    error?: string;
     variants: MediaVariant[];
     optimizations: {
       compressed: boolean;
@@ -40,6 +49,11 @@ export interface MediaAttachment {
       colorProfile?: string;
       bitrate?: number;
       fps?: number;
+      format?: string;
+      codec?: string;
+      hasAudio?: boolean;
+      hasAlpha?: boolean;
+      density?: number;
     };
   };
   usage: {
@@ -60,6 +74,7 @@ export interface MediaAttachment {
     license?: string;
     restrictions?: string[];
   };
+  compatiblePlatforms?: string[];
   tags: string[];
   createdAt: Date;
   updatedAt: Date;
@@ -67,7 +82,7 @@ export interface MediaAttachment {
 
 export interface MediaVariant {
   id: string;
-  type: 'thumbnail' | 'compressed' | 'platform_optimized' | 'watermarked';
+  type: 'thumbnail' | 'compressed' | 'resized' | 'platform_optimized' | 'watermarked';
   platform?: string; // if platform-specific
   specifications: {
     width?: number;
@@ -92,6 +107,7 @@ export interface MediaUploadRequest {
     size: number;
   };
   metadata?: {
+    assetType?: AssetType;
     altText?: string;
     caption?: string;
     tags?: string[];
@@ -103,11 +119,14 @@ export interface MediaUploadRequest {
     generateThumbnail?: boolean;
     compress?: boolean;
     resize?: { width?: number; height?: number };
-    watermark?: { text?: string; image?: string };
+    // Without text or image, the organization's latest LOGO asset is used
+    watermark?: { text?: string; image?: string; position?: WatermarkPosition; opacity?: number };
     platformOptimizations?: string[];
   };
 }
 
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
 export interface MediaProcessingOptions {
   resize?: {
     width?: number;
@@ -127,7 +146,7 @@ export interface MediaProcessingOptions {
   watermark?: {
     type: 'text' | 'image';
     content: string;
-    position: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+    position: WatermarkPosition;
     opacity?: number;
     fontSize?: number;
     fontFamily?: string;
@@ -164,10 +183,12 @@ export interface PlatformMediaRequirements {
 }
 
 export interface MediaLibraryFilters {
-  type?: string[];
+  type?: string[]; // AssetType values
   mimeType?: string[];
-  tags?: string[];
-  platforms?: string[];
+  tags?: string[]; // Matches any of the tags
+  platforms?: string[]; // Publishable to every listed platform
+  aspectRatios?: string[]; // e.g. ['1:1', '16:9']
+  search?: string;
   dateRange?: {
     start: Date;
     end: Date;
@@ -191,10 +212,11 @@ export interface MediaLibraryFilters {
     maxUsage?: number;
     unused?: boolean;
   };
-  sortBy?: 'created' | 'updated' | 'name' | 'size' | 'usage';
+  sortBy?: 'created' | 'updated' | 'name' | 'size' | 'usage' | 'lastUsed';
   sortOrder?: 'asc' | 'desc';
   page?: number;
   limit?: number;
+  cursor?: string; // nextCursor from the previous page; takes precedence over page
 }
 
 const MediaUploadRequestSchema = z.object({
@@ -206,6 +228,7 @@ const MediaUploadRequestSchema = z.object({
     size: z.number().positive(),
   }),
   metadata: z.object({
+    assetType: z.nativeEnum(AssetType).optional(),
     altText: z.string().optional(),
     caption: z.string().optional(),
     tags: z.array(z.string()).optional(),
@@ -221,19 +244,115 @@ const MediaUploadRequestSchema = z.object({
       height: z.number().optional(),
     }).optional(),
     watermark: z.object({
-      text: z.string().optional(),
+      text: z.string().max(100).optional(),
       image: z.string().optional(),
+      position: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center']).optional(),
+      opacity: z.number().min(0).max(1).optional(),
     }).optional(),
     platformOptimizations: z.array(z.string()).optional(),
   }).optional(),
 });
 
+const MediaLibraryFiltersSchema = z.object({
+  type: z.array(z.nativeEnum(AssetType)).optional(),
+  mimeType: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  platforms: z.array(z.nativeEnum(Platform)).optional(),
+  aspectRatios: z.array(z.string().regex(/^\d+(\.\d+)?:\d+(\.\d+)?$/, 'Aspect ratios look like 16:9')).optional(),
+  search: z.string().optional(),
+  dateRange: z.object({
+    start: z.coerce.date(),
+    end: z.coerce.date(),
+    field: z.enum(['created', 'updated', 'lastUsed']).default('created'),
+  }).optional(),
+  sizeRange: z.object({
+    min: z.number().min(0),
+    max: z.number().min(0),
+  }).optional(),
+  dimensions: z.object({
+    minWidth: z.number().optional(),
+    maxWidth: z.number().optional(),
+    minHeight: z.number().optional(),
+    maxHeight: z.number().optional(),
+  }).optional(),
+  hasAltText: z.boolean().optional(),
+  hasRights: z.boolean().optional(),
+  processingStatus: z.array(z.enum(['pending', 'processing', 'completed', 'failed'])).optional(),
+  usage: z.object({
+    minUsage: z.number().optional(),
+    maxUsage: z.number().optional(),
+    unused: z.boolean().optional(),
+  }).optional(),
+  sortBy: z.enum(['created', 'updated', 'name', 'size', 'usage', 'lastUsed']).default('created'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  page: z.number().int().min(1).default(1),
+  limit: z.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+const ASSET_INCLUDE = {
+  variants: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.AssetInclude;
+
+type AssetRecord = Prisma.AssetGetPayload<{ include: typeof ASSET_INCLUDE }>;
+
+// Library sort options and the column behind each; usage is how often an asset has been published
+const SORT_FIELDS = {
+  created: 'createdAt',
+  updated: 'updatedAt',
+  name: 'originalName',
+  size: 'size',
+  usage: 'downloadCount',
+  lastUsed: 'lastUsedAt',
+} as const;
+
+type SortColumn = typeof SORT_FIELDS[keyof typeof SORT_FIELDS];
+
+// Matches the two-decimal comparison used by checkPlatformRequirements
+const ASPECT_RATIO_TOLERANCE = 0.005;
+
+const THUMBNAIL_SIZE = 300;
+
+// Compressed copies; AVIF is smaller at a given quality but not yet accepted everywhere
+const COMPRESSION_FORMATS = [
+  { format: 'webp', mimeType: 'image/webp', quality: 80 },
+  { format: 'avif', mimeType: 'image/avif', quality: 50 },
+] as const;
+
+const WATERMARK_SCALE = 0.15; // Logo width relative to the image width
+const WATERMARK_MARGIN = 0.03; // Margin relative to the shorter edge
+const DEFAULT_WATERMARK_OPACITY = 0.7;
+
+// The parts of ffprobe's output that are read
+interface ProbeStream {
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  r_frame_rate?: string;
+  tags?: { rotate?: string };
+  side_data_list?: Array<{ rotation?: number }>;
+}
+
+interface ProbeData {
+  streams: ProbeStream[];
+  format: { format_name?: string; duration?: number | string; bit_rate?: number | string };
+}
+
+interface MediaInspection {
+  dimensions?: MediaAttachment['dimensions'];
+  metadata: MediaAttachment['processing']['metadata'];
+  hasEmbeddedMetadata: boolean;
+}
+
 export class MediaAttachmentService {
   private s3: AWS.S3;
   private bucket: string;
   private platformRequirements: PlatformMediaRequirements;
+  private db: PrismaClient;
 
-  constructor() {
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
     this.s3 = new AWS.S3({
       accessKeyId: process.env.AWS_ACCESS_KEY_ID,
       secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
@@ -326,6 +445,13 @@ export class MediaAttachmentService {
       },
       TIKTOK: {
         post: {
+          image: {
+            maxSize: 20 * 1024 * 1024, // 20MB
+            maxDimensions: { width: 1080, height: 1920 },
+            minDimensions: { width: 360, height: 360 },
+            aspectRatios: ['9:16', '4:5', '1:1'],
+            formats: ['jpeg', 'jpg', 'webp'],
+          },
           video: {
             maxSize: 287.6 * 1024 * 1024, // 287.6MB
             maxDuration: 180, // 3 minutes
@@ -353,6 +479,10 @@ export class MediaAttachmentService {
     };
   }
 
+  /**
+   * Store the original as a library asset and queue it for processing.
+   * Dimensions, metadata and variants are filled in by the media-processing worker.
+   */
   async uploadMedia(request: MediaUploadRequest): Promise<MediaAttachment> {
     try {
       const validatedRequest = MediaUploadRequestSchema.parse(request);
@@ -368,64 +498,34 @@ export class MediaAttachmentService {
       // Upload to S3
       const uploadResult = await this.uploadToS3(validatedRequest.file.buffer, key, validatedRequest.file.mimeType);
 
-      // Get file dimensions and metadata
-      const dimensions = await this.getMediaDimensions(validatedRequest.file.buffer, validatedRequest.file.mimeType);
-      const metadata = await this.extractMediaMetadata(validatedRequest.file.buffer, validatedRequest.file.mimeType);
-
-      // Create media attachment record
-      const mediaAttachment: MediaAttachment = {
-        id: `media_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        organizationId: validatedRequest.organizationId,
-        originalName: validatedRequest.file.originalName,
-        filename,
-        type: this.getMediaType(validatedRequest.file.mimeType),
-        mimeType: validatedRequest.file.mimeType,
-        size: validatedRequest.file.size,
-        dimensions,
-        storage: {
-          provider: 'aws_s3',
-          bucket: this.bucket,
-          key,
+      const asset = await this.db.asset.create({
+        data: {
+          organizationId: validatedRequest.organizationId,
+          filename,
+          originalName: validatedRequest.file.originalName,
+          type: validatedRequest.metadata?.assetType ?? this.getAssetType(validatedRequest.file.mimeType),
+          mimeType: validatedRequest.file.mimeType,
+          size: validatedRequest.file.size,
+          s3Key: key,
+          s3Bucket: this.bucket,
           url: uploadResult.Location!,
-        },
-        processing: {
-          status: 'pending',
-          variants: [],
-          optimizations: {
-            compressed: false,
-            resized: false,
-            formatted: false,
-            watermarked: false,
-          },
-          metadata,
-        },
-        usage: {
-          platforms: [],
-          contentPieces: [],
-          campaigns: [],
-          timesUsed: 0,
-        },
-        accessibility: {
+          description: validatedRequest.metadata?.caption,
+          tags: validatedRequest.metadata?.tags || [],
           altText: validatedRequest.metadata?.altText,
-          caption: validatedRequest.metadata?.caption,
-        },
-        compliance: {
           hasRights: validatedRequest.metadata?.hasRights ?? false,
           source: validatedRequest.metadata?.source,
           license: validatedRequest.metadata?.license,
         },
-        tags: validatedRequest.metadata?.tags || [],
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      // Process media if requested
-      if (validatedRequest.processing) {
-        await this.processMedia(mediaAttachment, validatedRequest.processing);
-      }
+        include: ASSET_INCLUDE,
+      });
+      const mediaAttachment = this.toMediaAttachment(asset);
 
-      // In real implementation: save to database
-      // await prisma.mediaAttachment.create({ data: mediaAttachment });
+      // Metadata extraction and EXIF stripping always run, even without processing options
+      const job = await addMediaProcessingJob({
+        media: mediaAttachment,
+        options: validatedRequest.processing || {},
+      });
+      mediaAttachment.processing.jobId = job.id;
 
       return mediaAttachment;
     } catch (error) {
@@ -436,64 +536,98 @@ export class MediaAttachmentService {
     }
   }
 
+  /**
+   * Runs in the media-processing worker. Reads the true dimensions and
+   * metadata, strips EXIF from the stored original, builds the requested
+   * variants from the stripped copy and saves the result on the asset.
+   */
   async processMedia(
     mediaAttachment: MediaAttachment, 
     options: MediaUploadRequest['processing']
   ): Promise<MediaAttachment> {
     try {
       mediaAttachment.processing.status = 'processing';
+      await this.db.asset.update({
+        where: { id: mediaAttachment.id },
+        data: { processingStatus: MediaProcessingStatus.PROCESSING },
+      });
       
       // Download original file for processing
       const originalBuffer = await this.downloadFromS3(mediaAttachment.storage.key);
+
+      const inspection = await this.inspectMedia(originalBuffer, mediaAttachment);
+      mediaAttachment.dimensions = inspection.dimensions;
+      mediaAttachment.processing.metadata = inspection.metadata;
+
+      // Animated GIFs would lose their frames, so only still images are re-encoded
+      const sourceBuffer = mediaAttachment.type === 'image' && inspection.hasEmbeddedMetadata
+        ? await this.stripImageMetadata(originalBuffer, mediaAttachment)
+        : originalBuffer;
       
       const variants: MediaVariant[] = [];
 
       // Generate thumbnail if requested
-      if (options?.generateThumbnail && mediaAttachment.type === 'image') {
-        const thumbnailVariant = await this.generateThumbnail(originalBuffer, mediaAttachment);
+      if (options?.generateThumbnail && (mediaAttachment.type === 'image' || mediaAttachment.type === 'video')) {
+        const frame = mediaAttachment.type === 'video'
+          ? await this.extractVideoFrame(sourceBuffer, mediaAttachment)
+          : sourceBuffer;
+        const thumbnailVariant = await this.generateThumbnail(frame, mediaAttachment);
         variants.push(thumbnailVariant);
         mediaAttachment.storage.thumbnailUrl = thumbnailVariant.storage.url;
       }
 
       // Compress if requested
       if (options?.compress && mediaAttachment.type === 'image') {
-        const compressedVariant = await this.compressImage(originalBuffer, mediaAttachment);
-        variants.push(compressedVariant);
-        mediaAttachment.processing.optimizations.compressed = true;
+        const compressedVariants = await this.compressImage(sourceBuffer, mediaAttachment);
+        variants.push(...compressedVariants);
+        mediaAttachment.processing.optimizations.compressed = compressedVariants.length > 0;
+        mediaAttachment.processing.optimizations.formatted = compressedVariants.length > 0;
       }
 
       // Resize if requested
       if (options?.resize && mediaAttachment.type === 'image') {
-        const resizedVariant = await this.resizeImage(originalBuffer, mediaAttachment, options.resize);
+        const resizedVariant = await this.resizeImage(sourceBuffer, mediaAttachment, options.resize);
         variants.push(resizedVariant);
         mediaAttachment.processing.optimizations.resized = true;
       }
 
       // Add watermark if requested
       if (options?.watermark && mediaAttachment.type === 'image') {
-        const watermarkedVariant = await this.addWatermark(originalBuffer, mediaAttachment, options.watermark);
-        variants.push(watermarkedVariant);
-        mediaAttachment.processing.optimizations.watermarked = true;
+        const watermarkedVariant = await this.addWatermark(sourceBuffer, mediaAttachment, options.watermark);
+        if (watermarkedVariant) {
+          variants.push(watermarkedVariant);
+          mediaAttachment.processing.optimizations.watermarked = true;
+        }
       }
 
       // Generate platform-optimized variants
       if (options?.platformOptimizations) {
         for (const platform of options.platformOptimizations) {
-          const platformVariants = await this.generatePlatformOptimizedVariants(originalBuffer, mediaAttachment, platform);
+          const platformVariants = await this.generatePlatformOptimizedVariants(sourceBuffer, mediaAttachment, platform);
           variants.push(...platformVariants);
         }
       }
 
       mediaAttachment.processing.variants = variants;
+      mediaAttachment.compatiblePlatforms = this.getCompatiblePlatforms(mediaAttachment);
       mediaAttachment.processing.status = 'completed';
       mediaAttachment.updatedAt = new Date();
 
-      // In real implementation: update database
-      // await prisma.mediaAttachment.update({ where: { id: mediaAttachment.id }, data: mediaAttachment });
-
-      return mediaAttachment;
+      return await this.saveProcessingResult(mediaAttachment);
     } catch (error) {
       mediaAttachment.processing.status = 'failed';
+      mediaAttachment.processing.error = error instanceof Error ? error.message : String(error);
+
+      await this.db.asset.update({
+        where: { id: mediaAttachment.id },
+        data: {
+          processingStatus: MediaProcessingStatus.FAILED,
+          processingError: mediaAttachment.processing.error,
+        },
+      }).catch((updateError: Error) => {
+        console.error(`Failed to record processing failure for media ${mediaAttachment.id}:`, updateError);
+      });
+
       throw error;
     }
   }
@@ -504,32 +638,62 @@ export class MediaAttachmentService {
   ): Promise<{
     media: MediaAttachment[];
     pagination: {
-      page: number;
+      page?: number;
       limit: number;
       total: number;
       totalPages: number;
+      nextCursor: string | null;
+      hasMore: boolean;
     };
   }> {
-    // Mock implementation - in real implementation, query database with filters
-    const mockMedia: MediaAttachment[] = [];
-    
-    const page = filters.page || 1;
-    const limit = filters.limit || 20;
-    const total = mockMedia.length;
-    const totalPages = Math.ceil(total / limit);
-
-    const startIndex = (page - 1) * limit;
-    const paginatedMedia = mockMedia.slice(startIndex, startIndex + limit);
+    try {
+      const validatedFilters = MediaLibraryFiltersSchema.parse(filters);
+      const where = this.buildLibraryWhere(organizationId, validatedFilters);
+
+      const column = SORT_FIELDS[validatedFilters.sortBy];
+      const direction = validatedFilters.sortOrder;
+      // lastUsedAt is empty for assets that were never published; those always sort last
+      const orderBy: Prisma.AssetOrderByWithRelationInput[] = [
+        column === 'lastUsedAt' ? { lastUsedAt: { sort: direction, nulls: 'last' } } : { [column]: direction },
+        { id: direction },
+      ];
+
+      const cursorWhere = validatedFilters.cursor
+        ? this.buildCursorWhere(this.decodeCursor(validatedFilters.cursor, column), column, direction)
+        : undefined;
+
+      const [records, total] = await Promise.all([
+        this.db.asset.findMany({
+          where: cursorWhere ? { AND: [where, cursorWhere] } : where,
+          include: ASSET_INCLUDE,
+          orderBy,
+          take: validatedFilters.limit + 1,
+          skip: cursorWhere ? undefined : (validatedFilters.page - 1) * validatedFilters.limit,
+        }),
+        this.db.asset.count({ where }),
+      ]);
+
+      const hasMore = records.length > validatedFilters.limit;
+      const page = records.slice(0, validatedFilters.limit);
+      const last = page[page.length - 1];
 
-    return {
-      media: paginatedMedia,
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages,
-      },
-    };
+      return {
+        media: page.map(record => this.toMediaAttachment(record)),
+        pagination: {
+          page: cursorWhere ? undefined : validatedFilters.page,
+          limit: validatedFilters.limit,
+          total,
+          totalPages: Math.ceil(total / validatedFilters.limit),
+          nextCursor: hasMore && last ? this.encodeCursor(last, column) : null,
+          hasMore,
+        },
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid media library filters', 'filters', error.errors);
+      }
+      throw error;
+    }
   }
 
   async validateForPlatform(
@@ -548,32 +712,67 @@ export class MediaAttachmentService {
       throw new ValidationError('Media not found', 'mediaId', mediaId);
     }
 
-    const requirements = this.platformRequirements[platform]?.[contentType];
+    const { supported, violations, suggestions } = this.checkPlatformRequirements(
+      { ...media, format: this.getFileExtension(media.filename) },
+      platform,
+      contentType
+    );
+
+    return {
+      isValid: violations.length === 0,
+      violations,
+      suggestions,
+      canOptimize: supported && violations.length > 0, // Can optimize if there are violations
+    };
+  }
+
+  getPlatformRequirements(platform: string, contentType: string): PlatformMediaRequirements[string][string] | undefined {
+    return this.platformRequirements[platform]?.[contentType];
+  }
+
+  /**
+   * Check a media file or one of its variants against a platform's requirements.
+   * Checks are skipped for properties that are unknown (e.g. size of a URL-only reference).
+   */
+  checkPlatformRequirements(
+    media: {
+      type: MediaAttachment['type'];
+      size?: number;
+      dimensions?: MediaAttachment['dimensions'];
+      format?: string;
+    },
+    platform: string,
+    contentType: string
+  ): {
+    supported: boolean;
+    violations: string[];
+    suggestions: string[];
+  } {
+    const requirements = this.getPlatformRequirements(platform, contentType);
     if (!requirements) {
       return {
-        isValid: false,
+        supported: false,
         violations: ['Platform/content type not supported'],
         suggestions: [],
-        canOptimize: false,
       };
     }
 
     const violations: string[] = [];
     const suggestions: string[] = [];
     
-    const mediaReqs = requirements[media.type as 'image' | 'video'];
+    // GIFs are published as images on every platform that accepts them
+    const mediaReqs = requirements[media.type === 'gif' ? 'image' : media.type as 'image' | 'video'];
     if (!mediaReqs) {
       violations.push(`${media.type} not supported for ${platform} ${contentType}`);
       return {
-        isValid: false,
+        supported: false,
         violations,
         suggestions: [`Consider using a different media type`],
-        canOptimize: false,
       };
     }
 
     // Check file size
-    if (media.size > mediaReqs.maxSize) {
+    if (media.size !== undefined && media.size > mediaReqs.maxSize) {
       violations.push(`File size ${this.formatBytes(media.size)} exceeds maximum ${this.formatBytes(mediaReqs.maxSize)}`);
       suggestions.push('Compress the file or use a smaller version');
     }
@@ -606,9 +805,8 @@ export class MediaAttachmentService {
     }
 
     // Check format
-    const fileExtension = this.getFileExtension(media.filename);
-    if (!mediaReqs.formats.includes(fileExtension.toLowerCase())) {
-      violations.push(`Format ${fileExtension} not supported. Supported formats: ${mediaReqs.formats.join(', ')}`);
+    if (media.format && !mediaReqs.formats.includes(media.format.toLowerCase())) {
+      violations.push(`Format ${media.format} not supported. Supported formats: ${mediaReqs.formats.join(', ')}`);
       suggestions.push('Convert to a supported format');
     }
 
@@ -621,10 +819,9 @@ export class MediaAttachmentService {
     }
 
     return {
-      isValid: violations.length === 0,
+      supported: true,
       violations,
       suggestions,
-      canOptimize: violations.length > 0, // Can optimize if there are violations
     };
   }
 
@@ -648,15 +845,25 @@ export class MediaAttachmentService {
     
     // Generate optimized variants
     const platformVariants = await this.generatePlatformOptimizedVariants(originalBuffer, media, platform, contentType);
-    
-    // Add variants to media
-    media.processing.variants.push(...platformVariants);
-    media.updatedAt = new Date();
+    const keys = platformVariants.map(variant => variant.storage.key);
 
-    // In real implementation: update database
-    // await prisma.mediaAttachment.update({ where: { id: mediaId }, data: media });
+    media.processing.variants = [
+      ...media.processing.variants.filter(variant => !keys.includes(variant.storage.key)),
+      ...platformVariants,
+    ];
 
-    return media;
+    // Regenerated crops overwrite the same keys, so their old rows are replaced
+    const [, , record] = await this.db.$transaction([
+      this.db.assetVariant.deleteMany({ where: { s3Key: { in: keys } } }),
+      this.db.assetVariant.createMany({ data: platformVariants.map(variant => this.toVariantRecord(mediaId, variant)) }),
+      this.db.asset.update({
+        where: { id: mediaId },
+        data: { compatiblePlatforms: this.getCompatiblePlatforms(media) as Platform[] },
+        include: ASSET_INCLUDE,
+      }),
+    ]);
+
+    return this.toMediaAttachment(record);
   }
 
   async deleteMedia(mediaId: string, organizationId: string): Promise<boolean> {
@@ -677,8 +884,8 @@ export class MediaAttachmentService {
       await this.deleteFromS3(variant.storage.key);
     }
 
-    // In real implementation: delete from database
-    // await prisma.mediaAttachment.delete({ where: { id: mediaId } });
+    // Variant rows cascade
+    await this.db.asset.delete({ where: { id: mediaId } });
 
     return true;
   }
@@ -693,6 +900,7 @@ export class MediaAttachmentService {
       hasRights?: boolean;
       source?: string;
       license?: string;
+      assetType?: AssetType;
     }
   ): Promise<MediaAttachment> {
     const media = await this.getMediaById(mediaId);
@@ -704,25 +912,322 @@ export class MediaAttachmentService {
       throw new ValidationError('Access denied', 'organizationId', 'Media belongs to different organization');
     }
 
-    // Update metadata
-    if (updates.altText !== undefined) media.accessibility.altText = updates.altText;
-    if (updates.caption !== undefined) media.accessibility.caption = updates.caption;
-    if (updates.tags !== undefined) media.tags = updates.tags;
-    if (updates.hasRights !== undefined) media.compliance.hasRights = updates.hasRights;
-    if (updates.source !== undefined) media.compliance.source = updates.source;
-    if (updates.license !== undefined) media.compliance.license = updates.license;
-    
-    media.updatedAt = new Date();
+    const record = await this.db.asset.update({
+      where: { id: mediaId },
+      data: {
+        altText: updates.altText,
+        description: updates.caption,
+        tags: updates.tags,
+        hasRights: updates.hasRights,
+        source: updates.source,
+        license: updates.license,
+        type: updates.assetType,
+      },
+      include: ASSET_INCLUDE,
+    });
+
+    return this.toMediaAttachment(record);
+  }
+
+  async getMediaById(id: string): Promise<MediaAttachment | null> {
+    const record = await this.db.asset.findUnique({
+      where: { id },
+      include: ASSET_INCLUDE,
+    });
+
+    return record ? this.toMediaAttachment(record) : null;
+  }
+
+  /**
+   * Count a publish against each referenced asset; drives the usage filters
+   * and the usage/lastUsed sorts of the library
+   */
+  async recordUsage(mediaIds: string[]): Promise<void> {
+    if (mediaIds.length === 0) {
+      return;
+    }
+
+    await this.db.asset.updateMany({
+      where: { id: { in: Array.from(new Set(mediaIds)) } },
+      data: { downloadCount: { increment: 1 }, lastUsedAt: new Date() },
+    });
+  }
+
+  private buildLibraryWhere(
+    organizationId: string,
+    filters: z.infer<typeof MediaLibraryFiltersSchema>
+  ): Prisma.AssetWhereInput {
+    const conditions: Prisma.AssetWhereInput[] = [{ organizationId }];
+
+    if (filters.type?.length) {
+      conditions.push({ type: { in: filters.type } });
+    }
+    if (filters.mimeType?.length) {
+      // "image/" matches every image type
+      conditions.push({
+        OR: filters.mimeType.map(mimeType => (mimeType.endsWith('/') ? { mimeType: { startsWith: mimeType } } : { mimeType })),
+      });
+    }
+    if (filters.tags?.length) {
+      conditions.push({ tags: { hasSome: filters.tags } });
+    }
+    if (filters.platforms?.length) {
+      conditions.push({ compatiblePlatforms: { hasEvery: filters.platforms } });
+    }
+    if (filters.aspectRatios?.length) {
+      conditions.push({
+        OR: filters.aspectRatios.map(aspectRatio => {
+          const [width, height] = aspectRatio.split(':').map(Number);
+          const ratio = width / height;
+          return { aspectRatio: { gte: ratio - ASPECT_RATIO_TOLERANCE, lte: ratio + ASPECT_RATIO_TOLERANCE } };
+        }),
+      });
+    }
+    if (filters.search) {
+      conditions.push({
+        OR: [
+          { originalName: { contains: filters.search, mode: 'insensitive' } },
+          { title: { contains: filters.search, mode: 'insensitive' } },
+          { description: { contains: filters.search, mode: 'insensitive' } },
+        ],
+      });
+    }
+    if (filters.dateRange) {
+      const field = filters.dateRange.field === 'lastUsed' ? 'lastUsedAt' : filters.dateRange.field === 'updated' ? 'updatedAt' : 'createdAt';
+      conditions.push({ [field]: { gte: filters.dateRange.start, lte: filters.dateRange.end } });
+    }
+    if (filters.sizeRange) {
+      conditions.push({ size: { gte: filters.sizeRange.min, lte: filters.sizeRange.max } });
+    }
+    if (filters.dimensions) {
+      const { minWidth, maxWidth, minHeight, maxHeight } = filters.dimensions;
+      if (minWidth !== undefined || maxWidth !== undefined) {
+        conditions.push({ width: { gte: minWidth, lte: maxWidth } });
+      }
+      if (minHeight !== undefined || maxHeight !== undefined) {
+        conditions.push({ height: { gte: minHeight, lte: maxHeight } });
+      }
+    }
+    if (filters.hasAltText !== undefined) {
+      conditions.push(filters.hasAltText
+        ? { AND: [{ altText: { not: null } }, { altText: { not: '' } }] }
+        : { OR: [{ altText: null }, { altText: '' }] });
+    }
+    if (filters.hasRights !== undefined) {
+      conditions.push({ hasRights: filters.hasRights });
+    }
+    if (filters.processingStatus?.length) {
+      conditions.push({
+        processingStatus: { in: filters.processingStatus.map(status => status.toUpperCase() as MediaProcessingStatus) },
+      });
+    }
+    if (filters.usage) {
+      conditions.push(filters.usage.unused
+        ? { downloadCount: 0 }
+        : { downloadCount: { gte: filters.usage.minUsage, lte: filters.usage.maxUsage } });
+    }
+
+    return conditions.length === 1 ? conditions[0] : { AND: conditions };
+  }
+
+  /**
+   * Keyset condition for the rows after the cursor. Rows without a value
+   * (never-used assets when sorting by lastUsed) come after every row with one.
+   */
+  private buildCursorWhere(
+    cursor: { value: string | number | Date | null; id: string },
+    column: SortColumn,
+    direction: 'asc' | 'desc'
+  ): Prisma.AssetWhereInput {
+    const beyond = direction === 'desc' ? 'lt' : 'gt';
+
+    if (cursor.value === null) {
+      return { [column]: null, id: { [beyond]: cursor.id } };
+    }
+
+    const conditions: Prisma.AssetWhereInput[] = [
+      { [column]: { [beyond]: cursor.value } },
+      { [column]: cursor.value, id: { [beyond]: cursor.id } },
+    ];
+    if (column === 'lastUsedAt') {
+      conditions.push({ lastUsedAt: null });
+    }
 
-    // In real implementation: update database
-    // await prisma.mediaAttachment.update({ where: { id: mediaId }, data: media });
+    return { OR: conditions };
+  }
+
+  private encodeCursor(record: AssetRecord, column: SortColumn): string {
+    const value = record[column];
+    return Buffer.from(JSON.stringify({
+      v: value instanceof Date ? value.toISOString() : value,
+      id: record.id,
+    })).toString('base64url');
+  }
 
-    return media;
+  private decodeCursor(cursor: string, column: SortColumn): { value: string | number | Date | null; id: string } {
+    try {
+      const { v, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (typeof id !== 'string') {
+        throw new Error('missing id');
+      }
+      const isDate = column === 'createdAt' || column === 'updatedAt' || column === 'lastUsedAt';
+      return { value: v === null ? null : isDate ? new Date(v) : v, id };
+    } catch {
+      throw new ValidationError('Invalid cursor', 'cursor', cursor);
+    }
   }
 
-  private async getMediaById(id: string): Promise<MediaAttachment | null> {
-    // In real implementation: fetch from database
-    return null;
+  private async saveProcessingResult(media: MediaAttachment): Promise<MediaAttachment> {
+    const { width, height, duration } = media.dimensions || {};
+
+    // Reprocessing replaces every variant
+    const [, , record] = await this.db.$transaction([
+      this.db.assetVariant.deleteMany({ where: { assetId: media.id } }),
+      this.db.assetVariant.createMany({ data: media.processing.variants.map(variant => this.toVariantRecord(media.id, variant)) }),
+      this.db.asset.update({
+        where: { id: media.id },
+        data: {
+          size: media.size,
+          width: width ?? null,
+          height: height ?? null,
+          duration: duration ?? null,
+          aspectRatio: width && height ? width / height : null,
+          mediaMetadata: media.processing.metadata as Prisma.InputJsonValue,
+          compatiblePlatforms: (media.compatiblePlatforms || []) as Platform[],
+          processingStatus: MediaProcessingStatus.COMPLETED,
+          processingError: null,
+        },
+        include: ASSET_INCLUDE,
+      }),
+    ]);
+
+    return this.toMediaAttachment(record);
+  }
+
+  /**
+   * Platforms the original or one of its variants can be published to, using the
+   * same post requirements as publishing. Platforms without published
+   * requirements take any image or video as-is.
+   */
+  private getCompatiblePlatforms(media: MediaAttachment): string[] {
+    if (!['image', 'gif', 'video'].includes(media.type)) {
+      return [];
+    }
+
+    const candidates = [
+      { type: media.type, size: media.size, dimensions: media.dimensions, format: this.getFileExtension(media.filename), platform: undefined as string | undefined },
+      ...media.processing.variants
+        .filter(variant => variant.type === 'platform_optimized' || variant.type === 'compressed')
+        .map(variant => ({
+          type: media.type,
+          size: variant.specifications.size,
+          dimensions: variant.specifications.width && variant.specifications.height
+            ? { width: variant.specifications.width, height: variant.specifications.height }
+            : media.dimensions,
+          format: variant.specifications.format,
+          platform: variant.platform,
+        })),
+    ];
+
+    return Object.values(Platform).filter(platform => {
+      if (!this.getPlatformRequirements(platform, 'post')) {
+        return true;
+      }
+
+      return candidates.some(candidate =>
+        (!candidate.platform || candidate.platform === platform) &&
+        this.checkPlatformRequirements(candidate, platform, 'post').violations.length === 0
+      );
+    });
+  }
+
+  private toVariantRecord(assetId: string, variant: MediaVariant): Prisma.AssetVariantCreateManyInput {
+    return {
+      assetId,
+      type: variant.type.toUpperCase() as AssetVariantType,
+      platform: variant.platform as Platform | undefined,
+      width: variant.specifications.width,
+      height: variant.specifications.height,
+      quality: variant.specifications.quality,
+      format: variant.specifications.format,
+      size: variant.specifications.size,
+      s3Key: variant.storage.key,
+      url: variant.storage.url,
+    };
+  }
+
+  private toMediaAttachment(record: AssetRecord): MediaAttachment {
+    const variants: MediaVariant[] = record.variants.map(variant => ({
+      id: variant.id,
+      type: variant.type.toLowerCase() as MediaVariant['type'],
+      platform: variant.platform ?? undefined,
+      specifications: {
+        width: variant.width ?? undefined,
+        height: variant.height ?? undefined,
+        quality: variant.quality ?? undefined,
+        format: variant.format ?? undefined,
+        size: variant.size ?? undefined,
+      },
+      storage: {
+        key: variant.s3Key,
+        url: variant.url,
+      },
+      createdAt: variant.createdAt,
+    }));
+    const hasVariant = (type: MediaVariant['type']) => variants.some(variant => variant.type === type);
+
+    return {
+      id: record.id,
+      organizationId: record.organizationId,
+      originalName: record.originalName,
+      filename: record.filename,
+      type: this.getMediaType(record.mimeType),
+      assetType: record.type,
+      mimeType: record.mimeType,
+      size: record.size,
+      dimensions: record.width !== null && record.height !== null
+        ? { width: record.width, height: record.height, duration: record.duration ?? undefined }
+        : undefined,
+      storage: {
+        provider: 'aws_s3',
+        bucket: record.s3Bucket,
+        key: record.s3Key,
+        url: record.url,
+        thumbnailUrl: variants.find(variant => variant.type === 'thumbnail')?.storage.url,
+      },
+      processing: {
+        status: record.processingStatus.toLowerCase() as MediaAttachment['processing']['status'],
+        error: record.processingError ?? undefined,
+        variants,
+        optimizations: {
+          compressed: hasVariant('compressed'),
+          resized: hasVariant('resized'),
+          formatted: hasVariant('compressed'),
+          watermarked: hasVariant('watermarked'),
+        },
+        metadata: (record.mediaMetadata as MediaAttachment['processing']['metadata'] | null) || {},
+      },
+      usage: {
+        platforms: [],
+        contentPieces: [],
+        campaigns: [],
+        timesUsed: record.downloadCount,
+        lastUsed: record.lastUsedAt ?? undefined,
+      },
+      accessibility: {
+        altText: record.altText ?? undefined,
+        caption: record.description ?? undefined,
+      },
+      compliance: {
+        hasRights: record.hasRights,
+        source: record.source ?? undefined,
+        license: record.license ?? undefined,
+      },
+      compatiblePlatforms: record.compatiblePlatforms,
+      tags: record.tags,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
   }
 
   private validateFile(file: { buffer: Buffer; originalName: string; mimeType: string; size: number }) {
@@ -749,6 +1254,12 @@ export class MediaAttachmentService {
     return filename.split('.').pop()?.toLowerCase() || '';
   }
 
+  private getAssetType(mimeType: string): AssetType {
+    if (mimeType.startsWith('image/')) return AssetType.IMAGE;
+    if (mimeType.startsWith('video/')) return AssetType.VIDEO;
+    return AssetType.DOCUMENT;
+  }
+
   private getMediaType(mimeType: string): 'image' | 'video' | 'audio' | 'document' | 'gif' {
     if (mimeType.startsWith('image/')) {
       return mimeType === 'image/gif' ? 'gif' : 'image';
@@ -770,7 +1281,7 @@ export class MediaAttachmentService {
     return this.s3.upload(uploadParams).promise();
   }
 
-  private async downloadFromS3(key: string): Promise<Buffer> {
+  async downloadFromS3(key: string): Promise<Buffer> {
     const params: AWS.S3.GetObjectRequest = {
       Bucket: this.bucket,
       Key: key,
@@ -780,6 +1291,17 @@ export class MediaAttachmentService {
     return result.Body as Buffer;
   }
 
+  /**
+   * Time-limited URL for platforms that pull media from a URL
+   */
+  getMediaUrl(key: string, expiresInSeconds = 3600): string {
+    return this.s3.getSignedUrl('getObject', {
+      Bucket: this.bucket,
+      Key: key,
+      Expires: expiresInSeconds,
+    });
+  }
+
   private async deleteFromS3(key: string): Promise<void> {
     const params: AWS.S3.DeleteObjectRequest = {
       Bucket: this.bucket,
@@ -789,67 +1311,146 @@ export class MediaAttachmentService {
     await this.s3.deleteObject(params).promise();
   }
 
-  private async getMediaDimensions(buffer: Buffer, mimeType: string): Promise<MediaAttachment['dimensions']> {
-    if (mimeType.startsWith('image/')) {
-      try {
-        const metadata = await sharp(buffer).metadata();
-        return {
-          width: metadata.width || 0,
-          height: metadata.height || 0,
-        };
-      } catch (error) {
-        return undefined;
-      }
+  /**
+   * True dimensions and metadata. Images are read with sharp, accounting for
+   * EXIF rotation; videos are probed with ffprobe.
+   */
+  private async inspectMedia(buffer: Buffer, media: MediaAttachment): Promise<MediaInspection> {
+    if (media.type === 'image' || media.type === 'gif') {
+      const metadata = await sharp(buffer).metadata();
+      // Orientations 5-8 are rotated a quarter turn, so the stored width is the displayed height
+      const rotated = (metadata.orientation || 1) >= 5;
+
+      return {
+        dimensions: {
+          width: (rotated ? metadata.height : metadata.width) || 0,
+          height: (rotated ? metadata.width : metadata.height) || 0,
+        },
+        metadata: {
+          format: metadata.format,
+          colorProfile: metadata.space,
+          hasAlpha: metadata.hasAlpha,
+          density: metadata.density,
+          // Only the fact that EXIF existed is kept; camera and GPS details are discarded
+          exif: metadata.exif ? { present: true, orientation: metadata.orientation } : undefined,
+        },
+        hasEmbeddedMetadata: Boolean(metadata.exif || metadata.xmp || metadata.iptc || metadata.icc),
+      };
     }
 
-    // For video files, you would use ffprobe or similar
-    // This is a simplified mock implementation
-    if (mimeType.startsWith('video/')) {
+    if (media.type === 'video') {
+      const probe = await this.probeVideo(buffer, media.filename);
+      const video = probe.streams.find(stream => stream.codec_type === 'video');
+      const audio = probe.streams.find(stream => stream.codec_type === 'audio');
+      const rotation = Number(video?.tags?.rotate ?? video?.side_data_list?.[0]?.rotation ?? 0);
+      const rotated = Math.abs(rotation) % 180 === 90;
+      const duration = Number(probe.format.duration);
+      const bitrate = Number(probe.format.bit_rate);
+
       return {
-        width: 1920,
-        height: 1080,
-        duration: 30, // Mock duration
+        dimensions: video ? {
+          width: (rotated ? video.height : video.width) || 0,
+          height: (rotated ? video.width : video.height) || 0,
+          duration: Number.isFinite(duration) ? Math.round(duration * 100) / 100 : undefined,
+        } : undefined,
+        metadata: {
+          format: probe.format.format_name,
+          codec: video?.codec_name,
+          hasAudio: Boolean(audio),
+          bitrate: Number.isFinite(bitrate) ? bitrate : undefined,
+          fps: this.parseFrameRate(video?.r_frame_rate),
+        },
+        hasEmbeddedMetadata: false,
       };
     }
 
-    return undefined;
+    return { metadata: {}, hasEmbeddedMetadata: false };
   }
 
-  private async extractMediaMetadata(buffer: Buffer, mimeType: string): Promise<any> {
-    if (mimeType.startsWith('image/')) {
-      try {
-        const metadata = await sharp(buffer).metadata();
-        return {
-          format: metadata.format,
-          colorProfile: metadata.icc?.description,
-          density: metadata.density,
-        };
-      } catch (error) {
-        return {};
-      }
+  /**
+   * Re-encode the original without EXIF/XMP/IPTC (sharp drops them unless
+   * withMetadata() is called) and replace it in storage. rotate() bakes the
+   * EXIF orientation into the pixels first.
+   */
+  private async stripImageMetadata(buffer: Buffer, media: MediaAttachment): Promise<Buffer> {
+    const image = sharp(buffer).rotate();
+    const stripped = await (media.mimeType === 'image/png'
+      ? image.png()
+      : media.mimeType === 'image/webp'
+        ? image.webp({ quality: 90 })
+        : image.jpeg({ quality: 92, mozjpeg: true })
+    ).toBuffer();
+
+    await this.uploadToS3(stripped, media.storage.key, media.mimeType);
+    media.size = stripped.length;
+
+    return stripped;
+  }
+
+  private probeVideo(buffer: Buffer, filename: string): Promise<ProbeData> {
+    return this.withTempFile(buffer, filename, filePath => new Promise<ProbeData>((resolve, reject) => {
+      ffmpeg.ffprobe(filePath, (error: Error | null, data: ProbeData) => (error ? reject(error) : resolve(data)));
+    }));
+  }
+
+  /**
+   * Grab a still from early in the video to thumbnail
+   */
+  private extractVideoFrame(buffer: Buffer, media: MediaAttachment): Promise<Buffer> {
+    const seconds = Math.min(1, (media.dimensions?.duration || 0) / 2);
+
+    return this.withTempFile(buffer, media.filename, (filePath, dir) => new Promise<Buffer>((resolve, reject) => {
+      ffmpeg(filePath)
+        .on('end', () => fs.promises.readFile(path.join(dir, 'frame.png')).then(resolve, reject))
+        .on('error', reject)
+        .screenshots({ timestamps: [seconds], filename: 'frame.png', folder: dir });
+    }));
+  }
+
+  // ffmpeg and ffprobe only read from disk
+  private async withTempFile<T>(
+    buffer: Buffer,
+    filename: string,
+    task: (filePath: string, dir: string) => Promise<T>
+  ): Promise<T> {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'media-'));
+    const filePath = path.join(dir, path.basename(filename));
+
+    try {
+      await fs.promises.writeFile(filePath, buffer);
+      return await task(filePath, dir);
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private parseFrameRate(rate?: string): number | undefined {
+    const [numerator, denominator = 1] = (rate || '').split('/').map(Number);
+    if (!numerator || !denominator) {
+      return undefined;
     }
 
-    return {};
+    return Math.round((numerator / denominator) * 100) / 100;
   }
 
   private async generateThumbnail(buffer: Buffer, media: MediaAttachment): Promise<MediaVariant> {
-    const thumbnailBuffer = await sharp(buffer)
-      .resize(300, 300, { fit: 'inside' })
+    const { data, info } = await sharp(buffer)
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
       .jpeg({ quality: 80 })
-      .toBuffer();
+      .toBuffer({ resolveWithObject: true });
 
-    const key = `thumbnails/${media.organizationId}/thumb_${media.filename}`;
-    const uploadResult = await this.uploadToS3(thumbnailBuffer, key, 'image/jpeg');
+    const key = `thumbnails/${media.organizationId}/thumb_${this.getBaseName(media.filename)}.jpg`;
+    const uploadResult = await this.uploadToS3(data, key, 'image/jpeg');
 
     return {
       id: `variant_${Date.now()}_thumb`,
       type: 'thumbnail',
       specifications: {
-        width: 300,
-        height: 300,
+        width: info.width,
+        height: info.height,
         quality: 80,
         format: 'jpeg',
-        size: thumbnailBuffer.length,
+        size: data.length,
       },
       storage: {
         key,
@@ -859,28 +1460,44 @@ export class MediaAttachmentService {
     };
   }
 
-  private async compressImage(buffer: Buffer, media: MediaAttachment, quality = 80): Promise<MediaVariant> {
-    const compressedBuffer = await sharp(buffer)
-      .jpeg({ quality, progressive: true })
-      .toBuffer();
+  /**
+   * WebP and AVIF copies at the original size. A copy that comes out no
+   * smaller than the original is dropped.
+   */
+  private async compressImage(buffer: Buffer, media: MediaAttachment): Promise<MediaVariant[]> {
+    const variants: MediaVariant[] = [];
 
-    const key = `compressed/${media.organizationId}/comp_${media.filename}`;
-    const uploadResult = await this.uploadToS3(compressedBuffer, key, 'image/jpeg');
+    for (const { format, mimeType, quality } of COMPRESSION_FORMATS) {
+      const { data, info } = await sharp(buffer)
+        .toFormat(format, { quality, effort: 4 })
+        .toBuffer({ resolveWithObject: true });
 
-    return {
-      id: `variant_${Date.now()}_compressed`,
-      type: 'compressed',
-      specifications: {
-        quality,
-        format: 'jpeg',
-        size: compressedBuffer.length,
-      },
-      storage: {
-        key,
-        url: uploadResult.Location!,
-      },
-      createdAt: new Date(),
-    };
+      if (data.length >= media.size) {
+        continue;
+      }
+
+      const key = `compressed/${media.organizationId}/comp_${this.getBaseName(media.filename)}.${format}`;
+      const uploadResult = await this.uploadToS3(data, key, mimeType);
+
+      variants.push({
+        id: `variant_${Date.now()}_compressed_${format}`,
+        type: 'compressed',
+        specifications: {
+          width: info.width,
+          height: info.height,
+          quality,
+          format,
+          size: data.length,
+        },
+        storage: {
+          key,
+          url: uploadResult.Location!,
+        },
+        createdAt: new Date(),
+      });
+    }
+
+    return variants;
   }
 
   private async resizeImage(
@@ -888,20 +1505,21 @@ export class MediaAttachmentService {
     media: MediaAttachment, 
     resize: { width?: number; height?: number }
   ): Promise<MediaVariant> {
-    const resizedBuffer = await sharp(buffer)
-      .resize(resize.width, resize.height, { fit: 'inside' })
-      .toBuffer();
+    const { data, info } = await sharp(buffer)
+      .resize(resize.width, resize.height, { fit: 'inside', withoutEnlargement: true })
+      .toBuffer({ resolveWithObject: true });
 
     const key = `resized/${media.organizationId}/resized_${media.filename}`;
-    const uploadResult = await this.uploadToS3(resizedBuffer, key, media.mimeType);
+    const uploadResult = await this.uploadToS3(data, key, media.mimeType);
 
     return {
       id: `variant_${Date.now()}_resized`,
-      type: 'compressed',
+      type: 'resized',
       specifications: {
-        width: resize.width,
-        height: resize.height,
-        size: resizedBuffer.length,
+        width: info.width,
+        height: info.height,
+        format: info.format,
+        size: data.length,
       },
       storage: {
         key,
@@ -911,40 +1529,71 @@ export class MediaAttachmentService {
     };
   }
 
+  /**
+   * Overlay a text watermark, or a logo image. Without either, the
+   * organization's latest LOGO asset is used; returns null when there is none.
+   */
   private async addWatermark(
     buffer: Buffer, 
     media: MediaAttachment, 
-    watermark: { text?: string; image?: string }
-  ): Promise<MediaVariant> {
-    let watermarkedBuffer: Buffer;
-
+    watermark: NonNullable<NonNullable<MediaUploadRequest['processing']>['watermark']>
+  ): Promise<MediaVariant | null> {
+    const { width = 0, height = 0 } = await sharp(buffer).metadata();
+    const position = watermark.position || 'bottom-right';
+    const opacity = watermark.opacity ?? DEFAULT_WATERMARK_OPACITY;
+    const margin = Math.round(Math.min(width, height) * WATERMARK_MARGIN);
+
+    let overlay: sharp.OverlayOptions;
     if (watermark.text) {
-      // Add text watermark
-      watermarkedBuffer = await sharp(buffer)
+      // Drawn on a full-size canvas so long text can never overflow the image
+      overlay = {
+        input: this.renderTextWatermark(watermark.text, width, height, position, opacity, margin),
+        left: 0,
+        top: 0,
+      };
+    } else {
+      const logo = await this.loadWatermarkLogo(media.organizationId, watermark.image);
+      if (!logo) {
+        console.warn(`No LOGO asset to watermark media ${media.id} for organization ${media.organizationId}`);
+        return null;
+      }
+
+      const { data, info } = await sharp(logo)
+        .resize({
+          width: Math.max(1, Math.round(width * WATERMARK_SCALE)),
+          height: Math.max(1, Math.round(height * WATERMARK_SCALE * 2)),
+          fit: 'inside',
+        })
+        .ensureAlpha()
+        // Scale the logo's own alpha channel by the requested opacity
         .composite([{
-          input: Buffer.from(`
-            <svg width="200" height="50">
-              <text x="10" y="25" font-family="Arial" font-size="16" fill="white" opacity="0.5">
-                ${watermark.text}
-              </text>
-            </svg>
-          `),
-          gravity: 'southeast',
+          input: Buffer.from([255, 255, 255, Math.round(opacity * 255)]),
+          raw: { width: 1, height: 1, channels: 4 },
+          tile: true,
+          blend: 'dest-in',
         }])
-        .toBuffer();
-    } else {
-      // For image watermarks, you'd need the watermark image
-      watermarkedBuffer = buffer;
+        .png()
+        .toBuffer({ resolveWithObject: true });
+
+      overlay = {
+        input: data,
+        ...this.getWatermarkOffset(position, { width, height }, info, margin),
+      };
     }
 
+    const watermarked = await sharp(buffer).composite([overlay]).toBuffer({ resolveWithObject: true });
+
     const key = `watermarked/${media.organizationId}/wm_${media.filename}`;
-    const uploadResult = await this.uploadToS3(watermarkedBuffer, key, media.mimeType);
+    const uploadResult = await this.uploadToS3(watermarked.data, key, media.mimeType);
 
     return {
       id: `variant_${Date.now()}_watermarked`,
       type: 'watermarked',
       specifications: {
-        size: watermarkedBuffer.length,
+        width: watermarked.info.width,
+        height: watermarked.info.height,
+        format: watermarked.info.format,
+        size: watermarked.data.length,
       },
       storage: {
         key,
@@ -954,6 +1603,74 @@ export class MediaAttachmentService {
     };
   }
 
+  private async loadWatermarkLogo(organizationId: string, imageKey?: string): Promise<Buffer | null> {
+    if (imageKey) {
+      return this.downloadFromS3(imageKey);
+    }
+
+    const logo = await this.db.asset.findFirst({
+      where: { organizationId, type: 'LOGO' },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!logo) {
+      return null;
+    }
+
+    const result = await this.s3.getObject({ Bucket: logo.s3Bucket, Key: logo.s3Key }).promise();
+    return result.Body as Buffer;
+  }
+
+  private renderTextWatermark(
+    text: string,
+    width: number,
+    height: number,
+    position: WatermarkPosition,
+    opacity: number,
+    margin: number
+  ): Buffer {
+    const fontSize = Math.max(12, Math.round(Math.min(width, height) * 0.05));
+    const x = position.endsWith('left') ? margin : position.endsWith('right') ? width - margin : width / 2;
+    const y = position.startsWith('top') ? margin + fontSize : position.startsWith('bottom') ? height - margin : height / 2;
+    const anchor = position.endsWith('left') ? 'start' : position.endsWith('right') ? 'end' : 'middle';
+
+    return Buffer.from(
+      `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">` +
+        `<text x="${x}" y="${y}" text-anchor="${anchor}" font-family="Arial, sans-serif" font-size="${fontSize}" ` +
+        `fill="white" fill-opacity="${opacity}" stroke="black" stroke-opacity="${opacity * 0.5}" stroke-width="1">` +
+        `${this.escapeXml(text)}</text></svg>`
+    );
+  }
+
+  private getWatermarkOffset(
+    position: WatermarkPosition,
+    image: { width: number; height: number },
+    overlay: { width: number; height: number },
+    margin: number
+  ): { left: number; top: number } {
+    const left = position.endsWith('left')
+      ? margin
+      : position.endsWith('right') ? image.width - overlay.width - margin : (image.width - overlay.width) / 2;
+    const top = position.startsWith('top')
+      ? margin
+      : position.startsWith('bottom') ? image.height - overlay.height - margin : (image.height - overlay.height) / 2;
+
+    return { left: Math.max(0, Math.round(left)), top: Math.max(0, Math.round(top)) };
+  }
+
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  /**
+   * One variant per supported aspect ratio, smart-cropped around the most
+   * salient region and stepped down in quality until it fits the size limit.
+   * Videos are left to the original; transcoding is out of scope here.
+   */
   private async generatePlatformOptimizedVariants(
     buffer: Buffer, 
     media: MediaAttachment, 
@@ -961,54 +1678,96 @@ export class MediaAttachmentService {
     contentType = 'post'
   ): Promise<MediaVariant[]> {
     const variants: MediaVariant[] = [];
-    const requirements = this.platformRequirements[platform]?.[contentType];
+    const mediaReqs = this.platformRequirements[platform]?.[contentType]?.image;
     
-    if (!requirements || !requirements[media.type as 'image' | 'video']) {
+    if (!mediaReqs || media.type !== 'image') {
       return variants;
     }
 
-    const mediaReqs = requirements[media.type as 'image' | 'video']!;
+    const source = media.dimensions || { width: mediaReqs.maxDimensions.width, height: mediaReqs.maxDimensions.height };
+    const format = mediaReqs.formats.includes('jpeg') ? 'jpeg' : mediaReqs.formats[0] as keyof sharp.FormatEnum;
 
     // Generate variants for each supported aspect ratio
     for (const aspectRatio of mediaReqs.aspectRatios) {
-      const [widthRatio, heightRatio] = aspectRatio.split(':').map(Number);
-      
-      // Calculate target dimensions
-      const targetWidth = Math.min(mediaReqs.maxDimensions.width, 1080);
-      const targetHeight = Math.round(targetWidth * (heightRatio / widthRatio));
-
-      if (media.type === 'image') {
-        const optimizedBuffer = await sharp(buffer)
-          .resize(targetWidth, targetHeight, { fit: 'cover' })
-          .jpeg({ quality: 85 })
-          .toBuffer();
-
-        const key = `optimized/${media.organizationId}/${platform}_${aspectRatio.replace(':', 'x')}_${media.filename}`;
-        const uploadResult = await this.uploadToS3(optimizedBuffer, key, 'image/jpeg');
-
-        variants.push({
-          id: `variant_${Date.now()}_${platform}_${aspectRatio.replace(':', 'x')}`,
-          type: 'platform_optimized',
-          platform,
-          specifications: {
-            width: targetWidth,
-            height: targetHeight,
-            quality: 85,
-            format: 'jpeg',
-            size: optimizedBuffer.length,
-          },
-          storage: {
-            key,
-            url: uploadResult.Location!,
-          },
-          createdAt: new Date(),
-        });
+      const target = this.fitAspectRatio(aspectRatio, source, mediaReqs);
+
+      let quality = 85;
+      let optimized = await this.encodePlatformVariant(buffer, target, format, quality);
+      while (optimized.length > mediaReqs.maxSize && quality > 50) {
+        quality -= 10;
+        optimized = await this.encodePlatformVariant(buffer, target, format, quality);
       }
+
+      const extension = format === 'jpeg' ? 'jpg' : format;
+      const key = `optimized/${media.organizationId}/${platform}_${aspectRatio.replace(':', 'x')}_${this.getBaseName(media.filename)}.${extension}`;
+      const uploadResult = await this.uploadToS3(optimized, key, `image/${format}`);
+
+      variants.push({
+        id: `variant_${Date.now()}_${platform}_${aspectRatio.replace(':', 'x')}`,
+        type: 'platform_optimized',
+        platform,
+        specifications: {
+          width: target.width,
+          height: target.height,
+          quality,
+          format,
+          size: optimized.length,
+        },
+        storage: {
+          key,
+          url: uploadResult.Location!,
+        },
+        createdAt: new Date(),
+      });
     }
 
     return variants;
   }
 
+  private encodePlatformVariant(
+    buffer: Buffer,
+    target: { width: number; height: number },
+    format: keyof sharp.FormatEnum,
+    quality: number
+  ): Promise<Buffer> {
+    return sharp(buffer)
+      .resize(target.width, target.height, { fit: 'cover', position: sharp.strategy.attention })
+      .toFormat(format, { quality, mozjpeg: format === 'jpeg' })
+      .toBuffer();
+  }
+
+  /**
+   * Largest frame with the given aspect ratio that fits the platform maximum,
+   * scaled down to avoid upscaling the source but never below the platform minimum
+   */
+  private fitAspectRatio(
+    aspectRatio: string,
+    source: { width: number; height: number },
+    requirements: { maxDimensions: { width: number; height: number }; minDimensions: { width: number; height: number } }
+  ): { width: number; height: number } {
+    const [widthRatio, heightRatio] = aspectRatio.split(':').map(Number);
+    const ratio = widthRatio / heightRatio;
+
+    let width = requirements.maxDimensions.width;
+    if (width / ratio > requirements.maxDimensions.height) {
+      width = requirements.maxDimensions.height * ratio;
+    }
+
+    const downscale = Math.min(1, source.width / width, source.height / (width / ratio));
+    const minimumScale = Math.max(
+      requirements.minDimensions.width / width,
+      requirements.minDimensions.height / (width / ratio)
+    );
+    // The epsilon keeps float error from flooring a pixel below the minimum
+    width = Math.floor(width * Math.max(downscale, minimumScale) + 1e-6);
+
+    return { width, height: Math.round(width / ratio) };
+  }
+
+  private getBaseName(filename: string): string {
+    return filename.replace(/\.[^.]+$/, '');
+  }
+
   private formatBytes(bytes: number, decimals = 2): string {
     if (bytes === 0) return '0 Bytes';
 
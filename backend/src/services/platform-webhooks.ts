@@ -0,0 +1,550 @@
+import crypto from 'crypto';
+import { PrismaClient, Platform, PostStatus, WebhookEventStatus } from '@prisma/client';
+import { config } from '../config/config';
+import { verifyWebhookSignature } from '../utils/encryption';
+import { WebhookVerificationError } from '../utils/errors';
+import { AnalyticsCollector } from './analytics-collector';
+
+export type HeaderValue = string | string[] | undefined;
+
+export interface WebhookRequest {
+  headers: Record<string, HeaderValue>;
+  rawBody: string;
+  body: any;
+}
+
+/**
+ * A provider payload reduced to what we need to update post and account state
+ */
+export interface NormalizedWebhookEvent {
+  eventId: string;
+  eventType: 'post_published' | 'post_failed' | 'post_deleted' | 'account_deauthorized' | string;
+  platformPostIds: string[]; // IDs a ScheduledPost.platformPostId or externalPostId may hold for this post
+  platformPostId?: string; // The network's own post ID, when a third party reports it
+  platformUrl?: string;
+  accountId?: string;
+  errorMessage?: string;
+  occurredAt?: Date;
+  payload: unknown;
+}
+
+export interface WebhookProcessingResult {
+  received: number;
+  processed: number;
+  ignored: number;
+  duplicates: number;
+  failed: number;
+}
+
+interface WebhookAdapter {
+  // Platforms whose scheduled posts this provider can report on
+  platforms: Platform[];
+  verify(request: WebhookRequest): void;
+  parse(body: any, rawBody: string): NormalizedWebhookEvent[];
+  handshake?(query: Record<string, string | undefined>): unknown;
+}
+
+function header(headers: Record<string, HeaderValue>, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function digest(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function hmac(secret: string, value: string): string {
+  return crypto.createHmac('sha256', secret).update(value).digest('hex');
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  // Unix seconds vs. milliseconds vs. ISO strings
+  const date = typeof value === 'number'
+    ? new Date(value < 1e12 ? value * 1000 : value)
+    : new Date(String(value));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function requireSecret(secret: string, provider: string): string {
+  if (!secret) {
+    throw new WebhookVerificationError(`Webhook secret for ${provider} is not configured`, provider);
+  }
+  return secret;
+}
+
+/**
+ * Meta (Facebook Pages, Instagram): `X-Hub-Signature-256: sha256=<hex>` over the raw
+ * body with the app secret, plus the hub.challenge handshake on subscription.
+ */
+function metaAdapter(provider: string, platforms: Platform[]): WebhookAdapter {
+  return {
+    platforms,
+
+    verify(request) {
+      const secret = requireSecret(config.social.facebook.appSecret, provider);
+      const signature = (header(request.headers, 'x-hub-signature-256') || '').replace(/^sha256=/, '');
+      if (!verifyWebhookSignature(request.rawBody, signature, secret)) {
+        throw new WebhookVerificationError('Invalid webhook signature', provider);
+      }
+    },
+
+    handshake(query) {
+      if (query['hub.mode'] !== 'subscribe' || !query['hub.challenge']) {
+        throw new WebhookVerificationError('Invalid subscription handshake', provider);
+      }
+      const token = requireSecret(config.webhooks.metaVerifyToken, provider);
+      if (query['hub.verify_token'] !== token) {
+        throw new WebhookVerificationError('Invalid verify token', provider);
+      }
+      return query['hub.challenge'];
+    },
+
+    parse(body) {
+      const events: NormalizedWebhookEvent[] = [];
+
+      for (const entry of body?.entry || []) {
+        for (const change of entry.changes || []) {
+          const value = change.value || {};
+          const postId: string | undefined = value.post_id || value.media_id || value.id;
+          let eventType = `${change.field}.${value.verb || 'update'}`;
+
+          // Page feed changes for our own posts are how Meta confirms a publish
+          if (change.field === 'feed' && postId && entry.id === value.from?.id) {
+            if (value.verb === 'add' && value.published !== 0) {
+              eventType = 'post_published';
+            } else if (value.verb === 'remove') {
+              eventType = 'post_deleted';
+            }
+          }
+
+          events.push({
+            eventId: digest(`${entry.id}:${entry.time}:${JSON.stringify(change)}`),
+            eventType,
+            platformPostIds: postId ? [postId] : [],
+            platformUrl: value.link || value.permalink_url || (postId && provider === 'facebook'
+              ? `https://www.facebook.com/${postId}`
+              : undefined),
+            accountId: entry.id,
+            occurredAt: toDate(value.created_time ?? entry.time),
+            payload: { object: body.object, entryId: entry.id, time: entry.time, change },
+          });
+        }
+      }
+
+      return events;
+    },
+  };
+}
+
+/**
+ * LinkedIn: `X-LI-Signature` is an HMAC-SHA256 of the raw body with the client
+ * secret; endpoint validation sends a challengeCode we sign the same way.
+ */
+const linkedInAdapter: WebhookAdapter = {
+  platforms: [Platform.LINKEDIN],
+
+  verify(request) {
+    const secret = requireSecret(config.social.linkedin.clientSecret, 'linkedin');
+    const signature = (header(request.headers, 'x-li-signature') || '').replace(/^hmacsha256=/, '');
+    if (!verifyWebhookSignature(request.rawBody, signature, secret)) {
+      throw new WebhookVerificationError('Invalid webhook signature', 'linkedin');
+    }
+  },
+
+  handshake(query) {
+    if (!query.challengeCode) {
+      throw new WebhookVerificationError('Missing challengeCode', 'linkedin');
+    }
+    const secret = requireSecret(config.social.linkedin.clientSecret, 'linkedin');
+    return {
+      challengeCode: query.challengeCode,
+      challengeResponse: hmac(secret, query.challengeCode),
+    };
+  },
+
+  parse(body, rawBody) {
+    return (body?.notifications || []).map((notification: any): NormalizedWebhookEvent => {
+      const urn: string | undefined = notification.sourcePost || notification.decoratedSourcePost?.entity;
+      const eventType = notification.action === 'SHARE'
+        ? 'post_published'
+        : notification.action === 'SHARE_DELETE'
+          ? 'post_deleted'
+          : String(notification.action || body.type || 'unknown').toLowerCase();
+
+      return {
+        eventId: notification.notificationId
+          ? String(notification.notificationId)
+          : digest(`${rawBody}:${JSON.stringify(notification)}`),
+        eventType,
+        // Shares are stored either as the full URN or as the bare ID
+        platformPostIds: urn ? [urn, urn.split(':').pop()!] : [],
+        platformUrl: urn ? `https://www.linkedin.com/feed/update/${urn}` : undefined,
+        accountId: notification.organizationalEntity,
+        occurredAt: toDate(notification.lastModifiedAt),
+        payload: notification,
+      };
+    });
+  },
+};
+
+/**
+ * Buffer and Hootsuite callbacks: hex HMAC-SHA256 of `<timestamp>.<raw body>`
+ * with a shared secret, rejected outside the configured clock tolerance.
+ */
+function timestampedHmacAdapter(
+  provider: string,
+  secret: () => string,
+  parse: WebhookAdapter['parse']
+): WebhookAdapter {
+  return {
+    platforms: Object.values(Platform),
+
+    verify(request) {
+      const key = requireSecret(secret(), provider);
+      const timestamp = header(request.headers, `x-${provider}-timestamp`);
+      const signature = header(request.headers, `x-${provider}-signature`) || '';
+      const sentAt = timestamp ? toDate(Number(timestamp)) : undefined;
+
+      if (!sentAt) {
+        throw new WebhookVerificationError('Missing webhook timestamp', provider);
+      }
+      if (Math.abs(Date.now() - sentAt.getTime()) > config.webhooks.toleranceSeconds * 1000) {
+        throw new WebhookVerificationError('Webhook timestamp outside the tolerance window', provider);
+      }
+      if (!verifyWebhookSignature(`${timestamp}.${request.rawBody}`, signature, key)) {
+        throw new WebhookVerificationError('Invalid webhook signature', provider);
+      }
+    },
+
+    parse,
+  };
+}
+
+const bufferAdapter = timestampedHmacAdapter('buffer', () => config.webhooks.bufferSecret, (body, rawBody) => {
+  const update = body?.update || {};
+  const eventType = body?.event === 'update.sent'
+    ? 'post_published'
+    : body?.event === 'update.failed'
+      ? 'post_failed'
+      : String(body?.event || 'unknown');
+
+  return [{
+    eventId: body?.id ? String(body.id) : digest(rawBody),
+    eventType,
+    // Matched against the stored update ID; the network's ID replaces platformPostId
+    platformPostIds: update.id ? [String(update.id)] : [],
+    platformPostId: update.service_update_id ? String(update.service_update_id) : undefined,
+    platformUrl: update.service_link,
+    accountId: update.profile_id,
+    errorMessage: update.error,
+    occurredAt: toDate(update.sent_at ?? update.due_at),
+    payload: body,
+  }];
+});
+
+const hootsuiteAdapter = timestampedHmacAdapter('hootsuite', () => config.webhooks.hootsuiteSecret, (body, rawBody) => {
+  const events = Array.isArray(body) ? body : [body];
+
+  return events.map((event: any): NormalizedWebhookEvent => {
+    const data = event?.data || {};
+    const message = data.message || {};
+    const eventType = data.state === 'SENT'
+      ? 'post_published'
+      : data.state === 'SEND_FAILED_PERMANENTLY'
+        ? 'post_failed'
+        : String(data.state || event?.type || 'unknown').toLowerCase();
+
+    return {
+      eventId: event?.seq_no || event?.id
+        ? String(event.seq_no || event.id)
+        : digest(`${rawBody}:${JSON.stringify(event)}`),
+      eventType,
+      platformPostIds: message.id ? [String(message.id)] : [],
+      platformPostId: message.postId ? String(message.postId) : undefined,
+      platformUrl: message.postUrl,
+      accountId: message.socialProfile?.id,
+      errorMessage: data.reason,
+      occurredAt: toDate(data.timestamp),
+      payload: event,
+    };
+  });
+});
+
+/**
+ * Platforms without a dedicated scheme keep the original `{ event, data }` body
+ * signed with the shared WEBHOOK_SECRET in X-Hub-Signature-256.
+ */
+function sharedSecretAdapter(provider: string, platform: Platform): WebhookAdapter {
+  return {
+    platforms: [platform],
+
+    verify(request) {
+      const signature = (header(request.headers, 'x-hub-signature-256') || '').replace(/^sha256=/, '');
+      if (!verifyWebhookSignature(request.rawBody, signature, requireSecret(config.webhooks.secret, provider))) {
+        throw new WebhookVerificationError('Invalid webhook signature', provider);
+      }
+    },
+
+    parse(body, rawBody) {
+      const data = body?.data || {};
+      return [{
+        eventId: body?.id || data.eventId ? String(body?.id || data.eventId) : digest(rawBody),
+        eventType: String(body?.event || 'unknown'),
+        platformPostIds: data.postId ? [String(data.postId)] : [],
+        platformUrl: data.url,
+        accountId: data.accountId,
+        errorMessage: data.error,
+        occurredAt: toDate(data.timestamp),
+        payload: body,
+      }];
+    },
+  };
+}
+
+const ADAPTERS: Record<string, WebhookAdapter> = {
+  facebook: metaAdapter('facebook', [Platform.FACEBOOK]),
+  instagram: metaAdapter('instagram', [Platform.INSTAGRAM]),
+  linkedin: linkedInAdapter,
+  buffer: bufferAdapter,
+  hootsuite: hootsuiteAdapter,
+  twitter: sharedSecretAdapter('twitter', Platform.TWITTER),
+  tiktok: sharedSecretAdapter('tiktok', Platform.TIKTOK),
+  reddit: sharedSecretAdapter('reddit', Platform.REDDIT),
+  threads: sharedSecretAdapter('threads', Platform.THREADS),
+  youtube_shorts: sharedSecretAdapter('youtube_shorts', Platform.YOUTUBE_SHORTS),
+};
+
+export class PlatformWebhookService {
+  private prisma: PrismaClient;
+  private analyticsCollector: AnalyticsCollector;
+
+  constructor(prisma: PrismaClient, analyticsCollector?: AnalyticsCollector) {
+    this.prisma = prisma;
+    this.analyticsCollector = analyticsCollector || new AnalyticsCollector(prisma);
+  }
+
+  static isSupported(provider: string): boolean {
+    return provider.toLowerCase() in ADAPTERS;
+  }
+
+  /**
+   * Answer a provider's subscription handshake (Meta hub.challenge, LinkedIn challengeCode)
+   */
+  handshake(provider: string, query: Record<string, string | undefined>): unknown {
+    const adapter = this.getAdapter(provider);
+    if (!adapter.handshake) {
+      throw new WebhookVerificationError('Provider has no subscription handshake', provider);
+    }
+    return adapter.handshake(query);
+  }
+
+  /**
+   * Verify, log and apply one webhook delivery. Deliveries whose events were
+   * already logged are acknowledged without being applied again, unless the
+   * earlier attempt failed.
+   */
+  async handleDelivery(provider: string, request: WebhookRequest): Promise<WebhookProcessingResult> {
+    const key = provider.toLowerCase();
+    const adapter = this.getAdapter(key);
+    adapter.verify(request);
+
+    const events = adapter.parse(request.body, request.rawBody);
+    const result: WebhookProcessingResult = {
+      received: events.length,
+      processed: 0,
+      ignored: 0,
+      duplicates: 0,
+      failed: 0,
+    };
+
+    for (const event of events) {
+      const logId = await this.recordEvent(key, event);
+      if (!logId) {
+        result.duplicates++;
+        continue;
+      }
+
+      try {
+        const outcome = await this.applyEvent(adapter, event);
+        await this.prisma.webhookEvent.update({
+          where: { id: logId },
+          data: {
+            status: outcome.status,
+            organizationId: outcome.organizationId,
+            scheduledPostId: outcome.scheduledPostId,
+            socialAccountId: outcome.socialAccountId,
+            processedAt: new Date(),
+          },
+        });
+
+        if (outcome.status === WebhookEventStatus.PROCESSED) {
+          result.processed++;
+        } else {
+          result.ignored++;
+        }
+      } catch (error: any) {
+        console.error(`Error applying ${key} webhook event ${event.eventId}:`, error);
+        result.failed++;
+        await this.prisma.webhookEvent.update({
+          where: { id: logId },
+          data: {
+            status: WebhookEventStatus.FAILED,
+            errorMessage: error.message,
+            processedAt: new Date(),
+          },
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private getAdapter(provider: string): WebhookAdapter {
+    const adapter = ADAPTERS[provider.toLowerCase()];
+    if (!adapter) {
+      throw new WebhookVerificationError(`Unsupported webhook provider: ${provider}`, provider);
+    }
+    return adapter;
+  }
+
+  /**
+   * Log the delivery; returns null when (provider, eventId) was already seen.
+   * An event whose earlier attempt FAILED is claimed again so the platform's
+   * redelivery applies it.
+   */
+  private async recordEvent(provider: string, event: NormalizedWebhookEvent): Promise<string | null> {
+    try {
+      const record = await this.prisma.webhookEvent.create({
+        data: {
+          provider,
+          eventId: event.eventId,
+          eventType: event.eventType,
+          payload: event.payload as any,
+          occurredAt: event.occurredAt,
+        },
+      });
+      return record.id;
+    } catch (error: any) {
+      if (error.code !== 'P2002') {
+        throw error;
+      }
+
+      const existing = await this.prisma.webhookEvent.findUnique({
+        where: { provider_eventId: { provider, eventId: event.eventId } },
+        select: { id: true, status: true },
+      });
+      if (existing?.status !== WebhookEventStatus.FAILED) {
+        return null;
+      }
+
+      // Only one of two concurrent redeliveries gets to reset the failed row
+      const claimed = await this.prisma.webhookEvent.updateMany({
+        where: { id: existing.id, status: WebhookEventStatus.FAILED },
+        data: { status: WebhookEventStatus.RECEIVED, errorMessage: null, processedAt: null },
+      });
+      return claimed.count > 0 ? existing.id : null;
+    }
+  }
+
+  private async applyEvent(adapter: WebhookAdapter, event: NormalizedWebhookEvent): Promise<{
+    status: WebhookEventStatus;
+    organizationId?: string;
+    scheduledPostId?: string;
+    socialAccountId?: string;
+  }> {
+    if (event.eventType === 'account_deauthorized') {
+      if (!event.accountId) {
+        return { status: WebhookEventStatus.IGNORED };
+      }
+
+      const account = await this.prisma.socialAccount.findFirst({
+        where: { platform: { in: adapter.platforms }, accountId: event.accountId },
+      });
+      if (!account) {
+        return { status: WebhookEventStatus.IGNORED };
+      }
+
+      await this.prisma.socialAccount.update({
+        where: { id: account.id },
+        data: { isActive: false, errorMessage: 'Account deauthorized' },
+      });
+      return {
+        status: WebhookEventStatus.PROCESSED,
+        organizationId: account.organizationId,
+        socialAccountId: account.id,
+      };
+    }
+
+    if (!['post_published', 'post_failed'].includes(event.eventType) || event.platformPostIds.length === 0) {
+      return { status: WebhookEventStatus.IGNORED };
+    }
+
+    const post = await this.prisma.scheduledPost.findFirst({
+      where: {
+        OR: [
+          { platformPostId: { in: event.platformPostIds } },
+          { externalPostId: { in: event.platformPostIds } },
+        ],
+        socialAccount: { platform: { in: adapter.platforms } },
+      },
+    });
+    if (!post) {
+      return { status: WebhookEventStatus.IGNORED };
+    }
+
+    const matched = {
+      organizationId: post.organizationId,
+      scheduledPostId: post.id,
+      socialAccountId: post.socialAccountId,
+    };
+
+    if (event.eventType === 'post_failed') {
+      // A late failure report must not undo a post we already know went out
+      if (post.status === PostStatus.PUBLISHED) {
+        return { status: WebhookEventStatus.IGNORED, ...matched };
+      }
+
+      await this.prisma.scheduledPost.update({
+        where: { id: post.id },
+        data: {
+          status: PostStatus.FAILED,
+          errorMessage: event.errorMessage || 'Publishing failed on the platform',
+        },
+      });
+      return { status: WebhookEventStatus.PROCESSED, ...matched };
+    }
+
+    const publishedAt = post.publishedAt || event.occurredAt || new Date();
+    // Posts published before externalPostId existed hold the third party's ID in platformPostId
+    const platformIds = event.platformPostId && event.platformPostId !== post.platformPostId
+      ? { platformPostId: event.platformPostId, externalPostId: post.externalPostId || post.platformPostId }
+      : {};
+    await this.prisma.scheduledPost.update({
+      where: { id: post.id },
+      data: {
+        status: PostStatus.PUBLISHED,
+        publishedAt,
+        ...platformIds,
+        platformUrl: event.platformUrl || post.platformUrl,
+        errorMessage: null,
+      },
+    });
+
+    if (post.status !== PostStatus.PUBLISHED) {
+      await this.prisma.contentPiece.update({
+        where: { id: post.contentPieceId },
+        data: { status: 'PUBLISHED', publishedAt },
+      });
+    }
+
+    // Analytics are best effort and never fail the delivery
+    await this.analyticsCollector.collectPostAnalytics(post.id, true).catch((error: Error) => {
+      console.error(`Failed to collect analytics for post ${post.id}:`, error);
+    });
+
+    return { status: WebhookEventStatus.PROCESSED, ...matched };
+  }
+}
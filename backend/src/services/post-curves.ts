@@ -0,0 +1,479 @@
+import { PrismaClient, Prisma, MetricType, PostMetricCheckpoint } from '@prisma/client';
+import { addHours, subDays } from 'date-fns';
+import { addAnalyticsJob } from '../config/redis';
+import { AnalyticsCollector } from './analytics-collector';
+import { ValidationError } from '../utils/errors';
+
+export interface CurveCheckpoint {
+  label: string;
+  hours: number;
+}
+
+// Collection points after publishing; each stores what the post gained since the previous one
+export const CURVE_CHECKPOINTS: CurveCheckpoint[] = [
+  { label: '1h', hours: 1 },
+  { label: '6h', hours: 6 },
+  { label: '24h', hours: 24 },
+  { label: '72h', hours: 72 },
+  { label: '7d', hours: 168 },
+];
+
+export interface CurveTotals {
+  impressions: number;
+  engagements: number; // Likes, comments and shares
+  clicks: number;
+}
+
+export interface CurvePoint {
+  checkpoint: string;
+  hoursAfterPublish: number;
+  collectedAt: Date;
+  delta: { impressions: number; likes: number; comments: number; shares: number; clicks: number };
+  cumulative: CurveTotals;
+  engagementRate: number;
+  baselineEngagements: number | null;
+  vsBaseline: number | null; // Cumulative engagements over the baseline median
+  isBreakout: boolean;
+}
+
+export interface BaselinePoint extends CurveTotals {
+  checkpoint: string;
+  hoursAfterPublish: number;
+  posts: number;
+}
+
+export interface BaselineCurve {
+  scope: 'contentType' | 'platform'; // Platform-wide when too few posts share the content type
+  checkpoints: BaselinePoint[];
+}
+
+export interface PostCurve {
+  scheduledPostId: string;
+  platform: string;
+  contentType: string;
+  publishedAt: Date;
+  checkpoints: CurvePoint[];
+  pendingCheckpoints: string[];
+  baseline: BaselineCurve;
+  isBreakout: boolean;
+}
+
+export interface BreakoutPost {
+  scheduledPostId: string;
+  platform: string;
+  contentType: string;
+  publishedAt: Date | null;
+  platformUrl: string | null;
+  title: string;
+  checkpoint: string;
+  engagements: number;
+  baselineEngagements: number | null;
+  vsBaseline: number | null;
+}
+
+type CurveMetrics = Pick<PostMetricCheckpoint, 'impressions' | 'likes' | 'comments' | 'shares' | 'clicks'>;
+
+interface BaselineRow extends CurveTotals {
+  hoursAfterPublish: number;
+  posts: number;
+}
+
+// Only first-day checkpoints can flag a breakout; later ones are too late to act on
+const BREAKOUT_WINDOW_HOURS = 24;
+const BREAKOUT_RATIO = 2;
+const MIN_BREAKOUT_ENGAGEMENTS = 10;
+const MIN_BASELINE_POSTS = 5;
+const BASELINE_LOOKBACK_DAYS = 90;
+
+/**
+ * Post-level engagement curves. Publishing a post schedules an analytics
+ * collection at each checkpoint; every collection stores the increase since
+ * the previous checkpoint. A post's curve is compared with the median curve
+ * of the organization's recent posts on the same platform and content type,
+ * and posts well above it in their first day are flagged as breakouts
+ * worth boosting or resharing.
+ */
+export class PostCurveService {
+  constructor(
+    private prisma: PrismaClient,
+    private collector: AnalyticsCollector = new AnalyticsCollector(prisma),
+    private enqueue: typeof addAnalyticsJob = addAnalyticsJob
+  ) {}
+
+  /**
+   * Queue a collection for every checkpoint of a published post. Job ids are
+   * deterministic, so scheduling twice does not double the collections.
+   */
+  async scheduleCheckpoints(scheduledPostId: string, now: Date = new Date()): Promise<number> {
+    const post = await this.prisma.scheduledPost.findUnique({
+      where: { id: scheduledPostId },
+      select: { id: true, organizationId: true, publishedAt: true, socialAccount: { select: { platform: true } } },
+    });
+    if (!post?.publishedAt) {
+      return 0;
+    }
+
+    for (const checkpoint of CURVE_CHECKPOINTS) {
+      const dueAt = addHours(post.publishedAt, checkpoint.hours);
+      await this.enqueue({
+        scheduledPostId: post.id,
+        organizationId: post.organizationId,
+        platform: post.socialAccount.platform,
+        timeRange: { start: post.publishedAt, end: dueAt },
+        checkpoint: checkpoint.label,
+      }, {
+        delay: Math.max(0, dueAt.getTime() - now.getTime()),
+        jobId: `curve-${post.id}-${checkpoint.label}`,
+      });
+    }
+
+    return CURVE_CHECKPOINTS.length;
+  }
+
+  /**
+   * Collect the post's metrics and store what it gained since its previous
+   * checkpoint. Resolves to null when the post is not published or no
+   * metrics could be collected.
+   */
+  async recordCheckpoint(scheduledPostId: string, label: string, now: Date = new Date()): Promise<PostMetricCheckpoint | null> {
+    const checkpoint = CURVE_CHECKPOINTS.find(candidate => candidate.label === label);
+    if (!checkpoint) {
+      throw new ValidationError(`Unknown checkpoint: ${label}`, 'checkpoint', label);
+    }
+
+    const post = await this.prisma.scheduledPost.findUnique({
+      where: { id: scheduledPostId },
+      select: {
+        id: true,
+        organizationId: true,
+        publishedAt: true,
+        contentPiece: { select: { type: true } },
+        socialAccount: { select: { platform: true } },
+      },
+    });
+    if (!post?.publishedAt) {
+      return null;
+    }
+
+    await this.collector.collectPostAnalytics(scheduledPostId, true);
+    const latest = await this.prisma.analytics.findFirst({
+      where: { scheduledPostId, metricType: MetricType.ENGAGEMENT, collectedAt: { gte: now } },
+      orderBy: { collectedAt: 'desc' },
+    });
+    if (!latest) {
+      return null;
+    }
+
+    // Deltas are stored, so the next recorded checkpoint's delta depends on
+    // this one's totals and is rewritten with it. That keeps the curve right
+    // when a retried checkpoint lands after a later one.
+    const stored = await this.prisma.postMetricCheckpoint.findMany({
+      where: { scheduledPostId },
+      orderBy: { hoursAfterPublish: 'asc' },
+    }) as PostMetricCheckpoint[];
+    const previous = this.sumDeltas(stored.filter(row => row.hoursAfterPublish < checkpoint.hours));
+    let current: CurveMetrics = {
+      impressions: latest.impressions,
+      likes: latest.likes,
+      comments: latest.comments,
+      shares: latest.shares,
+      clicks: latest.clicks,
+    };
+
+    // Collectors store zeros when the platform call fails; that is not a real drop
+    if (Object.values(current).every(value => value === 0) && Object.values(previous).some(value => value > 0)) {
+      throw new Error(`No metrics returned for ${scheduledPostId} at ${label}`);
+    }
+
+    // Metrics only grow, so a reading is kept between what the earlier
+    // checkpoints stored and what the next checkpoint saw (a late retry can
+    // read more); no stored gain is negative
+    const next = stored.find(row => row.hoursAfterPublish > checkpoint.hours);
+    const nextTotals = next ? this.sumDeltas(stored.filter(row => row.hoursAfterPublish <= next.hoursAfterPublish)) : null;
+    if (nextTotals) {
+      current = this.minMetrics(current, nextTotals);
+    }
+    current = this.maxMetrics(current, previous);
+
+    const platform = post.socialAccount.platform;
+    const contentType = post.contentPiece.type;
+    const engagements = current.likes + current.comments + current.shares;
+    let baselineEngagements: number | null = null;
+    let isBreakout = false;
+
+    if (checkpoint.hours <= BREAKOUT_WINDOW_HOURS) {
+      const baseline = await this.baseline(post.organizationId, platform, contentType, post.id, now);
+      const point = baseline.checkpoints.find(candidate => candidate.hoursAfterPublish === checkpoint.hours);
+      if (point && point.posts >= MIN_BASELINE_POSTS) {
+        baselineEngagements = point.engagements;
+        isBreakout = engagements >= MIN_BREAKOUT_ENGAGEMENTS && engagements >= point.engagements * BREAKOUT_RATIO;
+      }
+    }
+
+    const data = {
+      hoursAfterPublish: checkpoint.hours,
+      collectedAt: latest.collectedAt,
+      ...this.subtractMetrics(current, previous),
+      baselineEngagements,
+      isBreakout,
+    };
+
+    return this.prisma.$transaction(async (tx) => {
+      const db = tx as PrismaClient;
+      const recorded = await db.postMetricCheckpoint.upsert({
+        where: { scheduledPostId_checkpoint: { scheduledPostId, checkpoint: label } },
+        create: {
+          organizationId: post.organizationId,
+          scheduledPostId,
+          platform,
+          contentType,
+          checkpoint: label,
+          ...data,
+        },
+        update: data,
+      });
+
+      if (next && nextTotals) {
+        await db.postMetricCheckpoint.update({
+          where: { id: next.id },
+          data: this.subtractMetrics(nextTotals, current),
+        });
+      }
+
+      return recorded;
+    });
+  }
+
+  /**
+   * A post's cumulative curve next to the median curve for its platform and
+   * content type. Resolves to null when the post is not a published post of
+   * the organization.
+   */
+  async curve(organizationId: string, scheduledPostId: string, now: Date = new Date()): Promise<PostCurve | null> {
+    const post = await this.prisma.scheduledPost.findFirst({
+      where: { id: scheduledPostId, organizationId },
+      select: {
+        id: true,
+        publishedAt: true,
+        contentPiece: { select: { type: true } },
+        socialAccount: { select: { platform: true } },
+        metricCheckpoints: { orderBy: { hoursAfterPublish: 'asc' } },
+      },
+    });
+    if (!post?.publishedAt) {
+      return null;
+    }
+
+    const baseline = await this.baseline(organizationId, post.socialAccount.platform, post.contentPiece.type, post.id, now);
+    const medians = new Map<number, BaselinePoint>(baseline.checkpoints.map(point => [point.hoursAfterPublish, point]));
+    const recorded = post.metricCheckpoints as PostMetricCheckpoint[];
+
+    const checkpoints = recorded.map((checkpoint, index) => {
+      const cumulative = this.sumDeltas(recorded.slice(0, index + 1));
+      const engagements = cumulative.likes + cumulative.comments + cumulative.shares;
+      const median = medians.get(checkpoint.hoursAfterPublish);
+      const baselineEngagements = median && median.posts >= MIN_BASELINE_POSTS ? median.engagements : null;
+
+      return {
+        checkpoint: checkpoint.checkpoint,
+        hoursAfterPublish: checkpoint.hoursAfterPublish,
+        collectedAt: checkpoint.collectedAt,
+        delta: {
+          impressions: checkpoint.impressions,
+          likes: checkpoint.likes,
+          comments: checkpoint.comments,
+          shares: checkpoint.shares,
+          clicks: checkpoint.clicks,
+        },
+        cumulative: { impressions: cumulative.impressions, engagements, clicks: cumulative.clicks },
+        engagementRate: cumulative.impressions > 0 ? this.round((engagements / cumulative.impressions) * 100) : 0,
+        baselineEngagements,
+        vsBaseline: baselineEngagements ? this.round(engagements / baselineEngagements) : null,
+        isBreakout: checkpoint.isBreakout,
+      };
+    });
+
+    return {
+      scheduledPostId: post.id,
+      platform: post.socialAccount.platform,
+      contentType: post.contentPiece.type,
+      publishedAt: post.publishedAt,
+      checkpoints,
+      pendingCheckpoints: CURVE_CHECKPOINTS
+        .filter(checkpoint => !recorded.some(candidate => candidate.checkpoint === checkpoint.label))
+        .map(checkpoint => checkpoint.label),
+      baseline,
+      isBreakout: checkpoints.some(checkpoint => checkpoint.isBreakout),
+    };
+  }
+
+  /**
+   * Posts published in the last `hours` that broke out, strongest first
+   */
+  async breakouts(organizationId: string, options: { hours?: number; now?: Date } = {}): Promise<BreakoutPost[]> {
+    const hours = options.hours ?? 72;
+    const now = options.now || new Date();
+    if (!Number.isFinite(hours) || hours < 1 || hours > 24 * 30) {
+      throw new ValidationError('hours must be between 1 and 720', 'hours', hours);
+    }
+
+    const flagged = await this.prisma.postMetricCheckpoint.findMany({
+      where: {
+        organizationId,
+        isBreakout: true,
+        scheduledPost: { publishedAt: { gte: addHours(now, -hours) } },
+      },
+      orderBy: { hoursAfterPublish: 'desc' },
+      include: {
+        scheduledPost: {
+          select: {
+            publishedAt: true,
+            platformUrl: true,
+            contentPiece: { select: { title: true, body: true } },
+            metricCheckpoints: true,
+          },
+        },
+      },
+    });
+
+    // The latest flagged checkpoint of each post
+    const latest = new Map<string, (typeof flagged)[number]>();
+    for (const checkpoint of flagged) {
+      if (!latest.has(checkpoint.scheduledPostId)) {
+        latest.set(checkpoint.scheduledPostId, checkpoint);
+      }
+    }
+
+    return [...latest.values()]
+      .map(checkpoint => {
+        const { scheduledPost } = checkpoint;
+        const totals = this.sumDeltas((scheduledPost.metricCheckpoints as PostMetricCheckpoint[])
+          .filter(candidate => candidate.hoursAfterPublish <= checkpoint.hoursAfterPublish));
+        const engagements = totals.likes + totals.comments + totals.shares;
+
+        return {
+          scheduledPostId: checkpoint.scheduledPostId,
+          platform: checkpoint.platform,
+          contentType: checkpoint.contentType,
+          publishedAt: scheduledPost.publishedAt,
+          platformUrl: scheduledPost.platformUrl,
+          title: scheduledPost.contentPiece.title || scheduledPost.contentPiece.body.slice(0, 80),
+          checkpoint: checkpoint.checkpoint,
+          engagements,
+          baselineEngagements: checkpoint.baselineEngagements,
+          vsBaseline: checkpoint.baselineEngagements ? this.round(engagements / checkpoint.baselineEngagements) : null,
+        };
+      })
+      .sort((a, b) => (b.vsBaseline ?? Infinity) - (a.vsBaseline ?? Infinity) || b.engagements - a.engagements);
+  }
+
+  /**
+   * Median cumulative metrics at each checkpoint over the organization's
+   * posts from the last 90 days, by content type when enough posts share it
+   */
+  private async baseline(
+    organizationId: string,
+    platform: string,
+    contentType: string,
+    excludePostId: string,
+    now: Date
+  ): Promise<BaselineCurve> {
+    const byType = await this.medianCurve(organizationId, platform, contentType, excludePostId, now);
+    if (byType.some(point => point.posts >= MIN_BASELINE_POSTS)) {
+      return { scope: 'contentType', checkpoints: byType };
+    }
+
+    return { scope: 'platform', checkpoints: await this.medianCurve(organizationId, platform, null, excludePostId, now) };
+  }
+
+  private async medianCurve(
+    organizationId: string,
+    platform: string,
+    contentType: string | null,
+    excludePostId: string,
+    now: Date
+  ): Promise<BaselinePoint[]> {
+    const contentTypeFilter = contentType
+      ? Prisma.sql`AND c."contentType"::text = ${contentType}`
+      : Prisma.empty;
+
+    const rows = await this.prisma.$queryRaw<BaselineRow[]>`
+      WITH cumulative AS (
+        SELECT
+          c."hoursAfterPublish",
+          SUM(c."impressions") OVER w AS "impressions",
+          SUM(c."likes" + c."comments" + c."shares") OVER w AS "engagements",
+          SUM(c."clicks") OVER w AS "clicks"
+        FROM "public"."post_metric_checkpoints" c
+        JOIN "public"."scheduled_posts" sp ON sp."id" = c."scheduledPostId"
+        WHERE c."organizationId" = ${organizationId}
+          AND c."platform"::text = ${platform}
+          ${contentTypeFilter}
+          AND c."scheduledPostId" <> ${excludePostId}
+          AND sp."publishedAt" >= ${subDays(now, BASELINE_LOOKBACK_DAYS)}
+        WINDOW w AS (PARTITION BY c."scheduledPostId" ORDER BY c."hoursAfterPublish")
+      )
+      SELECT
+        "hoursAfterPublish",
+        COUNT(*)::int AS "posts",
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY "impressions")::float AS "impressions",
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY "engagements")::float AS "engagements",
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY "clicks")::float AS "clicks"
+      FROM cumulative
+      GROUP BY "hoursAfterPublish"
+      ORDER BY "hoursAfterPublish"`;
+
+    return rows.map(row => ({
+      checkpoint: CURVE_CHECKPOINTS.find(checkpoint => checkpoint.hours === row.hoursAfterPublish)?.label || `${row.hoursAfterPublish}h`,
+      hoursAfterPublish: row.hoursAfterPublish,
+      posts: row.posts,
+      impressions: this.round(row.impressions),
+      engagements: this.round(row.engagements),
+      clicks: this.round(row.clicks),
+    }));
+  }
+
+  private sumDeltas(checkpoints: CurveMetrics[]): CurveMetrics {
+    return checkpoints.reduce((totals, checkpoint) => ({
+      impressions: totals.impressions + checkpoint.impressions,
+      likes: totals.likes + checkpoint.likes,
+      comments: totals.comments + checkpoint.comments,
+      shares: totals.shares + checkpoint.shares,
+      clicks: totals.clicks + checkpoint.clicks,
+    }), { impressions: 0, likes: 0, comments: 0, shares: 0, clicks: 0 });
+  }
+
+  private subtractMetrics(a: CurveMetrics, b: CurveMetrics): CurveMetrics {
+    return {
+      impressions: a.impressions - b.impressions,
+      likes: a.likes - b.likes,
+      comments: a.comments - b.comments,
+      shares: a.shares - b.shares,
+      clicks: a.clicks - b.clicks,
+    };
+  }
+
+  private minMetrics(a: CurveMetrics, b: CurveMetrics): CurveMetrics {
+    return {
+      impressions: Math.min(a.impressions, b.impressions),
+      likes: Math.min(a.likes, b.likes),
+      comments: Math.min(a.comments, b.comments),
+      shares: Math.min(a.shares, b.shares),
+      clicks: Math.min(a.clicks, b.clicks),
+    };
+  }
+
+  private maxMetrics(a: CurveMetrics, b: CurveMetrics): CurveMetrics {
+    return {
+      impressions: Math.max(a.impressions, b.impressions),
+      likes: Math.max(a.likes, b.likes),
+      comments: Math.max(a.comments, b.comments),
+      shares: Math.max(a.shares, b.shares),
+      clicks: Math.max(a.clicks, b.clicks),
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,200 @@
+import { Platform } from '@prisma/client';
+// @ts-ignore - date-fns-tz may not have full type definitions
+import { getTimezoneOffset, utcToZonedTime } from 'date-fns-tz';
+
+export interface EngagementObservation {
+  scheduledAt: Date;
+  engagementRate: number; // percent, as stored on Analytics
+  reach: number;
+  clicks: number;
+}
+
+export interface PostingTimeModelInput {
+  platform: Platform;
+  timeZone: string;
+  observations: EngagementObservation[]; // One per published post
+  industry?: string | null; // Organization.category
+  audienceTimeZones?: Record<string, number> | null; // IANA zone -> share of followers
+  now?: Date;
+}
+
+export interface PostingTimeEstimate {
+  dayOfWeek: number; // 0 = Sunday, in the model's time zone
+  hour: number;
+  score: number; // Expected engagement relative to the best slot, 0-1
+  expectedEngagement: number; // Posterior mean engagement rate (%)
+  credibleInterval: { lower: number; upper: number }; // 90% credible interval
+  priorEngagement: number; // What the slot was expected to do before the org's own posts
+  dataWeight: number; // Share of the estimate that comes from the org's own posts, 0-1
+  sampleSize: number;
+  avgEngagement: number;
+  avgReach: number;
+  avgClicks: number;
+}
+
+interface PlatformPrior {
+  baselineEngagement: number; // Typical engagement rate (%) across accounts
+  peakHours: number[]; // Local hours when the platform's audience is most active
+  weekendFactor: number;
+}
+
+/**
+ * Platform-wide benchmarks the model falls back on before an organization has
+ * history of its own. Hours are in the audience's local time.
+ */
+export const PLATFORM_ENGAGEMENT_PRIORS: Record<Platform, PlatformPrior> = {
+  TWITTER: { baselineEngagement: 1.0, peakHours: [9, 12, 17], weekendFactor: 0.8 },
+  LINKEDIN: { baselineEngagement: 2.5, peakHours: [8, 12, 17], weekendFactor: 0.45 },
+  INSTAGRAM: { baselineEngagement: 2.0, peakHours: [11, 19], weekendFactor: 1.05 },
+  TIKTOK: { baselineEngagement: 5.0, peakHours: [12, 19, 21], weekendFactor: 1.1 },
+  YOUTUBE_SHORTS: { baselineEngagement: 4.0, peakHours: [15, 20], weekendFactor: 1.15 },
+  REDDIT: { baselineEngagement: 3.0, peakHours: [7, 12, 20], weekendFactor: 1.0 },
+  FACEBOOK: { baselineEngagement: 0.9, peakHours: [9, 13, 19], weekendFactor: 0.9 },
+  THREADS: { baselineEngagement: 2.5, peakHours: [8, 13, 20], weekendFactor: 0.95 },
+};
+
+// Industry adjustments keyed on Organization.category
+const INDUSTRY_PROFILES: Array<{ pattern: RegExp; weekday: (hour: number) => number; weekend: number }> = [
+  {
+    pattern: /saas|software|b2b|enterprise|developer|devtool|fintech|finance|consult|legal|agency|hr\b/i,
+    weekday: hour => (hour >= 8 && hour <= 17 ? 1.15 : 0.9),
+    weekend: 0.75,
+  },
+  {
+    pattern: /retail|e-?commerce|fashion|beauty|food|restaurant|gaming|entertainment|fitness|travel|consumer|media/i,
+    weekday: hour => (hour >= 18 && hour <= 22 ? 1.15 : 1),
+    weekend: 1.15,
+  },
+];
+
+// Pseudo-posts of weight given to the org-level and slot-level priors
+const ORG_PRIOR_STRENGTH = 10;
+const SLOT_PRIOR_STRENGTH = 4;
+// How strongly audience activity moves expected engagement (activity 1.4x -> engagement 1.2x)
+const ACTIVITY_ELASTICITY = 0.5;
+const Z_90 = 1.645;
+
+/**
+ * Estimate engagement for every hour of the week with a hierarchical
+ * normal model: slot estimates are shrunk toward an organization-level mean
+ * shaped by audience activity, and the organization mean is itself shrunk
+ * toward the platform benchmark. Sparse slots therefore follow the priors,
+ * and the organization's own results take over as posts accumulate.
+ *
+ * Returns all 168 slots, best first.
+ */
+export function estimatePostingTimes(input: PostingTimeModelInput): PostingTimeEstimate[] {
+  const prior = PLATFORM_ENGAGEMENT_PRIORS[input.platform];
+  const activity = audienceActivity(input);
+  const values = input.observations.map(observation => observation.engagementRate);
+  const total = values.length;
+  const overallMean = total ? mean(values) : prior.baselineEngagement;
+
+  const orgMean = (ORG_PRIOR_STRENGTH * prior.baselineEngagement + total * overallMean) / (ORG_PRIOR_STRENGTH + total);
+  // Pooled variance, starting from a prior guess of 75% relative spread
+  const priorVariance = (0.75 * orgMean) ** 2;
+  const sumSquares = values.reduce((sum, value) => sum + (value - overallMean) ** 2, 0);
+  const variance = (ORG_PRIOR_STRENGTH * priorVariance + sumSquares) / (ORG_PRIOR_STRENGTH + Math.max(total - 1, 0));
+
+  const slots = Array.from({ length: 168 }, () => [] as EngagementObservation[]);
+  for (const observation of input.observations) {
+    const local = utcToZonedTime(observation.scheduledAt, input.timeZone);
+    slots[local.getDay() * 24 + local.getHours()].push(observation);
+  }
+
+  const estimates = slots.map((observations, index) => {
+    const count = observations.length;
+    const priorMean = orgMean * (1 + ACTIVITY_ELASTICITY * (activity[index] - 1));
+    const slotMean = count ? mean(observations.map(observation => observation.engagementRate)) : 0;
+    const posteriorMean = (SLOT_PRIOR_STRENGTH * priorMean + count * slotMean) / (SLOT_PRIOR_STRENGTH + count);
+    const posteriorSd = Math.sqrt(variance / (SLOT_PRIOR_STRENGTH + count));
+
+    return {
+      dayOfWeek: Math.floor(index / 24),
+      hour: index % 24,
+      score: 0,
+      expectedEngagement: round(posteriorMean),
+      credibleInterval: {
+        lower: round(Math.max(posteriorMean - Z_90 * posteriorSd, 0)),
+        upper: round(posteriorMean + Z_90 * posteriorSd),
+      },
+      priorEngagement: round(priorMean),
+      dataWeight: round(count / (SLOT_PRIOR_STRENGTH + count)),
+      sampleSize: count,
+      avgEngagement: round(slotMean),
+      avgReach: count ? round(mean(observations.map(observation => observation.reach))) : 0,
+      avgClicks: count ? round(mean(observations.map(observation => observation.clicks))) : 0,
+    };
+  });
+
+  const best = Math.max(...estimates.map(estimate => estimate.expectedEngagement));
+  for (const estimate of estimates) {
+    estimate.score = best > 0 ? round(estimate.expectedEngagement / best) : 0;
+  }
+
+  return estimates.sort((a, b) => b.expectedEngagement - a.expectedEngagement || b.dataWeight - a.dataWeight);
+}
+
+/**
+ * Relative audience activity for each hour of the week in `timeZone`
+ * (index = dayOfWeek * 24 + hour), averaging 1. With a follower time zone
+ * distribution the platform curve is evaluated in each follower zone and
+ * mixed by share; otherwise followers are assumed to share the schedule's
+ * time zone.
+ */
+export function audienceActivity(input: Pick<PostingTimeModelInput, 'platform' | 'timeZone' | 'industry' | 'audienceTimeZones' | 'now'>): number[] {
+  const now = input.now || new Date();
+  const localCurve = localActivityCurve(input.platform, input.industry);
+  const zones = normalizeShares(input.audienceTimeZones) || { [input.timeZone]: 1 };
+  const scheduleOffset = getTimezoneOffset(input.timeZone, now);
+
+  const activity = new Array(168).fill(0);
+  for (const [zone, share] of Object.entries(zones)) {
+    const offset = getTimezoneOffset(zone, now);
+    if (Number.isNaN(offset)) {
+      continue;
+    }
+    const shiftHours = Math.round((offset - scheduleOffset) / (60 * 60 * 1000));
+    for (let index = 0; index < 168; index++) {
+      activity[index] += share * localCurve[(((index + shiftHours) % 168) + 168) % 168];
+    }
+  }
+
+  const average = mean(activity);
+  return activity.map(value => (average > 0 ? value / average : 1));
+}
+
+function localActivityCurve(platform: Platform, industry?: string | null): number[] {
+  const prior = PLATFORM_ENGAGEMENT_PRIORS[platform];
+  const profile = industry ? INDUSTRY_PROFILES.find(candidate => candidate.pattern.test(industry)) : undefined;
+
+  return Array.from({ length: 168 }, (_, index) => {
+    const day = Math.floor(index / 24);
+    const hour = index % 24;
+    const distance = Math.min(...prior.peakHours.map(peak => Math.min(Math.abs(hour - peak), 24 - Math.abs(hour - peak))));
+    const weekend = day === 0 || day === 6;
+
+    let value = 0.35 + Math.exp(-(distance ** 2) / (2 * 2.5 ** 2));
+    if (weekend) {
+      value *= prior.weekendFactor;
+    }
+    if (profile) {
+      value *= weekend ? profile.weekend : profile.weekday(hour);
+    }
+    return value;
+  });
+}
+
+function normalizeShares(shares?: Record<string, number> | null): Record<string, number> | undefined {
+  const entries = Object.entries(shares || {}).filter(([, share]) => share > 0);
+  const total = entries.reduce((sum, [, share]) => sum + share, 0);
+  return total > 0 ? Object.fromEntries(entries.map(([zone, share]) => [zone, share / total])) : undefined;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,347 @@
+import { PrismaClient, PostStatus, EventStatus, FeatureFlag, ScheduledPost } from '@prisma/client';
+import { addMinutes } from 'date-fns';
+import { PublishingQueueService } from './publishing-queue';
+import { ValidationError } from '../utils/errors';
+
+export type FreezeScope = 'organization' | 'account';
+
+/**
+ * What happens to posts held back by a freeze when it is lifted:
+ * - stagger: publish from now, `spacingMinutes` apart per account
+ * - shift: move each post later by the length of the freeze
+ * - cancel: cancel them
+ * - hold: leave them paused for someone to resume or reschedule
+ */
+export type FreezeLiftPolicy = 'stagger' | 'shift' | 'cancel' | 'hold';
+
+export interface PublishingFreeze {
+  scope: FreezeScope;
+  organizationId: string;
+  socialAccountId?: string;
+  reason: string;
+  frozenBy: string; // User ID
+  frozenAt: Date;
+}
+
+export interface FreezeRequest {
+  organizationId: string;
+  socialAccountId?: string;
+  reason: string;
+  frozenBy: string;
+  now?: Date;
+}
+
+export interface LiftRequest {
+  organizationId: string;
+  socialAccountId?: string;
+  policy: FreezeLiftPolicy;
+  spacingMinutes?: number;
+  liftedBy?: string;
+  now?: Date;
+}
+
+export interface LiftResult {
+  freeze: PublishingFreeze;
+  policy: FreezeLiftPolicy;
+  released: Array<{ scheduledPostId: string; scheduledAt: Date; status: PostStatus }>;
+}
+
+const FLAG_PREFIX = 'publishing-freeze';
+const DEFAULT_SPACING_MINUTES = 10;
+const TRANSACTION_TIMEOUT_MS = 60000;
+
+export function freezeFlagName(scope: FreezeScope, id: string): string {
+  return `${FLAG_PREFIX}:${scope}:${id}`;
+}
+
+/**
+ * Emergency stop for publishing, per organization or per social account.
+ *
+ * A freeze is a FeatureFlag named `publishing-freeze:<scope>:<id>`: the flag
+ * is enabled while the freeze holds, its description is the reason and its
+ * creator is whoever set it. Posts stay queued; the publishing worker checks
+ * for a freeze before each post and holds the post back as PAUSED, tagged
+ * with the freeze, so lifting it releases exactly the posts it stopped.
+ */
+export class PublishingFreezeService {
+  constructor(
+    private prisma: PrismaClient,
+    private publishingQueue: PublishingQueueService = new PublishingQueueService(prisma)
+  ) {}
+
+  /**
+   * Freeze publishing for an organization, or one of its accounts. Freezing
+   * again while frozen only replaces the reason; when and by whom the freeze
+   * started are kept, so a 'shift' lift covers the whole freeze. Resolves to
+   * null when the account does not belong to the organization.
+   */
+  async freeze(request: FreezeRequest): Promise<PublishingFreeze | null> {
+    const reason = request.reason.trim();
+    if (!reason) {
+      throw new ValidationError('A reason is required to freeze publishing', 'reason', request.reason);
+    }
+
+    if (request.socialAccountId) {
+      const account = await this.prisma.socialAccount.findFirst({
+        where: { id: request.socialAccountId, organizationId: request.organizationId },
+        select: { id: true },
+      });
+      if (!account) {
+        return null;
+      }
+    }
+
+    const scope: FreezeScope = request.socialAccountId ? 'account' : 'organization';
+    const name = freezeFlagName(scope, request.socialAccountId || request.organizationId);
+
+    const existing = await this.prisma.featureFlag.findUnique({ where: { name } });
+    if (existing?.enabled) {
+      // Guarded on enabled in case the freeze was lifted since it was read
+      const { count } = await this.prisma.featureFlag.updateMany({
+        where: { name, enabled: true },
+        data: { description: reason },
+      });
+      if (count > 0) {
+        return { ...this.toFreeze(existing), reason };
+      }
+    }
+
+    const freeze: PublishingFreeze = {
+      scope,
+      organizationId: request.organizationId,
+      ...(request.socialAccountId && { socialAccountId: request.socialAccountId }),
+      reason,
+      frozenBy: request.frozenBy,
+      frozenAt: request.now || new Date(),
+    };
+    const conditions = {
+      scope: freeze.scope,
+      organizationId: freeze.organizationId,
+      socialAccountId: freeze.socialAccountId ?? null,
+      frozenAt: freeze.frozenAt.toISOString(),
+    };
+
+    await this.prisma.featureFlag.upsert({
+      where: { name },
+      create: {
+        name,
+        description: reason,
+        enabled: true,
+        rolloutPercentage: 100,
+        targetUsers: [],
+        conditions,
+        createdBy: freeze.frozenBy,
+      },
+      update: {
+        description: reason,
+        enabled: true,
+        conditions,
+        createdBy: freeze.frozenBy,
+      },
+    });
+
+    return freeze;
+  }
+
+  /**
+   * Lift a freeze and release the posts it held back according to the
+   * policy. Resolves to null when there is no active freeze.
+   */
+  async lift(request: LiftRequest): Promise<LiftResult | null> {
+    const now = request.now || new Date();
+    const spacingMinutes = request.spacingMinutes ?? DEFAULT_SPACING_MINUTES;
+    const name = request.socialAccountId
+      ? freezeFlagName('account', request.socialAccountId)
+      : freezeFlagName('organization', request.organizationId);
+
+    return this.prisma.$transaction(async (tx) => {
+      const db = tx as PrismaClient;
+      const flag = await db.featureFlag.findUnique({ where: { name } });
+      const freeze = flag?.enabled ? this.toFreeze(flag) : null;
+      if (!flag || !freeze || freeze.organizationId !== request.organizationId) {
+        return null;
+      }
+
+      const held = await db.scheduledPost.findMany({
+        where: { organizationId: request.organizationId, heldByFreeze: name, status: PostStatus.PAUSED },
+        orderBy: { scheduledAt: 'asc' },
+      });
+      const releaseTimes = this.releaseTimes(held, request.policy, freeze.frozenAt, now, spacingMinutes);
+
+      const released: LiftResult['released'] = [];
+      for (const post of held) {
+        const updated = await this.release(db, post, request.policy, releaseTimes.get(post.id)!);
+        await this.publishingQueue.syncJob(updated, now);
+        released.push({ scheduledPostId: updated.id, scheduledAt: updated.scheduledAt, status: updated.status });
+      }
+
+      await db.featureFlag.update({
+        where: { name },
+        data: {
+          enabled: false,
+          conditions: {
+            ...(flag.conditions as Record<string, any>),
+            liftedAt: now.toISOString(),
+            liftedBy: request.liftedBy ?? null,
+            liftPolicy: request.policy,
+            released: released.length,
+          },
+        },
+      });
+
+      return { freeze, policy: request.policy, released };
+    }, { timeout: TRANSACTION_TIMEOUT_MS });
+  }
+
+  /**
+   * The freeze that applies to a post, if any. An organization freeze wins
+   * over an account freeze.
+   */
+  async activeFreezeFor(organizationId: string, socialAccountId: string): Promise<PublishingFreeze | null> {
+    const organizationFlag = freezeFlagName('organization', organizationId);
+    const flags = await this.prisma.featureFlag.findMany({
+      where: {
+        name: { in: [organizationFlag, freezeFlagName('account', socialAccountId)] },
+        enabled: true,
+      },
+    });
+
+    const flag = flags.find(candidate => candidate.name === organizationFlag) || flags[0];
+    return flag ? this.toFreeze(flag) : null;
+  }
+
+  /**
+   * Hold a post back because of a freeze. Returns false when the post is no
+   * longer waiting to publish.
+   */
+  async hold(scheduledPostId: string, freeze: PublishingFreeze): Promise<boolean> {
+    const { count } = await this.prisma.scheduledPost.updateMany({
+      where: { id: scheduledPostId, status: { in: [PostStatus.SCHEDULED, PostStatus.RETRYING] } },
+      data: {
+        status: PostStatus.PAUSED,
+        heldByFreeze: this.flagName(freeze),
+        errorMessage: `Held by publishing freeze: ${freeze.reason}`,
+        sequence: { increment: 1 },
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Active freezes for an organization and its accounts, with how many posts
+   * each is holding back
+   */
+  async listFreezes(organizationId: string): Promise<Array<PublishingFreeze & { heldPosts: number }>> {
+    const flags = await this.prisma.featureFlag.findMany({
+      where: {
+        name: { startsWith: `${FLAG_PREFIX}:` },
+        enabled: true,
+        conditions: { path: ['organizationId'], equals: organizationId },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const held = await this.prisma.scheduledPost.groupBy({
+      by: ['heldByFreeze'],
+      where: { organizationId, status: PostStatus.PAUSED, heldByFreeze: { in: flags.map(flag => flag.name) } },
+      _count: { _all: true },
+    });
+    const heldByFlag = new Map(held.map(group => [group.heldByFreeze, group._count._all]));
+
+    return flags.map(flag => ({ ...this.toFreeze(flag), heldPosts: heldByFlag.get(flag.name) || 0 }));
+  }
+
+  /**
+   * Counts of active freezes across all organizations, for health checks
+   */
+  async summary(): Promise<{ organizations: number; accounts: number }> {
+    const [organizations, accounts] = await Promise.all([
+      this.prisma.featureFlag.count({ where: { name: { startsWith: `${FLAG_PREFIX}:organization:` }, enabled: true } }),
+      this.prisma.featureFlag.count({ where: { name: { startsWith: `${FLAG_PREFIX}:account:` }, enabled: true } }),
+    ]);
+    return { organizations, accounts };
+  }
+
+  private async release(db: PrismaClient, post: ScheduledPost, policy: FreezeLiftPolicy, scheduledAt: Date): Promise<ScheduledPost> {
+    if (policy === 'cancel') {
+      await db.calendarEvent.updateMany({
+        where: { scheduledPostId: post.id },
+        data: { status: EventStatus.CANCELLED, sequence: { increment: 1 } },
+      });
+      return db.scheduledPost.update({
+        where: { id: post.id },
+        data: { status: PostStatus.CANCELLED, heldByFreeze: null, sequence: { increment: 1 } },
+      });
+    }
+
+    if (policy === 'hold') {
+      // Left paused, so resuming the organization picks it up
+      return db.scheduledPost.update({
+        where: { id: post.id },
+        data: { heldByFreeze: null },
+      });
+    }
+
+    await db.calendarEvent.updateMany({
+      where: { scheduledPostId: post.id },
+      data: { startTime: scheduledAt, sequence: { increment: 1 } },
+    });
+    return db.scheduledPost.update({
+      where: { id: post.id },
+      data: {
+        scheduledAt,
+        status: PostStatus.SCHEDULED,
+        heldByFreeze: null,
+        errorMessage: null,
+        sequence: { increment: 1 },
+      },
+    });
+  }
+
+  /**
+   * New times for held posts, which are sorted by their original time
+   */
+  private releaseTimes(
+    posts: ScheduledPost[],
+    policy: FreezeLiftPolicy,
+    frozenAt: Date,
+    now: Date,
+    spacingMinutes: number
+  ): Map<string, Date> {
+    const times = new Map<string, Date>();
+    const nextByAccount = new Map<string, Date>();
+    const frozenFor = now.getTime() - frozenAt.getTime();
+
+    for (const post of posts) {
+      if (policy === 'stagger') {
+        const next = nextByAccount.get(post.socialAccountId) || now;
+        times.set(post.id, next);
+        nextByAccount.set(post.socialAccountId, addMinutes(next, spacingMinutes));
+      } else if (policy === 'shift') {
+        times.set(post.id, new Date(Math.max(post.scheduledAt.getTime() + frozenFor, now.getTime())));
+      } else {
+        times.set(post.id, post.scheduledAt);
+      }
+    }
+
+    return times;
+  }
+
+  private flagName(freeze: Pick<PublishingFreeze, 'scope' | 'organizationId' | 'socialAccountId'>): string {
+    return freeze.scope === 'account'
+      ? freezeFlagName('account', freeze.socialAccountId!)
+      : freezeFlagName('organization', freeze.organizationId);
+  }
+
+  private toFreeze(flag: FeatureFlag): PublishingFreeze {
+    const conditions = (flag.conditions || {}) as Record<string, any>;
+    return {
+      scope: conditions.scope,
+      organizationId: conditions.organizationId,
+      ...(conditions.socialAccountId && { socialAccountId: conditions.socialAccountId }),
+      reason: flag.description || '',
+      frozenBy: flag.createdBy,
+      frozenAt: new Date(conditions.frozenAt),
+    };
+  }
+}
@@ -0,0 +1,297 @@
+import axios from 'axios';
+import { MediaRequirementsError } from '../utils/errors';
+import { MediaAttachment, MediaAttachmentService, MediaVariant, mediaAttachmentService } from './media-attachment';
+
+/**
+ * A single entry in ContentPiece.mediaRefs. Older content stores
+ * `{ image: s3Key }` or `{ urls: [...] }`; both are normalized into this shape.
+ */
+export interface MediaRef {
+  mediaId?: string; // MediaAttachment id
+  key?: string; // S3 key
+  url?: string;
+  type?: 'image' | 'video' | 'gif';
+  mimeType?: string;
+  size?: number;
+  dimensions?: MediaAttachment['dimensions'];
+  altText?: string;
+  variants?: MediaVariant[];
+}
+
+/**
+ * The file that will actually be sent to a platform for one media ref
+ */
+export interface PublishableMedia {
+  type: 'image' | 'video' | 'gif';
+  mimeType: string;
+  fileName: string;
+  url: string;
+  key?: string;
+  size?: number;
+  dimensions?: MediaAttachment['dimensions'];
+  altText?: string;
+  mediaId?: string;
+  variantId?: string;
+}
+
+interface MediaCandidate {
+  media: PublishableMedia;
+  format?: string;
+}
+
+// Most items each platform accepts on a single post
+const MAX_ITEMS_PER_POST: Record<string, { image: number; video: number }> = {
+  TWITTER: { image: 4, video: 1 },
+  LINKEDIN: { image: 9, video: 1 },
+  FACEBOOK: { image: 1, video: 1 },
+  INSTAGRAM: { image: 10, video: 10 },
+  THREADS: { image: 1, video: 0 },
+  TIKTOK: { image: 35, video: 1 },
+  YOUTUBE_SHORTS: { image: 0, video: 1 },
+};
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  mov: 'video/quicktime',
+  avi: 'video/avi',
+  webm: 'video/webm',
+};
+
+export class PublishingMediaService {
+  private media: MediaAttachmentService;
+
+  constructor(media: MediaAttachmentService = mediaAttachmentService) {
+    this.media = media;
+  }
+
+  /**
+   * Normalize the supported mediaRefs shapes into a list of refs
+   */
+  static parseMediaRefs(mediaRefs: unknown): MediaRef[] {
+    if (!mediaRefs || typeof mediaRefs !== 'object') {
+      return [];
+    }
+
+    if (Array.isArray(mediaRefs)) {
+      return mediaRefs.filter((ref): ref is MediaRef => Boolean(ref) && typeof ref === 'object');
+    }
+
+    const refs = mediaRefs as Record<string, any>;
+    if (Array.isArray(refs.items)) {
+      return PublishingMediaService.parseMediaRefs(refs.items);
+    }
+
+    const parsed: MediaRef[] = [];
+    if (typeof refs.image === 'string') {
+      parsed.push({ key: refs.image, type: 'image', altText: refs.altText });
+    }
+    if (typeof refs.video === 'string') {
+      parsed.push({ key: refs.video, type: 'video' });
+    }
+    if (Array.isArray(refs.urls)) {
+      for (const url of refs.urls) {
+        if (typeof url === 'string') {
+          parsed.push({ url });
+        }
+      }
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Resolve a content piece's media into the files to publish on a platform,
+   * preferring the platform-optimized variant that meets the platform's
+   * requirements. Throws MediaRequirementsError when nothing fits.
+   */
+  async resolveForPlatform(mediaRefs: unknown, platform: string, contentType = 'POST'): Promise<PublishableMedia[]> {
+    const refs = PublishingMediaService.parseMediaRefs(mediaRefs);
+    const requirementsKey = this.toRequirementsContentType(platform, contentType);
+    const resolved: PublishableMedia[] = [];
+
+    for (const ref of refs) {
+      const attachment = ref.mediaId ? await this.media.getMediaById(ref.mediaId) : null;
+      if (ref.mediaId && !attachment && !ref.key && !ref.url) {
+        throw new MediaRequirementsError(`Media ${ref.mediaId} could not be found`, platform, ['Media not found']);
+      }
+
+      const candidates = this.buildCandidates(ref, attachment, platform);
+      resolved.push(this.selectCandidate(candidates, platform, requirementsKey));
+    }
+
+    this.checkItemCount(resolved, platform);
+
+    return resolved;
+  }
+
+  /**
+   * Load the bytes of a resolved media file for platforms that take uploads
+   */
+  async download(media: PublishableMedia): Promise<Buffer> {
+    if (media.key) {
+      return this.media.downloadFromS3(media.key);
+    }
+
+    const response = await axios.get<ArrayBuffer>(media.url, { responseType: 'arraybuffer' });
+    return Buffer.from(response.data);
+  }
+
+  /**
+   * Count a successful publish against the library assets a post used
+   */
+  async recordUsage(mediaRefs: unknown): Promise<void> {
+    const mediaIds = PublishingMediaService.parseMediaRefs(mediaRefs)
+      .map(ref => ref.mediaId)
+      .filter((mediaId): mediaId is string => Boolean(mediaId));
+
+    await this.media.recordUsage(mediaIds);
+  }
+
+  private buildCandidates(ref: MediaRef, attachment: MediaAttachment | null, platform: string): MediaCandidate[] {
+    const key = attachment?.storage.key || ref.key;
+    const url = attachment?.storage.url || ref.url || (key ? this.media.getMediaUrl(key) : undefined);
+    if (!url) {
+      throw new MediaRequirementsError('Media reference has neither a storage key nor a URL', platform, ['Missing media location']);
+    }
+
+    const fileName = attachment?.originalName || this.fileNameOf(key || url);
+    const mimeType = attachment?.mimeType || ref.mimeType || MIME_TYPES[this.extensionOf(fileName)] || 'application/octet-stream';
+    const type = attachment?.type === 'gif' || attachment?.type === 'video' || attachment?.type === 'image'
+      ? attachment.type
+      : ref.type || this.typeOf(mimeType);
+
+    const original: MediaCandidate = {
+      media: {
+        type,
+        mimeType,
+        fileName,
+        url,
+        key,
+        size: attachment?.size ?? ref.size,
+        dimensions: attachment?.dimensions ?? ref.dimensions,
+        altText: ref.altText ?? attachment?.accessibility.altText,
+        mediaId: attachment?.id ?? ref.mediaId,
+      },
+      format: this.extensionOf(fileName) || undefined,
+    };
+
+    const variants = [...(attachment?.processing.variants || []), ...(ref.variants || [])];
+    const toCandidate = (variant: MediaVariant): MediaCandidate => {
+      const format = variant.specifications.format || this.extensionOf(variant.storage.key);
+      return {
+        media: {
+          ...original.media,
+          mimeType: MIME_TYPES[format] || original.media.mimeType,
+          url: variant.storage.url,
+          key: variant.storage.key,
+          size: variant.specifications.size,
+          // Compression keeps the original framing
+          dimensions: variant.specifications.width && variant.specifications.height
+            ? { width: variant.specifications.width, height: variant.specifications.height }
+            : variant.type === 'compressed' ? original.media.dimensions : undefined,
+          variantId: variant.id,
+        },
+        format,
+      };
+    };
+
+    // Platform variants closest to the original framing first, then the original,
+    // then plain compressed copies as a last resort for oversized files
+    const originalRatio = original.media.dimensions
+      ? original.media.dimensions.width / original.media.dimensions.height
+      : undefined;
+    const ratioDistance = (variant: MediaVariant) => {
+      const { width, height } = variant.specifications;
+      return originalRatio && width && height ? Math.abs(width / height - originalRatio) : 0;
+    };
+    const platformVariants = variants
+      .filter(variant => variant.type === 'platform_optimized' && variant.platform === platform)
+      .sort((a, b) => ratioDistance(a) - ratioDistance(b));
+    const compressedVariants = variants.filter(variant => variant.type === 'compressed');
+
+    return [
+      ...platformVariants.map(toCandidate),
+      original,
+      ...compressedVariants.map(toCandidate),
+    ];
+  }
+
+  private selectCandidate(candidates: MediaCandidate[], platform: string, contentType: string): PublishableMedia {
+    if (!this.media.getPlatformRequirements(platform, contentType)) {
+      // No published requirements for this platform; send the original
+      return candidates.find(candidate => !candidate.media.variantId)!.media;
+    }
+
+    let firstViolations: string[] | undefined;
+    for (const candidate of candidates) {
+      const { violations } = this.media.checkPlatformRequirements(
+        { ...candidate.media, format: candidate.format },
+        platform,
+        contentType
+      );
+
+      if (violations.length === 0) {
+        return candidate.media;
+      }
+      firstViolations = firstViolations || violations;
+    }
+
+    const original = candidates.find(candidate => !candidate.media.variantId)!.media;
+    throw new MediaRequirementsError(
+      `Media "${original.fileName}" does not meet ${platform} ${contentType} requirements: ${firstViolations!.join('; ')}`,
+      platform,
+      firstViolations!
+    );
+  }
+
+  private checkItemCount(media: PublishableMedia[], platform: string): void {
+    const limits = MAX_ITEMS_PER_POST[platform];
+    if (!limits || media.length === 0) {
+      return;
+    }
+
+    const videos = media.filter(item => item.type === 'video').length;
+    const images = media.length - videos;
+    const violations: string[] = [];
+
+    if (videos > limits.video) {
+      violations.push(`${videos} videos attached, ${platform} allows ${limits.video}`);
+    }
+    if (images > limits.image) {
+      violations.push(`${images} images attached, ${platform} allows ${limits.image}`);
+    }
+    if (videos > 0 && images > 0 && platform !== 'INSTAGRAM') {
+      violations.push(`${platform} posts cannot mix images and videos`);
+    }
+
+    if (violations.length > 0) {
+      throw new MediaRequirementsError(`Too many media items for ${platform}: ${violations.join('; ')}`, platform, violations);
+    }
+  }
+
+  private toRequirementsContentType(platform: string, contentType: string): string {
+    const key = contentType.toLowerCase();
+    return this.media.getPlatformRequirements(platform, key) ? key : 'post';
+  }
+
+  private typeOf(mimeType: string): PublishableMedia['type'] {
+    if (mimeType === 'image/gif') return 'gif';
+    return mimeType.startsWith('video/') ? 'video' : 'image';
+  }
+
+  private fileNameOf(location: string): string {
+    return location.split('?')[0].split('/').pop() || location;
+  }
+
+  private extensionOf(fileName: string): string {
+    const name = this.fileNameOf(fileName);
+    return name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+  }
+}
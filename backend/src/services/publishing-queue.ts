@@ -0,0 +1,332 @@
+import { Queue } from 'bullmq';
+import { PrismaClient, PostStatus, EventStatus, ScheduledPost } from '@prisma/client';
+import { subHours } from 'date-fns';
+import { publishingQueue, PublishingJob } from '../config/redis';
+import { ValidationError } from '../utils/errors';
+
+type QueuedPost = Pick<
+  ScheduledPost,
+  'id' | 'organizationId' | 'contentPieceId' | 'socialAccountId' | 'scheduledAt' | 'status' | 'maxAttempts'
+>;
+
+export interface PauseResult {
+  paused: string[];
+  skipped: string[]; // Already publishing, so they could not be held back
+}
+
+export interface ReconciliationResult {
+  removedJobs: string[]; // Jobs whose post is gone, moved or no longer waiting to publish
+  requeuedPosts: string[]; // Posts waiting to publish that had no live job
+}
+
+// Posts that should have a publishing job in the queue
+const QUEUED_STATUSES: PostStatus[] = [PostStatus.SCHEDULED, PostStatus.RETRYING];
+const CANCELLABLE_STATUSES: PostStatus[] = [...QUEUED_STATUSES, PostStatus.PAUSED, PostStatus.FAILED];
+const RESCHEDULABLE_STATUSES: PostStatus[] = [...QUEUED_STATUSES, PostStatus.PAUSED];
+// Jobs that have not run yet, plus the running one
+const LIVE_JOB_STATES = ['delayed', 'waiting', 'prioritized', 'paused', 'waiting-children', 'active'];
+const PENDING_JOB_STATES = ['delayed', 'waiting', 'prioritized', 'paused'] as const;
+// Older scheduled posts are cancelled by the daily cleanup rather than requeued
+const REQUEUE_WINDOW_HOURS = 24;
+const RECONCILE_BATCH_SIZE = 500;
+const TRANSACTION_TIMEOUT_MS = 30000;
+
+export function publishingJobId(scheduledPostId: string): string {
+  return `post-${scheduledPostId}`;
+}
+
+export function retryJobId(scheduledPostId: string, attempt: number): string {
+  return `post-${scheduledPostId}-retry-${attempt}`;
+}
+
+/**
+ * Keeps the BullMQ publishing queue in step with `ScheduledPost` rows.
+ *
+ * Every post has one deterministic job ID, so its delayed job can be found
+ * and removed or replaced when the post is cancelled, moved or paused. Queue
+ * changes run last inside the database transaction that changes the row, so
+ * a failed queue operation rolls the row back and a failed row change leaves
+ * the queue alone. Jobs also carry the time they were scheduled for and the
+ * worker drops any job that no longer matches its post. The reconciliation
+ * sweep repairs what is left, e.g. a commit that fails after jobs were
+ * removed: the posts are still waiting to publish and get their jobs back.
+ */
+export class PublishingQueueService {
+  constructor(
+    private prisma: PrismaClient,
+    private queue: Queue<PublishingJob> = publishingQueue
+  ) {}
+
+  /**
+   * Make the queue match a post: one delayed job at its scheduled time while
+   * it is waiting to publish, no job otherwise. Throws a ValidationError when
+   * the post's job is already running.
+   */
+  async syncJob(post: QueuedPost, now: Date = new Date()): Promise<void> {
+    await this.removeJobs(post);
+
+    if (QUEUED_STATUSES.includes(post.status)) {
+      await this.queue.add('publish-post', {
+        scheduledPostId: post.id,
+        organizationId: post.organizationId,
+        contentPieceId: post.contentPieceId,
+        socialAccountId: post.socialAccountId,
+        retryCount: 0,
+        scheduledAt: post.scheduledAt.toISOString(),
+      }, {
+        jobId: publishingJobId(post.id),
+        delay: Math.max(0, post.scheduledAt.getTime() - now.getTime()),
+        priority: 2,
+      });
+    }
+  }
+
+  /**
+   * Cancel a post and drop its job. Resolves to null when the post does not
+   * exist (in the organization, when given).
+   */
+  async cancel(scheduledPostId: string, organizationId?: string): Promise<ScheduledPost | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const db = tx as PrismaClient;
+      const post = await db.scheduledPost.findFirst({
+        where: { id: scheduledPostId, ...(organizationId && { organizationId }) },
+      });
+      if (!post || post.status === PostStatus.CANCELLED) {
+        return post;
+      }
+      if (!CANCELLABLE_STATUSES.includes(post.status)) {
+        throw new ValidationError(`Cannot cancel a ${post.status.toLowerCase()} post`, 'status', post.status);
+      }
+
+      const cancelled = await db.scheduledPost.update({
+        where: { id: post.id },
+        data: { status: PostStatus.CANCELLED, sequence: { increment: 1 } },
+      });
+      await db.calendarEvent.updateMany({
+        where: { scheduledPostId: post.id },
+        data: { status: EventStatus.CANCELLED, sequence: { increment: 1 } },
+      });
+      await this.syncJob(cancelled);
+
+      return cancelled;
+    }, { timeout: TRANSACTION_TIMEOUT_MS });
+  }
+
+  /**
+   * Move a post and its job to a new time. Paused posts keep their pause;
+   * posts waiting on a retry start over as scheduled.
+   */
+  async reschedule(
+    scheduledPostId: string,
+    scheduledAt: Date,
+    options: { organizationId?: string; now?: Date } = {}
+  ): Promise<ScheduledPost | null> {
+    const now = options.now || new Date();
+    if (scheduledAt.getTime() <= now.getTime()) {
+      throw new ValidationError('scheduledAt must be in the future', 'scheduledAt', scheduledAt);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const db = tx as PrismaClient;
+      const post = await db.scheduledPost.findFirst({
+        where: { id: scheduledPostId, ...(options.organizationId && { organizationId: options.organizationId }) },
+      });
+      if (!post) {
+        return null;
+      }
+      if (!RESCHEDULABLE_STATUSES.includes(post.status)) {
+        throw new ValidationError(`Cannot reschedule a ${post.status.toLowerCase()} post`, 'status', post.status);
+      }
+
+      const rescheduled = await db.scheduledPost.update({
+        where: { id: post.id },
+        data: {
+          scheduledAt,
+          status: post.status === PostStatus.PAUSED ? PostStatus.PAUSED : PostStatus.SCHEDULED,
+          sequence: { increment: 1 },
+        },
+      });
+      await db.calendarEvent.updateMany({
+        where: { scheduledPostId: post.id },
+        data: { startTime: scheduledAt, sequence: { increment: 1 } },
+      });
+      await this.syncJob(rescheduled, now);
+
+      return rescheduled;
+    }, { timeout: TRANSACTION_TIMEOUT_MS });
+  }
+
+  /**
+   * Hold back every post the organization has waiting to publish
+   */
+  async pauseOrganization(organizationId: string): Promise<PauseResult> {
+    return this.prisma.$transaction(async (tx) => {
+      const db = tx as PrismaClient;
+      const posts = await db.scheduledPost.findMany({
+        where: { organizationId, status: { in: QUEUED_STATUSES } },
+      });
+
+      const paused: string[] = [];
+      const skipped: string[] = [];
+      const jobs: Array<{ remove(): Promise<void> }> = [];
+      for (const post of posts) {
+        try {
+          jobs.push(...await this.pendingJobs(post));
+          paused.push(post.id);
+        } catch (error) {
+          if (!(error instanceof ValidationError)) {
+            throw error;
+          }
+          skipped.push(post.id);
+        }
+      }
+
+      await db.scheduledPost.updateMany({
+        where: { id: { in: paused } },
+        data: { status: PostStatus.PAUSED, sequence: { increment: 1 } },
+      });
+      // Removed after the update, so a failed update leaves the jobs queued
+      for (const job of jobs) {
+        await job.remove();
+      }
+
+      return { paused, skipped };
+    }, { timeout: TRANSACTION_TIMEOUT_MS });
+  }
+
+  /**
+   * Requeue the organization's paused posts. Posts whose time passed while
+   * paused publish straight away. Posts held by a publishing freeze wait for
+   * the freeze to be lifted.
+   */
+  async resumeOrganization(organizationId: string, now: Date = new Date()): Promise<string[]> {
+    return this.prisma.$transaction(async (tx) => {
+      const db = tx as PrismaClient;
+      const posts = await db.scheduledPost.findMany({
+        where: { organizationId, status: PostStatus.PAUSED, heldByFreeze: null },
+      });
+
+      await db.scheduledPost.updateMany({
+        where: { id: { in: posts.map(post => post.id) } },
+        data: { status: PostStatus.SCHEDULED, sequence: { increment: 1 } },
+      });
+      for (const post of posts) {
+        await this.syncJob({ ...post, status: PostStatus.SCHEDULED }, now);
+      }
+
+      return posts.map(post => post.id);
+    }, { timeout: TRANSACTION_TIMEOUT_MS });
+  }
+
+  /**
+   * Whether a job still describes its post. The worker skips jobs for posts
+   * that were cancelled, paused, published or moved since the job was queued.
+   */
+  async shouldPublish(job: PublishingJob): Promise<boolean> {
+    const post = await this.prisma.scheduledPost.findUnique({
+      where: { id: job.scheduledPostId },
+      select: { status: true, scheduledAt: true },
+    });
+    return !!post && this.isCurrent(post, job);
+  }
+
+  /**
+   * Remove jobs nothing will publish and queue posts that lost their job
+   */
+  async reconcile(now: Date = new Date()): Promise<ReconciliationResult> {
+    const stale: Array<{ remove(): Promise<void>; id?: string }> = [];
+
+    for (let start = 0; ; start += RECONCILE_BATCH_SIZE) {
+      const jobs = await this.queue.getJobs([...PENDING_JOB_STATES], start, start + RECONCILE_BATCH_SIZE - 1, true);
+      if (jobs.length === 0) {
+        break;
+      }
+
+      const posts = await this.prisma.scheduledPost.findMany({
+        where: { id: { in: [...new Set(jobs.map(job => job.data.scheduledPostId))] } },
+        select: { id: true, status: true, scheduledAt: true },
+      });
+      const postsById = new Map(posts.map(post => [post.id, post]));
+
+      for (const job of jobs) {
+        const post = postsById.get(job.data.scheduledPostId);
+        if (!post || !this.isCurrent(post, job.data)) {
+          stale.push(job);
+        }
+      }
+    }
+
+    // Removed after paging so the pages do not shift underneath
+    for (const job of stale) {
+      await job.remove();
+    }
+
+    const pending = await this.prisma.scheduledPost.findMany({
+      where: {
+        status: { in: QUEUED_STATUSES },
+        scheduledAt: { gte: subHours(now, REQUEUE_WINDOW_HOURS) },
+      },
+    });
+
+    const requeuedPosts: string[] = [];
+    for (const post of pending) {
+      const jobIds = post.status === PostStatus.RETRYING
+        ? [publishingJobId(post.id), retryJobId(post.id, post.attemptCount)]
+        : [publishingJobId(post.id)];
+      if (!(await this.hasLiveJob(jobIds))) {
+        await this.syncJob(post, now);
+        requeuedPosts.push(post.id);
+      }
+    }
+
+    return { removedJobs: stale.map(job => job.id!), requeuedPosts };
+  }
+
+  private isCurrent(post: Pick<ScheduledPost, 'status' | 'scheduledAt'>, job: PublishingJob): boolean {
+    return QUEUED_STATUSES.includes(post.status) &&
+      (!job.scheduledAt || new Date(job.scheduledAt).getTime() === post.scheduledAt.getTime());
+  }
+
+  private async hasLiveJob(jobIds: string[]): Promise<boolean> {
+    for (const jobId of jobIds) {
+      const job = await this.queue.getJob(jobId);
+      if (job && LIVE_JOB_STATES.includes(await job.getState())) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Remove the post's job and any retry jobs, including finished ones so the
+   * job ID can be reused
+   */
+  private async removeJobs(post: QueuedPost): Promise<void> {
+    for (const job of await this.pendingJobs(post)) {
+      await job.remove();
+    }
+  }
+
+  /**
+   * The post's queued jobs; throws a ValidationError when one is running
+   */
+  private async pendingJobs(post: QueuedPost): Promise<Array<{ remove(): Promise<void> }>> {
+    const jobIds = [publishingJobId(post.id)];
+    for (let attempt = 1; attempt <= post.maxAttempts; attempt++) {
+      jobIds.push(retryJobId(post.id, attempt));
+    }
+
+    const jobs: Array<{ remove(): Promise<void> }> = [];
+    for (const jobId of jobIds) {
+      const job = await this.queue.getJob(jobId);
+      if (!job) {
+        continue;
+      }
+      if (await job.getState() === 'active') {
+        throw new ValidationError('The post is already publishing', 'scheduledPostId', post.id);
+      }
+      jobs.push(job);
+    }
+    return jobs;
+  }
+}
@@ -0,0 +1,219 @@
+import { RRule, Frequency, Options } from 'rrule';
+import { isValid, parseISO } from 'date-fns';
+// @ts-ignore - date-fns-tz may not have full type definitions
+import { formatInTimeZone, zonedTimeToUtc } from 'date-fns-tz';
+import { ValidationError } from '../utils/errors';
+
+export interface Timeslot {
+  hour: number;
+  minute: number;
+}
+
+export interface LegacyRecurrence {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: number;
+  daysOfWeek?: number[]; // 0=Sunday, 1=Monday, etc.
+}
+
+export interface RecurrenceExpansion {
+  rrule: string;
+  exdates?: string[];
+  timeslots: Timeslot[];
+  startDate: Date | string;
+  endDate?: Date | string;
+  timeZone: string;
+  limit?: number;
+}
+
+export interface RecurrenceOccurrence {
+  scheduledAt: Date;
+  localTime: string; // ISO 8601 wall-clock time with the zone's offset on that day
+}
+
+// Without an end date or COUNT/UNTIL, expand this far ahead
+const DEFAULT_HORIZON_MONTHS = 6;
+export const MAX_RECURRENCE_OCCURRENCES = 500;
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const SUPPORTED_FREQUENCIES = [Frequency.YEARLY, Frequency.MONTHLY, Frequency.WEEKLY, Frequency.DAILY];
+
+/**
+ * Translate the original frequency/interval/daysOfWeek options into an RRULE.
+ * Days of week only narrow weekly schedules, as before.
+ */
+export function legacyToRRule({ frequency, interval, daysOfWeek }: LegacyRecurrence): string {
+  const parts = [`FREQ=${frequency.toUpperCase()}`, `INTERVAL=${interval}`];
+  if (frequency === 'weekly' && daysOfWeek?.length) {
+    parts.push(`BYDAY=${[...new Set(daysOfWeek)].sort().map(day => RRULE_WEEKDAYS[day]).join(',')}`);
+  }
+  return `RRULE:${parts.join(';')}`;
+}
+
+/**
+ * Parse and normalize an RRULE value (with or without the `RRULE:` prefix).
+ * DTSTART and TZID come from the schedule, so they are rejected here, and
+ * sub-daily frequencies are rejected because timeslots set the time of day.
+ */
+export function normalizeRRule(rule: string): string {
+  const value = rule.trim().replace(/^RRULE:/i, '');
+  if (!value || /[\r\n]/.test(value) || /DTSTART|TZID/i.test(value)) {
+    throw new ValidationError('rrule must be a single RRULE value without DTSTART or TZID', 'rrule', rule);
+  }
+
+  let options: Partial<Options>;
+  try {
+    options = RRule.parseString(value);
+  } catch (error: any) {
+    throw new ValidationError(`Invalid rrule: ${error.message}`, 'rrule', rule);
+  }
+
+  if (options.freq === undefined || !SUPPORTED_FREQUENCIES.includes(options.freq)) {
+    throw new ValidationError('rrule FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY', 'rrule', rule);
+  }
+  const weekdays = options.byweekday === undefined || options.byweekday === null
+    ? []
+    : Array.isArray(options.byweekday) ? options.byweekday : [options.byweekday];
+  if (weekdays.some(day => day === undefined)) {
+    throw new ValidationError('rrule BYDAY contains an unknown weekday', 'rrule', rule);
+  }
+  if (options.byhour !== undefined || options.byminute !== undefined || options.bysecond !== undefined) {
+    throw new ValidationError('Use timeslots instead of BYHOUR, BYMINUTE or BYSECOND', 'rrule', rule);
+  }
+
+  return RRule.optionsToString(options);
+}
+
+export function assertTimeZone(timeZone: string): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new ValidationError(`Unknown time zone: ${timeZone}`, 'timeZone', timeZone);
+  }
+}
+
+/**
+ * Expand a rule into UTC instants. The rule is evaluated on wall-clock times
+ * in `timeZone` (held as "floating" UTC dates) and each occurrence is then
+ * converted on its own day, so 09:00 stays 09:00 across DST changes.
+ *
+ * COUNT applies to the whole schedule, not to each timeslot, and UNTIL is a
+ * UTC instant as RFC 5545 requires for a start with a time zone.
+ *
+ * EXDATEs are `yyyy-MM-dd` to skip a whole day or `yyyy-MM-ddTHH:mm` to skip a
+ * single slot, both in `timeZone`. String start and end dates without an
+ * offset are also read in `timeZone`; `Date` values are projected into it.
+ */
+export function expandRecurrence(expansion: RecurrenceExpansion): RecurrenceOccurrence[] {
+  const { timeslots, timeZone } = expansion;
+  assertTimeZone(timeZone);
+
+  const { count, ...options } = RRule.parseString(normalizeRRule(expansion.rrule).replace(/^RRULE:/, ''));
+  const limit = Math.min(expansion.limit ?? MAX_RECURRENCE_OCCURRENCES, MAX_RECURRENCE_OCCURRENCES);
+  const startDay = localDate(expansion.startDate, timeZone, 'startDate');
+  const endDay = expansion.endDate
+    ? localDate(expansion.endDate, timeZone, 'endDate')
+    : count || options.until
+      ? undefined
+      : addFloatingMonths(startDay, DEFAULT_HORIZON_MONTHS);
+  const endOfEndDay = endDay ? new Date(endDay.getTime() + 24 * 60 * 60 * 1000 - 1) : undefined;
+  const ruleUntil = options.until ? floatingDate(options.until, timeZone) : undefined;
+  const until = endOfEndDay && ruleUntil && ruleUntil < endOfEndDay ? ruleUntil : endOfEndDay ?? ruleUntil;
+  const { days: excludedDays, slots: excludedSlots } = parseExdates(expansion.exdates || []);
+
+  const candidates: Date[] = [];
+
+  for (const timeslot of timeslots) {
+    const rule = new RRule({
+      ...options,
+      dtstart: new Date(Date.UTC(
+        startDay.getUTCFullYear(),
+        startDay.getUTCMonth(),
+        startDay.getUTCDate(),
+        timeslot.hour,
+        timeslot.minute
+      )),
+      until,
+    });
+
+    rule.all((floating, index) => {
+      // Keep expanding past excluded dates, but never beyond the overall cap
+      if (index >= MAX_RECURRENCE_OCCURRENCES) {
+        return false;
+      }
+      candidates.push(floating);
+      return true;
+    });
+  }
+
+  // Excluded dates still use up the count, as with EXDATE in RFC 5545
+  candidates.sort((a, b) => a.getTime() - b.getTime());
+  const counted = count ? candidates.slice(0, count) : candidates;
+
+  const occurrences: RecurrenceOccurrence[] = [];
+  for (const floating of counted) {
+    const wallClock = floatingIso(floating);
+    if (!excludedDays.has(wallClock.substring(0, 10)) && !excludedSlots.has(wallClock.substring(0, 16))) {
+      const scheduledAt = zonedTimeToUtc(wallClock, timeZone);
+      occurrences.push({
+        scheduledAt,
+        localTime: formatInTimeZone(scheduledAt, timeZone, "yyyy-MM-dd'T'HH:mm:ssXXX"),
+      });
+    }
+  }
+
+  return occurrences
+    .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime())
+    .slice(0, limit);
+}
+
+function parseExdates(exdates: string[]): { days: Set<string>; slots: Set<string> } {
+  const days = new Set<string>();
+  const slots = new Set<string>();
+
+  for (const exdate of exdates) {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(exdate) && isValid(parseISO(exdate))) {
+      days.add(exdate);
+    } else if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/.test(exdate) && isValid(parseISO(exdate))) {
+      slots.add(exdate.substring(0, 16));
+    } else {
+      throw new ValidationError('exdates must be yyyy-MM-dd or yyyy-MM-ddTHH:mm without an offset', 'exdates', exdate);
+    }
+  }
+
+  return { days, slots };
+}
+
+/**
+ * The calendar day of a value in `timeZone`, as a floating UTC midnight
+ */
+function localDate(value: Date | string, timeZone: string, field: string): Date {
+  let day: string;
+  if (typeof value === 'string' && !/(Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+    if (!isValid(parseISO(value))) {
+      throw new ValidationError(`Invalid ${field}`, field, value);
+    }
+    day = value.substring(0, 10);
+  } else {
+    const instant = typeof value === 'string' ? parseISO(value) : value;
+    if (!isValid(instant)) {
+      throw new ValidationError(`Invalid ${field}`, field, value);
+    }
+    day = formatInTimeZone(instant, timeZone, 'yyyy-MM-dd');
+  }
+  return new Date(`${day}T00:00:00Z`);
+}
+
+function addFloatingMonths(date: Date, months: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, date.getUTCDate()));
+}
+
+/**
+ * The wall-clock time of an instant in `timeZone`, as a floating UTC date
+ */
+function floatingDate(instant: Date, timeZone: string): Date {
+  return new Date(`${formatInTimeZone(instant, timeZone, "yyyy-MM-dd'T'HH:mm:ss")}Z`);
+}
+
+function floatingIso(date: Date): string {
+  return date.toISOString().substring(0, 19);
+}
@@ -0,0 +1,283 @@
+import axios, { AxiosInstance } from 'axios';
+import { config } from '../config/config';
+import { decrypt } from '../utils/encryption';
+
+export const REDDIT_API_BASE_URL = 'https://oauth.reddit.com';
+export const REDDIT_TOKEN_URL = 'https://www.reddit.com/api/v1/access_token';
+
+export interface RedditCredentials {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: Date;
+}
+
+export interface RedditClientOptions {
+  baseURL?: string;
+}
+
+export interface RedditPostData {
+  subreddit: string;
+  title: string;
+  text?: string;
+  url?: string;
+  flairId?: string;
+  flairText?: string;
+  nsfw?: boolean;
+  spoiler?: boolean;
+  sendReplies?: boolean;
+}
+
+export interface RedditFlair {
+  id: string;
+  text: string;
+  textEditable: boolean;
+}
+
+export interface RedditPostResponse {
+  id: string;
+  name: string;
+  url: string;
+}
+
+export interface RedditAnalytics {
+  score: number;
+  upvotes: number;
+  upvoteRatio: number;
+  comments: number;
+  crossposts: number;
+  views: number;
+}
+
+export class RedditService {
+  private client: AxiosInstance;
+  private accessToken: string;
+
+  constructor(credentials: RedditCredentials, options: RedditClientOptions = {}) {
+    this.accessToken = credentials.accessToken;
+
+    this.client = axios.create({
+      baseURL: options.baseURL || REDDIT_API_BASE_URL,
+      headers: {
+        'Authorization': `Bearer ${this.accessToken}`,
+        'User-Agent': config.social.reddit.userAgent,
+      },
+    });
+
+    // Add response interceptor for error handling
+    this.client.interceptors.response.use(
+      response => response,
+      error => {
+        console.error('Reddit API Error:', error.response?.data || error.message);
+        throw new Error(`Reddit API Error: ${error.response?.data?.message || error.message}`);
+      }
+    );
+  }
+
+  /**
+   * Create a new Reddit client with decrypted credentials
+   */
+  static async createWithEncryptedCredentials(
+    encryptedAccessToken: string,
+    encryptedRefreshToken?: string,
+    expiresAt?: Date,
+    options?: RedditClientOptions
+  ): Promise<RedditService> {
+    const credentials: RedditCredentials = {
+      accessToken: decrypt(encryptedAccessToken),
+      refreshToken: encryptedRefreshToken ? decrypt(encryptedRefreshToken) : undefined,
+      expiresAt,
+    };
+
+    return new RedditService(credentials, options);
+  }
+
+  /**
+   * Get the link flairs available in a subreddit
+   */
+  async getLinkFlairs(subreddit: string): Promise<RedditFlair[]> {
+    try {
+      const response = await this.client.get(`/r/${encodeURIComponent(subreddit)}/api/link_flair_v2`);
+
+      return (response.data || []).map((flair: any) => ({
+        id: flair.id,
+        text: flair.text,
+        textEditable: Boolean(flair.text_editable),
+      }));
+    } catch (error: any) {
+      console.error('Error fetching Reddit flairs:', error);
+      throw new Error(`Failed to fetch flairs: ${error.message}`);
+    }
+  }
+
+  /**
+   * Submit a text or link post to a subreddit
+   */
+  async submitPost(postData: RedditPostData): Promise<RedditPostResponse> {
+    try {
+      if (postData.title.length > 300) {
+        throw new Error('Reddit titles are limited to 300 characters');
+      }
+
+      const flair = await this.resolveFlair(postData);
+
+      const form = new URLSearchParams({
+        api_type: 'json',
+        sr: postData.subreddit,
+        title: postData.title,
+        kind: postData.url ? 'link' : 'self',
+        resubmit: 'true',
+        sendreplies: String(postData.sendReplies ?? true),
+        nsfw: String(Boolean(postData.nsfw)),
+        spoiler: String(Boolean(postData.spoiler)),
+      });
+
+      if (postData.url) {
+        form.set('url', postData.url);
+      } else {
+        form.set('text', postData.text || '');
+      }
+
+      if (flair.flairId) {
+        form.set('flair_id', flair.flairId);
+      }
+      if (flair.flairText) {
+        form.set('flair_text', flair.flairText);
+      }
+
+      const response = await this.client.post('/api/submit', form.toString(), {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      });
+
+      // Reddit answers 200 with validation errors as [code, message, field] tuples
+      const errors: string[][] = response.data.json?.errors || [];
+      if (errors.length > 0) {
+        throw new Error(errors.map(([code, message]) => `${code}: ${message}`).join('; '));
+      }
+
+      const data = response.data.json.data;
+
+      return {
+        id: data.id,
+        name: data.name,
+        url: data.url,
+      };
+    } catch (error: any) {
+      console.error('Error posting to Reddit:', error);
+      throw new Error(`Failed to post content: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete a Reddit post
+   */
+  async deletePost(postId: string): Promise<boolean> {
+    try {
+      await this.client.post('/api/del', new URLSearchParams({ id: this.toFullname(postId) }).toString(), {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      });
+      return true;
+    } catch (error: any) {
+      console.error('Error deleting Reddit post:', error);
+      throw new Error(`Failed to delete post: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get analytics for a specific post
+   */
+  async getPostAnalytics(postId: string): Promise<RedditAnalytics> {
+    try {
+      const response = await this.client.get('/api/info', {
+        params: { id: this.toFullname(postId) },
+      });
+
+      const post = response.data.data?.children?.[0]?.data;
+
+      return {
+        score: post?.score || 0,
+        upvotes: post?.ups || 0,
+        upvoteRatio: post?.upvote_ratio || 0,
+        comments: post?.num_comments || 0,
+        crossposts: post?.num_crossposts || 0,
+        // Only moderators and the author on some clients get view counts
+        views: post?.view_count || 0,
+      };
+    } catch (error: any) {
+      console.error('Error fetching Reddit post analytics:', error);
+      // Return zero analytics if access is not available
+      return {
+        score: 0,
+        upvotes: 0,
+        upvoteRatio: 0,
+        comments: 0,
+        crossposts: 0,
+        views: 0,
+      };
+    }
+  }
+
+  /**
+   * Refresh access token
+   */
+  static async refreshAccessToken(refreshToken: string, tokenUrl: string = REDDIT_TOKEN_URL): Promise<{
+    accessToken: string;
+    expiresIn: number;
+    refreshToken?: string;
+  }> {
+    try {
+      const response = await axios.post(tokenUrl, new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      }).toString(), {
+        auth: {
+          username: config.social.reddit.clientId,
+          password: config.social.reddit.clientSecret,
+        },
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'User-Agent': config.social.reddit.userAgent,
+        },
+      });
+
+      return {
+        accessToken: response.data.access_token,
+        expiresIn: response.data.expires_in,
+        // Reddit keeps the original refresh token valid unless it issues a new one
+        refreshToken: response.data.refresh_token || refreshToken,
+      };
+    } catch (error: any) {
+      console.error('Error refreshing Reddit access token:', error);
+      throw new Error(`Failed to refresh access token: ${error.response?.data?.error || error.message}`);
+    }
+  }
+
+  /**
+   * Match flair text against the subreddit's flair templates when no ID is given
+   */
+  private async resolveFlair(postData: RedditPostData): Promise<{ flairId?: string; flairText?: string }> {
+    if (postData.flairId || !postData.flairText) {
+      return { flairId: postData.flairId, flairText: postData.flairText };
+    }
+
+    const flairs = await this.getLinkFlairs(postData.subreddit);
+    const wanted = postData.flairText.trim().toLowerCase();
+    const match = flairs.find(flair => flair.text.trim().toLowerCase() === wanted);
+
+    if (!match) {
+      throw new Error(`Flair "${postData.flairText}" does not exist in r/${postData.subreddit}`);
+    }
+
+    return {
+      flairId: match.id,
+      flairText: match.textEditable ? postData.flairText : undefined,
+    };
+  }
+
+  private toFullname(postId: string): string {
+    return postId.startsWith('t3_') ? postId : `t3_${postId}`;
+  }
+}
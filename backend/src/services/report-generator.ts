@@ -1,6 +1,16 @@
-import { PrismaClient } from '@prisma/client';
-import * as fs from 'fs';
-import * as path from 'path';
+import { PrismaClient, ExportStatus } from '@prisma/client';
+import { addDays, format, startOfWeek } from 'date-fns';
+import { Readable } from 'stream';
+import { PdfReportBuilder, XLSX_MIME_TYPE, addTableSheet, createWorkbook, formatCompact } from './report-rendering';
+import { FileStorage, getFileStorage, signDownloadUrl } from './file-storage';
+import { config as appConfig } from '../config/config';
+
+const REPORT_FILE_TYPES: Record<ReportConfig['format'], { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  pdf: { extension: 'pdf', mimeType: 'application/pdf' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  excel: { extension: 'xlsx', mimeType: XLSX_MIME_TYPE },
+};
 
 export interface ReportConfig {
   organizationId: string;
@@ -16,6 +26,7 @@ export interface ReportConfig {
 export interface ReportData {
   metadata: {
     organizationId: string;
+    organizationName: string;
     reportType: string;
     generatedAt: Date;
     period: {
@@ -77,39 +88,176 @@ export interface ReportData {
 
 export class ReportGenerator {
   private prisma: PrismaClient;
+  private storage: FileStorage;
 
-  constructor(prisma: PrismaClient) {
+  constructor(prisma: PrismaClient, storage: FileStorage = getFileStorage()) {
     this.prisma = prisma;
+    this.storage = storage;
   }
 
   /**
-   * Generate a comprehensive analytics report
+   * API path that serves a report's file
+   */
+  static downloadPath(reportId: string): string {
+    return `/api/v1/analytics/reports/${reportId}/download`;
+  }
+
+  /**
+   * Generate a comprehensive analytics report and store its file
    */
   async generateReport(config: ReportConfig): Promise<{
     reportId: string;
     data: ReportData;
-    filePath?: string;
+    storageKey: string;
   }> {
+    const reportRecord = await this.createReportRecord(config);
+    return this.processReport(reportRecord.id, config);
+  }
+
+  /**
+   * Create the report record and render it in the background
+   */
+  async queueReport(config: ReportConfig): Promise<string> {
+    const reportRecord = await this.createReportRecord(config);
+
+    // Failures are recorded on the report record
+    this.processReport(reportRecord.id, config).catch(() => undefined);
+
+    return reportRecord.id;
+  }
+
+  /**
+   * Get report status and a download URL once it has completed
+   */
+  async getReport(reportId: string) {
+    const report = await this.prisma.analyticsReport.findUnique({
+      where: { id: reportId },
+    });
+
+    if (!report) {
+      throw new Error('Report not found');
+    }
+
+    const downloadable = report.status === ExportStatus.COMPLETED && report.storageKey;
+
+    return {
+      id: report.id,
+      reportType: report.reportType,
+      format: report.format,
+      status: report.status,
+      fileName: report.fileName,
+      fileSize: report.fileSize,
+      downloadUrl: downloadable ? signDownloadUrl(ReportGenerator.downloadPath(report.id)).url : null,
+      expiresAt: report.expiresAt,
+      errorMessage: report.errorMessage,
+      createdAt: report.createdAt,
+      completedAt: report.completedAt,
+    };
+  }
+
+  /**
+   * Open a completed report's file for streaming. Resolves to null when the
+   * report has not finished, has expired or its file is gone from storage.
+   */
+  async openReportFile(reportId: string): Promise<{ fileName: string; mimeType: string; stream: Readable } | null> {
+    const report = await this.prisma.analyticsReport.findUnique({
+      where: { id: reportId },
+    });
+
+    if (!report || report.status !== ExportStatus.COMPLETED || !report.storageKey) {
+      return null;
+    }
+
+    const stream = await this.storage.getStream(report.storageKey);
+    if (!stream) {
+      return null;
+    }
+
+    return {
+      fileName: report.fileName!,
+      mimeType: report.mimeType || 'application/octet-stream',
+      stream,
+    };
+  }
+
+  /**
+   * Delete the files of reports past their retention period
+   */
+  async cleanupExpiredReports(): Promise<void> {
+    const expiredReports = await this.prisma.analyticsReport.findMany({
+      where: {
+        status: ExportStatus.COMPLETED,
+        expiresAt: { lt: new Date() },
+      },
+    });
+
+    for (const report of expiredReports) {
+      try {
+        if (report.storageKey) {
+          await this.storage.delete(report.storageKey);
+        }
+
+        await this.prisma.analyticsReport.update({
+          where: { id: report.id },
+          data: {
+            status: ExportStatus.EXPIRED,
+            storageKey: null,
+          },
+        });
+      } catch (error) {
+        console.error(`Failed to cleanup report ${report.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Build, render and store a report, recording the outcome on its record
+   */
+  private async processReport(reportId: string, config: ReportConfig) {
     try {
+      await this.prisma.analyticsReport.update({
+        where: { id: reportId },
+        data: { status: ExportStatus.PROCESSING },
+      });
+
       // Generate the report data
       const reportData = await this.buildReportData(config);
 
-      // Create report record
-      const reportRecord = await this.createReportRecord(config, reportData);
-
-      // Generate the file if not JSON format
-      let filePath: string | undefined;
-      if (config.format !== 'json') {
-        filePath = await this.generateReportFile(config, reportData, reportRecord.id);
-      }
+      const { extension, mimeType } = REPORT_FILE_TYPES[config.format];
+      const fileName = `analytics-report-${reportId}.${extension}`;
+      const body = await this.renderReportFile(config, reportData);
+      const storageKey = `reports/${config.organizationId}/${reportId}/${fileName}`;
+      await this.storage.put(storageKey, body, mimeType);
+
+      await this.prisma.analyticsReport.update({
+        where: { id: reportId },
+        data: {
+          status: ExportStatus.COMPLETED,
+          fileName,
+          fileSize: Buffer.isBuffer(body) ? body.length : Buffer.byteLength(body),
+          mimeType,
+          storageKey,
+          expiresAt: addDays(new Date(), appConfig.storage.retentionDays),
+          completedAt: new Date(),
+        },
+      });
 
       return {
-        reportId: reportRecord.id,
+        reportId,
         data: reportData,
-        filePath,
+        storageKey,
       };
     } catch (error: any) {
       console.error('Error generating report:', error);
+
+      await this.prisma.analyticsReport.update({
+        where: { id: reportId },
+        data: {
+          status: ExportStatus.FAILED,
+          errorMessage: error.message,
+        },
+      });
+
       throw new Error(`Failed to generate report: ${error.message}`);
     }
   }
@@ -143,6 +291,7 @@ export class ReportGenerator {
     const reportData: ReportData = {
       metadata: {
         organizationId,
+        organizationName: organization?.name || organizationId,
         reportType: config.reportType,
         generatedAt: new Date(),
         period: {
@@ -307,60 +456,131 @@ export class ReportGenerator {
   }
 
   /**
-   * Generate report file in requested format
+   * Render report file in requested format
    */
-  private async generateReportFile(
-    config: ReportConfig, 
-    data: ReportData, 
-    reportId: string
-  ): Promise<string> {
-    const reportsDir = path.join(process.cwd(), 'reports');
-    if (!fs.existsSync(reportsDir)) {
-      fs.mkdirSync(reportsDir, { recursive: true });
-    }
-
-    const filename = `analytics-report-${reportId}-${Date.now()}`;
-    let filePath: string;
-
+  private async renderReportFile(config: ReportConfig, data: ReportData): Promise<Buffer | string> {
     switch (config.format) {
       case 'pdf':
-        filePath = path.join(reportsDir, `${filename}.pdf`);
-        await this.generatePDFReport(data, filePath, config.includeCharts);
-        break;
+        return this.generatePDFReport(data, config.includeCharts);
       case 'csv':
-        filePath = path.join(reportsDir, `${filename}.csv`);
-        await this.generateCSVReport(data, filePath);
-        break;
+        return this.generateCSVReport(data);
       case 'excel':
-        filePath = path.join(reportsDir, `${filename}.xlsx`);
-        await this.generateExcelReport(data, filePath, config.includeCharts);
-        break;
+        return this.generateExcelReport(data, config.includeCharts);
       default:
-        filePath = path.join(reportsDir, `${filename}.json`);
-        await this.generateJSONReport(data, filePath);
+        return this.generateJSONReport(data);
     }
-
-    return filePath;
   }
 
   /**
    * Generate PDF report
    */
-  private async generatePDFReport(data: ReportData, filePath: string, includeCharts: boolean) {
-    // For PDF generation, you would typically use libraries like puppeteer or pdfkit
-    // This is a simplified implementation
-    const htmlContent = this.generateHTMLReport(data, includeCharts);
-    
-    // Simulate PDF generation - in real implementation, use puppeteer or similar
-    fs.writeFileSync(filePath.replace('.pdf', '.html'), htmlContent);
-    
-    console.log(`PDF report generated: ${filePath}`);
+  private async generatePDFReport(data: ReportData, includeCharts: boolean): Promise<Buffer> {
+    const { metadata, executive_summary: summary, detailed_metrics: metrics } = data;
+    const period = `${format(metadata.period.start, 'MMM d, yyyy')} – ${format(metadata.period.end, 'MMM d, yyyy')}`;
+    const pdf = new PdfReportBuilder({ name: metadata.organizationName }, `Analytics Report – ${metadata.organizationName}`);
+
+    pdf.cover('Analytics Report', `${metadata.reportType.charAt(0).toUpperCase()}${metadata.reportType.slice(1)} report`, [
+      ['Period', period],
+      ['Platforms', metadata.platforms.join(', ')],
+      ['Generated', format(metadata.generatedAt, 'MMM d, yyyy HH:mm')],
+    ]);
+
+    pdf.heading('Executive Summary').metricCards([
+      { label: 'Posts', value: summary.key_metrics.total_posts.toLocaleString() },
+      { label: 'Impressions', value: formatCompact(summary.key_metrics.total_impressions) },
+      { label: 'Engagements', value: formatCompact(summary.key_metrics.total_engagements) },
+      { label: 'Avg. engagement rate', value: `${summary.key_metrics.average_engagement_rate.toFixed(2)}%` },
+      { label: 'Best platform', value: summary.key_metrics.best_performing_platform },
+      { label: 'Growth', value: `${summary.key_metrics.growth_rate.toFixed(1)}%` },
+    ]);
+    if (summary.highlights.length > 0) {
+      pdf.bullets(summary.highlights);
+    }
+
+    pdf.heading('Platform Performance').table(
+      [
+        { header: 'Platform', width: 0.28 },
+        { header: 'Posts', width: 0.14, align: 'right' },
+        { header: 'Impressions', width: 0.2, align: 'right' },
+        { header: 'Engagements', width: 0.2, align: 'right' },
+        { header: 'Engagement rate', width: 0.18, align: 'right' },
+      ],
+      metrics.platform_performance.map(platform => [
+        platform.platform,
+        platform.posts.toLocaleString(),
+        platform.impressions.toLocaleString(),
+        platform.engagements.toLocaleString(),
+        `${platform.engagement_rate.toFixed(2)}%`,
+      ])
+    );
+
+    if (includeCharts && data.charts) {
+      pdf.heading('Visual Analytics');
+      pdf.lineChart('Engagement rate over time (%)', this.toChartSeries(data.charts.engagement_over_time));
+      pdf.barChart('Engagement rate by platform (%)', this.toChartSeries(data.charts.platform_comparison));
+    }
+
+    pdf.heading('Content Performance').table(
+      [
+        { header: 'Content type', width: 0.5 },
+        { header: 'Posts', width: 0.25, align: 'right' },
+        { header: 'Avg. engagement rate', width: 0.25, align: 'right' },
+      ],
+      metrics.content_performance.map(content => [
+        content.content_type,
+        content.posts.toLocaleString(),
+        `${content.avg_engagement_rate.toFixed(2)}%`,
+      ])
+    );
+
+    pdf.heading('Growth').table(
+      [
+        { header: 'Metric', width: 0.34 },
+        { header: 'Current', width: 0.18, align: 'right' },
+        { header: 'Previous', width: 0.18, align: 'right' },
+        { header: 'Change', width: 0.15, align: 'right' },
+        { header: 'Trend', width: 0.15 },
+      ],
+      metrics.growth_metrics.map(metric => [
+        metric.metric,
+        metric.current_value.toLocaleString(),
+        metric.previous_value.toLocaleString(),
+        `${metric.change_percent > 0 ? '+' : ''}${metric.change_percent.toFixed(1)}%`,
+        metric.trend,
+      ])
+    );
+
+    if (data.competitor_analysis) {
+      pdf.heading('Competitor Analysis').table(
+        [
+          { header: 'Competitor', width: 0.25 },
+          { header: 'Metric', width: 0.3 },
+          { header: 'Us', width: 0.15, align: 'right' },
+          { header: 'Them', width: 0.15, align: 'right' },
+          { header: 'Difference', width: 0.15, align: 'right' },
+        ],
+        data.competitor_analysis.competitors.flatMap(competitor =>
+          competitor.comparison_metrics.map(metric => [
+            competitor.name,
+            String(metric.metric),
+            String(metric.our_value),
+            String(metric.their_value),
+            String(metric.difference),
+          ])
+        )
+      );
+      pdf.bullets([...data.competitor_analysis.positioning, ...data.competitor_analysis.opportunities]);
+    }
+
+    pdf.heading('Recommendations').bullets(summary.recommendations);
+
+    return pdf.toBuffer();
   }
 
   /**
    * Generate CSV report
    */
-  private async generateCSVReport(data: ReportData, filePath: string) {
+  private generateCSVReport(data: ReportData): string {
     let csvContent = 'Metric,Value\n';
     
     // Add key metrics
@@ -378,137 +598,120 @@ export class ReportGenerator {
       csvContent += `${platform.platform},${platform.posts},${platform.impressions},${platform.engagements},${platform.engagement_rate}\n`;
     });
 
-    fs.writeFileSync(filePath, csvContent);
-    console.log(`CSV report generated: ${filePath}`);
+    return csvContent;
   }
 
   /**
    * Generate Excel report
    */
-  private async generateExcelReport(data: ReportData, filePath: string, includeCharts: boolean) {
-    // For Excel generation, you would use libraries like exceljs
-    // This is a simplified implementation that creates a JSON file
-    const excelData = {
-      summary: data.executive_summary,
-      detailed_metrics: data.detailed_metrics,
-      charts: includeCharts ? data.charts : undefined,
-    };
+  private async generateExcelReport(data: ReportData, includeCharts: boolean): Promise<Buffer> {
+    const workbook = createWorkbook(data.metadata.organizationName);
+    const keyMetrics = data.executive_summary.key_metrics;
+
+    addTableSheet(workbook, 'Summary', [
+      { header: 'Metric', key: 'metric', width: 32 },
+      { header: 'Value', key: 'value', width: 24 },
+    ], [
+      { metric: 'Organization', value: data.metadata.organizationName },
+      { metric: 'Report type', value: data.metadata.reportType },
+      { metric: 'Period start', value: data.metadata.period.start },
+      { metric: 'Period end', value: data.metadata.period.end },
+      { metric: 'Platforms', value: data.metadata.platforms.join(', ') },
+      { metric: 'Total posts', value: keyMetrics.total_posts },
+      { metric: 'Total impressions', value: keyMetrics.total_impressions },
+      { metric: 'Total engagements', value: keyMetrics.total_engagements },
+      { metric: 'Average engagement rate (%)', value: keyMetrics.average_engagement_rate },
+      { metric: 'Best performing platform', value: keyMetrics.best_performing_platform },
+      { metric: 'Growth rate (%)', value: keyMetrics.growth_rate },
+    ]);
+
+    addTableSheet(workbook, 'Platforms', [
+      { header: 'Platform', key: 'platform', width: 18 },
+      { header: 'Posts', key: 'posts', numFmt: '#,##0' },
+      { header: 'Impressions', key: 'impressions', numFmt: '#,##0' },
+      { header: 'Engagements', key: 'engagements', numFmt: '#,##0' },
+      { header: 'Engagement rate (%)', key: 'engagement_rate', numFmt: '0.00' },
+    ], data.detailed_metrics.platform_performance);
+
+    addTableSheet(workbook, 'Content Types', [
+      { header: 'Content type', key: 'content_type', width: 18 },
+      { header: 'Posts', key: 'posts', numFmt: '#,##0' },
+      { header: 'Avg. engagement rate (%)', key: 'avg_engagement_rate', numFmt: '0.00' },
+    ], data.detailed_metrics.content_performance);
+
+    addTableSheet(workbook, 'Growth', [
+      { header: 'Metric', key: 'metric', width: 24 },
+      { header: 'Current', key: 'current_value' },
+      { header: 'Previous', key: 'previous_value' },
+      { header: 'Change (%)', key: 'change_percent', numFmt: '0.0' },
+      { header: 'Trend', key: 'trend' },
+    ], data.detailed_metrics.growth_metrics);
+
+    if (includeCharts && data.charts) {
+      for (const [name, chart] of [
+        ['Engagement Over Time', data.charts.engagement_over_time],
+        ['Platform Comparison', data.charts.platform_comparison],
+      ] as const) {
+        const series = this.toChartSeries(chart);
+        addTableSheet(workbook, name, [
+          { header: 'Label', key: 'label', width: 20 },
+          { header: chart?.datasets?.[0]?.label || 'Value', key: 'value', numFmt: '0.00' },
+        ], series.labels.map((label, i) => ({ label, value: series.values[i] })));
+      }
+    }
 
-    fs.writeFileSync(filePath.replace('.xlsx', '.json'), JSON.stringify(excelData, null, 2));
-    console.log(`Excel report generated: ${filePath}`);
+    if (data.competitor_analysis) {
+      addTableSheet(workbook, 'Competitors', [
+        { header: 'Competitor', key: 'name', width: 20 },
+        { header: 'Metric', key: 'metric', width: 22 },
+        { header: 'Us', key: 'our_value' },
+        { header: 'Them', key: 'their_value' },
+        { header: 'Difference', key: 'difference' },
+      ], data.competitor_analysis.competitors.flatMap(competitor =>
+        competitor.comparison_metrics.map(metric => ({ name: competitor.name, ...metric }))
+      ));
+    }
+
+    addTableSheet(workbook, 'Recommendations', [
+      { header: 'Type', key: 'type', width: 16 },
+      { header: 'Text', key: 'text', width: 80 },
+    ], [
+      ...data.executive_summary.highlights.map(text => ({ type: 'Highlight', text })),
+      ...data.executive_summary.recommendations.map(text => ({ type: 'Recommendation', text })),
+    ]);
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
   }
 
   /**
    * Generate JSON report
    */
-  private async generateJSONReport(data: ReportData, filePath: string) {
-    fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
-    console.log(`JSON report generated: ${filePath}`);
+  private generateJSONReport(data: ReportData): string {
+    return JSON.stringify(data, null, 2);
   }
 
   /**
-   * Generate HTML content for PDF conversion
+   * Flatten `{ labels, datasets: [{ data }] }` chart data into one series
    */
-  private generateHTMLReport(data: ReportData, includeCharts: boolean): string {
-    return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-        <title>Analytics Report - ${data.metadata.organizationId}</title>
-        <style>
-            body { font-family: Arial, sans-serif; margin: 40px; }
-            .header { text-align: center; margin-bottom: 30px; }
-            .section { margin-bottom: 30px; }
-            .metric-grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: 20px; }
-            .metric-card { border: 1px solid #ddd; padding: 15px; border-radius: 8px; }
-            table { width: 100%; border-collapse: collapse; margin-top: 15px; }
-            th, td { padding: 10px; text-align: left; border-bottom: 1px solid #ddd; }
-            .chart-placeholder { height: 300px; background: #f5f5f5; display: flex; align-items: center; justify-content: center; margin: 20px 0; }
-        </style>
-    </head>
-    <body>
-        <div class="header">
-            <h1>Analytics Report</h1>
-            <p>Generated on ${data.metadata.generatedAt.toISOString()}</p>
-            <p>Period: ${data.metadata.period.start.toDateString()} - ${data.metadata.period.end.toDateString()}</p>
-        </div>
-
-        <div class="section">
-            <h2>Executive Summary</h2>
-            <div class="metric-grid">
-                <div class="metric-card">
-                    <h3>Total Posts</h3>
-                    <p>${data.executive_summary.key_metrics.total_posts}</p>
-                </div>
-                <div class="metric-card">
-                    <h3>Total Impressions</h3>
-                    <p>${data.executive_summary.key_metrics.total_impressions.toLocaleString()}</p>
-                </div>
-                <div class="metric-card">
-                    <h3>Engagement Rate</h3>
-                    <p>${data.executive_summary.key_metrics.average_engagement_rate.toFixed(2)}%</p>
-                </div>
-            </div>
-        </div>
-
-        <div class="section">
-            <h2>Platform Performance</h2>
-            <table>
-                <tr>
-                    <th>Platform</th>
-                    <th>Posts</th>
-                    <th>Impressions</th>
-                    <th>Engagements</th>
-                    <th>Engagement Rate</th>
-                </tr>
-                ${data.detailed_metrics.platform_performance.map(platform => `
-                    <tr>
-                        <td>${platform.platform}</td>
-                        <td>${platform.posts}</td>
-                        <td>${platform.impressions.toLocaleString()}</td>
-                        <td>${platform.engagements.toLocaleString()}</td>
-                        <td>${platform.engagement_rate.toFixed(2)}%</td>
-                    </tr>
-                `).join('')}
-            </table>
-        </div>
-
-        ${includeCharts ? `
-        <div class="section">
-            <h2>Visual Analytics</h2>
-            <div class="chart-placeholder">Engagement Over Time Chart</div>
-            <div class="chart-placeholder">Platform Comparison Chart</div>
-        </div>
-        ` : ''}
-
-        <div class="section">
-            <h2>Recommendations</h2>
-            <ul>
-                ${data.executive_summary.recommendations.map(rec => `<li>${rec}</li>`).join('')}
-            </ul>
-        </div>
-    </body>
-    </html>
-    `;
+  private toChartSeries(chart: any): { labels: string[]; values: number[] } {
+    const labels: string[] = (chart?.labels || []).map(String);
+    const values: number[] = (chart?.datasets?.[0]?.data || []).map((value: unknown) => Number(value) || 0);
+    return { labels: labels.slice(0, values.length), values: values.slice(0, labels.length) };
   }
 
   /**
    * Create report record in database
    */
-  private async createReportRecord(config: ReportConfig, data: ReportData) {
-    // In a real implementation, you'd have a dedicated reports table
-    // For now, using analytics table as placeholder
-    return await this.prisma.analytics.create({
+  private async createReportRecord(config: ReportConfig) {
+    return await this.prisma.analyticsReport.create({
       data: {
         organizationId: config.organizationId,
-        platform: 'TWITTER', // placeholder
-        metricType: 'ENGAGEMENT',
-        impressions: data.executive_summary.key_metrics.total_impressions,
-        likes: 0,
-        comments: 0,
-        shares: 0,
+        reportType: config.reportType,
+        format: config.format,
+        status: ExportStatus.PENDING,
         periodStart: config.startDate,
         periodEnd: config.endDate,
+        platforms: config.platforms || [],
       },
     });
   }
@@ -587,25 +790,48 @@ export class ReportGenerator {
   }
 
   private async getEngagementTimeSeriesData(filter: any) {
-    // Return chart data for engagement over time
+    const rows = await this.prisma.analytics.findMany({
+      where: filter,
+      select: { collectedAt: true, engagementRate: true },
+      orderBy: { collectedAt: 'asc' },
+    });
+
+    // Weekly average engagement rate
+    const weeks = new Map<string, { total: number; count: number }>();
+    for (const row of rows) {
+      const week = format(startOfWeek(row.collectedAt, { weekStartsOn: 1 }), 'MMM d');
+      const bucket = weeks.get(week) || { total: 0, count: 0 };
+      bucket.total += row.engagementRate || 0;
+      bucket.count++;
+      weeks.set(week, bucket);
+    }
+
     return {
-      labels: ['Week 1', 'Week 2', 'Week 3', 'Week 4'],
+      labels: Array.from(weeks.keys()),
       datasets: [
         {
           label: 'Engagement Rate',
-          data: [2.8, 3.1, 3.4, 3.7],
+          data: Array.from(weeks.values()).map(bucket => Number((bucket.total / bucket.count).toFixed(2))),
         },
       ],
     };
   }
 
   private async getPlatformComparisonData(filter: any) {
+    const platforms = await this.prisma.analytics.groupBy({
+      by: ['platform'],
+      where: filter,
+      _avg: {
+        engagementRate: true,
+      },
+    });
+
     return {
-      labels: ['Twitter', 'LinkedIn', 'Instagram'],
+      labels: platforms.map(item => item.platform),
       datasets: [
         {
           label: 'Engagement Rate',
-          data: [3.2, 4.1, 2.8],
+          data: platforms.map(item => Number((item._avg.engagementRate || 0).toFixed(2))),
         },
       ],
     };
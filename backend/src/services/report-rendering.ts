@@ -0,0 +1,479 @@
+import PDFDocument from 'pdfkit';
+import ExcelJS from 'exceljs';
+import {
+  addDays,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+
+export interface PdfBrand {
+  name: string;
+  tagline?: string;
+  primaryColor?: string;
+}
+
+export interface PdfTableColumn {
+  header: string;
+  width: number; // fraction of the content width
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface ChartSeries {
+  labels: string[];
+  values: number[];
+  colors?: string[];
+}
+
+export interface CalendarGridEntry {
+  date: Date;
+  label: string;
+  color?: string;
+}
+
+export interface SheetColumn {
+  header: string;
+  key: string;
+  width?: number;
+  numFmt?: string;
+}
+
+export const PLATFORM_COLORS: Record<string, string> = {
+  TWITTER: '#1D9BF0',
+  LINKEDIN: '#0A66C2',
+  FACEBOOK: '#1877F2',
+  INSTAGRAM: '#E1306C',
+  TIKTOK: '#111111',
+  YOUTUBE_SHORTS: '#FF0000',
+  REDDIT: '#FF4500',
+  THREADS: '#555555',
+};
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const DEFAULT_PRIMARY_COLOR = '#4F46E5';
+const TEXT_COLOR = '#1F2937';
+const MUTED_COLOR = '#6B7280';
+const RULE_COLOR = '#E5E7EB';
+const PAGE_MARGIN = 50;
+const CHART_HEIGHT = 180;
+
+/**
+ * Round up to 1, 2 or 5 times a power of ten so chart axes get readable ticks
+ */
+function niceCeiling(value: number): number {
+  if (!Number.isFinite(value) || value <= 0) {
+    return 1;
+  }
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const normalized = value / magnitude;
+  const step = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return step * magnitude;
+}
+
+export function formatCompact(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1_000_000) {
+    return `${(value / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`;
+  }
+  if (abs >= 1_000) {
+    return `${(value / 1_000).toFixed(1).replace(/\.0$/, '')}k`;
+  }
+  return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/\.?0+$/, '');
+}
+
+/**
+ * Lays out branded PDF reports with PDFKit: a cover page, headings, metric
+ * cards, paginated tables, vector charts and month-grid calendars.
+ */
+export class PdfReportBuilder {
+  private doc: PDFKit.PDFDocument;
+  private brand: PdfBrand;
+  private primaryColor: string;
+  private output: Promise<Buffer>;
+
+  constructor(brand: PdfBrand, title: string) {
+    this.brand = brand;
+    this.primaryColor = brand.primaryColor || DEFAULT_PRIMARY_COLOR;
+    this.doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: { Title: title, Author: brand.name, Creator: 'AI Promote' },
+    });
+
+    const chunks: Buffer[] = [];
+    this.output = new Promise((resolve, reject) => {
+      this.doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      this.doc.on('end', () => resolve(Buffer.concat(chunks)));
+      this.doc.on('error', reject);
+    });
+  }
+
+  private get contentWidth(): number {
+    return this.doc.page.width - PAGE_MARGIN * 2;
+  }
+
+  private get bottom(): number {
+    return this.doc.page.height - PAGE_MARGIN;
+  }
+
+  /**
+   * Start a new page unless `height` points still fit on this one
+   */
+  private ensureSpace(height: number): boolean {
+    if (this.doc.y + height > this.bottom) {
+      this.doc.addPage();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Full-bleed brand band with the title, followed by a details block. Content
+   * after the cover starts on a fresh page.
+   */
+  cover(title: string, subtitle: string, details: Array<[string, string]>): this {
+    const { doc } = this;
+    const bandHeight = 280;
+
+    doc.rect(0, 0, doc.page.width, bandHeight).fill(this.primaryColor);
+    doc.fillColor('#FFFFFF').font('Helvetica-Bold').fontSize(14)
+      .text(this.brand.name.toUpperCase(), PAGE_MARGIN, 90, { width: this.contentWidth, characterSpacing: 1.5 });
+    if (this.brand.tagline) {
+      doc.font('Helvetica').fontSize(10).text(this.brand.tagline, { width: this.contentWidth });
+    }
+    doc.font('Helvetica-Bold').fontSize(30).text(title, PAGE_MARGIN, 150, { width: this.contentWidth });
+    doc.font('Helvetica').fontSize(14).text(subtitle, { width: this.contentWidth });
+
+    let y = bandHeight + 50;
+    for (const [label, value] of details) {
+      doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(9).text(label.toUpperCase(), PAGE_MARGIN, y);
+      doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(12).text(value, PAGE_MARGIN, y + 12, { width: this.contentWidth });
+      y = doc.y + 16;
+    }
+
+    doc.addPage();
+    return this;
+  }
+
+  heading(text: string): this {
+    const { doc } = this;
+    this.ensureSpace(60);
+    doc.moveDown(0.5);
+    doc.fillColor(this.primaryColor).font('Helvetica-Bold').fontSize(16).text(text, PAGE_MARGIN, doc.y, { width: this.contentWidth });
+    const y = doc.y + 4;
+    doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + this.contentWidth, y).lineWidth(1).strokeColor(RULE_COLOR).stroke();
+    doc.y = y + 10;
+    return this;
+  }
+
+  paragraph(text: string): this {
+    this.doc.fillColor(TEXT_COLOR).font('Helvetica').fontSize(10)
+      .text(text, PAGE_MARGIN, this.doc.y, { width: this.contentWidth });
+    this.doc.moveDown(0.5);
+    return this;
+  }
+
+  bullets(items: string[]): this {
+    for (const item of items) {
+      this.ensureSpace(20);
+      this.doc.fillColor(TEXT_COLOR).font('Helvetica').fontSize(10)
+        .text(`•  ${item}`, PAGE_MARGIN + 8, this.doc.y, { width: this.contentWidth - 8 });
+      this.doc.moveDown(0.25);
+    }
+    this.doc.moveDown(0.5);
+    return this;
+  }
+
+  /**
+   * Row(s) of up to three bordered cards with a label and a large value
+   */
+  metricCards(cards: Array<{ label: string; value: string }>): this {
+    const { doc } = this;
+    const perRow = 3;
+    const gap = 12;
+    const cardWidth = (this.contentWidth - gap * (perRow - 1)) / perRow;
+    const cardHeight = 58;
+
+    for (let i = 0; i < cards.length; i += perRow) {
+      this.ensureSpace(cardHeight + gap);
+      const y = doc.y;
+      cards.slice(i, i + perRow).forEach((card, index) => {
+        const x = PAGE_MARGIN + index * (cardWidth + gap);
+        doc.roundedRect(x, y, cardWidth, cardHeight, 6).lineWidth(1).strokeColor(RULE_COLOR).stroke();
+        doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(8)
+          .text(card.label.toUpperCase(), x + 10, y + 10, { width: cardWidth - 20, height: 10, ellipsis: true });
+        doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(18)
+          .text(card.value, x + 10, y + 26, { width: cardWidth - 20, height: 22, ellipsis: true });
+      });
+      doc.y = y + cardHeight + gap;
+    }
+    return this;
+  }
+
+  /**
+   * Zebra-striped table; the header row repeats when rows spill onto a new page
+   */
+  table(columns: PdfTableColumn[], rows: string[][]): this {
+    const { doc } = this;
+    const padding = 5;
+    const widths = columns.map(column => column.width * this.contentWidth);
+
+    const drawRow = (cells: string[], header: boolean, shaded: boolean) => {
+      doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(header ? 9 : 8.5);
+      const height = Math.max(...cells.map((cell, i) =>
+        doc.heightOfString(cell || '', { width: widths[i] - padding * 2 }))) + padding * 2;
+
+      const newPage = this.ensureSpace(height);
+      if (newPage && !header) {
+        drawRow(columns.map(column => column.header), true, false);
+      }
+
+      const y = doc.y;
+      if (header || shaded) {
+        doc.rect(PAGE_MARGIN, y, this.contentWidth, height).fill(header ? this.primaryColor : '#F5F5F7');
+      }
+
+      let x = PAGE_MARGIN;
+      cells.forEach((cell, i) => {
+        doc.fillColor(header ? '#FFFFFF' : TEXT_COLOR)
+          .font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(header ? 9 : 8.5)
+          .text(cell || '', x + padding, y + padding, { width: widths[i] - padding * 2, align: columns[i].align || 'left' });
+        x += widths[i];
+      });
+      doc.y = y + height;
+    };
+
+    this.ensureSpace(50);
+    drawRow(columns.map(column => column.header), true, false);
+    if (rows.length === 0) {
+      drawRow(['No data for this period', ...columns.slice(1).map(() => '')], false, false);
+    }
+    rows.forEach((row, index) => drawRow(row, false, index % 2 === 1));
+    doc.moveDown(1);
+    return this;
+  }
+
+  lineChart(title: string, series: ChartSeries): this {
+    return this.chart(title, series, (area, max) => {
+      const { doc } = this;
+      const step = series.values.length > 1 ? area.width / (series.values.length - 1) : 0;
+      const points = series.values.map((value, i) => ({
+        x: area.x + (series.values.length > 1 ? i * step : area.width / 2),
+        y: area.y + area.height - (value / max) * area.height,
+      }));
+
+      doc.moveTo(points[0].x, points[0].y);
+      points.slice(1).forEach(point => doc.lineTo(point.x, point.y));
+      doc.lineWidth(2).strokeColor(this.primaryColor).stroke();
+      points.forEach(point => doc.circle(point.x, point.y, 2.5).fill(this.primaryColor));
+
+      return points.map(point => point.x);
+    });
+  }
+
+  barChart(title: string, series: ChartSeries): this {
+    return this.chart(title, series, (area, max) => {
+      const { doc } = this;
+      const slot = area.width / series.values.length;
+      const barWidth = Math.min(slot * 0.6, 60);
+
+      return series.values.map((value, i) => {
+        const center = area.x + slot * i + slot / 2;
+        const height = (value / max) * area.height;
+        doc.rect(center - barWidth / 2, area.y + area.height - height, barWidth, height)
+          .fill(series.colors?.[i] || PLATFORM_COLORS[series.labels[i]] || this.primaryColor);
+        return center;
+      });
+    });
+  }
+
+  /**
+   * Shared frame for charts: title, y-axis gridlines and x-axis labels.
+   * `plot` draws the series and returns the x position of each label.
+   */
+  private chart(
+    title: string,
+    series: ChartSeries,
+    plot: (area: { x: number; y: number; width: number; height: number }, max: number) => number[]
+  ): this {
+    const { doc } = this;
+    this.ensureSpace(CHART_HEIGHT + 70);
+
+    doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(11).text(title, PAGE_MARGIN, doc.y);
+    const top = doc.y + 10;
+
+    if (series.values.length === 0) {
+      doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(9).text('No data for this period', PAGE_MARGIN, top);
+      doc.moveDown(1.5);
+      return this;
+    }
+
+    const area = { x: PAGE_MARGIN + 40, y: top, width: this.contentWidth - 50, height: CHART_HEIGHT };
+    const max = niceCeiling(Math.max(...series.values));
+    const ticks = 5;
+
+    for (let i = 0; i <= ticks; i++) {
+      const value = (max / ticks) * i;
+      const y = area.y + area.height - (area.height / ticks) * i;
+      doc.moveTo(area.x, y).lineTo(area.x + area.width, y).lineWidth(0.5).strokeColor(RULE_COLOR).stroke();
+      doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(7)
+        .text(formatCompact(value), PAGE_MARGIN, y - 3, { width: 34, align: 'right' });
+    }
+
+    const positions = plot(area, max);
+
+    // Thin out labels so they never overlap
+    const labelWidth = 50;
+    const every = Math.max(1, Math.ceil((labelWidth * positions.length) / area.width));
+    positions.forEach((x, i) => {
+      if (i % every === 0) {
+        doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(7)
+          .text(series.labels[i] || '', x - labelWidth / 2, area.y + area.height + 6, {
+            width: labelWidth,
+            height: 9,
+            align: 'center',
+            ellipsis: true,
+          });
+      }
+    });
+
+    doc.y = area.y + area.height + 30;
+    doc.x = PAGE_MARGIN;
+    return this;
+  }
+
+  /**
+   * One page per month: a Monday-first grid with each day's entries, trimmed
+   * to what fits in the cell with a "+N more" line.
+   */
+  monthGrid(month: Date, entries: CalendarGridEntry[]): this {
+    const { doc } = this;
+    doc.addPage();
+
+    doc.fillColor(this.primaryColor).font('Helvetica-Bold').fontSize(18)
+      .text(format(month, 'MMMM yyyy'), PAGE_MARGIN, PAGE_MARGIN, { width: this.contentWidth });
+
+    const gridStart = startOfWeek(startOfMonth(month), { weekStartsOn: 1 });
+    const gridEnd = endOfWeek(endOfMonth(month), { weekStartsOn: 1 });
+    const days = eachDayOfInterval({ start: gridStart, end: gridEnd });
+    const weeks = days.length / 7;
+
+    const cellWidth = this.contentWidth / 7;
+    const headerY = doc.y + 10;
+    const gridTop = headerY + 16;
+    const cellHeight = Math.min(120, (this.bottom - gridTop) / weeks);
+    const lineHeight = 10;
+
+    for (let i = 0; i < 7; i++) {
+      doc.fillColor(MUTED_COLOR).font('Helvetica-Bold').fontSize(8)
+        .text(format(addDays(gridStart, i), 'EEE'), PAGE_MARGIN + i * cellWidth, headerY, { width: cellWidth, align: 'center' });
+    }
+
+    days.forEach((day, index) => {
+      const x = PAGE_MARGIN + (index % 7) * cellWidth;
+      const y = gridTop + Math.floor(index / 7) * cellHeight;
+      const inMonth = isSameMonth(day, month);
+
+      if (!inMonth) {
+        doc.rect(x, y, cellWidth, cellHeight).fill('#FAFAFA');
+      }
+      doc.rect(x, y, cellWidth, cellHeight).lineWidth(0.5).strokeColor(RULE_COLOR).stroke();
+      doc.fillColor(inMonth ? TEXT_COLOR : '#C0C4CC').font('Helvetica-Bold').fontSize(8)
+        .text(format(day, 'd'), x + 4, y + 4, { width: cellWidth - 8, lineBreak: false });
+
+      if (!inMonth) {
+        return;
+      }
+
+      const dayEntries = entries.filter(entry => isSameDay(entry.date, day));
+      const capacity = Math.max(0, Math.floor((cellHeight - 18) / lineHeight));
+      const visible = dayEntries.length > capacity ? dayEntries.slice(0, Math.max(0, capacity - 1)) : dayEntries;
+
+      visible.forEach((entry, i) => {
+        const entryY = y + 16 + i * lineHeight;
+        doc.circle(x + 6, entryY + 3.5, 2).fill(entry.color || this.primaryColor);
+        doc.fillColor(TEXT_COLOR).font('Helvetica').fontSize(6.5)
+          .text(entry.label, x + 11, entryY, { width: cellWidth - 14, height: lineHeight - 2, ellipsis: true });
+      });
+
+      if (visible.length < dayEntries.length) {
+        doc.fillColor(MUTED_COLOR).font('Helvetica-Oblique').fontSize(6.5)
+          .text(`+${dayEntries.length - visible.length} more`, x + 11, y + 16 + visible.length * lineHeight, {
+            width: cellWidth - 14,
+            lineBreak: false,
+          });
+      }
+    });
+
+    doc.x = PAGE_MARGIN;
+    doc.y = gridTop + weeks * cellHeight + 10;
+    return this;
+  }
+
+  /**
+   * Stamp page footers (the cover has none) and finish the document
+   */
+  async toBuffer(): Promise<Buffer> {
+    const { doc } = this;
+    const range = doc.bufferedPageRange();
+
+    for (let i = range.start + 1; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      // Writing inside the bottom margin would otherwise trigger a page break
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(8)
+        .text(`${this.brand.name}  ·  Page ${i} of ${range.count - 1}`, PAGE_MARGIN, doc.page.height - 30, {
+          width: this.contentWidth,
+          align: 'center',
+          lineBreak: false,
+        });
+      doc.page.margins.bottom = bottomMargin;
+    }
+
+    doc.end();
+    return this.output;
+  }
+}
+
+/**
+ * Add a worksheet with a bold, frozen, filterable header row
+ */
+export function addTableSheet(
+  workbook: ExcelJS.Workbook,
+  name: string,
+  columns: SheetColumn[],
+  rows: Array<Record<string, unknown>>
+): ExcelJS.Worksheet {
+  const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = columns.map(column => ({
+    header: column.header,
+    key: column.key,
+    width: column.width || Math.max(12, column.header.length + 2),
+    style: column.numFmt ? { numFmt: column.numFmt } : undefined,
+  }));
+  sheet.addRows(rows);
+
+  const header = sheet.getRow(1);
+  header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF4F46E5' } };
+  if (columns.length > 0) {
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+  }
+
+  return sheet;
+}
+
+export function createWorkbook(creator: string): ExcelJS.Workbook {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = creator;
+  workbook.created = new Date();
+  return workbook;
+}
@@ -1,8 +1,13 @@
-import { PrismaClient, Platform, ScheduleType, EventType, ConflictType, ConflictSeverity, ConflictStatus, EventStatus } from '@prisma/client';
-import { format, addDays, addWeeks, addMonths, startOfDay, endOfDay, isAfter, isBefore, parseISO } from 'date-fns';
+import { PrismaClient, Platform, ContentPiece, ScheduledPost, SocialAccount, ScheduleType, EventType, ConflictType, ConflictSeverity, ConflictStatus, EventStatus } from '@prisma/client';
+import { format, addDays, subDays, startOfDay, endOfDay, isAfter, isBefore, parseISO } from 'date-fns';
 // @ts-ignore - date-fns-tz may not have full type definitions
 import { formatInTimeZone, zonedTimeToUtc, utcToZonedTime } from 'date-fns-tz';
 import { v4 as uuidv4 } from 'uuid';
+import { RecurrenceOccurrence, assertTimeZone, expandRecurrence, legacyToRRule, normalizeRRule } from './recurrence-rules';
+import { EngagementObservation, estimatePostingTimes } from './posting-time-model';
+import { ContentSimilarityService } from './content-similarity';
+import { PublishingQueueService } from './publishing-queue';
+import { ValidationError } from '../utils/errors';
 
 interface OptimalTimeAnalysis {
   organizationId: string;
@@ -14,13 +19,16 @@ interface OptimalTimeAnalysis {
 interface OptimalTimeResult {
   dayOfWeek: number;
   hour: number;
-  score: number;
-  confidence: number;
+  score: number; // Expected engagement relative to the best slot, 0-1
+  confidence: number; // Share of the estimate that comes from the org's own posts, 0-1
+  expectedEngagement: number; // Posterior mean engagement rate (%)
+  credibleInterval: { lower: number; upper: number }; // 90% credible interval
   metrics: {
     avgEngagement: number;
     avgReach: number;
     avgClicks: number;
     sampleSize: number;
+    priorEngagement: number;
   };
 }
 
@@ -36,19 +44,25 @@ interface BulkScheduleRequest {
   timeZone: string;
 }
 
-interface RecurringScheduleRequest {
-  organizationId: string;
-  templateId: string;
-  contentPieceIds: string[];
-  frequency: 'daily' | 'weekly' | 'monthly';
-  interval: number;
+export interface RecurrencePattern {
+  rrule?: string; // RFC 5545 RRULE value, e.g. FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1
+  exdates?: string[]; // Local yyyy-MM-dd days or yyyy-MM-ddTHH:mm slots to skip
+  // Used to build an RRULE when none is given
+  frequency?: 'daily' | 'weekly' | 'monthly';
+  interval?: number;
   daysOfWeek?: number[]; // 0=Sunday, 1=Monday, etc.
   timeslots: Array<{ hour: number; minute: number }>;
-  startDate: Date;
-  endDate?: Date;
+  startDate: Date | string; // Strings without an offset are read in timeZone
+  endDate?: Date | string;
   timeZone: string;
 }
 
+interface RecurringScheduleRequest extends RecurrencePattern {
+  organizationId: string;
+  templateId: string;
+  contentPieceIds: string[];
+}
+
 interface ConflictDetectionOptions {
   organizationId: string;
   timeRange: { start: Date; end: Date };
@@ -56,6 +70,60 @@ interface ConflictDetectionOptions {
   checkTypes: ConflictType[];
 }
 
+export interface DetectedConflict {
+  type: ConflictType;
+  severity: ConflictSeverity;
+  description: string;
+  affectedTime: Date;
+  relatedPosts: string[];
+  metadata?: Record<string, any>; // excess: how many related posts have to move, plus detector details
+}
+
+export interface PlatformApiQuota {
+  maxPosts: number;
+  windowMinutes: number;
+}
+
+export const MAX_POSTS_PER_HOUR = 3;
+
+export const PLATFORM_DAILY_LIMITS: Record<Platform, number> = {
+  TWITTER: 50,
+  LINKEDIN: 20,
+  INSTAGRAM: 25,
+  FACEBOOK: 25,
+  TIKTOK: 10,
+  YOUTUBE_SHORTS: 5,
+  REDDIT: 10,
+  THREADS: 30,
+};
+
+// Publishing quotas of each platform's API, per connected account, over a rolling window
+export const PLATFORM_API_QUOTAS: Record<Platform, PlatformApiQuota> = {
+  TWITTER: { maxPosts: 300, windowMinutes: 180 },
+  LINKEDIN: { maxPosts: 150, windowMinutes: 24 * 60 },
+  INSTAGRAM: { maxPosts: 50, windowMinutes: 24 * 60 },
+  FACEBOOK: { maxPosts: 25, windowMinutes: 60 },
+  TIKTOK: { maxPosts: 15, windowMinutes: 24 * 60 },
+  YOUTUBE_SHORTS: { maxPosts: 6, windowMinutes: 24 * 60 }, // 10,000 daily quota units at 1,600 per upload
+  REDDIT: { maxPosts: 1, windowMinutes: 10 },
+  THREADS: { maxPosts: 250, windowMinutes: 24 * 60 },
+};
+
+// Posts per rolling 24 hours an audience tolerates before engagement drops off
+export const PLATFORM_FATIGUE_THRESHOLDS: Record<Platform, number> = {
+  TWITTER: 15,
+  LINKEDIN: 2,
+  INSTAGRAM: 3,
+  FACEBOOK: 3,
+  TIKTOK: 4,
+  YOUTUBE_SHORTS: 3,
+  REDDIT: 2,
+  THREADS: 10,
+};
+
+// Posting density baseline for audience fatigue
+const FATIGUE_BASELINE_DAYS = 28;
+
 interface CalendarEvent {
   id?: string;
   title: string;
@@ -78,118 +146,94 @@ interface DragDropUpdate {
 }
 
 export class SchedulingService {
-  constructor(private prisma: PrismaClient) {}
+  constructor(
+    private prisma: PrismaClient,
+    private contentSimilarity: ContentSimilarityService = new ContentSimilarityService(prisma),
+    private publishingQueue: PublishingQueueService = new PublishingQueueService(prisma)
+  ) {}
 
   /**
-   * Analyze optimal posting times for an organization and platform
+   * Analyze optimal posting times for an organization and platform. Every
+   * hour of the week is scored, so organizations without history still get a
+   * ranking from the platform and industry priors.
    */
   async analyzeOptimalPostingTimes(options: OptimalTimeAnalysis): Promise<OptimalTimeResult[]> {
     const { organizationId, platform, timeZone, analysisWindow } = options;
+    assertTimeZone(timeZone);
     
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - analysisWindow);
     
-    // Get historical analytics data
-    const analytics = await this.prisma.analytics.findMany({
-      where: {
-        organizationId,
-        platform,
-        collectedAt: {
-          gte: startDate,
+    const [organization, accounts, analytics] = await Promise.all([
+      this.prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { category: true },
+      }),
+      this.prisma.socialAccount.findMany({
+        where: { organizationId, platform, isActive: true },
+        select: { audienceTimeZones: true, followersCount: true },
+      }),
+      // Get historical analytics data
+      this.prisma.analytics.findMany({
+        where: {
+          organizationId,
+          platform,
+          scheduledPostId: { not: null },
+          collectedAt: {
+            gte: startDate,
+          },
         },
-      },
-      include: {
-        scheduledPost: true,
-      },
-    });
-
-    // Group by day of week and hour
-    const timeSlotData = new Map<string, {
-      engagement: number[];
-      reach: number[];
-      clicks: number[];
-      count: number;
-    }>();
+        include: {
+          scheduledPost: true,
+        },
+        orderBy: { collectedAt: 'asc' },
+      }),
+    ]);
 
+    // Analytics are collected repeatedly; the latest snapshot stands for each post
+    const latestByPost = new Map<string, EngagementObservation>();
     for (const analytic of analytics) {
       if (!analytic.scheduledPost?.scheduledAt) continue;
-      
-      const scheduledTime = utcToZonedTime(analytic.scheduledPost.scheduledAt, timeZone);
-      const dayOfWeek = scheduledTime.getDay();
-      const hour = scheduledTime.getHours();
-      const key = `${dayOfWeek}-${hour}`;
-      
-      if (!timeSlotData.has(key)) {
-        timeSlotData.set(key, {
-          engagement: [],
-          reach: [],
-          clicks: [],
-          count: 0,
-        });
-      }
-      
-      const data = timeSlotData.get(key)!;
-      data.engagement.push(analytic.engagementRate || 0);
-      data.reach.push(analytic.reach);
-      data.clicks.push(analytic.clicks);
-      data.count++;
-    }
-
-    // Calculate scores for each time slot
-    const results: OptimalTimeResult[] = [];
-    
-    for (const [key, data] of timeSlotData.entries()) {
-      if (data.count < 3) continue; // Need minimum sample size
-      
-      const [dayOfWeek, hour] = key.split('-').map(Number);
-      
-      const avgEngagement = data.engagement.reduce((sum, val) => sum + val, 0) / data.count;
-      const avgReach = data.reach.reduce((sum, val) => sum + val, 0) / data.count;
-      const avgClicks = data.clicks.reduce((sum, val) => sum + val, 0) / data.count;
-      
-      // Calculate composite score (weighted average)
-      const score = (avgEngagement * 0.5) + (avgReach * 0.0001) + (avgClicks * 0.01);
-      const confidence = Math.min(data.count / 10, 1); // Max confidence at 10+ samples
-      
-      results.push({
-        dayOfWeek,
-        hour,
-        score: Math.min(score, 1),
-        confidence,
-        metrics: {
-          avgEngagement,
-          avgReach,
-          avgClicks,
-          sampleSize: data.count,
-        },
+      latestByPost.set(analytic.scheduledPost.id, {
+        scheduledAt: analytic.scheduledPost.scheduledAt,
+        engagementRate: analytic.engagementRate || 0,
+        reach: analytic.reach,
+        clicks: analytic.clicks,
       });
     }
 
-    // Sort by score descending
-    results.sort((a, b) => b.score - a.score);
+    const estimates = estimatePostingTimes({
+      platform,
+      timeZone,
+      observations: [...latestByPost.values()],
+      industry: organization?.category,
+      audienceTimeZones: mergeAudienceTimeZones(accounts),
+    });
+
+    const results: OptimalTimeResult[] = estimates.map(estimate => ({
+      dayOfWeek: estimate.dayOfWeek,
+      hour: estimate.hour,
+      score: estimate.score,
+      confidence: estimate.dataWeight,
+      expectedEngagement: estimate.expectedEngagement,
+      credibleInterval: estimate.credibleInterval,
+      metrics: {
+        avgEngagement: estimate.avgEngagement,
+        avgReach: estimate.avgReach,
+        avgClicks: estimate.avgClicks,
+        sampleSize: estimate.sampleSize,
+        priorEngagement: estimate.priorEngagement,
+      },
+    }));
     
-    // Store in database
-    for (const result of results) {
-      await this.prisma.optimalPostingTime.upsert({
-        where: {
-          organizationId_platform_dayOfWeek_hour_timeZone: {
-            organizationId,
-            platform,
-            dayOfWeek: result.dayOfWeek,
-            hour: result.hour,
-            timeZone,
-          },
-        },
-        update: {
-          score: result.score,
-          avgEngagement: result.metrics.avgEngagement,
-          avgReach: result.metrics.avgReach,
-          avgClicks: result.metrics.avgClicks,
-          sampleSize: result.metrics.sampleSize,
-          confidence: result.confidence,
-          lastAnalyzed: new Date(),
-        },
-        create: {
+    // Replace the stored analysis for this platform and time zone
+    const lastAnalyzed = new Date();
+    await this.prisma.$transaction([
+      this.prisma.optimalPostingTime.deleteMany({
+        where: { organizationId, platform, timeZone },
+      }),
+      this.prisma.optimalPostingTime.createMany({
+        data: results.map(result => ({
           organizationId,
           platform,
           dayOfWeek: result.dayOfWeek,
@@ -201,14 +245,65 @@ export class SchedulingService {
           avgClicks: result.metrics.avgClicks,
           sampleSize: result.metrics.sampleSize,
           confidence: result.confidence,
-          lastAnalyzed: new Date(),
-        },
-      });
-    }
+          expectedEngagement: result.expectedEngagement,
+          credibleLow: result.credibleInterval.lower,
+          credibleHigh: result.credibleInterval.upper,
+          priorEngagement: result.metrics.priorEngagement,
+          lastAnalyzed,
+        })),
+      }),
+    ]);
 
     return results;
   }
 
+  /**
+   * Re-run the posting time analysis for every platform an organization has
+   * connected, in each time zone it schedules in. Called nightly by the
+   * posting time worker; returns how many analyses were refreshed.
+   */
+  async refreshOptimalPostingTimes(analysisWindow: number = 90): Promise<number> {
+    const [stored, templates, accounts] = await Promise.all([
+      this.prisma.optimalPostingTime.findMany({
+        distinct: ['organizationId', 'platform', 'timeZone'],
+        select: { organizationId: true, platform: true, timeZone: true },
+      }),
+      this.prisma.scheduleTemplate.findMany({
+        where: { isActive: true },
+        distinct: ['organizationId', 'timeZone'],
+        select: { organizationId: true, timeZone: true },
+      }),
+      this.prisma.socialAccount.findMany({
+        where: { isActive: true },
+        distinct: ['organizationId', 'platform'],
+        select: { organizationId: true, platform: true },
+      }),
+    ]);
+
+    const targets = new Map<string, OptimalTimeAnalysis>();
+    const addTarget = (organizationId: string, platform: Platform, timeZone: string) => {
+      targets.set(`${organizationId}:${platform}:${timeZone}`, { organizationId, platform, timeZone, analysisWindow });
+    };
+    stored.forEach(row => addTarget(row.organizationId, row.platform, row.timeZone));
+    for (const template of templates) {
+      accounts
+        .filter(account => account.organizationId === template.organizationId)
+        .forEach(account => addTarget(account.organizationId, account.platform, template.timeZone));
+    }
+
+    let refreshed = 0;
+    for (const target of targets.values()) {
+      try {
+        await this.analyzeOptimalPostingTimes(target);
+        refreshed++;
+      } catch (error) {
+        console.error(`Failed to refresh posting times for ${target.organizationId} ${target.platform} ${target.timeZone}:`, error);
+      }
+    }
+
+    return refreshed;
+  }
+
   /**
    * Get optimal posting time suggestions
    */
@@ -236,11 +331,14 @@ export class SchedulingService {
       hour: time.hour,
       score: time.score,
       confidence: time.confidence,
+      expectedEngagement: time.expectedEngagement,
+      credibleInterval: { lower: time.credibleLow, upper: time.credibleHigh },
       metrics: {
         avgEngagement: time.avgEngagement,
         avgReach: time.avgReach,
         avgClicks: time.avgClicks,
         sampleSize: time.sampleSize,
+        priorEngagement: time.priorEngagement,
       },
     }));
   }
@@ -291,7 +389,16 @@ export class SchedulingService {
     
     if (distribution === 'optimal') {
       // Use optimal posting times
-      const optimalTimes = await this.getOptimalPostingTimes(organizationId, platforms[0], timeZone, 20);
+      let optimalTimes = await this.getOptimalPostingTimes(organizationId, platforms[0], timeZone, 20);
+      if (optimalTimes.length === 0) {
+        // Nothing analyzed yet for this time zone; the priors still rank every slot
+        optimalTimes = (await this.analyzeOptimalPostingTimes({
+          organizationId,
+          platform: platforms[0],
+          timeZone,
+          analysisWindow: 90,
+        })).slice(0, 20);
+      }
       scheduledTimes = this.generateOptimalSchedule(startDate, endDate, optimalTimes, timeZone, spacing);
     } else {
       // Use provided time slots
@@ -326,6 +433,7 @@ export class SchedulingService {
             idempotencyKey: uuidv4(),
           },
         });
+        await this.publishingQueue.syncJob(scheduledPost);
 
         scheduledPostIds.push(scheduledPost.id);
         
@@ -357,47 +465,34 @@ export class SchedulingService {
   async createRecurringSchedule(request: RecurringScheduleRequest): Promise<string[]> {
     const {
       organizationId,
-      templateId,
       contentPieceIds,
-      frequency,
-      interval,
-      daysOfWeek,
       timeslots,
-      startDate,
-      endDate,
       timeZone,
     } = request;
 
+    const rrule = this.recurrenceRule(request);
+    const occurrences = expandRecurrence({ ...request, rrule });
+
     // Create schedule template
     const template = await this.prisma.scheduleTemplate.create({
       data: {
         organizationId,
-        name: `Recurring ${frequency} schedule`,
+        name: `Recurring ${request.frequency || 'custom'} schedule`,
         scheduleType: ScheduleType.RECURRING,
         platforms: [],
         timeZone,
+        rrule,
+        exdates: request.exdates || [],
         recurringConfig: {
-          frequency,
-          interval,
-          daysOfWeek,
           timeslots,
-          endDate: endDate?.toISOString(),
+          startDate: request.startDate instanceof Date ? request.startDate.toISOString() : request.startDate,
+          endDate: request.endDate instanceof Date ? request.endDate.toISOString() : request.endDate,
         },
         isActive: true,
       },
     });
 
-    // Generate recurring dates
-    const recurringDates = this.generateRecurringDates(
-      startDate,
-      endDate,
-      frequency,
-      interval,
-      daysOfWeek,
-      timeZone
-    );
-
-    // Create scheduled posts for each date and timeslot
+    // Create scheduled posts for each occurrence
     const scheduledPostIds: string[] = [];
     const contentPieces = await this.prisma.contentPiece.findMany({
       where: {
@@ -406,65 +501,82 @@ export class SchedulingService {
       },
     });
 
+    if (contentPieces.length === 0) {
+      return scheduledPostIds;
+    }
+
     let contentIndex = 0;
     
-    for (const date of recurringDates) {
-      for (const timeslot of timeslots) {
-        const scheduledAt = new Date(date);
-        scheduledAt.setHours(timeslot.hour, timeslot.minute, 0, 0);
-        
-        const content = contentPieces[contentIndex % contentPieces.length];
-        
-        // Get social account for this platform
-        const socialAccount = await this.prisma.socialAccount.findFirst({
-          where: {
-            organizationId,
-            platform: content.platform,
-            isActive: true,
-          },
-        });
+    for (const { scheduledAt } of occurrences) {
+      const content = contentPieces[contentIndex % contentPieces.length];
+      
+      // Get social account for this platform
+      const socialAccount = await this.prisma.socialAccount.findFirst({
+        where: {
+          organizationId,
+          platform: content.platform,
+          isActive: true,
+        },
+      });
 
-        if (!socialAccount) continue;
+      if (!socialAccount) continue;
 
-        const scheduledPost = await this.prisma.scheduledPost.create({
-          data: {
-            organizationId,
-            contentPieceId: content.id,
-            socialAccountId: socialAccount.id,
-            scheduledAt: zonedTimeToUtc(scheduledAt, timeZone),
-            status: 'SCHEDULED',
-            idempotencyKey: uuidv4(),
-            scheduleTemplateId: template.id,
-          },
-        });
+      const scheduledPost = await this.prisma.scheduledPost.create({
+        data: {
+          organizationId,
+          contentPieceId: content.id,
+          socialAccountId: socialAccount.id,
+          scheduledAt,
+          status: 'SCHEDULED',
+          idempotencyKey: uuidv4(),
+          scheduleTemplateId: template.id,
+        },
+      });
+      await this.publishingQueue.syncJob(scheduledPost);
 
-        scheduledPostIds.push(scheduledPost.id);
+      scheduledPostIds.push(scheduledPost.id);
 
-        // Create recurring calendar event
-        await this.createCalendarEvent(organizationId, {
-          title: `Recurring: ${content.title || 'Untitled'}`,
-          description: content.body.substring(0, 100) + '...',
-          startTime: scheduledAt,
-          eventType: EventType.POST_SCHEDULED,
-          timeZone,
-          tags: ['recurring', content.platform.toLowerCase()],
-          metadata: {
-            scheduledPostId: scheduledPost.id,
-            templateId: template.id,
-          },
-        });
+      // Create recurring calendar event (createCalendarEvent takes wall-clock times)
+      await this.createCalendarEvent(organizationId, {
+        title: `Recurring: ${content.title || 'Untitled'}`,
+        description: content.body.substring(0, 100) + '...',
+        startTime: utcToZonedTime(scheduledAt, timeZone),
+        eventType: EventType.POST_SCHEDULED,
+        timeZone,
+        tags: ['recurring', content.platform.toLowerCase()],
+        metadata: {
+          scheduledPostId: scheduledPost.id,
+          templateId: template.id,
+        },
+      });
 
-        contentIndex++;
-      }
+      contentIndex++;
     }
 
     return scheduledPostIds;
   }
 
+  /**
+   * Preview the next occurrences of a recurrence pattern without creating anything
+   */
+  previewRecurringSchedule(pattern: RecurrencePattern, count: number = 10): {
+    rrule: string;
+    timeZone: string;
+    occurrences: RecurrenceOccurrence[];
+  } {
+    const rrule = this.recurrenceRule(pattern);
+
+    return {
+      rrule,
+      timeZone: pattern.timeZone,
+      occurrences: expandRecurrence({ ...pattern, rrule, limit: count }),
+    };
+  }
+
   /**
    * Detect scheduling conflicts
    */
-  async detectSchedulingConflicts(options: ConflictDetectionOptions): Promise<void> {
+  async detectSchedulingConflicts(options: ConflictDetectionOptions): Promise<DetectedConflict[]> {
     const { organizationId, timeRange, platforms, checkTypes } = options;
 
     // Get existing scheduled posts in time range
@@ -483,13 +595,7 @@ export class SchedulingService {
       },
     });
 
-    const conflicts: Array<{
-      type: ConflictType;
-      severity: ConflictSeverity;
-      description: string;
-      affectedTime: Date;
-      relatedPosts: string[];
-    }> = [];
+    const conflicts: DetectedConflict[] = [];
 
     // Check for time overlap conflicts
     if (checkTypes.includes(ConflictType.TIME_OVERLAP)) {
@@ -504,13 +610,14 @@ export class SchedulingService {
       }
 
       for (const [timeKey, posts] of timeGroups) {
-        if (posts.length > 3) { // More than 3 posts in same hour
+        if (posts.length > MAX_POSTS_PER_HOUR) {
           conflicts.push({
             type: ConflictType.TIME_OVERLAP,
             severity: ConflictSeverity.HIGH,
             description: `${posts.length} posts scheduled within the same hour (${timeKey})`,
             affectedTime: posts[0].scheduledAt,
             relatedPosts: posts.map(p => p.id),
+            metadata: { excess: posts.length - MAX_POSTS_PER_HOUR },
           });
         }
       }
@@ -541,6 +648,7 @@ export class SchedulingService {
             description: `Exceeding daily limit for ${platform} (${posts.length}/${dailyLimit})`,
             affectedTime: posts[0].scheduledAt,
             relatedPosts: posts.map(p => p.id),
+            metadata: { excess: posts.length - dailyLimit, platform },
           });
         }
       }
@@ -548,33 +656,33 @@ export class SchedulingService {
 
     // Check for similar content conflicts
     if (checkTypes.includes(ConflictType.CONTENT_SIMILAR)) {
-      // Simple content similarity check (could be enhanced with ML)
-      const contentGroups = new Map<string, typeof existingPosts>();
-      
-      for (const post of existingPosts) {
-        const contentWords = post.contentPiece.body.toLowerCase().split(' ').slice(0, 5).join(' ');
-        if (!contentGroups.has(contentWords)) {
-          contentGroups.set(contentWords, []);
-        }
-        contentGroups.get(contentWords)!.push(post);
-      }
+      conflicts.push(...await this.detectSimilarContent(existingPosts));
+    }
 
-      for (const [contentKey, posts] of contentGroups) {
-        if (posts.length > 1) {
-          const timeDiff = Math.abs(posts[0].scheduledAt.getTime() - posts[1].scheduledAt.getTime());
-          const hoursDiff = timeDiff / (1000 * 60 * 60);
-          
-          if (hoursDiff < 24) { // Similar content within 24 hours
-            conflicts.push({
-              type: ConflictType.CONTENT_SIMILAR,
-              severity: ConflictSeverity.MEDIUM,
-              description: `Similar content scheduled within 24 hours`,
-              affectedTime: posts[0].scheduledAt,
-              relatedPosts: posts.map(p => p.id),
-            });
-          }
-        }
+    if (checkTypes.includes(ConflictType.RATE_LIMIT) || checkTypes.includes(ConflictType.AUDIENCE_FATIGUE)) {
+      // Rolling windows reach back before the range, and fatigue compares against a baseline
+      const recentPosts = await this.prisma.scheduledPost.findMany({
+        where: {
+          organizationId,
+          scheduledAt: {
+            gte: subDays(timeRange.start, FATIGUE_BASELINE_DAYS),
+            lt: timeRange.start,
+          },
+          status: { notIn: ['CANCELLED', 'FAILED'] },
+        },
+        include: { socialAccount: true },
+      });
+
+      if (checkTypes.includes(ConflictType.RATE_LIMIT)) {
+        conflicts.push(...this.detectRateLimitConflicts(existingPosts, recentPosts));
       }
+      if (checkTypes.includes(ConflictType.AUDIENCE_FATIGUE)) {
+        conflicts.push(...this.detectAudienceFatigue(existingPosts, recentPosts, timeRange.start));
+      }
+    }
+
+    if (checkTypes.includes(ConflictType.RESOURCE_CONFLICT)) {
+      conflicts.push(...this.detectResourceConflicts(existingPosts));
     }
 
     // Save conflicts to database
@@ -590,9 +698,206 @@ export class SchedulingService {
           timeZone: 'UTC',
           relatedPosts: conflict.relatedPosts,
           relatedEvents: [],
+          metadata: conflict.metadata,
         },
       });
     }
+
+    return conflicts;
+  }
+
+  /**
+   * Bursts of posts on one account that the platform's API would reject
+   */
+  private detectRateLimitConflicts(posts: PostWithAccount[], recentPosts: PostWithAccount[]): DetectedConflict[] {
+    const conflicts: DetectedConflict[] = [];
+    const inRangeIds = new Set(posts.map(post => post.id));
+
+    for (const accountPosts of groupByAccount(posts, recentPosts)) {
+      const { platform, handle } = accountPosts[0].socialAccount;
+      const quota = PLATFORM_API_QUOTAS[platform];
+
+      for (const burst of findBursts(accountPosts, quota.windowMinutes, quota.maxPosts)) {
+        const inRange = burst.filter(post => inRangeIds.has(post.id));
+        if (inRange.length === 0) {
+          continue;
+        }
+
+        conflicts.push({
+          type: ConflictType.RATE_LIMIT,
+          severity: ConflictSeverity.CRITICAL,
+          description: `${burst.length} posts to ${platform} @${handle} within ${quota.windowMinutes} minutes exceed the API quota of ${quota.maxPosts}`,
+          affectedTime: inRange[0].scheduledAt,
+          relatedPosts: inRange.map(post => post.id),
+          metadata: {
+            excess: Math.min(burst.length - quota.maxPosts, inRange.length),
+            platform,
+            socialAccountId: accountPosts[0].socialAccountId,
+            ...quota,
+          },
+        });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Days where an account posts well above both the platform's recommended
+   * frequency and its own recent posting density
+   */
+  private detectAudienceFatigue(posts: PostWithAccount[], recentPosts: PostWithAccount[], rangeStart: Date): DetectedConflict[] {
+    const conflicts: DetectedConflict[] = [];
+    const inRangeIds = new Set(posts.map(post => post.id));
+
+    for (const accountPosts of groupByAccount(posts, recentPosts)) {
+      const { platform, handle } = accountPosts[0].socialAccount;
+      const baselineStart = subDays(rangeStart, FATIGUE_BASELINE_DAYS);
+      const baseline = accountPosts.filter(post => post.scheduledAt >= baselineStart && post.scheduledAt < rangeStart).length / FATIGUE_BASELINE_DAYS;
+      const threshold = Math.max(PLATFORM_FATIGUE_THRESHOLDS[platform], Math.ceil(baseline * 2));
+
+      for (const burst of findBursts(accountPosts, 24 * 60, threshold)) {
+        const inRange = burst.filter(post => inRangeIds.has(post.id));
+        if (inRange.length === 0) {
+          continue;
+        }
+
+        conflicts.push({
+          type: ConflictType.AUDIENCE_FATIGUE,
+          severity: burst.length >= threshold * 2 ? ConflictSeverity.HIGH : ConflictSeverity.MEDIUM,
+          description: `${burst.length} posts to ${platform} @${handle} within 24 hours (usual maximum ${threshold})`,
+          affectedTime: inRange[0].scheduledAt,
+          relatedPosts: inRange.map(post => post.id),
+          metadata: {
+            excess: Math.min(burst.length - threshold, inRange.length),
+            platform,
+            socialAccountId: accountPosts[0].socialAccountId,
+            threshold,
+            baselinePerDay: Math.round(baseline * 100) / 100,
+          },
+        });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Clusters of near-duplicate posts scheduled within 24 hours of each other,
+   * scored with the content similarity fingerprints
+   */
+  private async detectSimilarContent(posts: Array<ScheduledPost & { contentPiece: ContentPiece }>): Promise<DetectedConflict[]> {
+    const pairs = await this.contentSimilarity.similarPairs(posts.map(post => post.contentPiece));
+    const pairSimilarity = new Map<string, number>();
+    for (const { contentPieceIds: [a, b], similarity } of pairs) {
+      pairSimilarity.set(`${a}:${b}`, similarity);
+      pairSimilarity.set(`${b}:${a}`, similarity);
+    }
+
+    const ordered = [...posts].sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+    const parent = ordered.map((_, index) => index);
+    const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+    const clusterSimilarity = new Map<number, number>();
+
+    for (let i = 0; i < ordered.length; i++) {
+      for (let j = i + 1; j < ordered.length; j++) {
+        if (ordered[j].scheduledAt.getTime() - ordered[i].scheduledAt.getTime() >= 24 * 60 * 60 * 1000) {
+          break;
+        }
+        const similarity = ordered[i].contentPieceId === ordered[j].contentPieceId
+          ? 1
+          : pairSimilarity.get(`${ordered[i].contentPieceId}:${ordered[j].contentPieceId}`);
+        if (similarity !== undefined) {
+          const [rootI, rootJ] = [find(i), find(j)];
+          const max = Math.max(similarity, clusterSimilarity.get(rootI) ?? 0, clusterSimilarity.get(rootJ) ?? 0);
+          parent[rootJ] = rootI;
+          clusterSimilarity.set(rootI, max);
+        }
+      }
+    }
+
+    const clusters = new Map<number, typeof ordered>();
+    ordered.forEach((post, index) => {
+      const root = find(index);
+      clusters.set(root, [...(clusters.get(root) || []), post]);
+    });
+
+    const conflicts: DetectedConflict[] = [];
+    for (const [root, cluster] of clusters) {
+      if (cluster.length > 1) {
+        const similarity = clusterSimilarity.get(root)!;
+        conflicts.push({
+          type: ConflictType.CONTENT_SIMILAR,
+          severity: ConflictSeverity.MEDIUM,
+          description: `${cluster.length} posts with ${Math.round(similarity * 100)}% similar content scheduled within 24 hours`,
+          affectedTime: cluster[0].scheduledAt,
+          relatedPosts: cluster.map(post => post.id),
+          metadata: { excess: cluster.length - 1, similarity },
+        });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Posts that cannot publish as planned: the account is disconnected, or the
+   * same content is queued on the same account more than once
+   */
+  private detectResourceConflicts(posts: PostWithAccount[]): DetectedConflict[] {
+    const conflicts: DetectedConflict[] = [];
+
+    for (const accountPosts of groupByAccount(posts, [])) {
+      const account = accountPosts[0].socialAccount;
+      const pending = accountPosts.filter(post => post.status === 'SCHEDULED' || post.status === 'RETRYING');
+      const unavailable = pending.filter(post =>
+        !account.isActive ||
+        (account.expiresAt && !account.refreshTokenEncrypted && account.expiresAt < post.scheduledAt)
+      );
+
+      if (unavailable.length > 0) {
+        conflicts.push({
+          type: ConflictType.RESOURCE_CONFLICT,
+          severity: ConflictSeverity.HIGH,
+          description: account.isActive
+            ? `${account.platform} @${account.handle} access expires before ${unavailable.length} scheduled posts`
+            : `${unavailable.length} posts are scheduled on disconnected account ${account.platform} @${account.handle}`,
+          affectedTime: unavailable[0].scheduledAt,
+          relatedPosts: unavailable.map(post => post.id),
+          metadata: {
+            reason: 'account_unavailable',
+            excess: unavailable.length,
+            platform: account.platform,
+            socialAccountId: account.id,
+          },
+        });
+      }
+
+      const byContent = new Map<string, PostWithAccount[]>();
+      for (const post of accountPosts.filter(post => post.status !== 'FAILED')) {
+        byContent.set(post.contentPieceId, [...(byContent.get(post.contentPieceId) || []), post]);
+      }
+
+      for (const [contentPieceId, duplicates] of byContent) {
+        if (duplicates.length > 1 && duplicates.some(post => pending.includes(post))) {
+          conflicts.push({
+            type: ConflictType.RESOURCE_CONFLICT,
+            severity: ConflictSeverity.MEDIUM,
+            description: `The same content is scheduled ${duplicates.length} times on ${account.platform} @${account.handle}`,
+            affectedTime: duplicates[0].scheduledAt,
+            relatedPosts: duplicates.map(post => post.id),
+            metadata: {
+              reason: 'duplicate_content',
+              excess: duplicates.length - 1,
+              contentPieceId,
+              socialAccountId: account.id,
+            },
+          });
+        }
+      }
+    }
+
+    return conflicts;
   }
 
   /**
@@ -640,24 +945,31 @@ export class SchedulingService {
       throw new Error('Calendar event not found');
     }
 
-    // Update calendar event
-    await this.prisma.calendarEvent.update({
-      where: { id: eventId },
-      data: {
-        startTime: zonedTimeToUtc(newStartTime, timeZone),
-        endTime: newEndTime ? zonedTimeToUtc(newEndTime, timeZone) : undefined,
-      },
-    });
+    // Move the event, the post and its publishing job together
+    await this.prisma.$transaction(async (tx) => {
+      const db = tx as PrismaClient;
 
-    // Update associated scheduled post if exists
-    if (event.scheduledPostId) {
-      await this.prisma.scheduledPost.update({
-        where: { id: event.scheduledPostId },
+      await db.calendarEvent.update({
+        where: { id: eventId },
         data: {
-          scheduledAt: zonedTimeToUtc(newStartTime, timeZone),
+          startTime: zonedTimeToUtc(newStartTime, timeZone),
+          endTime: newEndTime ? zonedTimeToUtc(newEndTime, timeZone) : undefined,
+          sequence: { increment: 1 },
         },
       });
-    }
+
+      // Update associated scheduled post if exists
+      if (event.scheduledPostId) {
+        const scheduledPost = await db.scheduledPost.update({
+          where: { id: event.scheduledPostId },
+          data: {
+            scheduledAt: zonedTimeToUtc(newStartTime, timeZone),
+            sequence: { increment: 1 },
+          },
+        });
+        await this.publishingQueue.syncJob(scheduledPost);
+      }
+    }, { timeout: 30000 });
 
     // Check for new conflicts
     await this.detectSchedulingConflicts({
@@ -745,82 +1057,106 @@ export class SchedulingService {
     spacing: number
   ): Date[] {
     const slots: Date[] = [];
-    const currentDate = new Date(startDate);
-    let optimalIndex = 0;
+    const lastDay = formatInTimeZone(endDate, timeZone, 'yyyy-MM-dd');
     
-    while (currentDate <= endDate && optimalIndex < optimalTimes.length) {
-      const optimal = optimalTimes[optimalIndex];
-      
-      // Find next occurrence of this day/hour
-      while (currentDate.getDay() !== optimal.dayOfWeek) {
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
-      
-      if (currentDate <= endDate) {
-        const slotTime = new Date(currentDate);
-        slotTime.setHours(optimal.hour, 0, 0, 0);
-        slots.push(zonedTimeToUtc(slotTime, timeZone));
-      }
-      
-      optimalIndex++;
-      if (optimalIndex >= optimalTimes.length) {
-        optimalIndex = 0;
-        currentDate.setDate(currentDate.getDate() + 1);
+    // Walk the range day by day in the schedule's time zone and take that weekday's optimal hours
+    for (
+      let day = formatInTimeZone(startDate, timeZone, 'yyyy-MM-dd');
+      day <= lastDay;
+      day = format(addDays(parseISO(day), 1), 'yyyy-MM-dd')
+    ) {
+      const dayOfWeek = parseISO(day).getDay();
+      const hours = optimalTimes
+        .filter(optimal => optimal.dayOfWeek === dayOfWeek)
+        .map(optimal => optimal.hour)
+        .sort((a, b) => a - b);
+
+      for (const hour of hours) {
+        const slot = zonedTimeToUtc(`${day}T${String(hour).padStart(2, '0')}:00:00`, timeZone);
+        const previous = slots[slots.length - 1];
+        if (slot < startDate || slot > endDate) continue;
+        if (previous && slot.getTime() - previous.getTime() < spacing * 60 * 1000) continue;
+        slots.push(slot);
       }
     }
     
     return slots;
   }
 
-  private generateRecurringDates(
-    startDate: Date,
-    endDate: Date | undefined,
-    frequency: 'daily' | 'weekly' | 'monthly',
-    interval: number,
-    daysOfWeek?: number[],
-    timeZone: string
-  ): Date[] {
-    const dates: Date[] = [];
-    let currentDate = new Date(startDate);
-    const maxDate = endDate || addMonths(startDate, 6); // Default 6 months if no end date
-    
-    while (currentDate <= maxDate) {
-      if (frequency === 'daily') {
-        dates.push(new Date(currentDate));
-        currentDate = addDays(currentDate, interval);
-      } else if (frequency === 'weekly') {
-        if (!daysOfWeek || daysOfWeek.includes(currentDate.getDay())) {
-          dates.push(new Date(currentDate));
-        }
-        currentDate = addDays(currentDate, 1);
-        
-        // Skip to next week after going through all days
-        if (currentDate.getDay() === 0) {
-          currentDate = addWeeks(currentDate, interval - 1);
-        }
-      } else if (frequency === 'monthly') {
-        if (!daysOfWeek || daysOfWeek.includes(currentDate.getDay())) {
-          dates.push(new Date(currentDate));
-        }
-        currentDate = addMonths(currentDate, interval);
-      }
+  private recurrenceRule(pattern: RecurrencePattern): string {
+    if (pattern.rrule) {
+      return normalizeRRule(pattern.rrule);
     }
-    
-    return dates;
+    if (!pattern.frequency) {
+      throw new ValidationError('Either rrule or frequency is required', 'rrule');
+    }
+    return legacyToRRule({
+      frequency: pattern.frequency,
+      interval: pattern.interval || 1,
+      daysOfWeek: pattern.daysOfWeek,
+    });
   }
 
   private getPlatformDailyLimit(platform: Platform): number {
-    const limits: Record<Platform, number> = {
-      TWITTER: 50,
-      LINKEDIN: 20,
-      INSTAGRAM: 25,
-      FACEBOOK: 25,
-      TIKTOK: 10,
-      YOUTUBE_SHORTS: 5,
-      REDDIT: 10,
-      THREADS: 30,
-    };
-    
-    return limits[platform] || 10;
+    return PLATFORM_DAILY_LIMITS[platform] || 10;
   }
 }
+
+type PostWithAccount = ScheduledPost & { socialAccount: SocialAccount };
+
+/**
+ * Combine the follower time zone distributions of an organization's accounts
+ * on one platform, weighting each account by its follower count
+ */
+function mergeAudienceTimeZones(
+  accounts: Array<{ audienceTimeZones: unknown; followersCount: number | null }>
+): Record<string, number> | undefined {
+  const merged: Record<string, number> = {};
+  for (const account of accounts) {
+    const shares = account.audienceTimeZones as Record<string, number> | null;
+    for (const [zone, share] of Object.entries(shares || {})) {
+      merged[zone] = (merged[zone] || 0) + share * Math.max(account.followersCount || 0, 1);
+    }
+  }
+  return Object.keys(merged).length ? merged : undefined;
+}
+
+/**
+ * Posts per social account in time order, with earlier posts first
+ */
+function groupByAccount(posts: PostWithAccount[], earlierPosts: PostWithAccount[]): PostWithAccount[][] {
+  const groups = new Map<string, PostWithAccount[]>();
+  for (const post of [...earlierPosts, ...posts]) {
+    groups.set(post.socialAccountId, [...(groups.get(post.socialAccountId) || []), post]);
+  }
+  return [...groups.values()].map(group => group.sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime()));
+}
+
+/**
+ * Maximal runs of posts where more than `maxPosts` fall inside a rolling
+ * window. Overlapping windows are merged so each burst is reported once.
+ */
+export function findBursts<T extends { scheduledAt: Date }>(posts: T[], windowMinutes: number, maxPosts: number): T[][] {
+  const windowMs = windowMinutes * 60 * 1000;
+  const bursts: T[][] = [];
+  let current: T[] | undefined;
+  let start = 0;
+
+  for (let end = 0; end < posts.length; end++) {
+    while (posts[end].scheduledAt.getTime() - posts[start].scheduledAt.getTime() >= windowMs) {
+      start++;
+    }
+
+    if (end - start + 1 > maxPosts) {
+      const window = posts.slice(start, end + 1);
+      if (current && current.includes(window[0])) {
+        current.push(posts[end]);
+      } else {
+        current = window;
+        bursts.push(current);
+      }
+    }
+  }
+
+  return bursts;
+}
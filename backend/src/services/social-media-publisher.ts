@@ -1,17 +1,59 @@
-import { PrismaClient, Platform, PostStatus } from '@prisma/client';
+import { PrismaClient, Platform, PostStatus, ScheduledPost } from '@prisma/client';
 import { TwitterService } from './twitter-api';
 import { LinkedInService } from './linkedin-api';
 import { FacebookService } from './facebook-api';
 import { BufferService } from './buffer-api';
 import { HootsuiteService } from './hootsuite-api';
+import { TikTokService, TikTokPrivacyLevel } from './tiktok-api';
+import { RedditService } from './reddit-api';
+import { ThreadsService } from './threads-api';
+import { YouTubeService } from './youtube-api';
 import { addPublishingJob, PublishingJob } from '../config/redis';
 import { encrypt, decrypt } from '../utils/encryption';
+import { MediaRequirementsError } from '../utils/errors';
+import { PublishingMediaService, PublishableMedia } from './publishing-media';
+import { PublishingQueueService, retryJobId } from './publishing-queue';
+import { LinkTrackingService, LinkTrackingOptions } from './link-tracking';
 
 export interface PublishResult {
   success: boolean;
   platformPostId?: string;
+  externalPostId?: string; // Buffer/Hootsuite or TikTok publish ID; platformPostId follows once it is known
   platformUrl?: string;
   error?: string;
+  retryable?: boolean; // false when retrying cannot succeed, e.g. media that breaks platform rules
+}
+
+/**
+ * Per-platform publishing settings stored on ContentPiece.platformOptions
+ */
+export interface ContentPlatformOptions {
+  tiktok?: {
+    privacyLevel?: TikTokPrivacyLevel;
+    disableComment?: boolean;
+    disableDuet?: boolean;
+    disableStitch?: boolean;
+  };
+  reddit?: {
+    subreddit: string;
+    flairId?: string;
+    flairText?: string;
+    url?: string;
+    nsfw?: boolean;
+    spoiler?: boolean;
+  };
+  threads?: {
+    replyControl?: 'everyone' | 'accounts_you_follow' | 'mentioned_only';
+  };
+  youtube?: {
+    title?: string;
+    description?: string;
+    tags?: string[];
+    categoryId?: string;
+    privacyStatus?: 'public' | 'unlisted' | 'private';
+    madeForKids?: boolean;
+  };
+  tracking?: LinkTrackingOptions;
 }
 
 export interface SocialMediaPost {
@@ -26,9 +68,20 @@ export interface SocialMediaPost {
 
 export class SocialMediaPublisher {
   private prisma: PrismaClient;
-
-  constructor(prisma: PrismaClient) {
+  private media: PublishingMediaService;
+  private queue: PublishingQueueService;
+  private linkTracking: LinkTrackingService;
+
+  constructor(
+    prisma: PrismaClient,
+    media: PublishingMediaService = new PublishingMediaService(),
+    queue: PublishingQueueService = new PublishingQueueService(prisma),
+    linkTracking: LinkTrackingService = new LinkTrackingService(prisma)
+  ) {
     this.prisma = prisma;
+    this.media = media;
+    this.queue = queue;
+    this.linkTracking = linkTracking;
   }
 
   /**
@@ -53,20 +106,8 @@ export class SocialMediaPublisher {
         },
       });
 
-      // Calculate delay for job scheduling
-      const delay = Math.max(0, postData.scheduledAt.getTime() - Date.now());
-
-      // Add job to publishing queue
-      await addPublishingJob({
-        scheduledPostId: scheduledPost.id,
-        organizationId: postData.organizationId,
-        contentPieceId: postData.contentPieceId,
-        socialAccountId: postData.socialAccountId,
-        retryCount: 0,
-      }, {
-        delay,
-        jobId: scheduledPost.id,
-      });
+      // Add job to publishing queue under the post's deterministic job ID
+      await this.queue.syncJob(scheduledPost);
 
       return scheduledPost.id;
     } catch (error: any) {
@@ -118,23 +159,44 @@ export class SocialMediaPublisher {
       let result: PublishResult;
 
       try {
+        // Links get UTM parameters and short links; a tagging failure publishes them untagged
+        const tagged = await this.linkTracking.tagContent(scheduledPost).catch((error: Error) => {
+          console.error('Failed to tag links:', error);
+          return null;
+        });
+        const post = tagged && tagged.links > 0
+          ? { ...scheduledPost, contentPiece: { ...scheduledPost.contentPiece, body: tagged.body, cta: tagged.cta } }
+          : scheduledPost;
+
         // Publish based on platform
         switch (scheduledPost.socialAccount.platform) {
           case Platform.TWITTER:
-            result = await this.publishToTwitter(scheduledPost);
+            result = await this.publishToTwitter(post);
             break;
           case Platform.LINKEDIN:
-            result = await this.publishToLinkedIn(scheduledPost);
+            result = await this.publishToLinkedIn(post);
             break;
           case Platform.FACEBOOK:
-            result = await this.publishToFacebook(scheduledPost);
+            result = await this.publishToFacebook(post);
             break;
           case Platform.INSTAGRAM:
-            result = await this.publishToInstagram(scheduledPost);
+            result = await this.publishToInstagram(post);
+            break;
+          case Platform.TIKTOK:
+            result = await this.publishToTikTok(post);
+            break;
+          case Platform.REDDIT:
+            result = await this.publishToReddit(post);
+            break;
+          case Platform.THREADS:
+            result = await this.publishToThreads(post);
+            break;
+          case Platform.YOUTUBE_SHORTS:
+            result = await this.publishToYouTubeShorts(post);
             break;
           default:
             // Try Buffer or Hootsuite as fallback
-            result = await this.publishViaThirdParty(scheduledPost);
+            result = await this.publishViaThirdParty(post);
             break;
         }
 
@@ -146,6 +208,7 @@ export class SocialMediaPublisher {
               status: PostStatus.PUBLISHED,
               publishedAt: new Date(),
               platformPostId: result.platformPostId,
+              externalPostId: result.externalPostId,
               platformUrl: result.platformUrl,
               errorMessage: null,
             },
@@ -159,8 +222,13 @@ export class SocialMediaPublisher {
               publishedAt: new Date(),
             },
           });
+
+          // Usage stats are best effort and never fail a published post
+          await this.media.recordUsage(scheduledPost.contentPiece.mediaRefs).catch((error: Error) => {
+            console.error('Failed to record media usage:', error);
+          });
         } else {
-          await this.handlePublishingError(scheduledPostId, result.error || 'Unknown error');
+          await this.handlePublishingError(scheduledPostId, result.error || 'Unknown error', result.retryable !== false);
         }
 
         return result;
@@ -191,11 +259,21 @@ export class SocialMediaPublisher {
         scheduledPost.socialAccount.refreshTokenEncrypted
       );
 
+      // Upload media first; twitter-api-v2 sends videos in chunks
+      const media = await this.resolveMedia(scheduledPost, Platform.TWITTER);
+      const mediaIds: string[] = [];
+      for (const item of media) {
+        const mediaId = await twitterService.uploadMedia(await this.media.download(item), item.mimeType);
+        if (item.altText) {
+          await twitterService.setMediaAltText(mediaId, item.altText);
+        }
+        mediaIds.push(mediaId);
+      }
+
       // Prepare post data
       const postData = {
         text: scheduledPost.contentPiece.body,
-        // TODO: Handle media uploads if needed
-        mediaIds: [], // Will be implemented when media handling is added
+        mediaIds,
       };
 
       // Post to Twitter
@@ -212,10 +290,7 @@ export class SocialMediaPublisher {
       };
     } catch (error: any) {
       console.error('Error publishing to Twitter:', error);
-      return {
-        success: false,
-        error: error.message,
-      };
+      return this.failure(error);
     }
   }
 
@@ -231,11 +306,23 @@ export class SocialMediaPublisher {
         scheduledPost.socialAccount.expiresAt
       );
 
+      const media = await this.resolveMedia(scheduledPost, Platform.LINKEDIN);
+      const mediaUrns: string[] = [];
+      for (const item of media) {
+        const buffer = await this.media.download(item);
+        mediaUrns.push(item.type === 'video'
+          ? await linkedinService.uploadVideo(buffer)
+          : await linkedinService.uploadMedia(buffer, item.fileName));
+      }
+
       // Prepare post data
       const postData = {
         text: scheduledPost.contentPiece.body,
         visibility: 'PUBLIC' as const,
-        // TODO: Handle media uploads and article URLs if needed
+        ...(mediaUrns.length > 0 && {
+          mediaUrns,
+          mediaCategory: media.some(item => item.type === 'video') ? 'VIDEO' as const : 'IMAGE' as const,
+        }),
       };
 
       // Post to LinkedIn
@@ -248,10 +335,7 @@ export class SocialMediaPublisher {
       };
     } catch (error: any) {
       console.error('Error publishing to LinkedIn:', error);
-      return {
-        success: false,
-        error: error.message,
-      };
+      return this.failure(error);
     }
   }
 
@@ -268,10 +352,13 @@ export class SocialMediaPublisher {
         scheduledPost.socialAccount.expiresAt
       );
 
+      const [media] = await this.resolveMedia(scheduledPost, Platform.FACEBOOK);
+
       // Prepare post data
       const postData = {
         message: scheduledPost.contentPiece.body,
-        photoUrl: scheduledPost.contentPiece.mediaUrls?.[0], // Use first media URL if available
+        photoUrl: media && media.type !== 'video' ? media.url : undefined,
+        videoUrl: media?.type === 'video' ? media.url : undefined,
         published: true,
       };
 
@@ -285,10 +372,7 @@ export class SocialMediaPublisher {
       };
     } catch (error: any) {
       console.error('Error publishing to Facebook:', error);
-      return {
-        success: false,
-        error: error.message,
-      };
+      return this.failure(error);
     }
   }
 
@@ -305,17 +389,33 @@ export class SocialMediaPublisher {
         scheduledPost.socialAccount.expiresAt
       );
 
-      // Prepare post data
-      const postData = {
-        imageUrl: scheduledPost.contentPiece.mediaUrls?.[0], // Instagram requires media
-        caption: scheduledPost.contentPiece.body,
-        mediaType: 'IMAGE' as const,
-      };
+      const media = await this.resolveMedia(scheduledPost, Platform.INSTAGRAM);
+      if (media.length === 0) {
+        throw new MediaRequirementsError('Instagram posts require at least one image or video', Platform.INSTAGRAM, ['No media attached']);
+      }
 
-      if (!postData.imageUrl) {
-        throw new Error('Instagram posts require at least one image');
+      // Multiple items go out as a carousel of individually created children
+      const children: string[] = [];
+      if (media.length > 1) {
+        for (const item of media) {
+          children.push(await facebookService.uploadInstagramMedia(item.url, item.type === 'video' ? 'VIDEO' : 'IMAGE'));
+        }
       }
 
+      // Prepare post data
+      const postData = media.length > 1
+        ? {
+          caption: scheduledPost.contentPiece.body,
+          mediaType: 'CAROUSEL_ALBUM' as const,
+          children,
+        }
+        : {
+          caption: scheduledPost.contentPiece.body,
+          mediaType: media[0].type === 'video' ? 'VIDEO' as const : 'IMAGE' as const,
+          imageUrl: media[0].type === 'video' ? undefined : media[0].url,
+          videoUrl: media[0].type === 'video' ? media[0].url : undefined,
+        };
+
       // Post to Instagram
       const result = await facebookService.postToInstagram(postData);
 
@@ -326,10 +426,147 @@ export class SocialMediaPublisher {
       };
     } catch (error: any) {
       console.error('Error publishing to Instagram:', error);
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * Publish to TikTok
+   */
+  private async publishToTikTok(scheduledPost: any): Promise<PublishResult> {
+    try {
+      const tiktokService = await TikTokService.createWithEncryptedCredentials(
+        scheduledPost.socialAccount.accessTokenEncrypted,
+        scheduledPost.socialAccount.refreshTokenEncrypted,
+        scheduledPost.socialAccount.expiresAt
+      );
+
+      const options = this.getPlatformOptions(scheduledPost.contentPiece).tiktok || {};
+      const media = await this.resolveMedia(scheduledPost, Platform.TIKTOK);
+      const videoUrl = media.find(item => item.type === 'video')?.url;
+
+      const result = await tiktokService.publishPost({
+        title: this.withHashtags(scheduledPost.contentPiece.body, scheduledPost.contentPiece.hashtags),
+        videoUrl,
+        photoUrls: videoUrl ? undefined : media.map(item => item.url),
+        ...options,
+      });
+
+      // Posts still processing only have a publish ID; analytics collection resolves the post ID later
       return {
-        success: false,
-        error: error.message,
+        success: true,
+        platformPostId: result.postId,
+        externalPostId: result.publishId,
+        platformUrl: result.postId
+          ? `https://www.tiktok.com/@${scheduledPost.socialAccount.handle}/video/${result.postId}`
+          : undefined,
+      };
+    } catch (error: any) {
+      console.error('Error publishing to TikTok:', error);
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * Publish to Reddit
+   */
+  private async publishToReddit(scheduledPost: any): Promise<PublishResult> {
+    try {
+      const options = this.getPlatformOptions(scheduledPost.contentPiece).reddit;
+      if (!options?.subreddit) {
+        throw new Error('Reddit posts require a subreddit in platformOptions.reddit');
+      }
+
+      const redditService = await RedditService.createWithEncryptedCredentials(
+        scheduledPost.socialAccount.accessTokenEncrypted,
+        scheduledPost.socialAccount.refreshTokenEncrypted,
+        scheduledPost.socialAccount.expiresAt
+      );
+
+      const { body, title } = scheduledPost.contentPiece;
+      const result = await redditService.submitPost({
+        ...options,
+        subreddit: options.subreddit.replace(/^\/?r\//i, ''),
+        title: title || this.firstLine(body, 300),
+        text: body,
+      });
+
+      return {
+        success: true,
+        platformPostId: result.name,
+        platformUrl: result.url,
+      };
+    } catch (error: any) {
+      console.error('Error publishing to Reddit:', error);
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * Publish to Threads
+   */
+  private async publishToThreads(scheduledPost: any): Promise<PublishResult> {
+    try {
+      const threadsService = await ThreadsService.createWithEncryptedCredentials(
+        scheduledPost.socialAccount.accessTokenEncrypted,
+        scheduledPost.socialAccount.accountId,
+        scheduledPost.socialAccount.expiresAt
+      );
+
+      const options = this.getPlatformOptions(scheduledPost.contentPiece).threads || {};
+      const [image] = await this.resolveMedia(scheduledPost, Platform.THREADS);
+
+      const result = await threadsService.publishPost({
+        text: scheduledPost.contentPiece.body,
+        imageUrl: image?.url,
+        ...options,
+      });
+
+      return {
+        success: true,
+        platformPostId: result.id,
+        platformUrl: result.permalink,
+      };
+    } catch (error: any) {
+      console.error('Error publishing to Threads:', error);
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * Publish to YouTube Shorts
+   */
+  private async publishToYouTubeShorts(scheduledPost: any): Promise<PublishResult> {
+    try {
+      const [video] = await this.resolveMedia(scheduledPost, Platform.YOUTUBE_SHORTS);
+      if (!video) {
+        throw new MediaRequirementsError('YouTube Shorts require a video', Platform.YOUTUBE_SHORTS, ['No video attached']);
+      }
+
+      const youtubeService = await YouTubeService.createWithEncryptedCredentials(
+        scheduledPost.socialAccount.accessTokenEncrypted,
+        scheduledPost.socialAccount.refreshTokenEncrypted,
+        scheduledPost.socialAccount.expiresAt
+      );
+
+      const { body, title, hashtags } = scheduledPost.contentPiece;
+      const options = this.getPlatformOptions(scheduledPost.contentPiece).youtube || {};
+
+      const result = await youtubeService.uploadShort({
+        ...options,
+        videoUrl: video.url,
+        title: options.title || title || this.firstLine(body, 100),
+        description: options.description ?? this.withHashtags(body, hashtags),
+      });
+
+      return {
+        success: true,
+        platformPostId: result.id,
+        platformUrl: `https://www.youtube.com/shorts/${result.id}`,
       };
+    } catch (error: any) {
+      console.error('Error publishing to YouTube Shorts:', error);
+      return this.failure(error);
     }
   }
 
@@ -368,13 +605,16 @@ export class SocialMediaPublisher {
         scheduledPost.socialAccount.accessTokenEncrypted
       );
 
+      const image = (await this.resolveMedia(scheduledPost, scheduledPost.socialAccount.platform))
+        .find(item => item.type !== 'video');
+
       // Prepare post data
       const postData = {
         text: scheduledPost.contentPiece.body,
         profileIds: [scheduledPost.socialAccount.profileId || scheduledPost.socialAccount.accountId],
         now: true, // Publish immediately
-        media: scheduledPost.contentPiece.mediaUrls?.[0] ? {
-          photo: scheduledPost.contentPiece.mediaUrls[0],
+        media: image ? {
+          photo: image.url,
         } : undefined,
       };
 
@@ -388,15 +628,14 @@ export class SocialMediaPublisher {
       const update = result.updates[0];
       return {
         success: true,
-        platformPostId: update.id,
+        // The network's own ID is only known once Buffer has sent the update
+        platformPostId: update.serviceUpdateId,
+        externalPostId: update.id,
         platformUrl: update.serviceUpdateId ? `https://buffer.com/app/profile/${update.profileId}/buffer/${update.id}` : undefined,
       };
     } catch (error: any) {
       console.error('Error publishing via Buffer:', error);
-      return {
-        success: false,
-        error: error.message,
-      };
+      return this.failure(error);
     }
   }
 
@@ -412,14 +651,18 @@ export class SocialMediaPublisher {
         scheduledPost.socialAccount.expiresAt
       );
 
+      const media = await this.resolveMedia(scheduledPost, scheduledPost.socialAccount.platform);
+      const uploads = [];
+      for (const item of media) {
+        const type = item.type === 'image' ? 'photo' as const : item.type;
+        const uploaded = await hootsuiteService.uploadMedia(item.url, type);
+        uploads.push({ id: uploaded.id, type, url: uploaded.downloadUrl || item.url });
+      }
+
       // Prepare message data
       const messageData = {
         text: scheduledPost.contentPiece.body,
-        media: scheduledPost.contentPiece.mediaUrls?.map(url => ({
-          id: '', // Would need to upload media first
-          type: 'photo' as const,
-          url,
-        })),
+        media: uploads.length > 0 ? uploads : undefined,
       };
 
       // Send message immediately
@@ -430,22 +673,19 @@ export class SocialMediaPublisher {
 
       return {
         success: true,
-        platformPostId: result.id,
+        externalPostId: result.id,
         platformUrl: `https://hootsuite.com/dashboard/messages/${result.id}`,
       };
     } catch (error: any) {
       console.error('Error publishing via Hootsuite:', error);
-      return {
-        success: false,
-        error: error.message,
-      };
+      return this.failure(error);
     }
   }
 
   /**
    * Handle publishing errors with retry logic
    */
-  private async handlePublishingError(scheduledPostId: string, error: string): Promise<void> {
+  private async handlePublishingError(scheduledPostId: string, error: string, retryable = true): Promise<void> {
     const scheduledPost = await this.prisma.scheduledPost.findUnique({
       where: { id: scheduledPostId },
     });
@@ -454,7 +694,7 @@ export class SocialMediaPublisher {
       return;
     }
 
-    const shouldRetry = scheduledPost.attemptCount < scheduledPost.maxAttempts;
+    const shouldRetry = retryable && scheduledPost.attemptCount < scheduledPost.maxAttempts;
 
     if (shouldRetry) {
       // Calculate exponential backoff delay
@@ -475,9 +715,10 @@ export class SocialMediaPublisher {
         contentPieceId: scheduledPost.contentPieceId,
         socialAccountId: scheduledPost.socialAccountId,
         retryCount: scheduledPost.attemptCount,
+        scheduledAt: scheduledPost.scheduledAt.toISOString(),
       }, {
         delay: backoffDelay,
-        jobId: `${scheduledPostId}-retry-${scheduledPost.attemptCount}`,
+        jobId: retryJobId(scheduledPostId, scheduledPost.attemptCount),
       });
     } else {
       // Mark as failed
@@ -500,23 +741,22 @@ export class SocialMediaPublisher {
   }
 
   /**
-   * Cancel a scheduled post
+   * Cancel a scheduled post and remove its job from the queue. Resolves to
+   * null when the post does not exist in the organization.
    */
-  async cancelScheduledPost(scheduledPostId: string): Promise<void> {
-    try {
-      await this.prisma.scheduledPost.update({
-        where: { id: scheduledPostId },
-        data: {
-          status: PostStatus.CANCELLED,
-        },
-      });
-
-      // TODO: Remove job from queue if possible
+  async cancelScheduledPost(scheduledPostId: string, organizationId?: string): Promise<ScheduledPost | null> {
+    const cancelled = await this.queue.cancel(scheduledPostId, organizationId);
+    if (cancelled) {
       console.log(`Scheduled post ${scheduledPostId} cancelled`);
-    } catch (error: any) {
-      console.error('Error cancelling scheduled post:', error);
-      throw new Error(`Failed to cancel scheduled post: ${error.message}`);
     }
+    return cancelled;
+  }
+
+  /**
+   * Move a scheduled post and its queued job to a new time
+   */
+  async rescheduleScheduledPost(scheduledPostId: string, scheduledAt: Date, organizationId?: string): Promise<ScheduledPost | null> {
+    return this.queue.reschedule(scheduledPostId, scheduledAt, { organizationId });
   }
 
   /**
@@ -629,9 +869,11 @@ export class SocialMediaPublisher {
             lte: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours from now
             gte: new Date(), // Not already expired
           },
-          refreshTokenEncrypted: {
-            not: null,
-          },
+          // Threads long-lived tokens are refreshed with the access token itself
+          OR: [
+            { refreshTokenEncrypted: { not: null } },
+            { platform: Platform.THREADS },
+          ],
         },
       });
 
@@ -645,6 +887,17 @@ export class SocialMediaPublisher {
           } else if (account.platform === Platform.LINKEDIN) {
             const refreshToken = decrypt(account.refreshTokenEncrypted!);
             newTokens = await LinkedInService.refreshAccessToken(refreshToken);
+          } else if (account.platform === Platform.TIKTOK) {
+            const refreshToken = decrypt(account.refreshTokenEncrypted!);
+            newTokens = await TikTokService.refreshAccessToken(refreshToken);
+          } else if (account.platform === Platform.REDDIT) {
+            const refreshToken = decrypt(account.refreshTokenEncrypted!);
+            newTokens = await RedditService.refreshAccessToken(refreshToken);
+          } else if (account.platform === Platform.YOUTUBE_SHORTS) {
+            const refreshToken = decrypt(account.refreshTokenEncrypted!);
+            newTokens = await YouTubeService.refreshAccessToken(refreshToken);
+          } else if (account.platform === Platform.THREADS) {
+            newTokens = await ThreadsService.refreshAccessToken(decrypt(account.accessTokenEncrypted));
           } else {
             continue; // Skip unsupported platforms
           }
@@ -681,4 +934,39 @@ export class SocialMediaPublisher {
       console.error('Error refreshing social tokens:', error);
     }
   }
+
+  private getPlatformOptions(contentPiece: any): ContentPlatformOptions {
+    return (contentPiece.platformOptions || {}) as ContentPlatformOptions;
+  }
+
+  /**
+   * Pick the platform-ready file for each of the content piece's media refs
+   */
+  private resolveMedia(scheduledPost: any, platform: Platform): Promise<PublishableMedia[]> {
+    return this.media.resolveForPlatform(
+      scheduledPost.contentPiece.mediaRefs,
+      platform,
+      scheduledPost.contentPiece.type
+    );
+  }
+
+  private failure(error: any): PublishResult {
+    return {
+      success: false,
+      error: error.message,
+      retryable: !(error instanceof MediaRequirementsError),
+    };
+  }
+
+  private withHashtags(body: string, hashtags: string[] = []): string {
+    const missing = hashtags
+      .map(tag => (tag.startsWith('#') ? tag : `#${tag}`))
+      .filter(tag => !body.includes(tag));
+    return missing.length > 0 ? `${body}\n\n${missing.join(' ')}` : body;
+  }
+
+  private firstLine(body: string, limit: number): string {
+    const line = body.split('\n').find(candidate => candidate.trim().length > 0) || body;
+    return line.trim().slice(0, limit);
+  }
 }
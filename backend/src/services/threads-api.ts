@@ -0,0 +1,229 @@
+import axios, { AxiosInstance } from 'axios';
+import { decrypt } from '../utils/encryption';
+
+export const THREADS_API_BASE_URL = 'https://graph.threads.net/v1.0';
+export const THREADS_REFRESH_URL = 'https://graph.threads.net/refresh_access_token';
+
+export interface ThreadsCredentials {
+  accessToken: string;
+  userId?: string;
+  expiresAt?: Date;
+}
+
+export interface ThreadsClientOptions {
+  baseURL?: string;
+  pollIntervalMs?: number;
+  maxStatusPolls?: number;
+}
+
+export interface ThreadsPostData {
+  text?: string;
+  imageUrl?: string;
+  replyControl?: 'everyone' | 'accounts_you_follow' | 'mentioned_only';
+}
+
+export interface ThreadsPostResponse {
+  id: string;
+  permalink?: string;
+}
+
+export interface ThreadsAnalytics {
+  views: number;
+  likes: number;
+  replies: number;
+  reposts: number;
+  quotes: number;
+  shares: number;
+}
+
+const THREADS_TEXT_LIMIT = 500;
+
+export class ThreadsService {
+  private client: AxiosInstance;
+  private accessToken: string;
+  private userId: string;
+  private pollIntervalMs: number;
+  private maxStatusPolls: number;
+
+  constructor(credentials: ThreadsCredentials, options: ThreadsClientOptions = {}) {
+    this.accessToken = credentials.accessToken;
+    this.userId = credentials.userId || 'me';
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.maxStatusPolls = options.maxStatusPolls ?? 15;
+
+    this.client = axios.create({
+      baseURL: options.baseURL || THREADS_API_BASE_URL,
+      params: {
+        access_token: this.accessToken,
+      },
+    });
+
+    // Add response interceptor for error handling
+    this.client.interceptors.response.use(
+      response => response,
+      error => {
+        console.error('Threads API Error:', error.response?.data || error.message);
+        throw new Error(`Threads API Error: ${error.response?.data?.error?.message || error.message}`);
+      }
+    );
+  }
+
+  /**
+   * Create a new Threads client with decrypted credentials
+   */
+  static async createWithEncryptedCredentials(
+    encryptedAccessToken: string,
+    userId?: string,
+    expiresAt?: Date,
+    options?: ThreadsClientOptions
+  ): Promise<ThreadsService> {
+    const credentials: ThreadsCredentials = {
+      accessToken: decrypt(encryptedAccessToken),
+      userId,
+      expiresAt,
+    };
+
+    return new ThreadsService(credentials, options);
+  }
+
+  /**
+   * Publish a text or image post. Threads publishes in two steps: a media
+   * container is created, and once it has finished processing it is published.
+   */
+  async publishPost(postData: ThreadsPostData): Promise<ThreadsPostResponse> {
+    try {
+      if (!postData.text && !postData.imageUrl) {
+        throw new Error('Threads posts require text or an image');
+      }
+      if (postData.text && postData.text.length > THREADS_TEXT_LIMIT) {
+        throw new Error(`Threads posts are limited to ${THREADS_TEXT_LIMIT} characters`);
+      }
+
+      const containerResponse = await this.client.post(`/${this.userId}/threads`, null, {
+        params: {
+          media_type: postData.imageUrl ? 'IMAGE' : 'TEXT',
+          ...(postData.text && { text: postData.text }),
+          ...(postData.imageUrl && { image_url: postData.imageUrl }),
+          ...(postData.replyControl && { reply_control: postData.replyControl }),
+        },
+      });
+      const containerId: string = containerResponse.data.id;
+
+      if (postData.imageUrl) {
+        await this.waitForContainer(containerId);
+      }
+
+      const publishResponse = await this.client.post(`/${this.userId}/threads_publish`, null, {
+        params: { creation_id: containerId },
+      });
+      const mediaId: string = publishResponse.data.id;
+
+      const mediaResponse = await this.client.get(`/${mediaId}`, {
+        params: { fields: 'id,permalink' },
+      });
+
+      return {
+        id: mediaId,
+        permalink: mediaResponse.data.permalink,
+      };
+    } catch (error: any) {
+      console.error('Error posting to Threads:', error);
+      throw new Error(`Failed to post content: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete a Threads post
+   */
+  async deletePost(mediaId: string): Promise<boolean> {
+    try {
+      const response = await this.client.delete(`/${mediaId}`);
+      return response.data?.success !== false;
+    } catch (error: any) {
+      console.error('Error deleting Threads post:', error);
+      throw new Error(`Failed to delete post: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get analytics for a specific post
+   */
+  async getPostAnalytics(mediaId: string): Promise<ThreadsAnalytics> {
+    try {
+      const response = await this.client.get(`/${mediaId}/insights`, {
+        params: { metric: 'views,likes,replies,reposts,quotes,shares' },
+      });
+
+      const metrics = new Map<string, number>();
+      for (const metric of response.data.data || []) {
+        metrics.set(metric.name, metric.total_value?.value ?? metric.values?.[0]?.value ?? 0);
+      }
+
+      return {
+        views: metrics.get('views') || 0,
+        likes: metrics.get('likes') || 0,
+        replies: metrics.get('replies') || 0,
+        reposts: metrics.get('reposts') || 0,
+        quotes: metrics.get('quotes') || 0,
+        shares: metrics.get('shares') || 0,
+      };
+    } catch (error: any) {
+      console.error('Error fetching Threads post analytics:', error);
+      // Return zero analytics if access is not available
+      return {
+        views: 0,
+        likes: 0,
+        replies: 0,
+        reposts: 0,
+        quotes: 0,
+        shares: 0,
+      };
+    }
+  }
+
+  /**
+   * Refresh a long-lived access token. Threads has no refresh tokens; the
+   * current token is exchanged for a new one while it is still valid.
+   */
+  static async refreshAccessToken(accessToken: string, refreshUrl: string = THREADS_REFRESH_URL): Promise<{
+    accessToken: string;
+    expiresIn: number;
+    refreshToken?: string;
+  }> {
+    try {
+      const response = await axios.get(refreshUrl, {
+        params: {
+          grant_type: 'th_refresh_token',
+          access_token: accessToken,
+        },
+      });
+
+      return {
+        accessToken: response.data.access_token,
+        expiresIn: response.data.expires_in,
+      };
+    } catch (error: any) {
+      console.error('Error refreshing Threads access token:', error);
+      throw new Error(`Failed to refresh access token: ${error.response?.data?.error?.message || error.message}`);
+    }
+  }
+
+  private async waitForContainer(containerId: string): Promise<void> {
+    for (let poll = 0; poll < this.maxStatusPolls; poll++) {
+      const response = await this.client.get(`/${containerId}`, {
+        params: { fields: 'status,error_message' },
+      });
+
+      if (response.data.status === 'FINISHED') {
+        return;
+      }
+      if (response.data.status === 'ERROR' || response.data.status === 'EXPIRED') {
+        throw new Error(`Threads could not process the media: ${response.data.error_message || response.data.status}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+    }
+
+    throw new Error('Threads media container did not finish processing in time');
+  }
+}
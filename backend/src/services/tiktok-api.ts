@@ -0,0 +1,328 @@
+import axios, { AxiosInstance } from 'axios';
+import { config } from '../config/config';
+import { decrypt } from '../utils/encryption';
+
+export const TIKTOK_API_BASE_URL = 'https://open.tiktokapis.com/v2';
+export const TIKTOK_TOKEN_URL = 'https://open.tiktokapis.com/v2/oauth/token/';
+
+export interface TikTokCredentials {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: Date;
+}
+
+export interface TikTokClientOptions {
+  baseURL?: string;
+  pollIntervalMs?: number;
+  maxStatusPolls?: number;
+}
+
+export type TikTokPrivacyLevel =
+  | 'PUBLIC_TO_EVERYONE'
+  | 'MUTUAL_FOLLOW_FRIENDS'
+  | 'FOLLOWER_OF_CREATOR'
+  | 'SELF_ONLY';
+
+export interface TikTokPostData {
+  title: string;
+  videoUrl?: string;
+  photoUrls?: string[];
+  privacyLevel?: TikTokPrivacyLevel;
+  disableComment?: boolean;
+  disableDuet?: boolean;
+  disableStitch?: boolean;
+}
+
+export interface TikTokCreatorInfo {
+  username: string;
+  nickname: string;
+  privacyLevelOptions: TikTokPrivacyLevel[];
+  commentDisabled: boolean;
+  duetDisabled: boolean;
+  stitchDisabled: boolean;
+  maxVideoPostDurationSec: number;
+}
+
+export interface TikTokPublishStatus {
+  publishId: string;
+  status: 'PROCESSING_UPLOAD' | 'PROCESSING_DOWNLOAD' | 'SEND_TO_USER_INBOX' | 'PUBLISH_COMPLETE' | 'FAILED';
+  failReason?: string;
+  postIds: string[];
+}
+
+export interface TikTokPostResponse {
+  publishId: string;
+  postId?: string;
+  status: TikTokPublishStatus['status'];
+}
+
+export interface TikTokAnalytics {
+  views: number;
+  likes: number;
+  comments: number;
+  shares: number;
+}
+
+export class TikTokService {
+  private client: AxiosInstance;
+  private accessToken: string;
+  private pollIntervalMs: number;
+  private maxStatusPolls: number;
+
+  constructor(credentials: TikTokCredentials, options: TikTokClientOptions = {}) {
+    this.accessToken = credentials.accessToken;
+    this.pollIntervalMs = options.pollIntervalMs ?? 3000;
+    this.maxStatusPolls = options.maxStatusPolls ?? 20;
+
+    this.client = axios.create({
+      baseURL: options.baseURL || TIKTOK_API_BASE_URL,
+      headers: {
+        'Authorization': `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/json; charset=UTF-8',
+      },
+    });
+
+    // TikTok reports failures in an `error` envelope, sometimes alongside a 200
+    this.client.interceptors.response.use(
+      response => {
+        const apiError = response.data?.error;
+        if (apiError && apiError.code && apiError.code !== 'ok') {
+          throw new Error(`TikTok API Error: ${apiError.message || apiError.code}`);
+        }
+        return response;
+      },
+      error => {
+        console.error('TikTok API Error:', error.response?.data || error.message);
+        throw new Error(`TikTok API Error: ${error.response?.data?.error?.message || error.message}`);
+      }
+    );
+  }
+
+  /**
+   * Create a new TikTok client with decrypted credentials
+   */
+  static async createWithEncryptedCredentials(
+    encryptedAccessToken: string,
+    encryptedRefreshToken?: string,
+    expiresAt?: Date,
+    options?: TikTokClientOptions
+  ): Promise<TikTokService> {
+    const credentials: TikTokCredentials = {
+      accessToken: decrypt(encryptedAccessToken),
+      refreshToken: encryptedRefreshToken ? decrypt(encryptedRefreshToken) : undefined,
+      expiresAt,
+    };
+
+    return new TikTokService(credentials, options);
+  }
+
+  /**
+   * Get the creator's posting constraints (required before a direct post)
+   */
+  async getCreatorInfo(): Promise<TikTokCreatorInfo> {
+    try {
+      const response = await this.client.post('/post/publish/creator_info/query/');
+      const data = response.data.data;
+
+      return {
+        username: data.creator_username,
+        nickname: data.creator_nickname,
+        privacyLevelOptions: data.privacy_level_options || [],
+        commentDisabled: Boolean(data.comment_disabled),
+        duetDisabled: Boolean(data.duet_disabled),
+        stitchDisabled: Boolean(data.stitch_disabled),
+        maxVideoPostDurationSec: data.max_video_post_duration_sec,
+      };
+    } catch (error: any) {
+      console.error('Error fetching TikTok creator info:', error);
+      throw new Error(`Failed to fetch creator info: ${error.message}`);
+    }
+  }
+
+  /**
+   * Publish a video or photo post. TikTok pulls the media from the given URLs
+   * and processes it asynchronously, so the publish status is polled until
+   * the post is live or the poll budget runs out.
+   */
+  async publishPost(postData: TikTokPostData): Promise<TikTokPostResponse> {
+    try {
+      if (!postData.videoUrl && !postData.photoUrls?.length) {
+        throw new Error('TikTok posts require a video or at least one photo');
+      }
+
+      const creator = await this.getCreatorInfo();
+      const privacyLevel = this.resolvePrivacyLevel(postData.privacyLevel, creator.privacyLevelOptions);
+
+      const postInfo = {
+        title: postData.title,
+        privacy_level: privacyLevel,
+        disable_comment: postData.disableComment ?? creator.commentDisabled,
+        ...(postData.videoUrl && {
+          disable_duet: postData.disableDuet ?? creator.duetDisabled,
+          disable_stitch: postData.disableStitch ?? creator.stitchDisabled,
+        }),
+      };
+
+      const response = postData.videoUrl
+        ? await this.client.post('/post/publish/video/init/', {
+          post_info: postInfo,
+          source_info: {
+            source: 'PULL_FROM_URL',
+            video_url: postData.videoUrl,
+          },
+        })
+        : await this.client.post('/post/publish/content/init/', {
+          post_info: postInfo,
+          source_info: {
+            source: 'PULL_FROM_URL',
+            photo_cover_index: 0,
+            photo_images: postData.photoUrls,
+          },
+          post_mode: 'DIRECT_POST',
+          media_type: 'PHOTO',
+        });
+
+      const publishId: string = response.data.data.publish_id;
+      let status = await this.getPublishStatus(publishId);
+
+      for (let poll = 1; poll < this.maxStatusPolls && this.isProcessing(status); poll++) {
+        await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+        status = await this.getPublishStatus(publishId);
+      }
+
+      if (status.status === 'FAILED') {
+        throw new Error(`TikTok rejected the post: ${status.failReason || 'unknown reason'}`);
+      }
+
+      return {
+        publishId,
+        postId: status.postIds[0],
+        status: status.status,
+      };
+    } catch (error: any) {
+      console.error('Error posting to TikTok:', error);
+      throw new Error(`Failed to post content: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the processing status of a publish request
+   */
+  async getPublishStatus(publishId: string): Promise<TikTokPublishStatus> {
+    try {
+      const response = await this.client.post('/post/publish/status/fetch/', {
+        publish_id: publishId,
+      });
+      const data = response.data.data;
+
+      return {
+        publishId,
+        status: data.status,
+        failReason: data.fail_reason || undefined,
+        // The field name is misspelled in the TikTok API
+        postIds: (data.publicaly_available_post_id || []).map((id: string | number) => String(id)),
+      };
+    } catch (error: any) {
+      console.error('Error fetching TikTok publish status:', error);
+      throw new Error(`Failed to fetch publish status: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete a TikTok post. The Content Posting API does not expose deletion,
+   * so posts have to be removed from the TikTok app.
+   */
+  async deletePost(postId: string): Promise<boolean> {
+    throw new Error(`Failed to delete post: TikTok does not support deleting post ${postId} through the API`);
+  }
+
+  /**
+   * Get analytics for a specific video
+   */
+  async getPostAnalytics(videoId: string): Promise<TikTokAnalytics> {
+    try {
+      const response = await this.client.post('/video/query/', {
+        filters: {
+          video_ids: [videoId],
+        },
+      }, {
+        params: {
+          fields: 'id,view_count,like_count,comment_count,share_count',
+        },
+      });
+
+      const video = response.data.data?.videos?.[0];
+
+      return {
+        views: video?.view_count || 0,
+        likes: video?.like_count || 0,
+        comments: video?.comment_count || 0,
+        shares: video?.share_count || 0,
+      };
+    } catch (error: any) {
+      console.error('Error fetching TikTok video analytics:', error);
+      // Return zero analytics if access is not available
+      return {
+        views: 0,
+        likes: 0,
+        comments: 0,
+        shares: 0,
+      };
+    }
+  }
+
+  /**
+   * Refresh access token
+   */
+  static async refreshAccessToken(refreshToken: string, tokenUrl: string = TIKTOK_TOKEN_URL): Promise<{
+    accessToken: string;
+    expiresIn: number;
+    refreshToken?: string;
+  }> {
+    try {
+      const response = await axios.post(tokenUrl, new URLSearchParams({
+        client_key: config.social.tiktok.clientKey,
+        client_secret: config.social.tiktok.clientSecret,
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      }).toString(), {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      });
+
+      if (response.data.error && response.data.error !== 'ok') {
+        throw new Error(response.data.error_description || response.data.error);
+      }
+
+      return {
+        accessToken: response.data.access_token,
+        expiresIn: response.data.expires_in,
+        refreshToken: response.data.refresh_token,
+      };
+    } catch (error: any) {
+      console.error('Error refreshing TikTok access token:', error);
+      throw new Error(`Failed to refresh access token: ${error.response?.data?.error_description || error.message}`);
+    }
+  }
+
+  private resolvePrivacyLevel(
+    requested: TikTokPrivacyLevel | undefined,
+    allowed: TikTokPrivacyLevel[]
+  ): TikTokPrivacyLevel {
+    if (requested) {
+      if (allowed.length > 0 && !allowed.includes(requested)) {
+        throw new Error(`Privacy level ${requested} is not available for this creator`);
+      }
+      return requested;
+    }
+
+    // Unaudited apps may only post privately, so fall back to the most public allowed level
+    const preference: TikTokPrivacyLevel[] = ['PUBLIC_TO_EVERYONE', 'FOLLOWER_OF_CREATOR', 'MUTUAL_FOLLOW_FRIENDS', 'SELF_ONLY'];
+    return preference.find(level => allowed.includes(level)) || 'SELF_ONLY';
+  }
+
+  private isProcessing(status: TikTokPublishStatus): boolean {
+    return status.status === 'PROCESSING_UPLOAD' || status.status === 'PROCESSING_DOWNLOAD';
+  }
+}
@@ -1,9 +1,7 @@
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-import { config } from '../config/config';
 import { z } from 'zod';
 import Sentiment from 'sentiment';
 import * as natural from 'natural';
+import { LLMClient, LLMProviderName, llmClient } from './llm';
 
 const sentiment = new Sentiment();
 
@@ -123,21 +121,73 @@ const BrandVoiceRequestSchema = z.object({
   brandPersonality: z.array(z.string()).optional(),
 });
 
-export class ToneAnalysisService {
-  private openai: OpenAI;
-  private anthropic: Anthropic;
+const UnitScoreSchema = z.number().min(0).max(1);
+
+const ToneAnalysisResponseSchema = z.object({
+  overallTone: z.string(),
+  emotions: z.object({
+    joy: UnitScoreSchema.default(0),
+    anger: UnitScoreSchema.default(0),
+    fear: UnitScoreSchema.default(0),
+    sadness: UnitScoreSchema.default(0),
+    surprise: UnitScoreSchema.default(0),
+    trust: UnitScoreSchema.default(0),
+    anticipation: UnitScoreSchema.default(0),
+    disgust: UnitScoreSchema.default(0),
+  }).default({}),
+  formality: z.object({
+    level: z.enum(['very_formal', 'formal', 'neutral', 'informal', 'very_informal']),
+    score: UnitScoreSchema,
+  }),
+  brandAlignment: z.object({
+    score: UnitScoreSchema,
+    suggestions: z.array(z.string()).default([]),
+  }),
+  confidence: UnitScoreSchema.default(0.7),
+});
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: config.ai.openai.apiKey,
-    });
+const BrandVoiceResponseSchema = z.object({
+  primaryTone: z.string(),
+  secondaryTones: z.array(z.string()).default([]),
+  voiceCharacteristics: z.object({
+    personality: z.array(z.string()).default([]),
+    language: z.object({
+      vocabulary: z.enum(['simple', 'moderate', 'sophisticated']),
+      sentenceStructure: z.enum(['short', 'mixed', 'complex']),
+      punctuation: z.enum(['minimal', 'standard', 'expressive']),
+    }),
+    emotionalRange: z.array(z.string()).default([]),
+  }),
+  guidelines: z.object({
+    dos: z.array(z.string()).default([]),
+    donts: z.array(z.string()).default([]),
+    examples: z.object({
+      good: z.array(z.string()).default([]),
+      avoid: z.array(z.string()).default([]),
+    }).default({}),
+  }),
+  platformAdaptations: z.record(z.object({
+    tone: z.string(),
+    approach: z.string(),
+    examples: z.array(z.string()).default([]),
+  })).default({}),
+  confidence: UnitScoreSchema.default(0.7),
+});
 
-    this.anthropic = new Anthropic({
-      apiKey: config.ai.anthropic.apiKey,
-    });
+const BrandAlignmentResponseSchema = z.object({
+  score: UnitScoreSchema,
+  issues: z.array(z.string()).default([]),
+  suggestions: z.array(z.string()).default([]),
+});
+
+export class ToneAnalysisService {
+  private llm: LLMClient;
+
+  constructor(llm: LLMClient = llmClient) {
+    this.llm = llm;
   }
 
-  async analyzeTone(request: ToneAnalysisRequest, provider: 'openai' | 'anthropic' = 'openai'): Promise<ToneAnalysisResult> {
+  async analyzeTone(request: ToneAnalysisRequest, provider?: LLMProviderName): Promise<ToneAnalysisResult> {
     const validatedRequest = ToneAnalysisRequestSchema.parse(request);
     
     // Basic sentiment analysis
@@ -147,9 +197,15 @@ export class ToneAnalysisService {
     const complexity = this.calculateComplexity(validatedRequest.content);
     
     // AI-powered tone analysis
-    const aiAnalysis = provider === 'openai' 
-      ? await this.analyzeWithOpenAI(validatedRequest)
-      : await this.analyzeWithAnthropic(validatedRequest);
+    const { data: aiAnalysis } = await this.llm.generateStructured({
+      task: 'tone.analyze',
+      system: 'You are an expert in linguistic analysis and brand communication. Analyze the tone, emotions, and brand alignment of the given content. Return your analysis as a JSON object.',
+      prompt: this.buildToneAnalysisPrompt(validatedRequest),
+      schema: ToneAnalysisResponseSchema,
+      provider,
+      temperature: 0.3,
+      maxTokens: 1500,
+    });
 
     return {
       ...aiAnalysis,
@@ -162,106 +218,20 @@ export class ToneAnalysisService {
     };
   }
 
-  async generateBrandVoice(request: BrandVoiceRequest, provider: 'openai' | 'anthropic' = 'openai'): Promise<BrandVoiceResult> {
+  async generateBrandVoice(request: BrandVoiceRequest, provider?: LLMProviderName): Promise<BrandVoiceResult> {
     const validatedRequest = BrandVoiceRequestSchema.parse(request);
-    
-    if (provider === 'openai') {
-      return await this.generateBrandVoiceWithOpenAI(validatedRequest);
-    } else {
-      return await this.generateBrandVoiceWithAnthropic(validatedRequest);
-    }
-  }
 
-  private async analyzeWithOpenAI(request: ToneAnalysisRequest): Promise<Partial<ToneAnalysisResult>> {
-    const prompt = this.buildToneAnalysisPrompt(request);
-
-    const completion = await this.openai.chat.completions.create({
-      model: config.ai.openai.model,
-      messages: [
-        {
-          role: 'system',
-          content: `You are an expert in linguistic analysis and brand communication. Analyze the tone, emotions, and brand alignment of the given content. Return your analysis as a JSON object.`
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.3,
-      max_tokens: 1500,
-      response_format: { type: "json_object" }
-    });
-
-    return JSON.parse(completion.choices[0].message.content || '{}');
-  }
-
-  private async analyzeWithAnthropic(request: ToneAnalysisRequest): Promise<Partial<ToneAnalysisResult>> {
-    const prompt = this.buildToneAnalysisPrompt(request);
-
-    const message = await this.anthropic.messages.create({
-      model: config.ai.anthropic.model,
-      max_tokens: 1500,
-      messages: [{
-        role: 'user',
-        content: `You are an expert in linguistic analysis and brand communication. ${prompt}`
-      }]
-    });
-
-    const content = message.content[0].type === 'text' ? message.content[0].text : '{}';
-    
-    // Extract JSON from the response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
-    }
-    
-    return {};
-  }
-
-  private async generateBrandVoiceWithOpenAI(request: BrandVoiceRequest): Promise<BrandVoiceResult> {
-    const prompt = this.buildBrandVoicePrompt(request);
-
-    const completion = await this.openai.chat.completions.create({
-      model: config.ai.openai.model,
-      messages: [
-        {
-          role: 'system',
-          content: `You are a brand strategist specializing in voice and tone development. Create comprehensive brand voice guidelines that are actionable and specific to the organization's needs.`
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
+    const { data } = await this.llm.generateStructured({
+      task: 'tone.brandVoice',
+      system: "You are a brand strategist specializing in voice and tone development. Create comprehensive brand voice guidelines that are actionable and specific to the organization's needs.",
+      prompt: this.buildBrandVoicePrompt(validatedRequest),
+      schema: BrandVoiceResponseSchema,
+      provider,
       temperature: 0.4,
-      max_tokens: 3000,
-      response_format: { type: "json_object" }
+      maxTokens: 3000,
     });
 
-    return JSON.parse(completion.choices[0].message.content || '{}');
-  }
-
-  private async generateBrandVoiceWithAnthropic(request: BrandVoiceRequest): Promise<BrandVoiceResult> {
-    const prompt = this.buildBrandVoicePrompt(request);
-
-    const message = await this.anthropic.messages.create({
-      model: config.ai.anthropic.model,
-      max_tokens: 3000,
-      messages: [{
-        role: 'user',
-        content: `You are a brand strategist specializing in voice and tone development. ${prompt}`
-      }]
-    });
-
-    const content = message.content[0].type === 'text' ? message.content[0].text : '{}';
-    
-    // Extract JSON from the response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
-    }
-    
-    throw new Error('Failed to generate brand voice');
+    return data;
   }
 
   private buildToneAnalysisPrompt(request: ToneAnalysisRequest): string {
@@ -427,7 +397,7 @@ ORGANIZATION:
   }
 
   // Method to check brand alignment
-  async checkBrandAlignment(content: string, brandVoice: BrandVoiceResult): Promise<{
+  async checkBrandAlignment(content: string, brandVoice: BrandVoiceResult, provider?: LLMProviderName): Promise<{
     score: number;
     issues: string[];
     suggestions: string[];
@@ -447,15 +417,16 @@ Return JSON:
   "suggestions": ["suggestion1", "suggestion2"]
 }`;
 
-    const completion = await this.openai.chat.completions.create({
-      model: config.ai.openai.model,
-      messages: [{ role: 'user', content: prompt }],
+    const { data } = await this.llm.generateStructured({
+      task: 'tone.brandAlignment',
+      prompt,
+      schema: BrandAlignmentResponseSchema,
+      provider,
       temperature: 0.2,
-      max_tokens: 800,
-      response_format: { type: "json_object" }
+      maxTokens: 800,
     });
 
-    return JSON.parse(completion.choices[0].message.content || '{}');
+    return data;
   }
 }
 
@@ -210,6 +210,26 @@ export class TwitterService {
     }
   }
 
+  /**
+   * Get a public profile by @handle
+   */
+  async getUserByUsername(username: string): Promise<UserV2> {
+    try {
+      const result = await this.client.v2.userByUsername(username.replace(/^@/, ''), {
+        'user.fields': ['public_metrics', 'created_at', 'description', 'verified'],
+      });
+
+      if (!result.data) {
+        throw new Error('User not found');
+      }
+
+      return result.data;
+    } catch (error: any) {
+      console.error('Error fetching user by username:', error);
+      throw new Error(`Failed to fetch user by username: ${error.message}`);
+    }
+  }
+
   /**
    * Upload media for tweets
    */
@@ -226,6 +246,20 @@ export class TwitterService {
     }
   }
 
+  /**
+   * Attach alt text to uploaded media
+   */
+  async setMediaAltText(mediaId: string, altText: string): Promise<void> {
+    try {
+      await this.client.v1.createMediaMetadata(mediaId, {
+        alt_text: { text: altText.slice(0, 1000) },
+      });
+    } catch (error: any) {
+      console.error('Error setting media alt text:', error);
+      throw new Error(`Failed to set media alt text: ${error.message}`);
+    }
+  }
+
   /**
    * Get user's recent tweets with analytics
    */
@@ -235,6 +269,7 @@ export class TwitterService {
       maxResults?: number;
       sinceId?: string;
       untilId?: string;
+      startTime?: Date;
     } = {}
   ): Promise<TweetV2[]> {
     try {
@@ -242,6 +277,7 @@ export class TwitterService {
         max_results: options.maxResults || 10,
         since_id: options.sinceId,
         until_id: options.untilId,
+        start_time: options.startTime?.toISOString(),
         'tweet.fields': [
           'public_metrics',
           'created_at',
@@ -0,0 +1,695 @@
+import { PrismaClient, Prisma, AIStrategy, WeeklySummary } from '@prisma/client';
+import { addDays, addHours } from 'date-fns';
+import { formatInTimeZone, utcToZonedTime, zonedTimeToUtc } from 'date-fns-tz';
+import { z } from 'zod';
+import { LLMClient, llmClient } from './llm';
+import { EmailService } from './email-service';
+import { config } from '../config/config';
+import { ValidationError } from '../utils/errors';
+
+export interface WeekTotals {
+  posts: number;
+  impressions: number;
+  engagements: number;
+  clicks: number;
+  engagementRate: number; // Engagements per impression, as a percentage
+  ctr: number;
+}
+
+export interface PostPerformance {
+  scheduledPostId: string;
+  platform: string;
+  publishedAt: Date;
+  title: string | null;
+  excerpt: string;
+  pillar: string | null;
+  impressions: number;
+  engagements: number;
+  clicks: number;
+  engagementRate: number;
+}
+
+export interface WeeklyPerformance {
+  weekStart: Date;
+  weekEnd: Date;
+  timeZone: string;
+  totals: WeekTotals;
+  previousWeek: WeekTotals;
+  platforms: Array<WeekTotals & { platform: string }>;
+  topPosts: PostPerformance[];
+  bottomPosts: PostPerformance[];
+}
+
+export type StrategyArea = 'positioning' | 'channelPlan' | 'cadence';
+
+export interface StrategyChange {
+  area: StrategyArea;
+  title: string;
+  change: string;
+  rationale: string;
+  accepted?: boolean;
+}
+
+export interface ContentPivot {
+  title: string;
+  rationale: string;
+  examples: string[];
+  accepted?: boolean;
+}
+
+// Stored in WeeklySummary.recommendations
+export interface WeeklyRecommendations {
+  strategyChanges: StrategyChange[];
+  contentPivots: ContentPivot[];
+}
+
+export interface AcceptRecommendationsRequest {
+  organizationId: string;
+  summaryId: string;
+  strategyChanges?: number[]; // Indexes to accept; all when omitted
+  contentPivots?: number[];
+  now?: Date;
+}
+
+export interface GenerationSummary {
+  generated: number;
+  skipped: number; // Already had a summary for the week
+  failed: number;
+}
+
+interface PostRow {
+  scheduledPostId: string;
+  platform: string;
+  publishedAt: Date;
+  title: string | null;
+  excerpt: string;
+  pillar: string | null;
+  impressions: number;
+  engagements: number;
+  clicks: number;
+}
+
+const WeeklyCoachResponseSchema = z.object({
+  summary: z.string().min(1),
+  keyInsights: z.array(z.object({
+    title: z.string(),
+    detail: z.string(),
+  })).max(6).default([]),
+  strategyChanges: z.array(z.object({
+    area: z.enum(['positioning', 'channelPlan', 'cadence']),
+    title: z.string(),
+    change: z.string(),
+    rationale: z.string(),
+  })).max(5).default([]),
+  contentPivots: z.array(z.object({
+    title: z.string(),
+    rationale: z.string(),
+    examples: z.array(z.string()).max(3).default([]),
+  })).max(5).default([]),
+});
+
+type CoachResponse = z.infer<typeof WeeklyCoachResponseSchema>;
+
+const COACH_RESPONSE_FORMAT = `{
+  "summary": "Two or three sentences on how the week went",
+  "keyInsights": [{ "title": "...", "detail": "..." }],
+  "strategyChanges": [{ "area": "positioning" | "channelPlan" | "cadence", "title": "...", "change": "...", "rationale": "..." }],
+  "contentPivots": [{ "title": "...", "rationale": "...", "examples": ["..."] }]
+}`;
+
+// Engagement rates on fewer impressions than this are too noisy to rank by
+const MIN_RANKED_IMPRESSIONS = 100;
+const RANKED_POSTS = 3;
+const TRANSACTION_TIMEOUT_MS = 30000;
+// Local hour on Monday from which last week's report is generated
+const REPORT_HOUR = 6;
+
+/**
+ * The Monday 00:00 in `timeZone` that starts the week containing `date`
+ */
+export function weekStartOf(date: Date, timeZone: string = 'UTC'): Date {
+  const local = utcToZonedTime(date, timeZone);
+  const start = new Date(local.getFullYear(), local.getMonth(), local.getDate() - ((local.getDay() + 6) % 7));
+  return zonedTimeToUtc(start, timeZone);
+}
+
+/**
+ * The week start `weeks` weeks away, on local time so DST changes do not
+ * move it off midnight
+ */
+function shiftWeeks(weekStart: Date, weeks: number, timeZone: string): Date {
+  return zonedTimeToUtc(addDays(utcToZonedTime(weekStart, timeZone), weeks * 7), timeZone);
+}
+
+/**
+ * Weekly coach reports. Each Monday the previous week's published posts are
+ * scored from their latest engagement totals, the LLM turns the numbers into
+ * strategy changes and content pivots, and the result is stored as a
+ * WeeklySummary and emailed to the organization's owner. Accepting the
+ * recommendations records them on a new version of the active AIStrategy.
+ * Weeks run Monday to Sunday in the organization's time zone.
+ */
+export class WeeklyCoachService {
+  constructor(
+    private prisma: PrismaClient,
+    private llm: LLMClient = llmClient,
+    private email: EmailService = new EmailService()
+  ) {}
+
+  /**
+   * Create the summary for a finished week (the last one by default). An
+   * existing summary is returned as is unless `regenerate` is set. Resolves
+   * to null when the organization does not exist.
+   */
+  async generate(
+    organizationId: string,
+    options: { weekStart?: Date; regenerate?: boolean; sendEmail?: boolean; now?: Date } = {}
+  ): Promise<WeeklySummary | null> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { name: true, category: true, timeZone: true, user: { select: { email: true, name: true } } },
+    });
+    if (!organization) {
+      return null;
+    }
+
+    const now = options.now || new Date();
+    const { timeZone } = organization;
+    const weekStart = options.weekStart || shiftWeeks(weekStartOf(now, timeZone), -1, timeZone);
+    const weekEnd = shiftWeeks(weekStart, 1, timeZone);
+    if (weekStartOf(weekStart, timeZone).getTime() !== weekStart.getTime()) {
+      throw new ValidationError(`weekStart must be a Monday at 00:00 in ${timeZone}`, 'weekStart', weekStart);
+    }
+    if (weekEnd > now) {
+      throw new ValidationError('The week has not finished yet', 'weekStart', weekStart);
+    }
+
+    const existing = await this.prisma.weeklySummary.findUnique({
+      where: { organizationId_weekStart: { organizationId, weekStart } },
+    });
+    if (existing && !options.regenerate) {
+      return existing;
+    }
+    if (existing?.accepted) {
+      throw new ValidationError('An accepted summary cannot be regenerated', 'summaryId', existing.id);
+    }
+
+    const performance = await this.weekPerformance(organizationId, weekStart, now, timeZone);
+    const strategy = await this.activeStrategy(organizationId);
+    const coach = performance.totals.posts > 0
+      ? await this.askCoach(organization, strategy, performance)
+      : null;
+
+    const recommendations: WeeklyRecommendations = {
+      strategyChanges: coach?.data.strategyChanges || [],
+      contentPivots: coach?.data.contentPivots || [],
+    };
+    const data = {
+      weekEnd: new Date(weekEnd.getTime() - 1),
+      reportMd: this.renderMarkdown(organization.name, performance, coach?.data || null),
+      recommendations: recommendations as unknown as Prisma.InputJsonValue,
+      keyInsights: {
+        insights: coach?.data.keyInsights || [],
+        totals: performance.totals,
+        previousWeek: performance.previousWeek,
+        platforms: performance.platforms,
+        topPosts: performance.topPosts,
+        bottomPosts: performance.bottomPosts,
+      } as unknown as Prisma.InputJsonValue,
+      totalPosts: performance.totals.posts,
+      avgEngagement: performance.totals.engagementRate,
+      topPerformer: performance.topPosts[0]?.scheduledPostId ?? null,
+      generatedBy: coach?.generatedBy ?? null,
+    };
+
+    let summary = await this.prisma.weeklySummary.upsert({
+      where: { organizationId_weekStart: { organizationId, weekStart } },
+      create: { organizationId, weekStart, ...data },
+      update: data,
+    });
+
+    if (options.sendEmail !== false && !summary.emailedAt && organization.user?.email) {
+      summary = await this.sendReport(summary, organization.name, organization.user, performance, now);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Summaries for last week, for every organization with a connected account
+   * where it is past 06:00 on Monday in the organization's time zone
+   */
+  async generateDue(now: Date = new Date()): Promise<GenerationSummary> {
+    const organizations = await this.prisma.organization.findMany({
+      where: { socialAccounts: { some: { isActive: true } } },
+      select: {
+        id: true,
+        timeZone: true,
+        weeklySummaries: { where: { weekStart: { gte: addDays(now, -15) } }, select: { weekStart: true } },
+      },
+    });
+
+    const result: GenerationSummary = { generated: 0, skipped: 0, failed: 0 };
+    for (const organization of organizations) {
+      const currentWeek = weekStartOf(now, organization.timeZone);
+      const weekStart = shiftWeeks(currentWeek, -1, organization.timeZone);
+      if (now < addHours(currentWeek, REPORT_HOUR)
+        || organization.weeklySummaries.some((summary: { weekStart: Date }) => summary.weekStart.getTime() === weekStart.getTime())) {
+        continue;
+      }
+
+      try {
+        const summary = await this.generate(organization.id, { weekStart, now });
+        if (summary) {
+          result.generated++;
+        } else {
+          result.skipped++;
+        }
+      } catch (error) {
+        console.error(`Weekly summary failed for ${organization.id}:`, error);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  async list(organizationId: string, limit = 12): Promise<WeeklySummary[]> {
+    return this.prisma.weeklySummary.findMany({
+      where: { organizationId },
+      orderBy: { weekStart: 'desc' },
+      take: limit,
+    });
+  }
+
+  async get(organizationId: string, summaryId: string): Promise<WeeklySummary | null> {
+    return this.prisma.weeklySummary.findFirst({ where: { id: summaryId, organizationId } });
+  }
+
+  /**
+   * Apply the chosen recommendations to a new version of the active strategy,
+   * which replaces it. Strategy changes are appended to `weeklyAdjustments`
+   * on the area they target; content pivots go on the calendar skeleton.
+   * Resolves to null when the summary does not exist in the organization.
+   */
+  async accept(request: AcceptRecommendationsRequest): Promise<{ summary: WeeklySummary; strategy: AIStrategy } | null> {
+    const now = request.now || new Date();
+
+    return this.prisma.$transaction(async (tx) => {
+      const db = tx as PrismaClient;
+      const summary = await db.weeklySummary.findFirst({
+        where: { id: request.summaryId, organizationId: request.organizationId },
+      });
+      if (!summary) {
+        return null;
+      }
+      if (summary.accepted) {
+        throw new ValidationError('The recommendations were already accepted', 'summaryId', summary.id);
+      }
+
+      const recommendations = (summary.recommendations || { strategyChanges: [], contentPivots: [] }) as unknown as WeeklyRecommendations;
+      const changes = this.select(recommendations.strategyChanges, request.strategyChanges, 'strategyChanges');
+      const pivots = this.select(recommendations.contentPivots, request.contentPivots, 'contentPivots');
+      if (changes.length === 0 && pivots.length === 0) {
+        throw new ValidationError('There are no recommendations to accept', 'summaryId', summary.id);
+      }
+
+      const active = await db.aIStrategy.findFirst({
+        where: { organizationId: request.organizationId, status: 'ACTIVE' },
+        orderBy: { version: 'desc' },
+      });
+      if (!active) {
+        throw new ValidationError('There is no active strategy to apply the recommendations to', 'organizationId', request.organizationId);
+      }
+
+      const source = { summaryId: summary.id, weekStart: summary.weekStart.toISOString(), acceptedAt: now.toISOString() };
+      const adjustments = (area: StrategyArea) => changes
+        .filter(change => change.area === area)
+        .map(change => ({ ...source, title: change.title, change: change.change, rationale: change.rationale }));
+      const versions = await db.aIStrategy.count({ where: { organizationId: request.organizationId } });
+
+      const strategy = await db.aIStrategy.create({
+        data: {
+          organizationId: request.organizationId,
+          version: versions + 1,
+          status: 'ACTIVE',
+          positioning: this.withAdjustments(active.positioning, adjustments('positioning')),
+          audienceSegments: active.audienceSegments as Prisma.InputJsonValue,
+          contentPillars: active.contentPillars as Prisma.InputJsonValue,
+          channelPlan: this.withAdjustments(active.channelPlan, adjustments('channelPlan')),
+          cadence: this.withAdjustments(active.cadence, adjustments('cadence')),
+          calendarSkeleton: this.withAdjustments(active.calendarSkeleton, pivots.map(pivot => ({
+            ...source,
+            title: pivot.title,
+            rationale: pivot.rationale,
+            examples: pivot.examples,
+          }))),
+          generatedBy: active.generatedBy,
+          confidence: active.confidence,
+          acceptedAt: now,
+        },
+      });
+      await db.aIStrategy.updateMany({
+        where: { organizationId: request.organizationId, id: { not: strategy.id }, status: 'ACTIVE' },
+        data: { status: 'ARCHIVED' },
+      });
+
+      const updated = await db.weeklySummary.update({
+        where: { id: summary.id },
+        data: {
+          accepted: true,
+          acceptedAt: now,
+          strategyId: strategy.id,
+          recommendations: {
+            strategyChanges: recommendations.strategyChanges.map(change => ({ ...change, accepted: changes.includes(change) })),
+            contentPivots: recommendations.contentPivots.map(pivot => ({ ...pivot, accepted: pivots.includes(pivot) })),
+          } as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      return { summary: updated, strategy };
+    }, { timeout: TRANSACTION_TIMEOUT_MS });
+  }
+
+  /**
+   * Totals, per-platform breakdown and best and worst posts for the week.
+   * Each post counts with its latest engagement totals, so posts from late
+   * in the week have had less time to collect engagement.
+   */
+  async weekPerformance(
+    organizationId: string,
+    weekStart: Date,
+    now: Date = new Date(),
+    timeZone: string = 'UTC'
+  ): Promise<WeeklyPerformance> {
+    const weekEnd = shiftWeeks(weekStart, 1, timeZone);
+    const [posts, previousPosts] = await Promise.all([
+      this.postPerformance(organizationId, weekStart, weekEnd, now),
+      this.postPerformance(organizationId, shiftWeeks(weekStart, -1, timeZone), weekStart, now),
+    ]);
+
+    const platforms = [...new Set(posts.map(post => post.platform))].sort().map(platform => ({
+      platform,
+      ...this.totals(posts.filter(post => post.platform === platform)),
+    }));
+
+    // Ranked by engagement rate where there are enough impressions to trust it
+    const measured = posts.filter(post => post.impressions >= MIN_RANKED_IMPRESSIONS);
+    const ranked = measured.length > 0
+      ? [...measured].sort((a, b) => b.engagementRate - a.engagementRate || b.engagements - a.engagements)
+      : [...posts].sort((a, b) => b.engagements - a.engagements);
+    const topPosts = ranked.slice(0, RANKED_POSTS);
+
+    return {
+      weekStart,
+      weekEnd,
+      timeZone,
+      totals: this.totals(posts),
+      previousWeek: this.totals(previousPosts),
+      platforms,
+      topPosts,
+      bottomPosts: ranked.slice(topPosts.length).slice(-RANKED_POSTS).reverse(),
+    };
+  }
+
+  private async postPerformance(organizationId: string, startDate: Date, endDate: Date, asOf: Date): Promise<PostPerformance[]> {
+    const rows = await this.prisma.$queryRaw<PostRow[]>`
+      SELECT
+        sp."id" AS "scheduledPostId",
+        sa."platform"::text AS "platform",
+        sp."publishedAt",
+        cp."title",
+        left(cp."body", 200) AS "excerpt",
+        pl."name" AS "pillar",
+        COALESCE(l."impressions", 0)::int AS "impressions",
+        COALESCE(l."likes" + l."comments" + l."shares", 0)::int AS "engagements",
+        COALESCE(l."clicks", 0)::int AS "clicks"
+      FROM "public"."scheduled_posts" sp
+      JOIN "public"."social_accounts" sa ON sa."id" = sp."socialAccountId"
+      JOIN "public"."content_pieces" cp ON cp."id" = sp."contentPieceId"
+      LEFT JOIN "public"."content_pillars" pl ON pl."id" = cp."pillarId"
+      LEFT JOIN LATERAL (
+        SELECT a."impressions", a."likes", a."comments", a."shares", a."clicks"
+        FROM "public"."analytics" a
+        WHERE a."scheduledPostId" = sp."id" AND a."metricType" = 'ENGAGEMENT' AND a."collectedAt" <= ${asOf}
+        ORDER BY a."collectedAt" DESC
+        LIMIT 1
+      ) l ON true
+      WHERE sp."organizationId" = ${organizationId}
+        AND sp."status" = 'PUBLISHED'
+        AND sp."publishedAt" >= ${startDate}
+        AND sp."publishedAt" < ${endDate}
+      ORDER BY sp."publishedAt"`;
+
+    return rows.map(row => ({ ...row, engagementRate: this.percentage(row.engagements, row.impressions) }));
+  }
+
+  private totals(posts: PostPerformance[]): WeekTotals {
+    const impressions = posts.reduce((sum, post) => sum + post.impressions, 0);
+    const engagements = posts.reduce((sum, post) => sum + post.engagements, 0);
+    const clicks = posts.reduce((sum, post) => sum + post.clicks, 0);
+
+    return {
+      posts: posts.length,
+      impressions,
+      engagements,
+      clicks,
+      engagementRate: this.percentage(engagements, impressions),
+      ctr: this.percentage(clicks, impressions),
+    };
+  }
+
+  private async activeStrategy(organizationId: string): Promise<AIStrategy | null> {
+    return this.prisma.aIStrategy.findFirst({
+      where: { organizationId, status: 'ACTIVE' },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  /**
+   * Recommendations from the LLM. A failure leaves the report with the
+   * numbers only rather than failing the week.
+   */
+  private async askCoach(
+    organization: { name: string; category: string | null },
+    strategy: AIStrategy | null,
+    performance: WeeklyPerformance
+  ): Promise<{ data: CoachResponse; generatedBy: string } | null> {
+    try {
+      const { data, generatedBy } = await this.llm.generateStructured({
+        task: 'coach.weekly',
+        system: `You are a social media coach for startups. You review last week's numbers and recommend specific, testable changes. Ground every insight and recommendation in the numbers you are given and quote them; never invent metrics.
+
+Return your response as a valid JSON object with the following structure:
+${COACH_RESPONSE_FORMAT}`,
+        prompt: this.buildCoachPrompt(organization, strategy, performance),
+        schema: WeeklyCoachResponseSchema,
+        temperature: 0.4,
+        maxTokens: 2000,
+      });
+      return { data, generatedBy };
+    } catch (error) {
+      console.error('Weekly coach recommendations failed:', error);
+      return null;
+    }
+  }
+
+  private buildCoachPrompt(
+    organization: { name: string; category: string | null },
+    strategy: AIStrategy | null,
+    performance: WeeklyPerformance
+  ): string {
+    const { totals, previousWeek } = performance;
+    const describePost = (post: PostPerformance) =>
+      `- [${post.platform}${post.pillar ? `, pillar: ${post.pillar}` : ''}] "${post.title || post.excerpt}": ` +
+      `${post.engagementRate}% engagement (${post.engagements} engagements, ${post.impressions} impressions, ${post.clicks} clicks)`;
+
+    let prompt = `Review last week for ${organization.name} (${organization.category || 'category not specified'}).
+
+WEEK: ${formatInTimeZone(performance.weekStart, performance.timeZone, 'yyyy-MM-dd')} to ${formatInTimeZone(new Date(performance.weekEnd.getTime() - 1), performance.timeZone, 'yyyy-MM-dd')}
+
+TOTALS (previous week in brackets):
+- Posts: ${totals.posts} (${previousWeek.posts})
+- Impressions: ${totals.impressions} (${previousWeek.impressions})
+- Engagements: ${totals.engagements} (${previousWeek.engagements})
+- Engagement rate: ${totals.engagementRate}% (${previousWeek.engagementRate}%)
+- Click-through rate: ${totals.ctr}% (${previousWeek.ctr}%)
+
+BY PLATFORM:
+${performance.platforms.map(platform => `- ${platform.platform}: ${platform.posts} posts, ${platform.engagementRate}% engagement, ${platform.ctr}% CTR`).join('\n')}
+
+TOP POSTS:
+${performance.topPosts.map(describePost).join('\n')}`;
+
+    if (performance.bottomPosts.length > 0) {
+      prompt += `
+
+WEAKEST POSTS:
+${performance.bottomPosts.map(describePost).join('\n')}`;
+    }
+
+    if (strategy) {
+      prompt += `
+
+CURRENT STRATEGY (version ${strategy.version}):
+- Content pillars: ${JSON.stringify(strategy.contentPillars)}
+- Channel plan: ${JSON.stringify(strategy.channelPlan)}
+- Cadence: ${JSON.stringify(strategy.cadence)}`;
+    }
+
+    prompt += `
+
+Recommend up to three strategy changes (positioning, channel plan or cadence) and up to three content pivots. Explain each with the numbers above.`;
+
+    return prompt;
+  }
+
+  private renderMarkdown(organizationName: string, performance: WeeklyPerformance, coach: CoachResponse | null): string {
+    const { totals, previousWeek } = performance;
+    const lines = [`# ${organizationName}: week of ${this.weekLabel(performance)}`, ''];
+
+    if (totals.posts === 0) {
+      lines.push('Nothing was published this week, so there is nothing to review.');
+      return lines.join('\n');
+    }
+
+    if (coach) {
+      lines.push(coach.summary, '');
+    }
+
+    lines.push(
+      '## This Week',
+      '',
+      '| Metric | This week | Last week | Change |',
+      '| --- | --- | --- | --- |',
+      this.tableRow('Posts', totals.posts, previousWeek.posts),
+      this.tableRow('Impressions', totals.impressions, previousWeek.impressions),
+      this.tableRow('Engagements', totals.engagements, previousWeek.engagements),
+      this.tableRow('Engagement rate', totals.engagementRate, previousWeek.engagementRate, '%'),
+      this.tableRow('Click-through rate', totals.ctr, previousWeek.ctr, '%'),
+      '',
+      '## By Platform',
+      '',
+      ...performance.platforms.map(platform =>
+        `- **${platform.platform}**: ${platform.posts} posts, ${platform.engagementRate}% engagement, ${platform.ctr}% CTR`),
+      '',
+      '## Top Performers',
+      '',
+      ...performance.topPosts.map(post => this.postLine(post)),
+    );
+
+    if (performance.bottomPosts.length > 0) {
+      lines.push('', '## Needs Attention', '', ...performance.bottomPosts.map(post => this.postLine(post)));
+    }
+
+    if (coach && coach.keyInsights.length > 0) {
+      lines.push('', '## Key Insights', '', ...coach.keyInsights.map(insight => `- **${insight.title}**: ${insight.detail}`));
+    }
+
+    if (coach && (coach.strategyChanges.length > 0 || coach.contentPivots.length > 0)) {
+      lines.push('', '## Recommendations');
+      if (coach.strategyChanges.length > 0) {
+        lines.push('', '### Strategy Changes', '', ...coach.strategyChanges.map((change, index) =>
+          `${index + 1}. **${change.title}** (${change.area}): ${change.change} _Why:_ ${change.rationale}`));
+      }
+      if (coach.contentPivots.length > 0) {
+        lines.push('', '### Content Pivots', '', ...coach.contentPivots.map((pivot, index) =>
+          `${index + 1}. **${pivot.title}**: ${pivot.rationale}${pivot.examples.length > 0 ? ` For example: ${pivot.examples.join('; ')}` : ''}`));
+      }
+    } else if (!coach) {
+      lines.push('', '_Recommendations could not be generated this week._');
+    }
+
+    return lines.join('\n');
+  }
+
+  private async sendReport(
+    summary: WeeklySummary,
+    organizationName: string,
+    owner: { email: string; name: string | null },
+    performance: WeeklyPerformance,
+    now: Date
+  ): Promise<WeeklySummary> {
+    const link = `${config.email.appUrl}/analytics/weekly/${summary.id}`;
+    const { totals } = performance;
+
+    try {
+      const sent = await this.email.send({
+        to: owner.email,
+        subject: `Your weekly report for ${organizationName}: week of ${this.weekLabel(performance)}`,
+        text: `${summary.reportMd}\n\nReview and accept the recommendations: ${link}\n`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h1 style="color: #333;">Week of ${this.escapeHtml(this.weekLabel(performance))}</h1>
+            <p>Hi ${this.escapeHtml(owner.name || 'there')},</p>
+            <p>${totals.posts} posts, ${totals.impressions.toLocaleString('en-US')} impressions and ${totals.engagements.toLocaleString('en-US')} engagements (${totals.engagementRate}% engagement rate) for ${this.escapeHtml(organizationName)} last week.</p>
+            <pre style="white-space: pre-wrap; font-family: inherit; background: #f5f5f5; padding: 16px; border-radius: 8px;">${this.escapeHtml(summary.reportMd)}</pre>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${link}" style="background: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px;">Review Recommendations</a>
+            </div>
+          </div>
+        `,
+      });
+
+      return sent
+        ? await this.prisma.weeklySummary.update({ where: { id: summary.id }, data: { emailedAt: now } })
+        : summary;
+    } catch (error) {
+      // The summary is stored either way; the email is not retried
+      console.error(`Failed to email weekly summary ${summary.id}:`, error);
+      return summary;
+    }
+  }
+
+  private select<T>(items: T[], indexes: number[] | undefined, field: string): T[] {
+    if (!indexes) {
+      return items;
+    }
+    const invalid = indexes.find(index => !Number.isInteger(index) || index < 0 || index >= items.length);
+    if (invalid !== undefined) {
+      throw new ValidationError(`No recommendation at index ${invalid}`, field, invalid);
+    }
+    return items.filter((_, index) => indexes.includes(index));
+  }
+
+  /**
+   * Strategy areas are JSON objects; the adjustments accumulate across weeks
+   */
+  private withAdjustments(value: Prisma.JsonValue, adjustments: object[]): Prisma.InputJsonValue {
+    const base = value && typeof value === 'object' && !Array.isArray(value) ? value as Prisma.JsonObject : {};
+    if (adjustments.length === 0) {
+      return base as Prisma.InputJsonValue;
+    }
+
+    const existing = Array.isArray(base.weeklyAdjustments) ? base.weeklyAdjustments : [];
+    return { ...base, weeklyAdjustments: [...existing, ...adjustments] } as Prisma.InputJsonValue;
+  }
+
+  private tableRow(label: string, current: number, previous: number, unit = ''): string {
+    const change = previous !== 0 ? `${current >= previous ? '+' : ''}${this.round(((current - previous) / previous) * 100, 1)}%` : 'n/a';
+    return `| ${label} | ${current.toLocaleString('en-US')}${unit} | ${previous.toLocaleString('en-US')}${unit} | ${change} |`;
+  }
+
+  private postLine(post: PostPerformance): string {
+    const label = post.title || `${post.excerpt.slice(0, 80)}${post.excerpt.length > 80 ? '...' : ''}`;
+    return `- ${label} (${post.platform}): ${post.engagementRate}% engagement, ${post.engagements} engagements on ${post.impressions.toLocaleString('en-US')} impressions`;
+  }
+
+  private weekLabel(performance: WeeklyPerformance): string {
+    // Formatted in the organization's time zone so the label matches the week's bounds
+    return new Intl.DateTimeFormat('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: performance.timeZone }).format(performance.weekStart);
+  }
+
+  private escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  private percentage(part: number, whole: number): number {
+    return whole > 0 ? this.round((part / whole) * 100) : 0;
+  }
+
+  private round(value: number, decimals = 2): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+  }
+}
@@ -0,0 +1,238 @@
+import axios, { AxiosInstance } from 'axios';
+import { config } from '../config/config';
+import { decrypt } from '../utils/encryption';
+
+export const YOUTUBE_API_BASE_URL = 'https://www.googleapis.com';
+export const YOUTUBE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+export interface YouTubeCredentials {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: Date;
+}
+
+export interface YouTubeClientOptions {
+  baseURL?: string;
+}
+
+export interface YouTubeShortData {
+  videoUrl: string;
+  title: string;
+  description?: string;
+  tags?: string[];
+  categoryId?: string;
+  privacyStatus?: 'public' | 'unlisted' | 'private';
+  madeForKids?: boolean;
+}
+
+export interface YouTubeVideoResponse {
+  id: string;
+  title: string;
+  privacyStatus: string;
+  uploadStatus: string;
+}
+
+export interface YouTubeAnalytics {
+  views: number;
+  likes: number;
+  comments: number;
+  favorites: number;
+}
+
+const TITLE_LIMIT = 100;
+const DESCRIPTION_LIMIT = 5000;
+
+export class YouTubeService {
+  private client: AxiosInstance;
+  private accessToken: string;
+
+  constructor(credentials: YouTubeCredentials, options: YouTubeClientOptions = {}) {
+    this.accessToken = credentials.accessToken;
+
+    this.client = axios.create({
+      baseURL: options.baseURL || YOUTUBE_API_BASE_URL,
+      headers: {
+        'Authorization': `Bearer ${this.accessToken}`,
+      },
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+    });
+
+    // Add response interceptor for error handling
+    this.client.interceptors.response.use(
+      response => response,
+      error => {
+        console.error('YouTube API Error:', error.response?.data || error.message);
+        throw new Error(`YouTube API Error: ${error.response?.data?.error?.message || error.message}`);
+      }
+    );
+  }
+
+  /**
+   * Create a new YouTube client with decrypted credentials
+   */
+  static async createWithEncryptedCredentials(
+    encryptedAccessToken: string,
+    encryptedRefreshToken?: string,
+    expiresAt?: Date,
+    options?: YouTubeClientOptions
+  ): Promise<YouTubeService> {
+    const credentials: YouTubeCredentials = {
+      accessToken: decrypt(encryptedAccessToken),
+      refreshToken: encryptedRefreshToken ? decrypt(encryptedRefreshToken) : undefined,
+      expiresAt,
+    };
+
+    return new YouTubeService(credentials, options);
+  }
+
+  /**
+   * Upload a Short. The video is downloaded from its media URL and sent to
+   * YouTube through a resumable upload session. YouTube classifies vertical
+   * videos as Shorts on its own; the #Shorts tag only helps discovery.
+   */
+  async uploadShort(shortData: YouTubeShortData): Promise<YouTubeVideoResponse> {
+    try {
+      const video = await axios.get<ArrayBuffer>(shortData.videoUrl, { responseType: 'arraybuffer' });
+      const videoBuffer = Buffer.from(video.data);
+      const contentType = String(video.headers['content-type'] || 'video/mp4');
+
+      const sessionResponse = await this.client.post('/upload/youtube/v3/videos', {
+        snippet: {
+          title: this.sanitize(shortData.title, TITLE_LIMIT),
+          description: this.buildDescription(shortData.description),
+          tags: shortData.tags,
+          categoryId: shortData.categoryId || '22', // People & Blogs
+        },
+        status: {
+          privacyStatus: shortData.privacyStatus || 'public',
+          selfDeclaredMadeForKids: Boolean(shortData.madeForKids),
+        },
+      }, {
+        params: {
+          uploadType: 'resumable',
+          part: 'snippet,status',
+        },
+        headers: {
+          'Content-Type': 'application/json; charset=UTF-8',
+          'X-Upload-Content-Type': contentType,
+          'X-Upload-Content-Length': String(videoBuffer.length),
+        },
+      });
+
+      const uploadUrl = sessionResponse.headers['location'];
+      if (!uploadUrl) {
+        throw new Error('YouTube did not return an upload session URL');
+      }
+
+      const uploadResponse = await this.client.put(uploadUrl, videoBuffer, {
+        headers: {
+          'Content-Type': contentType,
+        },
+      });
+
+      return {
+        id: uploadResponse.data.id,
+        title: uploadResponse.data.snippet?.title,
+        privacyStatus: uploadResponse.data.status?.privacyStatus,
+        uploadStatus: uploadResponse.data.status?.uploadStatus,
+      };
+    } catch (error: any) {
+      console.error('Error uploading YouTube Short:', error);
+      throw new Error(`Failed to upload Short: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete a video
+   */
+  async deleteVideo(videoId: string): Promise<boolean> {
+    try {
+      await this.client.delete('/youtube/v3/videos', {
+        params: { id: videoId },
+      });
+      return true;
+    } catch (error: any) {
+      console.error('Error deleting YouTube video:', error);
+      throw new Error(`Failed to delete video: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get analytics for a specific video
+   */
+  async getVideoAnalytics(videoId: string): Promise<YouTubeAnalytics> {
+    try {
+      const response = await this.client.get('/youtube/v3/videos', {
+        params: {
+          part: 'statistics',
+          id: videoId,
+        },
+      });
+
+      // The Data API returns counts as strings
+      const stats = response.data.items?.[0]?.statistics;
+
+      return {
+        views: Number(stats?.viewCount || 0),
+        likes: Number(stats?.likeCount || 0),
+        comments: Number(stats?.commentCount || 0),
+        favorites: Number(stats?.favoriteCount || 0),
+      };
+    } catch (error: any) {
+      console.error('Error fetching YouTube video analytics:', error);
+      // Return zero analytics if access is not available
+      return {
+        views: 0,
+        likes: 0,
+        comments: 0,
+        favorites: 0,
+      };
+    }
+  }
+
+  /**
+   * Refresh access token
+   */
+  static async refreshAccessToken(refreshToken: string, tokenUrl: string = YOUTUBE_TOKEN_URL): Promise<{
+    accessToken: string;
+    expiresIn: number;
+    refreshToken?: string;
+  }> {
+    try {
+      const response = await axios.post(tokenUrl, new URLSearchParams({
+        client_id: config.social.youtube.clientId,
+        client_secret: config.social.youtube.clientSecret,
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      }).toString(), {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      });
+
+      return {
+        accessToken: response.data.access_token,
+        expiresIn: response.data.expires_in,
+        // Google only returns a refresh token on the initial consent
+        refreshToken: response.data.refresh_token || refreshToken,
+      };
+    } catch (error: any) {
+      console.error('Error refreshing YouTube access token:', error);
+      throw new Error(`Failed to refresh access token: ${error.response?.data?.error_description || error.message}`);
+    }
+  }
+
+  private buildDescription(description?: string): string {
+    const text = description?.trim() || '';
+    const tagged = /#shorts\b/i.test(text) ? text : `${text}\n\n#Shorts`.trim();
+    return this.sanitize(tagged, DESCRIPTION_LIMIT);
+  }
+
+  /**
+   * YouTube rejects angle brackets in titles and descriptions
+   */
+  private sanitize(value: string, limit: number): string {
+    return value.replace(/[<>]/g, '').slice(0, limit);
+  }
+}
@@ -183,7 +183,12 @@ export function verifyWebhookSignature(
     .createHmac('sha256', secret)
     .update(payload)
     .digest('hex');
-    
+
+  // timingSafeEqual throws on length mismatch, which is just a bad signature here
+  if (!signature || signature.length !== expectedSignature.length) {
+    return false;
+  }
+
   return crypto.timingSafeEqual(
     Buffer.from(signature),
     Buffer.from(expectedSignature)
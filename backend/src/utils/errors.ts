@@ -80,3 +80,33 @@ export class ContentSafetyError extends Error {
     }
   }
 }
+
+export class MediaRequirementsError extends Error {
+  public readonly platform: string;
+  public readonly violations: string[];
+
+  constructor(message: string, platform: string, violations: string[]) {
+    super(message);
+    this.name = 'MediaRequirementsError';
+    this.platform = platform;
+    this.violations = violations;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, MediaRequirementsError);
+    }
+  }
+}
+
+export class WebhookVerificationError extends Error {
+  public readonly provider: string;
+
+  constructor(message: string, provider: string) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+    this.provider = provider;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, WebhookVerificationError);
+    }
+  }
+}
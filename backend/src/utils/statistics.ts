@@ -0,0 +1,332 @@
+/**
+ * Statistical helpers shared by experiment and forecasting code.
+ * Everything here is pure and deterministic (Monte Carlo draws use a seeded PRNG).
+ */
+
+export interface HypothesisTestResult {
+  statistic: number;
+  pValue: number; // two-sided
+  degreesOfFreedom?: number;
+}
+
+export interface ProportionSample {
+  successes: number;
+  trials: number;
+}
+
+export interface ContinuousSample {
+  mean: number;
+  variance: number; // unbiased sample variance
+  n: number;
+}
+
+/**
+ * Standard normal CDF
+ */
+export function normalCdf(z: number): number {
+  if (!Number.isFinite(z)) {
+    return z > 0 ? 1 : 0;
+  }
+  return 0.5 * erfc(-z / Math.SQRT2);
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's algorithm with one Halley refinement step)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+  const pLow = 0.02425;
+
+  let x: number;
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  } else if (p <= 1 - pLow) {
+    const q = p - 0.5;
+    const r = q * q;
+    x = (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  } else {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    x = -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  const e = normalCdf(x) - p;
+  const u = e * Math.sqrt(2 * Math.PI) * Math.exp((x * x) / 2);
+  return x - u / (1 + (x * u) / 2);
+}
+
+/**
+ * Student's t CDF via the regularized incomplete beta function
+ */
+export function studentTCdf(t: number, degreesOfFreedom: number): number {
+  if (!Number.isFinite(t)) {
+    return t > 0 ? 1 : 0;
+  }
+  const x = degreesOfFreedom / (degreesOfFreedom + t * t);
+  const tail = 0.5 * regularizedIncompleteBeta(x, degreesOfFreedom / 2, 0.5);
+  return t > 0 ? 1 - tail : tail;
+}
+
+/**
+ * Two-proportion z-test with a pooled standard error (H0: p1 = p2)
+ */
+export function twoProportionZTest(a: ProportionSample, b: ProportionSample): HypothesisTestResult {
+  if (a.trials <= 0 || b.trials <= 0) {
+    return { statistic: 0, pValue: 1 };
+  }
+
+  const p1 = a.successes / a.trials;
+  const p2 = b.successes / b.trials;
+  const pooled = (a.successes + b.successes) / (a.trials + b.trials);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / a.trials + 1 / b.trials));
+
+  if (standardError === 0) {
+    return { statistic: 0, pValue: 1 };
+  }
+
+  const z = (p1 - p2) / standardError;
+  return { statistic: z, pValue: twoSidedNormalPValue(z) };
+}
+
+/**
+ * Welch's unequal-variance t-test (H0: mean1 = mean2)
+ */
+export function welchTTest(a: ContinuousSample, b: ContinuousSample): HypothesisTestResult {
+  if (a.n < 2 || b.n < 2) {
+    return { statistic: 0, pValue: 1 };
+  }
+
+  const va = a.variance / a.n;
+  const vb = b.variance / b.n;
+  const standardError = Math.sqrt(va + vb);
+
+  if (standardError === 0) {
+    return a.mean === b.mean
+      ? { statistic: 0, pValue: 1, degreesOfFreedom: a.n + b.n - 2 }
+      : { statistic: a.mean > b.mean ? Infinity : -Infinity, pValue: 0, degreesOfFreedom: a.n + b.n - 2 };
+  }
+
+  const t = (a.mean - b.mean) / standardError;
+  const degreesOfFreedom = (va + vb) ** 2 / ((va ** 2) / (a.n - 1) + (vb ** 2) / (b.n - 1));
+  const pValue = 2 * (1 - studentTCdf(Math.abs(t), degreesOfFreedom));
+
+  return { statistic: t, pValue: clampProbability(pValue), degreesOfFreedom };
+}
+
+/**
+ * Mean and unbiased variance of a sample
+ */
+export function summarize(values: number[]): ContinuousSample {
+  const n = values.length;
+  if (n === 0) {
+    return { mean: 0, variance: 0, n: 0 };
+  }
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  const variance = n > 1
+    ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1)
+    : 0;
+
+  return { mean, variance, n };
+}
+
+/**
+ * O'Brien-Fleming-shaped group-sequential boundary: the |z| needed to stop at
+ * the given information fraction while keeping the overall two-sided alpha.
+ */
+export function obrienFlemingBoundary(alpha: number, informationFraction: number): number {
+  const fraction = Math.min(1, Math.max(informationFraction, 1e-6));
+  return normalQuantile(1 - alpha / 2) / Math.sqrt(fraction);
+}
+
+/**
+ * Posterior probability that each arm has the highest rate, using Beta(1 + s, 1 + f) posteriors
+ */
+export function betaProbabilityToBeBest(arms: ProportionSample[], draws = 20000, seed = 1): number[] {
+  const random = seededRandom(seed);
+  return probabilityToBeBest(arms.length, draws, (arm) => {
+    const { successes, trials } = arms[arm];
+    const alpha = 1 + Math.max(0, successes);
+    const beta = 1 + Math.max(0, trials - successes);
+    const x = sampleGamma(alpha, random);
+    const y = sampleGamma(beta, random);
+    return x / (x + y);
+  });
+}
+
+/**
+ * Posterior probability that each arm has the highest mean, using the normal
+ * approximation N(mean, variance / n) for each arm's mean.
+ */
+export function normalProbabilityToBeBest(arms: ContinuousSample[], draws = 20000, seed = 1): number[] {
+  const random = seededRandom(seed);
+  return probabilityToBeBest(arms.length, draws, (arm) => {
+    const { mean, variance, n } = arms[arm];
+    const standardError = n > 0 ? Math.sqrt(variance / n) : 0;
+    return mean + standardError * sampleStandardNormal(random);
+  });
+}
+
+/**
+ * Mulberry32 - small, fast, seedable PRNG returning values in [0, 1)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function probabilityToBeBest(armCount: number, draws: number, sample: (arm: number) => number): number[] {
+  const wins = new Array(armCount).fill(0);
+  if (armCount === 0) {
+    return wins;
+  }
+
+  for (let draw = 0; draw < draws; draw++) {
+    let bestArm = 0;
+    let bestValue = -Infinity;
+    for (let arm = 0; arm < armCount; arm++) {
+      const value = sample(arm);
+      if (value > bestValue) {
+        bestValue = value;
+        bestArm = arm;
+      }
+    }
+    wins[bestArm]++;
+  }
+
+  return wins.map(count => count / draws);
+}
+
+function sampleStandardNormal(random: () => number): number {
+  let u = 0;
+  while (u === 0) u = random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Marsaglia-Tsang sampler; shape < 1 is boosted via Gamma(shape + 1) * U^(1/shape)
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleStandardNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+function twoSidedNormalPValue(z: number): number {
+  return clampProbability(2 * (1 - normalCdf(Math.abs(z))));
+}
+
+function clampProbability(p: number): number {
+  return Math.min(1, Math.max(0, p));
+}
+
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  // Numerical Recipes erfcc (fractional error < 1.2e-7)
+  const t = 1 / (1 + 0.5 * z);
+  const r = t * Math.exp(
+    -z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277)))))))),
+  );
+  return x >= 0 ? r : 2 - r;
+}
+
+function logGamma(x: number): number {
+  // Lanczos approximation (g = 7, n = 9)
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+    9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+
+  const shifted = x - 1;
+  let sum = coefficients[0];
+  for (let i = 1; i < coefficients.length; i++) {
+    sum += coefficients[i] / (shifted + i);
+  }
+  const t = shifted + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+
+  // The continued fraction converges fastest for x < (a + 1) / (a + b + 2)
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const maxIterations = 200;
+  const epsilon = 3e-14;
+  const tiny = 1e-300;
+
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+
+  return h;
+}
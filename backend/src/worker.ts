@@ -1,5 +1,11 @@
 import { PrismaClient } from '@prisma/client';
 import { SocialMediaWorkers } from './workers/social-media-workers';
+import { GenerationWorkers } from './workers/generation-workers';
+import { MediaWorkers } from './workers/media-workers';
+import { ExportCleanupWorker } from './workers/export-cleanup-worker';
+import { PostingTimeWorker } from './workers/posting-time-worker';
+import { CompetitorWorker } from './workers/competitor-worker';
+import { WeeklyCoachWorker } from './workers/weekly-coach-worker';
 import { closeRedis } from './config/redis';
 
 // Initialize Prisma client
@@ -9,6 +15,12 @@ const prisma = new PrismaClient({
 
 // Initialize workers
 const workers = new SocialMediaWorkers(prisma);
+const generationWorkers = new GenerationWorkers(prisma);
+const mediaWorkers = new MediaWorkers(prisma);
+const exportCleanupWorker = new ExportCleanupWorker(prisma);
+const postingTimeWorker = new PostingTimeWorker(prisma);
+const competitorWorker = new CompetitorWorker(prisma);
+const weeklyCoachWorker = new WeeklyCoachWorker(prisma);
 
 async function startWorker() {
   try {
@@ -20,6 +32,12 @@ async function startWorker() {
     
     // Start workers
     await workers.startWorkers();
+    await generationWorkers.startWorkers();
+    await mediaWorkers.startWorkers();
+    await exportCleanupWorker.startWorkers();
+    await postingTimeWorker.startWorkers();
+    await competitorWorker.startWorkers();
+    await weeklyCoachWorker.startWorkers();
     
     console.log('🎉 AI Promote Worker Process started successfully');
     
@@ -29,6 +47,36 @@ async function startWorker() {
       if (!health.healthy) {
         console.error('⚠️  Worker health check failed:', health.details);
       }
+
+      const generationHealth = await generationWorkers.healthCheck();
+      if (!generationHealth.healthy) {
+        console.error('⚠️  Generation worker health check failed:', generationHealth.details);
+      }
+
+      const mediaHealth = await mediaWorkers.healthCheck();
+      if (!mediaHealth.healthy) {
+        console.error('⚠️  Media worker health check failed:', mediaHealth.details);
+      }
+
+      const cleanupHealth = await exportCleanupWorker.healthCheck();
+      if (!cleanupHealth.healthy) {
+        console.error('⚠️  Export cleanup worker health check failed:', cleanupHealth.details);
+      }
+
+      const postingTimeHealth = await postingTimeWorker.healthCheck();
+      if (!postingTimeHealth.healthy) {
+        console.error('⚠️  Posting time worker health check failed:', postingTimeHealth.details);
+      }
+
+      const competitorHealth = await competitorWorker.healthCheck();
+      if (!competitorHealth.healthy) {
+        console.error('⚠️  Competitor worker health check failed:', competitorHealth.details);
+      }
+
+      const weeklyCoachHealth = await weeklyCoachWorker.healthCheck();
+      if (!weeklyCoachHealth.healthy) {
+        console.error('⚠️  Weekly coach worker health check failed:', weeklyCoachHealth.details);
+      }
     }, 60000); // Check every minute
     
   } catch (error) {
@@ -44,6 +92,12 @@ async function shutdown() {
   try {
     // Stop workers
     await workers.stopWorkers();
+    await generationWorkers.stopWorkers();
+    await mediaWorkers.stopWorkers();
+    await exportCleanupWorker.stopWorkers();
+    await postingTimeWorker.stopWorkers();
+    await competitorWorker.stopWorkers();
+    await weeklyCoachWorker.stopWorkers();
     
     // Close Redis connections
     await closeRedis();
@@ -0,0 +1,24 @@
+import { PrismaClient } from '@prisma/client';
+import { CollectionSummary, CompetitorTrackingService } from '../services/competitor-tracking';
+import { CronWorker } from './cron-worker';
+
+/**
+ * Collects a daily snapshot for every tracked competitor account that a
+ * metrics provider covers, at 04:30 every night. Accounts tracked by upload
+ * are left alone.
+ */
+export class CompetitorWorker extends CronWorker<CollectionSummary> {
+  constructor(prisma: PrismaClient) {
+    const competitorTracking = new CompetitorTrackingService(prisma);
+    super({
+      name: 'Competitor worker',
+      job: 'Competitor collection',
+      schedule: '30 4 * * *',
+      run: () => competitorTracking.collectDue(),
+    });
+  }
+
+  async runCollection(): Promise<void> {
+    await this.runNow();
+  }
+}
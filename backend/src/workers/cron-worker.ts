@@ -0,0 +1,69 @@
+import cron, { ScheduledTask } from 'node-cron';
+
+export interface CronWorkerOptions<TSummary> {
+  name: string; // e.g. "Competitor worker"
+  job: string; // Used in logs, e.g. "Competitor collection"
+  schedule: string;
+  run: () => Promise<TSummary>;
+  // Health check fields for the last run's summary; { lastSummary } by default
+  details?: (summary: TSummary | undefined) => Record<string, unknown>;
+}
+
+/**
+ * A job run on a cron schedule inside the worker process. A tick that comes
+ * while the previous run is still going is skipped. Keeps the last run's
+ * time and summary for the health check.
+ */
+export class CronWorker<TSummary = void> {
+  private task?: ScheduledTask;
+  private running = false;
+  private lastRunAt?: Date;
+  private lastSummary?: TSummary;
+
+  constructor(private options: CronWorkerOptions<TSummary>) {}
+
+  async startWorkers(): Promise<void> {
+    console.log(`🚀 Starting ${this.options.name.toLowerCase()}...`);
+
+    this.task = cron.schedule(this.options.schedule, () => {
+      if (this.running) {
+        console.warn(`${this.options.job} is still running; skipping this run`);
+        return;
+      }
+      this.runNow().catch(error => {
+        console.error(`${this.options.job} failed:`, error);
+      });
+    });
+
+    console.log(`✅ ${this.options.name} started successfully`);
+  }
+
+  async stopWorkers(): Promise<void> {
+    this.task?.stop();
+    this.task = undefined;
+    console.log(`✅ ${this.options.name} stopped successfully`);
+  }
+
+  async runNow(): Promise<TSummary> {
+    this.running = true;
+    try {
+      this.lastSummary = await this.options.run();
+      this.lastRunAt = new Date();
+      return this.lastSummary;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async healthCheck(): Promise<{ healthy: boolean; details: any }> {
+    return {
+      healthy: this.task !== undefined,
+      details: {
+        scheduled: this.task !== undefined,
+        running: this.running,
+        lastRunAt: this.lastRunAt,
+        ...(this.options.details ? this.options.details(this.lastSummary) : { lastSummary: this.lastSummary }),
+      },
+    };
+  }
+}
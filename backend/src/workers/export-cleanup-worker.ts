@@ -0,0 +1,30 @@
+import { PrismaClient } from '@prisma/client';
+import { CalendarExportService } from '../services/calendar-export-service';
+import { ReportGenerator } from '../services/report-generator';
+import { CronWorker } from './cron-worker';
+
+/**
+ * Deletes calendar export and analytics report files once they pass their
+ * retention period and marks the records EXPIRED. Runs at the top of every
+ * hour.
+ */
+export class ExportCleanupWorker extends CronWorker {
+  constructor(prisma: PrismaClient) {
+    const calendarExports = new CalendarExportService(prisma);
+    const reports = new ReportGenerator(prisma);
+    super({
+      name: 'Export cleanup worker',
+      job: 'Export cleanup',
+      schedule: '0 * * * *',
+      run: async () => {
+        await calendarExports.cleanupExpiredExports();
+        await reports.cleanupExpiredReports();
+      },
+      details: () => ({}),
+    });
+  }
+
+  async runCleanup(): Promise<void> {
+    await this.runNow();
+  }
+}
@@ -0,0 +1,106 @@
+import { Job, Worker } from 'bullmq';
+import { PrismaClient } from '@prisma/client';
+import {
+  createContentGenerationWorker,
+  createStrategyGenerationWorker,
+  ContentGenerationJob,
+  StrategyGenerationJob,
+} from '../config/redis';
+import { GenerationJobService } from '../services/generation-jobs';
+
+export class GenerationWorkers {
+  private generationJobs: GenerationJobService;
+  private workers: Worker[] = [];
+
+  constructor(prisma: PrismaClient) {
+    this.generationJobs = new GenerationJobService(prisma);
+  }
+
+  /**
+   * Start the content and strategy generation workers
+   */
+  async startWorkers(): Promise<void> {
+    console.log('🚀 Starting generation workers...');
+
+    const contentWorker = createContentGenerationWorker(this.processContentGenerationJob.bind(this));
+    this.workers.push(contentWorker);
+
+    const strategyWorker = createStrategyGenerationWorker(this.processStrategyGenerationJob.bind(this));
+    this.workers.push(strategyWorker);
+
+    this.setupWorkerErrorHandlers();
+
+    console.log('✅ Generation workers started successfully');
+  }
+
+  /**
+   * Stop all workers gracefully
+   */
+  async stopWorkers(): Promise<void> {
+    console.log('🛑 Stopping generation workers...');
+
+    await Promise.all(this.workers.map(worker => worker.close()));
+    this.workers = [];
+
+    console.log('✅ Generation workers stopped successfully');
+  }
+
+  private async processContentGenerationJob(job: Job<ContentGenerationJob>) {
+    const { organizationId, platform, count } = job.data;
+    console.log(`Processing content generation job ${job.id}: ${count ?? 1} ${platform} piece(s) for organization ${organizationId}`);
+
+    const result = await this.generationJobs.processContentGenerationJob(job);
+
+    if (result.cancelled) {
+      console.log(`🚫 Content generation job ${job.id} cancelled after ${result.contentPieceIds.length} piece(s)`);
+    }
+
+    return result;
+  }
+
+  private async processStrategyGenerationJob(job: Job<StrategyGenerationJob>) {
+    console.log(`Processing strategy generation job ${job.id} for organization ${job.data.organizationId}`);
+
+    const result = await this.generationJobs.processStrategyGenerationJob(job);
+
+    if (result.cancelled) {
+      console.log(`🚫 Strategy generation job ${job.id} cancelled`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Set up error handlers for workers
+   */
+  private setupWorkerErrorHandlers(): void {
+    this.workers.forEach((worker) => {
+      worker.on('error', (error: Error) => {
+        console.error(`Generation worker ${worker.name} error:`, error);
+      });
+
+      worker.on('failed', (job: Job | undefined, error: Error) => {
+        console.error(`Generation job ${job?.id} (${worker.name}) failed:`, error.message);
+      });
+
+      worker.on('completed', (job: Job) => {
+        console.log(`✅ Generation job ${job.id} (${worker.name}) completed`);
+      });
+    });
+  }
+
+  /**
+   * Health check for workers
+   */
+  async healthCheck(): Promise<{ healthy: boolean; details: any }> {
+    const running = this.workers.filter(worker => worker.isRunning()).length;
+
+    return {
+      healthy: this.workers.length > 0 && running === this.workers.length,
+      details: {
+        workersCount: this.workers.length,
+        workersRunning: running,
+      },
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { Job, Worker } from 'bullmq';
+import { PrismaClient } from '@prisma/client';
+import { createMediaProcessingWorker, MediaProcessingJob } from '../config/redis';
+import { MediaAttachment, MediaAttachmentService } from '../services/media-attachment';
+
+export class MediaWorkers {
+  private media: MediaAttachmentService;
+  private workers: Worker[] = [];
+
+  constructor(prisma: PrismaClient) {
+    this.media = new MediaAttachmentService(prisma);
+  }
+
+  /**
+   * Start the media processing worker
+   */
+  async startWorkers(): Promise<void> {
+    console.log('🚀 Starting media workers...');
+
+    const processingWorker = createMediaProcessingWorker(this.processMediaProcessingJob.bind(this));
+    this.workers.push(processingWorker);
+
+    this.setupWorkerErrorHandlers();
+
+    console.log('✅ Media workers started successfully');
+  }
+
+  /**
+   * Stop all workers gracefully
+   */
+  async stopWorkers(): Promise<void> {
+    console.log('🛑 Stopping media workers...');
+
+    await Promise.all(this.workers.map(worker => worker.close()));
+    this.workers = [];
+
+    console.log('✅ Media workers stopped successfully');
+  }
+
+  private async processMediaProcessingJob(job: Job<MediaProcessingJob>): Promise<MediaAttachment> {
+    const { media, options } = job.data;
+    console.log(`Processing media job ${job.id}: ${media.type} ${media.id} for organization ${media.organizationId}`);
+
+    // Dates arrive as ISO strings after the round trip through Redis
+    const attachment: MediaAttachment = {
+      ...media,
+      createdAt: new Date(media.createdAt),
+      updatedAt: new Date(media.updatedAt),
+    };
+
+    return this.media.processMedia(attachment, options);
+  }
+
+  /**
+   * Set up error handlers for workers
+   */
+  private setupWorkerErrorHandlers(): void {
+    this.workers.forEach((worker) => {
+      worker.on('error', (error: Error) => {
+        console.error(`Media worker ${worker.name} error:`, error);
+      });
+
+      worker.on('failed', (job: Job | undefined, error: Error) => {
+        console.error(`Media job ${job?.id} (${worker.name}) failed:`, error.message);
+      });
+
+      worker.on('completed', (job: Job) => {
+        console.log(`✅ Media job ${job.id} (${worker.name}) completed`);
+      });
+    });
+  }
+
+  /**
+   * Health check for workers
+   */
+  async healthCheck(): Promise<{ healthy: boolean; details: any }> {
+    const running = this.workers.filter(worker => worker.isRunning()).length;
+
+    return {
+      healthy: this.workers.length > 0 && running === this.workers.length,
+      details: {
+        workersCount: this.workers.length,
+        workersRunning: running,
+      },
+    };
+  }
+}
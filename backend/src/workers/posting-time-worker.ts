@@ -0,0 +1,25 @@
+import { PrismaClient } from '@prisma/client';
+import { SchedulingService } from '../services/scheduling-service';
+import { CronWorker } from './cron-worker';
+
+/**
+ * Refreshes stored optimal posting times at 03:30 every night so new
+ * analytics feed into the posting time model without anyone re-running the
+ * analysis.
+ */
+export class PostingTimeWorker extends CronWorker<number> {
+  constructor(prisma: PrismaClient) {
+    const scheduling = new SchedulingService(prisma);
+    super({
+      name: 'Posting time worker',
+      job: 'Posting time refresh',
+      schedule: '30 3 * * *',
+      run: () => scheduling.refreshOptimalPostingTimes(),
+      details: refreshed => ({ lastRefreshed: refreshed ?? 0 }),
+    });
+  }
+
+  async runRefresh(): Promise<void> {
+    await this.runNow();
+  }
+}
@@ -8,18 +8,30 @@ import {
 } from '../config/redis';
 import { SocialMediaPublisher } from '../services/social-media-publisher';
 import { AnalyticsCollector } from '../services/analytics-collector';
+import { ABTestingService } from '../services/ab-testing-service';
+import { PublishingQueueService } from '../services/publishing-queue';
+import { PublishingFreezeService } from '../services/publishing-freeze';
+import { PostCurveService } from '../services/post-curves';
 import cron from 'node-cron';
 
 export class SocialMediaWorkers {
   private prisma: PrismaClient;
   private publisher: SocialMediaPublisher;
   private analyticsCollector: AnalyticsCollector;
+  private abTesting: ABTestingService;
+  private publishingQueue: PublishingQueueService;
+  private publishingFreeze: PublishingFreezeService;
+  private postCurves: PostCurveService;
   private workers: any[] = [];
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
     this.publisher = new SocialMediaPublisher(prisma);
     this.analyticsCollector = new AnalyticsCollector(prisma);
+    this.abTesting = new ABTestingService(prisma);
+    this.publishingQueue = new PublishingQueueService(prisma);
+    this.publishingFreeze = new PublishingFreezeService(prisma, this.publishingQueue);
+    this.postCurves = new PostCurveService(prisma, this.analyticsCollector);
   }
 
   /**
@@ -66,6 +78,20 @@ export class SocialMediaWorkers {
     console.log(`Processing publishing job for scheduled post: ${scheduledPostId}`);
 
     try {
+      // Skip jobs left behind by a cancel, pause or reschedule
+      if (!(await this.publishingQueue.shouldPublish(job.data))) {
+        console.log(`Skipping stale publishing job ${job.id} for scheduled post: ${scheduledPostId}`);
+        return;
+      }
+
+      // Hold the post back while its organization or account is frozen
+      const freeze = await this.publishingFreeze.activeFreezeFor(organizationId, socialAccountId);
+      if (freeze) {
+        await this.publishingFreeze.hold(scheduledPostId, freeze);
+        console.log(`🧊 Publishing frozen for ${freeze.scope} ${freeze.socialAccountId || freeze.organizationId}, holding scheduled post: ${scheduledPostId}`);
+        return;
+      }
+
       // Update job progress
       await job.updateProgress(10);
 
@@ -77,16 +103,14 @@ export class SocialMediaWorkers {
       if (result.success) {
         console.log(`✅ Successfully published post: ${scheduledPostId}`);
         
-        // Schedule analytics collection for 1 hour later
+        // Schedule analytics collection at each curve checkpoint (+1h through +7d)
         await job.updateProgress(80);
-        
-        setTimeout(async () => {
-          try {
-            await this.analyticsCollector.collectPostAnalytics(scheduledPostId);
-          } catch (error: any) {
-            console.error('Failed to collect analytics after publishing:', error);
-          }
-        }, 60 * 60 * 1000); // 1 hour delay
+
+        try {
+          await this.postCurves.scheduleCheckpoints(scheduledPostId);
+        } catch (error: any) {
+          console.error('Failed to schedule analytics checkpoints after publishing:', error);
+        }
 
         await job.updateProgress(100);
       } else {
@@ -106,14 +130,21 @@ export class SocialMediaWorkers {
    * Process analytics collection jobs
    */
   private async processAnalyticsJob(job: Job<AnalyticsCollectionJob>): Promise<void> {
-    const { organizationId, scheduledPostId, contentPieceId, platform, timeRange } = job.data;
+    const { organizationId, scheduledPostId, contentPieceId, platform, timeRange, checkpoint } = job.data;
     
     console.log(`Processing analytics job for organization: ${organizationId}`);
 
     try {
       await job.updateProgress(20);
 
-      if (scheduledPostId) {
+      if (scheduledPostId && checkpoint) {
+        // Collect a post curve checkpoint and store what the post gained since the last one
+        const recorded = await this.postCurves.recordCheckpoint(scheduledPostId, checkpoint);
+        if (recorded?.isBreakout) {
+          console.log(`🚀 Post ${scheduledPostId} broke out at ${checkpoint}`);
+        }
+        console.log(`✅ Collected ${checkpoint} checkpoint for post: ${scheduledPostId}`);
+      } else if (scheduledPostId) {
         // Collect analytics for a specific post
         await this.analyticsCollector.collectPostAnalytics(scheduledPostId, true);
         console.log(`✅ Collected analytics for post: ${scheduledPostId}`);
@@ -127,6 +158,12 @@ export class SocialMediaWorkers {
           forceRefresh: true,
         });
         console.log(`✅ Collected analytics for organization: ${organizationId}`);
+
+        // Fresh analytics may complete A/B tests or cross a sequential boundary
+        const { stopped } = await this.abTesting.evaluateRunningTests(organizationId);
+        if (stopped.length > 0) {
+          console.log(`🧪 Completed A/B tests: ${stopped.join(', ')}`);
+        }
       }
 
       await job.updateProgress(100);
@@ -189,6 +226,18 @@ export class SocialMediaWorkers {
       }
     });
 
+    // Publishing queue reconciliation - every 10 minutes
+    cron.schedule('*/10 * * * *', async () => {
+      try {
+        const { removedJobs, requeuedPosts } = await this.publishingQueue.reconcile();
+        if (removedJobs.length || requeuedPosts.length) {
+          console.log(`🔁 Publishing queue reconciled: removed ${removedJobs.length} stale jobs, requeued ${requeuedPosts.length} posts`);
+        }
+      } catch (error: any) {
+        console.error('❌ Publishing queue reconciliation failed:', error);
+      }
+    });
+
     // Cleanup job - daily at 2 AM
     cron.schedule('0 2 * * *', async () => {
       console.log('🧹 Running daily cleanup...');
@@ -258,6 +307,7 @@ export class SocialMediaWorkers {
           data: {
             status: 'CANCELLED',
             errorMessage: 'Expired - not published within 24 hours',
+            sequence: { increment: 1 },
           },
         });
       }
@@ -356,6 +406,7 @@ export class SocialMediaWorkers {
         workersCount: this.workers.length,
         redisConnected: true, // You'd implement actual Redis connection check
         databaseConnected: true, // You'd implement actual database connection check
+        publishingFreezes: await this.publishingFreeze.summary(),
       };
 
       const healthy = details.workersRunning && details.redisConnected && details.databaseConnected;
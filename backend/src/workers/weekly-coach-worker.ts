@@ -0,0 +1,25 @@
+import { PrismaClient } from '@prisma/client';
+import { GenerationSummary, WeeklyCoachService } from '../services/weekly-coach';
+import { CronWorker } from './cron-worker';
+
+/**
+ * Generates and emails last week's coach report for every organization with
+ * a connected account, from 06:00 on Monday in the organization's time zone.
+ * It checks every hour, so each time zone gets its own Monday. Organizations
+ * that already have one are skipped.
+ */
+export class WeeklyCoachWorker extends CronWorker<GenerationSummary> {
+  constructor(prisma: PrismaClient) {
+    const weeklyCoach = new WeeklyCoachService(prisma);
+    super({
+      name: 'Weekly coach worker',
+      job: 'Weekly coach reports',
+      schedule: '0 * * * *',
+      run: () => weeklyCoach.generateDue(),
+    });
+  }
+
+  async runReports(): Promise<void> {
+    await this.runNow();
+  }
+}
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+
+/**
+ * Replays recorded platform API responses from tests/fixtures/social/<name>.json.
+ *
+ * Interactions are matched on method and path. When several recordings share a
+ * method and path they are served in order and the last one keeps repeating,
+ * which is how polling endpoints are recorded. `{{baseUrl}}` in response
+ * headers is replaced with the server's own address.
+ */
+
+interface RecordedInteraction {
+  request: { method: string; path: string };
+  response: { status: number; headers?: Record<string, string>; body?: unknown };
+}
+
+export interface ReceivedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface FixtureServer {
+  baseUrl: string;
+  requests: ReceivedRequest[];
+  requestsTo(method: string, path: string): ReceivedRequest[];
+  close(): Promise<void>;
+}
+
+export async function startFixtureServer(fixtureName: string): Promise<FixtureServer> {
+  const recording = JSON.parse(
+    fs.readFileSync(path.join(__dirname, 'social', `${fixtureName}.json`), 'utf8')
+  ) as { interactions: RecordedInteraction[] };
+
+  const requests: ReceivedRequest[] = [];
+  const served = new Map<string, number>();
+  let baseUrl = '';
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', baseUrl);
+      const method = (req.method || 'GET').toUpperCase();
+      requests.push({
+        method,
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams.entries()),
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString('utf8'),
+      });
+
+      const key = `${method} ${url.pathname}`;
+      const candidates = recording.interactions.filter(
+        interaction => `${interaction.request.method.toUpperCase()} ${interaction.request.path}` === key
+      );
+
+      if (candidates.length === 0) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: `No recorded interaction for ${key}` } }));
+        return;
+      }
+
+      const index = served.get(key) || 0;
+      served.set(key, index + 1);
+      const { response } = candidates[Math.min(index, candidates.length - 1)];
+
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(response.headers || {})) {
+        headers[name] = value.replace('{{baseUrl}}', baseUrl);
+      }
+
+      if (response.body === undefined || response.body === '') {
+        res.writeHead(response.status, headers);
+        res.end();
+      } else if (typeof response.body === 'string') {
+        res.writeHead(response.status, { 'Content-Type': 'text/plain', ...headers });
+        res.end(response.body);
+      } else {
+        res.writeHead(response.status, { 'Content-Type': 'application/json', ...headers });
+        res.end(JSON.stringify(response.body));
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    baseUrl,
+    requests,
+    requestsTo: (method, requestPath) => requests.filter(
+      request => request.method === method && request.path === requestPath
+    ),
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
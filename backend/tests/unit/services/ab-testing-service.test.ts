@@ -0,0 +1,200 @@
+import { ABTestingService } from '../../../src/services/ab-testing-service';
+import { twoProportionZTest, welchTTest, summarize, obrienFlemingBoundary } from '../../../src/utils/statistics';
+
+// The service reads enum values (ABTestMetric, MetricType, ...) at runtime
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+
+const now = new Date('2025-01-01T00:00:00.000Z');
+
+function snapshot(overrides: Record<string, any> = {}) {
+  return {
+    metricType: 'ENGAGEMENT',
+    impressions: 0,
+    likes: 0,
+    comments: 0,
+    shares: 0,
+    clicks: 0,
+    reach: 0,
+    websiteClicks: 0,
+    signups: 0,
+    demos: 0,
+    periodEnd: now,
+    ...overrides,
+  };
+}
+
+function variant(name: string, posts: Array<Array<Record<string, any>>>) {
+  return {
+    id: `var_${name}`,
+    name,
+    scheduledPosts: posts.map((analytics, index) => ({ id: `post_${name}_${index}`, analytics })),
+  };
+}
+
+function testRecord(overrides: Record<string, any> = {}) {
+  return {
+    id: 'ab_1',
+    organizationId: 'org_123',
+    status: 'RUNNING',
+    successMetric: 'CLICK_THROUGH_RATE',
+    confidenceLevel: 95,
+    minimumSampleSize: 1000,
+    sequentialTesting: false,
+    endDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    variants: [
+      variant('A', [[snapshot({ impressions: 1000, clicks: 120 })]]),
+      variant('B', [[snapshot({ impressions: 1000, clicks: 90 })]]),
+    ],
+    ...overrides,
+  };
+}
+
+describe('statistics helpers', () => {
+  it('should match reference values for the two-proportion z-test', () => {
+    const result = twoProportionZTest({ successes: 120, trials: 1000 }, { successes: 90, trials: 1000 });
+
+    expect(result.statistic).toBeCloseTo(2.1883, 3);
+    expect(result.pValue).toBeCloseTo(0.02865, 4);
+  });
+
+  it('should match reference values for Welch\'s t-test', () => {
+    const a = summarize([27.5, 21.0, 19.0, 23.6, 17.0, 17.9, 16.9, 20.1, 21.9, 22.6, 23.1, 19.6, 19.0, 21.7, 21.4]);
+    const b = summarize([27.1, 22.0, 20.8, 23.4, 23.4, 23.5, 25.8, 22.0, 24.8, 20.2, 21.9, 22.1, 22.9, 20.5, 24.4]);
+
+    const result = welchTTest(a, b);
+
+    expect(result.statistic).toBeCloseTo(-2.4554, 3);
+    expect(result.degreesOfFreedom).toBeCloseTo(24.989, 2);
+    expect(result.pValue).toBeCloseTo(0.02138, 4);
+  });
+
+  it('should widen the sequential boundary early in the test', () => {
+    expect(obrienFlemingBoundary(0.05, 1)).toBeCloseTo(1.96, 2);
+    expect(obrienFlemingBoundary(0.05, 0.25)).toBeCloseTo(3.92, 2);
+  });
+});
+
+describe('ABTestingService', () => {
+  const mockPrisma = {
+    aBTest: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    aBTestRecommendation: { create: jest.fn() },
+  } as any;
+  let service: ABTestingService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    service = new ABTestingService(mockPrisma);
+  });
+
+  describe('getABTestResults', () => {
+    it('should declare a winner when the z-test clears the configured confidence', async () => {
+      mockPrisma.aBTest.findUnique.mockResolvedValue(testRecord());
+
+      const results = await service.getABTestResults('ab_1');
+
+      expect(results.winner).toBe('A');
+      expect(results.statisticalSignificance).toBe(true);
+      expect(results.confidence).toBeCloseTo(97.13, 1);
+      expect(results.analysis.method).toBe('two_proportion_z_test');
+      expect(results.analysis.comparisons[0]).toEqual(expect.objectContaining({ against: 'B', significant: true }));
+      expect(results.variants[0].probabilityToBeBest).toBeGreaterThan(0.95);
+    });
+
+    it('should honour a stricter confidence level', async () => {
+      mockPrisma.aBTest.findUnique.mockResolvedValue(testRecord({ confidenceLevel: 99 }));
+
+      const results = await service.getABTestResults('ab_1');
+
+      expect(results.statisticalSignificance).toBe(false);
+      expect(results.winner).toBeUndefined();
+    });
+
+    it('should not call a fixed-horizon test before the planned sample is reached', async () => {
+      mockPrisma.aBTest.findUnique.mockResolvedValue(testRecord({ minimumSampleSize: 5000 }));
+
+      const results = await service.getABTestResults('ab_1');
+
+      expect(results.analysis.sampleSizeReached).toBe(false);
+      expect(results.statisticalSignificance).toBe(false);
+      expect(results.analysis.comparisons[0].pValue).toBeLessThan(0.05);
+    });
+
+    it('should only count the latest analytics snapshot of each post', async () => {
+      mockPrisma.aBTest.findUnique.mockResolvedValue(testRecord({
+        variants: [
+          variant('A', [[
+            snapshot({ impressions: 1000, clicks: 120, periodEnd: new Date('2025-01-02') }),
+            snapshot({ impressions: 400, clicks: 40 }),
+          ]]),
+          variant('B', [[snapshot({ impressions: 1000, clicks: 90 })]]),
+        ],
+      }));
+
+      const results = await service.getABTestResults('ab_1');
+
+      expect(results.variants[0].metrics.impressions).toBe(1000);
+      expect(results.variants[0].metrics.clickThroughRate).toBeCloseTo(12);
+    });
+
+    it('should use Welch\'s t-test over per-post values for reach', async () => {
+      const posts = (values: number[]) => values.map(reach => [snapshot({ impressions: reach * 2, reach })]);
+      mockPrisma.aBTest.findUnique.mockResolvedValue(testRecord({
+        successMetric: 'REACH',
+        minimumSampleSize: 5,
+        variants: [
+          variant('A', posts([510, 540, 495, 530, 525, 515])),
+          variant('B', posts([400, 430, 410, 390, 420, 405])),
+        ],
+      }));
+
+      const results = await service.getABTestResults('ab_1');
+
+      expect(results.analysis.method).toBe('welch_t_test');
+      expect(results.variants[0].sampleSize).toBe(6);
+      expect(results.winner).toBe('A');
+    });
+  });
+
+  describe('evaluateRunningTests', () => {
+    it('should stop a sequential test early once the boundary is crossed', async () => {
+      const running = testRecord({
+        sequentialTesting: true,
+        minimumSampleSize: 4000,
+        variants: [
+          variant('A', [[snapshot({ impressions: 1000, clicks: 200 })]]),
+          variant('B', [[snapshot({ impressions: 1000, clicks: 90 })]]),
+        ],
+      });
+      mockPrisma.aBTest.findMany.mockResolvedValue([running]);
+      mockPrisma.aBTest.findUnique.mockResolvedValue({ ...running, status: 'COMPLETED' });
+
+      const outcome = await service.evaluateRunningTests('org_123');
+
+      expect(outcome.stopped).toEqual(['ab_1']);
+      expect(mockPrisma.aBTest.update).toHaveBeenCalledWith({
+        where: { id: 'ab_1' },
+        data: expect.objectContaining({
+          status: 'COMPLETED',
+          stopReason: expect.stringContaining('Stopped early - A crossed the sequential boundary at 25%'),
+        }),
+      });
+      expect(mockPrisma.aBTestRecommendation.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ abTestId: 'ab_1', winningVariant: 'A' }),
+      });
+    });
+
+    it('should keep a sequential test running while the evidence is weak', async () => {
+      mockPrisma.aBTest.findMany.mockResolvedValue([testRecord({ sequentialTesting: true, minimumSampleSize: 4000 })]);
+
+      const outcome = await service.evaluateRunningTests('org_123');
+
+      expect(outcome).toEqual({ evaluated: 1, stopped: [] });
+      expect(mockPrisma.aBTest.update).not.toHaveBeenCalled();
+    });
+  });
+});
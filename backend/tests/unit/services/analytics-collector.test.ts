@@ -0,0 +1,88 @@
+import { AnalyticsCollector } from '../../../src/services/analytics-collector';
+import { TikTokService } from '../../../src/services/tiktok-api';
+
+// The collector reads Platform and MetricType values at runtime
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+jest.mock('../../../src/config/redis', () => ({ addAnalyticsJob: jest.fn() }));
+jest.mock('../../../src/services/tiktok-api');
+
+const mockPrisma: any = {
+  scheduledPost: { findUnique: jest.fn(), update: jest.fn() },
+  analytics: { create: jest.fn() },
+};
+
+const mockLinkTracking: any = { conversionTotals: jest.fn() };
+
+function tiktokPost(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sp_1',
+    organizationId: 'org_1',
+    contentPieceId: 'piece_1',
+    socialAccountId: 'acct_1',
+    publishedAt: new Date('2026-10-18T10:00:00Z'),
+    platformPostId: null,
+    externalPostId: 'v_pub_url~v2.1',
+    socialAccount: { platform: 'TIKTOK', handle: 'aipromote', accessTokenEncrypted: 'enc', refreshTokenEncrypted: null, expiresAt: null },
+    ...overrides,
+  };
+}
+
+describe('AnalyticsCollector', () => {
+  const tiktok = { getPublishStatus: jest.fn(), getPostAnalytics: jest.fn() };
+  const collector = new AnalyticsCollector(mockPrisma, mockLinkTracking);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    (TikTokService.createWithEncryptedCredentials as jest.Mock).mockResolvedValue(tiktok);
+    mockLinkTracking.conversionTotals.mockResolvedValue({ trackedLinks: 0, websiteClicks: 0, signups: 0, demos: 0 });
+  });
+
+  it('should store the TikTok post ID once the publish completes and collect its analytics', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(tiktokPost());
+    tiktok.getPublishStatus.mockResolvedValue({ publishId: 'v_pub_url~v2.1', status: 'PUBLISH_COMPLETE', postIds: ['7431992010238771000'] });
+    tiktok.getPostAnalytics.mockResolvedValue({ views: 1520, likes: 140, comments: 12, shares: 8 });
+
+    await collector.collectPostAnalytics('sp_1', true);
+
+    expect(tiktok.getPublishStatus).toHaveBeenCalledWith('v_pub_url~v2.1');
+    expect(mockPrisma.scheduledPost.update).toHaveBeenCalledWith({
+      where: { id: 'sp_1' },
+      data: {
+        platformPostId: '7431992010238771000',
+        platformUrl: 'https://www.tiktok.com/@aipromote/video/7431992010238771000',
+      },
+    });
+    expect(tiktok.getPostAnalytics).toHaveBeenCalledWith('7431992010238771000');
+    expect(mockPrisma.analytics.create).toHaveBeenCalled();
+  });
+
+  it('should wait for TikTok while processing and fail posts it rejected', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(tiktokPost());
+    tiktok.getPublishStatus.mockResolvedValue({ publishId: 'v_pub_url~v2.1', status: 'PROCESSING_DOWNLOAD', postIds: [] });
+
+    await collector.collectPostAnalytics('sp_1', true);
+
+    expect(mockPrisma.scheduledPost.update).not.toHaveBeenCalled();
+    expect(tiktok.getPostAnalytics).not.toHaveBeenCalled();
+
+    tiktok.getPublishStatus.mockResolvedValue({ publishId: 'v_pub_url~v2.1', status: 'FAILED', failReason: 'duration_check_failed', postIds: [] });
+    await collector.collectPostAnalytics('sp_1', true);
+
+    expect(mockPrisma.scheduledPost.update).toHaveBeenCalledWith({
+      where: { id: 'sp_1' },
+      data: { status: 'FAILED', errorMessage: 'TikTok rejected the post: duration_check_failed' },
+    });
+    expect(mockPrisma.analytics.create).not.toHaveBeenCalled();
+  });
+
+  it('should wait for the next checkpoint when TikTok cannot be reached', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(tiktokPost());
+    tiktok.getPublishStatus.mockRejectedValue(new Error('socket hang up'));
+
+    await expect(collector.collectPostAnalytics('sp_1', true)).resolves.toBeUndefined();
+
+    expect(mockPrisma.scheduledPost.update).not.toHaveBeenCalled();
+    expect(tiktok.getPostAnalytics).not.toHaveBeenCalled();
+  });
+});
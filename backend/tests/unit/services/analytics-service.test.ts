@@ -1,9 +1,14 @@
 import { AnalyticsService, DashboardData, TimeSeriesData, PlatformData } from '../../../src/services/analytics-service';
 import { PrismaClient } from '@prisma/client';
 import { jest } from '@jest/globals';
+import { ValidationError } from '../../../src/utils/errors';
+
+// Metric queries are built with Prisma.sql
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
 
 // Mock Prisma Client
 const mockPrisma = {
+  $queryRaw: jest.fn(),
   analytics: {
     findMany: jest.fn(),
     groupBy: jest.fn(),
@@ -212,6 +217,7 @@ describe('AnalyticsService', () => {
 
     beforeEach(() => {
       mockPrisma.analytics.findMany.mockResolvedValue(mockGrowthData);
+      mockPrisma.$queryRaw.mockResolvedValue([]);
     });
 
     it('should calculate growth metrics correctly', async () => {
@@ -447,3 +453,184 @@ describe('AnalyticsService', () => {
     });
   });
 });
+
+describe('AnalyticsService growth and comparison analytics', () => {
+  const now = new Date('2026-10-18T00:00:00Z');
+  const db: any = {
+    $queryRaw: jest.fn(),
+    analytics: { aggregate: jest.fn() },
+    socialAccount: { aggregate: jest.fn(), findMany: jest.fn() },
+    organization: { findUnique: jest.fn() },
+    scheduledPost: { findMany: jest.fn() },
+  };
+  const service = new AnalyticsService(db as PrismaClient);
+
+  function totals(overrides: Record<string, number> = {}) {
+    return {
+      organizations: 1, posts: 0, impressions: 0, reach: 0, likes: 0,
+      comments: 0, shares: 0, saves: 0, clicks: 0, followers: 0, ...overrides,
+    };
+  }
+
+  function bucket(label: string, platform: string | null, overrides: Record<string, number> = {}) {
+    return { bucket: new Date(`${label}Z`), label, platform, ...totals(overrides) };
+  }
+
+  // Tagged-template calls: the first argument holds the SQL text
+  const isBucketed = (strings: string[]) => strings.join('').includes('generate_series');
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should bucket a custom range in the requested time zone with a per-platform breakdown', async () => {
+    db.$queryRaw.mockImplementation(async (strings: string[]) => isBucketed(strings)
+      ? [
+        bucket('2026-10-17T09:00', 'LINKEDIN', { posts: 1, impressions: 1000, likes: 40, comments: 10, clicks: 5 }),
+        bucket('2026-10-17T09:00', 'TWITTER', { posts: 2, impressions: 3000, likes: 30, shares: 20 }),
+        bucket('2026-10-17T10:00', null, { organizations: 0 }),
+      ]
+      : [totals({ posts: 3, impressions: 4000, likes: 70, comments: 10, shares: 20, clicks: 5 })]);
+
+    const result = await service.getCustomRangeAnalytics({
+      organizationId: 'org_1',
+      startDate: new Date('2026-10-17T13:00:00Z'),
+      endDate: new Date('2026-10-17T15:00:00Z'),
+      groupBy: 'hour',
+      timeZone: 'America/New_York',
+      metrics: ['engagement_rate'],
+    });
+
+    expect(result.chartData).toHaveLength(2);
+    expect(result.chartData[0]).toEqual(expect.objectContaining({
+      date: '2026-10-17T09:00', posts: 3, impressions: 4000, engagements: 100, engagementRate: 2.5,
+    }));
+    expect(result.chartData[0].platforms.LINKEDIN).toEqual(expect.objectContaining({ engagements: 50, engagementRate: 5, ctr: 0.5 }));
+    expect(result.chartData[1]).toEqual(expect.objectContaining({ date: '2026-10-17T10:00', posts: 0, platforms: {} }));
+    expect(result.summary).toEqual(expect.objectContaining({ posts: 3, engagementRate: 2.5, activeBuckets: 1, peak: { date: '2026-10-17T09:00', engagements: 100 } }));
+
+    const bucketedCall = db.$queryRaw.mock.calls.find(([strings]: any[]) => isBucketed(strings));
+    expect(bucketedCall).toEqual(expect.arrayContaining(['hour', 'America/New_York']));
+
+    await expect(service.getCustomRangeAnalytics({
+      organizationId: 'org_1', startDate: new Date('2026-10-17T13:00:00Z'), endDate: new Date('2026-10-17T15:00:00Z'), groupBy: 'day', timeZone: 'Mars/Olympus',
+    })).rejects.toThrow(ValidationError);
+    await expect(service.getCustomRangeAnalytics({
+      organizationId: 'org_1', startDate: new Date('2026-01-01T00:00:00Z'), endDate: new Date('2026-10-17T00:00:00Z'), groupBy: 'hour',
+    })).rejects.toThrow('Date range is too long to group by hour');
+  });
+
+  it('should walk the follower curve back from today and detect milestones', async () => {
+    db.socialAccount.aggregate.mockResolvedValue({ _sum: { followersCount: 1200 } });
+    // Followers gained after the given instant
+    db.analytics.aggregate.mockImplementation(async ({ where }: any) => ({
+      _sum: { followersDelta: where.collectedAt.gt.getTime() >= now.getTime() ? 0 : 300 },
+    }));
+    db.$queryRaw.mockImplementation(async (strings: string[], ...values: any[]) => {
+      const previousPeriod = values.some(value => value instanceof Date && value.getTime() < new Date('2026-10-11T00:00:00Z').getTime());
+      return previousPeriod
+        ? [bucket('2026-10-04T00:00', null, { followers: 50 }), bucket('2026-10-05T00:00', null, { followers: 50 }), bucket('2026-10-06T00:00', null, { followers: 50 })]
+        : [bucket('2026-10-11T00:00', null, { followers: 100 }), bucket('2026-10-12T00:00', null, { followers: 100 }), bucket('2026-10-13T00:00', null, { followers: 100 })];
+    });
+
+    const growth = await service.getGrowthMetrics({ organizationId: 'org_1', metric: 'followers', period: '7d', now });
+
+    expect(growth).toEqual(expect.objectContaining({ currentValue: 1200, previousValue: 900, trend: 'up' }));
+    expect(growth.changePercent).toBeCloseTo(33.33, 2);
+    expect(growth.chartData).toEqual([
+      { date: '2026-10-11T00:00', value: 1000, benchmark: 800 },
+      { date: '2026-10-12T00:00', value: 1100, benchmark: 850 },
+      { date: '2026-10-13T00:00', value: 1200, benchmark: 900 },
+    ]);
+    expect(growth.milestones).toEqual([
+      { value: 1000, label: '1K followers', achieved: true, achievedOn: '2026-10-11T00:00' },
+      { value: 2500, label: '2.5K followers', achieved: false, estimatedDate: new Date('2026-11-18T00:00:00Z') },
+      { value: 5000, label: '5K followers', achieved: false, estimatedDate: new Date('2027-01-15T00:00:00Z') },
+    ]);
+  });
+
+  it('should compare with the previous period and explain the biggest moves', async () => {
+    db.$queryRaw
+      .mockResolvedValueOnce([totals({ posts: 10, impressions: 10000, likes: 400, comments: 50, shares: 50 })])
+      .mockResolvedValueOnce([totals({ posts: 8, impressions: 8000, likes: 220, comments: 50, shares: 50 })]);
+
+    const result = await service.getPerformanceComparison({
+      organizationId: 'org_1',
+      compareWith: 'previous_period',
+      startDate: new Date('2026-10-01T00:00:00Z'),
+      endDate: new Date('2026-10-15T00:00:00Z'),
+      metrics: ['engagement_rate', 'likes'],
+    });
+
+    expect(result.current.metrics).toEqual({ engagement_rate: 5, likes: 400 });
+    expect(result.comparison.period).toEqual({ start: new Date('2026-09-17T00:00:00Z'), end: new Date('2026-09-30T23:59:59.999Z') });
+    expect(result.comparison.deltas.engagement_rate).toEqual({ current: 5, comparison: 4, change: 1, changePercent: 25 });
+    expect(result.insights.map(insight => [insight.title, insight.type, insight.impact])).toEqual([
+      ['Likes Up 81.8%', 'positive', 'high'],
+      ['Engagement rate Up 25%', 'positive', 'high'],
+    ]);
+
+    await expect(service.getPerformanceComparison({
+      organizationId: 'org_1', compareWith: 'previous_period', startDate: new Date('2026-10-15T00:00:00Z'), endDate: new Date('2026-10-01T00:00:00Z'), metrics: ['likes'],
+    })).rejects.toThrow(ValidationError);
+  });
+
+  it('should benchmark against peers in the same category, or platform baselines when there are too few', async () => {
+    const current = totals({ posts: 4, impressions: 4000, likes: 60, comments: 10, shares: 10 });
+    db.organization.findUnique.mockResolvedValue({ category: 'B2B SaaS' });
+    db.$queryRaw
+      .mockResolvedValueOnce([current])
+      .mockResolvedValueOnce([totals({ organizations: 3, posts: 30, impressions: 30000, likes: 900 })]);
+    db.socialAccount.findMany.mockResolvedValue([{ platform: 'LINKEDIN' }, { platform: 'TWITTER' }]);
+
+    const options = {
+      organizationId: 'org_1',
+      compareWith: 'industry_average' as const,
+      startDate: new Date('2026-10-01T00:00:00Z'),
+      endDate: new Date('2026-10-15T00:00:00Z'),
+      metrics: ['engagement_rate', 'likes'],
+    };
+    const fallback = await service.getPerformanceComparison(options);
+
+    expect(fallback.comparison).toEqual(expect.objectContaining({
+      source: 'platform_baseline',
+      peerOrganizations: 3,
+      benchmark: { engagement_rate: 1.75 },
+      deltas: { engagement_rate: { current: 2, comparison: 1.75, change: 0.25, changePercent: 14.3 } },
+    }));
+
+    db.$queryRaw
+      .mockResolvedValueOnce([current])
+      .mockResolvedValueOnce([totals({ organizations: 6, posts: 30, impressions: 30000, likes: 900 })]);
+
+    const peers = await service.getPerformanceComparison(options);
+
+    expect(peers.comparison).toEqual(expect.objectContaining({
+      source: 'peers',
+      category: 'B2B SaaS',
+      current: { engagement_rate: 2, likes: 15 },
+      benchmark: { engagement_rate: 3, likes: 30 },
+    }));
+    expect(peers.insights[0]).toEqual(expect.objectContaining({ title: 'Likes Down 50%', type: 'negative', actionRequired: true }));
+  });
+
+  it('should flag a burst of posts followed by silence as inconsistent', async () => {
+    jest.spyOn(service, 'getDashboardData').mockResolvedValue({
+      summary: { averageEngagementRate: 3 },
+      chartData: { platformBreakdown: [{ platform: 'LINKEDIN', avgEngagementRate: 3 }] },
+    } as any);
+    db.scheduledPost.findMany.mockImplementation(async ({ where }: any) => {
+      const start: Date = where.publishedAt.gte;
+      return [0, 1, 2, 3].map(day => ({ publishedAt: new Date(start.getTime() + (day + 1) * 24 * 60 * 60 * 1000) }));
+    });
+
+    const insights = await service.generateInsights({ organizationId: 'org_1', period: '30d' });
+
+    const consistency = insights.find(insight => insight.title === 'Inconsistent Posting Schedule');
+    expect(consistency).toBeDefined();
+    expect(consistency!.metadata).toEqual({ score: 0, posts: 4, postsPerWeek: 0.9, longestGapHours: 624 });
+    expect(db.scheduledPost.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ organizationId: 'org_1', status: 'PUBLISHED' }),
+    }));
+  });
+});
@@ -0,0 +1,143 @@
+import { CalendarFeedService } from '../../../src/services/calendar-feed-service';
+import { config } from '../../../src/config/config';
+import { hash } from '../../../src/utils/encryption';
+
+// The service reads enum values (EventType, EventStatus, PostStatus) at runtime
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+
+const mockPrisma = {
+  calendarFeed: {
+    upsert: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  calendarEvent: { findMany: jest.fn() },
+  scheduledPost: { findMany: jest.fn() },
+} as any;
+
+const account = { platform: 'LINKEDIN', handle: 'aipromote' };
+const now = new Date('2026-10-18T12:00:00Z');
+
+function unfold(ics: string): string {
+  return ics.replace(/\r\n[ \t]/g, '');
+}
+
+function vevents(ics: string): string[] {
+  return unfold(ics).split('BEGIN:VEVENT').slice(1);
+}
+
+describe('CalendarFeedService', () => {
+  let service: CalendarFeedService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config.baseUrl = 'https://api.aipromote.test';
+    mockPrisma.calendarFeed.findUnique.mockResolvedValue({
+      id: 'feed_1',
+      organizationId: 'org_123',
+      organization: { name: 'Acme Rockets' },
+    });
+    mockPrisma.calendarEvent.findMany.mockResolvedValue([]);
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([]);
+    service = new CalendarFeedService(mockPrisma);
+  });
+
+  it('should store only the token hash and return webcal URLs with filters', async () => {
+    const feed = await service.createFeed('org_123', { platforms: ['LINKEDIN' as any], eventTypes: ['POST_SCHEDULED' as any] });
+
+    expect(mockPrisma.calendarFeed.upsert).toHaveBeenCalledWith({
+      where: { organizationId: 'org_123' },
+      create: { organizationId: 'org_123', tokenHash: hash(feed.token) },
+      update: { tokenHash: hash(feed.token), lastAccessedAt: null },
+    });
+    expect(feed.feedUrl).toBe(
+      `https://api.aipromote.test/api/v1/scheduling/calendar/feed/${feed.token}.ics?platforms=LINKEDIN&eventTypes=POST_SCHEDULED`
+    );
+    expect(feed.webcalUrl).toBe(feed.feedUrl.replace('https://', 'webcal://'));
+  });
+
+  it('should return null for unknown tokens', async () => {
+    mockPrisma.calendarFeed.findUnique.mockResolvedValue(null);
+
+    expect(await service.renderFeed('nope.ics', {}, now)).toBeNull();
+    expect(mockPrisma.calendarFeed.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { tokenHash: hash('nope') },
+    }));
+  });
+
+  it('should render events with stable UIDs, SEQUENCE and cancellations', async () => {
+    mockPrisma.calendarEvent.findMany.mockResolvedValue([
+      {
+        id: 'evt_1',
+        title: 'Launch thread',
+        description: 'Product Hunt launch',
+        eventType: 'POST_SCHEDULED',
+        status: 'ACTIVE',
+        startTime: new Date('2026-10-20T09:00:00Z'),
+        endTime: null,
+        isAllDay: false,
+        tags: ['launch'],
+        sequence: 1,
+        updatedAt: new Date('2026-10-18T08:00:00Z'),
+        scheduledPost: { status: 'SCHEDULED', sequence: 2, platformUrl: null, socialAccount: account },
+      },
+    ]);
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([
+      {
+        id: 'sp_9',
+        status: 'CANCELLED',
+        sequence: 1,
+        scheduledAt: new Date('2026-10-21T15:30:00Z'),
+        updatedAt: new Date('2026-10-18T09:00:00Z'),
+        platformUrl: null,
+        socialAccount: account,
+        contentPiece: { title: 'Hiring post', body: 'We are hiring' },
+      },
+    ]);
+
+    const ics = (await service.renderFeed('token_abc', {}, now))!;
+    const [event, post] = vevents(ics);
+
+    expect(unfold(ics)).toContain('X-WR-CALNAME:Acme Rockets Content Calendar');
+    expect(event).toContain('UID:calendar-event-evt_1@api.aipromote.test');
+    expect(event).toContain('SEQUENCE:2');
+    expect(event).toContain('DTSTART:20261020T090000Z');
+    expect(event).toContain('DTEND:20261020T093000Z');
+    expect(event).toContain('STATUS:CONFIRMED');
+    expect(event).toContain('X-AIPROMOTE-PLATFORM:LINKEDIN');
+    expect(post).toContain('UID:scheduled-post-sp_9@api.aipromote.test');
+    expect(post).toContain('SUMMARY:Post: Hiring post');
+    expect(post).toContain('STATUS:CANCELLED');
+    expect(mockPrisma.calendarFeed.update).toHaveBeenCalledWith({
+      where: { id: 'feed_1' },
+      data: { lastAccessedAt: now },
+    });
+  });
+
+  it('should apply platform and event type filters', async () => {
+    mockPrisma.calendarEvent.findMany.mockResolvedValue([
+      {
+        id: 'evt_1',
+        title: 'Twitter post',
+        eventType: 'POST_SCHEDULED',
+        status: 'ACTIVE',
+        startTime: new Date('2026-10-20T09:00:00Z'),
+        isAllDay: false,
+        tags: [],
+        sequence: 0,
+        updatedAt: now,
+        scheduledPost: { status: 'SCHEDULED', sequence: 0, socialAccount: { platform: 'TWITTER', handle: 'aipromote' } },
+      },
+    ]);
+
+    const ics = (await service.renderFeed('token_abc', { platforms: ['LINKEDIN' as any], eventTypes: ['MEETING' as any] }, now))!;
+
+    expect(vevents(ics)).toHaveLength(0);
+    expect(mockPrisma.calendarEvent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ eventType: { in: ['MEETING'] } }),
+    }));
+    // Scheduled posts only appear as POST_SCHEDULED events
+    expect(mockPrisma.scheduledPost.findMany).not.toHaveBeenCalled();
+  });
+});
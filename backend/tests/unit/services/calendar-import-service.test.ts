@@ -0,0 +1,209 @@
+import { CalendarImportService } from '../../../src/services/calendar-import-service';
+import { SchedulingService } from '../../../src/services/scheduling-service';
+import { ValidationError } from '../../../src/utils/errors';
+
+// The service reads enum values (Platform, EventType, ConflictSeverity, ...) at runtime
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+jest.mock('../../../src/config/redis', () => ({ publishingQueue: {} }));
+
+const mockPrisma: any = {
+  $transaction: jest.fn(),
+  socialAccount: { findMany: jest.fn() },
+  calendarEvent: { findMany: jest.fn(), create: jest.fn() },
+  scheduledPost: { findMany: jest.fn(), create: jest.fn() },
+  contentPiece: { create: jest.fn() },
+};
+
+const mockPublishingQueue = { syncJob: jest.fn() };
+
+const CSV_HEADER = 'ID,Title,Description,Start Time,End Time,Event Type,Platform,Tags,URL,Location';
+
+describe('CalendarImportService', () => {
+  let service: CalendarImportService;
+  let detectConflicts: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2026-10-18T12:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    mockPrisma.$transaction.mockImplementation(async (fn: (tx: unknown) => unknown) => fn(mockPrisma));
+    mockPrisma.socialAccount.findMany.mockResolvedValue([
+      { id: 'acct_tw', platform: 'TWITTER', handle: 'acme' },
+      { id: 'acct_li', platform: 'LINKEDIN', handle: 'acme-inc' },
+    ]);
+    mockPrisma.calendarEvent.findMany.mockResolvedValue([]);
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([]);
+    mockPrisma.contentPiece.create.mockResolvedValue({ id: 'piece_1' });
+    mockPrisma.scheduledPost.create.mockResolvedValue({ id: 'sp_1' });
+    mockPrisma.calendarEvent.create.mockResolvedValue({ id: 'evt_1' });
+    detectConflicts = jest.spyOn(SchedulingService.prototype, 'detectSchedulingConflicts').mockResolvedValue([]);
+    mockPublishingQueue.syncJob.mockResolvedValue(undefined);
+    service = new CalendarImportService(mockPrisma, mockPublishingQueue as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    detectConflicts.mockRestore();
+  });
+
+  it('should preview CSV rows from the export format with per-row errors', async () => {
+    const content = [
+      CSV_HEADER,
+      'old_1,"Post: Launch thread","Big day",2026-10-20T09:00:00+02:00,,POST_SCHEDULED,TWITTER,"twitter",,"TWITTER - @acme"',
+      'old_2,"Team sync","",2026-10-21 10:00,2026-10-21 11:00,MEETING,,"",,""',
+      'old_3,"Post: Old news","",2026-10-01T09:00:00Z,,POST_SCHEDULED,LINKEDIN,"",,"LINKEDIN - @acme-inc"',
+      'old_4,"","",tomorrow,,POST_SCHEDULED,MYSPACE,"",,""',
+    ].join('\n');
+
+    const result = await service.importCalendar({
+      organizationId: 'org_123',
+      format: 'CSV',
+      content,
+      timeZone: 'America/New_York',
+      dryRun: true,
+    });
+
+    expect(result.committed).toBe(false);
+    expect(result.summary).toEqual({ total: 4, valid: 2, invalid: 2, skipped: 0, posts: 1, events: 1 });
+    expect(result.rows[0]).toEqual(expect.objectContaining({
+      row: 1,
+      action: 'create_post',
+      platform: 'TWITTER',
+      socialAccountId: 'acct_tw',
+      startTime: new Date('2026-10-20T07:00:00Z'),
+      errors: [],
+    }));
+    // Times without an offset are read in the requested time zone
+    expect(result.rows[1]).toEqual(expect.objectContaining({
+      action: 'create_event',
+      eventType: 'MEETING',
+      startTime: new Date('2026-10-21T14:00:00Z'),
+    }));
+    expect(result.rows[2].errors).toEqual(['Scheduled posts must start in the future']);
+    expect(result.rows[3].errors).toEqual([
+      'Invalid start time "tomorrow"',
+      'Title is required',
+      'Unknown platform "MYSPACE"',
+    ]);
+    // The valid rows are written inside the transaction so conflicts can be detected, then rolled back
+    expect(mockPrisma.scheduledPost.create).toHaveBeenCalledTimes(1);
+    expect(detectConflicts).toHaveBeenCalledWith(expect.objectContaining({ organizationId: 'org_123' }));
+    expect(mockPublishingQueue.syncJob).not.toHaveBeenCalled();
+  });
+
+  it('should commit valid rows as content pieces, scheduled posts and calendar events', async () => {
+    const content = [
+      CSV_HEADER,
+      'old_1,"Post: Launch thread","Big day",2026-10-20T09:00:00Z,,POST_SCHEDULED,TWITTER,"launch",,"TWITTER - @acme"',
+    ].join('\n');
+
+    const result = await service.importCalendar({ organizationId: 'org_123', format: 'CSV', content, timeZone: 'UTC', dryRun: false });
+
+    expect(result.committed).toBe(true);
+    expect(mockPrisma.contentPiece.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ platform: 'TWITTER', status: 'SCHEDULED', title: 'Launch thread', body: 'Big day' }),
+    });
+    expect(mockPrisma.scheduledPost.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        contentPieceId: 'piece_1',
+        socialAccountId: 'acct_tw',
+        scheduledAt: new Date('2026-10-20T09:00:00Z'),
+        idempotencyKey: expect.stringMatching(/^import:org_123:[0-9a-f]{64}$/),
+      }),
+    });
+    expect(mockPrisma.calendarEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        title: 'Post: Launch thread',
+        eventType: 'POST_SCHEDULED',
+        scheduledPostId: 'sp_1',
+        tags: ['launch'],
+        metadata: expect.objectContaining({ importedFrom: 'CSV', sourceId: 'old_1' }),
+      }),
+    });
+    expect(mockPublishingQueue.syncJob).toHaveBeenCalledWith({ id: 'sp_1' });
+  });
+
+  it('should roll back imports that cause critical conflicts', async () => {
+    detectConflicts.mockResolvedValue([
+      { type: 'PLATFORM_LIMIT', severity: 'CRITICAL', description: 'Exceeding daily limit for TWITTER (16/15)', affectedTime: new Date(), relatedPosts: ['sp_1'] },
+      { type: 'TIME_OVERLAP', severity: 'HIGH', description: 'Existing posts only', affectedTime: new Date(), relatedPosts: ['sp_other'] },
+    ]);
+    const content = `${CSV_HEADER}\nx,"Post: A","",2026-10-20T09:00:00Z,,POST_SCHEDULED,TWITTER,"",,""`;
+
+    const result = await service.importCalendar({ organizationId: 'org_123', format: 'CSV', content, timeZone: 'UTC', dryRun: false });
+
+    expect(result.committed).toBe(false);
+    expect(result.conflicts).toEqual([expect.objectContaining({ type: 'PLATFORM_LIMIT', relatedPosts: ['sp_1'] })]);
+    expect(mockPublishingQueue.syncJob).not.toHaveBeenCalled();
+
+    const forced = await service.importCalendar({
+      organizationId: 'org_123', format: 'CSV', content, timeZone: 'UTC', dryRun: false, allowConflicts: true,
+    });
+    expect(forced.committed).toBe(true);
+  });
+
+  it('should skip rows that are already in the calendar and import the rest', async () => {
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([{ id: 'sp_existing', idempotencyKey: 'unused' }]);
+    const content = [
+      CSV_HEADER,
+      'sp_existing,"Post: A","",2026-10-20T09:00:00Z,,POST_SCHEDULED,TWITTER,"",,""',
+      'new_1,"Post: B","",2026-10-21T09:00:00Z,,POST_SCHEDULED,TWITTER,"",,""',
+      'new_1,"Post: B","",2026-10-21T09:00:00Z,,POST_SCHEDULED,TWITTER,"",,""',
+    ].join('\n');
+
+    const result = await service.importCalendar({ organizationId: 'org_123', format: 'CSV', content, timeZone: 'UTC', dryRun: false });
+
+    expect(result.committed).toBe(true);
+    expect(result.summary).toEqual(expect.objectContaining({ total: 3, valid: 1, invalid: 0, skipped: 2, posts: 1 }));
+    expect(result.rows.map(row => [row.action, row.skipReason, row.errors])).toEqual([
+      ['skip', 'Already in the calendar', []],
+      ['create_post', undefined, []],
+      ['skip', 'Duplicate of an earlier row in this file', []],
+    ]);
+    expect(mockPrisma.scheduledPost.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should import ICS events using feed properties and skip cancelled ones', async () => {
+    const content = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'UID:scheduled-post-abc@api.aipromote.test',
+      'DTSTART;TZID=Europe/Berlin:20261020T090000',
+      'SUMMARY:Post: Hiring update',
+      'LOCATION:LINKEDIN - @acme-inc',
+      'X-AIPROMOTE-EVENT-TYPE:POST_SCHEDULED',
+      'X-AIPROMOTE-PLATFORM:LINKEDIN',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:offsite@example.com',
+      'DTSTART;VALUE=DATE:20261022',
+      'SUMMARY:Marketing offsite',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:dropped@example.com',
+      'DTSTART:20261023T090000Z',
+      'SUMMARY:Dropped',
+      'STATUS:CANCELLED',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    const result = await service.importCalendar({ organizationId: 'org_123', format: 'ICAL', content, timeZone: 'UTC', dryRun: true });
+
+    expect(result.summary).toEqual(expect.objectContaining({ total: 3, posts: 1, events: 1, skipped: 1, invalid: 0 }));
+    expect(result.rows[0]).toEqual(expect.objectContaining({
+      action: 'create_post',
+      platform: 'LINKEDIN',
+      socialAccountId: 'acct_li',
+      startTime: new Date('2026-10-20T07:00:00Z'),
+    }));
+    expect(result.rows[1]).toEqual(expect.objectContaining({ action: 'create_event', eventType: 'CUSTOM' }));
+    expect(result.rows[2].action).toBe('skip');
+  });
+
+  it('should reject CSV files without the export columns', async () => {
+    await expect(service.importCalendar({
+      organizationId: 'org_123', format: 'CSV', content: 'Name,When\nA,B', timeZone: 'UTC', dryRun: true,
+    })).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,234 @@
+import { CompetitorTrackingService } from '../../../src/services/competitor-tracking';
+import { TwitterCompetitorProvider } from '../../../src/services/competitor-providers';
+import { ValidationError } from '../../../src/utils/errors';
+
+// The service reads Platform values at runtime
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+
+const now = new Date('2026-10-18T12:00:00Z');
+
+const mockPrisma: any = {
+  $queryRaw: jest.fn(),
+  competitor: { upsert: jest.fn(), findFirst: jest.fn(), findMany: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+  competitorSnapshot: { create: jest.fn(), createMany: jest.fn(), findFirst: jest.fn(), findMany: jest.fn() },
+  competitorAlert: { create: jest.fn(), findFirst: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+  socialAccount: { findMany: jest.fn() },
+};
+
+const competitor = {
+  id: 'comp_1',
+  organizationId: 'org_1',
+  name: 'Acme',
+  platform: 'TWITTER',
+  handle: 'acme',
+  source: 'api',
+  isActive: true,
+  lastCollectedAt: null,
+};
+
+function post(daysAgo: number, likes: number, overrides: Record<string, any> = {}) {
+  return {
+    publishedAt: new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000),
+    likes,
+    comments: 2,
+    shares: 1,
+    hashtags: ['launch'],
+    ...overrides,
+  };
+}
+
+describe('CompetitorTrackingService', () => {
+  const provider = { name: 'twitter', supports: jest.fn(), isConfigured: jest.fn(), fetchProfile: jest.fn() };
+  const service = new CompetitorTrackingService(mockPrisma, [provider]);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    provider.supports.mockImplementation((platform: string) => platform === 'TWITTER');
+    provider.isConfigured.mockReturnValue(true);
+    mockPrisma.competitorSnapshot.create.mockImplementation(async ({ data }: any) => ({ id: 'snap_new', ...data }));
+    mockPrisma.competitorAlert.create.mockImplementation(async ({ data }: any) => ({ id: 'alert_1', ...data }));
+    mockPrisma.competitorSnapshot.findMany.mockResolvedValue([]);
+  });
+
+  it('should summarize the trailing four weeks of posts into a snapshot', async () => {
+    provider.fetchProfile.mockResolvedValue({
+      followersCount: 1000,
+      followingCount: 50,
+      postsCount: 900,
+      posts: [
+        post(0.5, 1, { hashtags: ['ai'] }), // Still collecting engagement
+        post(3, 20, { hashtags: ['launch', 'ai'] }),
+        post(10, 10),
+        post(40, 500), // Outside the window
+      ],
+    });
+
+    const snapshot = await service.collect(competitor as any, now);
+
+    expect(provider.fetchProfile).toHaveBeenCalledWith('acme', new Date('2026-09-20T12:00:00Z'));
+    expect(snapshot).toEqual(expect.objectContaining({
+      competitorId: 'comp_1',
+      source: 'twitter',
+      followersCount: 1000,
+      sampledPosts: 3,
+      postsPerWeek: 0.75,
+      avgLikes: 15,
+      avgComments: 2,
+      avgShares: 1,
+      engagementRate: 1.8,
+      topHashtags: ['ai', 'launch'],
+    }));
+    expect(mockPrisma.competitor.update).toHaveBeenCalledWith({
+      where: { id: 'comp_1' },
+      data: { lastCollectedAt: now, lastError: null },
+    });
+  });
+
+  it('should record the error when a provider fails and skip platforms without one', async () => {
+    provider.fetchProfile.mockRejectedValue(new Error('Rate limit exceeded'));
+
+    await expect(service.collect(competitor as any, now)).rejects.toThrow('Failed to collect metrics for @acme: Rate limit exceeded');
+    expect(mockPrisma.competitor.update).toHaveBeenCalledWith({
+      where: { id: 'comp_1' },
+      data: { lastError: 'Rate limit exceeded' },
+    });
+
+    await expect(service.collect({ ...competitor, platform: 'LINKEDIN' } as any, now)).resolves.toBeNull();
+    expect(provider.fetchProfile).toHaveBeenCalledTimes(1);
+  });
+
+  it('should alert when posting cadence jumps against the four-week median', async () => {
+    const posts = Array.from({ length: 24 }, (_, index) => post(2 + index, 10, { hashtags: [] }));
+    provider.fetchProfile.mockResolvedValue({ followersCount: 1000, posts });
+    mockPrisma.competitorSnapshot.findMany.mockResolvedValue([
+      { postsPerWeek: 2, engagementRate: 1.3 },
+      { postsPerWeek: 3, engagementRate: 1.3 },
+      { postsPerWeek: 2.5, engagementRate: 1.3 },
+    ]);
+
+    await service.collect(competitor as any, now);
+
+    // Six posts a week against a median of 2.5; engagement held steady
+    expect(mockPrisma.competitorAlert.create).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.competitorAlert.create).toHaveBeenCalledWith({
+      data: {
+        organizationId: 'org_1',
+        competitorId: 'comp_1',
+        kind: 'cadence',
+        baselineValue: 2.5,
+        currentValue: 6,
+        changePercent: 140,
+        message: 'Acme (@acme on Twitter) is posting 6 times a week, up from 2.5',
+      },
+    });
+
+    mockPrisma.competitorAlert.findFirst.mockResolvedValue({ id: 'alert_recent' });
+    mockPrisma.competitorAlert.create.mockClear();
+    await service.collect(competitor as any, now);
+    expect(mockPrisma.competitorAlert.create).not.toHaveBeenCalled();
+  });
+
+  it('should import uploaded snapshots oldest first and reject bad rows', async () => {
+    mockPrisma.competitor.findFirst.mockResolvedValue({ ...competitor, source: 'manual' });
+    const content = [
+      'date,followers,posts_per_week,avg_likes,avg_comments,avg_shares,hashtags',
+      '2026-10-15,"2,000",4,30,5,5,#saas #growth',
+      '2026-10-08,1900,3,,,,',
+    ].join('\n');
+
+    const result = await service.importSnapshots('org_1', 'comp_1', { format: 'CSV', content }, now);
+
+    expect(result).toEqual({ imported: 2, alerts: [] });
+    const rows = mockPrisma.competitorSnapshot.createMany.mock.calls[0][0].data;
+    expect(rows.map((row: any) => [row.collectedAt.toISOString().slice(0, 10), row.followersCount, row.engagementRate, row.topHashtags])).toEqual([
+      ['2026-10-08', 1900, null, []],
+      ['2026-10-15', 2000, 2, ['saas', 'growth']],
+    ]);
+    expect(mockPrisma.competitor.update).toHaveBeenCalledWith({
+      where: { id: 'comp_1' },
+      data: { lastCollectedAt: rows[1].collectedAt, lastError: null },
+    });
+
+    await expect(service.importSnapshots('org_1', 'comp_1', {
+      format: 'JSON',
+      content: JSON.stringify([{ date: '2026-10-15', followers: -5 }]),
+    }, now)).rejects.toThrow(new ValidationError('Row 1: followers must be a non-negative number'));
+    await expect(service.importSnapshots('org_1', 'comp_1', {
+      format: 'JSON',
+      content: JSON.stringify([{ date: '2026-11-01', followers: 5 }]),
+    }, now)).rejects.toThrow(ValidationError);
+
+    mockPrisma.competitor.findFirst.mockResolvedValue(null);
+    await expect(service.importSnapshots('org_1', 'comp_other', { format: 'CSV', content }, now)).resolves.toBeNull();
+  });
+
+  it('should report each competitor trend next to the organization\'s own numbers', async () => {
+    mockPrisma.competitor.findMany.mockResolvedValue([{
+      ...competitor,
+      snapshots: [
+        { collectedAt: new Date('2026-09-01T04:30:00Z'), followersCount: 1000, postsPerWeek: 4, engagementRate: null },
+        { collectedAt: new Date('2026-10-18T04:30:00Z'), followersCount: 1250, postsPerWeek: 2, engagementRate: 1.5 },
+      ],
+    }]);
+    mockPrisma.socialAccount.findMany.mockResolvedValue([
+      { platform: 'TWITTER', handle: 'us', followersCount: 400 },
+      { platform: 'TWITTER', handle: 'us_support', followersCount: 100 },
+    ]);
+    mockPrisma.$queryRaw.mockResolvedValue([{ platform: 'TWITTER', posts: 8, avgLikes: 6, avgComments: 2, avgShares: 2 }]);
+
+    const trends = await service.trends('org_1', { days: 60, now });
+
+    expect(trends.competitors[0].changes).toEqual({
+      followers: { first: 1000, last: 1250, change: 250, changePercent: 25 },
+      postsPerWeek: { first: 4, last: 2, change: -2, changePercent: -50 },
+      engagementRate: null,
+    });
+    expect(trends.organization).toEqual([{
+      platform: 'TWITTER',
+      handles: ['us', 'us_support'],
+      followersCount: 500,
+      posts: 8,
+      postsPerWeek: 2,
+      avgLikes: 6,
+      avgComments: 2,
+      avgShares: 2,
+      engagementRate: 2,
+    }]);
+
+    await expect(service.trends('org_1', { days: 0, now })).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('TwitterCompetitorProvider', () => {
+  it('should count replies as comments and quotes as shares, skipping retweets', async () => {
+    const client = {
+      getUserByUsername: jest.fn().mockResolvedValue({ id: 'u1', public_metrics: { followers_count: 10, following_count: 2, tweet_count: 7 } }),
+      getUserTweets: jest.fn().mockResolvedValue([
+        {
+          id: 't1',
+          created_at: '2026-10-17T09:00:00.000Z',
+          public_metrics: { like_count: 5, reply_count: 1, retweet_count: 2, quote_count: 1 },
+          entities: { hashtags: [{ tag: 'AI' }] },
+        },
+        {
+          id: 't2',
+          created_at: '2026-10-16T09:00:00.000Z',
+          referenced_tweets: [{ type: 'retweeted', id: 't0' }],
+          public_metrics: { like_count: 900, reply_count: 0, retweet_count: 300, quote_count: 0 },
+        },
+      ]),
+    };
+    const provider = new TwitterCompetitorProvider(() => client as any);
+    const since = new Date('2026-09-20T12:00:00Z');
+
+    const profile = await provider.fetchProfile('@acme', since);
+
+    expect(client.getUserTweets).toHaveBeenCalledWith('u1', { maxResults: 100, startTime: since });
+    expect(profile).toEqual({
+      followersCount: 10,
+      followingCount: 2,
+      postsCount: 7,
+      posts: [{ publishedAt: new Date('2026-10-17T09:00:00.000Z'), likes: 5, comments: 1, shares: 3, hashtags: ['ai'] }],
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { ConflictResolver } from '../../../src/services/conflict-resolver';
+import { SchedulingService } from '../../../src/services/scheduling-service';
+import { ValidationError } from '../../../src/utils/errors';
+
+// Both services read enum values (ConflictType, PostStatus, ...) at runtime
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+jest.mock('../../../src/config/redis', () => ({ publishingQueue: {} }));
+
+const mockPrisma: any = {
+  $transaction: jest.fn(),
+  scheduledPost: { findMany: jest.fn(), update: jest.fn() },
+  calendarEvent: { updateMany: jest.fn() },
+  schedulingConflict: { create: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+  optimalPostingTime: { findMany: jest.fn() },
+  contentPiece: { findFirst: jest.fn() },
+  socialAccount: { findMany: jest.fn() },
+};
+
+const accounts = {
+  reddit: { id: 'acct_rd', platform: 'REDDIT', handle: 'acme', isActive: true, expiresAt: null, refreshTokenEncrypted: 'x' },
+  linkedin: { id: 'acct_li', platform: 'LINKEDIN', handle: 'acme-inc', isActive: true, expiresAt: null, refreshTokenEncrypted: 'x' },
+  twitter: { id: 'acct_tw', platform: 'TWITTER', handle: 'acme', isActive: false, expiresAt: null, refreshTokenEncrypted: 'x' },
+};
+
+function post(id: string, account: any, scheduledAt: string, extra: Record<string, any> = {}) {
+  return {
+    id,
+    socialAccountId: account.id,
+    socialAccount: account,
+    contentPieceId: `content_${id}`,
+    contentPiece: { pillarId: 'pillar_education', body: `Body of ${id}` },
+    scheduledAt: new Date(scheduledAt),
+    status: 'SCHEDULED',
+    ...extra,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockPrisma.$transaction.mockImplementation(async (fn: (tx: unknown) => unknown) => fn(mockPrisma));
+  mockPrisma.schedulingConflict.create.mockResolvedValue({});
+  mockPrisma.optimalPostingTime.findMany.mockResolvedValue([]);
+});
+
+describe('SchedulingService conflict detection', () => {
+  const service = new SchedulingService(mockPrisma);
+  const timeRange = { start: new Date('2026-11-02T00:00:00Z'), end: new Date('2026-11-02T23:59:59Z') };
+
+  it('should flag posts that exceed a platform API quota', async () => {
+    mockPrisma.scheduledPost.findMany
+      .mockResolvedValueOnce([
+        post('p1', accounts.reddit, '2026-11-02T09:00:00Z'),
+        post('p2', accounts.reddit, '2026-11-02T09:05:00Z'),
+        post('p3', accounts.reddit, '2026-11-02T12:00:00Z'),
+      ])
+      .mockResolvedValueOnce([]);
+
+    const conflicts = await service.detectSchedulingConflicts({ organizationId: 'org_1', timeRange, checkTypes: ['RATE_LIMIT'] as any });
+
+    expect(conflicts).toEqual([expect.objectContaining({
+      type: 'RATE_LIMIT',
+      severity: 'CRITICAL',
+      relatedPosts: ['p1', 'p2'],
+      metadata: expect.objectContaining({ excess: 1, socialAccountId: 'acct_rd', maxPosts: 1, windowMinutes: 10 }),
+    })]);
+    expect(mockPrisma.schedulingConflict.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ conflictType: 'RATE_LIMIT', metadata: conflicts[0].metadata }),
+    });
+  });
+
+  it('should flag audience fatigue against the recent posting baseline', async () => {
+    mockPrisma.scheduledPost.findMany
+      .mockResolvedValueOnce([
+        post('p1', accounts.linkedin, '2026-11-02T08:00:00Z'),
+        post('p2', accounts.linkedin, '2026-11-02T12:00:00Z'),
+        post('p3', accounts.linkedin, '2026-11-02T17:00:00Z'),
+      ])
+      // One post in the last 28 days keeps the threshold at LinkedIn's recommended 2 a day
+      .mockResolvedValueOnce([post('old', accounts.linkedin, '2026-10-20T09:00:00Z', { status: 'PUBLISHED' })]);
+
+    const conflicts = await service.detectSchedulingConflicts({ organizationId: 'org_1', timeRange, checkTypes: ['AUDIENCE_FATIGUE'] as any });
+
+    expect(conflicts).toEqual([expect.objectContaining({
+      type: 'AUDIENCE_FATIGUE',
+      severity: 'MEDIUM',
+      relatedPosts: ['p1', 'p2', 'p3'],
+      metadata: expect.objectContaining({ excess: 1, threshold: 2, baselinePerDay: 0.04 }),
+    })]);
+  });
+
+  it('should flag posts on disconnected accounts and duplicated content', async () => {
+    mockPrisma.scheduledPost.findMany.mockResolvedValueOnce([
+      post('p1', accounts.twitter, '2026-11-02T09:00:00Z'),
+      post('p2', accounts.linkedin, '2026-11-02T09:00:00Z', { contentPieceId: 'content_launch' }),
+      post('p3', accounts.linkedin, '2026-11-02T15:00:00Z', { contentPieceId: 'content_launch' }),
+    ]);
+
+    const conflicts = await service.detectSchedulingConflicts({ organizationId: 'org_1', timeRange, checkTypes: ['RESOURCE_CONFLICT'] as any });
+
+    expect(conflicts.map(conflict => [conflict.metadata!.reason, conflict.relatedPosts])).toEqual([
+      ['account_unavailable', ['p1']],
+      ['duplicate_content', ['p2', 'p3']],
+    ]);
+  });
+});
+
+describe('ConflictResolver', () => {
+  const mockPublishingQueue = { syncJob: jest.fn() };
+  const resolver = new ConflictResolver(mockPrisma, mockPublishingQueue as any);
+  const now = new Date('2026-10-18T12:00:00Z');
+
+  function conflict(overrides: Record<string, any>) {
+    return {
+      id: 'conflict_1',
+      organizationId: 'org_1',
+      status: 'ACTIVE',
+      relatedPosts: [],
+      metadata: null,
+      ...overrides,
+    };
+  }
+
+  it('should spread same-hour posts twenty minutes apart', async () => {
+    const posts = ['p1', 'p2', 'p3', 'p4', 'p5'].map(id => post(id, { ...accounts.twitter, isActive: true, id: `acct_${id}` }, '2026-11-02T10:00:00Z'));
+    mockPrisma.schedulingConflict.findUnique.mockResolvedValue(conflict({
+      conflictType: 'TIME_OVERLAP',
+      relatedPosts: posts.map(p => p.id),
+      metadata: { excess: 2 },
+    }));
+    mockPrisma.scheduledPost.findMany.mockResolvedValue(posts);
+
+    const proposals = await resolver.proposeResolutions('conflict_1', now);
+
+    expect(proposals!.map(p => p.strategy)).toEqual(['spread_posts']);
+    expect(proposals![0].changes.map(change => change.action === 'reschedule' && change.to.toISOString())).toEqual([
+      '2026-11-02T10:20:00.000Z',
+      '2026-11-02T10:40:00.000Z',
+      '2026-11-02T11:00:00.000Z',
+      '2026-11-02T11:20:00.000Z',
+    ]);
+  });
+
+  it('should shift excess posts to the next open optimal posting time', async () => {
+    const posts = [
+      post('p1', accounts.linkedin, '2026-11-02T08:00:00Z'),
+      post('p2', accounts.linkedin, '2026-11-02T12:00:00Z'),
+      post('p3', accounts.linkedin, '2026-11-02T17:00:00Z'),
+    ];
+    mockPrisma.schedulingConflict.findUnique.mockResolvedValue(conflict({
+      conflictType: 'AUDIENCE_FATIGUE',
+      relatedPosts: posts.map(p => p.id),
+      metadata: { excess: 1 },
+    }));
+    mockPrisma.scheduledPost.findMany.mockResolvedValue(posts);
+    // Tuesdays at 09:00 UTC; the next one keeps every rolling 24 hours at two posts
+    mockPrisma.optimalPostingTime.findMany.mockResolvedValue([{ dayOfWeek: 2, hour: 9, timeZone: 'UTC' }]);
+
+    const [proposal] = (await resolver.proposeResolutions('conflict_1', now))!;
+
+    expect(proposal).toEqual({
+      strategy: 'shift_to_optimal_slot',
+      description: 'Move 1 post to the next open optimal posting time',
+      changes: [{
+        action: 'reschedule',
+        scheduledPostId: 'p3',
+        from: new Date('2026-11-02T17:00:00Z'),
+        to: new Date('2026-11-03T09:00:00Z'),
+      }],
+    });
+  });
+
+  it('should swap a near-duplicate for content from another pillar and apply it', async () => {
+    const posts = [
+      post('p1', accounts.linkedin, '2026-11-02T08:00:00Z'),
+      post('p2', accounts.linkedin, '2026-11-02T15:00:00Z'),
+    ];
+    mockPrisma.schedulingConflict.findUnique.mockResolvedValue(conflict({
+      conflictType: 'CONTENT_SIMILAR',
+      relatedPosts: posts.map(p => p.id),
+      metadata: { excess: 1 },
+    }));
+    mockPrisma.scheduledPost.findMany.mockResolvedValue(posts);
+    mockPrisma.contentPiece.findFirst.mockResolvedValue({ id: 'content_story', pillarId: 'pillar_founder' });
+
+    const applied = await resolver.applyResolution('conflict_1', 'swap_content', 'user_1', now);
+
+    expect(mockPrisma.contentPiece.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({
+        platform: 'LINKEDIN',
+        status: 'APPROVED',
+        pillarId: { not: null, notIn: ['pillar_education'] },
+      }),
+    }));
+    expect(applied!.changes).toEqual([{ action: 'swap_content', scheduledPostId: 'p2', from: 'content_p2', to: 'content_story' }]);
+    expect(mockPrisma.scheduledPost.update).toHaveBeenCalledWith({
+      where: { id: 'p2' },
+      data: { contentPieceId: 'content_story', sequence: { increment: 1 } },
+    });
+    expect(mockPublishingQueue.syncJob).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.schedulingConflict.update).toHaveBeenCalledWith({
+      where: { id: 'conflict_1' },
+      data: expect.objectContaining({
+        status: 'RESOLVED',
+        resolvedBy: 'user_1',
+        resolution: 'Swap 1 post for approved content from another pillar',
+        metadata: expect.objectContaining({ excess: 1, appliedStrategy: 'swap_content' }),
+      }),
+    });
+  });
+
+  it('should refuse strategies that do not apply to the conflict', async () => {
+    mockPrisma.schedulingConflict.findUnique.mockResolvedValue(conflict({
+      conflictType: 'RESOURCE_CONFLICT',
+      relatedPosts: ['p1'],
+      metadata: { reason: 'account_unavailable', excess: 1 },
+    }));
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([post('p1', accounts.twitter, '2026-11-02T09:00:00Z')]);
+    mockPrisma.socialAccount.findMany.mockResolvedValue([]);
+
+    await expect(resolver.applyResolution('conflict_1', 'reassign_account', undefined, now)).rejects.toThrow(ValidationError);
+    expect(mockPrisma.scheduledPost.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,291 @@
+import { ContentApprovalService } from '../../../src/services/content-approval';
+import { ValidationError } from '../../../src/utils/errors';
+
+jest.mock('../../../src/services/database', () => ({ prisma: {} }));
+
+const mockPrisma = {
+  contentPiece: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  contentApprovalRequest: {
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    count: jest.fn(),
+  },
+  approvalWorkflow: {
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+  },
+  contentRevision: { create: jest.fn() },
+  contentApprovalDecision: { create: jest.fn() },
+  approvalComment: { create: jest.fn() },
+  user: { findUnique: jest.fn() },
+  $transaction: jest.fn(),
+} as any;
+
+const now = new Date('2025-01-01T00:00:00.000Z');
+
+const reviewStep = {
+  id: 'step_content_review',
+  name: 'Content Review',
+  type: 'review',
+  order: 1,
+  assignees: [{ type: 'role', id: 'content_manager', name: 'Content Manager', canApprove: true, canReject: true, canRequestChanges: true, canComment: true }],
+  criteria: {},
+  autoAdvance: false,
+  parallel: false,
+};
+
+const workflowRecord = {
+  id: 'wf_1',
+  organizationId: 'org_123',
+  name: 'Single review',
+  description: null,
+  steps: [reviewStep],
+  rules: {
+    autoApprovalConditions: { enabled: false, conditions: [], requiresAll: true },
+    escalationRules: [],
+    notificationSettings: { notifyOnSubmission: false, notifyOnApproval: false, notifyOnRejection: false, notifyOnTimeout: false, channels: [] },
+  },
+  isActive: true,
+  isDefault: false,
+  createdAt: now,
+  updatedAt: now,
+};
+
+function requestRecord(overrides: Record<string, any> = {}) {
+  return {
+    id: 'apr_1',
+    organizationId: 'org_123',
+    contentPieceId: 'piece_1',
+    workflowId: 'wf_1',
+    submitterId: 'user_1',
+    currentStep: 0,
+    status: 'PENDING',
+    priority: 'NORMAL',
+    deadline: null,
+    metadata: { platform: 'LINKEDIN', contentType: 'POST', originalContent: 'Original body text' },
+    revisions: [{
+      id: 'rev_1',
+      requestId: 'apr_1',
+      version: 1,
+      title: null,
+      body: 'Original body text',
+      hashtags: ['#launch'],
+      mentions: [],
+      mediaRefs: null,
+      changes: [],
+      submitterId: 'user_1',
+      submitterName: 'Ada',
+      submissionNotes: 'Initial submission',
+      autoChecks: null,
+      createdAt: now,
+    }],
+    decisions: [],
+    comments: [],
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+describe('ContentApprovalService', () => {
+  let service: ContentApprovalService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((operations: Promise<unknown>[]) => Promise.all(operations));
+    mockPrisma.user.findUnique.mockResolvedValue({ name: 'Ada', email: 'ada@example.com' });
+    mockPrisma.approvalWorkflow.findUnique.mockResolvedValue(workflowRecord);
+    mockPrisma.contentPiece.update.mockResolvedValue({});
+    mockPrisma.contentApprovalRequest.update.mockResolvedValue({});
+    service = new ContentApprovalService(mockPrisma);
+  });
+
+  describe('createApprovalRequest', () => {
+    const requestData = {
+      contentPieceId: 'piece_1',
+      workflowId: 'wf_1',
+      organizationId: 'org_123',
+      submitterId: 'user_1',
+      priority: 'high' as const,
+      metadata: { platform: 'LINKEDIN', contentType: 'POST' },
+    };
+
+    beforeEach(() => {
+      mockPrisma.contentPiece.findUnique.mockResolvedValue({
+        id: 'piece_1',
+        organizationId: 'org_123',
+        title: null,
+        body: 'Original body text',
+        hashtags: ['#launch'],
+        mentions: [],
+        mediaRefs: null,
+      });
+      mockPrisma.contentApprovalRequest.findFirst.mockResolvedValue(null);
+      mockPrisma.contentApprovalRequest.create.mockResolvedValue(requestRecord({ priority: 'HIGH' }));
+    });
+
+    it('should persist the request with an initial revision and move the piece into review', async () => {
+      const result = await service.createApprovalRequest(requestData);
+
+      const createArgs = mockPrisma.contentApprovalRequest.create.mock.calls[0][0];
+      expect(createArgs.data).toEqual(expect.objectContaining({
+        organizationId: 'org_123',
+        workflowId: 'wf_1',
+        status: 'PENDING',
+        priority: 'HIGH',
+        metadata: expect.objectContaining({ originalContent: 'Original body text' }),
+      }));
+      expect(createArgs.data.revisions.create).toEqual(expect.objectContaining({
+        version: 1,
+        body: 'Original body text',
+        submitterName: 'Ada',
+      }));
+      expect(mockPrisma.contentPiece.update).toHaveBeenCalledWith({
+        where: { id: 'piece_1' },
+        data: { status: 'PENDING_REVIEW' },
+      });
+      expect(result.status).toBe('pending');
+      expect(result.priority).toBe('high');
+      expect(result.revisions).toHaveLength(1);
+    });
+
+    it('should reject content from another organization', async () => {
+      mockPrisma.contentPiece.findUnique.mockResolvedValue({ id: 'piece_1', organizationId: 'org_other' });
+
+      await expect(service.createApprovalRequest(requestData)).rejects.toThrow(ValidationError);
+      expect(mockPrisma.contentApprovalRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a second open request for the same piece', async () => {
+      mockPrisma.contentApprovalRequest.findFirst.mockResolvedValue({ id: 'apr_existing' });
+
+      await expect(service.createApprovalRequest(requestData)).rejects.toThrow('already has an open approval request');
+    });
+
+    it('should materialize the standard workflow for wf_default', async () => {
+      mockPrisma.approvalWorkflow.findFirst.mockResolvedValue(null);
+      mockPrisma.approvalWorkflow.create.mockResolvedValue({ ...workflowRecord, id: 'wf_org_default', isDefault: true });
+
+      await service.createApprovalRequest({ ...requestData, workflowId: 'wf_default' });
+
+      expect(mockPrisma.approvalWorkflow.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ organizationId: 'org_123', isDefault: true, name: 'Standard Content Review' }),
+      });
+      expect(mockPrisma.contentApprovalRequest.create.mock.calls[0][0].data.workflowId).toBe('wf_org_default');
+    });
+  });
+
+  describe('processApproval', () => {
+    beforeEach(() => {
+      mockPrisma.contentApprovalRequest.findUnique.mockResolvedValue(requestRecord({ status: 'IN_REVIEW' }));
+      mockPrisma.contentApprovalDecision.create.mockImplementation(async ({ data }: any) => ({
+        id: 'dec_1',
+        comments: null,
+        criteria: null,
+        suggestedChanges: null,
+        timeSpent: null,
+        createdAt: now,
+        ...data,
+      }));
+    });
+
+    it('should approve the piece when the last step is approved', async () => {
+      const result = await service.processApproval({ requestId: 'apr_1', reviewerId: 'user_2', action: 'approve' });
+
+      expect(result.isComplete).toBe(true);
+      expect(result.approval.decision).toBe('approved');
+      expect(mockPrisma.contentApprovalRequest.update).toHaveBeenCalledWith({
+        where: { id: 'apr_1' },
+        data: { status: 'APPROVED', currentStep: 1 },
+      });
+      expect(mockPrisma.contentPiece.update).toHaveBeenCalledWith({
+        where: { id: 'piece_1' },
+        data: { status: 'APPROVED' },
+      });
+    });
+
+    it('should send the piece back to draft when changes are requested', async () => {
+      const result = await service.processApproval({
+        requestId: 'apr_1',
+        reviewerId: 'user_2',
+        action: 'request_changes',
+        comments: 'Tighten the hook',
+      });
+
+      expect(result.isComplete).toBe(false);
+      expect(mockPrisma.contentApprovalDecision.create.mock.calls[0][0].data).toEqual(expect.objectContaining({
+        action: 'REQUEST_CHANGES',
+        decision: 'NEEDS_CHANGES',
+        comments: 'Tighten the hook',
+      }));
+      expect(mockPrisma.contentPiece.update).toHaveBeenCalledWith({
+        where: { id: 'piece_1' },
+        data: { status: 'DRAFT' },
+      });
+    });
+
+    it('should not accept decisions on closed requests', async () => {
+      mockPrisma.contentApprovalRequest.findUnique.mockResolvedValue(requestRecord({ status: 'REJECTED' }));
+
+      await expect(service.processApproval({ requestId: 'apr_1', reviewerId: 'user_2', action: 'approve' }))
+        .rejects
+        .toThrow('already rejected');
+    });
+  });
+
+  describe('submitRevision', () => {
+    it('should store the next version and update the content piece', async () => {
+      mockPrisma.contentApprovalRequest.findUnique.mockResolvedValue(requestRecord({ status: 'NEEDS_CHANGES' }));
+      mockPrisma.contentRevision.create.mockImplementation(async ({ data }: any) => ({
+        id: 'rev_2',
+        createdAt: now,
+        ...data,
+      }));
+
+      const result = await service.submitRevision({
+        requestId: 'apr_1',
+        submitterId: 'user_1',
+        content: { body: 'Sharper body text', hashtags: ['#launch'], mentions: [] },
+      });
+
+      expect(result.revision.version).toBe(2);
+      expect(result.revision.changes).toEqual([
+        expect.objectContaining({ field: 'body', oldValue: 'Original body text', newValue: 'Sharper body text' }),
+      ]);
+      expect(mockPrisma.contentPiece.update).toHaveBeenCalledWith({
+        where: { id: 'piece_1' },
+        data: expect.objectContaining({ body: 'Sharper body text', status: 'PENDING_REVIEW' }),
+      });
+    });
+  });
+
+  describe('addComment', () => {
+    it('should persist comments against the request', async () => {
+      mockPrisma.contentApprovalRequest.findUnique.mockResolvedValue({ id: 'apr_1' });
+      mockPrisma.approvalComment.create.mockImplementation(async ({ data }: any) => ({
+        id: 'cmt_1',
+        isResolved: false,
+        resolvedBy: null,
+        resolvedAt: null,
+        createdAt: now,
+        ...data,
+      }));
+
+      const comment = await service.addComment('apr_1', 'user_2', { content: 'Love this', type: 'praise' });
+
+      expect(mockPrisma.approvalComment.create.mock.calls[0][0].data).toEqual(expect.objectContaining({
+        requestId: 'apr_1',
+        authorName: 'Ada',
+        type: 'PRAISE',
+      }));
+      expect(comment.type).toBe('praise');
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { Prisma } from '@prisma/client';
+import { ContentLibraryService } from '../../../src/services/content-library';
+import { ValidationError } from '../../../src/utils/errors';
+
+// The search builds SQL with Prisma.sql, so the real client namespace is needed here
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+jest.mock('../../../src/services/database', () => ({ prisma: {} }));
+
+const mockPrisma = {
+  contentLibraryItem: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn(),
+  },
+  contentCollection: {
+    count: jest.fn(),
+    findUnique: jest.fn(),
+  },
+  contentCollectionItem: {
+    upsert: jest.fn(),
+  },
+  $queryRaw: jest.fn(),
+} as any;
+
+const now = new Date('2025-01-01T00:00:00.000Z');
+
+function itemRecord(overrides: Record<string, any> = {}) {
+  return {
+    id: 'lib_1',
+    organizationId: 'org_123',
+    type: 'TEMPLATE',
+    title: 'Evergreen launch checklist',
+    description: null,
+    status: 'PUBLISHED',
+    version: 1,
+    body: 'Ten things to check before you ship',
+    platform: 'LINKEDIN',
+    contentType: 'POST',
+    hashtags: ['#launch'],
+    mentions: [],
+    mediaRefs: null,
+    authorId: 'user_1',
+    authorName: 'Ada',
+    pillarId: null,
+    seriesId: null,
+    campaignId: null,
+    tags: ['launch', 'evergreen'],
+    categories: [],
+    impressions: 1200,
+    engagement: 0.08,
+    clicks: null,
+    conversions: null,
+    performanceScore: 82,
+    timesUsed: 3,
+    copiedCount: 0,
+    sharedCount: 0,
+    lastUsedAt: null,
+    aiGenerated: false,
+    generatedBy: null,
+    aiConfidence: null,
+    aiVariations: null,
+    isPublic: false,
+    sharedWith: [],
+    canEdit: [],
+    canView: [],
+    publishedAt: now,
+    createdAt: now,
+    updatedAt: now,
+    collections: [{ collectionId: 'col_1' }],
+    ...overrides,
+  };
+}
+
+/** Rebuild the Prisma.Sql object a tagged $queryRaw call received */
+function queryAt(index: number): Prisma.Sql {
+  const [strings, ...values] = mockPrisma.$queryRaw.mock.calls[index];
+  return Prisma.sql(strings, ...values);
+}
+
+describe('ContentLibraryService', () => {
+  let service: ContentLibraryService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ContentLibraryService(mockPrisma);
+  });
+
+  describe('searchItems', () => {
+    beforeEach(() => {
+      mockPrisma.$queryRaw.mockImplementation(async (strings: TemplateStringsArray) => {
+        const text = strings.join('?');
+        if (text.includes('SELECT i."id"')) return [{ id: 'lib_2' }, { id: 'lib_1' }];
+        if (text.includes('COUNT(*)::int AS count\n          FROM')) return [{ count: 42 }];
+        return [];
+      });
+      mockPrisma.contentLibraryItem.findMany.mockResolvedValue([
+        itemRecord(),
+        itemRecord({ id: 'lib_2', title: 'Launch day thread' }),
+      ]);
+    });
+
+    it('should push every filter down into the SQL query', async () => {
+      await service.searchItems({
+        organizationId: 'org_123',
+        query: 'launch checklist',
+        type: ['template'],
+        status: ['published'],
+        platform: ['LINKEDIN'],
+        contentType: ['POST'],
+        tags: ['evergreen'],
+        categories: ['playbooks'],
+        collections: ['col_1'],
+        author: ['user_1'],
+        pillar: ['pillar_1'],
+        series: ['series_1'],
+        campaign: ['campaign_1'],
+        dateRange: { start: new Date('2024-01-01'), field: 'published' },
+        performance: { minEngagement: 0.05, minImpressions: 1000, minScore: 70 },
+        aiGenerated: false,
+        hasMedia: false,
+        sortBy: 'relevance',
+      });
+
+      const page = queryAt(0);
+      expect(page.text).toContain(`i."organizationId" = $1`);
+      expect(page.text).toContain(`i."searchVector" @@ websearch_to_tsquery('english', $2)`);
+      for (const fragment of [
+        'i."type"::text = ANY',
+        'i."status"::text = ANY',
+        'i."platform" = ANY',
+        'i."contentType" = ANY',
+        'i."tags" &&',
+        'i."categories" &&',
+        '"content_collection_items"',
+        'i."authorId" = ANY',
+        'i."pillarId" = ANY',
+        'i."seriesId" = ANY',
+        'i."campaignId" = ANY',
+        'i."publishedAt" >=',
+        'i."engagement" >=',
+        'i."impressions" >=',
+        'i."performanceScore" >=',
+        'i."aiGenerated" =',
+        'i."mediaRefs" IS NULL',
+        'ORDER BY ts_rank_cd(i."searchVector"',
+        'LIMIT',
+      ]) {
+        expect(page.text).toContain(fragment);
+      }
+      expect(page.values).toEqual(expect.arrayContaining([
+        'org_123',
+        'launch checklist',
+        ['TEMPLATE'],
+        ['PUBLISHED'],
+        ['evergreen'],
+        0.05,
+        1000,
+        70,
+      ]));
+    });
+
+    it('should return items in ranked order with totals and suggestions', async () => {
+      const result = await service.searchItems({ organizationId: 'org_123', query: 'launch', sortBy: 'relevance' });
+
+      expect(result.items.map(item => item.id)).toEqual(['lib_2', 'lib_1']);
+      expect(result.pagination).toEqual({ page: 1, limit: 20, total: 42, totalPages: 3 });
+      expect(result.suggestions).toEqual([]);
+      expect(result.items[1]).toEqual(expect.objectContaining({
+        type: 'template',
+        collections: ['col_1'],
+        metadata: expect.objectContaining({ status: 'published', author: 'Ada', performance: expect.objectContaining({ score: 82 }) }),
+      }));
+    });
+
+    it('should fall back to recency when relevance is requested without a query', async () => {
+      await service.searchItems({ organizationId: 'org_123', sortBy: 'relevance', sortOrder: 'desc' });
+
+      const page = queryAt(0);
+      expect(page.text).not.toContain('websearch_to_tsquery');
+      expect(page.text).toContain('ORDER BY i."createdAt" DESC NULLS LAST');
+    });
+  });
+
+  describe('createItem', () => {
+    const itemData = {
+      organizationId: 'org_123',
+      type: 'template' as const,
+      title: 'Evergreen launch checklist',
+      content: { body: 'Ten things to check before you ship', hashtags: ['#launch'] },
+      metadata: { author: 'Ada', authorId: 'user_1', status: 'published' as const },
+      tags: ['launch'],
+      categories: [],
+      collections: ['col_1'],
+      permissions: { isPublic: false, sharedWith: [], canEdit: [], canView: [] },
+    };
+
+    it('should persist the item with its collection memberships', async () => {
+      mockPrisma.contentCollection.count.mockResolvedValue(1);
+      mockPrisma.contentLibraryItem.create.mockResolvedValue(itemRecord());
+
+      const item = await service.createItem(itemData);
+
+      const { data } = mockPrisma.contentLibraryItem.create.mock.calls[0][0];
+      expect(data).toEqual(expect.objectContaining({
+        type: 'TEMPLATE',
+        status: 'PUBLISHED',
+        authorName: 'Ada',
+        hashtags: ['#launch'],
+        publishedAt: expect.any(Date),
+        collections: { create: [{ collectionId: 'col_1' }] },
+      }));
+      expect(item.id).toBe('lib_1');
+    });
+
+    it('should reject collections from another organization', async () => {
+      mockPrisma.contentCollection.count.mockResolvedValue(0);
+
+      await expect(service.createItem(itemData)).rejects.toThrow(ValidationError);
+      expect(mockPrisma.contentLibraryItem.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addItemToCollection', () => {
+    it('should add the membership once', async () => {
+      mockPrisma.contentLibraryItem.findUnique.mockResolvedValue({ organizationId: 'org_123' });
+      mockPrisma.contentCollection.findUnique.mockResolvedValue({ organizationId: 'org_123' });
+
+      await service.addItemToCollection('lib_1', 'col_1', 'org_123');
+
+      expect(mockPrisma.contentCollectionItem.upsert).toHaveBeenCalledWith({
+        where: { collectionId_itemId: { collectionId: 'col_1', itemId: 'lib_1' } },
+        create: { collectionId: 'col_1', itemId: 'lib_1' },
+        update: {},
+      });
+    });
+
+    it('should refuse collections owned by another organization', async () => {
+      mockPrisma.contentLibraryItem.findUnique.mockResolvedValue({ organizationId: 'org_123' });
+      mockPrisma.contentCollection.findUnique.mockResolvedValue({ organizationId: 'org_other' });
+
+      await expect(service.addItemToCollection('lib_1', 'col_1', 'org_123')).rejects.toThrow('Collection not found');
+      expect(mockPrisma.contentCollectionItem.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { ContentSimilarityService, estimateJaccard, minhashSignature } from '../../../src/services/content-similarity';
+import { SchedulingService } from '../../../src/services/scheduling-service';
+
+// Conflict detection reads ConflictType and friends at runtime
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+jest.mock('../../../src/config/redis', () => ({ publishingQueue: {} }));
+
+const settings = {
+  lookbackMonths: 6,
+  minhashThreshold: 0.5,
+  embeddingThreshold: 0.85,
+  useEmbeddings: false,
+};
+
+const launchPost = 'We just shipped scheduled exports! Pick a format, choose a day, and your weekly report lands in your inbox every Monday morning.';
+const launchRepost = 'We just shipped scheduled exports. Pick a format, pick a day, and your weekly report lands in your inbox every Monday morning!';
+const hiringPost = 'We just shipped our hiring page for the design team. Come build the future of social scheduling with us in Berlin.';
+
+function published(id: string, body: string, publishedAt: string, title: string | null = null) {
+  return { id, organizationId: 'org_1', title, body, platform: 'LINKEDIN', status: 'PUBLISHED', publishedAt: new Date(publishedAt) };
+}
+
+function mockPrismaWith(pieces: any[]) {
+  const fingerprints = new Map<string, any>();
+  return {
+    contentPiece: {
+      findUnique: jest.fn(async ({ where }) => pieces.find(piece => piece.id === where.id) || null),
+      findMany: jest.fn(async ({ where }) => pieces.filter(piece =>
+        piece.status === 'PUBLISHED' &&
+        piece.publishedAt >= where.publishedAt.gte &&
+        !where.id?.notIn.includes(piece.id)
+      )),
+    },
+    contentFingerprint: {
+      findMany: jest.fn(async ({ where }) => where.contentPieceId.in.map((id: string) => fingerprints.get(id)).filter(Boolean)),
+      upsert: jest.fn(async ({ where, create }) => fingerprints.set(where.contentPieceId, create)),
+      update: jest.fn(),
+    },
+    scheduledPost: { findMany: jest.fn() },
+    schedulingConflict: { create: jest.fn() },
+  } as any;
+}
+
+describe('MinHash signatures', () => {
+  it('should score rewordings above unrelated posts that share an opener', () => {
+    const original = minhashSignature(launchPost);
+
+    expect(estimateJaccard(original, minhashSignature(launchPost.toUpperCase()))).toBe(1);
+    expect(estimateJaccard(original, minhashSignature(launchRepost))).toBeGreaterThan(0.6);
+    expect(estimateJaccard(original, minhashSignature(hiringPost))).toBeLessThan(0.2);
+  });
+});
+
+describe('ContentSimilarityService', () => {
+  const now = new Date('2026-10-18T12:00:00Z');
+
+  it('should describe published matches from the lookback window', async () => {
+    const prisma = mockPrismaWith([
+      published('recap', launchPost, '2026-05-12T09:00:00Z', 'Scheduled exports launch'),
+      published('hiring', hiringPost, '2026-09-01T09:00:00Z'),
+      published('ancient', launchPost, '2025-01-10T09:00:00Z'),
+    ]);
+    const service = new ContentSimilarityService(prisma, {} as any, settings);
+
+    const matches = await service.findSimilar('org_1', launchRepost, { now });
+
+    expect(matches).toEqual([expect.objectContaining({ contentPieceId: 'recap', method: 'minhash' })]);
+    expect(matches[0].summary).toMatch(/^\d+% similar to "Scheduled exports launch" from May 2026$/);
+    // Fingerprints are stored once and reused
+    await service.findSimilar('org_1', launchRepost, { now });
+    expect(prisma.contentFingerprint.upsert).toHaveBeenCalledTimes(2);
+  });
+
+  it('should catch paraphrases through embeddings and fall back to MinHash when they fail', async () => {
+    const prisma = mockPrismaWith([published('recap', launchPost, '2026-05-12T09:00:00Z')]);
+    const llm = {
+      embed: jest.fn().mockResolvedValue({ vectors: [[1, 0.1]], generatedBy: 'openai-text-embedding-3-small' }),
+    } as any;
+    const service = new ContentSimilarityService(prisma, llm, { ...settings, useEmbeddings: true });
+
+    const [match] = await service.findSimilar('org_1', 'Exports can now run on a schedule and email you the report.', { now });
+
+    expect(match).toEqual(expect.objectContaining({ contentPieceId: 'recap', method: 'embedding', similarity: 1 }));
+
+    llm.embed.mockRejectedValue(new Error('quota exceeded'));
+    await expect(service.findSimilar('org_1', hiringPost, { now })).resolves.toEqual([]);
+  });
+
+  it('should store the nearest published piece when scoring new content', async () => {
+    const prisma = mockPrismaWith([
+      published('recap', launchPost, '2026-05-12T09:00:00Z'),
+      { ...published('draft', launchRepost, '2026-10-18T00:00:00Z'), status: 'DRAFT', publishedAt: null },
+    ]);
+    const service = new ContentSimilarityService(prisma, {} as any, settings);
+
+    const nearest = await service.scoreContentPiece('draft', now);
+
+    expect(nearest).toEqual(expect.objectContaining({ contentPieceId: 'recap' }));
+    expect(prisma.contentFingerprint.update).toHaveBeenCalledWith({
+      where: { contentPieceId: 'draft' },
+      data: { nearestContentPieceId: 'recap', nearestSimilarity: nearest!.similarity, scoredAt: now },
+    });
+  });
+
+  it('should group near-duplicate posts within 24 hours into one conflict', async () => {
+    const prisma = mockPrismaWith([]);
+    const scheduling = new SchedulingService(prisma, new ContentSimilarityService(prisma, {} as any, settings));
+    const scheduled = (id: string, body: string, scheduledAt: string) => ({
+      id,
+      contentPieceId: `content_${id}`,
+      contentPiece: { id: `content_${id}`, organizationId: 'org_1', body },
+      scheduledAt: new Date(scheduledAt),
+    });
+    prisma.scheduledPost.findMany.mockResolvedValue([
+      scheduled('p1', launchPost, '2026-11-02T09:00:00Z'),
+      scheduled('p2', hiringPost, '2026-11-02T10:00:00Z'),
+      scheduled('p3', launchRepost, '2026-11-02T18:00:00Z'),
+      scheduled('p4', launchRepost, '2026-11-05T18:00:00Z'),
+    ]);
+
+    const conflicts = await scheduling.detectSchedulingConflicts({
+      organizationId: 'org_1',
+      timeRange: { start: new Date('2026-11-02T00:00:00Z'), end: new Date('2026-11-06T00:00:00Z') },
+      checkTypes: ['CONTENT_SIMILAR'] as any,
+    });
+
+    expect(conflicts).toEqual([expect.objectContaining({
+      type: 'CONTENT_SIMILAR',
+      relatedPosts: ['p1', 'p3'],
+      metadata: { excess: 1, similarity: expect.any(Number) },
+    })]);
+  });
+});
@@ -0,0 +1,115 @@
+import { ConversionAttributionService } from '../../../src/services/conversion-attribution';
+import { ValidationError } from '../../../src/utils/errors';
+
+// The report builds its credit expression with Prisma.sql
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+
+const now = new Date('2026-10-18T12:00:00Z');
+
+const mockPrisma: any = {
+  $queryRaw: jest.fn(),
+  organization: { findUnique: jest.fn() },
+  conversion: { create: jest.fn(), findUnique: jest.fn(), groupBy: jest.fn() },
+  linkClick: { findMany: jest.fn() },
+  scheduledPost: { findFirst: jest.fn(), findMany: jest.fn() },
+};
+
+const mockLinkTracking: any = { refreshConversionSnapshot: jest.fn() };
+
+describe('ConversionAttributionService', () => {
+  const service = new ConversionAttributionService(mockPrisma, mockLinkTracking);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrisma.organization.findUnique.mockResolvedValue({ id: 'org_1' });
+    mockPrisma.conversion.create.mockImplementation(async ({ data }: any) => ({ id: 'conv_1', ...data }));
+    mockLinkTracking.refreshConversionSnapshot.mockResolvedValue(undefined);
+  });
+
+  it('should record clicks as touches oldest first and mark the last one', async () => {
+    mockPrisma.linkClick.findMany.mockResolvedValue([
+      { id: 'click_a', scheduledPostId: 'sp_1', clickedAt: new Date('2026-10-10T09:00:00Z') },
+      { id: 'click_b', scheduledPostId: 'sp_2', clickedAt: new Date('2026-10-17T09:00:00Z') },
+    ]);
+
+    const result = await service.record({
+      organizationId: 'org_1',
+      type: 'SIGNUP',
+      clickIds: ['click_b', 'click_a', 'click_b'],
+      externalId: 'user_42',
+    }, { source: 'server', now });
+
+    expect(mockPrisma.linkClick.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        id: { in: ['click_b', 'click_a'] },
+        link: { organizationId: 'org_1' },
+        clickedAt: { gte: new Date('2026-09-18T12:00:00Z'), lte: now },
+      },
+    }));
+    expect(mockPrisma.conversion.create.mock.calls[0][0].data.touches.create).toEqual([
+      { scheduledPostId: 'sp_1', linkClickId: 'click_a', touchedAt: new Date('2026-10-10T09:00:00Z'), isLast: false },
+      { scheduledPostId: 'sp_2', linkClickId: 'click_b', touchedAt: new Date('2026-10-17T09:00:00Z'), isLast: true },
+    ]);
+    expect(result).toEqual(expect.objectContaining({ attributedPosts: ['sp_1', 'sp_2'], duplicate: false }));
+    expect(mockLinkTracking.refreshConversionSnapshot).toHaveBeenCalledWith('sp_2', now);
+  });
+
+  it('should return repeats by external id and drop unattributed pixel conversions', async () => {
+    mockPrisma.conversion.findUnique.mockResolvedValue({ id: 'conv_0', type: 'DEMO', touches: [{ scheduledPostId: 'sp_1' }] });
+
+    await expect(service.record({ organizationId: 'org_1', type: 'DEMO', externalId: 'demo_7' }, { source: 'server', now }))
+      .resolves.toEqual({ conversion: { id: 'conv_0', type: 'DEMO' }, attributedPosts: ['sp_1'], duplicate: true });
+    expect(mockPrisma.conversion.create).not.toHaveBeenCalled();
+
+    mockPrisma.linkClick.findMany.mockResolvedValue([]);
+    mockPrisma.scheduledPost.findFirst.mockResolvedValue(null);
+    await expect(service.record({ organizationId: 'org_1', type: 'SIGNUP', clickIds: ['forged'], utmContent: 'sp_x' }, { source: 'pixel', requireTouch: true, now }))
+      .resolves.toEqual({ conversion: null, attributedPosts: [], duplicate: false });
+    expect(mockPrisma.conversion.create).not.toHaveBeenCalled();
+
+    await expect(service.record({ organizationId: 'org_1', type: 'SIGNUP', occurredAt: new Date('2026-10-19T00:00:00Z') }, { source: 'server', now }))
+      .rejects.toThrow(ValidationError);
+  });
+
+  it('should credit conversions by the selected model and report per post and platform', async () => {
+    mockPrisma.$queryRaw
+      .mockResolvedValueOnce([
+        { scheduledPostId: 'sp_1', signups: 0.5, demos: 0 },
+        { scheduledPostId: 'sp_2', signups: 1.5, demos: 1 },
+      ])
+      .mockResolvedValueOnce([
+        { scheduledPostId: 'sp_1', clicks: 10 },
+        { scheduledPostId: 'sp_2', clicks: 20 },
+      ]);
+    mockPrisma.conversion.groupBy.mockResolvedValue([{ type: 'SIGNUP', _count: { _all: 3 } }]);
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([
+      { id: 'sp_1', publishedAt: null, socialAccount: { platform: 'TWITTER' }, contentPiece: { title: 'Launch', body: '...' } },
+      { id: 'sp_2', publishedAt: null, socialAccount: { platform: 'LINKEDIN' }, contentPiece: { title: null, body: 'How we onboard' } },
+    ]);
+
+    const report = await service.report('org_1', {
+      startDate: new Date('2026-10-01T00:00:00Z'),
+      endDate: now,
+      model: 'linear',
+    });
+
+    expect(mockPrisma.$queryRaw.mock.calls[0][1].strings.join('')).toContain('COUNT(*) OVER (PARTITION BY t."conversionId")');
+    expect(report.totals).toEqual({ clicks: 30, signups: 2, demos: 1, conversionRate: 10 });
+    expect(report.unattributed).toEqual({ signups: 3, demos: 0 });
+    expect(report.posts.map(row => [row.scheduledPostId, row.title, row.conversionRate])).toEqual([
+      ['sp_2', 'How we onboard', 12.5],
+      ['sp_1', 'Launch', 5],
+    ]);
+    expect(report.platforms.map(row => row.platform)).toEqual(['LINKEDIN', 'TWITTER']);
+
+    await expect(service.report('org_1', { startDate: now, endDate: now })).rejects.toThrow(ValidationError);
+  });
+
+  it('should only accept the organization\'s own conversion key', () => {
+    const key = service.conversionKey('org_1');
+
+    expect(service.verifyConversionKey('org_1', key)).toBe(true);
+    expect(service.verifyConversionKey('org_2', key)).toBe(false);
+    expect(service.verifyConversionKey('org_1', 'short')).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { LocalFileStorage, signDownloadUrl, verifyDownloadSignature } from '../../../src/services/file-storage';
+import { config } from '../../../src/config/config';
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('LocalFileStorage', () => {
+  let root: string;
+  let storage: LocalFileStorage;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-'));
+    storage = new LocalFileStorage(root);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should write, stream and delete files under nested keys', async () => {
+    await storage.put('exports/org_123/exp_1/calendar.csv', 'Title,Date\n', 'text/csv');
+
+    expect(await readAll((await storage.getStream('exports/org_123/exp_1/calendar.csv'))!)).toBe('Title,Date\n');
+
+    await storage.delete('exports/org_123/exp_1/calendar.csv');
+    expect(await storage.getStream('exports/org_123/exp_1/calendar.csv')).toBeNull();
+    await expect(storage.delete('exports/org_123/exp_1/calendar.csv')).resolves.toBeUndefined();
+  });
+
+  it('should refuse keys that escape the storage directory', async () => {
+    await expect(storage.put('../outside.txt', 'x', 'text/plain')).rejects.toThrow('Invalid storage key');
+    await expect(storage.getStream('exports/../../etc/passwd')).rejects.toThrow('Invalid storage key');
+  });
+});
+
+describe('signed download URLs', () => {
+  const routePath = '/api/v1/scheduling/export/exp_1';
+  const now = new Date('2026-10-18T12:00:00Z');
+
+  beforeEach(() => {
+    config.baseUrl = 'https://api.example.com/';
+    config.storage.signingSecret = 'download-secret';
+  });
+
+  function queryOf(url: string) {
+    const { searchParams } = new URL(url);
+    return { expires: searchParams.get('expires') || undefined, signature: searchParams.get('signature') || undefined };
+  }
+
+  it('should sign a path that verifies until it expires', () => {
+    const { url, expiresAt } = signDownloadUrl(routePath, 900, now);
+    const { expires, signature } = queryOf(url);
+
+    expect(url.startsWith(`https://api.example.com${routePath}?expires=`)).toBe(true);
+    expect(expiresAt).toEqual(new Date('2026-10-18T12:15:00Z'));
+    expect(verifyDownloadSignature(routePath, expires, signature, now)).toBe(true);
+    expect(verifyDownloadSignature(routePath, expires, signature, new Date('2026-10-18T12:15:01Z'))).toBe(false);
+  });
+
+  it('should reject signatures for another path or a tampered expiry', () => {
+    const { expires, signature } = queryOf(signDownloadUrl(routePath, 900, now).url);
+
+    expect(verifyDownloadSignature('/api/v1/scheduling/export/exp_2', expires, signature, now)).toBe(false);
+    expect(verifyDownloadSignature(routePath, String(Number(expires) + 3600), signature, now)).toBe(false);
+    expect(verifyDownloadSignature(routePath, expires, undefined, now)).toBe(false);
+  });
+});
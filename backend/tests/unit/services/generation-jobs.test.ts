@@ -0,0 +1,192 @@
+import { GenerationJobService } from '../../../src/services/generation-jobs';
+import { redis, contentGenerationQueue, addContentGenerationJob } from '../../../src/config/redis';
+import { ValidationError } from '../../../src/utils/errors';
+
+jest.mock('../../../src/config/redis', () => ({
+  redis: {
+    set: jest.fn(),
+    exists: jest.fn(),
+  },
+  contentGenerationQueue: { getJob: jest.fn() },
+  strategyGenerationQueue: { getJob: jest.fn() },
+  addContentGenerationJob: jest.fn(),
+  addStrategyGenerationJob: jest.fn(),
+}));
+
+const mockRedis = redis as unknown as { set: jest.Mock; exists: jest.Mock };
+const mockContentQueue = contentGenerationQueue as unknown as { getJob: jest.Mock };
+const mockAddContentJob = addContentGenerationJob as jest.Mock;
+
+function mockJob(overrides: Record<string, any> = {}) {
+  return {
+    id: '42',
+    data: {
+      organizationId: 'org_123',
+      platform: 'LINKEDIN',
+      contentType: 'POST',
+      count: 3,
+      context: { contentIdeas: ['idea one', 'idea two'] },
+    },
+    progress: 0,
+    returnvalue: undefined,
+    attemptsMade: 0,
+    timestamp: Date.now(),
+    getState: jest.fn().mockResolvedValue('active'),
+    updateProgress: jest.fn(),
+    remove: jest.fn(),
+    ...overrides,
+  } as any;
+}
+
+describe('GenerationJobService', () => {
+  const mockPrisma = {
+    contentPiece: { create: jest.fn() },
+    aIStrategy: { findMany: jest.fn(), count: jest.fn(), create: jest.fn() },
+    organization: { findUnique: jest.fn() },
+  } as any;
+  const mockContentService = { generateContent: jest.fn() } as any;
+  const mockStrategyService = { generateStrategy: jest.fn() } as any;
+  const mockSimilarity = { scoreContentPiece: jest.fn() } as any;
+  let service: GenerationJobService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRedis.exists.mockResolvedValue(0);
+    mockContentService.generateContent.mockResolvedValue({
+      content: { body: 'Generated body', hashtags: ['#tips'], mentions: [] },
+      metadata: { rationale: 'Because', confidence: 0.8 },
+      generatedBy: 'local-local-fixtures',
+    });
+    let created = 0;
+    mockPrisma.contentPiece.create.mockImplementation(async () => ({ id: `piece_${++created}` }));
+    mockSimilarity.scoreContentPiece.mockResolvedValue(null);
+    service = new GenerationJobService(mockPrisma, mockContentService, mockStrategyService, mockSimilarity);
+  });
+
+  describe('processContentGenerationJob', () => {
+    it('should persist one ContentPiece per requested piece and report progress', async () => {
+      const job = mockJob({
+        data: { ...mockJob().data, scheduledFor: '2025-01-01T09:00:00.000Z', intervalHours: 24 },
+      });
+
+      const result = await service.processContentGenerationJob(job);
+
+      expect(result).toEqual({ contentPieceIds: ['piece_1', 'piece_2', 'piece_3'], similarContent: {}, cancelled: false });
+      expect(mockPrisma.contentPiece.create).toHaveBeenCalledTimes(3);
+      expect(mockPrisma.contentPiece.create.mock.calls[2][0].data).toEqual(expect.objectContaining({
+        organizationId: 'org_123',
+        status: 'DRAFT',
+        body: 'Generated body',
+        generatedBy: 'local-local-fixtures',
+        scheduledAt: new Date('2025-01-03T09:00:00.000Z'),
+      }));
+      expect(mockContentService.generateContent.mock.calls[2][0].prompt).toBe('idea one');
+      expect(job.updateProgress).toHaveBeenLastCalledWith(expect.objectContaining({ percent: 100, completed: 3, total: 3 }));
+    });
+
+    it('should resume after pieces saved by a previous attempt', async () => {
+      const job = mockJob({ progress: { percent: 33, completed: 1, total: 3, contentPieceIds: ['existing'] } });
+
+      const result = await service.processContentGenerationJob(job);
+
+      expect(mockContentService.generateContent).toHaveBeenCalledTimes(2);
+      expect(result.contentPieceIds).toEqual(['existing', 'piece_1', 'piece_2']);
+    });
+
+    it('should report generated pieces that repeat published content', async () => {
+      const match = { contentPieceId: 'published_1', similarity: 0.87, method: 'minhash', summary: '87% similar to "Launch recap" from March 2026' };
+      mockSimilarity.scoreContentPiece.mockResolvedValueOnce(null).mockResolvedValueOnce(match).mockResolvedValue(null);
+
+      const result = await service.processContentGenerationJob(mockJob());
+
+      expect(mockSimilarity.scoreContentPiece).toHaveBeenCalledWith('piece_1');
+      expect(result.similarContent).toEqual({ piece_2: match });
+    });
+
+    it('should keep generating when similarity scoring fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      mockSimilarity.scoreContentPiece.mockRejectedValueOnce(new Error('Embedding provider unavailable'));
+      const job = mockJob();
+
+      const result = await service.processContentGenerationJob(job);
+
+      expect(result.contentPieceIds).toEqual(['piece_1', 'piece_2', 'piece_3']);
+      expect(job.updateProgress).toHaveBeenCalledWith(expect.objectContaining({ completed: 1 }));
+    });
+
+    it('should stop at the next piece once cancelled', async () => {
+      mockRedis.exists.mockResolvedValueOnce(0).mockResolvedValue(1);
+      const job = mockJob();
+
+      const result = await service.processContentGenerationJob(job);
+
+      expect(result).toEqual({ contentPieceIds: ['piece_1'], similarContent: {}, cancelled: true });
+      expect(mockContentService.generateContent).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('enqueueContentGeneration', () => {
+    it('should reject oversized bulk requests', async () => {
+      await expect(service.enqueueContentGeneration({ ...mockJob().data, count: 500 }))
+        .rejects
+        .toThrow(ValidationError);
+      expect(mockAddContentJob).not.toHaveBeenCalled();
+    });
+
+    it('should return the queued job status', async () => {
+      mockAddContentJob.mockResolvedValue(mockJob({ getState: jest.fn().mockResolvedValue('waiting') }));
+
+      const status = await service.enqueueContentGeneration(mockJob().data);
+
+      expect(status).toEqual(expect.objectContaining({ jobId: '42', kind: 'content', state: 'waiting' }));
+    });
+  });
+
+  describe('getJobStatus', () => {
+    it('should hide jobs that belong to another organization', async () => {
+      mockContentQueue.getJob.mockResolvedValue(mockJob());
+
+      expect(await service.getJobStatus('content', '42', 'org_other')).toBeNull();
+    });
+
+    it('should expose progress and results', async () => {
+      mockContentQueue.getJob.mockResolvedValue(mockJob({
+        getState: jest.fn().mockResolvedValue('completed'),
+        progress: { percent: 100, completed: 3, total: 3 },
+        returnvalue: { contentPieceIds: ['a', 'b', 'c'], cancelled: false },
+      }));
+
+      const status = await service.getJobStatus('content', '42', 'org_123');
+
+      expect(status).toEqual(expect.objectContaining({
+        state: 'completed',
+        progress: expect.objectContaining({ percent: 100, completed: 3 }),
+        result: { contentPieceIds: ['a', 'b', 'c'], cancelled: false },
+      }));
+    });
+  });
+
+  describe('cancelJob', () => {
+    it('should remove jobs that have not started', async () => {
+      const job = mockJob({ getState: jest.fn().mockResolvedValue('waiting') });
+      mockContentQueue.getJob.mockResolvedValue(job);
+
+      const status = await service.cancelJob('content', '42', 'org_123');
+
+      expect(job.remove).toHaveBeenCalled();
+      expect(mockRedis.set).toHaveBeenCalledWith('generation:cancel:content:42', '1', 'EX', expect.any(Number));
+      expect(status?.state).toBe('cancelled');
+    });
+
+    it('should flag running jobs without removing them', async () => {
+      const job = mockJob();
+      mockContentQueue.getJob.mockResolvedValue(job);
+
+      const status = await service.cancelJob('content', '42', 'org_123');
+
+      expect(job.remove).not.toHaveBeenCalled();
+      expect(mockRedis.set).toHaveBeenCalled();
+      expect(status?.state).toBe('active');
+    });
+  });
+});
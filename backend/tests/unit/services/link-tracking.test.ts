@@ -0,0 +1,104 @@
+import { LinkTrackingService } from '../../../src/services/link-tracking';
+
+// The service reads MetricType values at runtime
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+
+const now = new Date('2026-10-18T12:00:00Z');
+
+const mockPrisma: any = {
+  trackedLink: { upsert: jest.fn(), findUnique: jest.fn(), update: jest.fn(), count: jest.fn() },
+  linkClick: { create: jest.fn(), count: jest.fn() },
+  conversionTouch: { count: jest.fn() },
+  contentPiece: { findUnique: jest.fn() },
+  scheduledPost: { findUnique: jest.fn() },
+  analytics: { findFirst: jest.fn(), create: jest.fn(), update: jest.fn() },
+};
+
+function post(body: string, overrides: Record<string, any> = {}) {
+  return {
+    id: 'sp_1',
+    organizationId: 'org_1',
+    socialAccount: { platform: 'LINKEDIN' },
+    contentPiece: { id: 'piece_1', body, cta: null, platformOptions: null, ...overrides },
+  };
+}
+
+describe('LinkTrackingService', () => {
+  const service = new LinkTrackingService(mockPrisma);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    let codes = 0;
+    mockPrisma.trackedLink.upsert.mockImplementation(async ({ create }: any) => ({ id: `link_${++codes}`, ...create, code: `code${codes}` }));
+    mockPrisma.contentPiece.findUnique.mockResolvedValue({ series: null, pillar: { name: 'Product Updates' } });
+  });
+
+  it('should tag each link with per-post UTM parameters and swap it for a short link', async () => {
+    const tagged = await service.tagContent(post(
+      'New release: https://acme.io/changelog. Docs at https://acme.io/docs?utm_source=newsletter!',
+      { cta: 'Start free at https://acme.io/changelog' }
+    ));
+
+    expect(tagged).toEqual({
+      body: 'New release: http://localhost:3001/l/code1. Docs at http://localhost:3001/l/code2!',
+      cta: 'Start free at http://localhost:3001/l/code1',
+      links: 2,
+    });
+    expect(mockPrisma.trackedLink.upsert).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.trackedLink.upsert.mock.calls[0][0]).toEqual(expect.objectContaining({
+      where: { scheduledPostId_originalUrl: { scheduledPostId: 'sp_1', originalUrl: 'https://acme.io/changelog' } },
+      update: {},
+    }));
+    expect(mockPrisma.trackedLink.upsert.mock.calls[0][0].create.destinationUrl)
+      .toBe('https://acme.io/changelog?utm_source=linkedin&utm_medium=social&utm_campaign=product-updates&utm_content=sp_1');
+    // Parameters already on the link are kept
+    expect(mockPrisma.trackedLink.upsert.mock.calls[1][0].create.destinationUrl)
+      .toBe('https://acme.io/docs?utm_source=newsletter&utm_medium=social&utm_campaign=product-updates&utm_content=sp_1');
+  });
+
+  it('should leave posts without links or with tracking turned off untouched', async () => {
+    await expect(service.tagContent(post('No links here'))).resolves.toEqual({ body: 'No links here', cta: null, links: 0 });
+    await expect(service.tagContent(post('See https://acme.io', { platformOptions: { tracking: { enabled: false } } })))
+      .resolves.toEqual({ body: 'See https://acme.io', cta: null, links: 0 });
+    expect(mockPrisma.trackedLink.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should count clicks, pass the click id on and skip link preview crawlers', async () => {
+    mockPrisma.trackedLink.findUnique.mockResolvedValue({
+      id: 'link_1',
+      scheduledPostId: 'sp_1',
+      destinationUrl: 'https://acme.io/?utm_source=linkedin',
+    });
+    mockPrisma.linkClick.create.mockResolvedValue({ id: 'click_1' });
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue({
+      organizationId: 'org_1',
+      contentPieceId: 'piece_1',
+      socialAccountId: 'acct_1',
+      publishedAt: new Date('2026-10-17T09:00:00Z'),
+      socialAccount: { platform: 'LINKEDIN' },
+    });
+    mockPrisma.trackedLink.count.mockResolvedValue(1);
+    mockPrisma.linkClick.count.mockResolvedValue(4);
+    mockPrisma.conversionTouch.count.mockResolvedValueOnce(2).mockResolvedValueOnce(1);
+    mockPrisma.analytics.findFirst.mockResolvedValue({ id: 'row_today', websiteClicks: 3 });
+
+    const destination = await service.resolveClick('code1', { userAgent: 'Mozilla/5.0', now });
+
+    expect(destination).toBe('https://acme.io/?utm_source=linkedin&ap_click=click_1');
+    expect(mockPrisma.trackedLink.update).toHaveBeenCalledWith({
+      where: { id: 'link_1' },
+      data: { clickCount: { increment: 1 }, lastClickedAt: now },
+    });
+    expect(mockPrisma.analytics.update).toHaveBeenCalledWith({
+      where: { id: 'row_today' },
+      data: { websiteClicks: 4, signups: 2, demos: 1, periodEnd: now, collectedAt: now },
+    });
+
+    mockPrisma.linkClick.create.mockClear();
+    await expect(service.resolveClick('code1', { userAgent: 'LinkedInBot/1.0', now })).resolves.toBe('https://acme.io/?utm_source=linkedin');
+    expect(mockPrisma.linkClick.create).not.toHaveBeenCalled();
+
+    mockPrisma.trackedLink.findUnique.mockResolvedValue(null);
+    await expect(service.resolveClick('missing')).resolves.toBeNull();
+  });
+});
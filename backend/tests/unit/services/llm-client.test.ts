@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { LLMClient, LocalFixtureProvider, extractJson, LLMProvider, LLMCompletionRequest } from '../../../src/services/llm';
+import { ContentGenerationService } from '../../../src/services/content-generation';
+import { AIProviderError } from '../../../src/utils/errors';
+
+const GreetingSchema = z.object({
+  greeting: z.string(),
+  confidence: z.number().min(0).max(1).default(0.5),
+});
+
+function stubProvider(name: 'openai' | 'anthropic', complete: (request: LLMCompletionRequest) => Promise<string>): LLMProvider {
+  return {
+    name,
+    model: `${name}-test`,
+    isConfigured: () => true,
+    complete: async (request) => ({
+      text: await complete(request),
+      model: `${name}-test`,
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    }),
+  };
+}
+
+describe('LLMClient', () => {
+  const settings = { preferredProvider: 'openai' as const, fallbackProviders: [], timeoutMs: 1000, maxRetries: 2, retryBaseDelayMs: 1 };
+
+  it('should validate and default structured output against the schema', async () => {
+    const client = new LLMClient([stubProvider('openai', async () => '```json\n{"greeting":"hi"}\n```')], settings);
+
+    const result = await client.generateStructured({ task: 'test.greet', prompt: 'Say hi', schema: GreetingSchema });
+
+    expect(result.data).toEqual({ greeting: 'hi', confidence: 0.5 });
+    expect(result.generatedBy).toBe('openai-openai-test');
+    expect(result.attempts).toBe(1);
+  });
+
+  it('should retry retryable failures and schema violations', async () => {
+    const replies = [
+      () => Promise.reject(new AIProviderError('openai', 'rate limited', { status: 429 }, true)),
+      () => Promise.resolve('{"greeting": 42}'),
+      () => Promise.resolve('{"greeting": "hello"}'),
+    ];
+    const client = new LLMClient([stubProvider('openai', () => replies.shift()!())], settings);
+
+    const result = await client.generateStructured({ task: 'test.greet', prompt: 'Say hi', schema: GreetingSchema });
+
+    expect(result.data.greeting).toBe('hello');
+    expect(result.attempts).toBe(3);
+  });
+
+  it('should fall back to the next provider when one fails permanently', async () => {
+    const openai = stubProvider('openai', () => Promise.reject(new AIProviderError('openai', 'invalid key', { status: 401 }, false)));
+    const anthropic = stubProvider('anthropic', async () => '{"greeting":"from anthropic"}');
+    const client = new LLMClient([openai, anthropic], { ...settings, fallbackProviders: ['anthropic'] });
+
+    const result = await client.generateStructured({ task: 'test.greet', prompt: 'Say hi', schema: GreetingSchema });
+
+    expect(result.provider).toBe('anthropic');
+    expect(result.data.greeting).toBe('from anthropic');
+  });
+
+  it('should throw AIProviderError when every provider is exhausted', async () => {
+    const client = new LLMClient([stubProvider('openai', async () => 'not json at all')], { ...settings, maxRetries: 1 });
+
+    await expect(client.generateStructured({ task: 'test.greet', prompt: 'Say hi', schema: GreetingSchema }))
+      .rejects
+      .toThrow(AIProviderError);
+  });
+
+  it('should time out slow providers', async () => {
+    const slow = stubProvider('openai', () => new Promise(resolve => setTimeout(() => resolve('{"greeting":"late"}'), 200)));
+    const client = new LLMClient([slow], { ...settings, timeoutMs: 20, maxRetries: 0 });
+
+    await expect(client.generateStructured({ task: 'test.greet', prompt: 'Say hi', schema: GreetingSchema }))
+      .rejects
+      .toThrow(/timed out/);
+  });
+
+  it('should account tokens per provider and task', async () => {
+    const client = new LLMClient([stubProvider('openai', async () => '{"greeting":"hi"}')], settings);
+
+    await client.generateStructured({ task: 'test.greet', prompt: 'a', schema: GreetingSchema });
+    await client.generateStructured({ task: 'test.greet', prompt: 'b', schema: GreetingSchema });
+
+    expect(client.getUsageSummary()).toEqual([
+      expect.objectContaining({ provider: 'openai', task: 'test.greet', requests: 2, totalTokens: 30 }),
+    ]);
+  });
+});
+
+describe('LocalFixtureProvider', () => {
+  it('should return the same fixture for the same prompt', async () => {
+    const provider = new LocalFixtureProvider(undefined);
+    const request = { task: 'content.generate', prompt: 'Write about release cycles' };
+
+    const first = await provider.complete(request);
+    const second = await provider.complete(request);
+
+    expect(first.text).toBe(second.text);
+    expect(first.usage.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('should reject tasks without fixtures', async () => {
+    const provider = new LocalFixtureProvider(undefined);
+
+    await expect(provider.complete({ task: 'unknown.task', prompt: 'x' }))
+      .rejects
+      .toThrow(AIProviderError);
+  });
+
+  it('should drive the content generation pipeline offline', async () => {
+    const client = new LLMClient([new LocalFixtureProvider(undefined)], {
+      preferredProvider: 'local',
+      fallbackProviders: [],
+      maxRetries: 0,
+    });
+    const service = new ContentGenerationService(client);
+
+    const result = await service.generateContent({
+      organizationId: 'org_123',
+      platform: 'LINKEDIN',
+      contentType: 'POST',
+      variations: { count: 2, diversityLevel: 'medium' },
+      optimization: { seo: true, engagement: true, conversion: false, brandSafety: true },
+    });
+
+    expect(result.platform).toBe('LINKEDIN');
+    expect(result.content.body.length).toBeGreaterThan(0);
+    expect(result.metadata.confidence).toBeGreaterThan(0);
+  });
+});
+
+describe('extractJson', () => {
+  it('should strip prose around the JSON document', () => {
+    expect(extractJson('Sure! Here it is: {"a": 1} Hope that helps.')).toBe('{"a": 1}');
+  });
+
+  it('should keep bare arrays intact', () => {
+    expect(extractJson('[1, 2, 3]')).toBe('[1, 2, 3]');
+  });
+});
@@ -0,0 +1,532 @@
+import sharp from 'sharp';
+import { MediaAttachment, MediaAttachmentService } from '../../../src/services/media-attachment';
+import { addMediaProcessingJob } from '../../../src/config/redis';
+
+interface MockPipeline {
+  input: unknown;
+  calls: Array<[string, unknown[]]>;
+}
+
+// sharp's native binary is not loaded in tests; this fake tracks output
+// dimensions through rotate/resize so the service's bookkeeping can be checked
+const mockPipelines: MockPipeline[] = [];
+let mockMetadata: Record<string, unknown> = {};
+
+jest.mock('sharp', () => {
+  const fake: any = jest.fn((input: unknown) => {
+    const pipeline: MockPipeline = { input, calls: [] };
+    mockPipelines.push(pipeline);
+
+    // Buffers produced by this fake carry their own dimensions
+    const produced = /^(\w+):(\d+)x(\d+)$/.exec(String(input));
+    let width = produced ? Number(produced[2]) : mockMetadata.width as number;
+    let height = produced ? Number(produced[3]) : mockMetadata.height as number;
+    let format = produced ? produced[1] : mockMetadata.format as string;
+    const api: any = {};
+
+    const chain = (name: string, apply?: (...args: any[]) => void) => {
+      api[name] = (...args: unknown[]) => {
+        pipeline.calls.push([name, args]);
+        apply?.(...args);
+        return api;
+      };
+    };
+
+    chain('rotate', () => {
+      if (((mockMetadata.orientation as number) || 1) >= 5) [width, height] = [height, width];
+    });
+    chain('resize', (first: any, second?: number, options: any = {}) => {
+      const target = typeof first === 'object' ? first : { width: first, height: second, ...options };
+      if (target.fit === 'cover') {
+        [width, height] = [target.width, target.height];
+        return;
+      }
+      const scale = Math.min(
+        target.withoutEnlargement ? 1 : Infinity,
+        target.width ? target.width / width : Infinity,
+        target.height ? target.height / height : Infinity
+      );
+      [width, height] = [Math.round(width * scale), Math.round(height * scale)];
+    });
+    chain('jpeg', () => { format = 'jpeg'; });
+    chain('png', () => { format = 'png'; });
+    chain('webp', () => { format = 'webp'; });
+    chain('toFormat', (next: string) => { format = next; });
+    chain('ensureAlpha');
+    chain('composite');
+
+    api.metadata = jest.fn(async () => ({ ...mockMetadata }));
+    api.toBuffer = jest.fn(async (options?: { resolveWithObject?: boolean }) => {
+      const data = Buffer.from(`${format}:${width}x${height}`);
+      return options?.resolveWithObject ? { data, info: { width, height, format } } : data;
+    });
+    return api;
+  });
+  fake.strategy = { attention: 16 };
+  return fake;
+});
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+jest.mock('fluent-ffmpeg', () => jest.fn());
+jest.mock('../../../src/services/database', () => ({ prisma: {} }));
+jest.mock('../../../src/config/redis', () => ({ addMediaProcessingJob: jest.fn() }));
+
+const ORIGINAL_SIZE = 5 * 1024 * 1024;
+
+function attachment(overrides: Partial<MediaAttachment> = {}): MediaAttachment {
+  const now = new Date('2026-10-18T00:00:00.000Z');
+  return {
+    id: 'media_1',
+    organizationId: 'org_123',
+    originalName: 'team.jpg',
+    filename: '1792281600000_abc.jpg',
+    type: 'image',
+    mimeType: 'image/jpeg',
+    size: ORIGINAL_SIZE,
+    storage: {
+      provider: 'aws_s3',
+      bucket: 'aipromotor-media',
+      key: 'media/org_123/1792281600000_abc.jpg',
+      url: 'https://aipromotor-media.s3.amazonaws.com/media/org_123/1792281600000_abc.jpg',
+    },
+    processing: {
+      status: 'pending',
+      variants: [],
+      optimizations: { compressed: false, resized: false, formatted: false, watermarked: false },
+      metadata: {},
+    },
+    usage: { platforms: [], contentPieces: [], campaigns: [], timesUsed: 0 },
+    accessibility: {},
+    compliance: { hasRights: true },
+    tags: [],
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+function assetRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'media_1',
+    organizationId: 'org_123',
+    filename: '1792281600000_abc.jpg',
+    originalName: 'team.jpg',
+    type: 'SCREENSHOT',
+    mimeType: 'image/jpeg',
+    size: ORIGINAL_SIZE,
+    s3Key: 'media/org_123/1792281600000_abc.jpg',
+    s3Bucket: 'aipromotor-media',
+    url: 'https://aipromotor-media.s3.amazonaws.com/media/org_123/1792281600000_abc.jpg',
+    title: null,
+    description: 'Dashboard overview',
+    tags: ['dashboard'],
+    altText: 'The analytics dashboard',
+    hasRights: true,
+    source: null,
+    license: null,
+    processingStatus: 'COMPLETED',
+    processingError: null,
+    width: 1600,
+    height: 900,
+    duration: null,
+    aspectRatio: 1600 / 900,
+    mediaMetadata: { format: 'jpeg' },
+    compatiblePlatforms: ['TWITTER', 'FACEBOOK'],
+    downloadCount: 3,
+    lastUsedAt: new Date('2026-10-01T00:00:00.000Z'),
+    createdAt: new Date('2026-09-01T00:00:00.000Z'),
+    updatedAt: new Date('2026-09-02T00:00:00.000Z'),
+    variants: [
+      {
+        id: 'variant_1',
+        assetId: 'media_1',
+        type: 'THUMBNAIL',
+        platform: null,
+        width: 300,
+        height: 169,
+        quality: 80,
+        format: 'jpeg',
+        size: 12000,
+        s3Key: 'thumbnails/org_123/thumb_1792281600000_abc.jpg',
+        url: 'https://cdn.example.com/thumbnails/org_123/thumb_1792281600000_abc.jpg',
+        createdAt: new Date('2026-09-01T00:00:00.000Z'),
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('MediaAttachmentService', () => {
+  const mockPrisma = {
+    asset: {
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    assetVariant: { deleteMany: jest.fn(), createMany: jest.fn() },
+    $transaction: jest.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  };
+  let service: MediaAttachmentService;
+  let uploads: Array<{ key: string; body: Buffer; contentType: string }>;
+  let s3Objects: Record<string, Buffer>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPipelines.length = 0;
+    mockMetadata = { width: 4000, height: 3000, format: 'jpeg', space: 'srgb', hasAlpha: false, density: 72 };
+    uploads = [];
+    s3Objects = { 'media/org_123/1792281600000_abc.jpg': Buffer.from('original-jpeg') };
+
+    mockPrisma.asset.update.mockResolvedValue(assetRecord());
+    service = new MediaAttachmentService(mockPrisma as any);
+    const s3 = (service as any).s3;
+    jest.spyOn(s3, 'upload').mockImplementation((params: any) => {
+      uploads.push({ key: params.Key, body: params.Body, contentType: params.ContentType });
+      return { promise: async () => ({ Location: `https://cdn.example.com/${params.Key}` }) };
+    });
+    jest.spyOn(s3, 'getObject').mockImplementation((params: any) => ({
+      promise: async () => ({ Body: s3Objects[params.Key] }),
+    }));
+  });
+
+  describe('uploadMedia', () => {
+    it('should record the asset and queue processing instead of processing inline', async () => {
+      (addMediaProcessingJob as jest.Mock).mockResolvedValue({ id: 'media-job' });
+      mockPrisma.asset.create.mockImplementation(async ({ data }: any) => assetRecord({
+        ...data,
+        id: 'media_new',
+        processingStatus: 'PENDING',
+        width: null,
+        height: null,
+        aspectRatio: null,
+        mediaMetadata: null,
+        compatiblePlatforms: [],
+        downloadCount: 0,
+        lastUsedAt: null,
+        variants: [],
+      }));
+
+      const media = await service.uploadMedia({
+        organizationId: 'org_123',
+        file: { buffer: Buffer.from('original-jpeg'), originalName: 'team.jpg', mimeType: 'image/jpeg', size: 13 },
+        metadata: { assetType: 'SCREENSHOT', tags: ['dashboard'] },
+        processing: { compress: true, platformOptimizations: ['INSTAGRAM'] },
+      });
+
+      expect(mockPrisma.asset.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          organizationId: 'org_123',
+          type: 'SCREENSHOT',
+          s3Key: uploads[0].key,
+          s3Bucket: 'aipromotor-media',
+          tags: ['dashboard'],
+        }),
+      }));
+      expect(media).toEqual(expect.objectContaining({ id: 'media_new', assetType: 'SCREENSHOT', type: 'image' }));
+      expect(media.processing).toEqual(expect.objectContaining({ status: 'pending', jobId: 'media-job', variants: [] }));
+      expect(media.dimensions).toBeUndefined();
+      expect(uploads).toHaveLength(1);
+      expect(sharp).not.toHaveBeenCalled();
+      expect(addMediaProcessingJob).toHaveBeenCalledWith({
+        media: expect.objectContaining({ id: 'media_new', storage: expect.objectContaining({ key: uploads[0].key }) }),
+        options: { generateThumbnail: true, compress: true, platformOptimizations: ['INSTAGRAM'] },
+      });
+    });
+  });
+
+  describe('processMedia', () => {
+    it('should read rotated dimensions, strip EXIF from the stored original and thumbnail the upright image', async () => {
+      mockMetadata = { ...mockMetadata, orientation: 6, exif: Buffer.from('Exif\0\0GPS') };
+
+      const media = attachment();
+      await service.processMedia(media, { generateThumbnail: true });
+
+      expect(media.dimensions).toEqual({ width: 3000, height: 4000 });
+      expect(media.processing.metadata).toEqual({
+        format: 'jpeg',
+        colorProfile: 'srgb',
+        hasAlpha: false,
+        density: 72,
+        exif: { present: true, orientation: 6 },
+      });
+
+      const stripped = uploads.find(upload => upload.key === 'media/org_123/1792281600000_abc.jpg')!;
+      expect(stripped.body.toString()).toBe('jpeg:3000x4000');
+      expect(mockPipelines[1].calls.map(([name]) => name)).toEqual(['rotate', 'jpeg']);
+      expect(media.size).toBe(stripped.body.length);
+
+      const [thumbnail] = media.processing.variants;
+      expect(thumbnail.specifications).toEqual(expect.objectContaining({ width: 225, height: 300, format: 'jpeg' }));
+      expect(thumbnail.storage.key).toBe('thumbnails/org_123/thumb_1792281600000_abc.jpg');
+      expect(media.storage.thumbnailUrl).toBe(thumbnail.storage.url);
+      expect(media.processing.status).toBe('completed');
+    });
+
+    it('should produce WebP and AVIF copies and leave clean originals untouched', async () => {
+      const media = attachment();
+      await service.processMedia(media, { compress: true });
+
+      expect(media.processing.variants.map(variant => [variant.type, variant.specifications.format, variant.storage.key])).toEqual([
+        ['compressed', 'webp', 'compressed/org_123/comp_1792281600000_abc.webp'],
+        ['compressed', 'avif', 'compressed/org_123/comp_1792281600000_abc.avif'],
+      ]);
+      expect(uploads.map(upload => upload.contentType)).toEqual(['image/webp', 'image/avif']);
+      expect(media.processing.optimizations).toEqual(expect.objectContaining({ compressed: true, formatted: true }));
+    });
+
+    it('should drop compressed copies that are not smaller than the original', async () => {
+      const media = attachment({ size: 10 });
+      await service.processMedia(media, { compress: true });
+
+      expect(media.processing.variants).toEqual([]);
+      expect(media.processing.optimizations.compressed).toBe(false);
+    });
+
+    it('should smart-crop one variant per aspect ratio within the platform limits', async () => {
+      const media = attachment();
+      await service.processMedia(media, { platformOptimizations: ['INSTAGRAM', 'TWITTER'] });
+
+      expect(media.processing.variants.map(variant => [
+        variant.platform,
+        variant.specifications.width,
+        variant.specifications.height,
+      ])).toEqual([
+        ['INSTAGRAM', 1080, 1080],
+        ['INSTAGRAM', 864, 1080],
+        ['INSTAGRAM', 1080, 565],
+        ['TWITTER', 1024, 512],
+        ['TWITTER', 512, 512],
+      ]);
+      for (const { platform, specifications } of media.processing.variants) {
+        const dimensions = { width: specifications.width!, height: specifications.height! };
+        const { violations } = service.checkPlatformRequirements(
+          { type: 'image', size: specifications.size, dimensions, format: specifications.format },
+          platform!,
+          'post'
+        );
+        expect(violations).toEqual([]);
+      }
+      expect(mockPipelines[1].calls[0]).toEqual(['resize', [1080, 1080, { fit: 'cover', position: sharp.strategy.attention }]]);
+      expect(uploads[0].key).toBe('optimized/org_123/INSTAGRAM_1x1_1792281600000_abc.jpg');
+    });
+
+    it('should save dimensions, variants and platform compatibility on the asset', async () => {
+      const media = attachment();
+      await service.processMedia(media, { platformOptimizations: ['INSTAGRAM', 'TWITTER'] });
+
+      expect(mockPrisma.assetVariant.deleteMany).toHaveBeenCalledWith({ where: { assetId: 'media_1' } });
+      const [{ data: variants }] = mockPrisma.assetVariant.createMany.mock.calls[0];
+      expect(variants).toHaveLength(5);
+      expect(variants[0]).toEqual(expect.objectContaining({
+        assetId: 'media_1',
+        type: 'PLATFORM_OPTIMIZED',
+        platform: 'INSTAGRAM',
+        width: 1080,
+        height: 1080,
+        s3Key: 'optimized/org_123/INSTAGRAM_1x1_1792281600000_abc.jpg',
+      }));
+
+      // The 4000x3000 original is too large everywhere with requirements; the crops
+      // cover Instagram and Twitter, and platforms without requirements take anything
+      expect(mockPrisma.asset.update).toHaveBeenLastCalledWith(expect.objectContaining({
+        where: { id: 'media_1' },
+        data: expect.objectContaining({
+          width: 4000,
+          height: 3000,
+          aspectRatio: 4000 / 3000,
+          processingStatus: 'COMPLETED',
+          processingError: null,
+          compatiblePlatforms: ['TWITTER', 'INSTAGRAM', 'REDDIT', 'FACEBOOK', 'THREADS'],
+        }),
+      }));
+    });
+
+    it('should not upscale small sources beyond what the platform needs', async () => {
+      mockMetadata = { ...mockMetadata, width: 600, height: 400 };
+
+      const media = attachment();
+      await service.processMedia(media, { platformOptimizations: ['LINKEDIN', 'TWITTER'] });
+
+      // LinkedIn's 520x320 minimum forces both crops slightly past the source;
+      // Twitter's smaller minimum lets them stay within it
+      expect(media.processing.variants.map(variant => [variant.specifications.width, variant.specifications.height])).toEqual([
+        [611, 320],
+        [520, 520],
+        [600, 300],
+        [400, 400],
+      ]);
+    });
+
+    it("should watermark with the organization's latest logo when no text or image is given", async () => {
+      s3Objects['assets/org_123/logo.png'] = Buffer.from('logo-png');
+      mockPrisma.asset.findFirst.mockResolvedValue({ s3Bucket: 'brand-assets', s3Key: 'assets/org_123/logo.png' });
+
+      const media = attachment();
+      await service.processMedia(media, { watermark: { position: 'bottom-right', opacity: 0.5 } });
+
+      expect(mockPrisma.asset.findFirst).toHaveBeenCalledWith({
+        where: { organizationId: 'org_123', type: 'LOGO' },
+        orderBy: { createdAt: 'desc' },
+      });
+      const logo = mockPipelines.find(pipeline => pipeline.input === s3Objects['assets/org_123/logo.png'])!;
+      const [, [[alpha]]] = logo.calls.find(([name]) => name === 'composite') as [string, any[]];
+      expect(alpha).toEqual(expect.objectContaining({ blend: 'dest-in', input: Buffer.from([255, 255, 255, 128]) }));
+
+      // 600px logo (15% of 4000) inset by 3% of the 3000px edge
+      const [, [[overlay]]] = mockPipelines[mockPipelines.length - 1].calls.find(([name]) => name === 'composite') as [string, any[]];
+      expect(overlay).toEqual(expect.objectContaining({ left: 4000 - 600 - 90, top: 3000 - 450 - 90 }));
+      expect(media.processing.variants[0].type).toBe('watermarked');
+      expect(media.processing.optimizations.watermarked).toBe(true);
+    });
+
+    it('should skip the watermark when the organization has no logo', async () => {
+      mockPrisma.asset.findFirst.mockResolvedValue(null);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const media = attachment();
+      await service.processMedia(media, { watermark: {} });
+
+      expect(media.processing.variants).toEqual([]);
+      expect(media.processing.optimizations.watermarked).toBe(false);
+      expect(media.processing.status).toBe('completed');
+    });
+
+    it('should escape text watermarks', async () => {
+      await service.processMedia(attachment(), { watermark: { text: '<Acme & Co>' } });
+
+      const [, [[overlay]]] = mockPipelines[mockPipelines.length - 1].calls.find(([name]) => name === 'composite') as [string, any[]];
+      expect(overlay.input.toString()).toContain('&lt;Acme &amp; Co&gt;</text>');
+      expect(overlay.input.toString()).toContain('<svg width="4000" height="3000"');
+    });
+
+    it('should mark the attachment failed when the original cannot be read', async () => {
+      const media = attachment();
+      s3Objects = {};
+      (sharp as unknown as jest.Mock).mockImplementationOnce(() => {
+        throw new Error('Input buffer contains unsupported image format');
+      });
+
+      await expect(service.processMedia(media, {})).rejects.toThrow('unsupported image format');
+      expect(media.processing).toEqual(expect.objectContaining({
+        status: 'failed',
+        error: 'Input buffer contains unsupported image format',
+      }));
+      expect(mockPrisma.asset.update).toHaveBeenLastCalledWith({
+        where: { id: 'media_1' },
+        data: { processingStatus: 'FAILED', processingError: 'Input buffer contains unsupported image format' },
+      });
+    });
+  });
+
+  describe('getMediaLibrary', () => {
+    it('should translate filters into an asset query', async () => {
+      mockPrisma.asset.findMany.mockResolvedValue([assetRecord()]);
+      mockPrisma.asset.count.mockResolvedValue(1);
+
+      const library = await service.getMediaLibrary('org_123', {
+        type: ['SCREENSHOT', 'LOGO'],
+        tags: ['dashboard'],
+        platforms: ['TWITTER'],
+        aspectRatios: ['16:9'],
+        dimensions: { minWidth: 1200 },
+        usage: { minUsage: 1 },
+        sortBy: 'usage',
+        limit: 10,
+      });
+
+      const query = mockPrisma.asset.findMany.mock.calls[0][0];
+      expect(query.where).toEqual({
+        AND: [
+          { organizationId: 'org_123' },
+          { type: { in: ['SCREENSHOT', 'LOGO'] } },
+          { tags: { hasSome: ['dashboard'] } },
+          { compatiblePlatforms: { hasEvery: ['TWITTER'] } },
+          { OR: [{ aspectRatio: { gte: 16 / 9 - 0.005, lte: 16 / 9 + 0.005 } }] },
+          { width: { gte: 1200 } },
+          { downloadCount: { gte: 1 } },
+        ],
+      });
+      expect(query).toEqual(expect.objectContaining({
+        orderBy: [{ downloadCount: 'desc' }, { id: 'desc' }],
+        take: 11,
+        skip: 0,
+      }));
+      expect(mockPrisma.asset.count).toHaveBeenCalledWith({ where: query.where });
+
+      const [media] = library.media;
+      expect(media).toEqual(expect.objectContaining({
+        id: 'media_1',
+        type: 'image',
+        assetType: 'SCREENSHOT',
+        dimensions: { width: 1600, height: 900 },
+        compatiblePlatforms: ['TWITTER', 'FACEBOOK'],
+        accessibility: { altText: 'The analytics dashboard', caption: 'Dashboard overview' },
+      }));
+      expect(media.storage.thumbnailUrl).toBe('https://cdn.example.com/thumbnails/org_123/thumb_1792281600000_abc.jpg');
+      expect(media.processing).toEqual(expect.objectContaining({ status: 'completed', metadata: { format: 'jpeg' } }));
+      expect(media.usage).toEqual(expect.objectContaining({ timesUsed: 3, lastUsed: new Date('2026-10-01T00:00:00.000Z') }));
+      expect(library.pagination).toEqual({ page: 1, limit: 10, total: 1, totalPages: 1, nextCursor: null, hasMore: false });
+    });
+
+    it('should page by cursor with never-used assets last when sorting by last use', async () => {
+      const lastUsedAt = new Date('2026-10-01T00:00:00.000Z');
+      const used = assetRecord({ id: 'asset_b', lastUsedAt });
+      const neverUsed = assetRecord({ id: 'asset_a', lastUsedAt: null });
+      mockPrisma.asset.count.mockResolvedValue(3);
+
+      mockPrisma.asset.findMany.mockResolvedValueOnce([used, neverUsed]);
+      const first = await service.getMediaLibrary('org_123', { sortBy: 'lastUsed', limit: 1 });
+
+      expect(mockPrisma.asset.findMany.mock.calls[0][0].orderBy).toEqual([
+        { lastUsedAt: { sort: 'desc', nulls: 'last' } },
+        { id: 'desc' },
+      ]);
+      expect(first.media.map(media => media.id)).toEqual(['asset_b']);
+      expect(first.pagination).toEqual(expect.objectContaining({ hasMore: true, nextCursor: expect.any(String) }));
+
+      mockPrisma.asset.findMany.mockResolvedValueOnce([neverUsed, assetRecord({ id: 'asset_0', lastUsedAt: null })]);
+      const second = await service.getMediaLibrary('org_123', { sortBy: 'lastUsed', limit: 1, cursor: first.pagination.nextCursor! });
+
+      const secondQuery = mockPrisma.asset.findMany.mock.calls[1][0];
+      expect(secondQuery.skip).toBeUndefined();
+      expect(secondQuery.where).toEqual({
+        AND: [
+          { organizationId: 'org_123' },
+          {
+            OR: [
+              { lastUsedAt: { lt: lastUsedAt } },
+              { lastUsedAt, id: { lt: 'asset_b' } },
+              { lastUsedAt: null },
+            ],
+          },
+        ],
+      });
+      expect(second.pagination.page).toBeUndefined();
+
+      mockPrisma.asset.findMany.mockResolvedValueOnce([]);
+      await service.getMediaLibrary('org_123', { sortBy: 'lastUsed', limit: 1, cursor: second.pagination.nextCursor! });
+
+      expect(mockPrisma.asset.findMany.mock.calls[2][0].where.AND[1]).toEqual({ lastUsedAt: null, id: { lt: 'asset_a' } });
+    });
+
+    it('should reject malformed cursors and unknown platforms', async () => {
+      await expect(service.getMediaLibrary('org_123', { cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+      await expect(service.getMediaLibrary('org_123', { platforms: ['MYSPACE'] })).rejects.toThrow('Invalid media library filters');
+      expect(mockPrisma.asset.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordUsage', () => {
+    it('should bump usage once per asset', async () => {
+      await service.recordUsage(['media_1', 'media_2', 'media_1']);
+
+      expect(mockPrisma.asset.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['media_1', 'media_2'] } },
+        data: { downloadCount: { increment: 1 }, lastUsedAt: expect.any(Date) },
+      });
+    });
+  });
+});
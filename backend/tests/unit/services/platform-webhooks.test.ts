@@ -0,0 +1,278 @@
+import crypto from 'crypto';
+import { PlatformWebhookService } from '../../../src/services/platform-webhooks';
+import { config } from '../../../src/config/config';
+import { WebhookVerificationError } from '../../../src/utils/errors';
+
+// The service reads enum values (Platform, PostStatus, WebhookEventStatus) at runtime
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+jest.mock('../../../src/services/analytics-collector', () => ({ AnalyticsCollector: jest.fn() }));
+
+const mockPrisma = {
+  webhookEvent: {
+    create: jest.fn(),
+    update: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  scheduledPost: {
+    findFirst: jest.fn(),
+    update: jest.fn(),
+  },
+  socialAccount: {
+    findFirst: jest.fn(),
+    update: jest.fn(),
+  },
+  contentPiece: { update: jest.fn() },
+} as any;
+
+function sign(secret: string, payload: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+function publishingPost(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sp_1',
+    organizationId: 'org_123',
+    contentPieceId: 'piece_1',
+    socialAccountId: 'acct_1',
+    status: 'PUBLISHING',
+    publishedAt: null,
+    platformPostId: null,
+    externalPostId: 'buf_update_1',
+    platformUrl: null,
+    ...overrides,
+  };
+}
+
+describe('PlatformWebhookService', () => {
+  const analyticsCollector = { collectPostAnalytics: jest.fn() };
+  let service: PlatformWebhookService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    config.social.facebook.appSecret = 'meta-app-secret';
+    config.social.linkedin.clientSecret = 'linkedin-secret';
+    config.webhooks.metaVerifyToken = 'verify-me';
+    config.webhooks.bufferSecret = 'buffer-secret';
+    config.webhooks.toleranceSeconds = 300;
+    mockPrisma.webhookEvent.create.mockResolvedValue({ id: 'evt_1' });
+    mockPrisma.webhookEvent.update.mockResolvedValue({});
+    analyticsCollector.collectPostAnalytics.mockResolvedValue(undefined);
+    service = new PlatformWebhookService(mockPrisma, analyticsCollector as any);
+  });
+
+  function bufferDelivery(body: unknown, timestamp = Math.floor(Date.now() / 1000)) {
+    const rawBody = JSON.stringify(body);
+    return {
+      headers: {
+        'x-buffer-timestamp': String(timestamp),
+        'x-buffer-signature': sign('buffer-secret', `${timestamp}.${rawBody}`),
+      },
+      rawBody,
+      body,
+    };
+  }
+
+  it('should mark a post published from a Buffer callback and collect its analytics', async () => {
+    mockPrisma.scheduledPost.findFirst.mockResolvedValue(publishingPost());
+
+    const result = await service.handleDelivery('buffer', bufferDelivery({
+      event: 'update.sent',
+      update: {
+        id: 'buf_update_1',
+        service_update_id: '1849',
+        service_link: 'https://twitter.com/aipromote/status/1849',
+        sent_at: 1760796000,
+      },
+    }));
+
+    expect(result).toEqual({ received: 1, processed: 1, ignored: 0, duplicates: 0, failed: 0 });
+    expect(mockPrisma.scheduledPost.findFirst).toHaveBeenCalledWith({
+      where: expect.objectContaining({
+        OR: [
+          { platformPostId: { in: ['buf_update_1'] } },
+          { externalPostId: { in: ['buf_update_1'] } },
+        ],
+      }),
+    });
+    expect(mockPrisma.scheduledPost.update).toHaveBeenCalledWith({
+      where: { id: 'sp_1' },
+      data: expect.objectContaining({
+        status: 'PUBLISHED',
+        publishedAt: new Date(1760796000 * 1000),
+        platformPostId: '1849',
+        externalPostId: 'buf_update_1',
+        platformUrl: 'https://twitter.com/aipromote/status/1849',
+        errorMessage: null,
+      }),
+    });
+    expect(mockPrisma.contentPiece.update).toHaveBeenCalledWith({
+      where: { id: 'piece_1' },
+      data: { status: 'PUBLISHED', publishedAt: new Date(1760796000 * 1000) },
+    });
+    expect(analyticsCollector.collectPostAnalytics).toHaveBeenCalledWith('sp_1', true);
+    expect(mockPrisma.webhookEvent.update).toHaveBeenCalledWith({
+      where: { id: 'evt_1' },
+      data: expect.objectContaining({ status: 'PROCESSED', scheduledPostId: 'sp_1', organizationId: 'org_123' }),
+    });
+  });
+
+  it('should move a third-party ID stored as platformPostId over to externalPostId', async () => {
+    mockPrisma.scheduledPost.findFirst.mockResolvedValue(publishingPost({ platformPostId: 'buf_update_1', externalPostId: null }));
+
+    await service.handleDelivery('buffer', bufferDelivery({
+      event: 'update.sent',
+      update: { id: 'buf_update_1', service_update_id: '1849' },
+    }));
+
+    expect(mockPrisma.scheduledPost.update).toHaveBeenCalledWith({
+      where: { id: 'sp_1' },
+      data: expect.objectContaining({ platformPostId: '1849', externalPostId: 'buf_update_1' }),
+    });
+  });
+
+  it('should record failures reported by Buffer', async () => {
+    mockPrisma.scheduledPost.findFirst.mockResolvedValue(publishingPost());
+
+    await service.handleDelivery('buffer', bufferDelivery({
+      event: 'update.failed',
+      update: { id: 'buf_update_1', error: 'Token expired' },
+    }));
+
+    expect(mockPrisma.scheduledPost.update).toHaveBeenCalledWith({
+      where: { id: 'sp_1' },
+      data: { status: 'FAILED', errorMessage: 'Token expired' },
+    });
+    expect(analyticsCollector.collectPostAnalytics).not.toHaveBeenCalled();
+  });
+
+  it('should reject Buffer deliveries outside the tolerance window', async () => {
+    const stale = bufferDelivery({ event: 'update.sent', update: { id: 'buf_update_1' } }, Math.floor(Date.now() / 1000) - 3600);
+
+    await expect(service.handleDelivery('buffer', stale)).rejects.toThrow(WebhookVerificationError);
+    expect(mockPrisma.webhookEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('should acknowledge replayed events without applying them again', async () => {
+    mockPrisma.webhookEvent.create.mockRejectedValue(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+    mockPrisma.webhookEvent.findUnique.mockResolvedValue({ id: 'evt_1', status: 'PROCESSED' });
+
+    const result = await service.handleDelivery('buffer', bufferDelivery({
+      id: 'delivery_1',
+      event: 'update.sent',
+      update: { id: 'buf_update_1' },
+    }));
+
+    expect(result).toEqual(expect.objectContaining({ received: 1, duplicates: 1, processed: 0 }));
+    expect(mockPrisma.scheduledPost.findFirst).not.toHaveBeenCalled();
+    expect(mockPrisma.webhookEvent.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should apply a redelivered event again when its earlier attempt failed', async () => {
+    mockPrisma.webhookEvent.create.mockRejectedValue(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+    mockPrisma.webhookEvent.findUnique.mockResolvedValue({ id: 'evt_1', status: 'FAILED' });
+    mockPrisma.webhookEvent.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.scheduledPost.findFirst.mockResolvedValue(null);
+
+    const result = await service.handleDelivery('buffer', bufferDelivery({
+      id: 'delivery_1',
+      event: 'update.sent',
+      update: { id: 'buf_update_1' },
+    }));
+
+    expect(result).toEqual(expect.objectContaining({ received: 1, duplicates: 0, ignored: 1 }));
+    expect(mockPrisma.webhookEvent.updateMany).toHaveBeenCalledWith({
+      where: { id: 'evt_1', status: 'FAILED' },
+      data: { status: 'RECEIVED', errorMessage: null, processedAt: null },
+    });
+    expect(mockPrisma.webhookEvent.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'evt_1' } }));
+  });
+
+  it('should verify Meta signatures and match page feed posts', async () => {
+    mockPrisma.scheduledPost.findFirst.mockResolvedValue(publishingPost({ platformPostId: '1034_5567' }));
+    const body = {
+      object: 'page',
+      entry: [{
+        id: '1034',
+        time: 1760796000,
+        changes: [{ field: 'feed', value: { item: 'status', verb: 'add', post_id: '1034_5567', from: { id: '1034' }, published: 1 } }],
+      }],
+    };
+    const rawBody = JSON.stringify(body);
+
+    const result = await service.handleDelivery('facebook', {
+      headers: { 'x-hub-signature-256': `sha256=${sign('meta-app-secret', rawBody)}` },
+      rawBody,
+      body,
+    });
+
+    expect(result.processed).toBe(1);
+    expect(mockPrisma.scheduledPost.update).toHaveBeenCalledWith({
+      where: { id: 'sp_1' },
+      data: expect.objectContaining({ status: 'PUBLISHED', platformUrl: 'https://www.facebook.com/1034_5567' }),
+    });
+
+    await expect(service.handleDelivery('facebook', {
+      headers: { 'x-hub-signature-256': 'sha256=deadbeef' },
+      rawBody,
+      body,
+    })).rejects.toThrow('Invalid webhook signature');
+  });
+
+  it('should answer the Meta and LinkedIn subscription handshakes', () => {
+    expect(service.handshake('facebook', {
+      'hub.mode': 'subscribe',
+      'hub.verify_token': 'verify-me',
+      'hub.challenge': '1158201444',
+    })).toBe('1158201444');
+    expect(() => service.handshake('facebook', {
+      'hub.mode': 'subscribe',
+      'hub.verify_token': 'wrong',
+      'hub.challenge': '1158201444',
+    })).toThrow(WebhookVerificationError);
+
+    expect(service.handshake('linkedin', { challengeCode: 'abc-123' })).toEqual({
+      challengeCode: 'abc-123',
+      challengeResponse: sign('linkedin-secret', 'abc-123'),
+    });
+  });
+
+  it('should match LinkedIn share notifications by URN or bare ID', async () => {
+    mockPrisma.scheduledPost.findFirst.mockResolvedValue(publishingPost({ platformPostId: '7123' }));
+    const body = {
+      type: 'ORGANIZATION_SOCIAL_ACTION_NOTIFICATIONS',
+      notifications: [{ notificationId: 90001, action: 'SHARE', sourcePost: 'urn:li:share:7123', lastModifiedAt: 1760796000000 }],
+    };
+    const rawBody = JSON.stringify(body);
+
+    await service.handleDelivery('linkedin', {
+      headers: { 'x-li-signature': sign('linkedin-secret', rawBody) },
+      rawBody,
+      body,
+    });
+
+    expect(mockPrisma.webhookEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ provider: 'linkedin', eventId: '90001', eventType: 'post_published' }),
+    });
+    expect(mockPrisma.scheduledPost.findFirst.mock.calls[0][0].where.OR[0])
+      .toEqual({ platformPostId: { in: ['urn:li:share:7123', '7123'] } });
+    expect(mockPrisma.scheduledPost.update).toHaveBeenCalledWith({
+      where: { id: 'sp_1' },
+      data: expect.objectContaining({ platformUrl: 'https://www.linkedin.com/feed/update/urn:li:share:7123' }),
+    });
+  });
+
+  it('should log events that match no post as ignored', async () => {
+    mockPrisma.scheduledPost.findFirst.mockResolvedValue(null);
+
+    const result = await service.handleDelivery('buffer', bufferDelivery({ event: 'update.sent', update: { id: 'unknown' } }));
+
+    expect(result).toEqual(expect.objectContaining({ ignored: 1, processed: 0 }));
+    expect(mockPrisma.scheduledPost.update).not.toHaveBeenCalled();
+    expect(mockPrisma.webhookEvent.update).toHaveBeenCalledWith({
+      where: { id: 'evt_1' },
+      data: expect.objectContaining({ status: 'IGNORED' }),
+    });
+  });
+});
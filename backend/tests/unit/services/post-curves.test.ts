@@ -0,0 +1,230 @@
+import { PostCurveService } from '../../../src/services/post-curves';
+import { ValidationError } from '../../../src/utils/errors';
+
+// The service reads MetricType values and builds its baseline filter with Prisma.sql
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+jest.mock('../../../src/config/redis', () => ({ addAnalyticsJob: jest.fn() }));
+
+const now = new Date('2026-10-18T12:00:00Z');
+const publishedAt = new Date('2026-10-17T12:00:00Z');
+
+const mockPrisma: any = {
+  $queryRaw: jest.fn(),
+  $transaction: jest.fn(),
+  scheduledPost: { findUnique: jest.fn(), findFirst: jest.fn() },
+  analytics: { findFirst: jest.fn() },
+  postMetricCheckpoint: { findMany: jest.fn(), upsert: jest.fn(), update: jest.fn() },
+};
+
+const mockCollector: any = { collectPostAnalytics: jest.fn() };
+const mockEnqueue = jest.fn();
+
+function checkpoint(label: string, hours: number, metrics: Record<string, any>) {
+  return {
+    checkpoint: label,
+    hoursAfterPublish: hours,
+    collectedAt: new Date(publishedAt.getTime() + hours * 60 * 60 * 1000),
+    impressions: 0,
+    likes: 0,
+    comments: 0,
+    shares: 0,
+    clicks: 0,
+    isBreakout: false,
+    baselineEngagements: null,
+    ...metrics,
+  };
+}
+
+const publishedPost = {
+  id: 'sp_1',
+  organizationId: 'org_1',
+  publishedAt,
+  contentPiece: { type: 'CAROUSEL' },
+  socialAccount: { platform: 'LINKEDIN' },
+};
+
+describe('PostCurveService', () => {
+  const service = new PostCurveService(mockPrisma, mockCollector, mockEnqueue);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrisma.$transaction.mockImplementation(async (fn: (tx: unknown) => unknown) => fn(mockPrisma));
+    mockPrisma.postMetricCheckpoint.upsert.mockImplementation(async ({ create }: any) => create);
+  });
+
+  it('should queue one collection per checkpoint with stable job ids', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(publishedPost);
+
+    await expect(service.scheduleCheckpoints('sp_1', new Date('2026-10-17T12:00:05Z'))).resolves.toBe(5);
+
+    expect(mockEnqueue.mock.calls.map(([data, options]) => [data.checkpoint, options.jobId, options.delay])).toEqual([
+      ['1h', 'curve-sp_1-1h', 3595000],
+      ['6h', 'curve-sp_1-6h', 21595000],
+      ['24h', 'curve-sp_1-24h', 86395000],
+      ['72h', 'curve-sp_1-72h', 259195000],
+      ['7d', 'curve-sp_1-7d', 604795000],
+    ]);
+    expect(mockEnqueue.mock.calls[2][0]).toEqual({
+      scheduledPostId: 'sp_1',
+      organizationId: 'org_1',
+      platform: 'LINKEDIN',
+      timeRange: { start: publishedAt, end: new Date('2026-10-18T12:00:00Z') },
+      checkpoint: '24h',
+    });
+
+    mockEnqueue.mockClear();
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue({ ...publishedPost, publishedAt: null });
+    await expect(service.scheduleCheckpoints('sp_1')).resolves.toBe(0);
+    expect(mockEnqueue).not.toHaveBeenCalled();
+  });
+
+  it('should store the gain since earlier checkpoints and flag posts well above the median', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(publishedPost);
+    mockPrisma.analytics.findFirst.mockResolvedValue({
+      impressions: 1000, likes: 40, comments: 6, shares: 4, clicks: 10, collectedAt: now,
+    });
+    mockPrisma.postMetricCheckpoint.findMany.mockResolvedValue([
+      checkpoint('1h', 1, { impressions: 100, likes: 5, comments: 1, clicks: 2 }),
+      checkpoint('6h', 6, { impressions: 300, likes: 10, comments: 2, shares: 1, clicks: 3 }),
+    ]);
+    // Too few carousels, so the baseline falls back to every LinkedIn post
+    mockPrisma.$queryRaw
+      .mockResolvedValueOnce([{ hoursAfterPublish: 24, posts: 2, impressions: 800, engagements: 30, clicks: 6 }])
+      .mockResolvedValueOnce([{ hoursAfterPublish: 24, posts: 8, impressions: 500, engagements: 20, clicks: 4 }]);
+
+    const recorded = await service.recordCheckpoint('sp_1', '24h', now);
+
+    expect(mockCollector.collectPostAnalytics).toHaveBeenCalledWith('sp_1', true);
+    expect(mockPrisma.$queryRaw.mock.calls[0][3].values).toEqual(['CAROUSEL']);
+    expect(mockPrisma.$queryRaw.mock.calls[1][3].values).toEqual([]);
+    expect(mockPrisma.postMetricCheckpoint.upsert.mock.calls[0][0].where)
+      .toEqual({ scheduledPostId_checkpoint: { scheduledPostId: 'sp_1', checkpoint: '24h' } });
+    expect(recorded).toEqual(expect.objectContaining({
+      platform: 'LINKEDIN',
+      contentType: 'CAROUSEL',
+      hoursAfterPublish: 24,
+      impressions: 600,
+      likes: 25,
+      comments: 3,
+      shares: 3,
+      clicks: 5,
+      baselineEngagements: 20,
+      isBreakout: true,
+    }));
+  });
+
+  it('should correct the next checkpoint when an earlier one lands late', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(publishedPost);
+    // The 1h job was retried after 6h was recorded, so it reads more than 6h saw for likes
+    mockPrisma.analytics.findFirst.mockResolvedValue({
+      impressions: 150, likes: 20, comments: 1, shares: 0, clicks: 2, collectedAt: now,
+    });
+    mockPrisma.postMetricCheckpoint.findMany.mockResolvedValue([
+      { ...checkpoint('6h', 6, { impressions: 400, likes: 12, comments: 3, shares: 1, clicks: 5 }), id: 'cp_6h' },
+      { ...checkpoint('24h', 24, { impressions: 300, likes: 8 }), id: 'cp_24h' },
+    ]);
+    mockPrisma.$queryRaw.mockResolvedValue([]);
+
+    const recorded = await service.recordCheckpoint('sp_1', '1h', now);
+
+    expect(recorded).toEqual(expect.objectContaining({ impressions: 150, likes: 12, comments: 1, shares: 0, clicks: 2 }));
+    expect(mockPrisma.postMetricCheckpoint.update).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.postMetricCheckpoint.update).toHaveBeenCalledWith({
+      where: { id: 'cp_6h' },
+      data: { impressions: 250, likes: 0, comments: 2, shares: 1, clicks: 3 },
+    });
+  });
+
+  it('should not store a negative gain when a reading drops below earlier checkpoints', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(publishedPost);
+    // An unlike and a platform recount since the 1h checkpoint
+    mockPrisma.analytics.findFirst.mockResolvedValue({
+      impressions: 90, likes: 7, comments: 1, shares: 0, clicks: 2, collectedAt: now,
+    });
+    mockPrisma.postMetricCheckpoint.findMany.mockResolvedValue([
+      checkpoint('1h', 1, { impressions: 100, likes: 8, comments: 1, clicks: 2 }),
+    ]);
+    mockPrisma.$queryRaw.mockResolvedValue([]);
+
+    const recorded = await service.recordCheckpoint('sp_1', '6h', now);
+
+    expect(recorded).toEqual(expect.objectContaining({ impressions: 0, likes: 0, comments: 0, shares: 0, clicks: 0 }));
+  });
+
+  it('should reject unknown checkpoints and not record failed collections', async () => {
+    await expect(service.recordCheckpoint('sp_1', '2h', now)).rejects.toThrow(ValidationError);
+
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue({ ...publishedPost, publishedAt: null });
+    await expect(service.recordCheckpoint('sp_1', '1h', now)).resolves.toBeNull();
+    expect(mockCollector.collectPostAnalytics).not.toHaveBeenCalled();
+
+    // The platform call failed and the collector stored zeros
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(publishedPost);
+    mockPrisma.analytics.findFirst.mockResolvedValue({
+      impressions: 0, likes: 0, comments: 0, shares: 0, clicks: 0, collectedAt: now,
+    });
+    mockPrisma.postMetricCheckpoint.findMany.mockResolvedValue([checkpoint('1h', 1, { impressions: 100, likes: 5 })]);
+    await expect(service.recordCheckpoint('sp_1', '72h', now)).rejects.toThrow('No metrics returned');
+    expect(mockPrisma.postMetricCheckpoint.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should return the cumulative curve next to the baseline and the checkpoints still to come', async () => {
+    mockPrisma.scheduledPost.findFirst.mockResolvedValue({
+      ...publishedPost,
+      metricCheckpoints: [
+        checkpoint('1h', 1, { impressions: 200, likes: 8, comments: 2, clicks: 1 }),
+        checkpoint('6h', 6, { impressions: 300, likes: 15, comments: 3, shares: 2, clicks: 4, isBreakout: true }),
+      ],
+    });
+    mockPrisma.$queryRaw.mockResolvedValueOnce([
+      { hoursAfterPublish: 1, posts: 6, impressions: 150, engagements: 5, clicks: 1 },
+      { hoursAfterPublish: 6, posts: 6, impressions: 400, engagements: 12, clicks: 2 },
+    ]);
+
+    const curve = await service.curve('org_1', 'sp_1', now);
+
+    expect(curve?.baseline.scope).toBe('contentType');
+    expect(curve?.checkpoints.map(point => [point.checkpoint, point.cumulative, point.engagementRate, point.vsBaseline])).toEqual([
+      ['1h', { impressions: 200, engagements: 10, clicks: 1 }, 5, 2],
+      ['6h', { impressions: 500, engagements: 30, clicks: 5 }, 6, 2.5],
+    ]);
+    expect(curve?.pendingCheckpoints).toEqual(['24h', '72h', '7d']);
+    expect(curve?.isBreakout).toBe(true);
+
+    mockPrisma.scheduledPost.findFirst.mockResolvedValue(null);
+    await expect(service.curve('org_2', 'sp_1', now)).resolves.toBeNull();
+  });
+
+  it('should list each breakout post once, strongest first', async () => {
+    const post = (id: string, checkpoints: any[]) => ({
+      publishedAt,
+      platformUrl: `https://linkedin.com/feed/${id}`,
+      contentPiece: { title: null, body: `Post ${id}` },
+      metricCheckpoints: checkpoints,
+    });
+    const postA = post('a', [
+      checkpoint('1h', 1, { likes: 12 }),
+      checkpoint('6h', 6, { likes: 8 }),
+      checkpoint('24h', 24, { likes: 100 }),
+    ]);
+    mockPrisma.postMetricCheckpoint.findMany.mockResolvedValue([
+      { ...checkpoint('6h', 6, {}), scheduledPostId: 'sp_a', platform: 'LINKEDIN', contentType: 'POST', baselineEngagements: 5, scheduledPost: postA },
+      { ...checkpoint('6h', 6, {}), scheduledPostId: 'sp_b', platform: 'TWITTER', contentType: 'POST', baselineEngagements: 4, scheduledPost: post('b', [checkpoint('6h', 6, { likes: 20 })]) },
+      { ...checkpoint('1h', 1, {}), scheduledPostId: 'sp_a', platform: 'LINKEDIN', contentType: 'POST', baselineEngagements: 2, scheduledPost: postA },
+    ]);
+
+    const breakouts = await service.breakouts('org_1', { hours: 48, now });
+
+    expect(mockPrisma.postMetricCheckpoint.findMany.mock.calls[0][0].where).toEqual({
+      organizationId: 'org_1',
+      isBreakout: true,
+      scheduledPost: { publishedAt: { gte: new Date('2026-10-16T12:00:00Z') } },
+    });
+    expect(breakouts.map(row => [row.scheduledPostId, row.checkpoint, row.engagements, row.vsBaseline, row.title])).toEqual([
+      ['sp_b', '6h', 20, 5, 'Post b'],
+      ['sp_a', '6h', 20, 4, 'Post a'],
+    ]);
+
+    await expect(service.breakouts('org_1', { hours: 0 })).rejects.toThrow(ValidationError);
+  });
+});
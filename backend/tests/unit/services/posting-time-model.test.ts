@@ -0,0 +1,75 @@
+import { audienceActivity, estimatePostingTimes, EngagementObservation } from '../../../src/services/posting-time-model';
+
+const now = new Date('2026-01-15T12:00:00Z');
+
+// Posts on consecutive weeks at the same UTC weekday and hour
+function posts(count: number, firstAt: string, engagementRate: number): EngagementObservation[] {
+  return Array.from({ length: count }, (_, week) => ({
+    scheduledAt: new Date(new Date(firstAt).getTime() + week * 7 * 24 * 60 * 60 * 1000),
+    engagementRate,
+    reach: 1000,
+    clicks: 10,
+  }));
+}
+
+describe('posting time model', () => {
+  it('should rank slots from the platform and industry priors on cold start', () => {
+    const estimates = estimatePostingTimes({ platform: 'LINKEDIN' as any, timeZone: 'UTC', industry: 'B2B SaaS', observations: [], now });
+
+    expect(estimates).toHaveLength(168);
+    expect(estimates[0]).toEqual(expect.objectContaining({ score: 1, dataWeight: 0, sampleSize: 0 }));
+    expect([1, 2, 3, 4, 5]).toContain(estimates[0].dayOfWeek);
+    expect([8, 12, 17]).toContain(estimates[0].hour);
+
+    const sundayNight = estimates.find(estimate => estimate.dayOfWeek === 0 && estimate.hour === 2)!;
+    expect(sundayNight.expectedEngagement).toBeLessThan(estimates[0].expectedEngagement / 2);
+    expect(estimates[0].credibleInterval.lower).toBeLessThan(estimates[0].expectedEngagement);
+    expect(estimates[0].credibleInterval.upper).toBeGreaterThan(estimates[0].expectedEngagement);
+  });
+
+  it('should shrink sparse slots toward the prior and let consistent results take over', () => {
+    // Saturday 03:00 UTC is a poor slot by the priors
+    const saturdayNight = (estimates: ReturnType<typeof estimatePostingTimes>) =>
+      estimates.find(estimate => estimate.dayOfWeek === 6 && estimate.hour === 3)!;
+
+    const oneLuckyPost = estimatePostingTimes({
+      platform: 'LINKEDIN' as any,
+      timeZone: 'UTC',
+      observations: posts(1, '2026-01-03T03:00:00Z', 9),
+      now,
+    });
+    expect(saturdayNight(oneLuckyPost).dataWeight).toBe(0.2);
+    expect(oneLuckyPost[0]).not.toBe(saturdayNight(oneLuckyPost));
+
+    const provenSlot = estimatePostingTimes({
+      platform: 'LINKEDIN' as any,
+      timeZone: 'UTC',
+      observations: [...posts(12, '2026-01-03T03:00:00Z', 9), ...posts(12, '2026-01-06T12:00:00Z', 2.5)],
+      now,
+    });
+    const tuesdayNoon = provenSlot.find(estimate => estimate.dayOfWeek === 2 && estimate.hour === 12)!;
+    expect(provenSlot[0]).toBe(saturdayNight(provenSlot));
+    expect(provenSlot[0].dataWeight).toBe(0.75);
+    // A peak hour by the priors that keeps underperforming drops below its prior
+    expect(tuesdayNoon.expectedEngagement).toBeLessThan(tuesdayNoon.priorEngagement);
+
+    const width = (estimate: { credibleInterval: { lower: number; upper: number } }) =>
+      estimate.credibleInterval.upper - estimate.credibleInterval.lower;
+    expect(width(saturdayNight(provenSlot))).toBeLessThan(width(saturdayNight(oneLuckyPost)));
+  });
+
+  it('should follow the followers when their time zones are known', () => {
+    const scheduledInUtc = audienceActivity({
+      platform: 'TWITTER' as any,
+      timeZone: 'UTC',
+      audienceTimeZones: { 'America/New_York': 120 },
+      now,
+    });
+    const scheduledInNewYork = audienceActivity({ platform: 'TWITTER' as any, timeZone: 'America/New_York', now });
+
+    // New York is five hours behind UTC in January
+    for (let index = 0; index < 168; index++) {
+      expect(scheduledInUtc[index]).toBeCloseTo(scheduledInNewYork[(index + 163) % 168], 6);
+    }
+  });
+});
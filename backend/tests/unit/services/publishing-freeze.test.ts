@@ -0,0 +1,173 @@
+import { PublishingFreezeService, freezeFlagName } from '../../../src/services/publishing-freeze';
+import { ValidationError } from '../../../src/utils/errors';
+
+// The service reads PostStatus and EventStatus values at runtime
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+jest.mock('../../../src/config/redis', () => ({ publishingQueue: {} }));
+
+const now = new Date('2026-10-18T12:00:00Z');
+const frozenAt = new Date('2026-10-18T09:00:00Z');
+
+const mockPrisma: any = {
+  $transaction: jest.fn(),
+  featureFlag: { upsert: jest.fn(), findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn(), updateMany: jest.fn(), count: jest.fn() },
+  socialAccount: { findFirst: jest.fn() },
+  scheduledPost: { findMany: jest.fn(), update: jest.fn(), updateMany: jest.fn(), groupBy: jest.fn() },
+  calendarEvent: { updateMany: jest.fn() },
+};
+
+function flag(scope: 'organization' | 'account', id: string, overrides: Record<string, any> = {}) {
+  return {
+    id: `flag_${id}`,
+    name: freezeFlagName(scope, id),
+    description: 'Platform outage',
+    enabled: true,
+    createdBy: 'user_1',
+    conditions: {
+      scope,
+      organizationId: 'org_1',
+      socialAccountId: scope === 'account' ? id : null,
+      frozenAt: frozenAt.toISOString(),
+    },
+    ...overrides,
+  };
+}
+
+function heldPost(id: string, socialAccountId: string, scheduledAt: string) {
+  return {
+    id,
+    organizationId: 'org_1',
+    contentPieceId: `piece_${id}`,
+    socialAccountId,
+    scheduledAt: new Date(scheduledAt),
+    status: 'PAUSED',
+    maxAttempts: 3,
+    heldByFreeze: freezeFlagName('organization', 'org_1'),
+  };
+}
+
+describe('PublishingFreezeService', () => {
+  const publishingQueue = { syncJob: jest.fn() };
+  const service = new PublishingFreezeService(mockPrisma, publishingQueue as any);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma));
+    mockPrisma.scheduledPost.update.mockImplementation(async ({ where, data }: any) => ({ id: where.id, ...data }));
+  });
+
+  it('should record the reason and who froze an account as a feature flag', async () => {
+    mockPrisma.socialAccount.findFirst.mockResolvedValue({ id: 'acct_1' });
+
+    const freeze = await service.freeze({ organizationId: 'org_1', socialAccountId: 'acct_1', reason: ' Token leak ', frozenBy: 'user_2', now });
+
+    expect(freeze).toEqual({ scope: 'account', organizationId: 'org_1', socialAccountId: 'acct_1', reason: 'Token leak', frozenBy: 'user_2', frozenAt: now });
+    expect(mockPrisma.featureFlag.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { name: 'publishing-freeze:account:acct_1' },
+      create: expect.objectContaining({ description: 'Token leak', enabled: true, createdBy: 'user_2' }),
+      update: expect.objectContaining({ description: 'Token leak', enabled: true, createdBy: 'user_2' }),
+    }));
+
+    mockPrisma.socialAccount.findFirst.mockResolvedValue(null);
+    await expect(service.freeze({ organizationId: 'org_1', socialAccountId: 'acct_other', reason: 'x', frozenBy: 'user_2' })).resolves.toBeNull();
+    await expect(service.freeze({ organizationId: 'org_1', reason: '  ', frozenBy: 'user_2' })).rejects.toThrow(ValidationError);
+  });
+
+  it('should keep when and by whom a freeze started when freezing again', async () => {
+    mockPrisma.featureFlag.findUnique.mockResolvedValue(flag('organization', 'org_1'));
+    mockPrisma.featureFlag.updateMany.mockResolvedValue({ count: 1 });
+
+    const freeze = await service.freeze({ organizationId: 'org_1', reason: 'Outage, now also a PR issue', frozenBy: 'user_2', now });
+
+    expect(freeze).toEqual({
+      scope: 'organization',
+      organizationId: 'org_1',
+      reason: 'Outage, now also a PR issue',
+      frozenBy: 'user_1',
+      frozenAt,
+    });
+    expect(mockPrisma.featureFlag.updateMany).toHaveBeenCalledWith({
+      where: { name: 'publishing-freeze:organization:org_1', enabled: true },
+      data: { description: 'Outage, now also a PR issue' },
+    });
+    expect(mockPrisma.featureFlag.upsert).not.toHaveBeenCalled();
+
+    // A lifted freeze starts over
+    mockPrisma.featureFlag.findUnique.mockResolvedValue(flag('organization', 'org_1', { enabled: false }));
+    await service.freeze({ organizationId: 'org_1', reason: 'Again', frozenBy: 'user_2', now });
+    expect(mockPrisma.featureFlag.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      update: expect.objectContaining({ createdBy: 'user_2', conditions: expect.objectContaining({ frozenAt: now.toISOString() }) }),
+    }));
+  });
+
+  it('should let an organization freeze win over an account freeze', async () => {
+    mockPrisma.featureFlag.findMany.mockResolvedValue([flag('account', 'acct_1'), flag('organization', 'org_1', { description: 'PR crisis' })]);
+
+    const freeze = await service.activeFreezeFor('org_1', 'acct_1');
+
+    expect(freeze).toEqual(expect.objectContaining({ scope: 'organization', reason: 'PR crisis', frozenBy: 'user_1', frozenAt }));
+    expect(mockPrisma.featureFlag.findMany).toHaveBeenCalledWith({
+      where: { name: { in: ['publishing-freeze:organization:org_1', 'publishing-freeze:account:acct_1'] }, enabled: true },
+    });
+  });
+
+  it('should hold a due post back and tag it with the freeze', async () => {
+    mockPrisma.scheduledPost.updateMany.mockResolvedValue({ count: 1 });
+
+    const held = await service.hold('sp_1', { scope: 'organization', organizationId: 'org_1', reason: 'PR crisis', frozenBy: 'user_1', frozenAt });
+
+    expect(held).toBe(true);
+    expect(mockPrisma.scheduledPost.updateMany).toHaveBeenCalledWith({
+      where: { id: 'sp_1', status: { in: ['SCHEDULED', 'RETRYING'] } },
+      data: expect.objectContaining({
+        status: 'PAUSED',
+        heldByFreeze: 'publishing-freeze:organization:org_1',
+        errorMessage: 'Held by publishing freeze: PR crisis',
+      }),
+    });
+  });
+
+  it('should stagger held posts per account when the freeze is lifted', async () => {
+    mockPrisma.featureFlag.findUnique.mockResolvedValue(flag('organization', 'org_1'));
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([
+      heldPost('sp_1', 'acct_1', '2026-10-18T10:00:00Z'),
+      heldPost('sp_2', 'acct_2', '2026-10-18T10:30:00Z'),
+      heldPost('sp_3', 'acct_1', '2026-10-18T11:00:00Z'),
+    ]);
+
+    const result = await service.lift({ organizationId: 'org_1', policy: 'stagger', spacingMinutes: 15, liftedBy: 'user_3', now });
+
+    expect(result!.released.map(post => [post.scheduledPostId, post.scheduledAt.toISOString(), post.status])).toEqual([
+      ['sp_1', '2026-10-18T12:00:00.000Z', 'SCHEDULED'],
+      ['sp_2', '2026-10-18T12:00:00.000Z', 'SCHEDULED'],
+      ['sp_3', '2026-10-18T12:15:00.000Z', 'SCHEDULED'],
+    ]);
+    expect(publishingQueue.syncJob).toHaveBeenCalledTimes(3);
+    expect(mockPrisma.featureFlag.update).toHaveBeenCalledWith({
+      where: { name: 'publishing-freeze:organization:org_1' },
+      data: {
+        enabled: false,
+        conditions: expect.objectContaining({ liftedBy: 'user_3', liftPolicy: 'stagger', released: 3 }),
+      },
+    });
+  });
+
+  it('should shift held posts by the length of the freeze', async () => {
+    mockPrisma.featureFlag.findUnique.mockResolvedValue(flag('organization', 'org_1'));
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([
+      heldPost('sp_1', 'acct_1', '2026-10-18T08:30:00Z'),
+      heldPost('sp_2', 'acct_1', '2026-10-18T11:00:00Z'),
+    ]);
+
+    const result = await service.lift({ organizationId: 'org_1', policy: 'shift', now });
+
+    // Frozen for three hours; nothing moves into the past
+    expect(result!.released.map(post => post.scheduledAt.toISOString())).toEqual([
+      '2026-10-18T12:00:00.000Z',
+      '2026-10-18T14:00:00.000Z',
+    ]);
+
+    mockPrisma.featureFlag.findUnique.mockResolvedValue(flag('organization', 'org_1', { enabled: false }));
+    await expect(service.lift({ organizationId: 'org_1', policy: 'shift', now })).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+import { PublishingMediaService } from '../../../src/services/publishing-media';
+import { MediaAttachment, MediaAttachmentService } from '../../../src/services/media-attachment';
+import { MediaRequirementsError } from '../../../src/utils/errors';
+
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+jest.mock('sharp', () => jest.fn());
+jest.mock('fluent-ffmpeg', () => jest.fn());
+jest.mock('../../../src/services/database', () => ({ prisma: {} }));
+jest.mock('../../../src/config/redis', () => ({ addMediaProcessingJob: jest.fn() }));
+
+const now = new Date('2025-01-01T00:00:00.000Z');
+
+function attachment(overrides: Partial<MediaAttachment> = {}): MediaAttachment {
+  return {
+    id: 'media_1',
+    organizationId: 'org_123',
+    originalName: 'launch.png',
+    filename: '1735689600000_abc.png',
+    type: 'image',
+    mimeType: 'image/png',
+    size: 2 * 1024 * 1024,
+    dimensions: { width: 1600, height: 1200 },
+    storage: {
+      provider: 'aws_s3',
+      bucket: 'aipromotor-media',
+      key: 'media/org_123/1735689600000_abc.png',
+      url: 'https://aipromotor-media.s3.amazonaws.com/media/org_123/1735689600000_abc.png',
+    },
+    processing: {
+      status: 'completed',
+      variants: [
+        {
+          id: 'variant_twitter_1x1',
+          type: 'platform_optimized',
+          platform: 'TWITTER',
+          specifications: { width: 1024, height: 1024, format: 'jpeg', size: 400000 },
+          storage: { key: 'optimized/org_123/TWITTER_1x1_abc.png', url: 'https://cdn.example.com/TWITTER_1x1.jpg' },
+          createdAt: now,
+        },
+        {
+          id: 'variant_twitter_2x1',
+          type: 'platform_optimized',
+          platform: 'TWITTER',
+          specifications: { width: 1024, height: 512, format: 'jpeg', size: 300000 },
+          storage: { key: 'optimized/org_123/TWITTER_2x1_abc.png', url: 'https://cdn.example.com/TWITTER_2x1.jpg' },
+          createdAt: now,
+        },
+      ],
+      optimizations: { compressed: false, resized: false, formatted: false, watermarked: false },
+      metadata: {},
+    },
+    usage: { platforms: [], contentPieces: [], campaigns: [], timesUsed: 0 },
+    accessibility: { altText: 'Launch banner' },
+    compliance: { hasRights: true },
+    tags: [],
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+describe('PublishingMediaService', () => {
+  let mediaService: MediaAttachmentService;
+  let service: PublishingMediaService;
+
+  beforeEach(() => {
+    mediaService = new MediaAttachmentService();
+    jest.spyOn(mediaService, 'getMediaUrl').mockImplementation(key => `https://signed.example.com/${key}`);
+    jest.spyOn(mediaService, 'getMediaById').mockResolvedValue(attachment());
+    service = new PublishingMediaService(mediaService);
+  });
+
+  describe('parseMediaRefs', () => {
+    it('should normalize legacy and list shapes', () => {
+      expect(PublishingMediaService.parseMediaRefs({ image: 'media/a.png', prompt: 'a cat' })).toEqual([
+        { key: 'media/a.png', type: 'image', altText: undefined },
+      ]);
+      expect(PublishingMediaService.parseMediaRefs({ urls: ['https://x/a.jpg', 42], abTestId: 'ab_1' })).toEqual([
+        { url: 'https://x/a.jpg' },
+      ]);
+      expect(PublishingMediaService.parseMediaRefs({ items: [{ mediaId: 'media_1' }] })).toEqual([{ mediaId: 'media_1' }]);
+      expect(PublishingMediaService.parseMediaRefs(null)).toEqual([]);
+    });
+  });
+
+  describe('resolveForPlatform', () => {
+    it('should pick the first platform variant that meets the requirements', async () => {
+      const [media] = await service.resolveForPlatform({ items: [{ mediaId: 'media_1' }] }, 'TWITTER');
+
+      // The 1:1 variant is closer to 4:3 but taller than Twitter's 512px limit
+      expect(media).toEqual(expect.objectContaining({
+        variantId: 'variant_twitter_2x1',
+        url: 'https://cdn.example.com/TWITTER_2x1.jpg',
+        mimeType: 'image/jpeg',
+        altText: 'Launch banner',
+        mediaId: 'media_1',
+      }));
+    });
+
+    it('should send the original when a platform has no published requirements', async () => {
+      const [media] = await service.resolveForPlatform({ items: [{ mediaId: 'media_1' }] }, 'FACEBOOK');
+
+      expect(media.variantId).toBeUndefined();
+      expect(media.key).toBe('media/org_123/1735689600000_abc.png');
+    });
+
+    it('should fail clearly when no variant fits', async () => {
+      const video = attachment({
+        originalName: 'demo.mp4',
+        type: 'video',
+        mimeType: 'video/mp4',
+        dimensions: { width: 1080, height: 1920, duration: 95 },
+        processing: { ...attachment().processing, variants: [] },
+      });
+      (mediaService.getMediaById as jest.Mock).mockResolvedValue(video);
+
+      const resolution = service.resolveForPlatform({ items: [{ mediaId: 'media_1' }] }, 'YOUTUBE_SHORTS', 'SHORT');
+
+      await expect(resolution).rejects.toThrow(MediaRequirementsError);
+      await expect(resolution).rejects.toThrow('Media "demo.mp4" does not meet YOUTUBE_SHORTS post requirements: Duration 95s exceeds maximum 60s');
+    });
+
+    it('should sign S3 keys and enforce per-post limits', async () => {
+      const refs = { items: ['a', 'b', 'c', 'd', 'e'].map(name => ({ key: `media/org_123/${name}.png` })) };
+
+      await expect(service.resolveForPlatform(refs, 'TWITTER')).rejects.toThrow('5 images attached, TWITTER allows 4');
+
+      const media = await service.resolveForPlatform({ items: refs.items.slice(0, 2) }, 'TWITTER');
+      expect(media.map(item => item.url)).toEqual([
+        'https://signed.example.com/media/org_123/a.png',
+        'https://signed.example.com/media/org_123/b.png',
+      ]);
+    });
+  });
+
+  describe('download', () => {
+    it('should read stored media from S3', async () => {
+      jest.spyOn(mediaService, 'downloadFromS3').mockResolvedValue(Buffer.from('bytes'));
+
+      const buffer = await service.download({
+        type: 'image',
+        mimeType: 'image/png',
+        fileName: 'a.png',
+        url: 'https://signed.example.com/media/a.png',
+        key: 'media/a.png',
+      });
+
+      expect(buffer.toString()).toBe('bytes');
+      expect(mediaService.downloadFromS3).toHaveBeenCalledWith('media/a.png');
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { PublishingQueueService, publishingJobId, retryJobId } from '../../../src/services/publishing-queue';
+import { ValidationError } from '../../../src/utils/errors';
+
+// The service reads PostStatus and EventStatus values at runtime
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+jest.mock('../../../src/config/redis', () => ({ publishingQueue: {} }));
+
+const now = new Date('2026-10-18T12:00:00Z');
+
+const mockPrisma: any = {
+  $transaction: jest.fn(),
+  scheduledPost: { findFirst: jest.fn(), findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+  calendarEvent: { updateMany: jest.fn() },
+};
+
+function scheduledPost(overrides: Record<string, any> = {}) {
+  return {
+    id: 'sp_1',
+    organizationId: 'org_1',
+    contentPieceId: 'piece_1',
+    socialAccountId: 'acct_1',
+    scheduledAt: new Date('2026-10-20T09:00:00Z'),
+    status: 'SCHEDULED',
+    attemptCount: 0,
+    maxAttempts: 3,
+    ...overrides,
+  };
+}
+
+function job(id: string, state: string, data: Record<string, any> = {}) {
+  return {
+    id,
+    data: { scheduledPostId: 'sp_1', ...data },
+    getState: jest.fn().mockResolvedValue(state),
+    remove: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('PublishingQueueService', () => {
+  const queue = { getJob: jest.fn(), add: jest.fn(), getJobs: jest.fn() };
+  const service = new PublishingQueueService(mockPrisma, queue as any);
+  let jobs: Record<string, ReturnType<typeof job>>;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jobs = {};
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma));
+    queue.getJob.mockImplementation(async (id: string) => jobs[id]);
+  });
+
+  it('should move the delayed job with the post when it is rescheduled', async () => {
+    jobs[publishingJobId('sp_1')] = job(publishingJobId('sp_1'), 'delayed');
+    jobs[retryJobId('sp_1', 1)] = job(retryJobId('sp_1', 1), 'failed');
+    const movedTo = new Date('2026-10-21T15:00:00Z');
+    mockPrisma.scheduledPost.findFirst.mockResolvedValue(scheduledPost());
+    mockPrisma.scheduledPost.update.mockResolvedValue(scheduledPost({ scheduledAt: movedTo }));
+
+    await service.reschedule('sp_1', movedTo, { organizationId: 'org_1', now });
+
+    expect(mockPrisma.scheduledPost.update).toHaveBeenCalledWith({
+      where: { id: 'sp_1' },
+      data: { scheduledAt: movedTo, status: 'SCHEDULED', sequence: { increment: 1 } },
+    });
+    expect(jobs[publishingJobId('sp_1')].remove).toHaveBeenCalled();
+    expect(jobs[retryJobId('sp_1', 1)].remove).toHaveBeenCalled();
+    expect(queue.add).toHaveBeenCalledWith(
+      'publish-post',
+      expect.objectContaining({ scheduledPostId: 'sp_1', scheduledAt: movedTo.toISOString() }),
+      expect.objectContaining({ jobId: 'post-sp_1', delay: 75 * 60 * 60 * 1000 })
+    );
+  });
+
+  it('should refuse to cancel a post that is already publishing', async () => {
+    jobs[publishingJobId('sp_1')] = job(publishingJobId('sp_1'), 'active');
+    mockPrisma.scheduledPost.findFirst.mockResolvedValue(scheduledPost());
+    mockPrisma.scheduledPost.update.mockResolvedValue(scheduledPost({ status: 'CANCELLED' }));
+
+    await expect(service.cancel('sp_1')).rejects.toThrow(ValidationError);
+    expect(queue.add).not.toHaveBeenCalled();
+
+    mockPrisma.scheduledPost.findFirst.mockResolvedValue(scheduledPost({ status: 'PUBLISHED' }));
+    await expect(service.cancel('sp_1')).rejects.toThrow('Cannot cancel a published post');
+
+    mockPrisma.scheduledPost.findFirst.mockResolvedValue(null);
+    await expect(service.cancel('sp_missing', 'org_1')).resolves.toBeNull();
+  });
+
+  it('should pause an organization without touching posts that are mid-publish', async () => {
+    jobs[publishingJobId('sp_1')] = job(publishingJobId('sp_1'), 'delayed');
+    jobs[publishingJobId('sp_2')] = job(publishingJobId('sp_2'), 'active', { scheduledPostId: 'sp_2' });
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([scheduledPost(), scheduledPost({ id: 'sp_2', status: 'RETRYING' })]);
+
+    const result = await service.pauseOrganization('org_1');
+
+    expect(result).toEqual({ paused: ['sp_1'], skipped: ['sp_2'] });
+    expect(jobs[publishingJobId('sp_1')].remove).toHaveBeenCalled();
+    expect(mockPrisma.scheduledPost.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['sp_1'] } },
+      data: { status: 'PAUSED', sequence: { increment: 1 } },
+    });
+    // Jobs go last, so a failed update would have left them queued
+    expect(jobs[publishingJobId('sp_1')].remove.mock.invocationCallOrder[0])
+      .toBeGreaterThan(mockPrisma.scheduledPost.updateMany.mock.invocationCallOrder[0]);
+
+    jobs[publishingJobId('sp_1')].remove.mockClear();
+    mockPrisma.scheduledPost.updateMany.mockRejectedValueOnce(new Error('connection lost'));
+    await expect(service.pauseOrganization('org_1')).rejects.toThrow('connection lost');
+    expect(jobs[publishingJobId('sp_1')].remove).not.toHaveBeenCalled();
+  });
+
+  it('should skip jobs whose post was moved or cancelled since they were queued', async () => {
+    const queuedFor = '2026-10-20T09:00:00.000Z';
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(scheduledPost());
+    await expect(service.shouldPublish({ scheduledPostId: 'sp_1', scheduledAt: queuedFor } as any)).resolves.toBe(true);
+
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(scheduledPost({ scheduledAt: new Date('2026-10-21T09:00:00Z') }));
+    await expect(service.shouldPublish({ scheduledPostId: 'sp_1', scheduledAt: queuedFor } as any)).resolves.toBe(false);
+
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(scheduledPost({ status: 'CANCELLED' }));
+    await expect(service.shouldPublish({ scheduledPostId: 'sp_1' } as any)).resolves.toBe(false);
+  });
+
+  it('should remove orphaned jobs and requeue posts that have no job', async () => {
+    const orphan = job('post-sp_gone', 'delayed', { scheduledPostId: 'sp_gone' });
+    const cancelled = job('post-sp_cancelled', 'delayed', { scheduledPostId: 'sp_cancelled' });
+    const current = job('post-sp_live', 'delayed', { scheduledPostId: 'sp_live', scheduledAt: '2026-10-20T09:00:00.000Z' });
+    jobs['post-sp_live'] = current;
+    queue.getJobs.mockResolvedValueOnce([orphan, cancelled, current]).mockResolvedValueOnce([]);
+    mockPrisma.scheduledPost.findMany
+      .mockResolvedValueOnce([
+        scheduledPost({ id: 'sp_cancelled', status: 'CANCELLED' }),
+        scheduledPost({ id: 'sp_live' }),
+      ])
+      .mockResolvedValueOnce([scheduledPost({ id: 'sp_live' }), scheduledPost({ id: 'sp_lost' })]);
+
+    const result = await service.reconcile(now);
+
+    expect(result).toEqual({ removedJobs: ['post-sp_gone', 'post-sp_cancelled'], requeuedPosts: ['sp_lost'] });
+    expect(orphan.remove).toHaveBeenCalled();
+    expect(cancelled.remove).toHaveBeenCalled();
+    expect(current.remove).not.toHaveBeenCalled();
+    expect(queue.add).toHaveBeenCalledTimes(1);
+    expect(queue.add).toHaveBeenCalledWith('publish-post', expect.objectContaining({ scheduledPostId: 'sp_lost' }), expect.objectContaining({ jobId: 'post-sp_lost' }));
+  });
+});
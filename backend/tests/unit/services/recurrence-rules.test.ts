@@ -0,0 +1,99 @@
+import { expandRecurrence, legacyToRRule, normalizeRRule } from '../../../src/services/recurrence-rules';
+import { ValidationError } from '../../../src/utils/errors';
+
+describe('recurrence rules', () => {
+  it('should keep the local posting time across DST changes', () => {
+    const occurrences = expandRecurrence({
+      rrule: 'FREQ=WEEKLY;BYDAY=MO',
+      timeslots: [{ hour: 9, minute: 0 }],
+      startDate: '2026-10-19',
+      endDate: '2026-11-02',
+      timeZone: 'Europe/Berlin',
+    });
+
+    expect(occurrences.map(o => o.scheduledAt.toISOString())).toEqual([
+      '2026-10-19T07:00:00.000Z',
+      '2026-10-26T08:00:00.000Z',
+      '2026-11-02T08:00:00.000Z',
+    ]);
+    expect(occurrences[1].localTime).toBe('2026-10-26T09:00:00+01:00');
+  });
+
+  it('should expand BYSETPOS rules and skip EXDATE days and slots', () => {
+    const occurrences = expandRecurrence({
+      rrule: 'RRULE:FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1',
+      exdates: ['2026-12-25', '2027-01-29T17:30'],
+      timeslots: [{ hour: 17, minute: 30 }, { hour: 8, minute: 0 }],
+      startDate: '2026-11-01',
+      timeZone: 'America/New_York',
+      limit: 5,
+    });
+
+    expect(occurrences.map(o => o.localTime)).toEqual([
+      '2026-11-27T08:00:00-05:00',
+      '2026-11-27T17:30:00-05:00',
+      '2027-01-29T08:00:00-05:00',
+      '2027-02-26T08:00:00-05:00',
+      '2027-02-26T17:30:00-05:00',
+    ]);
+  });
+
+  it('should read start dates in the schedule time zone', () => {
+    const [first] = expandRecurrence({
+      rrule: 'FREQ=DAILY;COUNT=1',
+      timeslots: [{ hour: 23, minute: 0 }],
+      // Still March 1 in Los Angeles
+      startDate: new Date('2026-03-02T05:00:00Z'),
+      timeZone: 'America/Los_Angeles',
+    });
+
+    expect(first.localTime).toBe('2026-03-01T23:00:00-08:00');
+  });
+
+  it('should count occurrences across timeslots and read UNTIL as a UTC instant', () => {
+    const counted = expandRecurrence({
+      rrule: 'FREQ=DAILY;COUNT=3',
+      timeslots: [{ hour: 9, minute: 0 }, { hour: 17, minute: 0 }],
+      startDate: '2026-10-19',
+      timeZone: 'America/New_York',
+    });
+
+    expect(counted.map(o => o.localTime)).toEqual([
+      '2026-10-19T09:00:00-04:00',
+      '2026-10-19T17:00:00-04:00',
+      '2026-10-20T09:00:00-04:00',
+    ]);
+
+    // 02:00 UTC on the 21st is still 22:00 on the 20th in New York
+    const bounded = expandRecurrence({
+      rrule: 'FREQ=DAILY;UNTIL=20261021T020000Z',
+      timeslots: [{ hour: 21, minute: 0 }, { hour: 23, minute: 0 }],
+      startDate: '2026-10-19',
+      timeZone: 'America/New_York',
+    });
+
+    expect(bounded.map(o => o.localTime)).toEqual([
+      '2026-10-19T21:00:00-04:00',
+      '2026-10-19T23:00:00-04:00',
+      '2026-10-20T21:00:00-04:00',
+    ]);
+  });
+
+  it('should translate legacy frequency options', () => {
+    expect(legacyToRRule({ frequency: 'weekly', interval: 2, daysOfWeek: [5, 1] })).toBe('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR');
+    expect(legacyToRRule({ frequency: 'monthly', interval: 1, daysOfWeek: [1] })).toBe('RRULE:FREQ=MONTHLY;INTERVAL=1');
+  });
+
+  it('should reject rules the scheduler cannot honour', () => {
+    expect(() => normalizeRRule('FREQ=HOURLY')).toThrow(ValidationError);
+    expect(() => normalizeRRule('FREQ=DAILY;BYHOUR=9')).toThrow('Use timeslots');
+    expect(() => normalizeRRule('DTSTART:20261101T090000Z\nRRULE:FREQ=DAILY')).toThrow(ValidationError);
+    expect(() => normalizeRRule('FREQ=WEEKLY;BYDAY=XX')).toThrow('unknown weekday');
+    expect(() => expandRecurrence({
+      rrule: 'FREQ=DAILY',
+      timeslots: [{ hour: 9, minute: 0 }],
+      startDate: '2026-11-01',
+      timeZone: 'Mars/Olympus_Mons',
+    })).toThrow('Unknown time zone');
+  });
+});
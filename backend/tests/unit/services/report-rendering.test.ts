@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { PdfReportBuilder, addTableSheet, createWorkbook, formatCompact } from '../../../src/services/report-rendering';
+import { ReportGenerator } from '../../../src/services/report-generator';
+import { LocalFileStorage } from '../../../src/services/file-storage';
+
+// ReportGenerator reads ExportStatus values at runtime
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+
+// The package entry point runs a self-test when loaded this way, so load the parser directly
+const pdfParse = require('pdf-parse/lib/pdf-parse.js');
+
+async function pdfPages(buffer: Buffer): Promise<string[]> {
+  const pages: string[] = [];
+  await pdfParse(buffer, {
+    pagerender: async (page: any) => {
+      const content = await page.getTextContent();
+      pages.push(content.items.map((item: any) => item.str).join(' '));
+      return '';
+    },
+  });
+  return pages;
+}
+
+describe('PdfReportBuilder', () => {
+  it('should render a real PDF with a cover, tables, charts and a month grid', async () => {
+    const pdf = new PdfReportBuilder({ name: 'Acme Rockets' }, 'Content Calendar');
+    pdf.cover('Content Calendar', 'Oct 1, 2026 – Oct 31, 2026', [['Time zone', 'Europe/Berlin']]);
+    pdf.heading('Overview').metricCards([{ label: 'Events', value: '3' }]);
+    pdf.table(
+      [{ header: 'Title', width: 0.7 }, { header: 'Platform', width: 0.3 }],
+      Array.from({ length: 90 }, (_, i) => [`Launch thread ${i}`, 'TWITTER'])
+    );
+    pdf.lineChart('Engagement rate over time (%)', { labels: ['Oct 5', 'Oct 12'], values: [2.4, 3.1] });
+    pdf.barChart('Engagement rate by platform (%)', { labels: ['TWITTER', 'LINKEDIN'], values: [3.2, 4.1] });
+    pdf.monthGrid(new Date(2026, 9, 1), [
+      { date: new Date(2026, 9, 14, 9, 30), label: '09:30 Product Hunt launch' },
+    ]);
+
+    const buffer = await pdf.toBuffer();
+    const pages = await pdfPages(buffer);
+
+    expect(buffer.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(pages[0]).toContain('ACME ROCKETS');
+    expect(pages[0]).not.toContain('Page');
+    // Table rows spill onto a second page and repeat the header there
+    expect(pages[2]).toContain('Title Platform');
+    expect(pages.some(page => page.includes('Engagement rate by platform (%)'))).toBe(true);
+    expect(pages[pages.length - 1]).toContain('October 2026');
+    expect(pages[pages.length - 1]).toContain('09:30 Product');
+    expect(pages[pages.length - 1]).toContain(`Page ${pages.length - 1} of ${pages.length - 1}`);
+  });
+
+  it('should format axis values compactly', () => {
+    expect(formatCompact(1250000)).toBe('1.3M');
+    expect(formatCompact(12000)).toBe('12k');
+    expect(formatCompact(0.5)).toBe('0.5');
+  });
+});
+
+describe('addTableSheet', () => {
+  it('should write a sheet with a frozen, filterable header row', async () => {
+    const workbook = createWorkbook('Acme');
+    addTableSheet(workbook, 'Platforms', [
+      { header: 'Platform', key: 'platform' },
+      { header: 'Posts', key: 'posts', numFmt: '#,##0' },
+    ], [{ platform: 'LINKEDIN', posts: 1200 }]);
+
+    const reloaded = new ExcelJS.Workbook();
+    await reloaded.xlsx.load(Buffer.from(await workbook.xlsx.writeBuffer()) as any);
+    const sheet = reloaded.getWorksheet('Platforms')!;
+
+    expect(sheet.getRow(1).values).toEqual([undefined, 'Platform', 'Posts']);
+    expect(sheet.getRow(2).values).toEqual([undefined, 'LINKEDIN', 1200]);
+    expect(sheet.views[0]).toEqual(expect.objectContaining({ state: 'frozen', ySplit: 1 }));
+  });
+});
+
+describe('ReportGenerator', () => {
+  const mockPrisma = {
+    organization: { findUnique: jest.fn() },
+    analytics: {
+      aggregate: jest.fn(),
+      groupBy: jest.fn(),
+      findMany: jest.fn(),
+    },
+    analyticsReport: {
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  } as any;
+  let workDir: string;
+  let generator: ReportGenerator;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reports-'));
+    generator = new ReportGenerator(mockPrisma, new LocalFileStorage(workDir));
+    mockPrisma.organization.findUnique.mockResolvedValue({ name: 'Acme Rockets' });
+    mockPrisma.analytics.aggregate.mockResolvedValue({
+      _sum: { impressions: 48000, likes: 1200, comments: 300, shares: 150, saves: 50 },
+      _avg: { engagementRate: 3.6 },
+      _count: { id: 24 },
+    });
+    mockPrisma.analytics.groupBy.mockResolvedValue([
+      { platform: 'LINKEDIN', _sum: { impressions: 30000, likes: 900, comments: 200, shares: 100 }, _avg: { engagementRate: 4.1 }, _count: { id: 14 } },
+      { platform: 'TWITTER', _sum: { impressions: 18000, likes: 300, comments: 100, shares: 50 }, _avg: { engagementRate: 2.9 }, _count: { id: 10 } },
+    ]);
+    mockPrisma.analytics.findMany.mockResolvedValue([
+      { collectedAt: new Date('2026-10-06T10:00:00Z'), engagementRate: 3 },
+      { collectedAt: new Date('2026-10-07T10:00:00Z'), engagementRate: 4 },
+      { collectedAt: new Date('2026-10-14T10:00:00Z'), engagementRate: 5 },
+    ]);
+    mockPrisma.analyticsReport.create.mockResolvedValue({ id: 'report_1' });
+    mockPrisma.analyticsReport.update.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const config = {
+    organizationId: 'org_123',
+    reportType: 'summary' as const,
+    startDate: new Date('2026-10-01T00:00:00Z'),
+    endDate: new Date('2026-10-31T00:00:00Z'),
+    includeCharts: true,
+    includeComparisons: false,
+  };
+
+  it('should store a PDF report with charts built from stored analytics', async () => {
+    const { storageKey, data } = await generator.generateReport({ ...config, format: 'pdf' });
+
+    expect(data.charts!.engagement_over_time).toEqual({
+      labels: ['Oct 5', 'Oct 12'],
+      datasets: [{ label: 'Engagement Rate', data: [3.5, 5] }],
+    });
+    expect(storageKey).toBe('reports/org_123/report_1/analytics-report-report_1.pdf');
+    expect(mockPrisma.analyticsReport.update).toHaveBeenLastCalledWith({
+      where: { id: 'report_1' },
+      data: expect.objectContaining({
+        status: 'COMPLETED',
+        fileName: 'analytics-report-report_1.pdf',
+        mimeType: 'application/pdf',
+        storageKey,
+        fileSize: fs.statSync(path.join(workDir, storageKey)).size,
+      }),
+    });
+    const text = (await pdfPages(fs.readFileSync(path.join(workDir, storageKey)))).join('\n');
+    expect(text).toContain('Analytics Report');
+    expect(text).toContain('Platform Performance');
+    expect(text).toContain('Engagement rate over time (%)');
+    expect(text).toContain('LINKEDIN');
+  });
+
+  it('should store a multi-sheet XLSX workbook', async () => {
+    const { storageKey } = await generator.generateReport({ ...config, format: 'excel' });
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(path.join(workDir, storageKey));
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual([
+      'Summary',
+      'Platforms',
+      'Content Types',
+      'Growth',
+      'Engagement Over Time',
+      'Platform Comparison',
+      'Recommendations',
+    ]);
+    expect(workbook.getWorksheet('Platforms')!.getRow(2).values).toEqual([undefined, 'LINKEDIN', 14, 30000, 1200, 4.1]);
+  });
+
+  it('should mark the report failed when rendering fails', async () => {
+    mockPrisma.analytics.aggregate.mockRejectedValue(new Error('connection reset'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(generator.generateReport({ ...config, format: 'csv' })).rejects.toThrow('Failed to generate report: connection reset');
+    expect(mockPrisma.analyticsReport.update).toHaveBeenLastCalledWith({
+      where: { id: 'report_1' },
+      data: { status: 'FAILED', errorMessage: 'connection reset' },
+    });
+  });
+});
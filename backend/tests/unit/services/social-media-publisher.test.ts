@@ -0,0 +1,127 @@
+import { SocialMediaPublisher } from '../../../src/services/social-media-publisher';
+import { PublishingMediaService } from '../../../src/services/publishing-media';
+import { TwitterService } from '../../../src/services/twitter-api';
+import { LinkedInService } from '../../../src/services/linkedin-api';
+import { TikTokService } from '../../../src/services/tiktok-api';
+import { addPublishingJob } from '../../../src/config/redis';
+import { MediaRequirementsError } from '../../../src/utils/errors';
+
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+jest.mock('sharp', () => jest.fn());
+jest.mock('fluent-ffmpeg', () => jest.fn());
+jest.mock('../../../src/services/database', () => ({ prisma: {} }));
+jest.mock('../../../src/config/redis', () => ({ addPublishingJob: jest.fn() }));
+jest.mock('../../../src/services/twitter-api');
+jest.mock('../../../src/services/linkedin-api');
+jest.mock('../../../src/services/tiktok-api');
+
+const mockPrisma = {
+  scheduledPost: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  contentPiece: { update: jest.fn() },
+} as any;
+
+function scheduledPost(platform: string, mediaRefs: unknown) {
+  return {
+    id: 'sp_1',
+    organizationId: 'org_123',
+    contentPieceId: 'piece_1',
+    socialAccountId: 'acct_1',
+    status: 'SCHEDULED',
+    attemptCount: 1,
+    maxAttempts: 3,
+    contentPiece: { id: 'piece_1', body: 'We shipped!', type: 'POST', mediaRefs, hashtags: [] },
+    socialAccount: { platform, handle: 'aipromote', accessTokenEncrypted: 'enc', refreshTokenEncrypted: null, expiresAt: null },
+  };
+}
+
+describe('SocialMediaPublisher', () => {
+  const mockMedia = { resolveForPlatform: jest.fn(), download: jest.fn(), recordUsage: jest.fn() };
+  const twitter = { uploadMedia: jest.fn(), setMediaAltText: jest.fn(), postTweet: jest.fn() };
+  const linkedin = { uploadMedia: jest.fn(), uploadVideo: jest.fn(), postContent: jest.fn() };
+  const tiktok = { publishPost: jest.fn() };
+  let publisher: SocialMediaPublisher;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    (TwitterService.createWithEncryptedCredentials as jest.Mock).mockResolvedValue(twitter);
+    (LinkedInService.createWithEncryptedCredentials as jest.Mock).mockResolvedValue(linkedin);
+    (TikTokService.createWithEncryptedCredentials as jest.Mock).mockResolvedValue(tiktok);
+    mockMedia.download.mockResolvedValue(Buffer.from('bytes'));
+    mockMedia.recordUsage.mockResolvedValue(undefined);
+    publisher = new SocialMediaPublisher(mockPrisma, mockMedia as unknown as PublishingMediaService);
+  });
+
+  it('should upload image media to Twitter and attach the media IDs', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(scheduledPost('TWITTER', { image: 'media/a.png' }));
+    mockMedia.resolveForPlatform.mockResolvedValue([
+      { type: 'image', mimeType: 'image/jpeg', fileName: 'a.png', url: 'https://cdn/a.jpg', key: 'optimized/a.jpg', altText: 'A chart' },
+    ]);
+    twitter.uploadMedia.mockResolvedValue('1850000000000000001');
+    twitter.postTweet.mockResolvedValue({ data: { id: 'tweet_1', text: 'We shipped!' } });
+
+    const result = await publisher.publishPost('sp_1');
+
+    expect(result).toEqual(expect.objectContaining({ success: true, platformPostId: 'tweet_1' }));
+    expect(mockMedia.resolveForPlatform).toHaveBeenCalledWith({ image: 'media/a.png' }, 'TWITTER', 'POST');
+    expect(twitter.uploadMedia).toHaveBeenCalledWith(Buffer.from('bytes'), 'image/jpeg');
+    expect(twitter.setMediaAltText).toHaveBeenCalledWith('1850000000000000001', 'A chart');
+    expect(twitter.postTweet).toHaveBeenCalledWith({ text: 'We shipped!', mediaIds: ['1850000000000000001'] });
+    expect(mockMedia.recordUsage).toHaveBeenCalledWith({ image: 'media/a.png' });
+  });
+
+  it('should upload videos to LinkedIn as video assets', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(scheduledPost('LINKEDIN', { video: 'media/demo.mp4' }));
+    mockMedia.resolveForPlatform.mockResolvedValue([
+      { type: 'video', mimeType: 'video/mp4', fileName: 'demo.mp4', url: 'https://cdn/demo.mp4', key: 'media/demo.mp4' },
+    ]);
+    linkedin.uploadVideo.mockResolvedValue('urn:li:digitalmediaAsset:C4E10AQ');
+    linkedin.postContent.mockResolvedValue({ id: 'share_1', urn: 'urn:li:share:1' });
+
+    await publisher.publishPost('sp_1');
+
+    expect(linkedin.uploadMedia).not.toHaveBeenCalled();
+    expect(linkedin.postContent).toHaveBeenCalledWith(expect.objectContaining({
+      mediaUrns: ['urn:li:digitalmediaAsset:C4E10AQ'],
+      mediaCategory: 'VIDEO',
+    }));
+  });
+
+  it('should keep the TikTok publish ID apart until the post ID is known', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(scheduledPost('TIKTOK', { video: 'media/demo.mp4' }));
+    mockMedia.resolveForPlatform.mockResolvedValue([
+      { type: 'video', mimeType: 'video/mp4', fileName: 'demo.mp4', url: 'https://cdn/demo.mp4', key: 'media/demo.mp4' },
+    ]);
+    tiktok.publishPost.mockResolvedValue({ publishId: 'v_pub_url~v2.1', status: 'PROCESSING_DOWNLOAD' });
+
+    const result = await publisher.publishPost('sp_1');
+
+    expect(result).toEqual(expect.objectContaining({ success: true, platformPostId: undefined, externalPostId: 'v_pub_url~v2.1' }));
+    expect(mockPrisma.scheduledPost.update).toHaveBeenCalledWith({
+      where: { id: 'sp_1' },
+      data: expect.objectContaining({ status: 'PUBLISHED', platformPostId: undefined, externalPostId: 'v_pub_url~v2.1' }),
+    });
+  });
+
+  it('should fail without retrying when media breaks platform requirements', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(scheduledPost('TWITTER', { image: 'media/huge.png' }));
+    mockMedia.resolveForPlatform.mockRejectedValue(
+      new MediaRequirementsError('Media "huge.png" does not meet TWITTER post requirements: File size 9 MB exceeds maximum 5 MB', 'TWITTER', ['File size 9 MB exceeds maximum 5 MB'])
+    );
+
+    const result = await publisher.publishPost('sp_1');
+
+    expect(result).toEqual(expect.objectContaining({ success: false, retryable: false }));
+    expect(result.error).toContain('does not meet TWITTER post requirements');
+    expect(twitter.postTweet).not.toHaveBeenCalled();
+    expect(addPublishingJob).not.toHaveBeenCalled();
+    expect(mockMedia.recordUsage).not.toHaveBeenCalled();
+    expect(mockPrisma.scheduledPost.update).toHaveBeenLastCalledWith({
+      where: { id: 'sp_1' },
+      data: { status: 'FAILED', errorMessage: result.error },
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { TikTokService } from '../../../src/services/tiktok-api';
+import { RedditService } from '../../../src/services/reddit-api';
+import { ThreadsService } from '../../../src/services/threads-api';
+import { YouTubeService } from '../../../src/services/youtube-api';
+import { FixtureServer, startFixtureServer } from '../../fixtures/fixture-server';
+
+describe('social platform adapters', () => {
+  let server: FixtureServer;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  describe('TikTokService', () => {
+    beforeEach(async () => {
+      server = await startFixtureServer('tiktok');
+    });
+
+    it('should pull the video, poll until published and fall back to an allowed privacy level', async () => {
+      const tiktok = new TikTokService({ accessToken: 'act.test' }, { baseURL: server.baseUrl, pollIntervalMs: 0 });
+
+      const result = await tiktok.publishPost({ title: 'Launch day #buildinpublic', videoUrl: 'https://cdn.example.com/launch.mp4' });
+
+      expect(result).toEqual({ publishId: 'v_pub_url~v2.7431', postId: '7431992010238771000', status: 'PUBLISH_COMPLETE' });
+      const init = JSON.parse(server.requestsTo('POST', '/post/publish/video/init/')[0].body);
+      expect(init.post_info).toEqual(expect.objectContaining({ privacy_level: 'FOLLOWER_OF_CREATOR', disable_duet: true }));
+      expect(init.source_info).toEqual({ source: 'PULL_FROM_URL', video_url: 'https://cdn.example.com/launch.mp4' });
+      expect(server.requestsTo('POST', '/post/publish/status/fetch/')).toHaveLength(2);
+      expect(server.requests[0].headers.authorization).toBe('Bearer act.test');
+    });
+
+    it('should reject privacy levels the creator cannot use', async () => {
+      const tiktok = new TikTokService({ accessToken: 'act.test' }, { baseURL: server.baseUrl });
+
+      await expect(tiktok.publishPost({
+        title: 'Launch day',
+        videoUrl: 'https://cdn.example.com/launch.mp4',
+        privacyLevel: 'PUBLIC_TO_EVERYONE',
+      })).rejects.toThrow('PUBLIC_TO_EVERYONE is not available');
+      expect(server.requestsTo('POST', '/post/publish/video/init/')).toHaveLength(0);
+    });
+
+    it('should read video metrics and refresh tokens', async () => {
+      const tiktok = new TikTokService({ accessToken: 'act.test' }, { baseURL: server.baseUrl });
+
+      expect(await tiktok.getPostAnalytics('7431992010238771000')).toEqual({ views: 1520, likes: 140, comments: 12, shares: 8 });
+      expect(await TikTokService.refreshAccessToken('rft.old', `${server.baseUrl}/oauth/token/`)).toEqual({
+        accessToken: 'act.refreshed',
+        expiresIn: 86400,
+        refreshToken: 'rft.refreshed',
+      });
+      expect(server.requestsTo('POST', '/oauth/token/')[0].body).toContain('grant_type=refresh_token');
+    });
+  });
+
+  describe('RedditService', () => {
+    beforeEach(async () => {
+      server = await startFixtureServer('reddit');
+    });
+
+    it('should resolve flair text to a flair template and submit a self post', async () => {
+      const reddit = new RedditService({ accessToken: 'reddit.test' }, { baseURL: server.baseUrl });
+
+      const result = await reddit.submitPost({ subreddit: 'SaaS', title: 'How we cut churn by 30%', text: 'Here is what worked.', flairText: 'tools' });
+
+      expect(result).toEqual({
+        id: '1g6xk2p',
+        name: 't3_1g6xk2p',
+        url: 'https://www.reddit.com/r/SaaS/comments/1g6xk2p/how_we_cut_churn_by_30/',
+      });
+      const form = new URLSearchParams(server.requestsTo('POST', '/api/submit')[0].body);
+      expect(form.get('sr')).toBe('SaaS');
+      expect(form.get('kind')).toBe('self');
+      expect(form.get('text')).toBe('Here is what worked.');
+      expect(form.get('flair_id')).toBe('2c1a3f0e-7d4b-11ee-9f4a-7ad0c3b1a001');
+      expect(form.has('flair_text')).toBe(false);
+      expect(server.requests[0].headers['user-agent']).toBe('AIPromote/1.0');
+    });
+
+    it('should fail before submitting when the flair does not exist', async () => {
+      const reddit = new RedditService({ accessToken: 'reddit.test' }, { baseURL: server.baseUrl });
+
+      await expect(reddit.submitPost({ subreddit: 'SaaS', title: 'Hello', text: 'Body', flairText: 'Memes' }))
+        .rejects
+        .toThrow('Flair "Memes" does not exist in r/SaaS');
+      expect(server.requestsTo('POST', '/api/submit')).toHaveLength(0);
+    });
+
+    it('should read post metrics and delete by fullname', async () => {
+      const reddit = new RedditService({ accessToken: 'reddit.test' }, { baseURL: server.baseUrl });
+
+      expect(await reddit.getPostAnalytics('1g6xk2p')).toEqual(expect.objectContaining({ score: 87, upvotes: 92, comments: 23, crossposts: 2, views: 0 }));
+      expect(server.requestsTo('GET', '/api/info')[0].query.id).toBe('t3_1g6xk2p');
+
+      expect(await reddit.deletePost('t3_1g6xk2p')).toBe(true);
+      expect(new URLSearchParams(server.requestsTo('POST', '/api/del')[0].body).get('id')).toBe('t3_1g6xk2p');
+    });
+  });
+
+  describe('ThreadsService', () => {
+    beforeEach(async () => {
+      server = await startFixtureServer('threads');
+    });
+
+    it('should wait for the image container before publishing', async () => {
+      const threads = new ThreadsService(
+        { accessToken: 'th.test', userId: '17841400000000001' },
+        { baseURL: server.baseUrl, pollIntervalMs: 0 }
+      );
+
+      const result = await threads.publishPost({ text: 'Shipping today', imageUrl: 'https://cdn.example.com/launch.png' });
+
+      expect(result).toEqual({ id: '18022222222222222', permalink: 'https://www.threads.net/@aipromote/post/DBx1aBcDeFg' });
+      expect(server.requestsTo('POST', '/17841400000000001/threads')[0].query).toEqual({
+        access_token: 'th.test',
+        media_type: 'IMAGE',
+        text: 'Shipping today',
+        image_url: 'https://cdn.example.com/launch.png',
+      });
+      expect(server.requestsTo('GET', '/18011111111111111')).toHaveLength(2);
+      expect(server.requestsTo('POST', '/17841400000000001/threads_publish')[0].query.creation_id).toBe('18011111111111111');
+    });
+
+    it('should enforce the text limit', async () => {
+      const threads = new ThreadsService({ accessToken: 'th.test' }, { baseURL: server.baseUrl });
+
+      await expect(threads.publishPost({ text: 'x'.repeat(501) })).rejects.toThrow('limited to 500 characters');
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('should read insights and delete posts', async () => {
+      const threads = new ThreadsService({ accessToken: 'th.test' }, { baseURL: server.baseUrl });
+
+      expect(await threads.getPostAnalytics('18022222222222222')).toEqual({
+        views: 2400,
+        likes: 180,
+        replies: 21,
+        reposts: 9,
+        quotes: 3,
+        shares: 5,
+      });
+      expect(await threads.deletePost('18022222222222222')).toBe(true);
+    });
+  });
+
+  describe('YouTubeService', () => {
+    beforeEach(async () => {
+      server = await startFixtureServer('youtube');
+    });
+
+    it('should upload the Short through a resumable session', async () => {
+      const youtube = new YouTubeService({ accessToken: 'ya29.test' }, { baseURL: server.baseUrl });
+
+      const result = await youtube.uploadShort({
+        videoUrl: `${server.baseUrl}/media/launch-short.mp4`,
+        title: 'Launch day in <30> seconds',
+        description: 'Everything we shipped',
+        privacyStatus: 'unlisted',
+      });
+
+      expect(result).toEqual({ id: 'dQw4w9WgXcQ', title: 'Launch day in 30 seconds', privacyStatus: 'unlisted', uploadStatus: 'uploaded' });
+      const session = server.requestsTo('POST', '/upload/youtube/v3/videos')[0];
+      expect(session.query).toEqual({ uploadType: 'resumable', part: 'snippet,status' });
+      expect(session.headers['x-upload-content-type']).toBe('video/mp4');
+      expect(session.headers['x-upload-content-length']).toBe(String('recorded-mp4-bytes'.length));
+      expect(JSON.parse(session.body)).toEqual({
+        snippet: { title: 'Launch day in 30 seconds', description: 'Everything we shipped\n\n#Shorts', categoryId: '22' },
+        status: { privacyStatus: 'unlisted', selfDeclaredMadeForKids: false },
+      });
+      const upload = server.requestsTo('PUT', '/upload/youtube/v3/videos')[0];
+      expect(upload.query.upload_id).toBe('ADPycdv1');
+      expect(upload.body).toBe('recorded-mp4-bytes');
+    });
+
+    it('should read statistics, delete videos and keep the refresh token', async () => {
+      const youtube = new YouTubeService({ accessToken: 'ya29.test' }, { baseURL: server.baseUrl });
+
+      expect(await youtube.getVideoAnalytics('dQw4w9WgXcQ')).toEqual({ views: 4810, likes: 312, comments: 27, favorites: 0 });
+      expect(await youtube.deleteVideo('dQw4w9WgXcQ')).toBe(true);
+      expect(server.requestsTo('DELETE', '/youtube/v3/videos')[0].query.id).toBe('dQw4w9WgXcQ');
+      expect(await YouTubeService.refreshAccessToken('1//refresh', `${server.baseUrl}/token`)).toEqual({
+        accessToken: 'ya29.refreshed',
+        expiresIn: 3599,
+        refreshToken: '1//refresh',
+      });
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { WeeklyCoachService, weekStartOf } from '../../../src/services/weekly-coach';
+import { ValidationError } from '../../../src/utils/errors';
+
+const now = new Date('2026-10-19T06:00:00Z'); // A Monday
+const weekStart = new Date('2026-10-12T00:00:00Z');
+
+const mockPrisma: any = {
+  $queryRaw: jest.fn(),
+  $transaction: jest.fn(),
+  organization: { findUnique: jest.fn(), findMany: jest.fn() },
+  weeklySummary: { findUnique: jest.fn(), findFirst: jest.fn(), findMany: jest.fn(), upsert: jest.fn(), update: jest.fn() },
+  aIStrategy: { findFirst: jest.fn(), count: jest.fn(), create: jest.fn(), updateMany: jest.fn() },
+};
+
+const mockLLM: any = { generateStructured: jest.fn() };
+const mockEmail: any = { send: jest.fn() };
+
+function postRow(id: string, impressions: number, engagements: number, overrides: Record<string, any> = {}) {
+  return {
+    scheduledPostId: id,
+    platform: 'TWITTER',
+    publishedAt: new Date('2026-10-14T09:00:00Z'),
+    title: null,
+    excerpt: `Post ${id}`,
+    pillar: 'Education',
+    impressions,
+    engagements,
+    clicks: 0,
+    ...overrides,
+  };
+}
+
+const coachResponse = {
+  summary: 'Walkthroughs carried the week.',
+  keyInsights: [{ title: 'Walkthroughs lead', detail: 'Post p1 reached 10% engagement.' }],
+  strategyChanges: [
+    { area: 'cadence', title: 'Post walkthroughs on Tuesdays', change: 'Move the Tuesday slot to walkthroughs', rationale: '10% vs 1%' },
+    { area: 'positioning', title: 'Lead with outcomes', change: 'Open with the result', rationale: 'Outcome hooks beat feature hooks' },
+  ],
+  contentPivots: [{ title: 'Tutorials over announcements', rationale: 'Announcements trailed at 1%', examples: ['How we cut setup to 5 minutes'] }],
+};
+
+describe('WeeklyCoachService', () => {
+  const service = new WeeklyCoachService(mockPrisma, mockLLM, mockEmail);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrisma.$transaction.mockImplementation(async (callback: any) => callback(mockPrisma));
+    mockPrisma.weeklySummary.upsert.mockImplementation(async ({ create }: any) => ({ id: 'sum_1', emailedAt: null, ...create }));
+    mockPrisma.weeklySummary.update.mockImplementation(async ({ data }: any) => ({ id: 'sum_1', ...data }));
+    mockPrisma.organization.findUnique.mockResolvedValue({
+      name: 'Acme',
+      category: 'SaaS',
+      timeZone: 'UTC',
+      user: { email: 'founder@acme.test', name: 'Sam' },
+    });
+  });
+
+  it('should start weeks on Monday in UTC', () => {
+    expect(weekStartOf(new Date('2026-10-18T23:30:00Z'))).toEqual(weekStart);
+    expect(weekStartOf(new Date('2026-10-19T00:00:00Z'))).toEqual(new Date('2026-10-19T00:00:00Z'));
+    // Still Sunday evening in New York; weeks in Auckland started 13 hours earlier
+    expect(weekStartOf(new Date('2026-10-19T03:00:00Z'), 'America/New_York')).toEqual(new Date('2026-10-12T04:00:00Z'));
+    expect(weekStartOf(new Date('2026-10-18T12:00:00Z'), 'Pacific/Auckland')).toEqual(new Date('2026-10-18T11:00:00Z'));
+  });
+
+  it('should generate reports from 06:00 on Monday local time for each organization', async () => {
+    mockPrisma.organization.findMany.mockResolvedValue([
+      { id: 'org_utc', timeZone: 'UTC', weeklySummaries: [] },
+      { id: 'org_done', timeZone: 'UTC', weeklySummaries: [{ weekStart }] },
+      { id: 'org_ny', timeZone: 'America/New_York', weeklySummaries: [] },
+      { id: 'org_tokyo', timeZone: 'Asia/Tokyo', weeklySummaries: [] },
+    ]);
+    const generate = jest.spyOn(service, 'generate').mockResolvedValue({ id: 'sum_1' } as any);
+
+    await expect(service.generateDue(now)).resolves.toEqual({ generated: 2, skipped: 0, failed: 0 });
+
+    // 06:00 UTC is still Monday 02:00 in New York; Tokyo is already at 15:00
+    expect(generate.mock.calls).toEqual([
+      ['org_utc', { weekStart, now }],
+      ['org_tokyo', { weekStart: new Date('2026-10-11T15:00:00Z'), now }],
+    ]);
+    generate.mockRestore();
+  });
+
+  it('should rank posts, ask for grounded recommendations and email the report', async () => {
+    mockPrisma.$queryRaw
+      .mockResolvedValueOnce([
+        postRow('p1', 1000, 100),
+        postRow('p2', 2000, 20, { platform: 'LINKEDIN' }),
+        postRow('p3', 50, 40), // Too few impressions to rank by rate
+        postRow('p4', 500, 25, { clicks: 10 }),
+      ])
+      .mockResolvedValueOnce([postRow('old', 1000, 30)]);
+    mockLLM.generateStructured.mockResolvedValue({ data: coachResponse, generatedBy: 'gpt-4o' });
+    mockEmail.send.mockResolvedValue(true);
+
+    const summary = await service.generate('org_1', { now });
+
+    const { create } = mockPrisma.weeklySummary.upsert.mock.calls[0][0];
+    expect(create).toEqual(expect.objectContaining({
+      organizationId: 'org_1',
+      weekStart,
+      weekEnd: new Date('2026-10-18T23:59:59.999Z'),
+      totalPosts: 4,
+      avgEngagement: 5.21,
+      topPerformer: 'p1',
+      generatedBy: 'gpt-4o',
+      recommendations: { strategyChanges: coachResponse.strategyChanges, contentPivots: coachResponse.contentPivots },
+    }));
+    expect(create.keyInsights.topPosts.map((post: any) => post.scheduledPostId)).toEqual(['p1', 'p4', 'p2']);
+    expect(create.keyInsights.bottomPosts.map((post: any) => post.scheduledPostId)).toEqual([]);
+    expect(create.keyInsights.previousWeek).toEqual(expect.objectContaining({ posts: 1, engagementRate: 3 }));
+    expect(create.reportMd).toContain('| Engagements | 185 | 30 | +516.7% |');
+    expect(create.reportMd).toContain('1. **Post walkthroughs on Tuesdays** (cadence)');
+
+    const { prompt } = mockLLM.generateStructured.mock.calls[0][0];
+    expect(mockLLM.generateStructured.mock.calls[0][0].task).toBe('coach.weekly');
+    expect(prompt).toContain('Engagement rate: 5.21% (3%)');
+    expect(prompt).toContain('"Post p1": 10% engagement');
+
+    expect(mockEmail.send).toHaveBeenCalledWith(expect.objectContaining({ to: 'founder@acme.test' }));
+    expect(summary).toEqual(expect.objectContaining({ emailedAt: now }));
+  });
+
+  it('should keep the numbers when the LLM fails and skip it for an empty week', async () => {
+    mockPrisma.$queryRaw.mockResolvedValueOnce([postRow('p1', 1000, 100)]).mockResolvedValueOnce([]);
+    mockLLM.generateStructured.mockRejectedValue(new Error('Provider unavailable'));
+
+    await service.generate('org_1', { now, sendEmail: false });
+
+    let { create } = mockPrisma.weeklySummary.upsert.mock.calls[0][0];
+    expect(create).toEqual(expect.objectContaining({ totalPosts: 1, generatedBy: null }));
+    expect(create.recommendations).toEqual({ strategyChanges: [], contentPivots: [] });
+    expect(create.reportMd).toContain('_Recommendations could not be generated this week._');
+    expect(mockEmail.send).not.toHaveBeenCalled();
+
+    mockLLM.generateStructured.mockClear();
+    mockPrisma.$queryRaw.mockResolvedValue([]);
+    await service.generate('org_1', { now, sendEmail: false });
+
+    create = mockPrisma.weeklySummary.upsert.mock.calls[1][0].create;
+    expect(mockLLM.generateStructured).not.toHaveBeenCalled();
+    expect(create.reportMd).toContain('Nothing was published this week');
+  });
+
+  it('should return an existing summary and refuse unfinished weeks', async () => {
+    mockPrisma.weeklySummary.findUnique.mockResolvedValue({ id: 'sum_existing' });
+
+    await expect(service.generate('org_1', { now })).resolves.toEqual({ id: 'sum_existing' });
+    expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+
+    await expect(service.generate('org_1', { now, weekStart: new Date('2026-10-19T00:00:00Z') })).rejects.toThrow(ValidationError);
+    await expect(service.generate('org_1', { now, weekStart: new Date('2026-10-13T00:00:00Z') })).rejects.toThrow('weekStart must be a Monday at 00:00 in UTC');
+  });
+
+  it('should apply accepted recommendations to a new strategy version', async () => {
+    mockPrisma.weeklySummary.findFirst.mockResolvedValue({
+      id: 'sum_1',
+      weekStart,
+      accepted: false,
+      recommendations: { strategyChanges: coachResponse.strategyChanges, contentPivots: coachResponse.contentPivots },
+    });
+    mockPrisma.aIStrategy.findFirst.mockResolvedValue({
+      id: 'strat_2',
+      version: 2,
+      positioning: { statement: 'Marketing for small teams' },
+      audienceSegments: [],
+      contentPillars: [],
+      channelPlan: {},
+      cadence: { weeklyAdjustments: [{ title: 'Earlier change' }] },
+      calendarSkeleton: { weeks: [] },
+      generatedBy: 'gpt-4o',
+      confidence: 0.8,
+    });
+    mockPrisma.aIStrategy.count.mockResolvedValue(2);
+    mockPrisma.aIStrategy.create.mockImplementation(async ({ data }: any) => ({ id: 'strat_3', ...data }));
+
+    const result = await service.accept({ organizationId: 'org_1', summaryId: 'sum_1', strategyChanges: [0], now });
+
+    const { data } = mockPrisma.aIStrategy.create.mock.calls[0][0];
+    expect(data).toEqual(expect.objectContaining({ version: 3, status: 'ACTIVE', acceptedAt: now, positioning: { statement: 'Marketing for small teams' } }));
+    expect(data.cadence.weeklyAdjustments).toEqual([
+      { title: 'Earlier change' },
+      expect.objectContaining({ summaryId: 'sum_1', title: 'Post walkthroughs on Tuesdays' }),
+    ]);
+    expect(data.calendarSkeleton.weeklyAdjustments).toEqual([expect.objectContaining({ title: 'Tutorials over announcements' })]);
+    expect(mockPrisma.aIStrategy.updateMany).toHaveBeenCalledWith({
+      where: { organizationId: 'org_1', id: { not: 'strat_3' }, status: 'ACTIVE' },
+      data: { status: 'ARCHIVED' },
+    });
+    expect(result?.summary).toEqual(expect.objectContaining({ accepted: true, strategyId: 'strat_3' }));
+    expect((result?.summary.recommendations as any).strategyChanges.map((change: any) => change.accepted)).toEqual([true, false]);
+
+    await expect(service.accept({ organizationId: 'org_1', summaryId: 'sum_1', strategyChanges: [5], now })).rejects.toThrow(ValidationError);
+
+    mockPrisma.weeklySummary.findFirst.mockResolvedValue(null);
+    await expect(service.accept({ organizationId: 'org_1', summaryId: 'sum_other', now })).resolves.toBeNull();
+  });
+});